@@ -0,0 +1,104 @@
+// src/adapters/api/graphql/account/account-lifecycle.resolver.ts
+
+import { mapJwtToUsecaseSession } from '@app-types/auth/session.types';
+import { JwtPayload } from '@app-types/jwt.types';
+import { IdentityTypeEnum } from '@app-types/models/account.types';
+import { UseGuards } from '@nestjs/common';
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import {
+  AccountDataExportArchiveDTO,
+  AccountDataExportDTO,
+  AccountDeletionDTO,
+  EraseAccountInput,
+  EraseAccountResult,
+} from '@src/adapters/api/graphql/account/dto/account-lifecycle.dto';
+import { currentUser } from '@src/adapters/api/graphql/decorators/current-user.decorator';
+import { Roles } from '@src/adapters/api/graphql/decorators/roles.decorator';
+import { JwtAuthGuard } from '@src/adapters/api/graphql/guards/jwt-auth.guard';
+import { NoImpersonationGuard } from '@src/adapters/api/graphql/guards/no-impersonation.guard';
+import { RolesGuard } from '@src/adapters/api/graphql/guards/roles.guard';
+import { EraseAccountUsecase } from '@src/usecases/account/erase-account.usecase';
+import { GetDataExportArchiveUsecase } from '@src/usecases/account/get-data-export-archive.usecase';
+import { RequestAccountDeletionUsecase } from '@src/usecases/account/request-account-deletion.usecase';
+import { RequestDataExportUsecase } from '@src/usecases/account/request-data-export.usecase';
+
+/**
+ * 账户注销与个人数据导出 GraphQL 解析器
+ */
+@Resolver()
+export class AccountLifecycleResolver {
+  constructor(
+    private readonly requestAccountDeletionUsecase: RequestAccountDeletionUsecase,
+    private readonly eraseAccountUsecase: EraseAccountUsecase,
+    private readonly requestDataExportUsecase: RequestDataExportUsecase,
+    private readonly getDataExportArchiveUsecase: GetDataExportArchiveUsecase,
+  ) {}
+
+  /**
+   * 申请注销当前账户
+   * 冷静期满后账户被匿名化，期间可登录撤销
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => AccountDeletionDTO, { description: '申请注销当前账户' })
+  async requestAccountDeletion(@currentUser() user: JwtPayload): Promise<AccountDeletionDTO> {
+    return await this.requestAccountDeletionUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+    });
+  }
+
+  /**
+   * 撤销注销申请
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => AccountDeletionDTO, { description: '撤销注销申请' })
+  async cancelAccountDeletion(@currentUser() user: JwtPayload): Promise<AccountDeletionDTO> {
+    return await this.requestAccountDeletionUsecase.cancel({
+      session: mapJwtToUsecaseSession(user),
+    });
+  }
+
+  /**
+   * 管理端：立即注销账户并匿名化个人数据（不可恢复）
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard, NoImpersonationGuard)
+  @Roles(IdentityTypeEnum.ADMIN)
+  @Mutation(() => EraseAccountResult, { description: '注销账户并匿名化个人数据' })
+  async eraseAccount(
+    @Args('input') input: EraseAccountInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<EraseAccountResult> {
+    return await this.eraseAccountUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+      accountId: input.accountId,
+      reason: input.reason,
+    });
+  }
+
+  /**
+   * 申请导出个人数据
+   * 归档异步生成，下载链接通过登录邮箱发送
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => AccountDataExportDTO, { description: '申请导出个人数据' })
+  async exportMyData(@currentUser() user: JwtPayload): Promise<AccountDataExportDTO> {
+    return await this.requestDataExportUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+    });
+  }
+
+  /**
+   * 按邮件中的下载令牌读取个人数据归档（仅本人）
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Query(() => AccountDataExportArchiveDTO, { description: '下载个人数据归档' })
+  async dataExportArchive(
+    @Args('token', { type: () => String }) token: string,
+    @currentUser() user: JwtPayload,
+  ): Promise<AccountDataExportArchiveDTO> {
+    const { record, archive } = await this.getDataExportArchiveUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+      token,
+    });
+    return { export: record, archive };
+  }
+}
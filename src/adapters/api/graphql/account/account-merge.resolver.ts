@@ -0,0 +1,62 @@
+// src/adapters/api/graphql/account/account-merge.resolver.ts
+
+import { mapJwtToUsecaseSession } from '@app-types/auth/session.types';
+import { JwtPayload } from '@app-types/jwt.types';
+import { IdentityTypeEnum } from '@app-types/models/account.types';
+import { UseGuards } from '@nestjs/common';
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import {
+  AccountMergeReportDTO,
+  MergeAccountsInput,
+  MergeMyAccountInput,
+} from '@src/adapters/api/graphql/account/dto/account-merge.dto';
+import { currentUser } from '@src/adapters/api/graphql/decorators/current-user.decorator';
+import { Roles } from '@src/adapters/api/graphql/decorators/roles.decorator';
+import { JwtAuthGuard } from '@src/adapters/api/graphql/guards/jwt-auth.guard';
+import { NoImpersonationGuard } from '@src/adapters/api/graphql/guards/no-impersonation.guard';
+import { RolesGuard } from '@src/adapters/api/graphql/guards/roles.guard';
+import { MergeAccountsUsecase } from '@src/usecases/account/merge-accounts.usecase';
+
+/**
+ * 账户合并 GraphQL 解析器
+ */
+@Resolver()
+export class AccountMergeResolver {
+  constructor(private readonly mergeAccountsUsecase: MergeAccountsUsecase) {}
+
+  /**
+   * 管理端：将源账户并入目标账户，源账户合并后注销
+   * 建议先以 dryRun 预检冲突
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard, NoImpersonationGuard)
+  @Roles(IdentityTypeEnum.ADMIN)
+  @Mutation(() => AccountMergeReportDTO, { description: '合并重复账户' })
+  async mergeAccounts(
+    @Args('input') input: MergeAccountsInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<AccountMergeReportDTO> {
+    return await this.mergeAccountsUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+      sourceAccountId: input.sourceAccountId,
+      targetAccountId: input.targetAccountId,
+      dryRun: input.dryRun ?? false,
+    });
+  }
+
+  /**
+   * 将本人的另一个账户并入当前账户
+   * 需提供该账户的 access token 证明控制权
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => AccountMergeReportDTO, { description: '将本人的另一个账户并入当前账户' })
+  async mergeMyAccount(
+    @Args('input') input: MergeMyAccountInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<AccountMergeReportDTO> {
+    return await this.mergeAccountsUsecase.executeForSelf({
+      session: mapJwtToUsecaseSession(user),
+      sourceAccessToken: input.sourceAccessToken,
+      dryRun: input.dryRun ?? false,
+    });
+  }
+}
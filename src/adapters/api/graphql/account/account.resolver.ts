@@ -1,19 +1,51 @@
 // src/adapters/api/graphql/account/account.resolver.ts
 import { mapJwtToUsecaseSession } from '@app-types/auth/session.types';
 import { JwtPayload } from '@app-types/jwt.types';
+import { IdentityTypeEnum } from '@app-types/models/account.types';
 import { VerificationRecordType } from '@app-types/models/verification-record.types';
 import { UseGuards } from '@nestjs/common';
 import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import {
+  SetAccountStatusInput,
+  SetAccountStatusResult,
+  SetAccountsStatusInput,
+  SetAccountsStatusResult,
+} from '@src/adapters/api/graphql/account/dto/account-status.dto';
 import { AccountArgs } from '@src/adapters/api/graphql/account/dto/account.args';
+import { AccountsArgs } from '@src/adapters/api/graphql/account/dto/accounts.args';
+import { AccountsListResponse } from '@src/adapters/api/graphql/account/dto/accounts.list';
+import { ChangePasswordInput } from '@src/adapters/api/graphql/account/dto/change-password.input';
+import { PasswordHashReportDTO } from '@src/adapters/api/graphql/account/dto/password-hash-report.dto';
 import {
   ResetPasswordInput,
   ResetPasswordResult,
 } from '@src/adapters/api/graphql/account/dto/reset-password.dto';
+import {
+  BindPhoneInput,
+  RequestSmsCodeInput,
+  RequestSmsCodeResult,
+} from '@src/adapters/api/graphql/account/dto/sms-code.dto';
 import { UserAccountDTO } from '@src/adapters/api/graphql/account/dto/user-account.dto';
+import {
+  ResendVerificationEmailInput,
+  VerifyEmailInput,
+  VerifyEmailResult,
+} from '@src/adapters/api/graphql/account/dto/verify-email.dto';
+import { clientIp } from '@src/adapters/api/graphql/decorators/client-ip.decorator';
 import { currentUser } from '@src/adapters/api/graphql/decorators/current-user.decorator';
+import { Roles } from '@src/adapters/api/graphql/decorators/roles.decorator';
 import { JwtAuthGuard } from '@src/adapters/api/graphql/guards/jwt-auth.guard';
+import { NoImpersonationGuard } from '@src/adapters/api/graphql/guards/no-impersonation.guard';
+import { RolesGuard } from '@src/adapters/api/graphql/guards/roles.guard';
+import { ChangePasswordUsecase } from '@src/usecases/account/change-password.usecase';
 import { GetAccountByIdUsecase } from '@src/usecases/account/get-account-by-id.usecase';
+import { GetPasswordHashReportUsecase } from '@src/usecases/account/get-password-hash-report.usecase';
+import { ListAccountsUsecase } from '@src/usecases/account/list-accounts.usecase';
+import { SetAccountStatusUsecase } from '@src/usecases/account/set-account-status.usecase';
 import { ConsumeVerificationFlowUsecase } from '@src/usecases/verification/consume-verification-flow.usecase';
+import { SendVerificationEmailUsecase } from '@src/usecases/verification/email/send-verification-email.usecase';
+import { BindPhoneUsecase } from '@src/usecases/verification/sms/bind-phone.usecase';
+import { RequestSmsCodeUsecase } from '@src/usecases/verification/sms/request-sms-code.usecase';
 
 /**
  * 账户 GraphQL 解析器
@@ -23,6 +55,13 @@ export class AccountResolver {
   constructor(
     private readonly getAccountByIdUsecase: GetAccountByIdUsecase,
     private readonly consumeVerificationFlowUsecase: ConsumeVerificationFlowUsecase,
+    private readonly changePasswordUsecase: ChangePasswordUsecase,
+    private readonly getPasswordHashReportUsecase: GetPasswordHashReportUsecase,
+    private readonly sendVerificationEmailUsecase: SendVerificationEmailUsecase,
+    private readonly requestSmsCodeUsecase: RequestSmsCodeUsecase,
+    private readonly bindPhoneUsecase: BindPhoneUsecase,
+    private readonly listAccountsUsecase: ListAccountsUsecase,
+    private readonly setAccountStatusUsecase: SetAccountStatusUsecase,
   ) {}
 
   /**
@@ -53,13 +92,91 @@ export class AccountResolver {
     };
   }
 
+  /**
+   * 管理端：账户目录
+   * 按状态、访问组、身份提示、创建 / 最近登录时间区间筛选，支持登录名 / 邮箱 / 昵称模糊搜索
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(IdentityTypeEnum.ADMIN)
+  @Query(() => AccountsListResponse, { description: '管理端账户目录' })
+  async accounts(
+    @Args() args: AccountsArgs,
+    @currentUser() user: JwtPayload,
+  ): Promise<AccountsListResponse> {
+    const result = await this.listAccountsUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+      filters: {
+        query: args.query,
+        status: args.status,
+        accessGroup: args.accessGroup,
+        identityHint: args.identityHint,
+        createdAfter: args.createdAfter,
+        createdBefore: args.createdBefore,
+        lastLoginAfter: args.lastLoginAfter,
+        lastLoginBefore: args.lastLoginBefore,
+      },
+      page: args.page,
+      limit: args.limit,
+      sortBy: args.sortBy,
+      sortOrder: args.sortOrder,
+    });
+    return {
+      list: result.items,
+      current: result.page,
+      pageSize: result.limit,
+      total: result.total,
+      totalPages: result.totalPages,
+    };
+  }
+
+  /**
+   * 管理端：变更账户状态（封禁 / 暂停 / 解封）
+   * 状态变化后该账户下全部会话失效
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard, NoImpersonationGuard)
+  @Roles(IdentityTypeEnum.ADMIN)
+  @Mutation(() => SetAccountStatusResult, { description: '变更账户状态' })
+  async setAccountStatus(
+    @Args('input') input: SetAccountStatusInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<SetAccountStatusResult> {
+    return await this.setAccountStatusUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+      accountId: input.accountId,
+      status: input.status,
+      reason: input.reason,
+    });
+  }
+
+  /**
+   * 管理端：批量变更账户状态
+   * 无法变更的账户原样返回，不整体失败
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard, NoImpersonationGuard)
+  @Roles(IdentityTypeEnum.ADMIN)
+  @Mutation(() => SetAccountsStatusResult, { description: '批量变更账户状态' })
+  async setAccountsStatus(
+    @Args('input') input: SetAccountsStatusInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<SetAccountsStatusResult> {
+    return await this.setAccountStatusUsecase.executeBulk({
+      session: mapJwtToUsecaseSession(user),
+      accountIds: input.accountIds,
+      status: input.status,
+      reason: input.reason,
+    });
+  }
+
   /**
    * 重置密码
    * 使用通用的验证流程消费用例，在事务中完成验证记录消费和密码重置
    * 注意：前端应该先通过 findVerificationRecord 查询预读验证记录
    */
   @Mutation(() => ResetPasswordResult)
-  async resetPassword(@Args('input') input: ResetPasswordInput): Promise<ResetPasswordResult> {
+  async resetPassword(
+    @Args('input') input: ResetPasswordInput,
+    @clientIp() requestIp?: string,
+  ): Promise<ResetPasswordResult> {
     try {
       // 直接使用通用的验证流程消费用例
       // 预读步骤应该由前端通过 findVerificationRecord 查询完成
@@ -69,6 +186,7 @@ export class AccountResolver {
         resetPassword: {
           newPassword: input.newPassword,
         },
+        clientIp: requestIp,
       });
 
       return {
@@ -83,4 +201,111 @@ export class AccountResolver {
       };
     }
   }
+
+  /**
+   * 验证邮箱
+   * 消费邮件中的 EMAIL_VERIFY_LINK，标记邮箱已验证并激活 PENDING 账户
+   */
+  @Mutation(() => VerifyEmailResult, { description: '验证邮箱' })
+  async verifyEmail(
+    @Args('input') input: VerifyEmailInput,
+    @clientIp() requestIp?: string,
+  ): Promise<VerifyEmailResult> {
+    try {
+      const result = await this.consumeVerificationFlowUsecase.execute({
+        token: input.token,
+        expectedType: VerificationRecordType.EMAIL_VERIFY_LINK,
+        clientIp: requestIp,
+      });
+
+      return {
+        success: true,
+        message: '邮箱验证成功',
+        accountId: result.accountId,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `邮箱验证失败：${error instanceof Error ? error.message : '未知错误'}`,
+      };
+    }
+  }
+
+  /**
+   * 重新发送邮箱验证邮件
+   * 邮箱未注册或已验证时同样返回 true，避免暴露账户是否存在
+   */
+  @Mutation(() => Boolean, { description: '重新发送邮箱验证邮件' })
+  async resendVerificationEmail(
+    @Args('input') input: ResendVerificationEmailInput,
+  ): Promise<boolean> {
+    await this.sendVerificationEmailUsecase.resend({ email: input.email });
+    return true;
+  }
+
+  /**
+   * 请求短信验证码
+   * LOGIN 用途下手机号未绑定账户时同样返回成功，避免暴露账户是否存在
+   */
+  @Mutation(() => RequestSmsCodeResult, { description: '请求短信验证码' })
+  async requestSmsCode(
+    @Args('input') input: RequestSmsCodeInput,
+    @clientIp() requestIp?: string,
+  ): Promise<RequestSmsCodeResult> {
+    return await this.requestSmsCodeUsecase.execute({
+      phone: input.phone,
+      purpose: input.purpose,
+      ip: requestIp,
+    });
+  }
+
+  /**
+   * 绑定手机号（已登录用户）
+   * 消费 BIND_PHONE 验证码，绑定后可使用短信验证码登录
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => Boolean, { description: '绑定手机号' })
+  async bindPhone(
+    @Args('input') input: BindPhoneInput,
+    @currentUser() user: JwtPayload,
+    @clientIp() requestIp?: string,
+  ): Promise<boolean> {
+    await this.bindPhoneUsecase.execute({
+      accountId: user.sub,
+      phone: input.phone,
+      code: input.code,
+      ip: requestIp,
+    });
+    return true;
+  }
+
+  /**
+   * 修改密码（已登录用户）
+   * 成功后账户下全部会话（含当前会话）失效，需使用新密码重新登录
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => Boolean, { description: '修改密码' })
+  async changePassword(
+    @Args('input') input: ChangePasswordInput,
+    @currentUser() user: JwtPayload,
+    @clientIp() requestIp?: string,
+  ): Promise<boolean> {
+    await this.changePasswordUsecase.execute({
+      accountId: user.sub,
+      oldPassword: input.oldPassword,
+      newPassword: input.newPassword,
+      ip: requestIp,
+    });
+    return true;
+  }
+
+  /**
+   * 管理端：密码哈希迁移进度（老方案账户在登录成功后自动迁移）
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(IdentityTypeEnum.ADMIN)
+  @Query(() => PasswordHashReportDTO, { description: '密码哈希方案分布（迁移进度）' })
+  async passwordHashReport(): Promise<PasswordHashReportDTO> {
+    return await this.getPasswordHashReportUsecase.execute();
+  }
 }
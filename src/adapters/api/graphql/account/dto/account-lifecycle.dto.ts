@@ -0,0 +1,92 @@
+// src/adapters/api/graphql/account/dto/account-lifecycle.dto.ts
+
+import { ACCOUNT_STATUS_REASON_MAX_LENGTH } from '@app-types/models/account.types';
+import { AccountDataExportStatus } from '@app-types/models/account-lifecycle.types';
+import { Field, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { IsInt, IsNotEmpty, IsPositive, IsString, MaxLength } from 'class-validator';
+
+/**
+ * 账户注销申请状态
+ */
+@ObjectType()
+export class AccountDeletionDTO {
+  @Field(() => Int, { description: '账户 ID' })
+  accountId!: number;
+
+  @Field(() => Date, { nullable: true, description: '申请时间（未申请或已撤销时为空）' })
+  deletionRequestedAt!: Date | null;
+
+  @Field(() => Date, { nullable: true, description: '计划注销时间，冷静期内可撤销' })
+  deletionScheduledAt!: Date | null;
+}
+
+/**
+ * 管理员注销账户输入参数
+ */
+@InputType()
+export class EraseAccountInput {
+  @Field(() => Int, { description: '账户 ID' })
+  @IsInt({ message: '账户 ID 必须是整数' })
+  @IsPositive({ message: '账户 ID 必须是正整数' })
+  accountId!: number;
+
+  @Field(() => String, { description: '注销原因' })
+  @IsString()
+  @IsNotEmpty({ message: '注销原因不能为空' })
+  @MaxLength(ACCOUNT_STATUS_REASON_MAX_LENGTH, { message: '注销原因过长' })
+  reason!: string;
+}
+
+/**
+ * 注销账户结果
+ */
+@ObjectType()
+export class EraseAccountResult {
+  @Field(() => Int, { description: '账户 ID' })
+  accountId!: number;
+
+  @Field(() => [String], { description: '被匿名化的身份' })
+  identities!: string[];
+
+  @Field(() => Int, { description: '删除的第三方登录绑定数' })
+  thirdPartyBindings!: number;
+
+  @Field(() => Int, { description: '被作废的会话数' })
+  revokedSessions!: number;
+}
+
+/**
+ * 个人数据导出记录
+ */
+@ObjectType()
+export class AccountDataExportDTO {
+  @Field(() => Int, { description: '导出记录 ID' })
+  id!: number;
+
+  @Field(() => AccountDataExportStatus, { description: '导出状态' })
+  status!: AccountDataExportStatus;
+
+  @Field(() => Int, { nullable: true, description: '归档大小（字节）' })
+  sizeBytes!: number | null;
+
+  @Field(() => Date, { nullable: true, description: '下载链接过期时间' })
+  expiresAt!: Date | null;
+
+  @Field(() => Date, { nullable: true, description: '生成完成时间' })
+  completedAt!: Date | null;
+
+  @Field(() => Date, { description: '申请时间' })
+  createdAt!: Date;
+}
+
+/**
+ * 个人数据归档
+ */
+@ObjectType()
+export class AccountDataExportArchiveDTO {
+  @Field(() => AccountDataExportDTO, { description: '导出记录' })
+  export!: AccountDataExportDTO;
+
+  @Field(() => String, { description: 'JSON 格式的归档内容' })
+  archive!: string;
+}
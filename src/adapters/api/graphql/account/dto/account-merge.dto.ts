@@ -0,0 +1,120 @@
+// src/adapters/api/graphql/account/dto/account-merge.dto.ts
+
+import { IdentityTypeEnum } from '@app-types/models/account.types';
+import { AccountMergeConflictScope } from '@app-types/models/account-merge.types';
+import { Field, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { IsBoolean, IsInt, IsNotEmpty, IsOptional, IsPositive, IsString } from 'class-validator';
+
+/**
+ * 管理员合并账户输入参数
+ */
+@InputType()
+export class MergeAccountsInput {
+  @Field(() => Int, { description: '被合并（合并后注销）的账户 ID' })
+  @IsInt({ message: '源账户 ID 必须是整数' })
+  @IsPositive({ message: '源账户 ID 必须是正整数' })
+  sourceAccountId!: number;
+
+  @Field(() => Int, { description: '保留的账户 ID' })
+  @IsInt({ message: '目标账户 ID 必须是整数' })
+  @IsPositive({ message: '目标账户 ID 必须是正整数' })
+  targetAccountId!: number;
+
+  @Field(() => Boolean, {
+    nullable: true,
+    defaultValue: false,
+    description: '仅预检冲突与影响范围，不执行合并',
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'dryRun 必须是布尔值' })
+  dryRun?: boolean = false;
+}
+
+/**
+ * 本人合并账户输入参数（当前登录账户为保留的账户）
+ */
+@InputType()
+export class MergeMyAccountInput {
+  @Field(() => String, { description: '被合并账户的 access token，用于证明同时控制该账户' })
+  @IsString()
+  @IsNotEmpty({ message: '源账户令牌不能为空' })
+  sourceAccessToken!: string;
+
+  @Field(() => Boolean, {
+    nullable: true,
+    defaultValue: false,
+    description: '仅预检冲突与影响范围，不执行合并',
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'dryRun 必须是布尔值' })
+  dryRun?: boolean = false;
+}
+
+/**
+ * 合并冲突项
+ */
+@ObjectType()
+export class AccountMergeConflictDTO {
+  @Field(() => AccountMergeConflictScope, { description: '冲突范围' })
+  scope!: AccountMergeConflictScope;
+
+  @Field(() => String, { description: '冲突对象：身份标识或第三方平台' })
+  key!: string;
+
+  @Field(() => String, { description: '冲突说明' })
+  reason!: string;
+}
+
+/**
+ * 单个身份的迁移统计
+ */
+@ObjectType()
+export class AccountMergeIdentityDTO {
+  @Field(() => String, { description: '身份标识' })
+  identity!: string;
+
+  @Field(() => Int, { description: '迁移的档案行数' })
+  moved!: number;
+}
+
+/**
+ * 账户合并报告
+ */
+@ObjectType()
+export class AccountMergeReportDTO {
+  @Field(() => Int, { description: '被合并的账户 ID' })
+  sourceAccountId!: number;
+
+  @Field(() => Int, { description: '保留的账户 ID' })
+  targetAccountId!: number;
+
+  @Field(() => Boolean, { description: '是否仅预检' })
+  dryRun!: boolean;
+
+  @Field(() => [AccountMergeConflictDTO], { description: '阻止合并的冲突，非空时不会执行合并' })
+  conflicts!: AccountMergeConflictDTO[];
+
+  @Field(() => [AccountMergeIdentityDTO], { description: '迁移的身份档案' })
+  identities!: AccountMergeIdentityDTO[];
+
+  @Field(() => Int, { description: '迁移的第三方登录绑定数' })
+  thirdPartyBindings!: number;
+
+  @Field(() => Int, { description: '改挂的验证记录数' })
+  verificationRecords!: number;
+
+  @Field(() => Int, { description: '改挂的异步任务记录数' })
+  asyncTaskRecords!: number;
+
+  @Field(() => Boolean, { description: '目标账户是否接管了源账户的登录凭证' })
+  credentialsMoved!: boolean;
+
+  @Field(() => [IdentityTypeEnum], { description: '合并后的访问组' })
+  accessGroup!: IdentityTypeEnum[];
+
+  @Field(() => IdentityTypeEnum, { nullable: true, description: '合并后的身份提示' })
+  identityHint!: IdentityTypeEnum | null;
+
+  @Field(() => Int, { description: '源账户被作废的会话数' })
+  revokedSessions!: number;
+}
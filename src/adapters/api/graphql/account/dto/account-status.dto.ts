@@ -0,0 +1,96 @@
+// src/adapters/api/graphql/account/dto/account-status.dto.ts
+
+import {
+  ACCOUNT_STATUS_BATCH_MAX_SIZE,
+  ACCOUNT_STATUS_REASON_MAX_LENGTH,
+  AccountStatus,
+} from '@app-types/models/account.types';
+import { Field, InputType, Int, ObjectType } from '@nestjs/graphql';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * 变更账户状态输入参数
+ */
+@InputType()
+export class SetAccountStatusInput {
+  @Field(() => Int, { description: '账户 ID' })
+  @IsInt({ message: '账户 ID 必须是整数' })
+  @IsPositive({ message: '账户 ID 必须是正整数' })
+  accountId!: number;
+
+  @Field(() => AccountStatus, { description: '目标状态（ACTIVE / BANNED / SUSPENDED）' })
+  @IsEnum(AccountStatus, { message: '账户状态无效' })
+  status!: AccountStatus;
+
+  @Field(() => String, { nullable: true, description: '变更原因（封禁 / 暂停时必填）' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(ACCOUNT_STATUS_REASON_MAX_LENGTH, { message: '变更原因过长' })
+  reason?: string | null;
+}
+
+/**
+ * 变更账户状态结果
+ */
+@ObjectType()
+export class SetAccountStatusResult {
+  @Field(() => Int, { description: '账户 ID' })
+  accountId!: number;
+
+  @Field(() => AccountStatus, { description: '变更前状态' })
+  previousStatus!: AccountStatus;
+
+  @Field(() => AccountStatus, { description: '当前状态' })
+  status!: AccountStatus;
+
+  @Field(() => Int, { description: '被作废的会话数' })
+  revokedSessions!: number;
+}
+
+/**
+ * 批量变更账户状态输入参数
+ */
+@InputType()
+export class SetAccountsStatusInput {
+  @Field(() => [Int], { description: `账户 ID 列表（最多 ${ACCOUNT_STATUS_BATCH_MAX_SIZE} 个）` })
+  @ArrayNotEmpty({ message: '账户 ID 列表不能为空' })
+  @ArrayMaxSize(ACCOUNT_STATUS_BATCH_MAX_SIZE, {
+    message: `单次最多变更 ${ACCOUNT_STATUS_BATCH_MAX_SIZE} 个账户`,
+  })
+  @IsInt({ each: true, message: '账户 ID 必须是整数' })
+  @IsPositive({ each: true, message: '账户 ID 必须是正整数' })
+  accountIds!: number[];
+
+  @Field(() => AccountStatus, { description: '目标状态（ACTIVE / BANNED / SUSPENDED）' })
+  @IsEnum(AccountStatus, { message: '账户状态无效' })
+  status!: AccountStatus;
+
+  @Field(() => String, { nullable: true, description: '变更原因（封禁 / 暂停时必填）' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(ACCOUNT_STATUS_REASON_MAX_LENGTH, { message: '变更原因过长' })
+  reason?: string | null;
+}
+
+/**
+ * 批量变更账户状态结果
+ */
+@ObjectType()
+export class SetAccountsStatusResult {
+  @Field(() => [Int], { description: '已变更的账户 ID' })
+  updatedIds!: number[];
+
+  @Field(() => [Int], {
+    description: '未变更的账户 ID（不存在、已注销、当前操作者本人或状态未变化）',
+  })
+  skippedIds!: number[];
+}
@@ -1,7 +1,22 @@
 // src/adapters/api/graphql/account/dto/accounts.args.ts
-import { AccountStatus, IdentityTypeEnum } from '@app-types/models/account.types';
+import {
+  ACCOUNT_DIRECTORY_SORT_FIELDS,
+  AccountDirectorySortField,
+  AccountStatus,
+  IdentityTypeEnum,
+} from '@app-types/models/account.types';
 import { ArgsType, Field, Int } from '@nestjs/graphql';
-import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import {
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
 
 /**
  * 账户列表查询参数
@@ -10,34 +25,50 @@ import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
 @ArgsType()
 export class AccountsArgs {
   // === 筛选条件 ===
-  @Field(() => String, { description: '按登录名搜索（模糊匹配）', nullable: true })
+  @Field(() => String, {
+    description: '按登录名 / 登录邮箱 / 昵称搜索（模糊匹配）',
+    nullable: true,
+  })
   @IsOptional()
   @IsString()
-  loginName?: string;
-
-  @Field(() => String, { description: '按邮箱搜索（模糊匹配）', nullable: true })
-  @IsOptional()
-  @IsString()
-  loginEmail?: string;
+  @MaxLength(100)
+  query?: string;
 
   @Field(() => AccountStatus, { description: '按状态筛选', nullable: true })
   @IsOptional()
   @IsEnum(AccountStatus)
   status?: AccountStatus;
 
-  @Field(() => [IdentityTypeEnum], { description: '按身份类型筛选', nullable: true })
+  @Field(() => IdentityTypeEnum, { description: '按访问组筛选（包含该身份）', nullable: true })
+  @IsOptional()
+  @IsEnum(IdentityTypeEnum)
+  accessGroup?: IdentityTypeEnum;
+
+  @Field(() => IdentityTypeEnum, { description: '按身份提示筛选', nullable: true })
   @IsOptional()
-  @IsEnum(IdentityTypeEnum, { each: true })
-  identityTypes?: IdentityTypeEnum[];
+  @IsEnum(IdentityTypeEnum)
+  identityHint?: IdentityTypeEnum;
 
   @Field(() => Date, { description: '创建时间起始', nullable: true })
   @IsOptional()
+  @IsDate()
   createdAfter?: Date;
 
   @Field(() => Date, { description: '创建时间结束', nullable: true })
   @IsOptional()
+  @IsDate()
   createdBefore?: Date;
 
+  @Field(() => Date, { description: '最近登录时间起始', nullable: true })
+  @IsOptional()
+  @IsDate()
+  lastLoginAfter?: Date;
+
+  @Field(() => Date, { description: '最近登录时间结束', nullable: true })
+  @IsOptional()
+  @IsDate()
+  lastLoginBefore?: Date;
+
   // === 分页参数 ===
   @Field(() => Int, { description: '页码（从 1 开始）', defaultValue: 1 })
   @IsOptional()
@@ -53,13 +84,16 @@ export class AccountsArgs {
   limit: number = 10;
 
   // === 排序参数 ===
-  @Field(() => String, { description: '排序字段', defaultValue: 'createdAt' })
+  @Field(() => String, {
+    description: '排序字段（createdAt / lastLoginAt / loginName / id）',
+    defaultValue: 'createdAt',
+  })
   @IsOptional()
-  @IsString()
-  sortBy: string = 'createdAt';
+  @IsIn(ACCOUNT_DIRECTORY_SORT_FIELDS)
+  sortBy: AccountDirectorySortField = 'createdAt';
 
   @Field(() => String, { description: '排序方向', defaultValue: 'DESC' })
   @IsOptional()
-  // @IsEnum(['ASC', 'DESC'])
+  @IsIn(['ASC', 'DESC'])
   sortOrder: 'ASC' | 'DESC' = 'DESC';
 }
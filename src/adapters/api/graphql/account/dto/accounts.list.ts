@@ -1,5 +1,5 @@
 // src/adapters/api/graphql/account/dto/accounts.list.ts
-import { AccountStatus } from '@app-types/models/account.types';
+import { AccountStatus, IdentityTypeEnum } from '@app-types/models/account.types';
 import { Field, Int, ObjectType } from '@nestjs/graphql';
 
 /**
@@ -19,9 +19,24 @@ export class AccountResponse {
   @Field(() => AccountStatus, { description: '账户状态' })
   status!: AccountStatus;
 
+  @Field(() => String, { description: '最近一次状态变更原因', nullable: true })
+  statusReason!: string | null;
+
+  @Field(() => Date, { description: '最近一次状态变更时间', nullable: true })
+  statusChangedAt!: Date | null;
+
   @Field(() => String, { description: '身份类型提示', nullable: true })
   identityHint!: string | null;
 
+  @Field(() => String, { description: '昵称', nullable: true })
+  nickname!: string | null;
+
+  @Field(() => [IdentityTypeEnum], { description: '访问组' })
+  accessGroup!: IdentityTypeEnum[];
+
+  @Field(() => Date, { description: '最近登录时间', nullable: true })
+  lastLoginAt!: Date | null;
+
   @Field(() => Date, { description: '创建时间' })
   createdAt!: Date;
 
@@ -47,4 +62,7 @@ export class AccountsListResponse {
 
   @Field(() => Int, { description: '总数量' })
   total!: number;
+
+  @Field(() => Int, { description: '总页数' })
+  totalPages!: number;
 }
@@ -0,0 +1,22 @@
+// src/adapters/api/graphql/account/dto/change-password.input.ts
+
+import { IsValidPassword } from '@adapters/api/graphql/common/password-validation.decorator';
+import { Field, InputType } from '@nestjs/graphql';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * 修改密码输入参数
+ */
+@InputType()
+export class ChangePasswordInput {
+  @Field(() => String, { description: '原密码' })
+  @IsNotEmpty({ message: '原密码不能为空' })
+  @IsString({ message: '原密码必须是字符串' })
+  oldPassword!: string;
+
+  @Field(() => String, { description: '新密码' })
+  @IsNotEmpty({ message: '新密码不能为空' })
+  @IsString({ message: '新密码必须是字符串' })
+  @IsValidPassword({ message: '密码不符合安全要求' })
+  newPassword!: string;
+}
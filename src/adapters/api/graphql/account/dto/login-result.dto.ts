@@ -27,4 +27,10 @@ export class LoginResult {
 
   @Field(() => UserInfoDTO, { nullable: true, description: '用户信息' })
   userInfo?: UserInfoDTO | null;
+
+  @Field(() => [String], {
+    nullable: true,
+    description: '恢复码（仅在两步登录中同时完成二次验证绑定时返回一次）',
+  })
+  recoveryCodes?: string[] | null;
 }
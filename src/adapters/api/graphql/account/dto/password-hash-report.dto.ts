@@ -0,0 +1,18 @@
+// src/adapters/api/graphql/account/dto/password-hash-report.dto.ts
+
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+
+/**
+ * 密码哈希迁移进度
+ */
+@ObjectType({ description: '密码哈希方案分布' })
+export class PasswordHashReportDTO {
+  @Field(() => Int, { description: '账户总数' })
+  total!: number;
+
+  @Field(() => Int, { description: '仍使用老方案（PBKDF2）的账户数' })
+  legacy!: number;
+
+  @Field(() => Int, { description: '已使用当前方案的账户数' })
+  current!: number;
+}
@@ -0,0 +1,46 @@
+// src/adapters/api/graphql/account/dto/sms-code.dto.ts
+
+import { SmsCodePurpose } from '@app-types/auth/sms-code.types';
+import { Field, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { IsEnum, IsNotEmpty, IsString, Matches } from 'class-validator';
+
+/** 中国大陆手机号 */
+const MAINLAND_PHONE_PATTERN = /^1[3-9]\d{9}$/;
+
+/**
+ * 请求短信验证码输入参数
+ */
+@InputType()
+export class RequestSmsCodeInput {
+  @Field(() => String, { description: '手机号' })
+  @Matches(MAINLAND_PHONE_PATTERN, { message: '手机号格式不正确' })
+  phone!: string;
+
+  @Field(() => SmsCodePurpose, { description: '验证码用途' })
+  @IsEnum(SmsCodePurpose, { message: '验证码用途无效' })
+  purpose!: SmsCodePurpose;
+}
+
+/**
+ * 请求短信验证码结果
+ */
+@ObjectType()
+export class RequestSmsCodeResult {
+  @Field(() => Int, { description: '再次请求前需等待的秒数' })
+  cooldownSeconds!: number;
+}
+
+/**
+ * 绑定手机号输入参数
+ */
+@InputType()
+export class BindPhoneInput {
+  @Field(() => String, { description: '手机号' })
+  @Matches(MAINLAND_PHONE_PATTERN, { message: '手机号格式不正确' })
+  phone!: string;
+
+  @Field(() => String, { description: '短信验证码' })
+  @IsNotEmpty({ message: '验证码不能为空' })
+  @IsString({ message: '验证码必须是字符串' })
+  code!: string;
+}
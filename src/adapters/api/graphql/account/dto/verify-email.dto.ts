@@ -0,0 +1,41 @@
+// src/adapters/api/graphql/account/dto/verify-email.dto.ts
+
+import { Field, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { IsEmail, IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * 邮箱验证输入参数
+ */
+@InputType()
+export class VerifyEmailInput {
+  @Field(() => String, { description: '验证 token' })
+  @IsNotEmpty({ message: '验证 token 不能为空' })
+  @IsString({ message: '验证 token 必须是字符串' })
+  token!: string;
+}
+
+/**
+ * 邮箱验证结果
+ */
+@ObjectType()
+export class VerifyEmailResult {
+  @Field(() => Boolean, { description: '是否成功' })
+  success!: boolean;
+
+  @Field(() => String, { nullable: true, description: '消息' })
+  message?: string;
+
+  @Field(() => Int, { nullable: true, description: '完成验证的账户 ID' })
+  accountId?: number;
+}
+
+/**
+ * 重新发送验证邮件输入参数
+ */
+@InputType()
+export class ResendVerificationEmailInput {
+  @Field(() => String, { description: '注册邮箱' })
+  @IsNotEmpty({ message: '邮箱不能为空' })
+  @IsEmail({}, { message: '邮箱格式不正确' })
+  email!: string;
+}
@@ -0,0 +1,93 @@
+// src/adapters/api/graphql/auth/auth-session.resolver.ts
+
+import { AuthSessionView } from '@app-types/auth/auth-session.types';
+import { JwtPayload } from '@app-types/jwt.types';
+import { IdentityTypeEnum } from '@app-types/models/account.types';
+import { UseGuards } from '@nestjs/common';
+import { Args, Int, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { ListAuthSessionsUsecase } from '@usecases/auth/list-auth-sessions.usecase';
+import { RevokeAuthSessionUsecase } from '@usecases/auth/revoke-auth-session.usecase';
+import { currentUser } from '../decorators/current-user.decorator';
+import { Roles } from '../decorators/roles.decorator';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { AccountSessionsArgs } from './dto/account-sessions.args';
+import { AuthSessionDTO } from './dto/auth-session.dto';
+
+/**
+ * 登录会话 GraphQL 解析器
+ * 提供“我的会话”、远程下线与管理端按账户查看会话
+ */
+@Resolver()
+export class AuthSessionResolver {
+  constructor(
+    private readonly listAuthSessionsUsecase: ListAuthSessionsUsecase,
+    private readonly revokeAuthSessionUsecase: RevokeAuthSessionUsecase,
+  ) {}
+
+  /**
+   * 当前账户的在线会话
+   * @param user 当前登录用户的 JWT 载荷
+   */
+  @UseGuards(JwtAuthGuard)
+  @Query(() => [AuthSessionDTO], { name: 'mySessions', description: '我的登录会话' })
+  async mySessions(@currentUser() user: JwtPayload): Promise<AuthSessionDTO[]> {
+    const views = await this.listAuthSessionsUsecase.execute({ accountId: user.sub });
+    return views.map((view) => this.mapViewToDTO(view, user.fid));
+  }
+
+  /**
+   * 远程下线本人的某个会话
+   * @param user 当前登录用户的 JWT 载荷
+   * @param id 会话 ID
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => Boolean, { description: '远程下线会话' })
+  async revokeSession(
+    @currentUser() user: JwtPayload,
+    @Args('id', { type: () => Int }) id: number,
+  ): Promise<boolean> {
+    await this.revokeAuthSessionUsecase.execute({ accountId: user.sub, sessionId: id });
+    return true;
+  }
+
+  /**
+   * 管理端：查看指定账户的登录会话
+   * @param user 当前登录用户的 JWT 载荷
+   * @param args 目标账户与过滤条件
+   */
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(IdentityTypeEnum.ADMIN)
+  @Query(() => [AuthSessionDTO], { name: 'accountSessions', description: '账户登录会话' })
+  async accountSessions(
+    @currentUser() user: JwtPayload,
+    @Args() args: AccountSessionsArgs,
+  ): Promise<AuthSessionDTO[]> {
+    const views = await this.listAuthSessionsUsecase.executeForAccount({
+      targetAccountId: args.accountId,
+      includeRevoked: args.includeRevoked,
+    });
+    return views.map((view) => this.mapViewToDTO(view, user.fid));
+  }
+
+  /**
+   * 将会话视图映射为 GraphQL DTO（不对外暴露家族 ID）
+   */
+  private mapViewToDTO(view: AuthSessionView, currentFamilyId?: string): AuthSessionDTO {
+    return {
+      id: view.id,
+      accountId: view.accountId,
+      audience: view.audience,
+      ip: view.ip,
+      userAgent: view.userAgent,
+      provider: view.provider,
+      status: view.status,
+      revokedReason: view.revokedReason,
+      revokedAt: view.revokedAt,
+      lastSeenAt: view.lastSeenAt,
+      createdAt: view.createdAt,
+      isCurrent: !!currentFamilyId && view.familyId === currentFamilyId,
+    };
+  }
+}
@@ -1,13 +1,22 @@
 // src/adapters/api/graphql/auth/auth.resolver.ts
 
-import { EmploymentStatus, IdentityTypeEnum } from '@app-types/models/account.types';
+import { JwtPayload } from '@app-types/jwt.types';
+import { EmploymentStatus, IdentityTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
 import { AuthLoginModel, LoginResultModel, UserInfoView } from '@app-types/models/auth.types';
 import { GeographicInfo } from '@app-types/models/user-info.types';
 import { parseStaffId } from '@core/account/identity/parse-staff-id';
 import { DomainError, PERMISSION_ERROR } from '@core/common/errors/domain-error';
+import { UseGuards } from '@nestjs/common';
 import { Args, Mutation, Resolver } from '@nestjs/graphql';
 import { CompleteUserData, FetchUserInfoUsecase } from '@usecases/account/fetch-user-info.usecase';
 import { LoginWithPasswordUsecase } from '@usecases/auth/login-with-password.usecase';
+import { LoginWithMagicLinkUsecase } from '@usecases/auth/login-with-magic-link.usecase';
+import { LoginWithSmsUsecase } from '@usecases/auth/login-with-sms.usecase';
+import { EnrollTotpUsecase } from '@usecases/auth/enroll-totp.usecase';
+import { LogoutUsecase } from '@usecases/auth/logout.usecase';
+import { RefreshAccessTokenUsecase } from '@usecases/auth/refresh-access-token.usecase';
+import { VerifyMfaLoginUsecase } from '@usecases/auth/verify-mfa-login.usecase';
+import { RequestMagicLinkUsecase } from '@usecases/verification/magic-link/request-magic-link.usecase';
 import { CoachType } from '../account/dto/identity/coach.dto';
 import {
   CoachIdentityEntity,
@@ -23,7 +32,17 @@ import { ManagerIdentityGraphType } from '../account/dto/identity/manager.dto';
 import { StaffType } from '../account/dto/identity/staff.dto';
 import { LoginResult } from '../account/dto/login-result.dto';
 import { UserInfoDTO } from '../account/dto/user-info.dto';
+import { clientIp } from '../decorators/client-ip.decorator';
+import { clientUserAgent } from '../decorators/client-user-agent.decorator';
+import { currentUser } from '../decorators/current-user.decorator';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
 import { AuthLoginInput } from './dto/auth-login.input';
+import { ConsumeMagicLinkInput, RequestMagicLinkInput } from './dto/magic-link.input';
+import { MfaChallengeInput, VerifyMfaLoginInput } from './dto/mfa-challenge.input';
+import { TotpEnrollmentDTO } from './dto/mfa.dto';
+import { RefreshAccessTokenInput } from './dto/refresh-access-token.input';
+import { RefreshAccessTokenResult } from './dto/refresh-access-token.result';
 
 /**
  * 认证相关的 GraphQL Resolver
@@ -32,23 +51,161 @@ import { AuthLoginInput } from './dto/auth-login.input';
 export class AuthResolver {
   constructor(
     private readonly loginWithPasswordUsecase: LoginWithPasswordUsecase,
+    private readonly loginWithSmsUsecase: LoginWithSmsUsecase,
+    private readonly loginWithMagicLinkUsecase: LoginWithMagicLinkUsecase,
+    private readonly requestMagicLinkUsecase: RequestMagicLinkUsecase,
     private readonly fetchUserInfoUsecase: FetchUserInfoUsecase,
+    private readonly refreshAccessTokenUsecase: RefreshAccessTokenUsecase,
+    private readonly logoutUsecase: LogoutUsecase,
+    private readonly verifyMfaLoginUsecase: VerifyMfaLoginUsecase,
+    private readonly enrollTotpUsecase: EnrollTotpUsecase,
   ) {}
 
+  /**
+   * 密码登录 / 短信验证码登录（type = SMS 时 loginName 为手机号、loginPassword 为验证码）
+   * 账户已启用二次验证（或身份被策略强制）时返回 MFA_REQUIRED 错误，
+   * extensions.details 携带 mfaChallengeToken，需继续调用 verifyMfaLogin
+   */
   @Mutation(() => LoginResult)
-  async login(@Args('input') input: AuthLoginInput): Promise<LoginResult> {
+  async login(
+    @Args('input') input: AuthLoginInput,
+    @clientUserAgent() userAgent?: string,
+    @clientIp() requestIp?: string,
+  ): Promise<LoginResult> {
     // 将 DTO 转换为领域模型
     const authLoginModel: AuthLoginModel = {
       loginName: input.loginName,
       loginPassword: input.loginPassword,
       type: input.type,
-      ip: input.ip,
+      // 以请求来源 IP 为准（防暴力破解按此计数），取不到时回退客户端上报值
+      ip: requestIp ?? input.ip,
+      userAgent,
       audience: input.audience,
     };
 
     // 调用 usecase
-    const result: LoginResultModel = await this.loginWithPasswordUsecase.execute(authLoginModel);
+    const result: LoginResultModel =
+      authLoginModel.type === LoginTypeEnum.SMS
+        ? await this.loginWithSmsUsecase.execute({
+            phone: authLoginModel.loginName,
+            code: authLoginModel.loginPassword,
+            ip: authLoginModel.ip,
+            userAgent,
+            audience: authLoginModel.audience,
+          })
+        : await this.loginWithPasswordUsecase.execute(authLoginModel);
+
+    return await this.toLoginResult(result);
+  }
+
+  /**
+   * 请求魔法链接：向登录邮箱投递一次性登录链接
+   * 邮箱未注册或处于冷却期时同样返回 true，避免暴露账户是否存在
+   */
+  @Mutation(() => Boolean, { description: '请求邮箱登录链接' })
+  async requestMagicLink(@Args('input') input: RequestMagicLinkInput): Promise<boolean> {
+    await this.requestMagicLinkUsecase.execute({ email: input.email, audience: input.audience });
+    return true;
+  }
+
+  /**
+   * 使用魔法链接中的令牌登录；二次验证规则与密码登录一致
+   */
+  @Mutation(() => LoginResult, { description: '使用邮箱登录链接登录' })
+  async consumeMagicLink(
+    @Args('input') input: ConsumeMagicLinkInput,
+    @clientUserAgent() userAgent?: string,
+    @clientIp() requestIp?: string,
+  ): Promise<LoginResult> {
+    const result = await this.loginWithMagicLinkUsecase.execute({
+      token: input.token,
+      ip: requestIp,
+      userAgent,
+    });
+    return await this.toLoginResult(result);
+  }
 
+  /**
+   * 两步登录第二步：提交 TOTP 验证码或恢复码完成登录
+   * 被策略强制且尚未绑定的账户，此处的验证码同时用于确认绑定，并返回恢复码
+   */
+  @Mutation(() => LoginResult, { description: '提交二次验证码完成登录' })
+  async verifyMfaLogin(
+    @Args('input') input: VerifyMfaLoginInput,
+    @clientUserAgent() userAgent?: string,
+    @clientIp() requestIp?: string,
+  ): Promise<LoginResult> {
+    const { login, recoveryCodes } = await this.verifyMfaLoginUsecase.execute({
+      mfaChallengeToken: input.mfaChallengeToken,
+      code: input.code,
+      ip: requestIp,
+      userAgent,
+    });
+
+    return { ...(await this.toLoginResult(login)), recoveryCodes };
+  }
+
+  /**
+   * 被策略强制二次验证、尚未绑定的账户在登录挑战中获取 TOTP 密钥
+   */
+  @Mutation(() => TotpEnrollmentDTO, { description: '登录挑战中开始绑定二次验证' })
+  async beginMfaEnrollmentWithChallenge(
+    @Args('input') input: MfaChallengeInput,
+  ): Promise<TotpEnrollmentDTO> {
+    return await this.enrollTotpUsecase.beginWithChallenge({
+      mfaChallengeToken: input.mfaChallengeToken,
+    });
+  }
+
+  /**
+   * 使用刷新令牌换取新的令牌对（刷新令牌单次有效，重复使用将作废整个令牌家族）
+   */
+  @Mutation(() => RefreshAccessTokenResult)
+  async refreshAccessToken(
+    @Args('input') input: RefreshAccessTokenInput,
+  ): Promise<RefreshAccessTokenResult> {
+    const result = await this.refreshAccessTokenUsecase.execute({
+      refreshToken: input.refreshToken,
+      audience: input.audience,
+    });
+
+    return {
+      accessToken: result.accessToken,
+      refreshToken: result.refreshToken,
+      accountId: result.accountId,
+    };
+  }
+
+  /**
+   * 登出当前会话：当前 access token 立即失效，所属 refresh token 家族一并作废
+   */
+  @UseGuards(JwtAuthGuard)
+  @Mutation(() => Boolean, { description: '登出当前会话' })
+  async logout(@currentUser() user: JwtPayload): Promise<boolean> {
+    await this.logoutUsecase.execute({
+      accountId: user.sub,
+      jti: user.jti,
+      familyId: user.fid,
+      expiresAt: user.exp ? new Date(user.exp * 1000) : undefined,
+    });
+    return true;
+  }
+
+  /**
+   * 登出全部设备：账户下已签发的全部令牌失效
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => Boolean, { description: '登出全部设备' })
+  async logoutAllDevices(@currentUser() user: JwtPayload): Promise<boolean> {
+    await this.logoutUsecase.executeAllDevices({ accountId: user.sub });
+    return true;
+  }
+
+  /**
+   * 将登录领域结果转换为 GraphQL DTO
+   * @param result 登录用例返回的领域结果
+   */
+  private async toLoginResult(result: LoginResultModel): Promise<LoginResult> {
     // 处理身份信息转换
     let identity: IdentityUnionType | null = null;
     if (result.identity && this.isValidIdentityEntity(result.identity)) {
@@ -59,7 +216,7 @@ export class AuthResolver {
     const userInfo = await this.getUserInfoForGraphQL(result.accountId);
 
     // 将领域模型转换回 DTO
-    const loginResult: LoginResult = {
+    return {
       accessToken: result.accessToken,
       refreshToken: result.refreshToken,
       accountId: result.accountId,
@@ -67,8 +224,6 @@ export class AuthResolver {
       identity,
       userInfo,
     };
-
-    return loginResult;
   }
 
   /**
@@ -0,0 +1,20 @@
+// src/adapters/api/graphql/auth/dto/account-sessions.args.ts
+
+import { ArgsType, Field, Int } from '@nestjs/graphql';
+import { IsBoolean, IsInt, IsOptional, Min } from 'class-validator';
+
+/**
+ * 管理端查询账户会话参数
+ */
+@ArgsType()
+export class AccountSessionsArgs {
+  @Field(() => Int, { description: '目标账户 ID' })
+  @IsInt({ message: '账户 ID 必须是整数' })
+  @Min(1, { message: '账户 ID 无效' })
+  accountId!: number;
+
+  @Field(() => Boolean, { nullable: true, defaultValue: false, description: '是否包含已下线会话' })
+  @IsOptional()
+  @IsBoolean({ message: 'includeRevoked 必须是布尔值' })
+  includeRevoked?: boolean;
+}
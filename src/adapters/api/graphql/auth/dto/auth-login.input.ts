@@ -9,12 +9,12 @@ import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
  */
 @InputType()
 export class AuthLoginInput {
-  @Field(() => String, { description: '登录名或邮箱' })
+  @Field(() => String, { description: '登录名或邮箱（SMS 登录时为手机号）' })
   @IsString({ message: '登录名必须是字符串' })
   @IsNotEmpty({ message: '登录名不能为空' })
   loginName!: string;
 
-  @Field(() => String, { description: '登录密码' })
+  @Field(() => String, { description: '登录密码（SMS 登录时为短信验证码）' })
   @IsString({ message: '密码必须是字符串' })
   @IsNotEmpty({ message: '密码不能为空' })
   loginPassword!: string;
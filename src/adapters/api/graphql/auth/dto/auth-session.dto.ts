@@ -0,0 +1,50 @@
+// src/adapters/api/graphql/auth/dto/auth-session.dto.ts
+
+import { AuthSessionStatus } from '@app-types/auth/auth-session.types';
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+
+/**
+ * 登录会话输出类型
+ */
+@ObjectType({ description: '登录会话（设备）信息' })
+export class AuthSessionDTO {
+  @Field(() => Int, { description: '会话 ID' })
+  id!: number;
+
+  @Field(() => Int, { description: '账户 ID' })
+  accountId!: number;
+
+  @Field(() => AudienceTypeEnum, { nullable: true, description: '客户端类型' })
+  audience!: AudienceTypeEnum | null;
+
+  @Field(() => String, { nullable: true, description: '登录 IP' })
+  ip!: string | null;
+
+  @Field(() => String, { nullable: true, description: '登录 User-Agent' })
+  userAgent!: string | null;
+
+  @Field(() => ThirdPartyProviderEnum, {
+    nullable: true,
+    description: '第三方登录平台；密码登录为空',
+  })
+  provider!: ThirdPartyProviderEnum | null;
+
+  @Field(() => AuthSessionStatus, { description: '会话状态' })
+  status!: AuthSessionStatus;
+
+  @Field(() => String, { nullable: true, description: '下线原因' })
+  revokedReason!: string | null;
+
+  @Field(() => Date, { nullable: true, description: '下线时间' })
+  revokedAt!: Date | null;
+
+  @Field(() => Date, { description: '最近活跃时间' })
+  lastSeenAt!: Date;
+
+  @Field(() => Date, { description: '登录时间' })
+  createdAt!: Date;
+
+  @Field(() => Boolean, { description: '是否为发起本次请求的会话' })
+  isCurrent!: boolean;
+}
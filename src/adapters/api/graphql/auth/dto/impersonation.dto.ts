@@ -0,0 +1,49 @@
+// src/adapters/api/graphql/auth/dto/impersonation.dto.ts
+
+import { AudienceTypeEnum, IdentityTypeEnum } from '@app-types/models/account.types';
+import { Field, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { IsEnum, IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+
+/**
+ * 发起代登录的输入参数
+ */
+@InputType()
+export class ImpersonateAccountInput {
+  @Field(() => Int, { description: '目标账户 ID' })
+  @IsInt({ message: '账户 ID 必须是整数' })
+  @Min(1, { message: '账户 ID 非法' })
+  accountId!: number;
+
+  @Field(() => String, { description: '代登录原因（写入审计）' })
+  @IsString({ message: '代登录原因必须是字符串' })
+  @IsNotEmpty({ message: '代登录原因不能为空' })
+  @MaxLength(255, { message: '代登录原因不能超过 255 个字符' })
+  reason!: string;
+
+  @Field(() => AudienceTypeEnum, { nullable: true, description: '客户端类型，默认 DESKTOP' })
+  @IsOptional()
+  @IsEnum(AudienceTypeEnum, { message: '客户端类型无效' })
+  audience?: AudienceTypeEnum;
+}
+
+/**
+ * 代登录结果
+ * 仅返回短期 access token，不下发 refresh token
+ */
+@ObjectType({ description: '代登录结果' })
+export class ImpersonationResultDTO {
+  @Field(() => String, { description: '代登录访问令牌' })
+  accessToken!: string;
+
+  @Field(() => Int, { description: '被代登录的账户 ID' })
+  accountId!: number;
+
+  @Field(() => Int, { description: '发起代登录的管理员账户 ID' })
+  impersonatorId!: number;
+
+  @Field(() => IdentityTypeEnum, { description: '代登录使用的角色' })
+  role!: IdentityTypeEnum;
+
+  @Field(() => Date, { description: '访问令牌过期时间' })
+  expiresAt!: Date;
+}
@@ -0,0 +1,32 @@
+// src/adapters/api/graphql/auth/dto/magic-link.input.ts
+
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { Field, InputType } from '@nestjs/graphql';
+import { IsEmail, IsEnum, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * 请求魔法链接的输入参数
+ */
+@InputType()
+export class RequestMagicLinkInput {
+  @Field(() => String, { description: '登录邮箱' })
+  @IsEmail({}, { message: '邮箱格式不正确' })
+  @MaxLength(100, { message: '邮箱过长' })
+  email!: string;
+
+  @Field(() => AudienceTypeEnum, { description: '登录后使用的客户端类型' })
+  @IsEnum(AudienceTypeEnum, { message: '客户端类型无效' })
+  audience!: AudienceTypeEnum;
+}
+
+/**
+ * 使用魔法链接登录的输入参数
+ */
+@InputType()
+export class ConsumeMagicLinkInput {
+  @Field(() => String, { description: '登录邮件中的令牌' })
+  @IsString({ message: '令牌必须是字符串' })
+  @IsNotEmpty({ message: '令牌不能为空' })
+  @MaxLength(255, { message: '令牌过长' })
+  token!: string;
+}
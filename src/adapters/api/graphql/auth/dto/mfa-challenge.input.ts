@@ -0,0 +1,27 @@
+// src/adapters/api/graphql/auth/dto/mfa-challenge.input.ts
+
+import { Field, InputType } from '@nestjs/graphql';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * 凭登录挑战令牌开始绑定二次验证的输入参数
+ */
+@InputType()
+export class MfaChallengeInput {
+  @Field(() => String, { description: '登录返回 MFA_REQUIRED 时附带的挑战令牌' })
+  @IsString({ message: '挑战令牌必须是字符串' })
+  @IsNotEmpty({ message: '挑战令牌不能为空' })
+  mfaChallengeToken!: string;
+}
+
+/**
+ * 完成两步登录的输入参数
+ */
+@InputType()
+export class VerifyMfaLoginInput extends MfaChallengeInput {
+  @Field(() => String, { description: '身份验证器中的 6 位验证码或恢复码' })
+  @IsString({ message: '验证码必须是字符串' })
+  @IsNotEmpty({ message: '验证码不能为空' })
+  @MaxLength(32, { message: '验证码过长' })
+  code!: string;
+}
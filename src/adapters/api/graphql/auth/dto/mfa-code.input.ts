@@ -0,0 +1,16 @@
+// src/adapters/api/graphql/auth/dto/mfa-code.input.ts
+
+import { Field, InputType } from '@nestjs/graphql';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * 已登录用户提交二次验证码的输入参数（确认绑定、停用、重新生成恢复码）
+ */
+@InputType()
+export class MfaCodeInput {
+  @Field(() => String, { description: '身份验证器中的 6 位验证码或恢复码' })
+  @IsString({ message: '验证码必须是字符串' })
+  @IsNotEmpty({ message: '验证码不能为空' })
+  @MaxLength(32, { message: '验证码过长' })
+  code!: string;
+}
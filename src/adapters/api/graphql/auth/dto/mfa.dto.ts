@@ -0,0 +1,30 @@
+// src/adapters/api/graphql/auth/dto/mfa.dto.ts
+
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+
+/**
+ * TOTP 绑定信息输出类型
+ */
+@ObjectType({ description: 'TOTP 绑定信息（仅返回一次）' })
+export class TotpEnrollmentDTO {
+  @Field(() => String, { description: 'Base32 密钥，供无法扫码时手动输入' })
+  secret!: string;
+
+  @Field(() => String, { description: 'otpauth URI，供身份验证器扫码导入' })
+  otpauthUri!: string;
+}
+
+/**
+ * 二次验证状态输出类型
+ */
+@ObjectType({ description: '二次验证状态' })
+export class MfaStatusDTO {
+  @Field(() => Boolean, { description: '是否已启用' })
+  enabled!: boolean;
+
+  @Field(() => Boolean, { description: '当前身份是否被策略强制要求' })
+  required!: boolean;
+
+  @Field(() => Int, { description: '剩余可用恢复码数量' })
+  recoveryCodesRemaining!: number;
+}
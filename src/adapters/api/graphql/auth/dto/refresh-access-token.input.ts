@@ -0,0 +1,20 @@
+// src/adapters/api/graphql/auth/dto/refresh-access-token.input.ts
+
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { Field, InputType } from '@nestjs/graphql';
+import { IsEnum, IsNotEmpty, IsString } from 'class-validator';
+
+/**
+ * 刷新访问令牌输入参数
+ */
+@InputType()
+export class RefreshAccessTokenInput {
+  @Field(() => String, { description: '登录或上次刷新获得的刷新令牌' })
+  @IsString({ message: '刷新令牌必须是字符串' })
+  @IsNotEmpty({ message: '刷新令牌不能为空' })
+  refreshToken!: string;
+
+  @Field(() => AudienceTypeEnum, { description: '客户端类型，需与刷新令牌签发时一致' })
+  @IsEnum(AudienceTypeEnum, { message: '客户端类型无效' })
+  audience!: AudienceTypeEnum;
+}
@@ -0,0 +1,19 @@
+// src/adapters/api/graphql/auth/dto/refresh-access-token.result.ts
+
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+
+/**
+ * 刷新访问令牌结果
+ * 旧的刷新令牌在本次调用后立即失效，客户端必须保存新的刷新令牌
+ */
+@ObjectType({ description: '刷新令牌结果' })
+export class RefreshAccessTokenResult {
+  @Field(() => String, { description: '新的访问令牌' })
+  accessToken!: string;
+
+  @Field(() => String, { description: '新的刷新令牌（旧令牌已作废）' })
+  refreshToken!: string;
+
+  @Field(() => Int, { description: '用户 ID' })
+  accountId!: number;
+}
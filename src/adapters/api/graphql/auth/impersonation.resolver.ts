@@ -0,0 +1,69 @@
+// src/adapters/api/graphql/auth/impersonation.resolver.ts
+
+import { JwtPayload } from '@app-types/jwt.types';
+import { IdentityTypeEnum } from '@app-types/models/account.types';
+import { UseGuards } from '@nestjs/common';
+import { Args, Mutation, Resolver } from '@nestjs/graphql';
+import { ImpersonateAccountUsecase } from '@usecases/auth/impersonate-account.usecase';
+import { clientIp } from '../decorators/client-ip.decorator';
+import { clientUserAgent } from '../decorators/client-user-agent.decorator';
+import { currentUser } from '../decorators/current-user.decorator';
+import { Roles } from '../decorators/roles.decorator';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
+import { RolesGuard } from '../guards/roles.guard';
+import { ImpersonateAccountInput, ImpersonationResultDTO } from './dto/impersonation.dto';
+
+/**
+ * 代登录 GraphQL 解析器
+ * 客服以用户身份登录复现问题，开始与结束均留存审计
+ */
+@Resolver()
+export class ImpersonationResolver {
+  constructor(private readonly impersonateAccountUsecase: ImpersonateAccountUsecase) {}
+
+  /**
+   * 管理端：以指定账户身份登录
+   * 返回的 access token 有效期较短且携带 impersonatorId，期间禁止敏感操作
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard, RolesGuard)
+  @Roles(IdentityTypeEnum.ADMIN)
+  @Mutation(() => ImpersonationResultDTO, { description: '代登录指定账户' })
+  async impersonateAccount(
+    @currentUser() user: JwtPayload,
+    @Args('input') input: ImpersonateAccountInput,
+    @clientUserAgent() userAgent?: string,
+    @clientIp() requestIp?: string,
+  ): Promise<ImpersonationResultDTO> {
+    return await this.impersonateAccountUsecase.execute({
+      impersonatorId: user.sub,
+      targetAccountId: input.accountId,
+      reason: input.reason,
+      audience: input.audience,
+      ip: requestIp,
+      userAgent,
+    });
+  }
+
+  /**
+   * 结束代登录：当前代登录令牌立即失效
+   */
+  @UseGuards(JwtAuthGuard)
+  @Mutation(() => Boolean, { description: '结束代登录' })
+  async stopImpersonation(
+    @currentUser() user: JwtPayload,
+    @clientUserAgent() userAgent?: string,
+    @clientIp() requestIp?: string,
+  ): Promise<boolean> {
+    await this.impersonateAccountUsecase.stop({
+      accountId: user.sub,
+      impersonatorId: user.impersonatorId,
+      jti: user.jti,
+      familyId: user.fid,
+      expiresAt: user.exp ? new Date(user.exp * 1000) : undefined,
+      ip: requestIp,
+      userAgent,
+    });
+    return true;
+  }
+}
@@ -0,0 +1,97 @@
+// src/adapters/api/graphql/auth/mfa.resolver.ts
+
+import { JwtPayload } from '@app-types/jwt.types';
+import { UseGuards } from '@nestjs/common';
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { EnrollTotpUsecase } from '@usecases/auth/enroll-totp.usecase';
+import { ManageMfaUsecase } from '@usecases/auth/manage-mfa.usecase';
+import { currentUser } from '../decorators/current-user.decorator';
+import { JwtAuthGuard } from '../guards/jwt-auth.guard';
+import { NoImpersonationGuard } from '../guards/no-impersonation.guard';
+import { MfaCodeInput } from './dto/mfa-code.input';
+import { MfaStatusDTO, TotpEnrollmentDTO } from './dto/mfa.dto';
+
+/**
+ * 二次验证（TOTP）GraphQL 解析器
+ * 提供已登录用户的绑定、停用、恢复码管理与状态查询
+ */
+@Resolver()
+export class MfaResolver {
+  constructor(
+    private readonly enrollTotpUsecase: EnrollTotpUsecase,
+    private readonly manageMfaUsecase: ManageMfaUsecase,
+  ) {}
+
+  /**
+   * 当前账户的二次验证状态
+   * @param user 当前登录用户的 JWT 载荷
+   */
+  @UseGuards(JwtAuthGuard)
+  @Query(() => MfaStatusDTO, { description: '我的二次验证状态' })
+  async myMfaStatus(@currentUser() user: JwtPayload): Promise<MfaStatusDTO> {
+    return await this.manageMfaUsecase.getStatus({
+      accountId: user.sub,
+      accessGroup: user.accessGroup,
+    });
+  }
+
+  /**
+   * 开始绑定 TOTP，返回密钥与 otpauth URI
+   * @param user 当前登录用户的 JWT 载荷
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => TotpEnrollmentDTO, { description: '开始绑定 TOTP 二次验证' })
+  async setupTotp(@currentUser() user: JwtPayload): Promise<TotpEnrollmentDTO> {
+    return await this.enrollTotpUsecase.begin({ accountId: user.sub });
+  }
+
+  /**
+   * 提交首个验证码确认绑定，返回恢复码（仅此一次）
+   * @param user 当前登录用户的 JWT 载荷
+   * @param input 验证码
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => [String], { description: '确认绑定 TOTP 二次验证，返回恢复码' })
+  async confirmTotp(
+    @currentUser() user: JwtPayload,
+    @Args('input') input: MfaCodeInput,
+  ): Promise<string[]> {
+    return await this.enrollTotpUsecase.confirm({ accountId: user.sub, code: input.code });
+  }
+
+  /**
+   * 停用二次验证（需再次提交验证码或恢复码）
+   * @param user 当前登录用户的 JWT 载荷
+   * @param input 验证码
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => Boolean, { description: '停用二次验证' })
+  async disableMfa(
+    @currentUser() user: JwtPayload,
+    @Args('input') input: MfaCodeInput,
+  ): Promise<boolean> {
+    await this.manageMfaUsecase.disable({
+      accountId: user.sub,
+      accessGroup: user.accessGroup,
+      code: input.code,
+    });
+    return true;
+  }
+
+  /**
+   * 重新生成恢复码（旧恢复码全部作废）
+   * @param user 当前登录用户的 JWT 载荷
+   * @param input 验证码
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => [String], { description: '重新生成二次验证恢复码' })
+  async regenerateMfaRecoveryCodes(
+    @currentUser() user: JwtPayload,
+    @Args('input') input: MfaCodeInput,
+  ): Promise<string[]> {
+    return await this.manageMfaUsecase.regenerateRecoveryCodes({
+      accountId: user.sub,
+      code: input.code,
+    });
+  }
+}
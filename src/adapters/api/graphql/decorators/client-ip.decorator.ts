@@ -0,0 +1,25 @@
+// src/adapters/api/graphql/decorators/client-ip.decorator.ts
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { GqlExecutionContext } from '@nestjs/graphql';
+import type { Request } from 'express';
+
+const clean = (ip: string | undefined): string => ip?.replace(/^::ffff:/, '').trim() || '';
+
+/**
+ * 获取客户端来源 IP 的参数装饰器
+ * 取 req.ip（经 trust proxy 按可信代理跳数解析）、socket 地址，均缺失时返回 undefined
+ * 不直接读取 x-real-ip / x-forwarded-for：客户端可任意伪造，不能用于登录限流等安全控制
+ */
+export const clientIp = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string | undefined => {
+    const gqlCtx = GqlExecutionContext.create(context);
+    const req = gqlCtx.getContext<{ req?: Request }>().req;
+    if (!req) return undefined;
+
+    for (const candidate of [req.ip, req.socket?.remoteAddress]) {
+      const ip = clean(candidate);
+      if (ip) return ip;
+    }
+    return undefined;
+  },
+);
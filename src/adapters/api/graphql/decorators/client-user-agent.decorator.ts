@@ -0,0 +1,17 @@
+// src/adapters/api/graphql/decorators/client-user-agent.decorator.ts
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import { GqlExecutionContext } from '@nestjs/graphql';
+import type { Request } from 'express';
+
+/**
+ * 获取客户端 User-Agent 的参数装饰器
+ * 从 GraphQL 上下文的请求头中提取，缺失时返回 undefined
+ */
+export const clientUserAgent = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string | undefined => {
+    const gqlCtx = GqlExecutionContext.create(context);
+    const req = gqlCtx.getContext<{ req?: Request }>().req;
+    const raw = req?.headers?.['user-agent'];
+    return Array.isArray(raw) ? raw.join(',') : raw;
+  },
+);
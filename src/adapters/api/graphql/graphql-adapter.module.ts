@@ -6,7 +6,9 @@ import { AuthUsecasesModule } from '@src/usecases/auth/auth-usecases.module';
 import { AsyncTaskRecordUsecasesModule } from '@src/usecases/async-task-record/async-task-record-usecases.module';
 import { EmailQueueUsecasesModule } from '@src/usecases/email-queue/email-queue-usecases.module';
 import { IdentityManagementUsecasesModule } from '@src/usecases/identity-management/identity-management-usecases.module';
+import { NotificationUsecasesModule } from '@src/usecases/notification/notification-usecases.module';
 import { RegistrationUsecasesModule } from '@src/usecases/registration/registration-usecases.module';
+import { StorageUsecasesModule } from '@src/usecases/storage/storage-usecases.module';
 import { ThirdPartyAccountsUsecasesModule } from '@src/usecases/third-party-accounts/third-party-accounts-usecases.module';
 import { VerificationRecordUsecasesModule } from '@src/usecases/verification-record/verification-record-usecases.module';
 import { VerificationUsecasesModule } from '@src/usecases/verification/verification-usecases.module';
@@ -14,22 +16,30 @@ import { VerificationUsecasesModule } from '@src/usecases/verification/verificat
 import { Module } from '@nestjs/common';
 
 // Resolvers
+import { AccountLifecycleResolver } from './account/account-lifecycle.resolver';
+import { AccountMergeResolver } from './account/account-merge.resolver';
 import { AccountResolver } from './account/account.resolver';
 import { AiResolver } from './ai/ai.resolver';
 import { UserInfoResolver } from './account/user-info.resolver';
+import { AuthSessionResolver } from './auth/auth-session.resolver';
 import { AuthResolver } from './auth/auth.resolver';
+import { ImpersonationResolver } from './auth/impersonation.resolver';
+import { MfaResolver } from './auth/mfa.resolver';
 import { EmailResolver } from './email/email.resolver';
 import { CoachResolver } from './identity-management/coach/coach.resolver';
 import { CustomerResolver } from './identity-management/customer/customer.resolver';
 import { IdentityManagementResolver } from './identity-management/identity-management.resolver';
 import { LearnerResolver } from './identity-management/learner/learner.resolver';
 import { ManagerResolver } from './identity-management/manager/manager.resolver';
+import { NotificationResolver } from './notification/notification.resolver';
 import { RegistrationResolver } from './registration/registration.resolver';
+import { StorageResolver } from './storage/storage.resolver';
 import { ThirdPartyAuthResolver } from './third-party-auth/third-party-auth.resolver';
 import { VerificationRecordResolver } from './verification-record/verification-record.resolver';
 
 // Guards
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { NoImpersonationGuard } from './guards/no-impersonation.guard';
 import { RolesGuard } from './guards/roles.guard';
 import { QmWorkerEntryGuard } from './guards/qm-worker-entry.guard';
 
@@ -46,19 +56,28 @@ import { QmWorkerEntryGuard } from './guards/qm-worker-entry.guard';
     AuthUsecasesModule,
     EmailQueueUsecasesModule,
     RegistrationUsecasesModule,
+    StorageUsecasesModule,
     ThirdPartyAccountsUsecasesModule,
     IdentityManagementUsecasesModule,
+    NotificationUsecasesModule,
     VerificationRecordUsecasesModule,
     VerificationUsecasesModule,
   ],
   providers: [
     // Resolvers
     AccountResolver,
+    AccountLifecycleResolver,
+    AccountMergeResolver,
     AiResolver,
     AuthResolver,
+    AuthSessionResolver,
+    ImpersonationResolver,
+    MfaResolver,
     ThirdPartyAuthResolver,
     EmailResolver,
     RegistrationResolver,
+    NotificationResolver,
+    StorageResolver,
     VerificationRecordResolver,
     IdentityManagementResolver, // 注册身份管理 resolver
     LearnerResolver, // 注册学员管理 resolver
@@ -70,15 +89,23 @@ import { QmWorkerEntryGuard } from './guards/qm-worker-entry.guard';
     QmWorkerEntryGuard,
     JwtAuthGuard,
     RolesGuard,
+    NoImpersonationGuard,
   ],
   exports: [
     // Resolvers
     AccountResolver,
+    AccountLifecycleResolver,
+    AccountMergeResolver,
     AiResolver,
     AuthResolver,
+    AuthSessionResolver,
+    ImpersonationResolver,
+    MfaResolver,
     ThirdPartyAuthResolver,
     EmailResolver,
     RegistrationResolver,
+    NotificationResolver,
+    StorageResolver,
     VerificationRecordResolver,
     IdentityManagementResolver, // 导出身份管理 resolver
     LearnerResolver, // 导出学员管理 resolver
@@ -89,6 +116,7 @@ import { QmWorkerEntryGuard } from './guards/qm-worker-entry.guard';
     QmWorkerEntryGuard,
     JwtAuthGuard,
     RolesGuard,
+    NoImpersonationGuard,
   ],
 })
 export class GraphQLAdapterModule {}
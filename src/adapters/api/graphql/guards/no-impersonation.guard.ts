@@ -0,0 +1,37 @@
+// src/adapters/api/graphql/guards/no-impersonation.guard.ts
+
+import { JwtPayload } from '@app-types/jwt.types';
+import { AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { GqlExecutionContext } from '@nestjs/graphql';
+import { Request } from 'express';
+
+/**
+ * 禁止代登录守卫
+ * 代登录令牌（携带 impersonatorId）不得执行改密、绑定/解绑第三方等敏感操作
+ * 需放在 JwtAuthGuard 之后使用
+ */
+@Injectable()
+export class NoImpersonationGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const user = this.getRequest(context).user;
+    if (user?.impersonatorId !== undefined) {
+      throw new DomainError(AUTH_ERROR.IMPERSONATION_FORBIDDEN, '代登录期间不允许执行该操作', {
+        impersonatorId: user?.impersonatorId,
+      });
+    }
+    return true;
+  }
+
+  /**
+   * 获取请求对象（支持 GraphQL 和 REST）
+   */
+  private getRequest(context: ExecutionContext): Request & { user?: JwtPayload } {
+    if (context.getType() === 'http') {
+      return context.switchToHttp().getRequest<Request & { user?: JwtPayload }>();
+    }
+    return GqlExecutionContext.create(context).getContext<{
+      req: Request & { user?: JwtPayload };
+    }>().req;
+  }
+}
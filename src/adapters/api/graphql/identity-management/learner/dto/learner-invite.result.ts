@@ -0,0 +1,24 @@
+// src/adapters/api/graphql/identity-management/learner/dto/learner-invite.result.ts
+
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+
+/**
+ * 创建学员邀请结果
+ */
+@ObjectType({ description: '创建学员邀请结果' })
+export class LearnerInviteResult {
+  @Field(() => Int, { description: '邀请记录 ID' })
+  inviteId!: number;
+
+  @Field(() => String, { description: '邀请 token（链接参数或小程序码 scene）' })
+  token!: string;
+
+  @Field(() => Date, { description: '过期时间' })
+  expiresAt!: Date;
+
+  @Field(() => String, { description: '小程序码内容类型', nullable: true })
+  qrcodeContentType!: string | null;
+
+  @Field(() => String, { description: '小程序码 Base64 字符串', nullable: true })
+  qrcodeImageBase64!: string | null;
+}
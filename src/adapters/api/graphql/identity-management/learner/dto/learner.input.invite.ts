@@ -0,0 +1,69 @@
+// src/adapters/api/graphql/identity-management/learner/dto/learner.input.invite.ts
+
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { Field, InputType, Int } from '@nestjs/graphql';
+import { Type } from 'class-transformer';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+/**
+ * 学员邀请小程序码参数
+ */
+@InputType({ description: '学员邀请小程序码参数' })
+export class LearnerInviteQrcodeInput {
+  @Field(() => AudienceTypeEnum, { description: '客户端类型' })
+  @IsEnum(AudienceTypeEnum, { message: '客户端类型无效' })
+  audience!: AudienceTypeEnum;
+
+  @Field({ nullable: true, description: '小程序页面路径（官方要求不带参数）' })
+  @IsOptional()
+  @IsString()
+  page?: string;
+
+  @Field(() => Int, { nullable: true, description: '图片宽度（280–1280）' })
+  @IsOptional()
+  @IsInt()
+  @Min(280)
+  @Max(1280)
+  width?: number;
+
+  @Field({ nullable: true, description: '小程序版本（develop / trial / release）' })
+  @IsOptional()
+  @IsIn(['develop', 'trial', 'release'], { message: '小程序版本无效' })
+  envVersion?: 'develop' | 'trial' | 'release';
+}
+
+/**
+ * 创建学员邀请输入参数
+ */
+@InputType({ description: '创建学员邀请输入参数' })
+export class CreateLearnerInviteInput {
+  @Field(() => Int, { description: '学员 ID' })
+  @IsInt({ message: '学员 ID 必须是整数' })
+  @Min(1, { message: '学员 ID 必须大于 0' })
+  learnerId!: number;
+
+  @Field(() => Int, { description: '有效期（分钟，默认 7 天）', nullable: true })
+  @IsOptional()
+  @IsInt({ message: '有效期必须是整数' })
+  @Min(5, { message: '有效期不能少于 5 分钟' })
+  @Max(43200, { message: '有效期不能超过 30 天' })
+  expiresInMinutes?: number;
+
+  @Field(() => LearnerInviteQrcodeInput, {
+    description: '小程序码参数（提供时同时生成小程序码）',
+    nullable: true,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LearnerInviteQrcodeInput)
+  qrcode?: LearnerInviteQrcodeInput;
+}
@@ -15,10 +15,13 @@ import {
 } from '@src/usecases/identity-management/learner/list-learners.usecase';
 import { UpdateLearnerByCustomerUsecase } from '@src/usecases/identity-management/learner/update-learner-by-customer.usecase';
 import { UpdateLearnerByManagerUsecase } from '@src/usecases/identity-management/learner/update-learner-by-manager.usecase';
+import { CreateLearnerInviteUsecase } from '@src/usecases/verification/learner/create-learner-invite.usecase';
+import { LearnerInviteResult } from './dto/learner-invite.result';
 import { LearnerOutput } from './dto/learner.arg';
 import { CreateLearnerInput } from './dto/learner.input.create';
 import { DeleteLearnerInput } from './dto/learner.input.delete';
 import { GetLearnerInput } from './dto/learner.input.get';
+import { CreateLearnerInviteInput } from './dto/learner.input.invite';
 import { ListLearnersInput } from './dto/learner.input.list';
 import { UpdateLearnerInput } from './dto/learner.input.update';
 import { ListLearnersOutput } from './dto/learners.list';
@@ -39,6 +42,7 @@ export class LearnerResolver {
     private readonly deleteLearnerUsecase: DeleteLearnerUsecase,
     private readonly getLearnerUsecase: GetLearnerUsecase,
     private readonly listLearnersUsecase: ListLearnersUsecase,
+    private readonly createLearnerInviteUsecase: CreateLearnerInviteUsecase,
   ) {}
 
   /**
@@ -201,6 +205,35 @@ export class LearnerResolver {
     };
   }
 
+  /**
+   * 创建学员邀请
+   * 客户为名下未关联账户的学员签发邀请，学员登录后消费邀请即完成关联
+   * @param input 创建学员邀请输入参数
+   * @param user 当前用户信息
+   * @returns 邀请 token 与可选的小程序码
+   */
+  @UseGuards(JwtAuthGuard)
+  @Mutation(() => LearnerInviteResult, { description: '创建学员邀请' })
+  async createLearnerInvite(
+    @Args('input') input: CreateLearnerInviteInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<LearnerInviteResult> {
+    const result = await this.createLearnerInviteUsecase.execute({
+      currentAccountId: Number(user.sub),
+      learnerId: input.learnerId,
+      expiresInMinutes: input.expiresInMinutes,
+      qrcode: input.qrcode,
+    });
+
+    return {
+      inviteId: result.recordId,
+      token: result.token,
+      expiresAt: result.expiresAt,
+      qrcodeContentType: result.qrcode?.contentType ?? null,
+      qrcodeImageBase64: result.qrcode?.imageBase64 ?? null,
+    };
+  }
+
   /**
    * 将学员实体映射为 GraphQL 输出 DTO
    * @param learner 学员实体
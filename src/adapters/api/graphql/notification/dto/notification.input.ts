@@ -0,0 +1,61 @@
+// src/adapters/api/graphql/notification/dto/notification.input.ts
+
+import { NOTIFICATION_MARK_READ_MAX_IDS } from '@app-types/models/notification.types';
+import { Field, InputType, Int } from '@nestjs/graphql';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  Max,
+  Min,
+} from 'class-validator';
+
+/**
+ * 查询我的通知输入参数
+ */
+@InputType({ description: '查询我的通知输入参数' })
+export class MyNotificationsInput {
+  @Field(() => Boolean, { nullable: true, description: '是否仅返回未读通知', defaultValue: false })
+  @IsOptional()
+  @IsBoolean({ message: 'unreadOnly 必须是布尔值' })
+  unreadOnly?: boolean = false;
+
+  @Field(() => Int, { nullable: true, description: '页码，从 1 开始', defaultValue: 1 })
+  @IsOptional()
+  @IsInt({ message: '页码必须是整数' })
+  @Min(1, { message: '页码必须大于等于 1' })
+  page?: number = 1;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: '每页数量，默认 10，最大 100',
+    defaultValue: 10,
+  })
+  @IsOptional()
+  @IsInt({ message: '每页数量必须是整数' })
+  @Min(1, { message: '每页数量必须大于等于 1' })
+  @Max(100, { message: '每页数量不能超过 100' })
+  limit?: number = 10;
+}
+
+/**
+ * 标记通知已读输入参数
+ */
+@InputType({ description: '标记通知已读输入参数' })
+export class MarkNotificationsReadInput {
+  @Field(() => [Int], {
+    nullable: true,
+    description: `通知 ID 列表（最多 ${NOTIFICATION_MARK_READ_MAX_IDS} 条，不提供时标记全部未读通知）`,
+  })
+  @IsOptional()
+  @ArrayNotEmpty({ message: '通知 ID 列表不能为空' })
+  @ArrayMaxSize(NOTIFICATION_MARK_READ_MAX_IDS, {
+    message: `单次最多标记 ${NOTIFICATION_MARK_READ_MAX_IDS} 条通知`,
+  })
+  @IsInt({ each: true, message: '通知 ID 必须是整数' })
+  @IsPositive({ each: true, message: '通知 ID 必须是正整数' })
+  ids?: number[];
+}
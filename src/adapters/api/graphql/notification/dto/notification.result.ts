@@ -0,0 +1,59 @@
+// src/adapters/api/graphql/notification/dto/notification.result.ts
+
+import { NotificationCategory } from '@app-types/models/notification.types';
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+import { PaginationInfo } from '@src/adapters/api/graphql/identity-management/learner/dto/learners.list';
+
+/**
+ * 站内通知
+ */
+@ObjectType({ description: '站内通知' })
+export class NotificationDTO {
+  @Field(() => Int, { description: '通知 ID' })
+  id!: number;
+
+  @Field(() => NotificationCategory, { description: '通知分类' })
+  category!: NotificationCategory;
+
+  @Field(() => String, { description: '标题' })
+  title!: string;
+
+  @Field(() => String, { description: '正文' })
+  body!: string;
+
+  @Field(() => String, { nullable: true, description: '客户端跳转链接' })
+  link!: string | null;
+
+  @Field(() => Date, { nullable: true, description: '已读时间（未读为空）' })
+  readAt!: Date | null;
+
+  @Field(() => Date, { description: '创建时间' })
+  createdAt!: Date;
+}
+
+/**
+ * 我的通知分页结果
+ */
+@ObjectType({ description: '我的通知分页结果' })
+export class MyNotificationsResult {
+  @Field(() => [NotificationDTO], { description: '通知列表' })
+  items!: NotificationDTO[];
+
+  @Field(() => PaginationInfo, { description: '分页信息' })
+  pagination!: PaginationInfo;
+
+  @Field(() => Int, { description: '未读通知数' })
+  unreadCount!: number;
+}
+
+/**
+ * 标记通知已读结果
+ */
+@ObjectType({ description: '标记通知已读结果' })
+export class MarkNotificationsReadResult {
+  @Field(() => Int, { description: '本次标记为已读的通知数' })
+  markedCount!: number;
+
+  @Field(() => Int, { description: '标记后的未读通知数' })
+  unreadCount!: number;
+}
@@ -0,0 +1,67 @@
+// src/adapters/api/graphql/notification/notification.resolver.ts
+
+import { JwtPayload } from '@app-types/jwt.types';
+import { UseGuards } from '@nestjs/common';
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { currentUser } from '@src/adapters/api/graphql/decorators/current-user.decorator';
+import { JwtAuthGuard } from '@src/adapters/api/graphql/guards/jwt-auth.guard';
+import { ListMyNotificationsUsecase } from '@src/usecases/notification/list-my-notifications.usecase';
+import { MarkNotificationsReadUsecase } from '@src/usecases/notification/mark-notifications-read.usecase';
+import { MarkNotificationsReadInput, MyNotificationsInput } from './dto/notification.input';
+import { MarkNotificationsReadResult, MyNotificationsResult } from './dto/notification.result';
+
+/**
+ * 站内通知 GraphQL 解析器
+ */
+@Resolver()
+export class NotificationResolver {
+  constructor(
+    private readonly listMyNotificationsUsecase: ListMyNotificationsUsecase,
+    private readonly markNotificationsReadUsecase: MarkNotificationsReadUsecase,
+  ) {}
+
+  /**
+   * 分页查询我的通知
+   */
+  @Query(() => MyNotificationsResult, { description: '分页查询我的通知' })
+  @UseGuards(JwtAuthGuard)
+  async myNotifications(
+    @Args('input', { nullable: true }) input: MyNotificationsInput | null,
+    @currentUser() user: JwtPayload,
+  ): Promise<MyNotificationsResult> {
+    const result = await this.listMyNotificationsUsecase.execute({
+      currentAccountId: Number(user.sub),
+      unreadOnly: input?.unreadOnly,
+      page: input?.page,
+      limit: input?.limit,
+    });
+
+    return {
+      items: result.items,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1,
+      },
+      unreadCount: result.unreadCount,
+    };
+  }
+
+  /**
+   * 标记通知已读（不指定 ID 时标记全部未读通知）
+   */
+  @Mutation(() => MarkNotificationsReadResult, { description: '标记通知已读' })
+  @UseGuards(JwtAuthGuard)
+  async markNotificationsRead(
+    @Args('input', { nullable: true }) input: MarkNotificationsReadInput | null,
+    @currentUser() user: JwtPayload,
+  ): Promise<MarkNotificationsReadResult> {
+    return await this.markNotificationsReadUsecase.execute({
+      currentAccountId: Number(user.sub),
+      ids: input?.ids,
+    });
+  }
+}
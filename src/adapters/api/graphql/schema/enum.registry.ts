@@ -10,13 +10,27 @@ import {
   ThirdPartyLoginProviderEnum,
   ThirdPartyProviderEnum,
 } from '@app-types/models/account.types';
+import { AuthSessionStatus } from '@app-types/auth/auth-session.types';
+import { SmsCodePurpose } from '@app-types/auth/sms-code.types';
 import { Gender, UserState } from '@app-types/models/user-info.types';
 import {
+  BulkInviteRowStatus,
   CreatableVerificationRecordType,
   SubjectType,
   VerificationRecordStatus,
   VerificationRecordType,
+  WeappBindStatus,
 } from '@app-types/models/verification-record.types';
+import { AccountDataExportStatus } from '@app-types/models/account-lifecycle.types';
+import { AccountMergeConflictScope } from '@app-types/models/account-merge.types';
+import { NotificationCategory } from '@app-types/models/notification.types';
+import {
+  StoredFileAttachmentType,
+  StoredFilePurpose,
+  StoredFileStatus,
+  StoredFileVariant,
+} from '@app-types/models/stored-file.types';
+import { VerificationRecordEventType } from '@app-types/models/verification-record-event.types';
 import { RegisterTypeEnum } from '@app-types/services/register.types';
 import { registerEnumType } from '@nestjs/graphql';
 import { GqlPaginationMode, GqlSortDirection } from '@src/adapters/api/graphql/pagination.enums';
@@ -42,10 +56,22 @@ export function registerEnums(): void {
   registerEnumType(VerificationRecordStatus, { name: 'VerificationRecordStatus' });
   registerEnumType(VerificationRecordType, { name: 'VerificationRecordType' });
   registerEnumType(CreatableVerificationRecordType, { name: 'CreatableVerificationRecordType' });
+  registerEnumType(BulkInviteRowStatus, { name: 'BulkInviteRowStatus' });
+  registerEnumType(WeappBindStatus, { name: 'WeappBindStatus' });
+  registerEnumType(VerificationRecordEventType, { name: 'VerificationRecordEventType' });
+  registerEnumType(NotificationCategory, { name: 'NotificationCategory' });
+  registerEnumType(AccountDataExportStatus, { name: 'AccountDataExportStatus' });
+  registerEnumType(AccountMergeConflictScope, { name: 'AccountMergeConflictScope' });
+  registerEnumType(StoredFileStatus, { name: 'StoredFileStatus' });
+  registerEnumType(StoredFilePurpose, { name: 'StoredFilePurpose' });
+  registerEnumType(StoredFileAttachmentType, { name: 'StoredFileAttachmentType' });
+  registerEnumType(StoredFileVariant, { name: 'StoredFileVariant' });
   registerEnumType(LearnerSortField, { name: 'LearnerSortField' });
   registerEnumType(CustomerSortField, { name: 'CustomerSortField' });
   registerEnumType(CoachSortField, { name: 'CoachSortField' });
   registerEnumType(OrderDirection, { name: 'OrderDirection' });
   registerEnumType(GqlPaginationMode, { name: 'PaginationMode' });
   registerEnumType(GqlSortDirection, { name: 'SortDirection' });
+  registerEnumType(AuthSessionStatus, { name: 'AuthSessionStatus' });
+  registerEnumType(SmsCodePurpose, { name: 'SmsCodePurpose' });
 }
@@ -0,0 +1,65 @@
+// src/adapters/api/graphql/storage/dto/storage.input.ts
+
+import { StoredFileAttachmentType, StoredFileVariant } from '@app-types/models/stored-file.types';
+import { Field, InputType, Int } from '@nestjs/graphql';
+import { IsEnum, IsInt, IsNotEmpty, IsOptional, IsPositive, IsString } from 'class-validator';
+
+/**
+ * 申请上传头像输入参数
+ */
+@InputType({ description: '申请上传头像输入参数' })
+export class RequestAvatarUploadInput {
+  @Field(() => String, { description: '文件的 Content-Type，如 image/png；上传时须一致' })
+  @IsString()
+  @IsNotEmpty({ message: 'Content-Type 不能为空' })
+  contentType!: string;
+
+  @Field(() => Int, { description: '文件字节数，上传内容不得超过该值' })
+  @IsInt({ message: '文件大小必须是整数' })
+  @IsPositive({ message: '文件大小必须是正整数' })
+  sizeBytes!: number;
+}
+
+/**
+ * 设置头像输入参数
+ */
+@InputType({ description: '设置头像输入参数' })
+export class UploadAvatarInput {
+  @Field(() => Int, { description: '已上传完成的文件 ID' })
+  @IsInt({ message: '文件 ID 必须是整数' })
+  @IsPositive({ message: '文件 ID 必须是正整数' })
+  fileId!: number;
+
+  @Field(() => StoredFileAttachmentType, { description: '头像归属类型' })
+  @IsEnum(StoredFileAttachmentType, { message: '头像归属类型无效' })
+  target!: StoredFileAttachmentType;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: '教练 ID / 学员 ID；设置本人头像或教练本人头像时可省略',
+  })
+  @IsOptional()
+  @IsInt({ message: '目标 ID 必须是整数' })
+  @IsPositive({ message: '目标 ID 必须是正整数' })
+  targetId?: number;
+}
+
+/**
+ * 签发文件下载链接输入参数
+ */
+@InputType({ description: '签发文件下载链接输入参数' })
+export class StoredFileDownloadUrlInput {
+  @Field(() => Int, { description: '文件 ID' })
+  @IsInt({ message: '文件 ID 必须是整数' })
+  @IsPositive({ message: '文件 ID 必须是正整数' })
+  fileId!: number;
+
+  @Field(() => StoredFileVariant, {
+    nullable: true,
+    description: '文件版本，默认原图',
+    defaultValue: StoredFileVariant.ORIGINAL,
+  })
+  @IsOptional()
+  @IsEnum(StoredFileVariant, { message: '文件版本无效' })
+  variant?: StoredFileVariant = StoredFileVariant.ORIGINAL;
+}
@@ -0,0 +1,89 @@
+// src/adapters/api/graphql/storage/dto/storage.result.ts
+
+import {
+  StoredFileAttachmentType,
+  StoredFilePurpose,
+  StoredFileStatus,
+} from '@app-types/models/stored-file.types';
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+
+/**
+ * 已存储的文件
+ */
+@ObjectType({ description: '已存储的文件' })
+export class StoredFileDTO {
+  @Field(() => Int, { description: '文件 ID' })
+  id!: number;
+
+  @Field(() => StoredFilePurpose, { description: '文件用途' })
+  purpose!: StoredFilePurpose;
+
+  @Field(() => StoredFileStatus, { description: '文件状态' })
+  status!: StoredFileStatus;
+
+  @Field(() => String, { description: 'Content-Type' })
+  contentType!: string;
+
+  @Field(() => Int, { nullable: true, description: '文件字节数（上传前为申请的大小）' })
+  sizeBytes!: number | null;
+
+  @Field(() => Int, { nullable: true, description: '图片宽度（上传后可用）' })
+  width!: number | null;
+
+  @Field(() => Int, { nullable: true, description: '图片高度（上传后可用）' })
+  height!: number | null;
+
+  @Field(() => StoredFileAttachmentType, { nullable: true, description: '引用方类型' })
+  attachedType!: StoredFileAttachmentType | null;
+
+  @Field(() => Int, { nullable: true, description: '引用方 ID' })
+  attachedId!: number | null;
+
+  @Field(() => Date, { nullable: true, description: '上传完成时间' })
+  uploadedAt!: Date | null;
+
+  @Field(() => Date, { description: '创建时间' })
+  createdAt!: Date;
+}
+
+/**
+ * 头像上传凭证
+ */
+@ObjectType({ description: '头像上传凭证' })
+export class AvatarUploadTicketResult {
+  @Field(() => StoredFileDTO, { description: '待上传的文件' })
+  file!: StoredFileDTO;
+
+  @Field(() => String, { description: '签名上传链接，以 PUT 方式上传文件内容' })
+  uploadUrl!: string;
+
+  @Field(() => Date, { description: '上传链接过期时间' })
+  expiresAt!: Date;
+}
+
+/**
+ * 设置头像结果
+ */
+@ObjectType({ description: '设置头像结果' })
+export class UploadAvatarResult {
+  @Field(() => StoredFileDTO, { description: '头像文件' })
+  file!: StoredFileDTO;
+
+  @Field(() => String, { description: '头像地址' })
+  avatarUrl!: string;
+
+  @Field(() => String, { description: '缩略图地址' })
+  thumbnailUrl!: string;
+}
+
+/**
+ * 签名下载链接
+ */
+@ObjectType({ description: '签名下载链接' })
+export class StoredFileDownloadUrlResult {
+  @Field(() => String, { description: '下载链接' })
+  url!: string;
+
+  @Field(() => Date, { description: '链接过期时间' })
+  expiresAt!: Date;
+}
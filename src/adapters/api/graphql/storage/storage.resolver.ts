@@ -0,0 +1,84 @@
+// src/adapters/api/graphql/storage/storage.resolver.ts
+
+import { mapJwtToUsecaseSession } from '@app-types/auth/session.types';
+import { JwtPayload } from '@app-types/jwt.types';
+import { StoredFileVariant } from '@app-types/models/stored-file.types';
+import { UseGuards } from '@nestjs/common';
+import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { currentUser } from '@src/adapters/api/graphql/decorators/current-user.decorator';
+import { JwtAuthGuard } from '@src/adapters/api/graphql/guards/jwt-auth.guard';
+import { CreateFileDownloadUrlUsecase } from '@src/usecases/storage/create-file-download-url.usecase';
+import { RequestAvatarUploadUsecase } from '@src/usecases/storage/request-avatar-upload.usecase';
+import { UploadAvatarUsecase } from '@src/usecases/storage/upload-avatar.usecase';
+import {
+  RequestAvatarUploadInput,
+  StoredFileDownloadUrlInput,
+  UploadAvatarInput,
+} from './dto/storage.input';
+import {
+  AvatarUploadTicketResult,
+  StoredFileDownloadUrlResult,
+  UploadAvatarResult,
+} from './dto/storage.result';
+
+/**
+ * 文件存储 GraphQL 解析器
+ * 文件内容通过签名链接上传 / 读取，此处只负责签发链接与设置头像
+ */
+@Resolver()
+export class StorageResolver {
+  constructor(
+    private readonly requestAvatarUploadUsecase: RequestAvatarUploadUsecase,
+    private readonly uploadAvatarUsecase: UploadAvatarUsecase,
+    private readonly createFileDownloadUrlUsecase: CreateFileDownloadUrlUsecase,
+  ) {}
+
+  /**
+   * 申请上传头像，返回签名上传链接
+   */
+  @Mutation(() => AvatarUploadTicketResult, { description: '申请上传头像' })
+  @UseGuards(JwtAuthGuard)
+  async requestAvatarUpload(
+    @Args('input') input: RequestAvatarUploadInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<AvatarUploadTicketResult> {
+    return await this.requestAvatarUploadUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+      contentType: input.contentType,
+      sizeBytes: input.sizeBytes,
+    });
+  }
+
+  /**
+   * 将已上传的图片设为头像（本人 / 教练 / 学员）
+   */
+  @Mutation(() => UploadAvatarResult, { description: '设置头像' })
+  @UseGuards(JwtAuthGuard)
+  async uploadAvatar(
+    @Args('input') input: UploadAvatarInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<UploadAvatarResult> {
+    return await this.uploadAvatarUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+      fileId: input.fileId,
+      target: input.target,
+      targetId: input.targetId,
+    });
+  }
+
+  /**
+   * 签发文件下载链接（上传者本人或管理员）
+   */
+  @Query(() => StoredFileDownloadUrlResult, { description: '签发文件下载链接' })
+  @UseGuards(JwtAuthGuard)
+  async storedFileDownloadUrl(
+    @Args('input') input: StoredFileDownloadUrlInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<StoredFileDownloadUrlResult> {
+    return await this.createFileDownloadUrlUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+      fileId: input.fileId,
+      variant: input.variant ?? StoredFileVariant.ORIGINAL,
+    });
+  }
+}
@@ -0,0 +1,18 @@
+// src/adapters/api/graphql/third-party-auth/dto/begin-oidc-login.input.ts
+import { AudienceTypeEnum, ThirdPartyLoginProviderEnum } from '@app-types/models/account.types';
+import { Field, InputType } from '@nestjs/graphql';
+import { IsEnum } from 'class-validator';
+
+/**
+ * 发起 OIDC / OAuth2 登录输入参数
+ */
+@InputType()
+export class BeginOidcLoginInput {
+  @Field(() => ThirdPartyLoginProviderEnum, { description: '第三方平台类型（GOOGLE / GITHUB）' })
+  @IsEnum(ThirdPartyLoginProviderEnum)
+  provider!: ThirdPartyLoginProviderEnum;
+
+  @Field(() => AudienceTypeEnum, { description: '客户端类型' })
+  @IsEnum(AudienceTypeEnum, { message: '客户端类型无效' })
+  audience!: AudienceTypeEnum;
+}
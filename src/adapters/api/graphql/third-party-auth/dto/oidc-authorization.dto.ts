@@ -0,0 +1,19 @@
+// src/adapters/api/graphql/third-party-auth/dto/oidc-authorization.dto.ts
+import { Field, ObjectType } from '@nestjs/graphql';
+
+/**
+ * 发起 OIDC / OAuth2 登录结果
+ */
+@ObjectType({ description: '发起 OIDC / OAuth2 登录的返回结果' })
+export class OidcAuthorizationDTO {
+  @Field({ description: '需跳转的平台授权地址' })
+  authorizationUrl!: string;
+
+  @Field({ description: '回调时须与 code 一并提交的 state' })
+  state!: string;
+
+  @Field({
+    description: '登录流程令牌：由客户端保管（勿放入回调地址），回调后随 thirdPartyLogin 提交',
+  })
+  flowToken!: string;
+}
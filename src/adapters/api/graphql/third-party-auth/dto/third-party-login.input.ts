@@ -8,7 +8,9 @@ import { IsEnum, IsNotEmpty, IsOptional, IsString } from 'class-validator';
  */
 @InputType()
 export class ThirdPartyLoginInput {
-  @Field(() => ThirdPartyLoginProviderEnum, { description: '第三方平台类型（当前仅支持 WeApp）' })
+  @Field(() => ThirdPartyLoginProviderEnum, {
+    description: '第三方平台类型（WEAPP：小程序 js_code；WECHAT / GOOGLE / GITHUB：授权码 code）',
+  })
   @IsEnum(ThirdPartyLoginProviderEnum)
   provider!: ThirdPartyLoginProviderEnum;
 
@@ -17,6 +19,19 @@ export class ThirdPartyLoginInput {
   @IsNotEmpty()
   authCredential!: string;
 
+  @Field({ nullable: true, description: 'OIDC / OAuth2 回调中的 state（GOOGLE / GITHUB 必填）' })
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @Field({
+    nullable: true,
+    description: 'beginOidcLogin 返回的登录流程令牌（GOOGLE / GITHUB 必填）',
+  })
+  @IsOptional()
+  @IsString()
+  flowToken?: string;
+
   @Field({ nullable: true, description: '客户端 IP 地址' })
   @IsOptional()
   @IsString()
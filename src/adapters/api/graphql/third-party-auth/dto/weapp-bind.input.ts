@@ -0,0 +1,80 @@
+// src/adapters/api/graphql/third-party-auth/dto/weapp-bind.input.ts
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { Field, InputType, Int } from '@nestjs/graphql';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * 发起小程序扫码绑定输入参数
+ */
+@InputType({ description: '发起小程序扫码绑定输入参数' })
+export class RequestWeappBindInput {
+  @Field(() => AudienceTypeEnum, { description: '小程序码所属客户端类型' })
+  @IsEnum(AudienceTypeEnum, { message: '客户端类型无效' })
+  audience!: AudienceTypeEnum;
+
+  @Field({ nullable: true, description: '小程序页面路径（官方要求不带参数）' })
+  @IsOptional()
+  @IsString()
+  page?: string;
+
+  @Field(() => Int, { nullable: true, description: '图片宽度（280–1280）' })
+  @IsOptional()
+  @IsInt()
+  @Min(280)
+  @Max(1280)
+  width?: number;
+
+  @Field({ nullable: true, description: '小程序版本（develop / trial / release）' })
+  @IsOptional()
+  @IsIn(['develop', 'trial', 'release'], { message: '小程序版本无效' })
+  envVersion?: 'develop' | 'trial' | 'release';
+
+  @Field(() => Int, { nullable: true, description: '有效期（分钟，默认 10 分钟）' })
+  @IsOptional()
+  @IsInt({ message: '有效期必须是整数' })
+  @Min(1, { message: '有效期不能少于 1 分钟' })
+  @Max(60, { message: '有效期不能超过 60 分钟' })
+  expiresInMinutes?: number;
+}
+
+/**
+ * 确认小程序扫码绑定输入参数
+ */
+@InputType({ description: '确认小程序扫码绑定输入参数' })
+export class ConfirmWeappBindInput {
+  @Field({ description: '小程序码 scene 中的绑定 token' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32, { message: '绑定 token 长度不能超过 32' })
+  token!: string;
+
+  @Field({ description: '小程序 wx.login 获取的 js_code' })
+  @IsString()
+  @IsNotEmpty()
+  authCredential!: string;
+
+  @Field(() => AudienceTypeEnum, { description: '客户端类型' })
+  @IsEnum(AudienceTypeEnum, { message: '客户端类型无效' })
+  audience!: AudienceTypeEnum;
+}
+
+/**
+ * 查询小程序扫码绑定状态输入参数
+ */
+@InputType({ description: '查询小程序扫码绑定状态输入参数' })
+export class WeappBindStatusInput {
+  @Field(() => Int, { description: '绑定记录 ID' })
+  @IsInt({ message: '绑定记录 ID 必须是整数' })
+  @Min(1, { message: '绑定记录 ID 必须大于 0' })
+  recordId!: number;
+}
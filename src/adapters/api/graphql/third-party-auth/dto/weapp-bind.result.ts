@@ -0,0 +1,42 @@
+// src/adapters/api/graphql/third-party-auth/dto/weapp-bind.result.ts
+import { WeappBindStatus } from '@app-types/models/verification-record.types';
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+
+/**
+ * 发起小程序扫码绑定结果
+ */
+@ObjectType({ description: '发起小程序扫码绑定结果' })
+export class WeappBindRequestResult {
+  @Field(() => Int, { description: '绑定记录 ID（用于轮询绑定状态）' })
+  recordId!: number;
+
+  @Field(() => String, { description: '绑定 token（小程序码 scene）' })
+  token!: string;
+
+  @Field(() => Date, { description: '过期时间' })
+  expiresAt!: Date;
+
+  @Field(() => String, { description: '小程序码内容类型', nullable: true })
+  qrcodeContentType!: string | null;
+
+  @Field(() => String, { description: '小程序码 Base64 字符串', nullable: true })
+  qrcodeImageBase64!: string | null;
+}
+
+/**
+ * 小程序扫码绑定状态
+ */
+@ObjectType({ description: '小程序扫码绑定状态' })
+export class WeappBindStatusDTO {
+  @Field(() => Int, { description: '绑定记录 ID' })
+  recordId!: number;
+
+  @Field(() => WeappBindStatus, { description: '绑定状态' })
+  status!: WeappBindStatus;
+
+  @Field(() => Date, { description: '过期时间' })
+  expiresAt!: Date;
+
+  @Field(() => Date, { description: '完成绑定时间', nullable: true })
+  boundAt!: Date | null;
+}
@@ -23,21 +23,36 @@ import {
 import { IdentityUnionType } from '@src/adapters/api/graphql/account/dto/identity/identity-union.type';
 import { LoginResult } from '@src/adapters/api/graphql/account/dto/login-result.dto';
 import { UserInfoDTO } from '@src/adapters/api/graphql/account/dto/user-info.dto';
+import { clientIp } from '@src/adapters/api/graphql/decorators/client-ip.decorator';
+import { clientUserAgent } from '@src/adapters/api/graphql/decorators/client-user-agent.decorator';
 import { currentUser } from '@src/adapters/api/graphql/decorators/current-user.decorator';
 import { JwtAuthGuard } from '@src/adapters/api/graphql/guards/jwt-auth.guard';
+import { NoImpersonationGuard } from '@src/adapters/api/graphql/guards/no-impersonation.guard';
+import { BeginOidcLoginInput } from '@src/adapters/api/graphql/third-party-auth/dto/begin-oidc-login.input';
 import { BindThirdPartyInput } from '@src/adapters/api/graphql/third-party-auth/dto/bind-third-party.input';
 import { GenerateWeappQrcodeInput } from '@src/adapters/api/graphql/third-party-auth/dto/generate-weapp-qrcode.input';
 import { GenerateWeappQrcodeResultDTO } from '@src/adapters/api/graphql/third-party-auth/dto/generate-weapp-qrcode.result';
 import { GetWeappPhoneInput } from '@src/adapters/api/graphql/third-party-auth/dto/get-weapp-phone.input';
+import { OidcAuthorizationDTO } from '@src/adapters/api/graphql/third-party-auth/dto/oidc-authorization.dto';
 import { ThirdPartyAuthDTO } from '@src/adapters/api/graphql/third-party-auth/dto/third-party-auth.dto';
 import { ThirdPartyLoginInput } from '@src/adapters/api/graphql/third-party-auth/dto/third-party-login.input';
 import { UnbindThirdPartyInput } from '@src/adapters/api/graphql/third-party-auth/dto/unbind-third-party.input';
+import {
+  ConfirmWeappBindInput,
+  RequestWeappBindInput,
+  WeappBindStatusInput,
+} from '@src/adapters/api/graphql/third-party-auth/dto/weapp-bind.input';
+import {
+  WeappBindRequestResult,
+  WeappBindStatusDTO,
+} from '@src/adapters/api/graphql/third-party-auth/dto/weapp-bind.result';
 import { WeappPhoneResultDTO } from '@src/adapters/api/graphql/third-party-auth/dto/weapp-phone-result.dto';
 import { CompleteUserData, FetchUserInfoUsecase } from '@usecases/account/fetch-user-info.usecase';
 import {
   LoginWithThirdPartyUsecase,
   ThirdPartyLoginParams,
 } from '@usecases/auth/login-with-third-party.usecase';
+import { BeginOidcLoginUsecase } from '@usecases/third-party-accounts/begin-oidc-login.usecase';
 import { BindThirdPartyAccountUsecase } from '@usecases/third-party-accounts/bind-third-party-account.usecase';
 import {
   GenerateWeappQrcodeUsecase,
@@ -49,6 +64,9 @@ import {
   GetWeappPhoneUsecase,
 } from '@usecases/third-party-accounts/get-weapp-phone.usecase';
 import { UnbindThirdPartyAccountUsecase } from '@usecases/third-party-accounts/unbind-third-party-account.usecase';
+import { ConfirmWeappBindUsecase } from '@usecases/verification/third-party/confirm-weapp-bind.usecase';
+import { GetWeappBindStatusUsecase } from '@usecases/verification/third-party/get-weapp-bind-status.usecase';
+import { RequestWeappBindUsecase } from '@usecases/verification/third-party/request-weapp-bind.usecase';
 import { CoachType } from '../account/dto/identity/coach.dto';
 import { CustomerType } from '../account/dto/identity/customer.dto';
 import { LearnerType } from '../account/dto/identity/learner.dto';
@@ -69,6 +87,10 @@ export class ThirdPartyAuthResolver {
     private readonly bindThirdPartyAccountUsecase: BindThirdPartyAccountUsecase,
     private readonly unbindThirdPartyAccountUsecase: UnbindThirdPartyAccountUsecase,
     private readonly getThirdPartyAuthsUsecase: GetThirdPartyAuthsUsecase,
+    private readonly beginOidcLoginUsecase: BeginOidcLoginUsecase,
+    private readonly requestWeappBindUsecase: RequestWeappBindUsecase,
+    private readonly confirmWeappBindUsecase: ConfirmWeappBindUsecase,
+    private readonly getWeappBindStatusUsecase: GetWeappBindStatusUsecase,
   ) {}
 
   /**
@@ -77,12 +99,19 @@ export class ThirdPartyAuthResolver {
    * - 用例只抛 DomainError；全局 GQL Filter 统一映射为 GraphQL 错误
    */
   @Mutation(() => LoginResult, { description: '第三方登录' })
-  async thirdPartyLogin(@Args('input') input: ThirdPartyLoginInput): Promise<LoginResult> {
+  async thirdPartyLogin(
+    @Args('input') input: ThirdPartyLoginInput,
+    @clientUserAgent() userAgent?: string,
+    @clientIp() requestIp?: string,
+  ): Promise<LoginResult> {
     const params: ThirdPartyLoginParams = {
       provider: this.mapLoginProvider(input.provider),
       authCredential: input.authCredential,
       audience: input.audience,
-      ip: input.ip,
+      state: input.state,
+      flowToken: input.flowToken,
+      ip: requestIp ?? input.ip,
+      userAgent,
     };
 
     const result: LoginResultModel = await this.loginWithThirdPartyUsecase.execute(params);
@@ -107,12 +136,32 @@ export class ThirdPartyAuthResolver {
     };
   }
 
+  /**
+   * 发起 OIDC / OAuth2 登录（GOOGLE / GITHUB）
+   * 客户端跳转到 authorizationUrl；回调后以 code 作为 authCredential，
+   * 连同 state 与 flowToken 调用 thirdPartyLogin
+   */
+  @Mutation(() => OidcAuthorizationDTO, { description: '发起 OIDC / OAuth2 登录' })
+  async beginOidcLogin(@Args('input') input: BeginOidcLoginInput): Promise<OidcAuthorizationDTO> {
+    return await this.beginOidcLoginUsecase.execute({
+      provider: this.mapLoginProvider(input.provider),
+      audience: input.audience,
+    });
+  }
+
   /**
    * 将登录输入平台映射为内部平台枚举
    */
   private mapLoginProvider(provider: ThirdPartyLoginProviderEnum): ThirdPartyProviderEnum {
-    if (provider === ThirdPartyLoginProviderEnum.WEAPP) {
-      return ThirdPartyProviderEnum.WEAPP;
+    switch (provider) {
+      case ThirdPartyLoginProviderEnum.WEAPP:
+        return ThirdPartyProviderEnum.WEAPP;
+      case ThirdPartyLoginProviderEnum.WECHAT:
+        return ThirdPartyProviderEnum.WECHAT;
+      case ThirdPartyLoginProviderEnum.GOOGLE:
+        return ThirdPartyProviderEnum.GOOGLE;
+      case ThirdPartyLoginProviderEnum.GITHUB:
+        return ThirdPartyProviderEnum.GITHUB;
     }
 
     throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '不支持的第三方登录平台');
@@ -126,7 +175,7 @@ export class ThirdPartyAuthResolver {
    * @returns 绑定后的第三方认证信息
    * @throws HttpException 当绑定冲突时抛出异常
    */
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
   @Mutation(() => ThirdPartyAuthDTO, { description: '绑定第三方账户' })
   async bindThirdParty(
     @Args('input') input: BindThirdPartyInput,
@@ -158,7 +207,7 @@ export class ThirdPartyAuthResolver {
    * @returns 解绑操作是否成功
    * @throws HttpException 当绑定记录不存在时抛出异常
    */
-  @UseGuards(JwtAuthGuard)
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
   @Mutation(() => Boolean, { description: '解绑第三方账户' })
   async unbindThirdParty(
     @Args('input') input: UnbindThirdPartyInput,
@@ -243,6 +292,77 @@ export class ThirdPartyAuthResolver {
     };
   }
 
+  /**
+   * 发起小程序扫码绑定（网页端已登录用户）
+   * 签发 WEAPP_BIND 绑定码并生成小程序码，网页端随后按 recordId 轮询 weappBindStatus
+   * @param input 小程序码参数与有效期
+   * @param user 当前登录用户信息
+   * @returns 绑定记录与小程序码
+   */
+  @UseGuards(JwtAuthGuard, NoImpersonationGuard)
+  @Mutation(() => WeappBindRequestResult, { description: '发起小程序扫码绑定' })
+  async requestWeappBind(
+    @Args('input') input: RequestWeappBindInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<WeappBindRequestResult> {
+    const result = await this.requestWeappBindUsecase.execute({
+      currentAccountId: user.sub,
+      expiresInMinutes: input.expiresInMinutes,
+      qrcode: {
+        audience: input.audience,
+        page: input.page,
+        width: input.width,
+        envVersion: input.envVersion,
+      },
+    });
+
+    return {
+      recordId: result.recordId,
+      token: result.token,
+      expiresAt: result.expiresAt,
+      qrcodeContentType: result.qrcode?.contentType ?? null,
+      qrcodeImageBase64: result.qrcode?.imageBase64 ?? null,
+    };
+  }
+
+  /**
+   * 确认小程序扫码绑定（小程序端，无需登录）
+   * 以小程序码 scene 中的 token 与 wx.login 的 js_code 为发起绑定的账户写入 WEAPP 绑定
+   * @param input 绑定 token 与 js_code
+   * @returns 绑定是否成功
+   */
+  @Mutation(() => Boolean, { description: '确认小程序扫码绑定' })
+  async confirmWeappBind(
+    @Args('input') input: ConfirmWeappBindInput,
+    @clientIp() requestIp?: string,
+  ): Promise<boolean> {
+    await this.confirmWeappBindUsecase.execute({
+      token: input.token,
+      authCredential: input.authCredential,
+      audience: input.audience,
+      clientIp: requestIp,
+    });
+    return true;
+  }
+
+  /**
+   * 查询小程序扫码绑定状态（网页端轮询）
+   * @param input 绑定记录 ID
+   * @param user 当前登录用户信息
+   * @returns 绑定状态
+   */
+  @UseGuards(JwtAuthGuard)
+  @Query(() => WeappBindStatusDTO, { description: '查询小程序扫码绑定状态' })
+  async weappBindStatus(
+    @Args('input') input: WeappBindStatusInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<WeappBindStatusDTO> {
+    return await this.getWeappBindStatusUsecase.execute({
+      currentAccountId: user.sub,
+      recordId: input.recordId,
+    });
+  }
+
   /**
    * 验证身份实体是否有效
    */
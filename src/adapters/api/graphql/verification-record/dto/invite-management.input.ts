@@ -0,0 +1,152 @@
+// src/adapters/api/graphql/verification-record/dto/invite-management.input.ts
+
+import {
+  VerificationRecordStatus,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import { Field, InputType, Int } from '@nestjs/graphql';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsEmail,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * 查询我签发的验证记录输入参数
+ */
+@InputType({ description: '查询我签发的验证记录输入参数' })
+export class MyIssuedVerificationRecordsInput {
+  @Field(() => VerificationRecordType, {
+    nullable: true,
+    description: '记录类型（默认全部邀请类型）',
+  })
+  @IsOptional()
+  @IsEnum(VerificationRecordType, { message: '记录类型无效' })
+  type?: VerificationRecordType;
+
+  @Field(() => VerificationRecordStatus, {
+    nullable: true,
+    description: '有效状态（已超过有效期的 ACTIVE 记录视为 EXPIRED）',
+  })
+  @IsOptional()
+  @IsEnum(VerificationRecordStatus, { message: '记录状态无效' })
+  status?: VerificationRecordStatus;
+
+  @Field(() => Int, { nullable: true, description: '页码，从 1 开始', defaultValue: 1 })
+  @IsOptional()
+  @IsInt({ message: '页码必须是整数' })
+  @Min(1, { message: '页码必须大于等于 1' })
+  page?: number = 1;
+
+  @Field(() => Int, {
+    nullable: true,
+    description: '每页数量，默认 10，最大 100',
+    defaultValue: 10,
+  })
+  @IsOptional()
+  @IsInt({ message: '每页数量必须是整数' })
+  @Min(1, { message: '每页数量必须大于等于 1' })
+  @Max(100, { message: '每页数量不能超过 100' })
+  limit?: number = 10;
+}
+
+/**
+ * 重新发送邀请输入参数
+ */
+@InputType({ description: '重新发送邀请输入参数' })
+export class ResendInviteInput {
+  @Field(() => Int, { description: '邀请记录 ID' })
+  @IsInt({ message: '记录 ID 必须是整数' })
+  @IsPositive({ message: '记录 ID 必须是正整数' })
+  recordId!: number;
+
+  @Field(() => String, {
+    nullable: true,
+    description: '收件邮箱（默认使用上次的收件邮箱或目标账户邮箱）',
+  })
+  @IsOptional()
+  @IsEmail({}, { message: '邮箱格式不正确' })
+  email?: string;
+
+  @Field(() => Int, { nullable: true, description: '新的有效期（分钟，默认 7 天）' })
+  @IsOptional()
+  @IsInt({ message: '有效期必须是整数' })
+  @Min(5, { message: '有效期不能少于 5 分钟' })
+  @Max(43200, { message: '有效期不能超过 30 天' })
+  expiresInMinutes?: number;
+}
+
+/**
+ * 批量撤销邀请输入参数
+ */
+@InputType({ description: '批量撤销邀请输入参数' })
+export class RevokeInvitesInput {
+  @Field(() => [Int], { description: '邀请记录 ID 列表（最多 100 条）' })
+  @ArrayNotEmpty({ message: '记录 ID 列表不能为空' })
+  @ArrayMaxSize(100, { message: '单次最多撤销 100 条邀请' })
+  @IsInt({ each: true, message: '记录 ID 必须是整数' })
+  @IsPositive({ each: true, message: '记录 ID 必须是正整数' })
+  recordIds!: number[];
+}
+
+/**
+ * 邀请接受情况统计输入参数
+ */
+@InputType({ description: '邀请接受情况统计输入参数' })
+export class InviteAcceptanceStatsInput {
+  @Field(() => VerificationRecordType, {
+    nullable: true,
+    description: '记录类型（默认全部邀请类型）',
+  })
+  @IsOptional()
+  @IsEnum(VerificationRecordType, { message: '记录类型无效' })
+  type?: VerificationRecordType;
+
+  @Field(() => Int, { nullable: true, description: '仅统计该签发者' })
+  @IsOptional()
+  @IsInt({ message: '签发者账号 ID 必须是整数' })
+  @IsPositive({ message: '签发者账号 ID 必须是正整数' })
+  issuedByAccountId?: number;
+}
+
+/**
+ * 批量邀请教练输入参数
+ */
+@InputType({ description: '批量邀请教练输入参数' })
+export class BulkInviteCoachesInput {
+  @Field(() => String, {
+    description: 'CSV 文本，首行为表头：name,email,phone,level,specialty（name、email 必填）',
+  })
+  @IsString({ message: 'CSV 必须是字符串' })
+  @IsNotEmpty({ message: 'CSV 不能为空' })
+  @MaxLength(1048576, { message: 'CSV 不能超过 1 MB' })
+  csv!: string;
+
+  @Field(() => Int, { nullable: true, description: '有效期（分钟，默认 7 天）' })
+  @IsOptional()
+  @IsInt({ message: '有效期必须是整数' })
+  @Min(5, { message: '有效期不能少于 5 分钟' })
+  @Max(43200, { message: '有效期不能超过 30 天' })
+  expiresInMinutes?: number;
+}
+
+/**
+ * 查询批量邀请任务输入参数
+ */
+@InputType({ description: '查询批量邀请任务输入参数' })
+export class BulkInviteCoachesTaskInput {
+  @Field(() => String, { description: '异步任务 ID' })
+  @IsString({ message: '任务 ID 必须是字符串' })
+  @IsNotEmpty({ message: '任务 ID 不能为空' })
+  @MaxLength(128, { message: '任务 ID 过长' })
+  jobId!: string;
+}
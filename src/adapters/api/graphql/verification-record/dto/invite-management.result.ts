@@ -0,0 +1,165 @@
+// src/adapters/api/graphql/verification-record/dto/invite-management.result.ts
+
+import { BulkInviteRowStatus } from '@app-types/models/verification-record.types';
+import { Field, Int, ObjectType } from '@nestjs/graphql';
+import { PaginationInfo } from '@src/adapters/api/graphql/identity-management/learner/dto/learners.list';
+import { VerificationRecordDTO } from './verification-record.dto';
+
+/**
+ * 我签发的验证记录分页结果
+ */
+@ObjectType({ description: '我签发的验证记录分页结果' })
+export class MyIssuedVerificationRecordsResult {
+  @Field(() => [VerificationRecordDTO], { description: '验证记录列表' })
+  items!: VerificationRecordDTO[];
+
+  @Field(() => PaginationInfo, { description: '分页信息' })
+  pagination!: PaginationInfo;
+}
+
+/**
+ * 重新发送邀请结果
+ */
+@ObjectType({ description: '重新发送邀请结果' })
+export class ResendInviteResult {
+  @Field(() => Boolean, { description: '操作是否成功' })
+  success!: boolean;
+
+  @Field(() => VerificationRecordDTO, { nullable: true, description: '轮换后的邀请记录' })
+  data?: VerificationRecordDTO | null;
+
+  @Field(() => String, { nullable: true, description: '新的邀请 token（旧 token 已失效）' })
+  token?: string | null;
+
+  @Field(() => Boolean, { description: '是否已投递邀请邮件' })
+  emailQueued!: boolean;
+
+  @Field(() => String, { nullable: true, description: '错误信息' })
+  message?: string | null;
+}
+
+/**
+ * 批量撤销邀请结果
+ */
+@ObjectType({ description: '批量撤销邀请结果' })
+export class RevokeInvitesResult {
+  @Field(() => [Int], { description: '已撤销的记录 ID' })
+  revokedIds!: number[];
+
+  @Field(() => [Int], { description: '未撤销的记录 ID（不存在、非本人签发、已结束或已过期）' })
+  skippedIds!: number[];
+}
+
+/**
+ * 单个签发者的邀请接受情况
+ */
+@ObjectType({ description: '邀请接受情况统计' })
+export class InviteAcceptanceStatsDTO {
+  @Field(() => Int, { description: '签发者账号 ID' })
+  issuedByAccountId!: number;
+
+  @Field(() => Int, { description: '签发总数' })
+  issued!: number;
+
+  @Field(() => Int, { description: '已接受' })
+  consumed!: number;
+
+  @Field(() => Int, { description: '已过期' })
+  expired!: number;
+
+  @Field(() => Int, { description: '已撤销' })
+  revoked!: number;
+
+  @Field(() => Int, { description: '待接受（仍在有效期内）' })
+  pending!: number;
+}
+
+/**
+ * 批量邀请单行结果
+ */
+@ObjectType({ description: '批量邀请单行结果' })
+export class BulkInviteRowResultDTO {
+  @Field(() => Int, { description: '数据行号（不含表头，从 1 开始）' })
+  rowNumber!: number;
+
+  @Field(() => BulkInviteRowStatus, { description: '处理状态' })
+  status!: BulkInviteRowStatus;
+
+  @Field(() => String, { nullable: true, description: '邮箱' })
+  email!: string | null;
+
+  @Field(() => Int, { nullable: true, description: '邀请记录 ID' })
+  recordId!: number | null;
+
+  @Field(() => Boolean, { description: '是否已投递邀请邮件' })
+  emailQueued!: boolean;
+
+  @Field(() => String, { nullable: true, description: '失败错误码' })
+  errorCode!: string | null;
+
+  @Field(() => String, { nullable: true, description: '失败原因' })
+  message!: string | null;
+}
+
+/**
+ * 批量邀请结果报告
+ */
+@ObjectType({ description: '批量邀请结果报告' })
+export class BulkInviteReportDTO {
+  @Field(() => Int, { description: '数据行数' })
+  total!: number;
+
+  @Field(() => Int, { description: '成功签发数' })
+  succeeded!: number;
+
+  @Field(() => Int, { description: '失败数' })
+  failed!: number;
+
+  @Field(() => [BulkInviteRowResultDTO], { description: '逐行结果' })
+  rows!: BulkInviteRowResultDTO[];
+}
+
+/**
+ * 批量邀请教练结果
+ */
+@ObjectType({ description: '批量邀请教练结果' })
+export class BulkInviteCoachesResult {
+  @Field(() => Int, { description: '数据行数' })
+  total!: number;
+
+  @Field(() => Boolean, { description: '是否转为异步任务（行数较多时）' })
+  async!: boolean;
+
+  @Field(() => String, { nullable: true, description: '异步任务 ID' })
+  jobId!: string | null;
+
+  @Field(() => BulkInviteReportDTO, { nullable: true, description: '逐行结果（同步处理时返回）' })
+  report!: BulkInviteReportDTO | null;
+}
+
+/**
+ * 批量邀请异步任务
+ */
+@ObjectType({ description: '批量邀请异步任务' })
+export class BulkInviteCoachesTaskDTO {
+  @Field(() => String, { description: '异步任务 ID' })
+  jobId!: string;
+
+  @Field(() => String, { description: '任务状态：queued/processing/succeeded/failed/cancelled' })
+  status!: string;
+
+  @Field(() => String, { nullable: true, description: '失败原因或完成摘要' })
+  reason!: string | null;
+
+  @Field(() => Date, { description: '投递时间' })
+  enqueuedAt!: Date;
+
+  @Field(() => Date, { nullable: true, description: '完成时间' })
+  finishedAt!: Date | null;
+
+  @Field(() => BulkInviteReportDTO, {
+    nullable: true,
+    description: '逐行结果（任务未完成或报告已过期时为空）',
+  })
+  report!: BulkInviteReportDTO | null;
+}
@@ -0,0 +1,47 @@
+// src/adapters/api/graphql/verification-record/dto/verification-record-event.dto.ts
+
+import { VerificationRecordEventType } from '@app-types/models/verification-record-event.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { Field, InputType, Int, ObjectType } from '@nestjs/graphql';
+import { IsInt, IsPositive } from 'class-validator';
+
+/**
+ * 查询验证记录事件时间线输入参数
+ */
+@InputType({ description: '查询验证记录事件时间线输入参数' })
+export class VerificationRecordEventsInput {
+  @Field(() => Int, { description: '验证记录 ID' })
+  @IsInt({ message: '记录 ID 必须是整数' })
+  @IsPositive({ message: '记录 ID 必须是正整数' })
+  recordId!: number;
+}
+
+/**
+ * 验证记录事件
+ */
+@ObjectType({ description: '验证记录事件' })
+export class VerificationRecordEventDTO {
+  @Field(() => Int, { description: '验证记录 ID' })
+  recordId!: number;
+
+  @Field(() => VerificationRecordType, { description: '验证记录类型' })
+  recordType!: VerificationRecordType;
+
+  @Field(() => VerificationRecordEventType, { description: '事件类型' })
+  eventType!: VerificationRecordEventType;
+
+  @Field(() => Int, { nullable: true, description: '操作者账户 ID（系统或匿名操作为空）' })
+  actorAccountId!: number | null;
+
+  @Field(() => String, {
+    nullable: true,
+    description: '原因：撤销原因 / 投递渠道 / 消费失败错误码',
+  })
+  reason!: string | null;
+
+  @Field(() => String, { nullable: true, description: '操作 IP' })
+  ip!: string | null;
+
+  @Field(() => Date, { description: '发生时间' })
+  occurredAt!: Date;
+}
@@ -1,5 +1,6 @@
 // src/adapters/api/graphql/verification-record/verification-record.resolver.ts
 
+import { mapJwtToUsecaseSession } from '@app-types/auth/session.types';
 import { JwtPayload } from '@app-types/jwt.types';
 import { IdentityTypeEnum } from '@app-types/models/account.types';
 import {
@@ -11,18 +12,46 @@ import {
 import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
 import { UseGuards } from '@nestjs/common';
 import { Args, Mutation, Query, Resolver } from '@nestjs/graphql';
+import { clientIp } from '@src/adapters/api/graphql/decorators/client-ip.decorator';
 import { currentUser } from '@src/adapters/api/graphql/decorators/current-user.decorator';
 import { Public } from '@src/adapters/api/graphql/decorators/public.decorator';
 import { JwtAuthGuard } from '@src/adapters/api/graphql/guards/jwt-auth.guard';
 import { ConsumeVerificationRecordUsecase } from '@src/usecases/verification-record/consume-verification-record.usecase';
 import { CreateVerificationRecordUsecase } from '@src/usecases/verification-record/create-verification-record.usecase';
 import { FindVerificationRecordUsecase } from '@src/usecases/verification-record/find-verification-record.usecase';
+import { GetVerificationRecordEventsUsecase } from '@src/usecases/verification-record/get-verification-record-events.usecase';
+import { BulkInviteCoachesUsecase } from '@src/usecases/verification/coach/bulk-invite-coaches.usecase';
+import { GetBulkInviteCoachesReportUsecase } from '@src/usecases/verification/coach/get-bulk-invite-coaches-report.usecase';
 import { ConsumeVerificationFlowUsecase } from '@src/usecases/verification/consume-verification-flow.usecase';
+import { GetInviteAcceptanceStatsUsecase } from '@src/usecases/verification/invite/get-invite-acceptance-stats.usecase';
+import { ListIssuedVerificationRecordsUsecase } from '@src/usecases/verification/invite/list-issued-verification-records.usecase';
+import { ResendInviteUsecase } from '@src/usecases/verification/invite/resend-invite.usecase';
+import { RevokeIssuedInvitesUsecase } from '@src/usecases/verification/invite/revoke-issued-invites.usecase';
 import { ConsumeVerificationRecordInput } from './dto/consume-verification-record.input';
 import { CreateVerificationRecordInput } from './dto/create-verification-record.input';
 import { FindVerificationRecordInput } from './dto/find-verification-record.input';
+import {
+  BulkInviteCoachesInput,
+  BulkInviteCoachesTaskInput,
+  InviteAcceptanceStatsInput,
+  MyIssuedVerificationRecordsInput,
+  ResendInviteInput,
+  RevokeInvitesInput,
+} from './dto/invite-management.input';
+import {
+  BulkInviteCoachesResult,
+  BulkInviteCoachesTaskDTO,
+  InviteAcceptanceStatsDTO,
+  MyIssuedVerificationRecordsResult,
+  ResendInviteResult,
+  RevokeInvitesResult,
+} from './dto/invite-management.result';
 import { PublicVerificationRecordDTO } from './dto/public-verification-record.dto';
 import { RevokeVerificationRecordInput } from './dto/revoke-verification-record.input';
+import {
+  VerificationRecordEventDTO,
+  VerificationRecordEventsInput,
+} from './dto/verification-record-event.dto';
 import { VerificationRecordDTO } from './dto/verification-record.dto';
 import {
   CreateVerificationRecordResult,
@@ -40,6 +69,13 @@ export class VerificationRecordResolver {
     private readonly findVerificationRecordUsecase: FindVerificationRecordUsecase,
     private readonly consumeVerificationRecordUsecase: ConsumeVerificationRecordUsecase,
     private readonly consumeVerificationFlowUsecase: ConsumeVerificationFlowUsecase,
+    private readonly listIssuedVerificationRecordsUsecase: ListIssuedVerificationRecordsUsecase,
+    private readonly resendInviteUsecase: ResendInviteUsecase,
+    private readonly revokeIssuedInvitesUsecase: RevokeIssuedInvitesUsecase,
+    private readonly getInviteAcceptanceStatsUsecase: GetInviteAcceptanceStatsUsecase,
+    private readonly bulkInviteCoachesUsecase: BulkInviteCoachesUsecase,
+    private readonly getBulkInviteCoachesReportUsecase: GetBulkInviteCoachesReportUsecase,
+    private readonly getVerificationRecordEventsUsecase: GetVerificationRecordEventsUsecase,
   ) {}
 
   /**
@@ -118,6 +154,10 @@ export class VerificationRecordResolver {
         return VerificationRecordType.INVITE_COACH;
       case CreatableVerificationRecordType.INVITE_MANAGER:
         return VerificationRecordType.INVITE_MANAGER;
+      case CreatableVerificationRecordType.EMAIL_VERIFY_LINK:
+        return VerificationRecordType.EMAIL_VERIFY_LINK;
+      case CreatableVerificationRecordType.EMAIL_VERIFY_CODE:
+        return VerificationRecordType.EMAIL_VERIFY_CODE;
       case CreatableVerificationRecordType.PASSWORD_RESET:
         return VerificationRecordType.PASSWORD_RESET;
     }
@@ -133,6 +173,7 @@ export class VerificationRecordResolver {
   @Query(() => PublicVerificationRecordDTO, { nullable: true, description: '查找验证记录' })
   async findVerificationRecord(
     @Args('input') input: FindVerificationRecordInput,
+    @clientIp() requestIp?: string,
   ): Promise<PublicVerificationRecordDTO | null> {
     if (!input.token) {
       return null;
@@ -143,6 +184,7 @@ export class VerificationRecordResolver {
         token: input.token,
         expectedType: input.expectedType,
         ignoreTargetRestriction: input.ignoreTargetRestriction,
+        viewer: { ip: requestIp },
       });
 
       if (!result) {
@@ -172,6 +214,7 @@ export class VerificationRecordResolver {
   async consumeVerificationRecord(
     @Args('input') input: ConsumeVerificationRecordInput,
     @currentUser() user: JwtPayload,
+    @clientIp() requestIp?: string,
   ): Promise<UpdateVerificationRecordResult> {
     try {
       // 使用 ConsumeVerificationFlowUsecase 处理验证记录消费
@@ -179,54 +222,40 @@ export class VerificationRecordResolver {
         token: input.token,
         consumedByAccountId: user.sub,
         expectedType: input.expectedType,
+        clientIp: requestIp,
       });
 
       // 对于 INVITE_COACH 类型，返回 Coach 相关信息
       if (result && typeof result === 'object' && 'coachId' in result) {
-        return {
-          success: true,
-          data: {
-            id: result.recordId,
-            type: VerificationRecordType.INVITE_COACH,
-            status: VerificationRecordStatus.CONSUMED,
-            expiresAt: new Date(),
-            notBefore: null,
-            targetAccountId: result.accountId,
-            subjectType: SubjectType.COACH,
-            subjectId: result.coachId,
-            payload: null,
-            issuedByAccountId: null,
-            consumedByAccountId: result.accountId,
-            consumedAt: new Date(),
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          },
-          message: null,
-        };
+        return this.toConsumedInviteResult({
+          recordId: result.recordId,
+          accountId: result.accountId,
+          type: VerificationRecordType.INVITE_COACH,
+          subjectType: SubjectType.COACH,
+          subjectId: result.coachId,
+        });
       }
 
       // 对于 INVITE_MANAGER 类型，返回 Manager 相关信息
       if (result && typeof result === 'object' && 'managerId' in result) {
-        return {
-          success: true,
-          data: {
-            id: result.recordId,
-            type: VerificationRecordType.INVITE_MANAGER,
-            status: VerificationRecordStatus.CONSUMED,
-            expiresAt: new Date(),
-            notBefore: null,
-            targetAccountId: result.accountId,
-            subjectType: SubjectType.MANAGER,
-            subjectId: result.managerId,
-            payload: null,
-            issuedByAccountId: null,
-            consumedByAccountId: result.accountId,
-            consumedAt: new Date(),
-            createdAt: new Date(),
-            updatedAt: new Date(),
-          },
-          message: null,
-        };
+        return this.toConsumedInviteResult({
+          recordId: result.recordId,
+          accountId: result.accountId,
+          type: VerificationRecordType.INVITE_MANAGER,
+          subjectType: SubjectType.MANAGER,
+          subjectId: result.managerId,
+        });
+      }
+
+      // 对于 INVITE_LEARNER 类型，返回 Learner 相关信息
+      if (result && typeof result === 'object' && 'learnerId' in result) {
+        return this.toConsumedInviteResult({
+          recordId: result.recordId,
+          accountId: result.accountId,
+          type: VerificationRecordType.INVITE_LEARNER,
+          subjectType: SubjectType.LEARNER,
+          subjectId: result.learnerId,
+        });
       }
 
       // 对于其他类型，返回通用成功消息
@@ -245,6 +274,39 @@ export class VerificationRecordResolver {
     }
   }
 
+  /**
+   * 邀请类记录消费成功后的返回结果（主体为新建或关联的身份）
+   */
+  private toConsumedInviteResult(params: {
+    recordId: number;
+    accountId: number;
+    type: VerificationRecordType;
+    subjectType: SubjectType;
+    subjectId: number;
+  }): UpdateVerificationRecordResult {
+    const now = new Date();
+    return {
+      success: true,
+      data: {
+        id: params.recordId,
+        type: params.type,
+        status: VerificationRecordStatus.CONSUMED,
+        expiresAt: now,
+        notBefore: null,
+        targetAccountId: params.accountId,
+        subjectType: params.subjectType,
+        subjectId: params.subjectId,
+        payload: null,
+        issuedByAccountId: null,
+        consumedByAccountId: params.accountId,
+        consumedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      },
+      message: null,
+    };
+  }
+
   /**
    * 撤销验证记录
    */
@@ -252,11 +314,12 @@ export class VerificationRecordResolver {
   @UseGuards(JwtAuthGuard)
   async revokeVerificationRecord(
     @Args('input') input: RevokeVerificationRecordInput,
-    @currentUser() _user: JwtPayload,
+    @currentUser() user: JwtPayload,
   ): Promise<UpdateVerificationRecordResult> {
     try {
       const result = await this.consumeVerificationRecordUsecase.revokeRecord({
         recordId: input.recordId,
+        actorAccountId: Number(user.sub),
       });
 
       return {
@@ -287,4 +350,151 @@ export class VerificationRecordResolver {
       };
     }
   }
+
+  /**
+   * 分页查询我签发的邀请
+   */
+  @Query(() => MyIssuedVerificationRecordsResult, { description: '分页查询我签发的邀请' })
+  @UseGuards(JwtAuthGuard)
+  async myIssuedVerificationRecords(
+    @Args('input') input: MyIssuedVerificationRecordsInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<MyIssuedVerificationRecordsResult> {
+    const result = await this.listIssuedVerificationRecordsUsecase.execute({
+      currentAccountId: Number(user.sub),
+      type: input.type,
+      status: input.status,
+      page: input.page,
+      limit: input.limit,
+    });
+
+    return {
+      items: result.items,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        totalPages: result.totalPages,
+        hasNext: result.page < result.totalPages,
+        hasPrev: result.page > 1,
+      },
+    };
+  }
+
+  /**
+   * 重新发送邀请：轮换 token 并重新投递邀请邮件
+   */
+  @Mutation(() => ResendInviteResult, { description: '重新发送邀请' })
+  @UseGuards(JwtAuthGuard)
+  async resendInvite(
+    @Args('input') input: ResendInviteInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<ResendInviteResult> {
+    try {
+      const result = await this.resendInviteUsecase.execute({
+        currentAccountId: Number(user.sub),
+        recordId: input.recordId,
+        email: input.email,
+        expiresInMinutes: input.expiresInMinutes,
+      });
+      return {
+        success: true,
+        data: result.record,
+        token: result.token,
+        emailQueued: result.emailQueued,
+        message: null,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        data: null,
+        token: null,
+        emailQueued: false,
+        message: error instanceof Error ? error.message : '重新发送邀请失败',
+      };
+    }
+  }
+
+  /**
+   * 批量撤销我签发的邀请
+   */
+  @Mutation(() => RevokeInvitesResult, { description: '批量撤销我签发的邀请' })
+  @UseGuards(JwtAuthGuard)
+  async revokeInvites(
+    @Args('input') input: RevokeInvitesInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<RevokeInvitesResult> {
+    return await this.revokeIssuedInvitesUsecase.execute({
+      currentAccountId: Number(user.sub),
+      recordIds: input.recordIds,
+    });
+  }
+
+  /**
+   * 按签发者统计邀请接受情况（仅 manager）
+   */
+  @Query(() => [InviteAcceptanceStatsDTO], {
+    description: '按签发者统计邀请接受情况（仅 manager）',
+  })
+  @UseGuards(JwtAuthGuard)
+  async inviteAcceptanceStats(
+    @Args('input', { nullable: true }) input: InviteAcceptanceStatsInput | null,
+    @currentUser() user: JwtPayload,
+  ): Promise<InviteAcceptanceStatsDTO[]> {
+    return await this.getInviteAcceptanceStatsUsecase.execute({
+      currentAccountId: Number(user.sub),
+      type: input?.type,
+      issuedByAccountId: input?.issuedByAccountId,
+    });
+  }
+
+  /**
+   * 通过 CSV 批量邀请教练（仅 manager），行数较多时转为异步任务
+   */
+  @Mutation(() => BulkInviteCoachesResult, {
+    description: '通过 CSV 批量邀请教练（仅 manager），行数较多时转为异步任务',
+  })
+  @UseGuards(JwtAuthGuard)
+  async bulkInviteCoaches(
+    @Args('input') input: BulkInviteCoachesInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<BulkInviteCoachesResult> {
+    return await this.bulkInviteCoachesUsecase.execute({
+      currentAccountId: Number(user.sub),
+      csv: input.csv,
+      expiresInMinutes: input.expiresInMinutes,
+    });
+  }
+
+  /**
+   * 查询本人发起的批量邀请任务状态与结果
+   */
+  @Query(() => BulkInviteCoachesTaskDTO, { description: '查询批量邀请任务状态与结果' })
+  @UseGuards(JwtAuthGuard)
+  async bulkInviteCoachesTask(
+    @Args('input') input: BulkInviteCoachesTaskInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<BulkInviteCoachesTaskDTO> {
+    return await this.getBulkInviteCoachesReportUsecase.execute({
+      currentAccountId: Number(user.sub),
+      jobId: input.jobId,
+    });
+  }
+
+  /**
+   * 查询验证记录事件时间线（仅签发者与 ADMIN）
+   */
+  @Query(() => [VerificationRecordEventDTO], {
+    description: '查询验证记录事件时间线（仅签发者与 ADMIN）',
+  })
+  @UseGuards(JwtAuthGuard)
+  async verificationRecordEvents(
+    @Args('input') input: VerificationRecordEventsInput,
+    @currentUser() user: JwtPayload,
+  ): Promise<VerificationRecordEventDTO[]> {
+    return await this.getVerificationRecordEventsUsecase.execute({
+      session: mapJwtToUsecaseSession(user),
+      recordId: input.recordId,
+    });
+  }
 }
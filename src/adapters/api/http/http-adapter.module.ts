@@ -0,0 +1,15 @@
+// src/adapters/api/http/http-adapter.module.ts
+
+import { Module } from '@nestjs/common';
+import { StorageUsecasesModule } from '@src/usecases/storage/storage-usecases.module';
+import { StorageController } from './storage/storage.controller';
+
+/**
+ * HTTP 适配器模块
+ * 承载不适合走 GraphQL 的接口（如二进制文件上传 / 下载）
+ */
+@Module({
+  imports: [StorageUsecasesModule],
+  controllers: [StorageController],
+})
+export class HttpAdapterModule {}
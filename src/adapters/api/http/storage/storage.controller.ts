@@ -0,0 +1,158 @@
+// src/adapters/api/http/storage/storage.controller.ts
+
+import { StoredFileVariant } from '@app-types/models/stored-file.types';
+import { DomainError, STORAGE_ERROR, isDomainError } from '@core/common/errors/domain-error';
+import {
+  BadRequestException,
+  ConflictException,
+  Controller,
+  ForbiddenException,
+  Get,
+  Headers,
+  HttpException,
+  NotFoundException,
+  Param,
+  PayloadTooLargeException,
+  Put,
+  Query,
+  Req,
+  Res,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { GetStoredFileContentUsecase } from '@src/usecases/storage/get-stored-file-content.usecase';
+import { ReceiveUploadUsecase } from '@src/usecases/storage/receive-upload.usecase';
+import type { Request, Response } from 'express';
+
+/** 公开文件（已设为头像）的缓存时长：fileKey 不可变，可长期缓存 */
+const PUBLIC_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+const PRIVATE_CACHE_CONTROL = 'private, no-store';
+
+/**
+ * 文件内容 HTTP 控制器
+ * - PUT /files/:fileKey：按签名上传链接接收文件内容（请求体为原始二进制）
+ * - GET /files/:fileKey：读取文件内容；公开文件无需签名，其余须携带签名下载链接参数
+ * HTTP 请求不经过 GraphQL 错误映射，DomainError 在此转换为对应的 HTTP 状态码
+ */
+@Controller('files')
+export class StorageController {
+  constructor(
+    private readonly receiveUploadUsecase: ReceiveUploadUsecase,
+    private readonly getStoredFileContentUsecase: GetStoredFileContentUsecase,
+  ) {}
+
+  @Put(':fileKey')
+  async upload(
+    @Param('fileKey') fileKey: string,
+    @Query('expires') expires: string | undefined,
+    @Query('signature') signature: string | undefined,
+    @Headers('content-type') contentType: string | undefined,
+    @Req() req: Request,
+  ): Promise<{ id: number; status: string; width: number | null; height: number | null }> {
+    try {
+      const urlParams = {
+        fileKey,
+        expires: Number(expires),
+        signature: signature ?? '',
+      };
+      // 先校验链接再读取请求体，避免无效请求占用带宽
+      const { maxBytes } = await this.receiveUploadUsecase.authorize(urlParams);
+      const body = await this.readBody(req, maxBytes);
+      const file = await this.receiveUploadUsecase.execute({
+        ...urlParams,
+        contentType: contentType ?? '',
+        body,
+      });
+      return { id: file.id, status: file.status, width: file.width, height: file.height };
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  @Get(':fileKey')
+  async download(
+    @Param('fileKey') fileKey: string,
+    @Query('variant') variant: string | undefined,
+    @Query('expires') expires: string | undefined,
+    @Query('signature') signature: string | undefined,
+    @Res() res: Response,
+  ): Promise<void> {
+    try {
+      const content = await this.getStoredFileContentUsecase.execute({
+        fileKey,
+        variant:
+          variant?.toLowerCase() === 'thumbnail'
+            ? StoredFileVariant.THUMBNAIL
+            : StoredFileVariant.ORIGINAL,
+        expires: expires === undefined ? undefined : Number(expires),
+        signature,
+      });
+      res.setHeader('Content-Type', content.contentType);
+      res.setHeader('Content-Length', String(content.body.length));
+      res.setHeader(
+        'Cache-Control',
+        content.isPublic ? PUBLIC_CACHE_CONTROL : PRIVATE_CACHE_CONTROL,
+      );
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.status(200).end(content.body);
+    } catch (error) {
+      throw this.toHttpException(error);
+    }
+  }
+
+  /**
+   * 读取原始请求体，超过 maxBytes 立即中止
+   */
+  private readBody(req: Request, maxBytes: number): Promise<Buffer> {
+    const tooLarge = () =>
+      new DomainError(STORAGE_ERROR.FILE_TOO_LARGE, '上传内容超过申请的大小', { maxBytes });
+    const declaredLength = Number(req.headers['content-length']);
+    if (Number.isFinite(declaredLength) && declaredLength > maxBytes) {
+      return Promise.reject(tooLarge());
+    }
+    // 已被 body parser 消费（如 application/json），视为空内容
+    if (req.readableEnded) {
+      return Promise.resolve(Buffer.alloc(0));
+    }
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let received = 0;
+      const onData = (chunk: Buffer) => {
+        received += chunk.length;
+        if (received > maxBytes) {
+          req.off('data', onData);
+          req.off('end', onEnd);
+          req.resume();
+          reject(tooLarge());
+          return;
+        }
+        chunks.push(chunk);
+      };
+      const onEnd = () => resolve(Buffer.concat(chunks));
+      req.on('data', onData);
+      req.on('end', onEnd);
+      req.once('error', reject);
+    });
+  }
+
+  private toHttpException(error: unknown): unknown {
+    if (!isDomainError(error)) {
+      return error;
+    }
+    switch (error.code) {
+      case STORAGE_ERROR.FILE_NOT_FOUND:
+        return new NotFoundException(error.message);
+      case STORAGE_ERROR.SIGNED_URL_INVALID:
+        return new ForbiddenException(error.message);
+      case STORAGE_ERROR.FILE_TOO_LARGE:
+        return new PayloadTooLargeException(error.message);
+      case STORAGE_ERROR.CONTENT_TYPE_NOT_ALLOWED:
+      case STORAGE_ERROR.CONTENT_MISMATCH:
+        return new UnsupportedMediaTypeException(error.message);
+      case STORAGE_ERROR.FILE_NOT_READY:
+        return new ConflictException(error.message);
+      default:
+        return error instanceof HttpException ? error : new BadRequestException(error.message);
+    }
+  }
+}
@@ -0,0 +1,11 @@
+// src/adapters/worker/account/account-worker-adapter.module.ts
+import { Module } from '@nestjs/common';
+import { AccountWorkerUsecasesModule } from '@src/usecases/account-worker/account-worker-usecases.module';
+import { AccountProcessor } from './account.processor';
+import { DataExportHandler } from './data-export.handler';
+
+@Module({
+  imports: [AccountWorkerUsecasesModule],
+  providers: [DataExportHandler, AccountProcessor],
+})
+export class AccountWorkerAdapterModule {}
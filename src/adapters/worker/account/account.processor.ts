@@ -0,0 +1,31 @@
+// src/adapters/worker/account/account.processor.ts
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+import { DataExportHandler } from './data-export.handler';
+import {
+  ACCOUNT_QUEUE_NAME,
+  type AccountDataExportJob,
+  type AccountDataExportResult,
+} from './data-export.mapper';
+
+@Injectable()
+@Processor(ACCOUNT_QUEUE_NAME)
+export class AccountProcessor extends WorkerHost {
+  constructor(private readonly dataExportHandler: DataExportHandler) {
+    super();
+  }
+
+  async process(job: AccountDataExportJob): Promise<AccountDataExportResult> {
+    return await this.dataExportHandler.process({ job });
+  }
+
+  @OnWorkerEvent('completed')
+  async onCompleted(job: AccountDataExportJob): Promise<void> {
+    await this.dataExportHandler.onCompleted({ job });
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: AccountDataExportJob | undefined, error: Error): Promise<void> {
+    await this.dataExportHandler.onFailed({ job, error });
+  }
+}
@@ -0,0 +1,43 @@
+// src/adapters/worker/account/data-export.handler.ts
+import { Injectable } from '@nestjs/common';
+import { ProcessAccountDataExportUsecase } from '@src/usecases/account-worker/process-account-data-export.usecase';
+import {
+  type AccountDataExportJob,
+  type AccountDataExportResult,
+  mapDataExportJobToCompleteInput,
+  mapDataExportJobToFailInput,
+  mapDataExportJobToProcessInput,
+  mapMissingDataExportJobToFailInput,
+} from './data-export.mapper';
+
+@Injectable()
+export class DataExportHandler {
+  constructor(private readonly processAccountDataExportUsecase: ProcessAccountDataExportUsecase) {}
+
+  async process(input: { readonly job: AccountDataExportJob }): Promise<AccountDataExportResult> {
+    return await this.processAccountDataExportUsecase.process(
+      mapDataExportJobToProcessInput({ job: input.job }),
+    );
+  }
+
+  async onCompleted(input: { readonly job: AccountDataExportJob }): Promise<void> {
+    await this.processAccountDataExportUsecase.complete(
+      mapDataExportJobToCompleteInput({ job: input.job }),
+    );
+  }
+
+  async onFailed(input: {
+    readonly job: AccountDataExportJob | undefined;
+    readonly error: Error;
+  }): Promise<void> {
+    if (!input.job) {
+      await this.processAccountDataExportUsecase.fail(
+        mapMissingDataExportJobToFailInput({ error: input.error }),
+      );
+      return;
+    }
+    await this.processAccountDataExportUsecase.fail(
+      mapDataExportJobToFailInput({ job: input.job, error: input.error }),
+    );
+  }
+}
@@ -0,0 +1,136 @@
+// src/adapters/worker/account/data-export.mapper.ts
+import type {
+  ProcessAccountDataExportCompleteInput,
+  ProcessAccountDataExportFailInput,
+  ProcessAccountDataExportProcessInput,
+} from '@src/usecases/account-worker/process-account-data-export.usecase';
+import type { Job } from 'bullmq';
+
+export const ACCOUNT_QUEUE_NAME = 'account';
+export const DATA_EXPORT_JOB_NAME = 'data-export';
+
+export interface AccountDataExportPayload {
+  readonly exportId: number;
+  readonly accountId: number;
+  readonly traceId?: string;
+}
+
+export interface AccountDataExportResult {
+  readonly exportId: number;
+  readonly sizeBytes: number;
+}
+
+export type AccountDataExportJob = Job<
+  AccountDataExportPayload,
+  AccountDataExportResult,
+  typeof DATA_EXPORT_JOB_NAME
+>;
+
+export function mapDataExportJobToProcessInput(input: {
+  readonly job: AccountDataExportJob;
+}): ProcessAccountDataExportProcessInput {
+  return {
+    queueName: ACCOUNT_QUEUE_NAME,
+    jobName: DATA_EXPORT_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    payload: input.job.data,
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+  };
+}
+
+export function mapDataExportJobToCompleteInput(input: {
+  readonly job: AccountDataExportJob;
+}): ProcessAccountDataExportCompleteInput {
+  return {
+    queueName: ACCOUNT_QUEUE_NAME,
+    jobName: DATA_EXPORT_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    exportId: input.job.data?.exportId,
+    actorAccountId: input.job.data?.accountId,
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: resolveDate({ timestamp: input.job.finishedOn }),
+    result: input.job.returnvalue ?? undefined,
+  };
+}
+
+export function mapDataExportJobToFailInput(input: {
+  readonly job: AccountDataExportJob;
+  readonly error: Error;
+}): ProcessAccountDataExportFailInput {
+  const occurredAt = resolveDate({ timestamp: input.job.finishedOn });
+  return {
+    queueName: ACCOUNT_QUEUE_NAME,
+    jobName: DATA_EXPORT_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    exportId: input.job.data?.exportId,
+    actorAccountId: input.job.data?.accountId,
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: input.error.message.slice(0, 128),
+  };
+}
+
+export function mapMissingDataExportJobToFailInput(input: {
+  readonly error: Error;
+  readonly occurredAt?: Date;
+}): ProcessAccountDataExportFailInput {
+  const occurredAt = input.occurredAt ?? new Date();
+  const jobId = `missing-job:${DATA_EXPORT_JOB_NAME}:${occurredAt.getTime()}`;
+  return {
+    queueName: ACCOUNT_QUEUE_NAME,
+    jobName: DATA_EXPORT_JOB_NAME,
+    jobId,
+    traceId: jobId,
+    attemptsMade: 0,
+    enqueuedAt: occurredAt,
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: `worker_event_job_missing:${input.error.message.slice(0, 96)}`,
+  };
+}
+
+function resolveDate(input: { readonly timestamp?: number }): Date | undefined {
+  if (typeof input.timestamp !== 'number' || Number.isNaN(input.timestamp)) {
+    return undefined;
+  }
+  return new Date(input.timestamp);
+}
+
+function resolveMaxAttempts(input: { readonly job: AccountDataExportJob }): number | undefined {
+  const attempts = input.job.opts.attempts;
+  if (typeof attempts !== 'number' || Number.isNaN(attempts)) {
+    return undefined;
+  }
+  return attempts;
+}
+
+function resolveJobId(input: { readonly job: AccountDataExportJob }): string {
+  if (typeof input.job.id === 'number') {
+    return String(input.job.id);
+  }
+  return input.job.id ?? `${DATA_EXPORT_JOB_NAME}:${input.job.timestamp}`;
+}
+
+/**
+ * 生产端会写入 traceId，缺失时按 jobId 生成
+ */
+function resolveTraceId(input: { readonly job: AccountDataExportJob }): string {
+  const payloadTraceId = input.job.data?.traceId?.trim();
+  if (payloadTraceId) {
+    return payloadTraceId;
+  }
+  return `account:${resolveJobId({ job: input.job })}`;
+}
@@ -0,0 +1,43 @@
+// src/adapters/worker/invite/bulk-coach-invite.handler.ts
+import { Injectable } from '@nestjs/common';
+import { ProcessBulkCoachInviteUsecase } from '@src/usecases/invite-worker/process-bulk-coach-invite.usecase';
+import {
+  type BulkCoachInviteJob,
+  type BulkCoachInviteResult,
+  mapBulkCoachInviteJobToCompleteInput,
+  mapBulkCoachInviteJobToFailInput,
+  mapBulkCoachInviteJobToProcessInput,
+  mapMissingBulkCoachInviteJobToFailInput,
+} from './bulk-coach-invite.mapper';
+
+@Injectable()
+export class BulkCoachInviteHandler {
+  constructor(private readonly processBulkCoachInviteUsecase: ProcessBulkCoachInviteUsecase) {}
+
+  async process(input: { readonly job: BulkCoachInviteJob }): Promise<BulkCoachInviteResult> {
+    return await this.processBulkCoachInviteUsecase.process(
+      mapBulkCoachInviteJobToProcessInput({ job: input.job }),
+    );
+  }
+
+  async onCompleted(input: { readonly job: BulkCoachInviteJob }): Promise<void> {
+    await this.processBulkCoachInviteUsecase.complete(
+      mapBulkCoachInviteJobToCompleteInput({ job: input.job }),
+    );
+  }
+
+  async onFailed(input: {
+    readonly job: BulkCoachInviteJob | undefined;
+    readonly error: Error;
+  }): Promise<void> {
+    if (!input.job) {
+      await this.processBulkCoachInviteUsecase.fail(
+        mapMissingBulkCoachInviteJobToFailInput({ error: input.error }),
+      );
+      return;
+    }
+    await this.processBulkCoachInviteUsecase.fail(
+      mapBulkCoachInviteJobToFailInput({ job: input.job, error: input.error }),
+    );
+  }
+}
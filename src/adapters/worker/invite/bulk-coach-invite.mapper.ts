@@ -0,0 +1,145 @@
+// src/adapters/worker/invite/bulk-coach-invite.mapper.ts
+import type {
+  ProcessBulkCoachInviteCompleteInput,
+  ProcessBulkCoachInviteFailInput,
+  ProcessBulkCoachInviteProcessInput,
+} from '@src/usecases/invite-worker/process-bulk-coach-invite.usecase';
+import type { Job } from 'bullmq';
+
+export const INVITE_QUEUE_NAME = 'invite';
+export const BULK_COACH_INVITE_JOB_NAME = 'bulk-coach';
+
+export interface BulkCoachInviteRowPayload {
+  readonly rowNumber: number;
+  readonly name: string;
+  readonly email: string;
+  readonly phone: string;
+  readonly level: string;
+  readonly specialty: string;
+}
+
+export interface BulkCoachInvitePayload {
+  readonly issuedByAccountId: number;
+  readonly rows: ReadonlyArray<BulkCoachInviteRowPayload>;
+  readonly expiresInMinutes?: number;
+  readonly traceId?: string;
+}
+
+export interface BulkCoachInviteResult {
+  readonly total: number;
+  readonly succeeded: number;
+  readonly failed: number;
+}
+
+export type BulkCoachInviteJob = Job<
+  BulkCoachInvitePayload,
+  BulkCoachInviteResult,
+  typeof BULK_COACH_INVITE_JOB_NAME
+>;
+
+export function mapBulkCoachInviteJobToProcessInput(input: {
+  readonly job: BulkCoachInviteJob;
+}): ProcessBulkCoachInviteProcessInput {
+  return {
+    queueName: INVITE_QUEUE_NAME,
+    jobName: BULK_COACH_INVITE_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    payload: input.job.data,
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+  };
+}
+
+export function mapBulkCoachInviteJobToCompleteInput(input: {
+  readonly job: BulkCoachInviteJob;
+}): ProcessBulkCoachInviteCompleteInput {
+  return {
+    queueName: INVITE_QUEUE_NAME,
+    jobName: BULK_COACH_INVITE_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    actorAccountId: input.job.data?.issuedByAccountId,
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: resolveDate({ timestamp: input.job.finishedOn }),
+    result: input.job.returnvalue ?? undefined,
+  };
+}
+
+export function mapBulkCoachInviteJobToFailInput(input: {
+  readonly job: BulkCoachInviteJob;
+  readonly error: Error;
+}): ProcessBulkCoachInviteFailInput {
+  const occurredAt = resolveDate({ timestamp: input.job.finishedOn });
+  return {
+    queueName: INVITE_QUEUE_NAME,
+    jobName: BULK_COACH_INVITE_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    actorAccountId: input.job.data?.issuedByAccountId,
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: input.error.message.slice(0, 128),
+  };
+}
+
+export function mapMissingBulkCoachInviteJobToFailInput(input: {
+  readonly error: Error;
+  readonly occurredAt?: Date;
+}): ProcessBulkCoachInviteFailInput {
+  const occurredAt = input.occurredAt ?? new Date();
+  const jobId = `missing-job:${BULK_COACH_INVITE_JOB_NAME}:${occurredAt.getTime()}`;
+  return {
+    queueName: INVITE_QUEUE_NAME,
+    jobName: BULK_COACH_INVITE_JOB_NAME,
+    jobId,
+    traceId: jobId,
+    attemptsMade: 0,
+    enqueuedAt: occurredAt,
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: `worker_event_job_missing:${input.error.message.slice(0, 96)}`,
+  };
+}
+
+function resolveDate(input: { readonly timestamp?: number }): Date | undefined {
+  if (typeof input.timestamp !== 'number' || Number.isNaN(input.timestamp)) {
+    return undefined;
+  }
+  return new Date(input.timestamp);
+}
+
+function resolveMaxAttempts(input: { readonly job: BulkCoachInviteJob }): number | undefined {
+  const attempts = input.job.opts.attempts;
+  if (typeof attempts !== 'number' || Number.isNaN(attempts)) {
+    return undefined;
+  }
+  return attempts;
+}
+
+function resolveJobId(input: { readonly job: BulkCoachInviteJob }): string {
+  if (typeof input.job.id === 'number') {
+    return String(input.job.id);
+  }
+  return input.job.id ?? `${BULK_COACH_INVITE_JOB_NAME}:${input.job.timestamp}`;
+}
+
+/**
+ * 生产端会写入 traceId，缺失时按 jobId 生成
+ */
+function resolveTraceId(input: { readonly job: BulkCoachInviteJob }): string {
+  const payloadTraceId = input.job.data?.traceId?.trim();
+  if (payloadTraceId) {
+    return payloadTraceId;
+  }
+  return `invite:${resolveJobId({ job: input.job })}`;
+}
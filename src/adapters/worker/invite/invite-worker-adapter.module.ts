@@ -0,0 +1,11 @@
+// src/adapters/worker/invite/invite-worker-adapter.module.ts
+import { Module } from '@nestjs/common';
+import { InviteWorkerUsecasesModule } from '@src/usecases/invite-worker/invite-worker-usecases.module';
+import { BulkCoachInviteHandler } from './bulk-coach-invite.handler';
+import { InviteProcessor } from './invite.processor';
+
+@Module({
+  imports: [InviteWorkerUsecasesModule],
+  providers: [BulkCoachInviteHandler, InviteProcessor],
+})
+export class InviteWorkerAdapterModule {}
@@ -0,0 +1,31 @@
+// src/adapters/worker/invite/invite.processor.ts
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+import { BulkCoachInviteHandler } from './bulk-coach-invite.handler';
+import {
+  type BulkCoachInviteJob,
+  type BulkCoachInviteResult,
+  INVITE_QUEUE_NAME,
+} from './bulk-coach-invite.mapper';
+
+@Injectable()
+@Processor(INVITE_QUEUE_NAME)
+export class InviteProcessor extends WorkerHost {
+  constructor(private readonly bulkCoachInviteHandler: BulkCoachInviteHandler) {
+    super();
+  }
+
+  async process(job: BulkCoachInviteJob): Promise<BulkCoachInviteResult> {
+    return await this.bulkCoachInviteHandler.process({ job });
+  }
+
+  @OnWorkerEvent('completed')
+  async onCompleted(job: BulkCoachInviteJob): Promise<void> {
+    await this.bulkCoachInviteHandler.onCompleted({ job });
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: BulkCoachInviteJob | undefined, error: Error): Promise<void> {
+    await this.bulkCoachInviteHandler.onFailed({ job, error });
+  }
+}
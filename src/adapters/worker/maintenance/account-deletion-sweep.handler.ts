@@ -0,0 +1,45 @@
+// src/adapters/worker/maintenance/account-deletion-sweep.handler.ts
+import { Injectable } from '@nestjs/common';
+import { SweepAccountDeletionsUsecase } from '@src/usecases/maintenance-worker/sweep-account-deletions.usecase';
+import {
+  type AccountDeletionSweepJob,
+  type AccountDeletionSweepResult,
+  mapAccountDeletionSweepJobToCompleteInput,
+  mapAccountDeletionSweepJobToFailInput,
+  mapAccountDeletionSweepJobToProcessInput,
+  mapMissingAccountDeletionSweepJobToFailInput,
+} from './account-deletion-sweep.mapper';
+
+@Injectable()
+export class AccountDeletionSweepHandler {
+  constructor(private readonly sweepAccountDeletionsUsecase: SweepAccountDeletionsUsecase) {}
+
+  async process(input: {
+    readonly job: AccountDeletionSweepJob;
+  }): Promise<AccountDeletionSweepResult> {
+    return await this.sweepAccountDeletionsUsecase.process(
+      mapAccountDeletionSweepJobToProcessInput({ job: input.job }),
+    );
+  }
+
+  async onCompleted(input: { readonly job: AccountDeletionSweepJob }): Promise<void> {
+    await this.sweepAccountDeletionsUsecase.complete(
+      mapAccountDeletionSweepJobToCompleteInput({ job: input.job }),
+    );
+  }
+
+  async onFailed(input: {
+    readonly job: AccountDeletionSweepJob | undefined;
+    readonly error: Error;
+  }): Promise<void> {
+    if (!input.job) {
+      await this.sweepAccountDeletionsUsecase.fail(
+        mapMissingAccountDeletionSweepJobToFailInput({ error: input.error }),
+      );
+      return;
+    }
+    await this.sweepAccountDeletionsUsecase.fail(
+      mapAccountDeletionSweepJobToFailInput({ job: input.job, error: input.error }),
+    );
+  }
+}
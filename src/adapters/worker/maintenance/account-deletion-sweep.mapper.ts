@@ -0,0 +1,130 @@
+// src/adapters/worker/maintenance/account-deletion-sweep.mapper.ts
+import type {
+  SweepAccountDeletionsCompleteInput,
+  SweepAccountDeletionsFailInput,
+  SweepAccountDeletionsProcessInput,
+} from '@src/usecases/maintenance-worker/sweep-account-deletions.usecase';
+import type { Job } from 'bullmq';
+import { MAINTENANCE_QUEUE_NAME } from './verification-record-sweep.mapper';
+
+export const ACCOUNT_DELETION_SWEEP_JOB_NAME = 'account-deletion-sweep';
+
+export interface AccountDeletionSweepPayload {
+  readonly traceId?: string;
+}
+
+export interface AccountDeletionSweepResult {
+  readonly erased: number;
+  readonly failed: number;
+  readonly expiredExports: number;
+}
+
+export type AccountDeletionSweepJob = Job<
+  AccountDeletionSweepPayload,
+  AccountDeletionSweepResult,
+  typeof ACCOUNT_DELETION_SWEEP_JOB_NAME
+>;
+
+export function mapAccountDeletionSweepJobToProcessInput(input: {
+  readonly job: AccountDeletionSweepJob;
+}): SweepAccountDeletionsProcessInput {
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: ACCOUNT_DELETION_SWEEP_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+  };
+}
+
+export function mapAccountDeletionSweepJobToCompleteInput(input: {
+  readonly job: AccountDeletionSweepJob;
+}): SweepAccountDeletionsCompleteInput {
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: ACCOUNT_DELETION_SWEEP_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: resolveDate({ timestamp: input.job.finishedOn }),
+    result: input.job.returnvalue ?? undefined,
+  };
+}
+
+export function mapAccountDeletionSweepJobToFailInput(input: {
+  readonly job: AccountDeletionSweepJob;
+  readonly error: Error;
+}): SweepAccountDeletionsFailInput {
+  const occurredAt = resolveDate({ timestamp: input.job.finishedOn });
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: ACCOUNT_DELETION_SWEEP_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: input.error.message.slice(0, 128),
+  };
+}
+
+export function mapMissingAccountDeletionSweepJobToFailInput(input: {
+  readonly error: Error;
+  readonly occurredAt?: Date;
+}): SweepAccountDeletionsFailInput {
+  const occurredAt = input.occurredAt ?? new Date();
+  const jobId = `missing-job:${ACCOUNT_DELETION_SWEEP_JOB_NAME}:${occurredAt.getTime()}`;
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: ACCOUNT_DELETION_SWEEP_JOB_NAME,
+    jobId,
+    traceId: jobId,
+    attemptsMade: 0,
+    enqueuedAt: occurredAt,
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: `worker_event_job_missing:${input.error.message.slice(0, 96)}`,
+  };
+}
+
+function resolveDate(input: { readonly timestamp?: number }): Date | undefined {
+  if (typeof input.timestamp !== 'number' || Number.isNaN(input.timestamp)) {
+    return undefined;
+  }
+  return new Date(input.timestamp);
+}
+
+function resolveMaxAttempts(input: { readonly job: AccountDeletionSweepJob }): number | undefined {
+  const attempts = input.job.opts.attempts;
+  if (typeof attempts !== 'number' || Number.isNaN(attempts)) {
+    return undefined;
+  }
+  return attempts;
+}
+
+function resolveJobId(input: { readonly job: AccountDeletionSweepJob }): string {
+  if (typeof input.job.id === 'number') {
+    return String(input.job.id);
+  }
+  return input.job.id ?? `${ACCOUNT_DELETION_SWEEP_JOB_NAME}:${input.job.timestamp}`;
+}
+
+/**
+ * 周期任务由调度器生成，载荷通常不带 traceId，按 jobId 生成
+ */
+function resolveTraceId(input: { readonly job: AccountDeletionSweepJob }): string {
+  const payloadTraceId = input.job.data?.traceId?.trim();
+  if (payloadTraceId) {
+    return payloadTraceId;
+  }
+  return `maintenance:${resolveJobId({ job: input.job })}`;
+}
@@ -0,0 +1,20 @@
+// src/adapters/worker/maintenance/maintenance-worker-adapter.module.ts
+import { Module } from '@nestjs/common';
+import { MaintenanceWorkerUsecasesModule } from '@src/usecases/maintenance-worker/maintenance-worker-usecases.module';
+import { AccountDeletionSweepHandler } from './account-deletion-sweep.handler';
+import { MaintenanceProcessor } from './maintenance.processor';
+import { MaintenanceScheduler } from './maintenance.scheduler';
+import { StorageOrphanSweepHandler } from './storage-orphan-sweep.handler';
+import { VerificationRecordSweepHandler } from './verification-record-sweep.handler';
+
+@Module({
+  imports: [MaintenanceWorkerUsecasesModule],
+  providers: [
+    VerificationRecordSweepHandler,
+    AccountDeletionSweepHandler,
+    StorageOrphanSweepHandler,
+    MaintenanceProcessor,
+    MaintenanceScheduler,
+  ],
+})
+export class MaintenanceWorkerAdapterModule {}
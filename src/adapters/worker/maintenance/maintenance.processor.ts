@@ -0,0 +1,75 @@
+// src/adapters/worker/maintenance/maintenance.processor.ts
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+import { AccountDeletionSweepHandler } from './account-deletion-sweep.handler';
+import {
+  ACCOUNT_DELETION_SWEEP_JOB_NAME,
+  type AccountDeletionSweepJob,
+  type AccountDeletionSweepResult,
+} from './account-deletion-sweep.mapper';
+import { StorageOrphanSweepHandler } from './storage-orphan-sweep.handler';
+import {
+  STORAGE_ORPHAN_SWEEP_JOB_NAME,
+  type StorageOrphanSweepJob,
+  type StorageOrphanSweepResult,
+} from './storage-orphan-sweep.mapper';
+import { VerificationRecordSweepHandler } from './verification-record-sweep.handler';
+import {
+  MAINTENANCE_QUEUE_NAME,
+  type VerificationRecordSweepJob,
+  type VerificationRecordSweepResult,
+} from './verification-record-sweep.mapper';
+
+type MaintenanceJob = VerificationRecordSweepJob | AccountDeletionSweepJob | StorageOrphanSweepJob;
+
+@Injectable()
+@Processor(MAINTENANCE_QUEUE_NAME)
+export class MaintenanceProcessor extends WorkerHost {
+  constructor(
+    private readonly verificationRecordSweepHandler: VerificationRecordSweepHandler,
+    private readonly accountDeletionSweepHandler: AccountDeletionSweepHandler,
+    private readonly storageOrphanSweepHandler: StorageOrphanSweepHandler,
+  ) {
+    super();
+  }
+
+  async process(
+    job: MaintenanceJob,
+  ): Promise<
+    VerificationRecordSweepResult | AccountDeletionSweepResult | StorageOrphanSweepResult
+  > {
+    if (job.name === ACCOUNT_DELETION_SWEEP_JOB_NAME) {
+      return await this.accountDeletionSweepHandler.process({ job });
+    }
+    if (job.name === STORAGE_ORPHAN_SWEEP_JOB_NAME) {
+      return await this.storageOrphanSweepHandler.process({ job });
+    }
+    return await this.verificationRecordSweepHandler.process({ job });
+  }
+
+  @OnWorkerEvent('completed')
+  async onCompleted(job: MaintenanceJob): Promise<void> {
+    if (job.name === ACCOUNT_DELETION_SWEEP_JOB_NAME) {
+      await this.accountDeletionSweepHandler.onCompleted({ job });
+      return;
+    }
+    if (job.name === STORAGE_ORPHAN_SWEEP_JOB_NAME) {
+      await this.storageOrphanSweepHandler.onCompleted({ job });
+      return;
+    }
+    await this.verificationRecordSweepHandler.onCompleted({ job });
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: MaintenanceJob | undefined, error: Error): Promise<void> {
+    if (job?.name === ACCOUNT_DELETION_SWEEP_JOB_NAME) {
+      await this.accountDeletionSweepHandler.onFailed({ job, error });
+      return;
+    }
+    if (job?.name === STORAGE_ORPHAN_SWEEP_JOB_NAME) {
+      await this.storageOrphanSweepHandler.onFailed({ job, error });
+      return;
+    }
+    await this.verificationRecordSweepHandler.onFailed({ job, error });
+  }
+}
@@ -0,0 +1,101 @@
+// src/adapters/worker/maintenance/maintenance.scheduler.ts
+import { AccountDeletionConfig } from '@app-types/models/account-lifecycle.types';
+import { StorageConfig } from '@app-types/models/stored-file.types';
+import { VerificationRecordSweepConfig } from '@app-types/models/verification-record.types';
+import { getQueueToken } from '@nestjs/bullmq';
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ModuleRef } from '@nestjs/core';
+import { Queue } from 'bullmq';
+import { PinoLogger } from 'nestjs-pino';
+import { ACCOUNT_DELETION_SWEEP_JOB_NAME } from './account-deletion-sweep.mapper';
+import { STORAGE_ORPHAN_SWEEP_JOB_NAME } from './storage-orphan-sweep.mapper';
+import {
+  MAINTENANCE_QUEUE_NAME,
+  VERIFICATION_RECORD_SWEEP_JOB_NAME,
+} from './verification-record-sweep.mapper';
+
+/**
+ * 维护任务调度器
+ * Worker 启动时按配置注册（或移除）周期任务；调度器以固定 ID upsert，多实例重复注册不会产生重复任务
+ */
+@Injectable()
+export class MaintenanceScheduler implements OnApplicationBootstrap {
+  constructor(
+    private readonly moduleRef: ModuleRef,
+    private readonly configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(MaintenanceScheduler.name);
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.scheduleVerificationRecordSweep();
+    await this.scheduleAccountDeletionSweep();
+    await this.scheduleStorageOrphanSweep();
+  }
+
+  private async scheduleVerificationRecordSweep(): Promise<void> {
+    const config = this.configService.get<VerificationRecordSweepConfig>('verificationRecordSweep');
+    const queue = this.getQueue();
+
+    if (!config?.enabled) {
+      await queue.removeJobScheduler(VERIFICATION_RECORD_SWEEP_JOB_NAME);
+      this.logger.info('验证记录清理任务已禁用');
+      return;
+    }
+
+    await queue.upsertJobScheduler(
+      VERIFICATION_RECORD_SWEEP_JOB_NAME,
+      { every: config.everySeconds * 1000 },
+      { name: VERIFICATION_RECORD_SWEEP_JOB_NAME, data: {} },
+    );
+    this.logger.info({ everySeconds: config.everySeconds }, '验证记录清理任务已注册');
+  }
+
+  private async scheduleAccountDeletionSweep(): Promise<void> {
+    const config = this.configService.get<AccountDeletionConfig>('accountDeletion');
+    const queue = this.getQueue();
+
+    if (!config?.sweepEnabled) {
+      await queue.removeJobScheduler(ACCOUNT_DELETION_SWEEP_JOB_NAME);
+      this.logger.info('账户注销任务已禁用');
+      return;
+    }
+
+    await queue.upsertJobScheduler(
+      ACCOUNT_DELETION_SWEEP_JOB_NAME,
+      { every: config.sweepEverySeconds * 1000 },
+      { name: ACCOUNT_DELETION_SWEEP_JOB_NAME, data: {} },
+    );
+    this.logger.info({ everySeconds: config.sweepEverySeconds }, '账户注销任务已注册');
+  }
+
+  private async scheduleStorageOrphanSweep(): Promise<void> {
+    const config = this.configService.get<StorageConfig['orphanSweep']>('storage.orphanSweep');
+    const queue = this.getQueue();
+
+    if (!config?.enabled) {
+      await queue.removeJobScheduler(STORAGE_ORPHAN_SWEEP_JOB_NAME);
+      this.logger.info('孤儿文件清理任务已禁用');
+      return;
+    }
+
+    await queue.upsertJobScheduler(
+      STORAGE_ORPHAN_SWEEP_JOB_NAME,
+      { every: config.everySeconds * 1000 },
+      { name: STORAGE_ORPHAN_SWEEP_JOB_NAME, data: {} },
+    );
+    this.logger.info({ everySeconds: config.everySeconds }, '孤儿文件清理任务已注册');
+  }
+
+  private getQueue(): Queue {
+    const queue = this.moduleRef.get<Queue>(getQueueToken(MAINTENANCE_QUEUE_NAME), {
+      strict: false,
+    });
+    if (!queue) {
+      throw new Error(`BullMQ queue is not registered: ${MAINTENANCE_QUEUE_NAME}`);
+    }
+    return queue;
+  }
+}
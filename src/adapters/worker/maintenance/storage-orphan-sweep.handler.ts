@@ -0,0 +1,43 @@
+// src/adapters/worker/maintenance/storage-orphan-sweep.handler.ts
+import { Injectable } from '@nestjs/common';
+import { SweepOrphanedFilesUsecase } from '@src/usecases/maintenance-worker/sweep-orphaned-files.usecase';
+import {
+  type StorageOrphanSweepJob,
+  type StorageOrphanSweepResult,
+  mapStorageOrphanSweepJobToCompleteInput,
+  mapStorageOrphanSweepJobToFailInput,
+  mapStorageOrphanSweepJobToProcessInput,
+  mapMissingStorageOrphanSweepJobToFailInput,
+} from './storage-orphan-sweep.mapper';
+
+@Injectable()
+export class StorageOrphanSweepHandler {
+  constructor(private readonly sweepOrphanedFilesUsecase: SweepOrphanedFilesUsecase) {}
+
+  async process(input: { readonly job: StorageOrphanSweepJob }): Promise<StorageOrphanSweepResult> {
+    return await this.sweepOrphanedFilesUsecase.process(
+      mapStorageOrphanSweepJobToProcessInput({ job: input.job }),
+    );
+  }
+
+  async onCompleted(input: { readonly job: StorageOrphanSweepJob }): Promise<void> {
+    await this.sweepOrphanedFilesUsecase.complete(
+      mapStorageOrphanSweepJobToCompleteInput({ job: input.job }),
+    );
+  }
+
+  async onFailed(input: {
+    readonly job: StorageOrphanSweepJob | undefined;
+    readonly error: Error;
+  }): Promise<void> {
+    if (!input.job) {
+      await this.sweepOrphanedFilesUsecase.fail(
+        mapMissingStorageOrphanSweepJobToFailInput({ error: input.error }),
+      );
+      return;
+    }
+    await this.sweepOrphanedFilesUsecase.fail(
+      mapStorageOrphanSweepJobToFailInput({ job: input.job, error: input.error }),
+    );
+  }
+}
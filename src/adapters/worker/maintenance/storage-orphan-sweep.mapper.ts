@@ -0,0 +1,129 @@
+// src/adapters/worker/maintenance/storage-orphan-sweep.mapper.ts
+import type {
+  SweepOrphanedFilesCompleteInput,
+  SweepOrphanedFilesFailInput,
+  SweepOrphanedFilesProcessInput,
+} from '@src/usecases/maintenance-worker/sweep-orphaned-files.usecase';
+import type { Job } from 'bullmq';
+import { MAINTENANCE_QUEUE_NAME } from './verification-record-sweep.mapper';
+
+export const STORAGE_ORPHAN_SWEEP_JOB_NAME = 'storage-orphan-sweep';
+
+export interface StorageOrphanSweepPayload {
+  readonly traceId?: string;
+}
+
+export interface StorageOrphanSweepResult {
+  readonly deleted: number;
+  readonly failed: number;
+}
+
+export type StorageOrphanSweepJob = Job<
+  StorageOrphanSweepPayload,
+  StorageOrphanSweepResult,
+  typeof STORAGE_ORPHAN_SWEEP_JOB_NAME
+>;
+
+export function mapStorageOrphanSweepJobToProcessInput(input: {
+  readonly job: StorageOrphanSweepJob;
+}): SweepOrphanedFilesProcessInput {
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: STORAGE_ORPHAN_SWEEP_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+  };
+}
+
+export function mapStorageOrphanSweepJobToCompleteInput(input: {
+  readonly job: StorageOrphanSweepJob;
+}): SweepOrphanedFilesCompleteInput {
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: STORAGE_ORPHAN_SWEEP_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: resolveDate({ timestamp: input.job.finishedOn }),
+    result: input.job.returnvalue ?? undefined,
+  };
+}
+
+export function mapStorageOrphanSweepJobToFailInput(input: {
+  readonly job: StorageOrphanSweepJob;
+  readonly error: Error;
+}): SweepOrphanedFilesFailInput {
+  const occurredAt = resolveDate({ timestamp: input.job.finishedOn });
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: STORAGE_ORPHAN_SWEEP_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: input.error.message.slice(0, 128),
+  };
+}
+
+export function mapMissingStorageOrphanSweepJobToFailInput(input: {
+  readonly error: Error;
+  readonly occurredAt?: Date;
+}): SweepOrphanedFilesFailInput {
+  const occurredAt = input.occurredAt ?? new Date();
+  const jobId = `missing-job:${STORAGE_ORPHAN_SWEEP_JOB_NAME}:${occurredAt.getTime()}`;
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: STORAGE_ORPHAN_SWEEP_JOB_NAME,
+    jobId,
+    traceId: jobId,
+    attemptsMade: 0,
+    enqueuedAt: occurredAt,
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: `worker_event_job_missing:${input.error.message.slice(0, 96)}`,
+  };
+}
+
+function resolveDate(input: { readonly timestamp?: number }): Date | undefined {
+  if (typeof input.timestamp !== 'number' || Number.isNaN(input.timestamp)) {
+    return undefined;
+  }
+  return new Date(input.timestamp);
+}
+
+function resolveMaxAttempts(input: { readonly job: StorageOrphanSweepJob }): number | undefined {
+  const attempts = input.job.opts.attempts;
+  if (typeof attempts !== 'number' || Number.isNaN(attempts)) {
+    return undefined;
+  }
+  return attempts;
+}
+
+function resolveJobId(input: { readonly job: StorageOrphanSweepJob }): string {
+  if (typeof input.job.id === 'number') {
+    return String(input.job.id);
+  }
+  return input.job.id ?? `${STORAGE_ORPHAN_SWEEP_JOB_NAME}:${input.job.timestamp}`;
+}
+
+/**
+ * 周期任务由调度器生成，载荷通常不带 traceId，按 jobId 生成
+ */
+function resolveTraceId(input: { readonly job: StorageOrphanSweepJob }): string {
+  const payloadTraceId = input.job.data?.traceId?.trim();
+  if (payloadTraceId) {
+    return payloadTraceId;
+  }
+  return `maintenance:${resolveJobId({ job: input.job })}`;
+}
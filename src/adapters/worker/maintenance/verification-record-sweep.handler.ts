@@ -0,0 +1,45 @@
+// src/adapters/worker/maintenance/verification-record-sweep.handler.ts
+import { Injectable } from '@nestjs/common';
+import { SweepVerificationRecordsUsecase } from '@src/usecases/maintenance-worker/sweep-verification-records.usecase';
+import {
+  type VerificationRecordSweepJob,
+  type VerificationRecordSweepResult,
+  mapMissingVerificationRecordSweepJobToFailInput,
+  mapVerificationRecordSweepJobToCompleteInput,
+  mapVerificationRecordSweepJobToFailInput,
+  mapVerificationRecordSweepJobToProcessInput,
+} from './verification-record-sweep.mapper';
+
+@Injectable()
+export class VerificationRecordSweepHandler {
+  constructor(private readonly sweepVerificationRecordsUsecase: SweepVerificationRecordsUsecase) {}
+
+  async process(input: {
+    readonly job: VerificationRecordSweepJob;
+  }): Promise<VerificationRecordSweepResult> {
+    return await this.sweepVerificationRecordsUsecase.process(
+      mapVerificationRecordSweepJobToProcessInput({ job: input.job }),
+    );
+  }
+
+  async onCompleted(input: { readonly job: VerificationRecordSweepJob }): Promise<void> {
+    await this.sweepVerificationRecordsUsecase.complete(
+      mapVerificationRecordSweepJobToCompleteInput({ job: input.job }),
+    );
+  }
+
+  async onFailed(input: {
+    readonly job: VerificationRecordSweepJob | undefined;
+    readonly error: Error;
+  }): Promise<void> {
+    if (!input.job) {
+      await this.sweepVerificationRecordsUsecase.fail(
+        mapMissingVerificationRecordSweepJobToFailInput({ error: input.error }),
+      );
+      return;
+    }
+    await this.sweepVerificationRecordsUsecase.fail(
+      mapVerificationRecordSweepJobToFailInput({ job: input.job, error: input.error }),
+    );
+  }
+}
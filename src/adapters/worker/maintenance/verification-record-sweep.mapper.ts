@@ -0,0 +1,131 @@
+// src/adapters/worker/maintenance/verification-record-sweep.mapper.ts
+import type {
+  SweepVerificationRecordsCompleteInput,
+  SweepVerificationRecordsFailInput,
+  SweepVerificationRecordsProcessInput,
+} from '@src/usecases/maintenance-worker/sweep-verification-records.usecase';
+import type { Job } from 'bullmq';
+
+export const MAINTENANCE_QUEUE_NAME = 'maintenance';
+export const VERIFICATION_RECORD_SWEEP_JOB_NAME = 'verification-record-sweep';
+
+export interface VerificationRecordSweepPayload {
+  readonly traceId?: string;
+}
+
+export interface VerificationRecordSweepResult {
+  readonly expired: number;
+  readonly purged: number;
+}
+
+export type VerificationRecordSweepJob = Job<
+  VerificationRecordSweepPayload,
+  VerificationRecordSweepResult,
+  typeof VERIFICATION_RECORD_SWEEP_JOB_NAME
+>;
+
+export function mapVerificationRecordSweepJobToProcessInput(input: {
+  readonly job: VerificationRecordSweepJob;
+}): SweepVerificationRecordsProcessInput {
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: VERIFICATION_RECORD_SWEEP_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+  };
+}
+
+export function mapVerificationRecordSweepJobToCompleteInput(input: {
+  readonly job: VerificationRecordSweepJob;
+}): SweepVerificationRecordsCompleteInput {
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: VERIFICATION_RECORD_SWEEP_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: resolveDate({ timestamp: input.job.finishedOn }),
+    result: input.job.returnvalue ?? undefined,
+  };
+}
+
+export function mapVerificationRecordSweepJobToFailInput(input: {
+  readonly job: VerificationRecordSweepJob;
+  readonly error: Error;
+}): SweepVerificationRecordsFailInput {
+  const occurredAt = resolveDate({ timestamp: input.job.finishedOn });
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: VERIFICATION_RECORD_SWEEP_JOB_NAME,
+    jobId: resolveJobId({ job: input.job }),
+    traceId: resolveTraceId({ job: input.job }),
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: input.error.message.slice(0, 128),
+  };
+}
+
+export function mapMissingVerificationRecordSweepJobToFailInput(input: {
+  readonly error: Error;
+  readonly occurredAt?: Date;
+}): SweepVerificationRecordsFailInput {
+  const occurredAt = input.occurredAt ?? new Date();
+  const jobId = `missing-job:${VERIFICATION_RECORD_SWEEP_JOB_NAME}:${occurredAt.getTime()}`;
+  return {
+    queueName: MAINTENANCE_QUEUE_NAME,
+    jobName: VERIFICATION_RECORD_SWEEP_JOB_NAME,
+    jobId,
+    traceId: jobId,
+    attemptsMade: 0,
+    enqueuedAt: occurredAt,
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: `worker_event_job_missing:${input.error.message.slice(0, 96)}`,
+  };
+}
+
+function resolveDate(input: { readonly timestamp?: number }): Date | undefined {
+  if (typeof input.timestamp !== 'number' || Number.isNaN(input.timestamp)) {
+    return undefined;
+  }
+  return new Date(input.timestamp);
+}
+
+function resolveMaxAttempts(input: {
+  readonly job: VerificationRecordSweepJob;
+}): number | undefined {
+  const attempts = input.job.opts.attempts;
+  if (typeof attempts !== 'number' || Number.isNaN(attempts)) {
+    return undefined;
+  }
+  return attempts;
+}
+
+function resolveJobId(input: { readonly job: VerificationRecordSweepJob }): string {
+  if (typeof input.job.id === 'number') {
+    return String(input.job.id);
+  }
+  return input.job.id ?? `${VERIFICATION_RECORD_SWEEP_JOB_NAME}:${input.job.timestamp}`;
+}
+
+/**
+ * 周期任务由调度器生成，载荷通常不带 traceId，按 jobId 生成
+ */
+function resolveTraceId(input: { readonly job: VerificationRecordSweepJob }): string {
+  const payloadTraceId = input.job.data?.traceId?.trim();
+  if (payloadTraceId) {
+    return payloadTraceId;
+  }
+  return `maintenance:${resolveJobId({ job: input.job })}`;
+}
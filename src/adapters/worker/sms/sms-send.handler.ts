@@ -0,0 +1,37 @@
+// src/adapters/worker/sms/sms-send.handler.ts
+import { Injectable } from '@nestjs/common';
+import { ConsumeSmsJobUsecase } from '@src/usecases/sms-worker/consume-sms-job.usecase';
+import {
+  type SmsSendJob,
+  type SmsSendResult,
+  mapSmsSendJobToCompleteInput,
+  mapSmsSendJobToFailInput,
+  mapSmsSendJobToProcessInput,
+  mapMissingSmsSendJobToFailInput,
+} from './sms-send.mapper';
+
+@Injectable()
+export class SmsSendHandler {
+  constructor(private readonly consumeSmsJobUsecase: ConsumeSmsJobUsecase) {}
+
+  async process(input: { readonly job: SmsSendJob }): Promise<SmsSendResult> {
+    return await this.consumeSmsJobUsecase.process(mapSmsSendJobToProcessInput({ job: input.job }));
+  }
+
+  async onCompleted(input: { readonly job: SmsSendJob }): Promise<void> {
+    await this.consumeSmsJobUsecase.complete(mapSmsSendJobToCompleteInput({ job: input.job }));
+  }
+
+  async onFailed(input: {
+    readonly job: SmsSendJob | undefined;
+    readonly error: Error;
+  }): Promise<void> {
+    if (!input.job) {
+      await this.consumeSmsJobUsecase.fail(mapMissingSmsSendJobToFailInput({ error: input.error }));
+      return;
+    }
+    await this.consumeSmsJobUsecase.fail(
+      mapSmsSendJobToFailInput({ job: input.job, error: input.error }),
+    );
+  }
+}
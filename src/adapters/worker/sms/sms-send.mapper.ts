@@ -0,0 +1,159 @@
+// src/adapters/worker/sms/sms-send.mapper.ts
+import type {
+  ConsumeSmsJobCompleteInput,
+  ConsumeSmsJobFailInput,
+  ConsumeSmsJobProcessInput,
+} from '@src/usecases/sms-worker/consume-sms-job.usecase';
+import type { Job } from 'bullmq';
+
+export const SMS_QUEUE_NAME = 'sms';
+export const SMS_SEND_JOB_NAME = 'send';
+
+export interface SmsSendPayload {
+  readonly phone: string;
+  readonly templateId: string;
+  readonly params: Readonly<Record<string, string>>;
+  readonly meta?: Readonly<Record<string, string>>;
+  readonly traceId?: string;
+}
+
+export interface SmsSendResult {
+  readonly accepted: boolean;
+  readonly provider: string;
+  readonly providerMessageId: string;
+}
+
+export type SmsSendJob = Job<SmsSendPayload, SmsSendResult, typeof SMS_SEND_JOB_NAME>;
+
+export function mapSmsSendJobToProcessInput(input: {
+  readonly job: SmsSendJob;
+}): ConsumeSmsJobProcessInput {
+  const jobId = resolveJobId({ job: input.job });
+  const traceId = resolveTraceId({
+    job: input.job,
+    mode: 'strict',
+  });
+  return {
+    queueName: SMS_QUEUE_NAME,
+    jobName: SMS_SEND_JOB_NAME,
+    jobId,
+    traceId,
+    payload: input.job.data,
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+  };
+}
+
+export function mapSmsSendJobToCompleteInput(input: {
+  readonly job: SmsSendJob;
+}): ConsumeSmsJobCompleteInput {
+  const jobId = resolveJobId({ job: input.job });
+  const traceId = resolveTraceId({
+    job: input.job,
+    mode: 'strict',
+  });
+  return {
+    queueName: SMS_QUEUE_NAME,
+    jobName: SMS_SEND_JOB_NAME,
+    jobId,
+    traceId,
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: resolveDate({ timestamp: input.job.finishedOn }),
+  };
+}
+
+export function mapSmsSendJobToFailInput(input: {
+  readonly job: SmsSendJob;
+  readonly error: Error;
+}): ConsumeSmsJobFailInput {
+  const occurredAt = resolveDate({ timestamp: input.job.finishedOn });
+  const jobId = resolveJobId({ job: input.job });
+  const traceId = resolveTraceId({
+    job: input.job,
+    mode: 'degraded',
+  });
+  return {
+    queueName: SMS_QUEUE_NAME,
+    jobName: SMS_SEND_JOB_NAME,
+    jobId,
+    traceId,
+    attemptsMade: input.job.attemptsMade,
+    maxAttempts: resolveMaxAttempts({ job: input.job }),
+    enqueuedAt: resolveDate({ timestamp: input.job.timestamp }),
+    startedAt: resolveDate({ timestamp: input.job.processedOn }),
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: input.error.message.slice(0, 128),
+  };
+}
+
+export function mapMissingSmsSendJobToFailInput(input: {
+  readonly error: Error;
+  readonly occurredAt?: Date;
+}): ConsumeSmsJobFailInput {
+  const occurredAt = input.occurredAt ?? new Date();
+  const jobId = resolveMissingJobId({
+    occurredAt,
+    jobName: SMS_SEND_JOB_NAME,
+  });
+  return {
+    queueName: SMS_QUEUE_NAME,
+    jobName: SMS_SEND_JOB_NAME,
+    jobId,
+    traceId: jobId,
+    attemptsMade: 0,
+    enqueuedAt: occurredAt,
+    finishedAt: occurredAt,
+    occurredAt,
+    reason: `worker_event_job_missing:${input.error.message.slice(0, 96)}`,
+  };
+}
+
+function resolveDate(input: { readonly timestamp?: number }): Date | undefined {
+  if (typeof input.timestamp !== 'number' || Number.isNaN(input.timestamp)) {
+    return undefined;
+  }
+  return new Date(input.timestamp);
+}
+
+function resolveMaxAttempts(input: { readonly job: SmsSendJob }): number | undefined {
+  const attempts = input.job.opts.attempts;
+  if (typeof attempts !== 'number' || Number.isNaN(attempts)) {
+    return undefined;
+  }
+  return attempts;
+}
+
+function resolveJobId(input: { readonly job: SmsSendJob }): string {
+  if (typeof input.job.id === 'number') {
+    return String(input.job.id);
+  }
+  return input.job.id ?? `${SMS_SEND_JOB_NAME}:${input.job.timestamp}`;
+}
+
+function resolveTraceId(input: {
+  readonly job: SmsSendJob;
+  readonly mode: 'strict' | 'degraded';
+}): string {
+  const payloadTraceId = input.job.data.traceId?.trim();
+  if (payloadTraceId) {
+    return payloadTraceId;
+  }
+  if (input.mode === 'strict') {
+    throw new Error(`missing_payload_trace_id:${input.job.name}`);
+  }
+  const jobId = resolveJobId({ job: input.job });
+  return `degraded-trace:${input.job.name}:${jobId}`;
+}
+
+function resolveMissingJobId(input: {
+  readonly occurredAt: Date;
+  readonly jobName: string;
+}): string {
+  return `missing-job:${input.jobName}:${input.occurredAt.getTime()}`;
+}
@@ -0,0 +1,27 @@
+// src/adapters/worker/sms/sms-send.processor.ts
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+import { SmsSendHandler } from './sms-send.handler';
+import { SMS_QUEUE_NAME, type SmsSendJob, type SmsSendResult } from './sms-send.mapper';
+
+@Injectable()
+@Processor(SMS_QUEUE_NAME)
+export class SmsSendProcessor extends WorkerHost {
+  constructor(private readonly handler: SmsSendHandler) {
+    super();
+  }
+
+  async process(job: SmsSendJob): Promise<SmsSendResult> {
+    return await this.handler.process({ job });
+  }
+
+  @OnWorkerEvent('completed')
+  async onCompleted(job: SmsSendJob): Promise<void> {
+    await this.handler.onCompleted({ job });
+  }
+
+  @OnWorkerEvent('failed')
+  async onFailed(job: SmsSendJob | undefined, error: Error): Promise<void> {
+    await this.handler.onFailed({ job, error });
+  }
+}
@@ -0,0 +1,11 @@
+// src/adapters/worker/sms/sms-worker-adapter.module.ts
+import { Module } from '@nestjs/common';
+import { SmsWorkerUsecasesModule } from '@src/usecases/sms-worker/sms-worker-usecases.module';
+import { SmsSendHandler } from './sms-send.handler';
+import { SmsSendProcessor } from './sms-send.processor';
+
+@Module({
+  imports: [SmsWorkerUsecasesModule],
+  providers: [SmsSendHandler, SmsSendProcessor],
+})
+export class SmsWorkerAdapterModule {}
@@ -1,5 +1,6 @@
 // src/bootstraps/api/api.module.ts
 import { GraphQLAdapterModule } from '@src/adapters/api/graphql/graphql-adapter.module';
+import { HttpAdapterModule } from '@src/adapters/api/http/http-adapter.module';
 import { AppConfigModule } from '@src/infrastructure/config/config.module';
 import { DatabaseModule } from '@src/infrastructure/database/database.module';
 import { FieldEncryptionModule } from '@src/infrastructure/field-encryption/field-encryption.module';
@@ -24,6 +25,7 @@ import { ApiService } from './api.service';
     DatabaseModule,
     AppGraphQLModule,
     GraphQLAdapterModule,
+    HttpAdapterModule,
     FieldEncryptionModule,
     PasswordModule,
     AccountModule,
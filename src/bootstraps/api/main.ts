@@ -28,6 +28,12 @@ async function bootstrap() {
   // 获取 ConfigService 实例
   const configService = app.get<ConfigService>(ConfigService);
 
+  // 仅信任配置的反向代理跳数，req.ip 据此从 X-Forwarded-For 中取真实客户端 IP
+  const trustProxyHops = configService.get<number>('server.trustProxyHops', 0);
+  if (trustProxyHops > 0) {
+    expressApp.set('trust proxy', trustProxyHops);
+  }
+
   // 全局启用 CORS（按配置限制来源与凭据）
   const corsEnabled = configService.get<boolean>('server.cors.enabled', true);
   if (corsEnabled) {
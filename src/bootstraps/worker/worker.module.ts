@@ -1,7 +1,11 @@
 // src/bootstraps/worker/worker.module.ts
 import { Module } from '@nestjs/common';
+import { AccountWorkerAdapterModule } from '@src/adapters/worker/account/account-worker-adapter.module';
 import { AiWorkerAdapterModule } from '@src/adapters/worker/ai/ai-worker-adapter.module';
 import { EmailWorkerAdapterModule } from '@src/adapters/worker/email/email-worker-adapter.module';
+import { InviteWorkerAdapterModule } from '@src/adapters/worker/invite/invite-worker-adapter.module';
+import { MaintenanceWorkerAdapterModule } from '@src/adapters/worker/maintenance/maintenance-worker-adapter.module';
+import { SmsWorkerAdapterModule } from '@src/adapters/worker/sms/sms-worker-adapter.module';
 import { BullMqModule } from '@src/infrastructure/bullmq/bullmq.module';
 import { BullMqWorkerRuntime } from '@src/infrastructure/bullmq/worker.runtime';
 import { AppConfigModule } from '@src/infrastructure/config/config.module';
@@ -18,6 +22,10 @@ import { RedisModule } from '@src/infrastructure/redis/redis.module';
     BullMqModule,
     AiWorkerAdapterModule,
     EmailWorkerAdapterModule,
+    SmsWorkerAdapterModule,
+    MaintenanceWorkerAdapterModule,
+    InviteWorkerAdapterModule,
+    AccountWorkerAdapterModule,
   ],
   providers: [BullMqWorkerRuntime],
 })
@@ -0,0 +1,46 @@
+// 文件位置：src/core/account/policy/account-merge.policy.ts
+import { IdentityTypeEnum } from '@app-types/models/account.types';
+
+/** 身份提示的优先级（高 → 低），与更新访问组时的默认选择一致 */
+const IDENTITY_HINT_PRIORITY: ReadonlyArray<IdentityTypeEnum> = [
+  IdentityTypeEnum.ADMIN,
+  IdentityTypeEnum.MANAGER,
+  IdentityTypeEnum.COACH,
+  IdentityTypeEnum.CUSTOMER,
+  IdentityTypeEnum.LEARNER,
+  IdentityTypeEnum.STAFF,
+  IdentityTypeEnum.STUDENT,
+  IdentityTypeEnum.REGISTRANT,
+  IdentityTypeEnum.GUEST,
+];
+
+/** 不代表真实身份的占位访问组 */
+const PLACEHOLDER_GROUPS: ReadonlyArray<IdentityTypeEnum> = [
+  IdentityTypeEnum.REGISTRANT,
+  IdentityTypeEnum.GUEST,
+];
+
+/**
+ * 合并两个账户的访问组：目标在前、源账户补充在后并去重
+ * 合并后拥有真实身份时去掉 REGISTRANT（与添加身份时的处理一致）
+ */
+export function mergeAccessGroups(
+  target: ReadonlyArray<IdentityTypeEnum>,
+  source: ReadonlyArray<IdentityTypeEnum>,
+): IdentityTypeEnum[] {
+  const merged = Array.from(new Set([...target, ...source]));
+  const hasRealIdentity = merged.some((group) => !PLACEHOLDER_GROUPS.includes(group));
+  return hasRealIdentity ? merged.filter((group) => group !== IdentityTypeEnum.REGISTRANT) : merged;
+}
+
+/**
+ * 解析合并后的身份提示：目标账户原提示仍在访问组中则保留，否则按优先级选择
+ */
+export function resolveMergedIdentityHint(
+  current: string | null,
+  accessGroup: ReadonlyArray<IdentityTypeEnum>,
+): IdentityTypeEnum | null {
+  const kept = accessGroup.find((group) => group === current);
+  if (kept) return kept;
+  return IDENTITY_HINT_PRIORITY.find((group) => accessGroup.includes(group)) ?? null;
+}
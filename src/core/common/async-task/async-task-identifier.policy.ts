@@ -1,4 +1,11 @@
-export type AsyncTaskBizDomain = 'ai_generation' | 'ai_embedding' | 'email';
+export type AsyncTaskBizDomain =
+  | 'ai_generation'
+  | 'ai_embedding'
+  | 'email'
+  | 'sms'
+  | 'maintenance'
+  | 'invite'
+  | 'account';
 
 type BizKeyPolicy = 'trace_id' | 'job_id';
 
@@ -6,6 +13,10 @@ const BIZ_KEY_POLICY_BY_DOMAIN: Record<AsyncTaskBizDomain, BizKeyPolicy> = {
   ai_generation: 'trace_id',
   ai_embedding: 'trace_id',
   email: 'job_id',
+  sms: 'job_id',
+  maintenance: 'job_id',
+  invite: 'job_id',
+  account: 'job_id',
 };
 
 export interface ResolveAsyncTaskBizKeyInput {
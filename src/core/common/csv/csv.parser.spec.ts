@@ -0,0 +1,33 @@
+// src/core/common/csv/csv.parser.spec.ts
+import { INPUT_NORMALIZE_ERROR } from '@core/common/errors/domain-error';
+import { parseCsv } from './csv.parser';
+
+describe('parseCsv', () => {
+  it('按逗号与换行拆分，兼容 CRLF 并跳过空行', () => {
+    expect(parseCsv('name,email\r\n张三,a@example.com\r\n\r\n李四,b@example.com\n')).toEqual([
+      ['name', 'email'],
+      ['张三', 'a@example.com'],
+      ['李四', 'b@example.com'],
+    ]);
+  });
+
+  it('支持引号包裹的字段，字段内可包含逗号、换行与转义引号', () => {
+    expect(parseCsv('"王, 五","说""你好""",x\n"多\n行",,')).toEqual([
+      ['王, 五', '说"你好"', 'x'],
+      ['多\n行', '', ''],
+    ]);
+  });
+
+  it('去除 UTF-8 BOM', () => {
+    expect(parseCsv('\uFEFFname\n张三')).toEqual([['name'], ['张三']]);
+  });
+
+  it('引号未闭合或引号后有多余字符时抛出 INVALID_CSV', () => {
+    expect(() => parseCsv('name\n"张三')).toThrow(
+      expect.objectContaining({ code: INPUT_NORMALIZE_ERROR.INVALID_CSV }),
+    );
+    expect(() => parseCsv('"张三"x,1')).toThrow(
+      expect.objectContaining({ code: INPUT_NORMALIZE_ERROR.INVALID_CSV }),
+    );
+  });
+});
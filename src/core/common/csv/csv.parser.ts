@@ -0,0 +1,98 @@
+// src/core/common/csv/csv.parser.ts
+
+import { DomainError, INPUT_NORMALIZE_ERROR } from '@core/common/errors/domain-error';
+
+/**
+ * 解析 CSV 文本（RFC 4180）
+ * - 逗号分隔，支持双引号包裹字段，字段内 `""` 表示一个双引号
+ * - 引号内允许逗号与换行；兼容 CRLF / LF 换行与 UTF-8 BOM
+ * - 仅包含空白的行会被跳过
+ * @param text CSV 文本
+ * @returns 按行拆分的字段列表（字段不做 trim）
+ * @throws DomainError(INPUT_NORMALIZE_ERROR.INVALID_CSV) 引号未闭合或引号后存在多余字符
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let line = 1;
+  let index = 0;
+
+  const endRow = (): void => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim().length > 0) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === '"' && field.trim().length === 0) {
+      const quoted = readQuotedField(source, index, line);
+      field = quoted.value;
+      line = quoted.line;
+      index = quoted.end;
+      if (index < source.length && !isDelimiter(source[index])) {
+        throw new DomainError(
+          INPUT_NORMALIZE_ERROR.INVALID_CSV,
+          `CSV 第 ${line} 行引号后存在多余字符`,
+        );
+      }
+      continue;
+    }
+
+    if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index++;
+      endRow();
+      line++;
+    } else {
+      field += char;
+    }
+    index++;
+  }
+
+  endRow();
+  return rows;
+}
+
+/**
+ * 读取引号包裹的字段
+ * @param source CSV 文本
+ * @param start 起始引号的位置
+ * @param line 起始行号（用于错误提示）
+ * @returns 字段值、结束引号之后的位置与结束时的行号
+ */
+function readQuotedField(
+  source: string,
+  start: number,
+  line: number,
+): { value: string; end: number; line: number } {
+  let value = '';
+  let currentLine = line;
+  for (let index = start + 1; index < source.length; index++) {
+    const char = source[index];
+    if (char !== '"') {
+      if (char === '\n') currentLine++;
+      value += char;
+      continue;
+    }
+    if (source[index + 1] === '"') {
+      value += '"';
+      index++;
+      continue;
+    }
+    return { value, end: index + 1, line: currentLine };
+  }
+  throw new DomainError(INPUT_NORMALIZE_ERROR.INVALID_CSV, `CSV 第 ${line} 行引号未闭合`);
+}
+
+function isDelimiter(char: string): boolean {
+  return char === ',' || char === '\n' || char === '\r';
+}
@@ -36,8 +36,21 @@ export const AUTH_ERROR = {
   ACCOUNT_INACTIVE: 'ACCOUNT_INACTIVE',
   INVALID_PASSWORD: 'INVALID_PASSWORD',
   INVALID_REFRESH_TOKEN: 'INVALID_REFRESH_TOKEN',
+  REFRESH_TOKEN_REUSED: 'REFRESH_TOKEN_REUSED',
+  REFRESH_TOKEN_REVOKED: 'REFRESH_TOKEN_REVOKED',
+  REFRESH_DISABLED: 'REFRESH_DISABLED',
   INVALID_AUDIENCE: 'INVALID_AUDIENCE',
   PERMISSION_MISMATCH: 'AUTH_PERMISSION_MISMATCH',
+  SESSION_NOT_FOUND: 'AUTH_SESSION_NOT_FOUND',
+  LOGIN_LOCKED: 'LOGIN_LOCKED',
+  MFA_REQUIRED: 'MFA_REQUIRED',
+  MFA_CODE_INVALID: 'MFA_CODE_INVALID',
+  MFA_CHALLENGE_INVALID: 'MFA_CHALLENGE_INVALID',
+  MFA_ALREADY_ENABLED: 'MFA_ALREADY_ENABLED',
+  MFA_NOT_ENABLED: 'MFA_NOT_ENABLED',
+  IMPERSONATION_FORBIDDEN: 'AUTH_IMPERSONATION_FORBIDDEN', // 代登录期间禁止的敏感操作
+  IMPERSONATION_TARGET_INVALID: 'AUTH_IMPERSONATION_TARGET_INVALID',
+  NOT_IMPERSONATING: 'AUTH_NOT_IMPERSONATING',
 } as const;
 Object.freeze(AUTH_ERROR);
 
@@ -50,8 +63,17 @@ export const ACCOUNT_ERROR = {
   ACCOUNT_NOT_FOUND: AUTH_ERROR.ACCOUNT_NOT_FOUND, // 复用同一码值，避免前端分裂
   NICKNAME_TAKEN: 'NICKNAME_TAKEN',
   EMAIL_TAKEN: 'EMAIL_TAKEN',
+  PHONE_TAKEN: 'PHONE_TAKEN',
   USER_INFO_NOT_FOUND: 'USER_INFO_NOT_FOUND',
   ACCOUNT_SUSPENDED: 'ACCOUNT_SUSPENDED',
+  PASSWORD_REUSED: 'PASSWORD_REUSED',
+  STATUS_CHANGE_NOT_ALLOWED: 'ACCOUNT_STATUS_CHANGE_NOT_ALLOWED',
+  DELETION_NOT_ALLOWED: 'ACCOUNT_DELETION_NOT_ALLOWED',
+  DATA_EXPORT_NOT_ALLOWED: 'ACCOUNT_DATA_EXPORT_NOT_ALLOWED',
+  DATA_EXPORT_TOO_FREQUENT: 'ACCOUNT_DATA_EXPORT_TOO_FREQUENT',
+  DATA_EXPORT_NOT_FOUND: 'ACCOUNT_DATA_EXPORT_NOT_FOUND',
+  MERGE_NOT_ALLOWED: 'ACCOUNT_MERGE_NOT_ALLOWED',
+  MERGE_CONFLICT: 'ACCOUNT_MERGE_CONFLICT',
 } as const;
 Object.freeze(ACCOUNT_ERROR);
 
@@ -76,6 +98,7 @@ export const THIRDPARTY_ERROR = {
   UNKNOWN_ERROR: 'THIRDPARTY_UNKNOWN_ERROR',
   INVALID_CREDENTIAL: 'THIRDPARTY_CREDENTIAL_INVALID', // 映射到现有的 CREDENTIAL_INVALID
   PROVIDER_CONFIG_MISSING: 'THIRDPARTY_PROVIDER_CONFIG_MISSING',
+  IDENTITY_NOT_ALLOWED: 'THIRDPARTY_IDENTITY_NOT_ALLOWED', // 第三方账号不属于允许登录的组织
 } as const;
 Object.freeze(THIRDPARTY_ERROR);
 
@@ -89,6 +112,7 @@ export const JWT_ERROR = {
   ACCESS_TOKEN_GENERATION_FAILED: 'JWT_ACCESS_TOKEN_GENERATION_FAILED',
   REFRESH_TOKEN_GENERATION_FAILED: 'JWT_REFRESH_TOKEN_GENERATION_FAILED',
   AUTHENTICATION_FAILED: 'JWT_AUTHENTICATION_FAILED',
+  TOKEN_REVOKED: 'JWT_TOKEN_REVOKED',
 } as const;
 Object.freeze(JWT_ERROR);
 
@@ -122,6 +146,9 @@ export const VERIFICATION_RECORD_ERROR = {
   CONTEXT_MISMATCH: 'VERIFICATION_RECORD_CONTEXT_MISMATCH',
   HANDLER_CONFLICT: 'VERIFICATION_RECORD_HANDLER_CONFLICT',
   OPERATION_NOT_SUPPORTED: 'VERIFICATION_RECORD_OPERATION_NOT_SUPPORTED',
+  RESEND_TOO_FREQUENT: 'VERIFICATION_RECORD_RESEND_TOO_FREQUENT',
+  SEND_QUOTA_EXCEEDED: 'VERIFICATION_RECORD_SEND_QUOTA_EXCEEDED',
+  TOO_MANY_ATTEMPTS: 'VERIFICATION_RECORD_TOO_MANY_ATTEMPTS',
 } as const;
 Object.freeze(VERIFICATION_RECORD_ERROR);
 
@@ -131,6 +158,23 @@ export const ASYNC_TASK_RECORD_ERROR = {
 } as const;
 Object.freeze(ASYNC_TASK_RECORD_ERROR);
 
+// 站内通知相关错误码
+export const NOTIFICATION_ERROR = {
+  INVALID_PARAMS: 'NOTIFICATION_INVALID_PARAMS',
+} as const;
+Object.freeze(NOTIFICATION_ERROR);
+
+// 文件存储相关错误码
+export const STORAGE_ERROR = {
+  FILE_NOT_FOUND: 'STORAGE_FILE_NOT_FOUND',
+  FILE_NOT_READY: 'STORAGE_FILE_NOT_READY',
+  FILE_TOO_LARGE: 'STORAGE_FILE_TOO_LARGE',
+  CONTENT_TYPE_NOT_ALLOWED: 'STORAGE_CONTENT_TYPE_NOT_ALLOWED',
+  CONTENT_MISMATCH: 'STORAGE_CONTENT_MISMATCH',
+  SIGNED_URL_INVALID: 'STORAGE_SIGNED_URL_INVALID',
+} as const;
+Object.freeze(STORAGE_ERROR);
+
 // 学员管理相关错误码
 export const LEARNER_ERROR = {
   LEARNER_NOT_FOUND: 'LEARNER_NOT_FOUND',
@@ -142,6 +186,7 @@ export const LEARNER_ERROR = {
   LEARNER_DELETE_FAILED: 'LEARNER_DELETE_FAILED',
   LEARNER_ALREADY_DELETED: 'LEARNER_ALREADY_DELETED',
   LEARNER_CUSTOMER_MISMATCH: 'LEARNER_CUSTOMER_MISMATCH',
+  LEARNER_ALREADY_LINKED: 'LEARNER_ALREADY_LINKED',
 } as const;
 Object.freeze(LEARNER_ERROR);
 
@@ -163,6 +208,7 @@ export const INPUT_NORMALIZE_ERROR = {
   INVALID_LIMIT_RANGE: 'INPUT_NORMALIZE_INVALID_LIMIT_RANGE',
   INVALID_LIMIT_VALUE: 'INPUT_NORMALIZE_INVALID_LIMIT_VALUE',
   INVALID_ENUM_VALUE: 'INPUT_NORMALIZE_INVALID_ENUM_VALUE',
+  INVALID_CSV: 'INPUT_NORMALIZE_INVALID_CSV',
 } as const;
 Object.freeze(INPUT_NORMALIZE_ERROR);
 
@@ -176,6 +222,8 @@ export type VerificationRecordErrorCode =
   (typeof VERIFICATION_RECORD_ERROR)[keyof typeof VERIFICATION_RECORD_ERROR];
 export type AsyncTaskRecordErrorCode =
   (typeof ASYNC_TASK_RECORD_ERROR)[keyof typeof ASYNC_TASK_RECORD_ERROR];
+export type NotificationErrorCode = (typeof NOTIFICATION_ERROR)[keyof typeof NOTIFICATION_ERROR];
+export type StorageErrorCode = (typeof STORAGE_ERROR)[keyof typeof STORAGE_ERROR];
 export type LearnerErrorCode = (typeof LEARNER_ERROR)[keyof typeof LEARNER_ERROR];
 export type TimeErrorCode = (typeof TIME_ERROR)[keyof typeof TIME_ERROR];
 export type InputNormalizeErrorCode =
@@ -199,6 +247,8 @@ export type DomainErrorCode =
   | PermissionErrorCode
   | VerificationRecordErrorCode
   | AsyncTaskRecordErrorCode
+  | NotificationErrorCode
+  | StorageErrorCode
   | LearnerErrorCode
   | TimeErrorCode
   | InputNormalizeErrorCode
@@ -0,0 +1,115 @@
+// src/core/common/oidc/oidc.helper.spec.ts
+import { createHash, generateKeyPairSync, sign, type KeyObject } from 'crypto';
+import {
+  computePkceChallenge,
+  decodeJws,
+  generatePkcePair,
+  isSupportedJwsAlgorithm,
+  validateIdTokenClaims,
+  verifyJwsSignature,
+} from './oidc.helper';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const signJws = (params: {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  privateKey: KeyObject;
+  ecdsa?: boolean;
+}): string => {
+  const signingInput = `${encode(params.header)}.${encode(params.payload)}`;
+  const signature = sign(
+    'sha256',
+    Buffer.from(signingInput),
+    params.ecdsa ? { key: params.privateKey, dsaEncoding: 'ieee-p1363' } : params.privateKey,
+  );
+  return `${signingInput}.${signature.toString('base64url')}`;
+};
+
+describe('oidc helper', () => {
+  const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const rsaJwk = rsa.publicKey.export({ format: 'jwk' });
+
+  it('PKCE code_challenge 符合 RFC 7636 附录 B 测试向量', () => {
+    expect(computePkceChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe(
+      'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+    );
+    const pair = generatePkcePair();
+    expect(pair.codeChallenge).toBe(
+      createHash('sha256').update(pair.codeVerifier).digest('base64url'),
+    );
+  });
+
+  it('RS256 / ES256 签名可用 JWK 公钥校验，篡改后校验失败', () => {
+    const payload = { sub: 'user-1' };
+    const rsToken = signJws({
+      header: { alg: 'RS256', kid: 'k1' },
+      payload,
+      privateKey: rsa.privateKey,
+    });
+    const rsJws = decodeJws(rsToken)!;
+    expect(rsJws.header.kid).toBe('k1');
+    expect(verifyJwsSignature({ jws: rsJws, jwk: rsaJwk })).toBe(true);
+    expect(
+      verifyJwsSignature({
+        jws: { ...rsJws, signingInput: `${rsJws.signingInput}x` },
+        jwk: rsaJwk,
+      }),
+    ).toBe(false);
+
+    const ec = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    const esToken = signJws({
+      header: { alg: 'ES256' },
+      payload,
+      privateKey: ec.privateKey,
+      ecdsa: true,
+    });
+    expect(
+      verifyJwsSignature({ jws: decodeJws(esToken)!, jwk: ec.publicKey.export({ format: 'jwk' }) }),
+    ).toBe(true);
+  });
+
+  it('拒绝 none / HS256 算法与格式非法的令牌', () => {
+    const token = signJws({ header: { alg: 'none' }, payload: {}, privateKey: rsa.privateKey });
+    expect(verifyJwsSignature({ jws: decodeJws(token)!, jwk: rsaJwk })).toBe(false);
+    expect(isSupportedJwsAlgorithm('HS256')).toBe(false);
+    expect(isSupportedJwsAlgorithm('RS256')).toBe(true);
+    expect(decodeJws('a.b')).toBeNull();
+    expect(decodeJws('bm90LWpzb24.e30.c2ln')).toBeNull();
+  });
+
+  it('id_token 声明校验：iss / aud / azp / exp / nonce', () => {
+    const now = 1_700_000_000;
+    const base = {
+      iss: 'https://idp.example.com',
+      sub: 'user-1',
+      aud: 'client-1',
+      exp: now + 300,
+      iat: now,
+      nonce: 'n-1',
+    };
+    const expected = {
+      issuer: 'https://idp.example.com',
+      clientId: 'client-1',
+      nonce: 'n-1',
+      nowSeconds: now,
+    };
+
+    expect(validateIdTokenClaims({ claims: base, ...expected })).toBeNull();
+    expect(validateIdTokenClaims({ claims: { ...base, iss: 'x' }, ...expected })).toBe(
+      'iss 不匹配',
+    );
+    expect(validateIdTokenClaims({ claims: { ...base, aud: 'other' }, ...expected })).toBe(
+      'aud 不匹配',
+    );
+    expect(
+      validateIdTokenClaims({ claims: { ...base, aud: ['client-1', 'other'] }, ...expected }),
+    ).toBe('azp 不匹配');
+    expect(validateIdTokenClaims({ claims: { ...base, exp: now - 120 }, ...expected })).toBe(
+      '已过期',
+    );
+    expect(validateIdTokenClaims({ claims: { ...base, nonce: 'n-2' }, ...expected })).toBe(
+      'nonce 不匹配',
+    );
+  });
+});
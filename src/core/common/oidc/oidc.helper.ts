@@ -0,0 +1,158 @@
+// src/core/common/oidc/oidc.helper.ts
+import { createHash, createPublicKey, randomBytes, verify, type webcrypto } from 'crypto';
+
+/**
+ * 支持的 JWS 签名算法 → 摘要算法与签名编码
+ * 仅接受非对称算法；none 与 HS* 一律拒绝
+ */
+const JWS_ALGORITHMS: Record<string, { digest: string; ecdsa: boolean }> = {
+  RS256: { digest: 'sha256', ecdsa: false },
+  RS384: { digest: 'sha384', ecdsa: false },
+  RS512: { digest: 'sha512', ecdsa: false },
+  ES256: { digest: 'sha256', ecdsa: true },
+  ES384: { digest: 'sha384', ecdsa: true },
+};
+
+/**
+ * 解码后的 JWS（紧凑序列化）
+ */
+export interface DecodedJws {
+  header: { alg?: string; kid?: string; typ?: string };
+  payload: Record<string, unknown>;
+  /** header.payload 原文（签名输入） */
+  signingInput: string;
+  signature: Buffer;
+}
+
+/**
+ * 生成 URL 安全的随机串（用于 state / nonce）
+ * @param bytes 随机字节数
+ */
+export function generateOidcRandom(bytes = 32): string {
+  return randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * 生成 PKCE 校验对（RFC 7636，S256）
+ * @returns code_verifier 与 code_challenge
+ */
+export function generatePkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = generateOidcRandom(32);
+  return { codeVerifier, codeChallenge: computePkceChallenge(codeVerifier) };
+}
+
+/**
+ * 按 S256 计算 code_challenge
+ * @param codeVerifier code_verifier 原文
+ */
+export function computePkceChallenge(codeVerifier: string): string {
+  return createHash('sha256').update(codeVerifier).digest('base64url');
+}
+
+/**
+ * 解码紧凑序列化的 JWS（不校验签名）
+ * @param token JWS 字符串
+ * @returns 解码结果；格式非法时返回 null
+ */
+export function decodeJws(token: string): DecodedJws | null {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts.some((part) => part.length === 0)) {
+    return null;
+  }
+  try {
+    const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')) as unknown;
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')) as unknown;
+    if (!isPlainObject(header) || !isPlainObject(payload)) {
+      return null;
+    }
+    return {
+      header,
+      payload,
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url'),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 使用 JWK 公钥校验 JWS 签名
+ * @param params 解码后的 JWS 与公钥
+ * @returns 签名是否有效；算法不受支持或公钥非法时返回 false
+ */
+export function verifyJwsSignature(params: {
+  jws: DecodedJws;
+  jwk: webcrypto.JsonWebKey;
+}): boolean {
+  const alg = params.jws.header.alg;
+  const spec = alg ? JWS_ALGORITHMS[alg] : undefined;
+  if (!spec) {
+    return false;
+  }
+  try {
+    const key = createPublicKey({ key: params.jwk, format: 'jwk' });
+    return verify(
+      spec.digest,
+      Buffer.from(params.jws.signingInput),
+      spec.ecdsa ? { key, dsaEncoding: 'ieee-p1363' } : key,
+      params.jws.signature,
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 判断签名算法是否受支持
+ * @param alg JWS header 中的 alg
+ */
+export function isSupportedJwsAlgorithm(alg: string | undefined): boolean {
+  return Boolean(alg && JWS_ALGORITHMS[alg]);
+}
+
+/**
+ * 校验 id_token 声明（OIDC Core 3.1.3.7）
+ * @param params 声明与期望值
+ * @returns 校验失败原因；通过时返回 null
+ */
+export function validateIdTokenClaims(params: {
+  claims: Record<string, unknown>;
+  issuer: string;
+  clientId: string;
+  nonce: string;
+  nowSeconds?: number;
+  clockToleranceSeconds?: number;
+}): string | null {
+  const { claims } = params;
+  const now = params.nowSeconds ?? Math.floor(Date.now() / 1000);
+  const tolerance = params.clockToleranceSeconds ?? 60;
+
+  if (claims.iss !== params.issuer) {
+    return 'iss 不匹配';
+  }
+  if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+    return 'sub 缺失';
+  }
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (!audiences.includes(params.clientId)) {
+    return 'aud 不匹配';
+  }
+  if (audiences.length > 1 && claims.azp !== params.clientId) {
+    return 'azp 不匹配';
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + tolerance < now) {
+    return '已过期';
+  }
+  if (typeof claims.iat !== 'number' || claims.iat - tolerance > now) {
+    return 'iat 非法';
+  }
+  if (claims.nonce !== params.nonce) {
+    return 'nonce 不匹配';
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,72 @@
+// src/core/common/otp/totp.helper.spec.ts
+import {
+  buildOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateHotp,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from './totp.helper';
+
+// RFC 4226 / RFC 6238 附录中的测试密钥
+const RFC_SECRET = Buffer.from('12345678901234567890', 'ascii');
+
+describe('totp helper', () => {
+  it('Base32 编解码可往返，且兼容小写与填充', () => {
+    const encoded = encodeBase32(RFC_SECRET);
+    expect(encoded).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(decodeBase32(encoded)?.equals(RFC_SECRET)).toBe(true);
+    expect(decodeBase32(`${encoded.toLowerCase()}====`)?.equals(RFC_SECRET)).toBe(true);
+    expect(decodeBase32('not-base32!')).toBeNull();
+  });
+
+  it('HOTP 符合 RFC 4226 测试向量', () => {
+    const expected = ['755224', '287082', '359152', '969429', '338314'];
+    expected.forEach((code, counter) => {
+      expect(generateHotp({ secret: RFC_SECRET, counter })).toBe(code);
+    });
+  });
+
+  it('TOTP 时间步符合 RFC 6238 测试向量（SHA1 / 8 位）', () => {
+    const vectors: Array<[number, string]> = [
+      [59, '94287082'],
+      [1111111109, '07081804'],
+      [1111111111, '14050471'],
+      [1234567890, '89005924'],
+      [2000000000, '69279037'],
+    ];
+    for (const [seconds, code] of vectors) {
+      const counter = getTotpStep(seconds * 1000);
+      expect(generateHotp({ secret: RFC_SECRET, counter, digits: 8 })).toBe(code);
+    }
+  });
+
+  it('verifyTotp 接受 ±1 个时间步的漂移并返回命中的时间步', () => {
+    const secret = generateTotpSecret();
+    const now = 1_700_000_000_000;
+    const previous = generateTotp({ secret, timestampMs: now - 30_000 })!;
+
+    expect(verifyTotp({ secret, code: previous, timestampMs: now })).toBe(getTotpStep(now) - 1);
+    expect(verifyTotp({ secret, code: previous, timestampMs: now + 60_000 })).toBeNull();
+  });
+
+  it('verifyTotp 拒绝格式非法的验证码与密钥', () => {
+    const secret = generateTotpSecret();
+    expect(verifyTotp({ secret, code: '12345' })).toBeNull();
+    expect(verifyTotp({ secret, code: 'abcdef' })).toBeNull();
+    expect(verifyTotp({ secret: '!!!', code: '123456' })).toBeNull();
+  });
+
+  it('生成的 otpauth URI 包含签发方、账户与参数', () => {
+    const uri = buildOtpauthUri({
+      secret: 'JBSWY3DPEHPK3PXP',
+      issuer: 'SSTS',
+      accountName: 'alice@example.com',
+    });
+    expect(uri).toBe(
+      'otpauth://totp/SSTS:alice%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=SSTS&algorithm=SHA1&digits=6&period=30',
+    );
+  });
+});
@@ -0,0 +1,166 @@
+// src/core/common/otp/totp.helper.ts
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * TOTP 默认参数（与主流身份验证器 App 的默认值一致：SHA1 / 6 位 / 30 秒）
+ */
+export const TOTP_DEFAULTS = {
+  digits: 6,
+  periodSeconds: 30,
+  /** 校验时前后容忍的时间步数（抵消客户端时钟漂移） */
+  window: 1,
+  secretBytes: 20,
+} as const;
+
+/**
+ * Base32 编码（RFC 4648，不含填充）
+ * @param buffer 原始字节
+ * @returns Base32 字符串
+ */
+export function encodeBase32(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Base32 解码（忽略大小写、空白与填充）
+ * @param input Base32 字符串
+ * @returns 原始字节；包含非法字符时返回 null
+ */
+export function decodeBase32(input: string): Buffer | null {
+  const normalized = input.replace(/[\s=]/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of normalized) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index < 0) {
+      return null;
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * 生成随机 TOTP 密钥
+ * @returns Base32 编码的密钥
+ */
+export function generateTotpSecret(): string {
+  return encodeBase32(randomBytes(TOTP_DEFAULTS.secretBytes));
+}
+
+/**
+ * 计算 HOTP（RFC 4226）
+ * @param params 密钥字节、计数器与位数
+ * @returns 定长数字验证码
+ */
+export function generateHotp(params: { secret: Buffer; counter: number; digits?: number }): string {
+  const digits = params.digits ?? TOTP_DEFAULTS.digits;
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(params.counter));
+
+  const hmac = createHmac('sha1', params.secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * 计算时间戳对应的时间步
+ * @param timestampMs 毫秒时间戳
+ * @returns 时间步（counter）
+ */
+export function getTotpStep(timestampMs: number): number {
+  return Math.floor(timestampMs / 1000 / TOTP_DEFAULTS.periodSeconds);
+}
+
+/**
+ * 计算 TOTP（RFC 6238）
+ * @param params Base32 密钥与时间戳（缺省为当前时间）
+ * @returns 数字验证码；密钥非法时返回 null
+ */
+export function generateTotp(params: { secret: string; timestampMs?: number }): string | null {
+  const secret = decodeBase32(params.secret);
+  if (!secret || secret.length === 0) {
+    return null;
+  }
+  return generateHotp({ secret, counter: getTotpStep(params.timestampMs ?? Date.now()) });
+}
+
+/**
+ * 校验 TOTP
+ * 在 ±window 个时间步内逐一比对，使用定长比较避免时序泄露
+ * @param params Base32 密钥、用户输入的验证码与时间戳（缺省为当前时间）
+ * @returns 命中的时间步（用于防重放）；不匹配时返回 null
+ */
+export function verifyTotp(params: {
+  secret: string;
+  code: string;
+  timestampMs?: number;
+}): number | null {
+  const code = params.code.replace(/\s/g, '');
+  if (!/^\d+$/.test(code) || code.length !== TOTP_DEFAULTS.digits) {
+    return null;
+  }
+  const secret = decodeBase32(params.secret);
+  if (!secret || secret.length === 0) {
+    return null;
+  }
+
+  const currentStep = getTotpStep(params.timestampMs ?? Date.now());
+  for (let delta = -TOTP_DEFAULTS.window; delta <= TOTP_DEFAULTS.window; delta += 1) {
+    const step = currentStep + delta;
+    const expected = generateHotp({ secret, counter: step });
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * 生成 otpauth URI（供身份验证器 App 扫码导入）
+ * @param params Base32 密钥、签发方与账户标识
+ * @returns otpauth://totp/... URI
+ */
+export function buildOtpauthUri(params: {
+  secret: string;
+  issuer: string;
+  accountName: string;
+}): string {
+  const label = `${encodeURIComponent(params.issuer)}:${encodeURIComponent(params.accountName)}`;
+  const query = new URLSearchParams({
+    secret: params.secret,
+    issuer: params.issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DEFAULTS.digits),
+    period: String(TOTP_DEFAULTS.periodSeconds),
+  });
+  return `otpauth://totp/${label}?${query.toString()}`;
+}
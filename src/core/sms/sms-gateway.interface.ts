@@ -0,0 +1,18 @@
+export interface SendSmsInput {
+  readonly phone: string;
+  // 业务模板标识（如 verification_code），由各网关映射为服务商模板
+  readonly templateId: string;
+  readonly params: Readonly<Record<string, string>>;
+  readonly meta?: Readonly<Record<string, string>>;
+}
+
+export interface SendSmsResult {
+  readonly accepted: boolean;
+  readonly provider: string;
+  readonly providerMessageId: string;
+}
+
+export interface SmsGateway {
+  readonly name: string;
+  send(input: SendSmsInput): Promise<SendSmsResult>;
+}
@@ -0,0 +1,18 @@
+export interface ImageProbeResult {
+  /** 实际图片格式对应的 Content-Type，如 image/png */
+  readonly contentType: string;
+  readonly width: number;
+  readonly height: number;
+}
+
+export interface ImageThumbnail {
+  readonly body: Buffer;
+  readonly contentType: string;
+}
+
+export interface ImageProcessor {
+  /** 解析图片内容；无法识别为图片时返回 null */
+  probe(body: Buffer): Promise<ImageProbeResult | null>;
+  /** 生成等比缩放、居中裁剪的正方形缩略图 */
+  createThumbnail(input: { readonly body: Buffer; readonly size: number }): Promise<ImageThumbnail>;
+}
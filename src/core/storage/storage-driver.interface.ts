@@ -0,0 +1,15 @@
+export interface PutObjectInput {
+  /** 存储键（驱动内的相对路径），由上层生成，不含用户输入 */
+  readonly key: string;
+  readonly body: Buffer;
+  readonly contentType: string;
+}
+
+export interface StorageDriver {
+  readonly name: string;
+  putObject(input: PutObjectInput): Promise<void>;
+  /** 对象不存在时返回 null */
+  getObject(key: string): Promise<Buffer | null>;
+  /** 对象不存在时视为成功 */
+  deleteObject(key: string): Promise<void>;
+}
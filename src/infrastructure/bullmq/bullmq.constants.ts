@@ -2,6 +2,10 @@
 export const BULLMQ_QUEUES = {
   EMAIL: 'email',
   AI: 'ai',
+  SMS: 'sms',
+  MAINTENANCE: 'maintenance',
+  INVITE: 'invite',
+  ACCOUNT: 'account',
 } as const;
 
 export type BullMqQueueName = (typeof BULLMQ_QUEUES)[keyof typeof BULLMQ_QUEUES];
@@ -14,12 +18,35 @@ export const BULLMQ_JOBS = {
     GENERATE: 'generate',
     EMBED: 'embed',
   },
+  SMS: {
+    SEND: 'send',
+  },
+  MAINTENANCE: {
+    VERIFICATION_RECORD_SWEEP: 'verification-record-sweep',
+    ACCOUNT_DELETION_SWEEP: 'account-deletion-sweep',
+    STORAGE_ORPHAN_SWEEP: 'storage-orphan-sweep',
+  },
+  INVITE: {
+    BULK_COACH: 'bulk-coach',
+  },
+  ACCOUNT: {
+    DATA_EXPORT: 'data-export',
+  },
 } as const;
 
 export type BullMqEmailJobName = (typeof BULLMQ_JOBS.EMAIL)[keyof typeof BULLMQ_JOBS.EMAIL];
 export type BullMqAiJobName = (typeof BULLMQ_JOBS.AI)[keyof typeof BULLMQ_JOBS.AI];
+export type BullMqSmsJobName = (typeof BULLMQ_JOBS.SMS)[keyof typeof BULLMQ_JOBS.SMS];
+export type BullMqMaintenanceJobName =
+  (typeof BULLMQ_JOBS.MAINTENANCE)[keyof typeof BULLMQ_JOBS.MAINTENANCE];
+export type BullMqInviteJobName = (typeof BULLMQ_JOBS.INVITE)[keyof typeof BULLMQ_JOBS.INVITE];
+export type BullMqAccountJobName = (typeof BULLMQ_JOBS.ACCOUNT)[keyof typeof BULLMQ_JOBS.ACCOUNT];
 
 export const BULLMQ_QUEUE_JOBS: Readonly<Record<BullMqQueueName, ReadonlyArray<string>>> = {
   [BULLMQ_QUEUES.EMAIL]: Object.values(BULLMQ_JOBS.EMAIL),
   [BULLMQ_QUEUES.AI]: Object.values(BULLMQ_JOBS.AI),
+  [BULLMQ_QUEUES.SMS]: Object.values(BULLMQ_JOBS.SMS),
+  [BULLMQ_QUEUES.MAINTENANCE]: Object.values(BULLMQ_JOBS.MAINTENANCE),
+  [BULLMQ_QUEUES.INVITE]: Object.values(BULLMQ_JOBS.INVITE),
+  [BULLMQ_QUEUES.ACCOUNT]: Object.values(BULLMQ_JOBS.ACCOUNT),
 };
@@ -0,0 +1,39 @@
+// src/infrastructure/bullmq/contracts/account.contract.ts
+import { BULLMQ_JOBS, BULLMQ_QUEUES } from '../bullmq.constants';
+import { isOptionalNonEmptyString, isRecord } from './shared-payload-validators';
+
+export interface AccountDataExportPayload {
+  readonly exportId: number;
+  readonly accountId: number;
+  readonly traceId?: string;
+}
+
+export interface AccountDataExportResult {
+  readonly exportId: number;
+  readonly sizeBytes: number;
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isAccountDataExportPayload = (payload: unknown): payload is AccountDataExportPayload => {
+  if (!isRecord(payload)) return false;
+  return (
+    isPositiveInteger(payload.exportId) &&
+    isPositiveInteger(payload.accountId) &&
+    isOptionalNonEmptyString(payload.traceId)
+  );
+};
+
+export const ACCOUNT_JOB_CONTRACT = {
+  [BULLMQ_JOBS.ACCOUNT.DATA_EXPORT]: {
+    payload: {} as AccountDataExportPayload,
+    result: {} as AccountDataExportResult,
+    payloadValidator: isAccountDataExportPayload,
+  },
+} as const;
+
+export const ACCOUNT_QUEUE_CONTRACT = {
+  queueName: BULLMQ_QUEUES.ACCOUNT,
+  jobs: ACCOUNT_JOB_CONTRACT,
+} as const;
@@ -0,0 +1,65 @@
+// src/infrastructure/bullmq/contracts/invite.contract.ts
+import { BULLMQ_JOBS, BULLMQ_QUEUES } from '../bullmq.constants';
+import { isOptionalNonEmptyString, isRecord } from './shared-payload-validators';
+
+export interface BulkCoachInviteRowPayload {
+  readonly rowNumber: number;
+  readonly name: string;
+  readonly email: string;
+  readonly phone: string;
+  readonly level: string;
+  readonly specialty: string;
+}
+
+export interface BulkCoachInvitePayload {
+  readonly issuedByAccountId: number;
+  readonly rows: ReadonlyArray<BulkCoachInviteRowPayload>;
+  readonly expiresInMinutes?: number;
+  readonly traceId?: string;
+}
+
+export interface BulkCoachInviteResult {
+  readonly total: number;
+  readonly succeeded: number;
+  readonly failed: number;
+}
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isBulkCoachInviteRowPayload = (value: unknown): value is BulkCoachInviteRowPayload => {
+  if (!isRecord(value)) return false;
+  return (
+    isPositiveInteger(value.rowNumber) &&
+    typeof value.name === 'string' &&
+    typeof value.email === 'string' &&
+    typeof value.phone === 'string' &&
+    typeof value.level === 'string' &&
+    typeof value.specialty === 'string'
+  );
+};
+
+const isBulkCoachInvitePayload = (payload: unknown): payload is BulkCoachInvitePayload => {
+  if (!isRecord(payload)) return false;
+  return (
+    isPositiveInteger(payload.issuedByAccountId) &&
+    Array.isArray(payload.rows) &&
+    payload.rows.length > 0 &&
+    payload.rows.every(isBulkCoachInviteRowPayload) &&
+    (payload.expiresInMinutes === undefined || isPositiveInteger(payload.expiresInMinutes)) &&
+    isOptionalNonEmptyString(payload.traceId)
+  );
+};
+
+export const INVITE_JOB_CONTRACT = {
+  [BULLMQ_JOBS.INVITE.BULK_COACH]: {
+    payload: {} as BulkCoachInvitePayload,
+    result: {} as BulkCoachInviteResult,
+    payloadValidator: isBulkCoachInvitePayload,
+  },
+} as const;
+
+export const INVITE_QUEUE_CONTRACT = {
+  queueName: BULLMQ_QUEUES.INVITE,
+  jobs: INVITE_JOB_CONTRACT,
+} as const;
@@ -1,13 +1,21 @@
 // src/infrastructure/bullmq/contracts/job-contract.registry.ts
 import { BULLMQ_JOBS, BULLMQ_QUEUES, type BullMqQueueName } from '../bullmq.constants';
+import { ACCOUNT_JOB_CONTRACT } from './account.contract';
 import { AI_JOB_CONTRACT } from './ai.contract';
 import { EMAIL_JOB_CONTRACT } from './email.contract';
+import { INVITE_JOB_CONTRACT } from './invite.contract';
+import { MAINTENANCE_JOB_CONTRACT } from './maintenance.contract';
+import { SMS_JOB_CONTRACT } from './sms.contract';
 
 type PayloadValidator<T> = (payload: unknown) => payload is T;
 
 type QueueJobContractMap = {
   readonly [BULLMQ_QUEUES.EMAIL]: typeof EMAIL_JOB_CONTRACT;
   readonly [BULLMQ_QUEUES.AI]: typeof AI_JOB_CONTRACT;
+  readonly [BULLMQ_QUEUES.SMS]: typeof SMS_JOB_CONTRACT;
+  readonly [BULLMQ_QUEUES.MAINTENANCE]: typeof MAINTENANCE_JOB_CONTRACT;
+  readonly [BULLMQ_QUEUES.INVITE]: typeof INVITE_JOB_CONTRACT;
+  readonly [BULLMQ_QUEUES.ACCOUNT]: typeof ACCOUNT_JOB_CONTRACT;
 };
 
 export type BullMqJobName<Q extends BullMqQueueName> = keyof QueueJobContractMap[Q] & string;
@@ -37,6 +45,25 @@ export const BULLMQ_JOB_PAYLOAD_VALIDATORS = {
     [BULLMQ_JOBS.AI.GENERATE]: AI_JOB_CONTRACT[BULLMQ_JOBS.AI.GENERATE].payloadValidator,
     [BULLMQ_JOBS.AI.EMBED]: AI_JOB_CONTRACT[BULLMQ_JOBS.AI.EMBED].payloadValidator,
   },
+  [BULLMQ_QUEUES.SMS]: {
+    [BULLMQ_JOBS.SMS.SEND]: SMS_JOB_CONTRACT[BULLMQ_JOBS.SMS.SEND].payloadValidator,
+  },
+  [BULLMQ_QUEUES.MAINTENANCE]: {
+    [BULLMQ_JOBS.MAINTENANCE.VERIFICATION_RECORD_SWEEP]:
+      MAINTENANCE_JOB_CONTRACT[BULLMQ_JOBS.MAINTENANCE.VERIFICATION_RECORD_SWEEP].payloadValidator,
+    [BULLMQ_JOBS.MAINTENANCE.ACCOUNT_DELETION_SWEEP]:
+      MAINTENANCE_JOB_CONTRACT[BULLMQ_JOBS.MAINTENANCE.ACCOUNT_DELETION_SWEEP].payloadValidator,
+    [BULLMQ_JOBS.MAINTENANCE.STORAGE_ORPHAN_SWEEP]:
+      MAINTENANCE_JOB_CONTRACT[BULLMQ_JOBS.MAINTENANCE.STORAGE_ORPHAN_SWEEP].payloadValidator,
+  },
+  [BULLMQ_QUEUES.INVITE]: {
+    [BULLMQ_JOBS.INVITE.BULK_COACH]:
+      INVITE_JOB_CONTRACT[BULLMQ_JOBS.INVITE.BULK_COACH].payloadValidator,
+  },
+  [BULLMQ_QUEUES.ACCOUNT]: {
+    [BULLMQ_JOBS.ACCOUNT.DATA_EXPORT]:
+      ACCOUNT_JOB_CONTRACT[BULLMQ_JOBS.ACCOUNT.DATA_EXPORT].payloadValidator,
+  },
 } as const satisfies {
   readonly [Q in BullMqQueueName]: {
     readonly [J in BullMqJobName<Q>]: PayloadValidator<BullMqJobPayload<Q, J>>;
@@ -0,0 +1,72 @@
+import { BULLMQ_JOBS, BULLMQ_QUEUES } from '../bullmq.constants';
+import { isOptionalNonEmptyString, isRecord } from './shared-payload-validators';
+
+export interface VerificationRecordSweepPayload {
+  readonly traceId?: string;
+}
+
+export interface VerificationRecordSweepResult {
+  readonly expired: number;
+  readonly purged: number;
+}
+
+export interface AccountDeletionSweepPayload {
+  readonly traceId?: string;
+}
+
+export interface AccountDeletionSweepResult {
+  readonly erased: number;
+  readonly failed: number;
+  readonly expiredExports: number;
+}
+
+export interface StorageOrphanSweepPayload {
+  readonly traceId?: string;
+}
+
+export interface StorageOrphanSweepResult {
+  readonly deleted: number;
+  readonly failed: number;
+}
+
+const isVerificationRecordSweepPayload = (
+  payload: unknown,
+): payload is VerificationRecordSweepPayload => {
+  if (!isRecord(payload)) return false;
+  return isOptionalNonEmptyString(payload.traceId);
+};
+
+const isAccountDeletionSweepPayload = (
+  payload: unknown,
+): payload is AccountDeletionSweepPayload => {
+  if (!isRecord(payload)) return false;
+  return isOptionalNonEmptyString(payload.traceId);
+};
+
+const isStorageOrphanSweepPayload = (payload: unknown): payload is StorageOrphanSweepPayload => {
+  if (!isRecord(payload)) return false;
+  return isOptionalNonEmptyString(payload.traceId);
+};
+
+export const MAINTENANCE_JOB_CONTRACT = {
+  [BULLMQ_JOBS.MAINTENANCE.VERIFICATION_RECORD_SWEEP]: {
+    payload: {} as VerificationRecordSweepPayload,
+    result: {} as VerificationRecordSweepResult,
+    payloadValidator: isVerificationRecordSweepPayload,
+  },
+  [BULLMQ_JOBS.MAINTENANCE.ACCOUNT_DELETION_SWEEP]: {
+    payload: {} as AccountDeletionSweepPayload,
+    result: {} as AccountDeletionSweepResult,
+    payloadValidator: isAccountDeletionSweepPayload,
+  },
+  [BULLMQ_JOBS.MAINTENANCE.STORAGE_ORPHAN_SWEEP]: {
+    payload: {} as StorageOrphanSweepPayload,
+    result: {} as StorageOrphanSweepResult,
+    payloadValidator: isStorageOrphanSweepPayload,
+  },
+} as const;
+
+export const MAINTENANCE_QUEUE_CONTRACT = {
+  queueName: BULLMQ_QUEUES.MAINTENANCE,
+  jobs: MAINTENANCE_JOB_CONTRACT,
+} as const;
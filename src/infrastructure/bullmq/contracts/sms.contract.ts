@@ -0,0 +1,47 @@
+// src/infrastructure/bullmq/contracts/sms.contract.ts
+import { BULLMQ_JOBS, BULLMQ_QUEUES } from '../bullmq.constants';
+import {
+  isNonEmptyString,
+  isOptionalNonEmptyString,
+  isOptionalRecordOfString,
+  isRecord,
+} from './shared-payload-validators';
+
+export interface SmsSendPayload {
+  readonly phone: string;
+  readonly templateId: string;
+  readonly params: Readonly<Record<string, string>>;
+  readonly meta?: Readonly<Record<string, string>>;
+  readonly traceId?: string;
+}
+
+export interface SmsSendResult {
+  readonly accepted: boolean;
+  readonly provider: string;
+  readonly providerMessageId: string;
+}
+
+const isSmsSendPayload = (payload: unknown): payload is SmsSendPayload => {
+  if (!isRecord(payload)) return false;
+  return (
+    isNonEmptyString(payload.phone) &&
+    isNonEmptyString(payload.templateId) &&
+    isRecord(payload.params) &&
+    isOptionalRecordOfString(payload.params) &&
+    isOptionalRecordOfString(payload.meta) &&
+    isOptionalNonEmptyString(payload.traceId)
+  );
+};
+
+export const SMS_JOB_CONTRACT = {
+  [BULLMQ_JOBS.SMS.SEND]: {
+    payload: {} as SmsSendPayload,
+    result: {} as SmsSendResult,
+    payloadValidator: isSmsSendPayload,
+  },
+} as const;
+
+export const SMS_QUEUE_CONTRACT = {
+  queueName: BULLMQ_QUEUES.SMS,
+  jobs: SMS_JOB_CONTRACT,
+} as const;
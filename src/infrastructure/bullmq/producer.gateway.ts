@@ -162,7 +162,13 @@ export class BullMqProducerGateway {
     readonly payload: BullMqJobPayload<Q, J>;
     readonly traceId: string;
   }): BullMqJobPayload<Q, J> {
-    if (input.queueName !== 'ai' && input.queueName !== 'email') {
+    if (
+      input.queueName !== 'ai' &&
+      input.queueName !== 'email' &&
+      input.queueName !== 'sms' &&
+      input.queueName !== 'invite' &&
+      input.queueName !== 'account'
+    ) {
       return input.payload;
     }
     if (!this.isObjectRecord(input.payload)) {
@@ -62,6 +62,69 @@ export const BULLMQ_QUEUE_REGISTRY: Readonly<Record<BullMqQueueName, BullMqQueue
       shutdownGraceMs: 12000,
     },
   },
+  [BULLMQ_QUEUES.SMS]: {
+    queueName: BULLMQ_QUEUES.SMS,
+    defaultJobOptions: {
+      // 验证码时效短，只做一次快速重试，避免过期后才送达
+      attempts: 2,
+      backoff: { type: 'fixed', delay: 1000 },
+      removeOnComplete: 100,
+      removeOnFail: 500,
+    },
+    runtime: {
+      concurrency: 4,
+      limiter: {
+        // 服务商对单账号有 QPS 限制，这里整体限流
+        max: 10,
+        duration: 1000,
+      },
+      shutdownGraceMs: 10000,
+    },
+  },
+  [BULLMQ_QUEUES.MAINTENANCE]: {
+    queueName: BULLMQ_QUEUES.MAINTENANCE,
+    defaultJobOptions: {
+      // 周期任务下一轮会重新执行，失败不重试
+      attempts: 1,
+      removeOnComplete: 50,
+      removeOnFail: 200,
+    },
+    runtime: {
+      // 维护任务串行执行，避免多轮批量更新互相争抢行锁
+      concurrency: 1,
+      // 单轮最多处理若干批次，给足时间完成当前批次
+      shutdownGraceMs: 30000,
+    },
+  },
+  [BULLMQ_QUEUES.INVITE]: {
+    queueName: BULLMQ_QUEUES.INVITE,
+    defaultJobOptions: {
+      // 邀请提交后会投递邮件，重复执行会签发重复邀请，失败不重试（逐行结果见任务报告）
+      attempts: 1,
+      removeOnComplete: 100,
+      removeOnFail: 200,
+    },
+    runtime: {
+      // 单个任务最多上千行，串行执行避免同时占用过多数据库连接
+      concurrency: 1,
+      shutdownGraceMs: 30000,
+    },
+  },
+  [BULLMQ_QUEUES.ACCOUNT]: {
+    queueName: BULLMQ_QUEUES.ACCOUNT,
+    defaultJobOptions: {
+      // 导出记录仅在 PENDING 时写入归档，重试不会重复下发链接
+      attempts: 3,
+      backoff: { type: 'exponential', delay: 5000 },
+      removeOnComplete: 100,
+      removeOnFail: 200,
+    },
+    runtime: {
+      // 单个导出需要汇总多张表的数据，低并发避免挤占数据库连接
+      concurrency: 2,
+      shutdownGraceMs: 30000,
+    },
+  },
 };
 
 export const BULLMQ_QUEUE_NAMES: ReadonlyArray<BullMqQueueName> = Object.values(BULLMQ_QUEUES);
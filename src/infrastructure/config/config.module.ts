@@ -1,6 +1,8 @@
 // src/infrastructure/config/config.module.ts
 import { Module } from '@nestjs/common';
 import { ConfigFactory, ConfigModule, registerAs } from '@nestjs/config';
+import { OidcProviderConfig } from '@app-types/auth/oidc.types';
+import { ThirdPartyProviderEnum } from '@app-types/models/account.types';
 import { parseBooleanInput } from '@core/common/normalize/normalize.helper';
 import { IncomingMessage, ServerResponse } from 'http';
 import databaseConfig from './database.config';
@@ -184,6 +186,25 @@ const collectAiProviderRuleErrors = (): string[] => {
   return errors;
 };
 
+const collectSmsProviderRuleErrors = (): string[] => {
+  const errors: string[] = [];
+  const provider = getOptionalEnv('SMS_PROVIDER')?.toLowerCase();
+  if (provider && provider !== 'local' && provider !== 'aliyun') {
+    errors.push('SMS_PROVIDER must be either local or aliyun');
+  }
+  if (provider === 'aliyun') {
+    const aliyunReady = Boolean(
+      getOptionalEnv('SMS_ALIYUN_ACCESS_KEY_ID') &&
+      getOptionalEnv('SMS_ALIYUN_ACCESS_KEY_SECRET') &&
+      getOptionalEnv('SMS_ALIYUN_SIGN_NAME'),
+    );
+    if (!aliyunReady) {
+      errors.push('SMS_PROVIDER=aliyun requires SMS_ALIYUN_ACCESS_KEY_* and SMS_ALIYUN_SIGN_NAME');
+    }
+  }
+  return errors;
+};
+
 const collectFieldEncryptionRuleErrors = (): string[] => {
   const errors: string[] = [];
   const fieldEncryptionKey = getOptionalEnv('FIELD_ENCRYPTION_KEY');
@@ -201,6 +222,7 @@ const collectProductionRuleErrors = (): string[] => {
   return [
     ...collectDbAndCorsRuleErrors(),
     ...collectAiProviderRuleErrors(),
+    ...collectSmsProviderRuleErrors(),
     ...collectFieldEncryptionRuleErrors(),
   ];
 };
@@ -259,6 +281,8 @@ const serverConfig: ConfigFactory = () => ({
   server: {
     host: process.env.APP_HOST || '127.0.0.1',
     port: getIntEnvWithDefault('APP_PORT', 3000),
+    // 可信反向代理跳数；0 表示不信任 X-Forwarded-For，req.ip 取 socket 地址
+    trustProxyHops: getIntEnvWithDefault('APP_TRUST_PROXY_HOPS', 0),
     cors: {
       enabled: getBooleanEnvWithDefault('APP_CORS_ENABLED', true),
       origins: process.env.APP_CORS_ORIGINS || '',
@@ -428,6 +452,287 @@ const aiWorkerConfig: ConfigFactory = () => ({
   },
 });
 
+/**
+ * 生成登录限流配置（密码登录 / 第三方登录 / 验证码消费共用）
+ */
+const loginThrottleConfig: ConfigFactory = () => ({
+  loginThrottle: {
+    enabled: getBooleanEnvWithDefault('LOGIN_THROTTLE_ENABLED', true),
+    windowSeconds: getIntEnvWithDefault('LOGIN_THROTTLE_WINDOW_SECONDS', 900),
+    maxAttemptsPerLoginName: getIntEnvWithDefault('LOGIN_THROTTLE_MAX_ATTEMPTS_PER_LOGIN_NAME', 5),
+    maxAttemptsPerIp: getIntEnvWithDefault('LOGIN_THROTTLE_MAX_ATTEMPTS_PER_IP', 20),
+    lockSeconds: getIntEnvWithDefault('LOGIN_THROTTLE_LOCK_SECONDS', 900),
+    delayStepMs: getIntEnvWithDefault('LOGIN_THROTTLE_DELAY_STEP_MS', 200),
+    maxDelayMs: getIntEnvWithDefault('LOGIN_THROTTLE_MAX_DELAY_MS', 2000),
+  },
+});
+
+/**
+ * 生成二次验证（TOTP）配置
+ */
+const mfaConfig: ConfigFactory = () => ({
+  mfa: {
+    issuer: process.env.MFA_ISSUER || 'SSTS',
+    challengeExpiresIn: process.env.MFA_CHALLENGE_EXPIRES_IN || '5m',
+    recoveryCodeCount: getIntEnvWithDefault('MFA_RECOVERY_CODE_COUNT', 10),
+    // MFA_REQUIRED：逗号分隔的 IdentityTypeEnum，如 MANAGER,ADMIN
+    requiredIdentities: (process.env.MFA_REQUIRED || '')
+      .split(',')
+      .map((item) => item.trim().toUpperCase())
+      .filter(Boolean),
+  },
+});
+
+/**
+ * 生成代登录（管理员以用户身份登录）配置
+ */
+const impersonationConfig: ConfigFactory = () => ({
+  impersonation: {
+    accessTokenExpiresIn: process.env.IMPERSONATION_ACCESS_TOKEN_EXPIRES_IN || '15m',
+  },
+});
+
+/**
+ * 生成邮箱验证配置
+ */
+const emailVerificationConfig: ConfigFactory = () => ({
+  emailVerification: {
+    // 为 true 时邮箱注册的账户保持 PENDING，完成邮箱验证后才激活
+    required: getBooleanEnvWithDefault('EMAIL_VERIFICATION_REQUIRED', false),
+    linkExpiresInMinutes: getIntEnvWithDefault('EMAIL_VERIFICATION_LINK_EXPIRES_IN_MINUTES', 1440),
+    resendCooldownSeconds: getIntEnvWithDefault('EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS', 60),
+    // 邮件中的验证链接前缀，token 以 ?token= 追加；为空时邮件正文只包含 token
+    linkBaseUrl: process.env.EMAIL_VERIFICATION_LINK_BASE_URL || '',
+  },
+});
+
+/**
+ * 生成魔法链接登录配置
+ */
+const magicLinkConfig: ConfigFactory = () => ({
+  magicLink: {
+    linkExpiresInMinutes: getIntEnvWithDefault('MAGIC_LINK_EXPIRES_IN_MINUTES', 15),
+    resendCooldownSeconds: getIntEnvWithDefault('MAGIC_LINK_RESEND_COOLDOWN_SECONDS', 60),
+    // 邮件中的登录链接前缀，token 以 ?token= 追加；为空时邮件正文只包含 token
+    linkBaseUrl: process.env.MAGIC_LINK_BASE_URL || '',
+  },
+});
+
+/**
+ * 验证记录过期清理配置（Worker 周期任务）
+ */
+const verificationRecordSweepConfig: ConfigFactory = () => ({
+  verificationRecordSweep: {
+    enabled: getBooleanEnvWithDefault('VERIFICATION_RECORD_SWEEP_ENABLED', true),
+    everySeconds: getIntEnvWithDefault('VERIFICATION_RECORD_SWEEP_EVERY_SECONDS', 300),
+    // 单批更新 / 删除的行数；单轮内每种记录类型的过期、清理各最多执行 maxBatchesPerRun 批
+    batchSize: getIntEnvWithDefault('VERIFICATION_RECORD_SWEEP_BATCH_SIZE', 500),
+    maxBatchesPerRun: getIntEnvWithDefault('VERIFICATION_RECORD_SWEEP_MAX_BATCHES_PER_RUN', 20),
+    // 已消费 / 已撤销 / 已过期记录在过期时间之后保留的天数，<= 0 表示不清理
+    retentionDays: getIntEnvWithDefault('VERIFICATION_RECORD_RETENTION_DAYS', 30),
+  },
+});
+
+/**
+ * 账户注销配置（冷静期与到期注销周期任务）
+ */
+const accountDeletionConfig: ConfigFactory = () => ({
+  accountDeletion: {
+    graceDays: getIntEnvWithDefault('ACCOUNT_DELETION_GRACE_DAYS', 14),
+    sweepEnabled: getBooleanEnvWithDefault('ACCOUNT_DELETION_SWEEP_ENABLED', true),
+    sweepEverySeconds: getIntEnvWithDefault('ACCOUNT_DELETION_SWEEP_EVERY_SECONDS', 3600),
+    batchSize: getIntEnvWithDefault('ACCOUNT_DELETION_SWEEP_BATCH_SIZE', 50),
+  },
+});
+
+/**
+ * 个人数据导出配置
+ */
+const accountDataExportConfig: ConfigFactory = () => ({
+  accountDataExport: {
+    // 邮件中的下载链接前缀，token 以 ?token= 追加；为空时邮件正文只包含 token
+    linkBaseUrl: process.env.ACCOUNT_DATA_EXPORT_LINK_BASE_URL || '',
+    linkExpiresInHours: getIntEnvWithDefault('ACCOUNT_DATA_EXPORT_LINK_EXPIRES_IN_HOURS', 72),
+    cooldownMinutes: getIntEnvWithDefault('ACCOUNT_DATA_EXPORT_COOLDOWN_MINUTES', 1440),
+    maxAiCallRecords: getIntEnvWithDefault('ACCOUNT_DATA_EXPORT_MAX_AI_CALL_RECORDS', 1000),
+  },
+});
+
+/**
+ * 密码安全配置
+ */
+const passwordConfig: ConfigFactory = () => ({
+  password: {
+    // 修改密码时不可复用的历史密码数量（不含当前密码）
+    historySize: getIntEnvWithDefault('PASSWORD_HISTORY_SIZE', 5),
+  },
+});
+
+/**
+ * 微信网页授权（公众号 / 网站应用）配置
+ */
+const wechatOAuthConfig: ConfigFactory = () => ({
+  wechatOAuth: {
+    appId: process.env.WECHAT_WEB_APP_ID || '',
+    appSecret: process.env.WECHAT_WEB_APP_SECRET || '',
+    // 测试环境可指向本地桩服务
+    apiBaseUrl: process.env.WECHAT_API_BASE_URL || 'https://api.weixin.qq.com',
+    timeoutMs: getIntEnvWithDefault('WECHAT_API_TIMEOUT_MS', 10000),
+  },
+});
+
+const splitListEnv = (key: string, separator: RegExp): string[] =>
+  (process.env[key] || '')
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * 按 OIDC_<PROVIDER>_* 读取单个平台配置；未配置 CLIENT_ID 视为未启用
+ */
+const buildOidcProviderConfig = (
+  provider: ThirdPartyProviderEnum,
+  defaults: Pick<
+    OidcProviderConfig,
+    | 'issuer'
+    | 'scopes'
+    | 'authorizationEndpoint'
+    | 'tokenEndpoint'
+    | 'userinfoEndpoint'
+    | 'userIdField'
+  >,
+): OidcProviderConfig | null => {
+  const prefix = `OIDC_${provider}_`;
+  const clientId = getOptionalEnv(`${prefix}CLIENT_ID`);
+  if (!clientId) {
+    return null;
+  }
+  const scopes = splitListEnv(`${prefix}SCOPES`, /[\s,]+/);
+  return {
+    provider,
+    issuer: getOptionalEnv(`${prefix}ISSUER`) ?? defaults.issuer,
+    clientId,
+    clientSecret: getOptionalEnv(`${prefix}CLIENT_SECRET`) ?? '',
+    redirectUri: getOptionalEnv(`${prefix}REDIRECT_URI`) ?? '',
+    scopes: scopes.length > 0 ? scopes : defaults.scopes,
+    authorizationEndpoint:
+      getOptionalEnv(`${prefix}AUTHORIZATION_ENDPOINT`) ?? defaults.authorizationEndpoint,
+    tokenEndpoint: getOptionalEnv(`${prefix}TOKEN_ENDPOINT`) ?? defaults.tokenEndpoint,
+    userinfoEndpoint: getOptionalEnv(`${prefix}USERINFO_ENDPOINT`) ?? defaults.userinfoEndpoint,
+    userIdField: getOptionalEnv(`${prefix}USER_ID_FIELD`) ?? defaults.userIdField,
+    allowedDomains: splitListEnv(`${prefix}ALLOWED_DOMAINS`, /,/).map((item) => item.toLowerCase()),
+  };
+};
+
+/**
+ * OIDC / OAuth2 第三方登录配置
+ * - GOOGLE：OIDC，端点取自发现文档
+ * - GITHUB：纯 OAuth2，身份取自用户信息接口
+ */
+const oidcConfig: ConfigFactory = () => ({
+  oidc: {
+    providers: [
+      buildOidcProviderConfig(ThirdPartyProviderEnum.GOOGLE, {
+        issuer: 'https://accounts.google.com',
+        scopes: ['openid', 'email', 'profile'],
+        authorizationEndpoint: null,
+        tokenEndpoint: null,
+        userinfoEndpoint: null,
+        userIdField: 'sub',
+      }),
+      buildOidcProviderConfig(ThirdPartyProviderEnum.GITHUB, {
+        issuer: null,
+        scopes: ['read:user', 'user:email'],
+        authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+        tokenEndpoint: 'https://github.com/login/oauth/access_token',
+        userinfoEndpoint: 'https://api.github.com/user',
+        userIdField: 'id',
+      }),
+    ].filter((item): item is OidcProviderConfig => item !== null),
+    flowExpiresIn: process.env.OIDC_FLOW_EXPIRES_IN || '10m',
+    cacheSeconds: getIntEnvWithDefault('OIDC_CACHE_SECONDS', 3600),
+    clockToleranceSeconds: getIntEnvWithDefault('OIDC_CLOCK_TOLERANCE_SECONDS', 60),
+    timeoutMs: getIntEnvWithDefault('OIDC_HTTP_TIMEOUT_MS', 10000),
+  },
+});
+
+/**
+ * 解析 key=value 形式的逗号分隔列表
+ */
+const parseKeyValueListEnv = (key: string): Record<string, string> =>
+  Object.fromEntries(
+    splitListEnv(key, /,/)
+      .map((item): [string, string] => {
+        const [name = '', value = ''] = item.split('=').map((part) => part.trim());
+        return [name, value];
+      })
+      .filter(([name, value]) => Boolean(name && value)),
+  );
+
+/**
+ * 短信验证码与短信网关配置
+ */
+const smsConfig: ConfigFactory = () => ({
+  sms: {
+    // local：本地桩（只写日志 / 文件）；aliyun：阿里云短信服务
+    provider: process.env.SMS_PROVIDER || 'local',
+    codeExpiresInMinutes: getIntEnvWithDefault('SMS_CODE_EXPIRES_IN_MINUTES', 5),
+    resendCooldownSeconds: getIntEnvWithDefault('SMS_CODE_RESEND_COOLDOWN_SECONDS', 60),
+    // 发送配额（依赖 Redis；Redis 不可用时放行）
+    quota: {
+      windowSeconds: getIntEnvWithDefault('SMS_QUOTA_WINDOW_SECONDS', 3600),
+      maxPerPhone: getIntEnvWithDefault('SMS_QUOTA_MAX_PER_PHONE', 10),
+      maxPerIp: getIntEnvWithDefault('SMS_QUOTA_MAX_PER_IP', 50),
+    },
+    local: {
+      outboxFile: process.env.SMS_LOCAL_OUTBOX_FILE || '',
+    },
+    aliyun: {
+      endpoint: process.env.SMS_ALIYUN_ENDPOINT || 'https://dysmsapi.aliyuncs.com',
+      regionId: process.env.SMS_ALIYUN_REGION_ID || 'cn-hangzhou',
+      accessKeyId: process.env.SMS_ALIYUN_ACCESS_KEY_ID || '',
+      accessKeySecret: process.env.SMS_ALIYUN_ACCESS_KEY_SECRET || '',
+      signName: process.env.SMS_ALIYUN_SIGN_NAME || '',
+      // 业务模板到服务商模板编码的映射，如 verification_code=SMS_123456
+      templateCodes: parseKeyValueListEnv('SMS_ALIYUN_TEMPLATE_CODES'),
+      timeoutMs: getIntEnvWithDefault('SMS_ALIYUN_TIMEOUT_MS', 10000),
+    },
+  },
+});
+
+/**
+ * 文件存储配置（头像上传、缩略图与孤儿文件清理）
+ */
+const storageConfig: ConfigFactory = () => ({
+  storage: {
+    // local：本地磁盘；后续扩展 S3 兼容驱动
+    driver: process.env.STORAGE_DRIVER || 'local',
+    // API 服务对外地址，上传 / 下载链接以 /files/:fileKey 追加；为空时返回相对路径
+    publicBaseUrl: process.env.STORAGE_PUBLIC_BASE_URL || '',
+    // 未单独配置时复用 JWT_SECRET
+    signingSecret: process.env.STORAGE_SIGNING_SECRET || getRequiredEnv('JWT_SECRET'),
+    uploadUrlExpiresInSeconds: getIntEnvWithDefault('STORAGE_UPLOAD_URL_EXPIRES_IN_SECONDS', 600),
+    downloadUrlExpiresInSeconds: getIntEnvWithDefault(
+      'STORAGE_DOWNLOAD_URL_EXPIRES_IN_SECONDS',
+      3600,
+    ),
+    avatarMaxBytes: getIntEnvWithDefault('STORAGE_AVATAR_MAX_BYTES', 5 * 1024 * 1024),
+    avatarContentTypes: process.env.STORAGE_AVATAR_CONTENT_TYPES
+      ? splitListEnv('STORAGE_AVATAR_CONTENT_TYPES', /,/).map((item) => item.toLowerCase())
+      : ['image/jpeg', 'image/png', 'image/webp'],
+    thumbnailSize: getIntEnvWithDefault('STORAGE_THUMBNAIL_SIZE', 256),
+    local: {
+      rootDir: process.env.STORAGE_LOCAL_ROOT_DIR || './storage',
+    },
+    orphanSweep: {
+      enabled: getBooleanEnvWithDefault('STORAGE_ORPHAN_SWEEP_ENABLED', true),
+      everySeconds: getIntEnvWithDefault('STORAGE_ORPHAN_SWEEP_EVERY_SECONDS', 3600),
+      retentionHours: getIntEnvWithDefault('STORAGE_ORPHAN_RETENTION_HOURS', 24),
+      batchSize: getIntEnvWithDefault('STORAGE_ORPHAN_SWEEP_BATCH_SIZE', 200),
+    },
+  },
+});
+
 /**
  * 生成 JWT 配置
  */
@@ -477,6 +782,19 @@ const paginationConfig = () => ({
         bullmqConfig,
         qmWorkerEntryConfig,
         aiWorkerConfig,
+        loginThrottleConfig,
+        mfaConfig,
+        impersonationConfig,
+        emailVerificationConfig,
+        magicLinkConfig,
+        verificationRecordSweepConfig,
+        accountDeletionConfig,
+        accountDataExportConfig,
+        passwordConfig,
+        wechatOAuthConfig,
+        oidcConfig,
+        smsConfig,
+        storageConfig,
         jwtConfig,
         paginationConfig,
       ],
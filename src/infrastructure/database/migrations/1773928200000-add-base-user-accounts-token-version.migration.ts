@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBaseUserAccountsTokenVersion1773928200000 implements MigrationInterface {
+  name = 'AddBaseUserAccountsTokenVersion1773928200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `base_user_accounts` ADD COLUMN `token_version` int NOT NULL DEFAULT '1' COMMENT 'Refresh Token 版本号，递增即作废全部已签发的 refresh token' AFTER `recent_login_history`;",
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE `base_user_accounts` DROP COLUMN `token_version`;');
+  }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBaseAuthRefreshTokenFamiliesTable1773928300000 implements MigrationInterface {
+  name = 'CreateBaseAuthRefreshTokenFamiliesTable1773928300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE \`base_auth_refresh_token_families\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`family_id\` char(36) NOT NULL COMMENT '家族 ID（UUID），写入 refresh token 的 fid 声明',
+        \`account_id\` int NOT NULL COMMENT '账户 ID',
+        \`audience\` varchar(32) DEFAULT NULL COMMENT '签发时的客户端类型',
+        \`current_jti\` char(36) NOT NULL COMMENT '当前唯一有效的 refresh token jti',
+        \`token_version\` int NOT NULL DEFAULT '1' COMMENT '签发时账户的 tokenVersion',
+        \`rotation_count\` int NOT NULL DEFAULT '0' COMMENT '已轮换次数',
+        \`status\` enum('ACTIVE','REVOKED') NOT NULL DEFAULT 'ACTIVE' COMMENT '家族状态',
+        \`revoked_reason\` varchar(32) DEFAULT NULL COMMENT '作废原因',
+        \`revoked_at\` timestamp(3) NULL DEFAULT NULL COMMENT '作废时间（系统事件时间）',
+        \`last_rotated_at\` timestamp(3) NULL DEFAULT NULL COMMENT '最近一次轮换时间（系统事件时间）',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间（系统事件时间）',
+        \`updated_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3) COMMENT '更新时间（系统事件时间）',
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`uk_family_id\` (\`family_id\`),
+        KEY \`idx_account_status\` (\`account_id\`,\`status\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='Refresh Token 家族：轮换与重用检测';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_auth_refresh_token_families`;');
+  }
+}
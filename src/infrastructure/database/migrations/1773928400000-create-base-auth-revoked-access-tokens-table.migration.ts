@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBaseAuthRevokedAccessTokensTable1773928400000 implements MigrationInterface {
+  name = 'CreateBaseAuthRevokedAccessTokensTable1773928400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE \`base_auth_revoked_access_tokens\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`jti\` char(36) NOT NULL COMMENT 'access token 的 jti',
+        \`account_id\` int NOT NULL COMMENT '账户 ID',
+        \`reason\` varchar(32) NOT NULL COMMENT '注销原因',
+        \`expires_at\` timestamp(3) NOT NULL COMMENT 'access token 原过期时间（系统事件时间）',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间（系统事件时间）',
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`uk_jti\` (\`jti\`),
+        KEY \`idx_expires_at\` (\`expires_at\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='已注销 access token：Redis 注销名单的持久化兜底';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_auth_revoked_access_tokens`;');
+  }
+}
@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBaseAuthSessionsTable1773928500000 implements MigrationInterface {
+  name = 'CreateBaseAuthSessionsTable1773928500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE \`base_auth_sessions\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`account_id\` int NOT NULL COMMENT '账户 ID',
+        \`family_id\` char(36) NOT NULL COMMENT '关联的 refresh token 家族 ID',
+        \`audience\` varchar(32) DEFAULT NULL COMMENT '客户端类型',
+        \`ip\` varchar(45) DEFAULT NULL COMMENT '登录 IP',
+        \`user_agent\` varchar(255) DEFAULT NULL COMMENT '登录 User-Agent（超长截断）',
+        \`provider\` varchar(32) DEFAULT NULL COMMENT '第三方登录平台；密码登录为空',
+        \`last_seen_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '最近活跃时间（登录或刷新令牌时更新）',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间（系统事件时间）',
+        \`updated_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3) COMMENT '更新时间（系统事件时间）',
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`uk_family_id\` (\`family_id\`),
+        KEY \`idx_account_id\` (\`account_id\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='登录会话：设备信息与 refresh token 家族关联';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_auth_sessions`;');
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBaseAuthMfaFactorsTable1773928600000 implements MigrationInterface {
+  name = 'CreateBaseAuthMfaFactorsTable1773928600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE \`base_auth_mfa_factors\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`account_id\` int NOT NULL COMMENT '账户 ID',
+        \`method\` varchar(16) NOT NULL COMMENT '二次验证方式',
+        \`secret\` varchar(255) NOT NULL COMMENT 'TOTP 密钥（加密存储）',
+        \`status\` varchar(16) NOT NULL COMMENT '状态：PENDING / ENABLED',
+        \`last_used_step\` int DEFAULT NULL COMMENT '最近一次通过校验的 TOTP 时间步（防重放）',
+        \`enabled_at\` timestamp(3) NULL DEFAULT NULL COMMENT '启用时间',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间（系统事件时间）',
+        \`updated_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3) COMMENT '更新时间（系统事件时间）',
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`uk_account_id\` (\`account_id\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='二次验证因子：TOTP 密钥与启用状态';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_auth_mfa_factors`;');
+  }
+}
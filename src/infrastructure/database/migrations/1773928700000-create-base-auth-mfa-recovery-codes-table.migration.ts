@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBaseAuthMfaRecoveryCodesTable1773928700000 implements MigrationInterface {
+  name = 'CreateBaseAuthMfaRecoveryCodesTable1773928700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE \`base_auth_mfa_recovery_codes\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`account_id\` int NOT NULL COMMENT '账户 ID',
+        \`code_fp\` binary(32) NOT NULL COMMENT '恢复码指纹（SHA-256）',
+        \`used_at\` timestamp(3) NULL DEFAULT NULL COMMENT '使用时间；为空表示未使用',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间（系统事件时间）',
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`uk_account_code_fp\` (\`account_id\`, \`code_fp\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='二次验证恢复码：仅存指纹，一次性使用';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_auth_mfa_recovery_codes`;');
+  }
+}
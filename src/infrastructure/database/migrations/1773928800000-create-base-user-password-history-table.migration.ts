@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBaseUserPasswordHistoryTable1773928800000 implements MigrationInterface {
+  name = 'CreateBaseUserPasswordHistoryTable1773928800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE \`base_user_password_history\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`account_id\` int NOT NULL COMMENT '账户 ID',
+        \`password_hash\` varchar(255) NOT NULL COMMENT '历史密码哈希',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间（系统事件时间）',
+        PRIMARY KEY (\`id\`),
+        KEY \`idx_account_created\` (\`account_id\`, \`created_at\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='密码历史：修改密码时拒绝复用最近使用过的密码';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_user_password_history`;');
+  }
+}
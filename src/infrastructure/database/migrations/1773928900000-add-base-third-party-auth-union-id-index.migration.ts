@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBaseThirdPartyAuthUnionIdIndex1773928900000 implements MigrationInterface {
+  name = 'AddBaseThirdPartyAuthUnionIdIndex1773928900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      'ALTER TABLE `base_third_party_auth` ADD KEY `idx_union_id` (`union_id`);',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE `base_third_party_auth` DROP KEY `idx_union_id`;');
+  }
+}
@@ -0,0 +1,28 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBaseAuthImpersonationAuditsTable1773929000000 implements MigrationInterface {
+  name = 'CreateBaseAuthImpersonationAuditsTable1773929000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE \`base_auth_impersonation_audits\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`impersonator_id\` int NOT NULL COMMENT '发起代登录的管理员账户 ID',
+        \`target_account_id\` int NOT NULL COMMENT '被代登录的账户 ID',
+        \`action\` varchar(16) NOT NULL COMMENT '动作：START / STOP',
+        \`reason\` varchar(255) NULL COMMENT '代登录原因（仅 START）',
+        \`family_id\` char(36) NULL COMMENT '代登录会话的 refresh token 家族 ID',
+        \`ip\` varchar(45) NULL COMMENT '操作 IP',
+        \`user_agent\` varchar(255) NULL COMMENT '操作 User-Agent（超长截断）',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间（系统事件时间）',
+        PRIMARY KEY (\`id\`),
+        KEY \`idx_impersonator_created\` (\`impersonator_id\`, \`created_at\`),
+        KEY \`idx_target_created\` (\`target_account_id\`, \`created_at\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='代登录审计：管理员以用户身份登录的开始与结束记录';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_auth_impersonation_audits`;');
+  }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBaseUserInfoEmailVerifiedAt1773929100000 implements MigrationInterface {
+  name = 'AddBaseUserInfoEmailVerifiedAt1773929100000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `base_user_info` ADD COLUMN `email_verified_at` timestamp(3) NULL DEFAULT NULL COMMENT '邮箱验证时间（NULL=未验证，修改邮箱后重置）' AFTER `email`;",
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE `base_user_info` DROP COLUMN `email_verified_at`;');
+  }
+}
@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBaseUserInfoPhoneVerifiedAt1773929200000 implements MigrationInterface {
+  name = 'AddBaseUserInfoPhoneVerifiedAt1773929200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `base_user_info` ADD COLUMN `phone_verified_at` timestamp(3) NULL DEFAULT NULL COMMENT '手机号验证时间（NULL=未验证，修改手机号后重置）' AFTER `phone`;",
+    );
+    await queryRunner.query('ALTER TABLE `base_user_info` ADD KEY `idx_phone` (`phone`);');
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('ALTER TABLE `base_user_info` DROP KEY `idx_phone`;');
+    await queryRunner.query('ALTER TABLE `base_user_info` DROP COLUMN `phone_verified_at`;');
+  }
+}
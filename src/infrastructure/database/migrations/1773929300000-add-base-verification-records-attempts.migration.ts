@@ -0,0 +1,17 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBaseVerificationRecordsAttempts1773929300000 implements MigrationInterface {
+  name = 'AddBaseVerificationRecordsAttempts1773929300000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `base_verification_records` ADD COLUMN `attempt_count` int NOT NULL DEFAULT 0 COMMENT '已失败尝试次数（仅验证码类记录）' AFTER `payload`, ADD COLUMN `max_attempts` int NOT NULL DEFAULT 5 COMMENT '最大尝试次数（达到后撤销记录）' AFTER `attempt_count`;",
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      'ALTER TABLE `base_verification_records` DROP COLUMN `max_attempts`, DROP COLUMN `attempt_count`;',
+    );
+  }
+}
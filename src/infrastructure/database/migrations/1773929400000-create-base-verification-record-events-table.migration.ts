@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBaseVerificationRecordEventsTable1773929400000 implements MigrationInterface {
+  name = 'CreateBaseVerificationRecordEventsTable1773929400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE \`base_verification_record_events\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`record_id\` int NOT NULL COMMENT '验证记录 ID',
+        \`record_type\` varchar(32) NOT NULL COMMENT '验证记录类型',
+        \`event_type\` varchar(32) NOT NULL COMMENT '事件类型',
+        \`actor_account_id\` int NULL COMMENT '操作者账户 ID（系统或匿名操作为 NULL）',
+        \`reason\` varchar(64) NULL COMMENT '原因：撤销原因 / 投递渠道 / 消费失败错误码',
+        \`ip\` varchar(45) NULL COMMENT '操作 IP',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间（事件发生时间）',
+        PRIMARY KEY (\`id\`),
+        KEY \`idx_record_created\` (\`record_id\`, \`created_at\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='验证记录事件：签发、投递、查看、消费尝试、撤销与过期的追加日志';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_verification_record_events`;');
+  }
+}
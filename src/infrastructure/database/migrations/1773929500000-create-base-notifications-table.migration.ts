@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBaseNotificationsTable1773929500000 implements MigrationInterface {
+  name = 'CreateBaseNotificationsTable1773929500000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE \`base_notifications\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`recipient_account_id\` int NOT NULL COMMENT '接收者账户 ID',
+        \`category\` varchar(32) NOT NULL COMMENT '通知分类',
+        \`title\` varchar(128) NOT NULL COMMENT '标题',
+        \`body\` varchar(1000) NOT NULL COMMENT '正文',
+        \`link\` varchar(512) NULL COMMENT '客户端跳转链接',
+        \`read_at\` timestamp(3) NULL COMMENT '已读时间（未读为 NULL）',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间',
+        PRIMARY KEY (\`id\`),
+        KEY \`idx_recipient_created\` (\`recipient_account_id\`, \`created_at\`),
+        KEY \`idx_recipient_read\` (\`recipient_account_id\`, \`read_at\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='站内通知：计数器同步维护在 base_user_info.notify_count / unread_count';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_notifications`;');
+  }
+}
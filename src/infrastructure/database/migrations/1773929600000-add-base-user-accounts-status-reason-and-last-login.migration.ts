@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBaseUserAccountsStatusReasonAndLastLogin1773929600000 implements MigrationInterface {
+  name = 'AddBaseUserAccountsStatusReasonAndLastLogin1773929600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `base_user_accounts` ADD COLUMN `status_reason` varchar(255) NULL DEFAULT NULL COMMENT '最近一次管理端变更状态的原因' AFTER `status`, ADD COLUMN `status_changed_at` timestamp(3) NULL DEFAULT NULL COMMENT '最近一次管理端变更状态的时间' AFTER `status_reason`, ADD COLUMN `last_login_at` timestamp(3) NULL DEFAULT NULL COMMENT '最近登录时间（NULL=从未登录）' AFTER `recent_login_history`;",
+    );
+    await queryRunner.query(
+      'ALTER TABLE `base_user_accounts` ADD KEY `idx_status_created` (`status`, `created_at`), ADD KEY `idx_last_login_at` (`last_login_at`);',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      'ALTER TABLE `base_user_accounts` DROP KEY `idx_last_login_at`, DROP KEY `idx_status_created`;',
+    );
+    await queryRunner.query(
+      'ALTER TABLE `base_user_accounts` DROP COLUMN `last_login_at`, DROP COLUMN `status_changed_at`, DROP COLUMN `status_reason`;',
+    );
+  }
+}
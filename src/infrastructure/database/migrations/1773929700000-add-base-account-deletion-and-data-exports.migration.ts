@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBaseAccountDeletionAndDataExports1773929700000 implements MigrationInterface {
+  name = 'AddBaseAccountDeletionAndDataExports1773929700000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `base_user_accounts` ADD COLUMN `deletion_requested_at` timestamp(3) NULL DEFAULT NULL COMMENT '用户申请注销的时间（NULL=未申请）' AFTER `status_changed_at`, ADD COLUMN `deletion_scheduled_at` timestamp(3) NULL DEFAULT NULL COMMENT '计划执行注销（匿名化）的时间，冷静期内可撤销' AFTER `deletion_requested_at`;",
+    );
+    await queryRunner.query(
+      'ALTER TABLE `base_user_accounts` ADD KEY `idx_deletion_scheduled_at` (`deletion_scheduled_at`);',
+    );
+    await queryRunner.query(`
+      CREATE TABLE \`base_account_data_exports\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`account_id\` int NOT NULL COMMENT '导出数据所属账户 ID',
+        \`status\` varchar(16) NOT NULL DEFAULT 'PENDING' COMMENT 'PENDING / READY / FAILED / EXPIRED',
+        \`token_fp\` binary(32) NULL COMMENT '下载令牌指纹（SHA-256），生成完成后写入',
+        \`archive\` longtext NULL COMMENT '导出归档（JSON），过期或账户注销后清空',
+        \`size_bytes\` int NULL COMMENT '归档字节数',
+        \`failure_reason\` varchar(128) NULL COMMENT '生成失败原因',
+        \`expires_at\` timestamp(3) NULL COMMENT '下载链接过期时间',
+        \`completed_at\` timestamp(3) NULL COMMENT '生成完成时间',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间',
+        \`updated_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3) COMMENT '更新时间',
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`uk_token_fp\` (\`token_fp\`),
+        KEY \`idx_account_created\` (\`account_id\`, \`created_at\`),
+        KEY \`idx_status_expires\` (\`status\`, \`expires_at\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='个人数据导出：归档生成后通过邮件中的一次性链接下载';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_account_data_exports`;');
+    await queryRunner.query(
+      'ALTER TABLE `base_user_accounts` DROP KEY `idx_deletion_scheduled_at`;',
+    );
+    await queryRunner.query(
+      'ALTER TABLE `base_user_accounts` DROP COLUMN `deletion_scheduled_at`, DROP COLUMN `deletion_requested_at`;',
+    );
+  }
+}
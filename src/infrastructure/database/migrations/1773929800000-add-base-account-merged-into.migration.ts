@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddBaseAccountMergedInto1773929800000 implements MigrationInterface {
+  name = 'AddBaseAccountMergedInto1773929800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      "ALTER TABLE `base_user_accounts` ADD COLUMN `merged_into_account_id` int NULL DEFAULT NULL COMMENT '被合并后指向的目标账户 ID（NULL=未合并）' AFTER `deletion_scheduled_at`;",
+    );
+    await queryRunner.query(
+      'ALTER TABLE `base_user_accounts` ADD KEY `idx_merged_into_account_id` (`merged_into_account_id`);',
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      'ALTER TABLE `base_user_accounts` DROP KEY `idx_merged_into_account_id`;',
+    );
+    await queryRunner.query(
+      'ALTER TABLE `base_user_accounts` DROP COLUMN `merged_into_account_id`;',
+    );
+  }
+}
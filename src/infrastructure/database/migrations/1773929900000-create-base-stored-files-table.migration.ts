@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBaseStoredFilesTable1773929900000 implements MigrationInterface {
+  name = 'CreateBaseStoredFilesTable1773929900000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`
+      CREATE TABLE \`base_stored_files\` (
+        \`id\` int NOT NULL AUTO_INCREMENT COMMENT 'primary key',
+        \`file_key\` varchar(32) NOT NULL COMMENT '对外标识（随机串），用于拼接访问链接',
+        \`owner_account_id\` int NOT NULL COMMENT '上传者账户 ID',
+        \`purpose\` varchar(16) NOT NULL COMMENT '文件用途：AVATAR',
+        \`status\` varchar(16) NOT NULL DEFAULT 'PENDING' COMMENT 'PENDING / UPLOADED / ATTACHED / RELEASED / DELETED',
+        \`driver\` varchar(16) NOT NULL COMMENT '存储驱动',
+        \`storage_key\` varchar(255) NOT NULL COMMENT '原文件对象键',
+        \`thumbnail_key\` varchar(255) NULL COMMENT '缩略图对象键',
+        \`content_type\` varchar(64) NOT NULL COMMENT 'Content-Type（上传后以实际内容识别结果为准）',
+        \`size_bytes\` int NULL COMMENT '文件字节数',
+        \`width\` int NULL COMMENT '图片宽度（像素）',
+        \`height\` int NULL COMMENT '图片高度（像素）',
+        \`attached_type\` varchar(32) NULL COMMENT '引用方类型：USER_AVATAR / COACH_AVATAR / LEARNER_AVATAR',
+        \`attached_id\` int NULL COMMENT '引用方 ID',
+        \`upload_expires_at\` timestamp(3) NULL COMMENT '上传链接过期时间',
+        \`uploaded_at\` timestamp(3) NULL COMMENT '上传完成时间',
+        \`attached_at\` timestamp(3) NULL COMMENT '被引用时间',
+        \`released_at\` timestamp(3) NULL COMMENT '解除引用时间',
+        \`created_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) COMMENT '创建时间',
+        \`updated_at\` timestamp(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3) COMMENT '更新时间',
+        PRIMARY KEY (\`id\`),
+        UNIQUE KEY \`uk_file_key\` (\`file_key\`),
+        KEY \`idx_owner_created\` (\`owner_account_id\`, \`created_at\`),
+        KEY \`idx_attached\` (\`attached_type\`, \`attached_id\`),
+        KEY \`idx_status_updated\` (\`status\`, \`updated_at\`)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_0900_ai_ci COMMENT='上传文件：内容保存在存储驱动中，孤儿文件由 Worker 周期清理';
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query('DROP TABLE `base_stored_files`;');
+  }
+}
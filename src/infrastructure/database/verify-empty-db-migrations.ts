@@ -28,14 +28,49 @@ const REQUIRED_TABLES = [
   'base_async_task_records',
   'base_third_party_auth',
   'base_verification_records',
+  'base_auth_refresh_token_families',
+  'base_auth_revoked_access_tokens',
+  'base_auth_sessions',
+  'base_auth_mfa_factors',
+  'base_auth_mfa_recovery_codes',
+  'base_user_password_history',
+  'base_auth_impersonation_audits',
+  'base_verification_record_events',
+  'base_notifications',
+  'base_account_data_exports',
+  'base_stored_files',
 ] as const;
 
 const REQUIRED_INDEXES: ReadonlyArray<{ table: string; index: string }> = [
   { table: 'base_user_accounts', index: 'uk_login_email' },
+  { table: 'base_user_accounts', index: 'idx_status_created' },
+  { table: 'base_user_accounts', index: 'idx_last_login_at' },
+  { table: 'base_user_accounts', index: 'idx_deletion_scheduled_at' },
+  { table: 'base_user_accounts', index: 'idx_merged_into_account_id' },
+  { table: 'base_user_info', index: 'idx_phone' },
   { table: 'base_third_party_auth', index: 'base_third_party_auth_provider_IDX' },
+  { table: 'base_third_party_auth', index: 'idx_union_id' },
   { table: 'base_async_task_records', index: 'uk_queue_name_job_id' },
   { table: 'ai_provider_call_records', index: 'uk_ai_provider_call_trace_seq' },
   { table: 'base_verification_records', index: 'uk_token_fp' },
+  { table: 'base_auth_refresh_token_families', index: 'uk_family_id' },
+  { table: 'base_auth_revoked_access_tokens', index: 'uk_jti' },
+  { table: 'base_auth_sessions', index: 'uk_family_id' },
+  { table: 'base_auth_mfa_factors', index: 'uk_account_id' },
+  { table: 'base_auth_mfa_recovery_codes', index: 'uk_account_code_fp' },
+  { table: 'base_user_password_history', index: 'idx_account_created' },
+  { table: 'base_auth_impersonation_audits', index: 'idx_impersonator_created' },
+  { table: 'base_auth_impersonation_audits', index: 'idx_target_created' },
+  { table: 'base_verification_record_events', index: 'idx_record_created' },
+  { table: 'base_notifications', index: 'idx_recipient_created' },
+  { table: 'base_notifications', index: 'idx_recipient_read' },
+  { table: 'base_account_data_exports', index: 'uk_token_fp' },
+  { table: 'base_account_data_exports', index: 'idx_account_created' },
+  { table: 'base_account_data_exports', index: 'idx_status_expires' },
+  { table: 'base_stored_files', index: 'uk_file_key' },
+  { table: 'base_stored_files', index: 'idx_owner_created' },
+  { table: 'base_stored_files', index: 'idx_attached' },
+  { table: 'base_stored_files', index: 'idx_status_updated' },
 ];
 
 const REQUIRED_FOREIGN_KEYS: ReadonlyArray<{
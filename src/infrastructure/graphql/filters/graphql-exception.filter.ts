@@ -8,6 +8,7 @@ import {
   JWT_ERROR,
   PAGINATION_ERROR,
   PERMISSION_ERROR,
+  STORAGE_ERROR,
   THIRDPARTY_ERROR,
 } from '@core/common/errors';
 import { ArgumentsHost, Catch, HttpException } from '@nestjs/common';
@@ -130,6 +131,20 @@ function mapDomainErrorToGqlCode(errorCode: string): string {
     [AUTH_ERROR.ACCOUNT_INACTIVE]: 'FORBIDDEN',
     [AUTH_ERROR.ACCOUNT_BANNED]: 'FORBIDDEN',
     [AUTH_ERROR.INVALID_AUDIENCE]: 'BAD_USER_INPUT',
+    [AUTH_ERROR.INVALID_REFRESH_TOKEN]: 'UNAUTHENTICATED',
+    [AUTH_ERROR.REFRESH_TOKEN_REUSED]: 'UNAUTHENTICATED',
+    [AUTH_ERROR.REFRESH_TOKEN_REVOKED]: 'UNAUTHENTICATED',
+    [AUTH_ERROR.REFRESH_DISABLED]: 'FORBIDDEN',
+    [AUTH_ERROR.SESSION_NOT_FOUND]: 'NOT_FOUND',
+    [AUTH_ERROR.LOGIN_LOCKED]: 'FORBIDDEN',
+    [AUTH_ERROR.MFA_REQUIRED]: 'UNAUTHENTICATED',
+    [AUTH_ERROR.MFA_CODE_INVALID]: 'UNAUTHENTICATED',
+    [AUTH_ERROR.MFA_CHALLENGE_INVALID]: 'UNAUTHENTICATED',
+    [AUTH_ERROR.MFA_ALREADY_ENABLED]: 'CONFLICT',
+    [AUTH_ERROR.MFA_NOT_ENABLED]: 'BAD_USER_INPUT',
+    [AUTH_ERROR.IMPERSONATION_FORBIDDEN]: 'FORBIDDEN',
+    [AUTH_ERROR.IMPERSONATION_TARGET_INVALID]: 'BAD_USER_INPUT',
+    [AUTH_ERROR.NOT_IMPERSONATING]: 'BAD_USER_INPUT',
 
     // JWT 相关错误
     [JWT_ERROR.TOKEN_EXPIRED]: 'UNAUTHENTICATED',
@@ -137,6 +152,7 @@ function mapDomainErrorToGqlCode(errorCode: string): string {
     [JWT_ERROR.TOKEN_NOT_BEFORE]: 'UNAUTHENTICATED',
     [JWT_ERROR.TOKEN_VERIFICATION_FAILED]: 'UNAUTHENTICATED',
     [JWT_ERROR.AUTHENTICATION_FAILED]: 'UNAUTHENTICATED',
+    [JWT_ERROR.TOKEN_REVOKED]: 'UNAUTHENTICATED',
     [JWT_ERROR.TOKEN_GENERATION_FAILED]: 'INTERNAL_SERVER_ERROR',
     [JWT_ERROR.ACCESS_TOKEN_GENERATION_FAILED]: 'INTERNAL_SERVER_ERROR',
     [JWT_ERROR.REFRESH_TOKEN_GENERATION_FAILED]: 'INTERNAL_SERVER_ERROR',
@@ -149,7 +165,16 @@ function mapDomainErrorToGqlCode(errorCode: string): string {
     // 账户相关错误
     [ACCOUNT_ERROR.NICKNAME_TAKEN]: 'CONFLICT',
     [ACCOUNT_ERROR.EMAIL_TAKEN]: 'CONFLICT',
+    [ACCOUNT_ERROR.PHONE_TAKEN]: 'CONFLICT',
     [ACCOUNT_ERROR.USER_INFO_NOT_FOUND]: 'NOT_FOUND',
+    [ACCOUNT_ERROR.PASSWORD_REUSED]: 'BAD_USER_INPUT',
+    [ACCOUNT_ERROR.DELETION_NOT_ALLOWED]: 'CONFLICT',
+    [ACCOUNT_ERROR.DATA_EXPORT_NOT_FOUND]: 'NOT_FOUND',
+    [ACCOUNT_ERROR.MERGE_CONFLICT]: 'CONFLICT',
+
+    // 文件存储相关错误
+    [STORAGE_ERROR.FILE_NOT_FOUND]: 'NOT_FOUND',
+    [STORAGE_ERROR.FILE_NOT_READY]: 'CONFLICT',
 
     // 第三方认证相关错误（与登录错误类别保持一致）
     [THIRDPARTY_ERROR.CREDENTIAL_INVALID]: 'UNAUTHENTICATED',
@@ -167,6 +192,7 @@ function mapDomainErrorToGqlCode(errorCode: string): string {
     [THIRDPARTY_ERROR.USER_NOT_FOUND]: 'NOT_FOUND',
     [THIRDPARTY_ERROR.PROVIDER_API_ERROR]: 'INTERNAL_SERVER_ERROR',
     [THIRDPARTY_ERROR.UNKNOWN_ERROR]: 'INTERNAL_SERVER_ERROR',
+    [THIRDPARTY_ERROR.IDENTITY_NOT_ALLOWED]: 'FORBIDDEN',
 
     // 分页相关错误
     [PAGINATION_ERROR.INVALID_PAGE_SIZE]: 'BAD_USER_INPUT',
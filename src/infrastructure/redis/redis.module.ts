@@ -58,6 +58,11 @@ class RedisLifecycleService implements OnModuleDestroy {
     if (this.client.status === 'end') {
       return;
     }
+    // 未就绪时 quit 会进入离线队列等待连接，直接断开即可
+    if (this.client.status !== 'ready') {
+      this.client.disconnect();
+      return;
+    }
     try {
       await this.client.quit();
     } catch {
@@ -0,0 +1,139 @@
+// src/infrastructure/sms/providers/aliyun/aliyun-sms.gateway.spec.ts
+import { THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
+import { HttpService } from '@nestjs/axios';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AliyunSmsGateway, signAliyunRpcParams } from './aliyun-sms.gateway';
+
+const createJsonServer = (
+  handler: (req: IncomingMessage, res: ServerResponse) => void,
+): Promise<{ server: Server; baseUrl: string }> => {
+  const server = createServer(handler);
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        server,
+        baseUrl: `http://127.0.0.1:${address.port}`,
+      });
+    });
+  });
+};
+
+const closeServer = (server: Server): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    server.close((error) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve();
+    });
+  });
+};
+
+describe('AliyunSmsGateway', () => {
+  const buildGateway = (input: {
+    endpoint: string;
+    templateCodes?: Record<string, string>;
+  }): AliyunSmsGateway => {
+    const values = new Map<string, unknown>([
+      ['sms.aliyun.endpoint', input.endpoint],
+      ['sms.aliyun.accessKeyId', 'test-key-id'],
+      ['sms.aliyun.accessKeySecret', 'test-key-secret'],
+      ['sms.aliyun.signName', '测试签名'],
+      ['sms.aliyun.templateCodes', input.templateCodes ?? { verification_code: 'SMS_000001' }],
+    ]);
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: unknown) => values.get(key) ?? defaultValue),
+    } as unknown as ConfigService;
+    return new AliyunSmsGateway(new HttpService(axios.create()), configService);
+  };
+
+  it('签名与官方示例一致', () => {
+    /* eslint-disable @typescript-eslint/naming-convention */
+    const { signature } = signAliyunRpcParams({
+      method: 'GET',
+      accessKeySecret: 'testSecret',
+      params: {
+        AccessKeyId: 'testId',
+        Action: 'SendSms',
+        Format: 'XML',
+        OutId: '123',
+        PhoneNumbers: '15300000001',
+        RegionId: 'cn-hangzhou',
+        SignName: '阿里云短信测试专用',
+        SignatureMethod: 'HMAC-SHA1',
+        SignatureNonce: '45e25e9b-0a6f-4070-8c85-2956eda1b466',
+        SignatureVersion: '1.0',
+        TemplateCode: 'SMS_71390007',
+        TemplateParam: '{"customer":"test"}',
+        Timestamp: '2017-07-12T02:42:19Z',
+        Version: '2017-05-25',
+      },
+    });
+    /* eslint-enable @typescript-eslint/naming-convention */
+    expect(signature).toBe('zJDF+Lrzhj/ThnlvIToysFRq6t4=');
+  });
+
+  it('发送成功时返回 BizId 并按模板映射传参', async () => {
+    let query: URLSearchParams | undefined;
+    const { server, baseUrl } = await createJsonServer((req, res) => {
+      query = new URL(req.url ?? '/', 'http://localhost').searchParams;
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/json');
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      res.end(JSON.stringify({ Code: 'OK', BizId: 'biz-1', RequestId: 'req-1' }));
+    });
+
+    try {
+      const gateway = buildGateway({ endpoint: baseUrl });
+      const result = await gateway.send({
+        phone: '13800000000',
+        templateId: 'verification_code',
+        params: { code: '123456' },
+      });
+
+      expect(result).toEqual({ accepted: true, provider: 'aliyun', providerMessageId: 'biz-1' });
+      expect(query?.get('TemplateCode')).toBe('SMS_000001');
+      expect(query?.get('PhoneNumbers')).toBe('13800000000');
+      expect(query?.get('TemplateParam')).toBe('{"code":"123456"}');
+      expect(query?.get('Signature')).toBeTruthy();
+    } finally {
+      await closeServer(server);
+    }
+  });
+
+  it('服务商返回非 OK 时映射为 sms_provider_rejected', async () => {
+    const { server, baseUrl } = await createJsonServer((_req, res) => {
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/json');
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      res.end(JSON.stringify({ Code: 'isv.BUSINESS_LIMIT_CONTROL', Message: '触发流控' }));
+    });
+
+    try {
+      const gateway = buildGateway({ endpoint: baseUrl });
+      await expect(
+        gateway.send({ phone: '13800000000', templateId: 'verification_code', params: {} }),
+      ).rejects.toMatchObject({
+        code: THIRDPARTY_ERROR.PROVIDER_API_ERROR,
+        message: 'sms_provider_rejected',
+      });
+    } finally {
+      await closeServer(server);
+    }
+  });
+
+  it('未配置模板映射时不发起请求', async () => {
+    const gateway = buildGateway({ endpoint: 'http://127.0.0.1:9', templateCodes: {} });
+    await expect(
+      gateway.send({ phone: '13800000000', templateId: 'verification_code', params: {} }),
+    ).rejects.toMatchObject({
+      code: THIRDPARTY_ERROR.PROVIDER_CONFIG_MISSING,
+      message: 'sms_template_not_mapped',
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { DomainError, THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
+import type { SendSmsInput, SendSmsResult, SmsGateway } from '@core/sms/sms-gateway.interface';
+import { HttpService } from '@nestjs/axios';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { createHmac, randomUUID } from 'node:crypto';
+
+/* eslint-disable @typescript-eslint/naming-convention */
+interface AliyunSendSmsResponse {
+  readonly Code?: string;
+  readonly Message?: string;
+  readonly BizId?: string;
+  readonly RequestId?: string;
+}
+/* eslint-enable @typescript-eslint/naming-convention */
+
+/**
+ * 阿里云 RPC 风格的百分号编码（RFC 3986，空格编码为 %20）
+ */
+const percentEncode = (value: string): string =>
+  encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+/**
+ * 计算阿里云 RPC 接口签名（SignatureVersion 1.0 / HMAC-SHA1）
+ * @param input.method HTTP 方法
+ * @param input.params 除 Signature 外的全部请求参数
+ * @param input.accessKeySecret AccessKey Secret
+ * @returns 排序后的规范化查询串与 Base64 签名
+ */
+export function signAliyunRpcParams(input: {
+  readonly method: 'GET' | 'POST';
+  readonly params: Readonly<Record<string, string>>;
+  readonly accessKeySecret: string;
+}): { readonly canonicalQuery: string; readonly signature: string } {
+  const canonicalQuery = Object.keys(input.params)
+    .sort()
+    .map((key) => `${percentEncode(key)}=${percentEncode(input.params[key])}`)
+    .join('&');
+  const stringToSign = `${input.method}&${percentEncode('/')}&${percentEncode(canonicalQuery)}`;
+  const signature = createHmac('sha1', `${input.accessKeySecret}&`)
+    .update(stringToSign)
+    .digest('base64');
+  return { canonicalQuery, signature };
+}
+
+@Injectable()
+export class AliyunSmsGateway implements SmsGateway {
+  readonly name = 'aliyun';
+
+  constructor(
+    private readonly httpService: HttpService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async send(input: SendSmsInput): Promise<SendSmsResult> {
+    const endpoint = this.resolveEndpoint();
+    const accessKeyId = this.resolveRequired('sms.aliyun.accessKeyId');
+    const accessKeySecret = this.resolveRequired('sms.aliyun.accessKeySecret');
+    const signName = this.resolveRequired('sms.aliyun.signName');
+    const templateCode = this.resolveTemplateCode(input.templateId);
+
+    /* eslint-disable @typescript-eslint/naming-convention */
+    const params: Record<string, string> = {
+      AccessKeyId: accessKeyId,
+      Action: 'SendSms',
+      Format: 'JSON',
+      PhoneNumbers: input.phone,
+      RegionId: this.configService.get<string>('sms.aliyun.regionId', 'cn-hangzhou'),
+      SignName: signName,
+      SignatureMethod: 'HMAC-SHA1',
+      SignatureNonce: randomUUID(),
+      SignatureVersion: '1.0',
+      TemplateCode: templateCode,
+      TemplateParam: JSON.stringify(input.params),
+      Timestamp: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      Version: '2017-05-25',
+    };
+    /* eslint-enable @typescript-eslint/naming-convention */
+    const { canonicalQuery, signature } = signAliyunRpcParams({
+      method: 'GET',
+      params,
+      accessKeySecret,
+    });
+
+    let data: AliyunSendSmsResponse;
+    try {
+      const response = await this.httpService.axiosRef.get<AliyunSendSmsResponse>(
+        `${endpoint}/?Signature=${percentEncode(signature)}&${canonicalQuery}`,
+        { timeout: this.resolveTimeoutMs() },
+      );
+      data = response.data;
+    } catch (error) {
+      throw this.mapRequestError(error);
+    }
+
+    if (data.Code !== 'OK') {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, 'sms_provider_rejected', {
+        provider: this.name,
+        providerErrorCode: data.Code,
+        message: data.Message,
+        requestId: data.RequestId,
+      });
+    }
+
+    return {
+      accepted: true,
+      provider: this.name,
+      providerMessageId: data.BizId?.trim() || data.RequestId?.trim() || randomUUID(),
+    };
+  }
+
+  private resolveEndpoint(): string {
+    const endpoint = this.configService.get<string>(
+      'sms.aliyun.endpoint',
+      'https://dysmsapi.aliyuncs.com',
+    );
+    return endpoint.trim().replace(/\/+$/, '');
+  }
+
+  private resolveRequired(key: string): string {
+    const value = this.configService.get<string>(key, '').trim();
+    if (!value) {
+      throw new DomainError(
+        THIRDPARTY_ERROR.PROVIDER_CONFIG_MISSING,
+        'sms_provider_config_missing',
+        {
+          provider: this.name,
+          key,
+        },
+      );
+    }
+    return value;
+  }
+
+  private resolveTemplateCode(templateId: string): string {
+    const templateCodes = this.configService.get<Record<string, string>>(
+      'sms.aliyun.templateCodes',
+      {},
+    );
+    const templateCode = templateCodes[templateId]?.trim();
+    if (!templateCode) {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_CONFIG_MISSING, 'sms_template_not_mapped', {
+        provider: this.name,
+        templateId,
+      });
+    }
+    return templateCode;
+  }
+
+  private resolveTimeoutMs(): number {
+    const timeoutMs = this.configService.get<number>('sms.aliyun.timeoutMs', 10000);
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+      return 10000;
+    }
+    return timeoutMs;
+  }
+
+  private mapRequestError(error: unknown): DomainError {
+    if (axios.isAxiosError(error)) {
+      if (error.code === 'ECONNABORTED') {
+        return new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, 'sms_provider_timeout', {
+          provider: this.name,
+        });
+      }
+      const body = error.response?.data as AliyunSendSmsResponse | undefined;
+      return new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, 'sms_provider_request_failed', {
+        provider: this.name,
+        status: error.response?.status,
+        providerErrorCode: body?.Code,
+      });
+    }
+    return new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, 'sms_provider_unknown_error', {
+      provider: this.name,
+      cause: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,54 @@
+import type { SendSmsInput, SendSmsResult, SmsGateway } from '@core/sms/sms-gateway.interface';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PinoLogger } from 'nestjs-pino';
+import { randomUUID } from 'node:crypto';
+import { appendFile } from 'node:fs/promises';
+
+/**
+ * 本地短信桩：不发起真实发送，仅写日志
+ * 配置 SMS_LOCAL_OUTBOX_FILE 时额外以 JSON Lines 追加到文件，便于联调与测试读取
+ */
+@Injectable()
+export class LocalStubSmsGateway implements SmsGateway {
+  readonly name = 'local';
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(LocalStubSmsGateway.name);
+  }
+
+  async send(input: SendSmsInput): Promise<SendSmsResult> {
+    const providerMessageId = `${this.name}-${randomUUID()}`;
+    this.logger.info(
+      {
+        phone: input.phone,
+        templateId: input.templateId,
+        params: input.params,
+        providerMessageId,
+      },
+      'SMS captured by local stub',
+    );
+
+    const outboxFile = this.configService.get<string>('sms.local.outboxFile', '').trim();
+    if (outboxFile) {
+      const line = JSON.stringify({
+        providerMessageId,
+        phone: input.phone,
+        templateId: input.templateId,
+        params: input.params,
+        meta: input.meta,
+        sentAt: new Date().toISOString(),
+      });
+      await appendFile(outboxFile, `${line}\n`, 'utf8');
+    }
+
+    return {
+      accepted: true,
+      provider: this.name,
+      providerMessageId,
+    };
+  }
+}
@@ -0,0 +1,11 @@
+import { HttpModule } from '@nestjs/axios';
+import { Module } from '@nestjs/common';
+import { AliyunSmsGateway } from './providers/aliyun/aliyun-sms.gateway';
+import { LocalStubSmsGateway } from './providers/local/local-stub-sms.gateway';
+
+@Module({
+  imports: [HttpModule],
+  providers: [LocalStubSmsGateway, AliyunSmsGateway],
+  exports: [LocalStubSmsGateway, AliyunSmsGateway],
+})
+export class SmsInfrastructureModule {}
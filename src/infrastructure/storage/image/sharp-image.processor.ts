@@ -0,0 +1,48 @@
+import type {
+  ImageProbeResult,
+  ImageProcessor,
+  ImageThumbnail,
+} from '@core/storage/image-processor.interface';
+import { STORED_FILE_THUMBNAIL_CONTENT_TYPE } from '@app-types/models/stored-file.types';
+import { Injectable } from '@nestjs/common';
+import sharp from 'sharp';
+
+/** sharp 识别的格式到 Content-Type 的映射（未列出的格式视为不支持） */
+const FORMAT_CONTENT_TYPES: Readonly<Record<string, string>> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+/** 单张图片最大像素数，防止解压炸弹 */
+const MAX_INPUT_PIXELS = 40_000_000;
+
+/**
+ * 基于 sharp（libvips）的图片处理：按文件内容识别格式并生成缩略图
+ */
+@Injectable()
+export class SharpImageProcessor implements ImageProcessor {
+  async probe(body: Buffer): Promise<ImageProbeResult | null> {
+    try {
+      const metadata = await sharp(body, { limitInputPixels: MAX_INPUT_PIXELS }).metadata();
+      const contentType = metadata.format ? FORMAT_CONTENT_TYPES[metadata.format] : undefined;
+      if (!contentType || !metadata.width || !metadata.height) {
+        return null;
+      }
+      return { contentType, width: metadata.width, height: metadata.height };
+    } catch {
+      return null;
+    }
+  }
+
+  async createThumbnail(input: { body: Buffer; size: number }): Promise<ImageThumbnail> {
+    const body = await sharp(input.body, { limitInputPixels: MAX_INPUT_PIXELS })
+      // 按 EXIF 方向旋转后再裁剪，输出不保留元数据
+      .rotate()
+      .resize(input.size, input.size, { fit: 'cover', position: 'centre' })
+      .webp({ quality: 80 })
+      .toBuffer();
+    return { body, contentType: STORED_FILE_THUMBNAIL_CONTENT_TYPE };
+  }
+}
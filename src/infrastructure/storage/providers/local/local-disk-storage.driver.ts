@@ -0,0 +1,57 @@
+import type { PutObjectInput, StorageDriver } from '@core/storage/storage-driver.interface';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { dirname, resolve, sep } from 'node:path';
+
+/**
+ * 本地磁盘存储驱动：对象按存储键保存在 STORAGE_LOCAL_ROOT_DIR 下
+ * 先写临时文件再重命名，避免读到写了一半的文件；多实例部署需挂载共享目录
+ */
+@Injectable()
+export class LocalDiskStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async putObject(input: PutObjectInput): Promise<void> {
+    const path = this.resolvePath(input.key);
+    await mkdir(dirname(path), { recursive: true });
+    const tmpPath = `${path}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(tmpPath, input.body);
+      await rename(tmpPath, path);
+    } catch (error) {
+      await rm(tmpPath, { force: true });
+      throw error;
+    }
+  }
+
+  async getObject(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await rm(this.resolvePath(key), { force: true });
+  }
+
+  /**
+   * 存储键只允许落在根目录内
+   */
+  private resolvePath(key: string): string {
+    const rootDir = resolve(this.configService.get<string>('storage.local.rootDir', './storage'));
+    const path = resolve(rootDir, key);
+    if (!path.startsWith(`${rootDir}${sep}`)) {
+      throw new Error(`invalid_storage_key:${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { SharpImageProcessor } from './image/sharp-image.processor';
+import { LocalDiskStorageDriver } from './providers/local/local-disk-storage.driver';
+
+@Module({
+  providers: [LocalDiskStorageDriver, SharpImageProcessor],
+  exports: [LocalDiskStorageDriver, SharpImageProcessor],
+})
+export class StorageInfrastructureModule {}
@@ -0,0 +1,102 @@
+// src/modules/account-data-export/account-data-export.entity.ts
+
+import { AccountDataExportStatus } from '@app-types/models/account-lifecycle.types';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * 个人数据导出实体
+ * 对应数据库表：base_account_data_exports
+ * 归档由 Worker 生成后写入，下载令牌只保存指纹；过期或账户注销后归档被清空
+ */
+@Entity('base_account_data_exports')
+@Index('uk_token_fp', ['tokenFp'], { unique: true })
+@Index('idx_account_created', ['accountId', 'createdAt'])
+@Index('idx_status_expires', ['status', 'expiresAt'])
+export class AccountDataExportEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({ name: 'account_id', type: 'int', comment: '导出数据所属账户 ID' })
+  accountId!: number;
+
+  @Column({
+    type: 'varchar',
+    length: 16,
+    default: AccountDataExportStatus.PENDING,
+    comment: 'PENDING / READY / FAILED / EXPIRED',
+  })
+  status!: AccountDataExportStatus;
+
+  @Column({
+    name: 'token_fp',
+    type: 'binary',
+    length: 32,
+    nullable: true,
+    comment: '下载令牌指纹（SHA-256），生成完成后写入',
+  })
+  tokenFp!: Buffer | null;
+
+  @Column({
+    type: 'longtext',
+    nullable: true,
+    select: false,
+    comment: '导出归档（JSON），过期或账户注销后清空',
+  })
+  archive!: string | null;
+
+  @Column({ name: 'size_bytes', type: 'int', nullable: true, comment: '归档字节数' })
+  sizeBytes!: number | null;
+
+  @Column({
+    name: 'failure_reason',
+    type: 'varchar',
+    length: 128,
+    nullable: true,
+    comment: '生成失败原因',
+  })
+  failureReason!: string | null;
+
+  @Column({
+    name: 'expires_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '下载链接过期时间',
+  })
+  expiresAt!: Date | null;
+
+  @Column({
+    name: 'completed_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '生成完成时间',
+  })
+  completedAt!: Date | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间',
+  })
+  createdAt!: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    onUpdate: 'CURRENT_TIMESTAMP(3)',
+    comment: '更新时间',
+  })
+  updatedAt!: Date;
+}
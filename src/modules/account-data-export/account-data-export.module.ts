@@ -0,0 +1,17 @@
+// src/modules/account-data-export/account-data-export.module.ts
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AccountDataExportEntity } from './account-data-export.entity';
+import { AccountDataExportService } from './account-data-export.service';
+
+/**
+ * 个人数据导出模块
+ * 提供导出记录的创建、状态流转与按下载令牌读取归档
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([AccountDataExportEntity])],
+  providers: [AccountDataExportService],
+  exports: [TypeOrmModule, AccountDataExportService],
+})
+export class AccountDataExportModule {}
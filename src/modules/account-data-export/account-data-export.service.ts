@@ -0,0 +1,176 @@
+// src/modules/account-data-export/account-data-export.service.ts
+
+import {
+  AccountDataExportStatus,
+  AccountDataExportView,
+} from '@app-types/models/account-lifecycle.types';
+import { TokenFingerprintHelper } from '@modules/common/security/token-fingerprint.helper';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { EntityManager, LessThanOrEqual, Repository } from 'typeorm';
+import { AccountDataExportEntity } from './account-data-export.entity';
+
+/** 下载令牌字节数（base64url 编码后 43 个字符） */
+const DOWNLOAD_TOKEN_BYTES = 32;
+
+/** 失败原因最大长度 */
+const FAILURE_REASON_MAX_LENGTH = 128;
+
+/**
+ * 个人数据导出服务
+ * 状态流转：PENDING → READY（写入归档与下载令牌指纹）/ FAILED；READY 过期后转为 EXPIRED 并清空归档
+ */
+@Injectable()
+export class AccountDataExportService {
+  constructor(
+    @InjectRepository(AccountDataExportEntity)
+    private readonly exportRepository: Repository<AccountDataExportEntity>,
+  ) {}
+
+  /** 创建待生成的导出记录 */
+  async createPending(params: {
+    accountId: number;
+    manager?: EntityManager;
+  }): Promise<AccountDataExportView> {
+    const repository = this.getRepository(params.manager);
+    const saved = await repository.save(
+      repository.create({
+        accountId: params.accountId,
+        status: AccountDataExportStatus.PENDING,
+      }),
+    );
+    return this.toView(saved);
+  }
+
+  /** 按 ID 查询导出记录（不含归档） */
+  async findById(id: number): Promise<AccountDataExportView | null> {
+    const record = await this.exportRepository.findOne({ where: { id } });
+    return record ? this.toView(record) : null;
+  }
+
+  /** 查询账户最近一次导出记录 */
+  async findLatestByAccountId(accountId: number): Promise<AccountDataExportView | null> {
+    const record = await this.exportRepository.findOne({
+      where: { accountId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+    });
+    return record ? this.toView(record) : null;
+  }
+
+  /**
+   * 写入归档并签发下载令牌
+   * 仅 PENDING 记录可写入，避免重复执行覆盖已下发的令牌
+   * @returns 明文下载令牌（仅用于投递邮件，不落库）；记录已不是 PENDING 时返回 null
+   */
+  async markReady(params: {
+    id: number;
+    archive: string;
+    expiresAt: Date;
+  }): Promise<{ token: string } | null> {
+    const token = randomBytes(DOWNLOAD_TOKEN_BYTES).toString('base64url');
+    const now = new Date();
+    const result = await this.exportRepository.update(
+      { id: params.id, status: AccountDataExportStatus.PENDING },
+      {
+        status: AccountDataExportStatus.READY,
+        tokenFp: TokenFingerprintHelper.generateTokenFingerprint({ token }),
+        archive: params.archive,
+        sizeBytes: Buffer.byteLength(params.archive, 'utf8'),
+        failureReason: null,
+        expiresAt: params.expiresAt,
+        completedAt: now,
+        updatedAt: now,
+      },
+    );
+    return (result.affected ?? 0) > 0 ? { token } : null;
+  }
+
+  /** 标记生成失败（仅 PENDING 记录） */
+  async markFailed(params: { id: number; reason: string }): Promise<boolean> {
+    const now = new Date();
+    const result = await this.exportRepository.update(
+      { id: params.id, status: AccountDataExportStatus.PENDING },
+      {
+        status: AccountDataExportStatus.FAILED,
+        failureReason: params.reason.slice(0, FAILURE_REASON_MAX_LENGTH),
+        completedAt: now,
+        updatedAt: now,
+      },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * 按下载令牌读取导出记录与归档
+   * @returns 令牌不存在时返回 null；归档已清空（过期）时 archive 为 null
+   */
+  async findArchiveByToken(
+    token: string,
+  ): Promise<{ record: AccountDataExportView; archive: string | null } | null> {
+    const record = await this.exportRepository
+      .createQueryBuilder('export')
+      .addSelect('export.archive')
+      .where('export.tokenFp = :tokenFp', {
+        tokenFp: TokenFingerprintHelper.generateTokenFingerprint({ token }),
+      })
+      .getOne();
+    if (!record) {
+      return null;
+    }
+    return { record: this.toView(record), archive: record.archive };
+  }
+
+  /**
+   * 将已过期的 READY 记录标记为 EXPIRED 并清空归档
+   * @returns 本批处理的记录数
+   */
+  async expireOverdue(params: { before: Date; limit: number }): Promise<number> {
+    const rows = await this.exportRepository.find({
+      select: ['id'],
+      where: {
+        status: AccountDataExportStatus.READY,
+        expiresAt: LessThanOrEqual(params.before),
+      },
+      take: params.limit,
+    });
+    if (rows.length === 0) {
+      return 0;
+    }
+    const result = await this.exportRepository
+      .createQueryBuilder()
+      .update(AccountDataExportEntity)
+      .set({ status: AccountDataExportStatus.EXPIRED, archive: null, tokenFp: null })
+      .whereInIds(rows.map((row) => row.id))
+      .andWhere('status = :status', { status: AccountDataExportStatus.READY })
+      .execute();
+    return result.affected ?? 0;
+  }
+
+  /** 删除账户的全部导出记录（账户注销时调用） */
+  async removeAllByAccountId(params: {
+    accountId: number;
+    manager?: EntityManager;
+  }): Promise<number> {
+    const result = await this.getRepository(params.manager).delete({
+      accountId: params.accountId,
+    });
+    return result.affected ?? 0;
+  }
+
+  private getRepository(manager?: EntityManager): Repository<AccountDataExportEntity> {
+    return manager ? manager.getRepository(AccountDataExportEntity) : this.exportRepository;
+  }
+
+  private toView(record: AccountDataExportEntity): AccountDataExportView {
+    return {
+      id: record.id,
+      accountId: record.accountId,
+      status: record.status,
+      sizeBytes: record.sizeBytes,
+      expiresAt: record.expiresAt,
+      completedAt: record.completedAt,
+      createdAt: record.createdAt,
+    };
+  }
+}
@@ -11,10 +11,14 @@
 import { DynamicModule, Module, Provider, Type } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { FieldEncryptionModule } from '@src/infrastructure/field-encryption/field-encryption.module';
+import { SearchModule } from '@src/modules/common/search.module';
 
 import { AccountEntity } from './base/entities/account.entity';
+import { PasswordHistoryEntity } from './base/entities/password-history.entity';
+import { ThirdPartyAuthEntity } from './base/entities/third-party-auth.entity';
 import { UserInfoEntity } from './base/entities/user-info.entity';
 import { AccountService } from './base/services/account.service';
+import { AccountDirectoryQueryService } from './queries/account-directory.query.service';
 import { AccountQueryService } from './queries/account.query.service';
 import { CoachQueryService } from './queries/coach.query.service';
 import { CustomerQueryService } from './queries/customer.query.service';
@@ -28,6 +32,7 @@ import {
 
 // 身份包模块
 import { AccountSecurityService } from './base/services/account-security.service';
+import { PasswordHistoryService } from './base/services/password-history.service';
 import { StaffIdentityModule, StudentIdentityModule } from './identities/school';
 import {
   CoachIdentityModule,
@@ -124,29 +129,39 @@ export class AccountModule {
     return {
       module: AccountModule,
       imports: [
-        TypeOrmModule.forFeature([AccountEntity, UserInfoEntity]), // base 实体
+        TypeOrmModule.forFeature([
+          AccountEntity,
+          UserInfoEntity,
+          PasswordHistoryEntity,
+          ThirdPartyAuthEntity,
+        ]), // base 实体
         FieldEncryptionModule,
+        SearchModule,
         ...identityModules, // 启用的身份模块
       ],
       providers: [
         AccountService,
         AccountQueryService,
+        AccountDirectoryQueryService,
         CoachQueryService,
         CustomerQueryService,
         LearnerQueryService,
         ManagerQueryService,
         AccountSecurityService,
+        PasswordHistoryService,
         providerMapFactory, // 聚合 Map
       ],
       exports: [
         TypeOrmModule,
         AccountService,
         AccountQueryService,
+        AccountDirectoryQueryService,
         CoachQueryService,
         CustomerQueryService,
         LearnerQueryService,
         ManagerQueryService,
         AccountSecurityService,
+        PasswordHistoryService,
         PROFILE_PROVIDER_MAP_TOKEN, // 对外只暴露聚合后的 Map
       ],
     };
@@ -15,6 +15,10 @@ import { UserInfoEntity } from './user-info.entity';
 @Entity('base_user_accounts')
 @Index('uk_login_name', ['loginName'], { unique: true })
 @Index('uk_login_email', ['loginEmail'], { unique: true })
+@Index('idx_status_created', ['status', 'createdAt'])
+@Index('idx_last_login_at', ['lastLoginAt'])
+@Index('idx_deletion_scheduled_at', ['deletionScheduledAt'])
+@Index('idx_merged_into_account_id', ['mergedIntoAccountId'])
 export class AccountEntity {
   @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
   id!: number;
@@ -49,9 +53,70 @@ export class AccountEntity {
   })
   status!: AccountStatus;
 
+  @Column({
+    name: 'status_reason',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: '最近一次管理端变更状态的原因',
+  })
+  statusReason!: string | null;
+
+  @Column({
+    name: 'status_changed_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '最近一次管理端变更状态的时间',
+  })
+  statusChangedAt!: Date | null;
+
+  @Column({
+    name: 'deletion_requested_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '用户申请注销的时间（NULL=未申请）',
+  })
+  deletionRequestedAt!: Date | null;
+
+  @Column({
+    name: 'deletion_scheduled_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '计划执行注销（匿名化）的时间，冷静期内可撤销',
+  })
+  deletionScheduledAt!: Date | null;
+
+  @Column({
+    name: 'merged_into_account_id',
+    type: 'int',
+    nullable: true,
+    comment: '被合并后指向的目标账户 ID（NULL=未合并）',
+  })
+  mergedIntoAccountId!: number | null;
+
   @Column({ name: 'recent_login_history', type: 'json', nullable: true, comment: '最近5次登录IP' })
   recentLoginHistory!: LoginHistoryItemModel[] | null;
 
+  @Column({
+    name: 'last_login_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '最近登录时间（NULL=从未登录）',
+  })
+  lastLoginAt!: Date | null;
+
+  @Column({
+    name: 'token_version',
+    type: 'int',
+    default: 1,
+    comment: 'Refresh Token 版本号，递增即作废全部已签发的 refresh token',
+  })
+  tokenVersion!: number;
+
   @Column({
     name: 'identity_hint',
     type: 'varchar',
@@ -0,0 +1,29 @@
+// src/modules/account/base/entities/password-history.entity.ts
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 密码历史实体
+ * 对应数据库表：base_user_password_history
+ * 修改密码时记录被替换的旧密码哈希，用于拒绝复用最近使用过的密码
+ */
+@Entity('base_user_password_history')
+@Index('idx_account_created', ['accountId', 'createdAt'])
+export class PasswordHistoryEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({ name: 'account_id', type: 'int', comment: '账户 ID' })
+  accountId!: number;
+
+  @Column({ name: 'password_hash', type: 'varchar', length: 255, comment: '历史密码哈希' })
+  passwordHash!: string;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间（系统事件时间）',
+  })
+  createdAt!: Date;
+}
@@ -5,6 +5,7 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   JoinColumn,
   ManyToOne,
   PrimaryGeneratedColumn,
@@ -19,6 +20,7 @@ import { AccountEntity } from './account.entity';
 @Entity('base_third_party_auth')
 @Unique('base_third_party_auth_provider_IDX', ['provider', 'providerUserId'])
 @Unique('base_third_party_auth_account_id_IDX', ['accountId', 'provider'])
+@Index('idx_union_id', ['unionId'])
 export class ThirdPartyAuthEntity {
   @PrimaryGeneratedColumn({ type: 'int', comment: '主键' })
   id!: number;
@@ -9,6 +9,7 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   JoinColumn,
   OneToOne,
   PrimaryGeneratedColumn,
@@ -17,6 +18,7 @@ import {
 import { AccountEntity } from './account.entity';
 
 @Entity('base_user_info')
+@Index('idx_phone', ['phone'])
 export class UserInfoEntity {
   @Field(() => ID)
   @PrimaryGeneratedColumn({ type: 'int', comment: '主键' })
@@ -49,6 +51,15 @@ export class UserInfoEntity {
   @Column({ type: 'varchar', length: 50, nullable: true, comment: '邮箱' })
   email!: string | null;
 
+  @Column({
+    name: 'email_verified_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '邮箱验证时间（NULL=未验证，修改邮箱后重置）',
+  })
+  emailVerifiedAt!: Date | null;
+
   @Column({ type: 'varchar', length: 100, nullable: true, comment: '个性签名' })
   signature!: string | null;
 
@@ -61,6 +72,15 @@ export class UserInfoEntity {
   @Column({ type: 'varchar', length: 20, nullable: true, comment: '电话' })
   phone!: string | null;
 
+  @Column({
+    name: 'phone_verified_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '手机号验证时间（NULL=未验证，修改手机号后重置）',
+  })
+  phoneVerifiedAt!: Date | null;
+
   @Column({ type: 'json', nullable: true, comment: '标签' })
   tags!: string[] | null;
 
@@ -1,6 +1,9 @@
 // src/modules/account/base/interfaces/account-profile-provider.interface.ts
 // src/modules/account/interfaces/account-profile-provider.interface.ts
 
+import type { ProfileTransferResult } from '@app-types/models/account-merge.types';
+import type { EntityManager } from 'typeorm';
+
 /**
  * Account Profile Provider 接口
  * 用于定义不同身份类型的 profile 数据获取规范
@@ -29,4 +32,30 @@ export interface AccountProfileProvider<T = unknown> {
    * @returns boolean 是否有效
    */
   validateProfile?(profile: T): boolean;
+
+  /**
+   * 匿名化账户的 profile 数据（可选实现，账户注销时调用）
+   * 清除姓名、联系方式等个人信息并下线档案，保留行本身供业务数据引用
+   * @param params 账户 ID 与事务管理器
+   * @returns Promise<boolean> 是否存在并处理了 profile
+   */
+  anonymize?(params: { accountId: number; manager: EntityManager }): Promise<boolean>;
+
+  /**
+   * 将源账户的 profile 迁移到目标账户（可选实现，账户合并时调用）
+   * dryRun 为 true 时只检查冲突与影响行数，不写入
+   * @param params 源/目标账户 ID、事务管理器与是否仅预检
+   * @returns Promise<ProfileTransferResult> 迁移行数与冲突说明
+   */
+  transferTo?(params: AccountProfileTransferParams): Promise<ProfileTransferResult>;
+}
+
+/**
+ * 账户合并时迁移 profile 的参数
+ */
+export interface AccountProfileTransferParams {
+  sourceAccountId: number;
+  targetAccountId: number;
+  manager: EntityManager;
+  dryRun: boolean;
 }
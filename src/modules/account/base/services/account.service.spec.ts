@@ -155,86 +155,90 @@ describe('AccountService - 密码预处理功能', () => {
       hashedPassword = AccountService.hashPasswordWithTimestamp(normalPassword, testDate);
     });
 
-    it('应该成功验证正确的密码', () => {
-      const result = AccountService.verifyPassword(normalPassword, hashedPassword, testDate);
+    it('应该成功验证正确的密码', async () => {
+      const result = await AccountService.verifyPassword(normalPassword, hashedPassword, testDate);
 
       expect(result).toBe(true);
     });
 
-    it('应该拒绝错误的密码', () => {
+    it('应该拒绝错误的密码', async () => {
       const wrongPassword = 'WrongPassword123!';
 
-      const result = AccountService.verifyPassword(wrongPassword, hashedPassword, testDate);
+      const result = await AccountService.verifyPassword(wrongPassword, hashedPassword, testDate);
 
       expect(result).toBe(false);
     });
 
-    it('应该拒绝空密码验证', () => {
-      expect(() => AccountService.verifyPassword('', hashedPassword, testDate)).toThrow(
+    it('应该拒绝空密码验证', async () => {
+      await expect(AccountService.verifyPassword('', hashedPassword, testDate)).rejects.toThrow(
         DomainError,
       );
-      expect(() => AccountService.verifyPassword('', hashedPassword, testDate)).toThrow(
+      await expect(AccountService.verifyPassword('', hashedPassword, testDate)).rejects.toThrow(
         '密码不能为空或纯空白字符',
       );
     });
 
-    it('应该拒绝纯空白字符密码验证', () => {
-      expect(() => AccountService.verifyPassword('   ', hashedPassword, testDate)).toThrow(
+    it('应该拒绝纯空白字符密码验证', async () => {
+      await expect(AccountService.verifyPassword('   ', hashedPassword, testDate)).rejects.toThrow(
         DomainError,
       );
-      expect(() => AccountService.verifyPassword('   ', hashedPassword, testDate)).toThrow(
+      await expect(AccountService.verifyPassword('   ', hashedPassword, testDate)).rejects.toThrow(
         '密码不能为空或纯空白字符',
       );
     });
 
-    it('应该拒绝包含首尾空格的密码验证', () => {
-      expect(() =>
+    it('应该拒绝包含首尾空格的密码验证', async () => {
+      await expect(
         AccountService.verifyPassword(' MySecurePassword123!', hashedPassword, testDate),
-      ).toThrow(DomainError);
-      expect(() =>
+      ).rejects.toThrow(DomainError);
+      await expect(
         AccountService.verifyPassword(' MySecurePassword123!', hashedPassword, testDate),
-      ).toThrow('密码首尾不能包含空格');
+      ).rejects.toThrow('密码首尾不能包含空格');
 
-      expect(() =>
+      await expect(
         AccountService.verifyPassword('MySecurePassword123! ', hashedPassword, testDate),
-      ).toThrow(DomainError);
-      expect(() =>
+      ).rejects.toThrow(DomainError);
+      await expect(
         AccountService.verifyPassword('MySecurePassword123! ', hashedPassword, testDate),
-      ).toThrow('密码首尾不能包含空格');
+      ).rejects.toThrow('密码首尾不能包含空格');
     });
 
-    it('应该正确验证 NFKC 规范化的密码', () => {
+    it('应该正确验证 NFKC 规范化的密码', async () => {
       const fullWidthPassword = 'ＭｙＳｅｃｕｒｅＰａｓｓｗｏｒｄ１２３！';
 
       // 全角字符应该被规范化为半角字符，能够验证成功
-      const result = AccountService.verifyPassword(fullWidthPassword, hashedPassword, testDate);
+      const result = await AccountService.verifyPassword(
+        fullWidthPassword,
+        hashedPassword,
+        testDate,
+      );
 
       expect(result).toBe(true);
     });
 
-    it('应该拒绝包含特殊 Unicode 空格的密码验证', () => {
+    it('应该拒绝包含特殊 Unicode 空格的密码验证', async () => {
       // 不间断空格 (U+00A0)
-      expect(() =>
+      await expect(
         AccountService.verifyPassword('MySecurePassword123!\u00A0', hashedPassword, testDate),
-      ).toThrow(DomainError);
-      expect(() =>
+      ).rejects.toThrow(DomainError);
+      await expect(
         AccountService.verifyPassword('MySecurePassword123!\u00A0', hashedPassword, testDate),
-      ).toThrow('密码首尾不能包含空格');
+      ).rejects.toThrow('密码首尾不能包含空格');
 
       // 全角空格 (U+3000)
-      expect(() =>
+      await expect(
         AccountService.verifyPassword('\u3000MySecurePassword123!', hashedPassword, testDate),
-      ).toThrow(DomainError);
-      expect(() =>
+      ).rejects.toThrow(DomainError);
+      await expect(
         AccountService.verifyPassword('\u3000MySecurePassword123!', hashedPassword, testDate),
-      ).toThrow('密码首尾不能包含空格');
+      ).rejects.toThrow('密码首尾不能包含空格');
     });
   });
 
   describe('密码哈希和验证的一致性', () => {
     const testDate = new Date('2024-01-01T00:00:00Z');
 
-    it('应该确保哈希和验证使用相同的预处理逻辑', () => {
+    it('应该确保哈希和验证使用相同的预处理逻辑', async () => {
       const testCases = [
         'MySecurePassword123!',
         'ＭｙＳｅｃｕｒｅＰａｓｓｗｏｒｄ１２３！', // 全角字符
@@ -243,15 +247,15 @@ describe('AccountService - 密码预处理功能', () => {
         'MySecure🔒Password123!', // emoji
       ];
 
-      testCases.forEach((password) => {
+      for (const password of testCases) {
         const hashedPassword = AccountService.hashPasswordWithTimestamp(password, testDate);
-        const isValid = AccountService.verifyPassword(password, hashedPassword, testDate);
+        const isValid = await AccountService.verifyPassword(password, hashedPassword, testDate);
 
         expect(isValid).toBe(true);
-      });
+      }
     });
 
-    it('应该确保不同形式的相同密码产生相同结果', () => {
+    it('应该确保不同形式的相同密码产生相同结果', async () => {
       const normalPassword = 'MySecurePassword123!';
       const fullWidthPassword = 'ＭｙＳｅｃｕｒｅＰａｓｓｗｏｒｄ１２３！';
 
@@ -262,10 +266,16 @@ describe('AccountService - 密码预处理功能', () => {
       expect(normalHash).toBe(fullWidthHash);
 
       // 交叉验证应该都成功
-      expect(AccountService.verifyPassword(normalPassword, normalHash, testDate)).toBe(true);
-      expect(AccountService.verifyPassword(fullWidthPassword, normalHash, testDate)).toBe(true);
-      expect(AccountService.verifyPassword(normalPassword, fullWidthHash, testDate)).toBe(true);
-      expect(AccountService.verifyPassword(fullWidthPassword, fullWidthHash, testDate)).toBe(true);
+      expect(await AccountService.verifyPassword(normalPassword, normalHash, testDate)).toBe(true);
+      expect(await AccountService.verifyPassword(fullWidthPassword, normalHash, testDate)).toBe(
+        true,
+      );
+      expect(await AccountService.verifyPassword(normalPassword, fullWidthHash, testDate)).toBe(
+        true,
+      );
+      expect(await AccountService.verifyPassword(fullWidthPassword, fullWidthHash, testDate)).toBe(
+        true,
+      );
     });
   });
 });
@@ -1,5 +1,6 @@
 // src/modules/account/base/services/account.service.ts
 
+import { PasswordHashReportView, PasswordHashScheme } from '@app-types/auth/password.types';
 import {
   AccountStatus,
   AccountWithAccessGroup,
@@ -9,16 +10,20 @@ import {
   ThirdPartyProviderEnum,
   UserAccountView,
 } from '@app-types/models/account.types';
+import { ERASED_ACCOUNT_NICKNAME_PREFIX } from '@app-types/models/account-lifecycle.types';
 import { Gender, type GeographicInfo, UserState } from '@app-types/models/user-info.types';
 import { ACCOUNT_ERROR, AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
 import { normalizeEmail } from '@core/common/normalize/normalize.helper';
 import { LegacyPasswordCryptoHelper } from '@modules/common/password/legacy-password-crypto.helper';
+import { PasswordHashHelper } from '@modules/common/password/password-hash.helper';
 import { Inject, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { EntityManager, Repository } from 'typeorm';
+import { EntityManager, IsNull, LessThanOrEqual, Not, Repository } from 'typeorm';
 
 // ✅ base 层实体（始终存在）
 import { AccountEntity } from '../entities/account.entity';
+import { PasswordHistoryEntity } from '../entities/password-history.entity';
+import { ThirdPartyAuthEntity } from '../entities/third-party-auth.entity';
 import { UserInfoEntity } from '../entities/user-info.entity';
 
 import { AccountSecurityService } from './account-security.service';
@@ -125,7 +130,7 @@ export class AccountService {
   // 登录历史 & 账户/用户信息（原样保留）
   // =========================================================
 
-  /** 记录用户登录历史：保留最近 5 条（新记录 + 旧 4 条） */
+  /** 记录用户登录历史：保留最近 5 条（新记录 + 旧 4 条），并刷新最近登录时间 */
   async recordLoginHistory(
     accountId: number,
     timestamp: string,
@@ -146,6 +151,7 @@ export class AccountService {
 
     await this.accountRepository.update(accountId, {
       recentLoginHistory: updatedHistory,
+      lastLoginAt: new Date(timestamp),
       updatedAt: new Date(),
     });
   }
@@ -194,6 +200,22 @@ export class AccountService {
     return await this.userInfoRepository.findOne({ where: { nickname } });
   }
 
+  /**
+   * 根据已验证的手机号查找用户信息
+   * 未验证的手机号只是资料字段，不作为登录凭证
+   */
+  async findUserInfoByVerifiedPhone(
+    phone: string,
+    manager?: EntityManager,
+  ): Promise<UserInfoEntity | null> {
+    const repository = manager ? manager.getRepository(UserInfoEntity) : this.userInfoRepository;
+    return await repository.findOne({
+      where: { phone, phoneVerifiedAt: Not(IsNull()) },
+      relations: ['account'],
+      order: { phoneVerifiedAt: 'ASC' },
+    });
+  }
+
   /** 创建账户实体（不落库） */
   createAccountEntity(params: {
     accountData: AccountCreateData;
@@ -294,16 +316,241 @@ export class AccountService {
     return { isUpdated: true };
   }
 
+  /**
+   * 标记用户信息中的邮箱已验证
+   * 仅当当前邮箱与验证时的邮箱一致时生效，避免验证期间改过邮箱被误标记
+   */
+  async markEmailVerified(params: {
+    accountId: number;
+    email: string;
+    manager?: EntityManager;
+  }): Promise<{ isUpdated: boolean }> {
+    const { accountId, email, manager } = params;
+    const repository = manager ? manager.getRepository(UserInfoEntity) : this.userInfoRepository;
+    const result = await repository.update(
+      { accountId, email },
+      { emailVerifiedAt: new Date(), updatedAt: new Date() },
+    );
+    return { isUpdated: (result.affected ?? 0) > 0 };
+  }
+
+  /**
+   * 绑定已验证的手机号
+   * 写入手机号并记录验证时间
+   */
+  async markPhoneVerified(params: {
+    accountId: number;
+    phone: string;
+    manager?: EntityManager;
+  }): Promise<{ isUpdated: boolean }> {
+    const { accountId, phone, manager } = params;
+    const repository = manager ? manager.getRepository(UserInfoEntity) : this.userInfoRepository;
+    const now = new Date();
+    const result = await repository.update(
+      { accountId },
+      { phone, phoneVerifiedAt: now, updatedAt: now },
+    );
+    return { isUpdated: (result.affected ?? 0) > 0 };
+  }
+
+  /**
+   * 调整站内通知计数器（通知数 / 未读数）
+   * 以原子自增方式更新，结果不小于 0；调用方应与通知写入处于同一事务
+   */
+  async adjustNotificationCounters(params: {
+    accountId: number;
+    notifyDelta: number;
+    unreadDelta: number;
+    manager?: EntityManager;
+  }): Promise<{ isUpdated: boolean }> {
+    const { accountId, notifyDelta, unreadDelta, manager } = params;
+    if (notifyDelta === 0 && unreadDelta === 0) {
+      return { isUpdated: false };
+    }
+
+    const repository = manager ? manager.getRepository(UserInfoEntity) : this.userInfoRepository;
+    const result = await repository
+      .createQueryBuilder()
+      .update(UserInfoEntity)
+      .set({
+        notifyCount: () => 'GREATEST(COALESCE(notify_count, 0) + :notifyDelta, 0)',
+        unreadCount: () => 'GREATEST(COALESCE(unread_count, 0) + :unreadDelta, 0)',
+      })
+      .where('account_id = :accountId', { accountId })
+      .setParameters({ notifyDelta, unreadDelta })
+      .execute();
+    return { isUpdated: (result.affected ?? 0) > 0 };
+  }
+
   /** 事务执行（使用 AccountEntity 的 manager） */
   async runTransaction<T>(callback: (manager: EntityManager) => Promise<T>): Promise<T> {
     return await this.accountRepository.manager.transaction(callback);
   }
 
   // =========================================================
-  // 密码工具（原样保留）
+  // 账户注销 & 数据导出
+  // =========================================================
+
+  /**
+   * 查询注销冷静期已满、尚未执行注销的账户 ID（按计划时间升序）
+   */
+  async findDueDeletionAccountIds(params: { before: Date; limit: number }): Promise<number[]> {
+    const rows = await this.accountRepository.find({
+      select: ['id'],
+      where: {
+        deletionScheduledAt: LessThanOrEqual(params.before),
+        status: Not(AccountStatus.DELETED),
+      },
+      order: { deletionScheduledAt: 'ASC', id: 'ASC' },
+      take: params.limit,
+    });
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * 清除账户关联的个人数据（调用方负责锁定账户并更新账户行本身）
+   * - 用户信息：昵称替换为占位，联系方式、生日、头像等置空，通知计数清零
+   * - 第三方登录绑定与历史密码哈希直接删除
+   * - 各身份档案交由已启用的 provider 匿名化，行本身保留供业务数据引用
+   * - 二次验证、登录会话与站内通知属于其他模块，由调用方在同一事务内通过对应服务清除
+   * @returns 被匿名化的身份与删除的第三方绑定数
+   */
+  async erasePersonalData(params: {
+    accountId: number;
+    manager: EntityManager;
+  }): Promise<{ identities: string[]; thirdPartyBindings: number }> {
+    const { accountId, manager } = params;
+    await manager.getRepository(UserInfoEntity).update(
+      { accountId },
+      {
+        nickname: `${ERASED_ACCOUNT_NICKNAME_PREFIX}#${accountId}`,
+        gender: Gender.SECRET,
+        birthDate: null,
+        avatarUrl: null,
+        email: null,
+        emailVerifiedAt: null,
+        signature: null,
+        address: null,
+        phone: null,
+        phoneVerifiedAt: null,
+        tags: null,
+        geographic: null,
+        userState: UserState.INACTIVE,
+        notifyCount: 0,
+        unreadCount: 0,
+        updatedAt: new Date(),
+      },
+    );
+
+    const bindings = await manager.getRepository(ThirdPartyAuthEntity).delete({ accountId });
+    await manager.getRepository(PasswordHistoryEntity).delete({ accountId });
+
+    const identities: string[] = [];
+    for (const provider of this.providerMap.values()) {
+      if (provider.anonymize && (await provider.anonymize({ accountId, manager }))) {
+        identities.push(provider.identity);
+      }
+    }
+    return { identities, thirdPartyBindings: bindings.affected ?? 0 };
+  }
+
+  /**
+   * 收集账户在各已启用身份下的档案（identity → 档案），用于个人数据导出
+   */
+  async findIdentityProfiles(accountId: number): Promise<Record<string, unknown>> {
+    const profiles: Record<string, unknown> = {};
+    for (const provider of this.providerMap.values()) {
+      const profile = await provider.getProfile(accountId);
+      if (profile) {
+        profiles[provider.identity] = profile;
+      }
+    }
+    return profiles;
+  }
+
+  /** 查询账户的第三方登录绑定（仅平台与绑定时间，用于个人数据导出） */
+  async findThirdPartyBindings(
+    accountId: number,
+  ): Promise<Array<Pick<ThirdPartyAuthEntity, 'provider' | 'createdAt'>>> {
+    return await this.accountRepository.manager.getRepository(ThirdPartyAuthEntity).find({
+      select: ['provider', 'createdAt'],
+      where: { accountId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * 账户合并：统计并迁移第三方登录绑定
+   * 同一平台每个账户仅允许一个绑定，双方都绑定的平台作为冲突返回且不迁移
+   * @returns 可迁移（执行时为已迁移）的绑定数与冲突的平台
+   */
+  async transferThirdPartyBindings(params: {
+    sourceAccountId: number;
+    targetAccountId: number;
+    manager: EntityManager;
+    dryRun: boolean;
+  }): Promise<{ moved: number; conflicts: ThirdPartyProviderEnum[] }> {
+    const { sourceAccountId, targetAccountId, manager, dryRun } = params;
+    const repository = manager.getRepository(ThirdPartyAuthEntity);
+    const [sourceBindings, targetBindings] = await Promise.all([
+      repository.find({ select: ['id', 'provider'], where: { accountId: sourceAccountId } }),
+      repository.find({ select: ['id', 'provider'], where: { accountId: targetAccountId } }),
+    ]);
+    const targetProviders = new Set(targetBindings.map((binding) => binding.provider));
+    const conflicts = sourceBindings
+      .filter((binding) => targetProviders.has(binding.provider))
+      .map((binding) => binding.provider);
+    const movable = sourceBindings.filter((binding) => !targetProviders.has(binding.provider));
+
+    if (!dryRun && conflicts.length === 0 && movable.length > 0) {
+      await repository.update(
+        movable.map((binding) => binding.id),
+        { accountId: targetAccountId },
+      );
+    }
+    return { moved: movable.length, conflicts };
+  }
+
+  /**
+   * 账户合并：交由已启用且支持迁移的 provider 迁移各身份档案
+   * 预检时只收集冲突；执行时调用方须先确认无冲突
+   * @returns 各身份的迁移行数与冲突说明
+   */
+  async transferIdentityProfiles(params: {
+    sourceAccountId: number;
+    targetAccountId: number;
+    manager: EntityManager;
+    dryRun: boolean;
+  }): Promise<{
+    identities: Array<{ identity: string; moved: number }>;
+    conflicts: Array<{ identity: string; reason: string }>;
+  }> {
+    const identities: Array<{ identity: string; moved: number }> = [];
+    const conflicts: Array<{ identity: string; reason: string }> = [];
+    for (const provider of this.providerMap.values()) {
+      if (!provider.transferTo) continue;
+      const result = await provider.transferTo(params);
+      if (result.conflict) {
+        conflicts.push({ identity: provider.identity, reason: result.conflict });
+      } else if (result.moved > 0) {
+        identities.push({ identity: provider.identity, moved: result.moved });
+      }
+    }
+    return { identities, conflicts };
+  }
+
+  // =========================================================
+  // 密码工具
   // =========================================================
 
-  /** 使用创建时间作为盐值进行 PBKDF2 加密 */
+  /** 使用当前方案（带版本前缀的 scrypt）生成密码哈希，新密码一律使用 */
+  static async hashPassword(password: string): Promise<string> {
+    // 应用与 PasswordPolicyService 相同的预处理
+    const processedPassword = AccountService.preprocessPassword(password);
+    return await PasswordHashHelper.hash(processedPassword);
+  }
+
+  /** 使用创建时间作为盐值进行 PBKDF2 加密（老方案，仅用于兼容历史数据） */
   static hashPasswordWithTimestamp(password: string, createdAt: Date): string {
     // 应用与 PasswordPolicyService 相同的预处理
     const processedPassword = AccountService.preprocessPassword(password);
@@ -311,10 +558,17 @@ export class AccountService {
     return LegacyPasswordCryptoHelper.hashPasswordWithCrypto(processedPassword, salt);
   }
 
-  /** 验证密码 */
-  static verifyPassword(password: string, hashedPassword: string, createdAt: Date): boolean {
+  /** 验证密码（按哈希前缀区分当前方案与老方案） */
+  static async verifyPassword(
+    password: string,
+    hashedPassword: string,
+    createdAt: Date,
+  ): Promise<boolean> {
     // 应用与 PasswordPolicyService 相同的预处理
     const processedPassword = AccountService.preprocessPassword(password);
+    if (PasswordHashHelper.getScheme(hashedPassword) === PasswordHashScheme.SCRYPT) {
+      return await PasswordHashHelper.verify(processedPassword, hashedPassword);
+    }
     const salt = createdAt.toString();
     return LegacyPasswordCryptoHelper.verifyPasswordWithCrypto(
       processedPassword,
@@ -323,6 +577,41 @@ export class AccountService {
     );
   }
 
+  /** 密码哈希是否需要按当前方案重算（老方案或参数已过时） */
+  static needsPasswordRehash(hashedPassword: string): boolean {
+    return PasswordHashHelper.needsRehash(hashedPassword);
+  }
+
+  /**
+   * 登录成功后按当前方案重算密码哈希
+   * 条件更新：仅当库中哈希仍为校验时的旧值才写入，避免覆盖并发的改密
+   * @returns 是否已更新
+   */
+  async upgradePasswordHash(params: {
+    accountId: number;
+    currentHash: string;
+    password: string;
+  }): Promise<boolean> {
+    const result = await this.accountRepository.update(
+      { id: params.accountId, loginPassword: params.currentHash },
+      { loginPassword: await AccountService.hashPassword(params.password) },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /** 统计各密码哈希方案的账户数量 */
+  async getPasswordHashReport(): Promise<PasswordHashReportView> {
+    const raw = await this.accountRepository
+      .createQueryBuilder('account')
+      .select('COUNT(*)', 'total')
+      .addSelect('SUM(CASE WHEN account.loginPassword LIKE :prefix THEN 1 ELSE 0 END)', 'current')
+      .setParameter('prefix', `${PasswordHashHelper.CURRENT_PREFIX}%`)
+      .getRawOne<{ total: string | number | null; current: string | number | null }>();
+    const total = Number(raw?.total ?? 0);
+    const current = Number(raw?.current ?? 0);
+    return { total, current, legacy: total - current };
+  }
+
   /**
    * 密码预处理 - 与 PasswordPolicyService 保持一致
    * @param password 原始密码
@@ -0,0 +1,93 @@
+// src/modules/account/base/services/password-history.service.ts
+import { PasswordConfig } from '@app-types/auth/password.types';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { PasswordHistoryEntity } from '../entities/password-history.entity';
+import { AccountService } from './account.service';
+
+/**
+ * 密码历史服务
+ * - 每次修改密码时记录被替换的旧密码哈希
+ * - 仅保留最近 historySize 条，超出部分随写入清理
+ */
+@Injectable()
+export class PasswordHistoryService {
+  private readonly historySize: number;
+
+  constructor(
+    @InjectRepository(PasswordHistoryEntity)
+    private readonly historyRepository: Repository<PasswordHistoryEntity>,
+    configService: ConfigService,
+  ) {
+    this.historySize = Math.max(0, configService.get<PasswordConfig>('password')?.historySize ?? 5);
+  }
+
+  /** 不可复用的历史密码数量（不含当前密码） */
+  getHistorySize(): number {
+    return this.historySize;
+  }
+
+  /**
+   * 判断明文密码是否与最近的历史密码相同
+   * 密码哈希以账户创建时间为盐，需逐条校验
+   * @param params 账户 ID、账户创建时间与待检查的明文密码
+   */
+  async isRecentlyUsed(params: {
+    accountId: number;
+    accountCreatedAt: Date;
+    password: string;
+  }): Promise<boolean> {
+    if (this.historySize === 0) {
+      return false;
+    }
+    const recent = await this.historyRepository.find({
+      where: { accountId: params.accountId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      take: this.historySize,
+    });
+    // 逐条校验：scrypt 每次约占 32 MiB，不并发计算
+    for (const item of recent) {
+      if (
+        await AccountService.verifyPassword(
+          params.password,
+          item.passwordHash,
+          params.accountCreatedAt,
+        )
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 记录被替换的旧密码哈希，并清理超出保留数量的记录
+   * @param params 账户 ID、旧密码哈希与可选的事务管理器
+   */
+  async record(params: {
+    accountId: number;
+    passwordHash: string;
+    manager?: EntityManager;
+  }): Promise<void> {
+    if (this.historySize === 0) {
+      return;
+    }
+    const repository = params.manager
+      ? params.manager.getRepository(PasswordHistoryEntity)
+      : this.historyRepository;
+
+    await repository.insert({ accountId: params.accountId, passwordHash: params.passwordHash });
+
+    const expired = await repository.find({
+      select: { id: true },
+      where: { accountId: params.accountId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      skip: this.historySize,
+    });
+    if (expired.length > 0) {
+      await repository.delete(expired.map((item) => item.id));
+    }
+  }
+}
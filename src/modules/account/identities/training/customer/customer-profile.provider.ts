@@ -1,10 +1,16 @@
 // src/modules/account/identities/training/customer/customer-profile.provider.ts
 
+import { ERASED_PROFILE_NAME } from '@app-types/models/account-lifecycle.types';
+import { ProfileTransferResult } from '@app-types/models/account-merge.types';
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, Repository } from 'typeorm';
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
 import { SUPPORTED_IDENTITIES } from '../../../base/constants/provider-tokens';
-import { AccountProfileProvider } from '../../../base/interfaces/account-profile-provider.interface';
+import {
+  AccountProfileProvider,
+  AccountProfileTransferParams,
+} from '../../../base/interfaces/account-profile-provider.interface';
+import { LearnerEntity } from '../learner/account-learner.entity';
 import { CustomerEntity } from './account-customer.entity';
 
 /**
@@ -38,4 +44,72 @@ export class CustomerProfileProvider implements AccountProfileProvider<CustomerE
     const rows = await this.repo.find({ where: { accountId: In(accountIds) } });
     return new Map(rows.filter((r) => r.accountId !== null).map((r) => [r.accountId!, r]));
   }
+
+  /**
+   * 匿名化客户档案并下线
+   * 名下未关联独立账户的学员（如子女）一并匿名化；已关联账户的学员由其本人账户处理
+   * @param params 账户 ID 与事务管理器
+   * @returns 是否存在客户档案
+   */
+  async anonymize(params: { accountId: number; manager: EntityManager }) {
+    const customer = await params.manager
+      .getRepository(CustomerEntity)
+      .findOne({ where: { accountId: params.accountId } });
+    if (!customer) return false;
+
+    await params.manager.getRepository(CustomerEntity).update(customer.id, {
+      name: ERASED_PROFILE_NAME,
+      contactPhone: null,
+      preferredContactTime: null,
+      remark: null,
+      deactivatedAt: customer.deactivatedAt ?? new Date(),
+    });
+    await params.manager
+      .createQueryBuilder()
+      .update(LearnerEntity)
+      .set({
+        name: ERASED_PROFILE_NAME,
+        birthDate: null,
+        avatarUrl: null,
+        specialNeeds: null,
+        remark: null,
+        deactivatedAt: () => 'COALESCE(deactivated_at, NOW())',
+      })
+      .where({ customerId: customer.id, accountId: IsNull() })
+      .execute();
+    return true;
+  }
+
+  /**
+   * 账户合并时迁移客户档案
+   * - 目标账户没有客户档案：直接改挂到目标账户
+   * - 双方均有：源客户名下的学员改挂到目标客户，源客户档案下线（保留行供历史数据引用）
+   * @param params 源/目标账户 ID、事务管理器与是否仅预检
+   * @returns 迁移的行数（改挂客户档案计 1，合并时为改挂的学员数）
+   */
+  async transferTo(params: AccountProfileTransferParams): Promise<ProfileTransferResult> {
+    const repository = params.manager.getRepository(CustomerEntity);
+    const source = await repository.findOne({ where: { accountId: params.sourceAccountId } });
+    if (!source) return { moved: 0, conflict: null };
+
+    const target = await repository.findOne({ where: { accountId: params.targetAccountId } });
+    if (!target) {
+      if (!params.dryRun) {
+        await repository.update(source.id, { accountId: params.targetAccountId });
+      }
+      return { moved: 1, conflict: null };
+    }
+
+    const learnerRepository = params.manager.getRepository(LearnerEntity);
+    if (params.dryRun) {
+      const moved = await learnerRepository.count({ where: { customerId: source.id } });
+      return { moved, conflict: null };
+    }
+    const result = await learnerRepository.update(
+      { customerId: source.id },
+      { customerId: target.id },
+    );
+    await repository.update(source.id, { deactivatedAt: source.deactivatedAt ?? new Date() });
+    return { moved: result.affected ?? 0, conflict: null };
+  }
 }
@@ -6,7 +6,7 @@ import type { ISortResolver } from '@core/sort/sort.ports';
 import { Inject, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { PaginationService } from '@src/modules/common/pagination.service';
-import { EntityManager, In, Repository } from 'typeorm';
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
 import { LearnerEntity } from './account-learner.entity';
 
 export type LearnerTransactionManager = EntityManager;
@@ -66,10 +66,12 @@ export class LearnerService {
   /**
    * 根据账户 ID 查找学员信息
    * @param accountId 账户 ID
+   * @param manager 可选事务管理器
    * @returns 学员信息或 null
    */
-  async findByAccountId(accountId: number): Promise<LearnerEntity | null> {
-    return await this.learnerRepository.findOne({
+  async findByAccountId(accountId: number, manager?: EntityManager): Promise<LearnerEntity | null> {
+    const repo = manager ? manager.getRepository(LearnerEntity) : this.learnerRepository;
+    return await repo.findOne({
       where: { accountId },
     });
   }
@@ -204,6 +206,38 @@ export class LearnerService {
     return await repo.findOne({ where: { id: params.id, customerId: params.customerId } });
   }
 
+  /**
+   * 查询关联到指定账户的学员 ID
+   * @param params 账户 ID 与事务管理器
+   * @returns 学员 ID 列表
+   */
+  async findIdsByAccountId(params: {
+    accountId: number;
+    manager: EntityManager;
+  }): Promise<number[]> {
+    const rows = await params.manager.getRepository(LearnerEntity).find({
+      select: ['id'],
+      where: { accountId: params.accountId },
+    });
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * 查询客户名下未关联账户的学员 ID
+   * @param params 客户 ID 与事务管理器
+   * @returns 学员 ID 列表
+   */
+  async findUnlinkedIdsByCustomerId(params: {
+    customerId: number;
+    manager: EntityManager;
+  }): Promise<number[]> {
+    const rows = await params.manager.getRepository(LearnerEntity).find({
+      select: ['id'],
+      where: { customerId: params.customerId, accountId: IsNull() },
+    });
+    return rows.map((row) => row.id);
+  }
+
   /**
    * 使用事务管理器更新学员并回读
    * @param params 更新参数
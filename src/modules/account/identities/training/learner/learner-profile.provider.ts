@@ -1,10 +1,15 @@
 // src/modules/account/identities/training/learner/learner-profile.provider.ts
 
+import { ERASED_PROFILE_NAME } from '@app-types/models/account-lifecycle.types';
+import { ProfileTransferResult } from '@app-types/models/account-merge.types';
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, Repository } from 'typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
 import { SUPPORTED_IDENTITIES } from '../../../base/constants/provider-tokens';
-import { AccountProfileProvider } from '../../../base/interfaces/account-profile-provider.interface';
+import {
+  AccountProfileProvider,
+  AccountProfileTransferParams,
+} from '../../../base/interfaces/account-profile-provider.interface';
 import { LearnerEntity } from './account-learner.entity';
 
 /**
@@ -38,4 +43,44 @@ export class LearnerProfileProvider implements AccountProfileProvider<LearnerEnt
     const rows = await this.repo.find({ where: { accountId: In(accountIds) } });
     return new Map(rows.filter((r) => r.accountId !== null).map((r) => [r.accountId!, r]));
   }
+
+  /**
+   * 匿名化学员档案：清除姓名与个人信息并下线
+   * @param params 账户 ID 与事务管理器
+   * @returns 是否存在学员档案
+   */
+  async anonymize(params: { accountId: number; manager: EntityManager }) {
+    const result = await params.manager
+      .createQueryBuilder()
+      .update(LearnerEntity)
+      .set({
+        name: ERASED_PROFILE_NAME,
+        birthDate: null,
+        avatarUrl: null,
+        specialNeeds: null,
+        remark: null,
+        deactivatedAt: () => 'COALESCE(deactivated_at, NOW())',
+      })
+      .where('account_id = :accountId', { accountId: params.accountId })
+      .execute();
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * 账户合并时将源账户名下的学员档案改挂到目标账户（学员档案不唯一，不会冲突）
+   * @param params 源/目标账户 ID、事务管理器与是否仅预检
+   * @returns 迁移的档案数
+   */
+  async transferTo(params: AccountProfileTransferParams): Promise<ProfileTransferResult> {
+    const repository = params.manager.getRepository(LearnerEntity);
+    if (params.dryRun) {
+      const moved = await repository.count({ where: { accountId: params.sourceAccountId } });
+      return { moved, conflict: null };
+    }
+    const result = await repository.update(
+      { accountId: params.sourceAccountId },
+      { accountId: params.targetAccountId },
+    );
+    return { moved: result.affected ?? 0, conflict: null };
+  }
 }
@@ -1,9 +1,14 @@
 // src/modules/account/identities/training/manager/manager-profile.provider.ts
+import { ERASED_PROFILE_NAME } from '@app-types/models/account-lifecycle.types';
+import { ProfileTransferResult } from '@app-types/models/account-merge.types';
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { In, Repository } from 'typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
 import { SUPPORTED_IDENTITIES } from '../../../base/constants/provider-tokens';
-import { AccountProfileProvider } from '../../../base/interfaces/account-profile-provider.interface';
+import {
+  AccountProfileProvider,
+  AccountProfileTransferParams,
+} from '../../../base/interfaces/account-profile-provider.interface';
 import { ManagerEntity } from './account-manager.entity';
 
 /**
@@ -37,4 +42,41 @@ export class ManagerProfileProvider implements AccountProfileProvider<ManagerEnt
     const rows = await this.repo.find({ where: { accountId: In(accountIds) } });
     return new Map(rows.map((r) => [r.accountId, r]));
   }
+
+  /**
+   * 匿名化经理档案：清除姓名与个人信息并下线
+   * @param params 账户 ID 与事务管理器
+   * @returns 是否存在经理档案
+   */
+  async anonymize(params: { accountId: number; manager: EntityManager }) {
+    const result = await params.manager
+      .createQueryBuilder()
+      .update(ManagerEntity)
+      .set({
+        name: ERASED_PROFILE_NAME,
+        remark: null,
+        deactivatedAt: () => 'COALESCE(deactivated_at, NOW())',
+      })
+      .where('account_id = :accountId', { accountId: params.accountId })
+      .execute();
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * 账户合并时迁移经理档案（每个账户至多一份，目标账户已有时视为冲突）
+   * @param params 源/目标账户 ID、事务管理器与是否仅预检
+   * @returns 迁移的档案数与冲突说明
+   */
+  async transferTo(params: AccountProfileTransferParams): Promise<ProfileTransferResult> {
+    const repository = params.manager.getRepository(ManagerEntity);
+    const source = await repository.findOne({ where: { accountId: params.sourceAccountId } });
+    if (!source) return { moved: 0, conflict: null };
+    if (await repository.exists({ where: { accountId: params.targetAccountId } })) {
+      return { moved: 0, conflict: '两个账户均有经理档案' };
+    }
+    if (!params.dryRun) {
+      await repository.update(source.id, { accountId: params.targetAccountId });
+    }
+    return { moved: 1, conflict: null };
+  }
 }
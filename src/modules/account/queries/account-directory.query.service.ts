@@ -0,0 +1,185 @@
+// src/modules/account/queries/account-directory.query.service.ts
+import {
+  ACCOUNT_DIRECTORY_SORT_FIELDS,
+  AccountDirectoryFilters,
+  AccountDirectoryItemView,
+  AccountDirectorySortField,
+} from '@app-types/models/account.types';
+import type { SortParam } from '@core/pagination/pagination.types';
+import { SearchService } from '@modules/common/search.module';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AccountEntity } from '../base/entities/account.entity';
+
+/** 业务字段 → 安全列名（排序与过滤共用） */
+const ACCOUNT_DIRECTORY_COLUMNS: Readonly<Record<string, string>> = {
+  id: 'account.id',
+  createdAt: 'account.createdAt',
+  lastLoginAt: 'account.lastLoginAt',
+  loginName: 'account.loginName',
+  status: 'account.status',
+  identityHint: 'account.identityHint',
+  accessGroup: 'userInfo.accessGroup',
+  createdAfter: 'account.createdAt',
+  createdBefore: 'account.createdAt',
+  lastLoginAfter: 'account.lastLoginAt',
+  lastLoginBefore: 'account.lastLoginAt',
+};
+
+/** 允许的过滤字段（与 AccountDirectoryFilters 中除 query 外的字段一致） */
+const ACCOUNT_DIRECTORY_FILTERS = [
+  'status',
+  'identityHint',
+  'accessGroup',
+  'createdAfter',
+  'createdBefore',
+  'lastLoginAfter',
+  'lastLoginBefore',
+] as const;
+
+/** 时间区间过滤：字段 → 比较运算符 */
+const RANGE_FILTER_OPERATORS: Readonly<Record<string, '>=' | '<='>> = {
+  createdAfter: '>=',
+  createdBefore: '<=',
+  lastLoginAfter: '>=',
+  lastLoginBefore: '<=',
+};
+
+/**
+ * 管理端账户目录查询服务
+ * 基于 SearchService 在登录名 / 登录邮箱 / 昵称上做模糊搜索，并按状态、访问组、身份提示、
+ * 创建时间与最近登录时间区间过滤；权限校验由用例层负责
+ */
+@Injectable()
+export class AccountDirectoryQueryService {
+  constructor(
+    @InjectRepository(AccountEntity)
+    private readonly accountRepository: Repository<AccountEntity>,
+    private readonly searchService: SearchService,
+  ) {}
+
+  /**
+   * 分页查询账户目录
+   * @param params 筛选条件与分页排序参数
+   */
+  async search(params: {
+    filters: AccountDirectoryFilters;
+    page: number;
+    limit: number;
+    sortBy?: AccountDirectorySortField;
+    sortOrder?: 'ASC' | 'DESC';
+  }): Promise<{
+    items: AccountDirectoryItemView[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const qb = this.accountRepository
+      .createQueryBuilder('account')
+      .leftJoinAndSelect('account.userInfo', 'userInfo');
+
+    const defaultSorts: ReadonlyArray<SortParam> = [
+      { field: 'createdAt', direction: 'DESC' },
+      { field: 'id', direction: 'DESC' },
+    ];
+    const sorts: ReadonlyArray<SortParam> = params.sortBy
+      ? [
+          { field: params.sortBy, direction: params.sortOrder ?? 'DESC' },
+          { field: 'id', direction: params.sortOrder ?? 'DESC' },
+        ]
+      : defaultSorts;
+
+    const safeLimit = Math.max(params.limit, 1);
+    const result = await this.searchService.search<AccountEntity>({
+      qb,
+      params: {
+        query: params.filters.query,
+        filters: this.toSearchFilters(params.filters),
+        pagination: {
+          mode: 'OFFSET',
+          page: params.page,
+          pageSize: safeLimit,
+          sorts,
+          withTotal: true,
+        },
+      },
+      options: {
+        searchColumns: ['account.loginName', 'account.loginEmail', 'userInfo.nickname'],
+        allowedFilters: ACCOUNT_DIRECTORY_FILTERS,
+        resolveColumn: (field) => ACCOUNT_DIRECTORY_COLUMNS[field] ?? null,
+        allowedSorts: ACCOUNT_DIRECTORY_SORT_FIELDS,
+        defaultSorts,
+        countDistinctBy: 'account.id',
+        buildFilter: ({ field, column, value }) => {
+          const paramKey = `f_${field}`;
+          if (field === 'accessGroup') {
+            return {
+              clause: `JSON_CONTAINS(${column}, JSON_QUOTE(:${paramKey}))`,
+              params: { [paramKey]: value },
+            };
+          }
+          const operator = RANGE_FILTER_OPERATORS[field];
+          if (operator) {
+            return {
+              clause: `${column} ${operator} :${paramKey}`,
+              params: { [paramKey]: new Date(String(value)) },
+            };
+          }
+          return null;
+        },
+      },
+    });
+
+    const total = result.total ?? 0;
+    const pageSize = result.pageSize ?? safeLimit;
+    return {
+      items: result.items.map((account) => this.toItemView(account)),
+      total,
+      page: result.page ?? params.page,
+      limit: pageSize,
+      totalPages: pageSize > 0 ? Math.max(Math.ceil(total / pageSize), 1) : 1,
+    };
+  }
+
+  /**
+   * 将筛选条件转为 SearchParams.filters 的简单键值（时间以 ISO 字符串传递）
+   */
+  private toSearchFilters(
+    filters: AccountDirectoryFilters,
+  ): Record<string, string | number | boolean> {
+    const entries: Array<[string, string | Date | undefined]> = [
+      ['status', filters.status],
+      ['identityHint', filters.identityHint],
+      ['accessGroup', filters.accessGroup],
+      ['createdAfter', filters.createdAfter],
+      ['createdBefore', filters.createdBefore],
+      ['lastLoginAfter', filters.lastLoginAfter],
+      ['lastLoginBefore', filters.lastLoginBefore],
+    ];
+    const result: Record<string, string | number | boolean> = {};
+    for (const [field, value] of entries) {
+      if (value === undefined || value === null) continue;
+      result[field] = value instanceof Date ? value.toISOString() : value;
+    }
+    return result;
+  }
+
+  private toItemView(account: AccountEntity): AccountDirectoryItemView {
+    return {
+      id: account.id,
+      loginName: account.loginName,
+      loginEmail: account.loginEmail,
+      status: account.status,
+      statusReason: account.statusReason,
+      statusChangedAt: account.statusChangedAt,
+      identityHint: account.identityHint,
+      nickname: account.userInfo?.nickname ?? null,
+      accessGroup: account.userInfo?.accessGroup ?? [],
+      lastLoginAt: account.lastLoginAt,
+      createdAt: account.createdAt,
+      updatedAt: account.updatedAt,
+    };
+  }
+}
@@ -1,6 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { QueryFailedError, Repository, type EntityManager } from 'typeorm';
+import { IsNull, Not, QueryFailedError, Repository, type EntityManager } from 'typeorm';
 import {
   AiProviderCallRecordEntity,
   type AiProviderCallRecordProviderStatus,
@@ -154,6 +154,32 @@ export class AiProviderCallRecordService {
     return this.toView(saved);
   }
 
+  async findRecentByAccountId(input: {
+    readonly accountId: number;
+    readonly limit: number;
+  }): Promise<AiProviderCallRecordView[]> {
+    const records = await this.aiProviderCallRecordRepository.find({
+      where: { accountId: input.accountId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+      take: input.limit,
+    });
+    return records.map((record) => this.toView(record));
+  }
+
+  /**
+   * 账户注销时清除调用记录中的昵称快照，调用记录本身保留用于计费与审计
+   */
+  async clearNicknameSnapshotByAccountId(input: {
+    readonly accountId: number;
+    readonly manager?: EntityManager;
+  }): Promise<number> {
+    const result = await this.resolveRepository(input.manager).update(
+      { accountId: input.accountId, nicknameSnapshot: Not(IsNull()) },
+      { nicknameSnapshot: null },
+    );
+    return result.affected ?? 0;
+  }
+
   private resolveRepository(manager?: EntityManager): Repository<AiProviderCallRecordEntity> {
     if (manager) {
       return manager.getRepository(AiProviderCallRecordEntity);
@@ -385,6 +385,23 @@ export class AsyncTaskRecordService {
     return this.toView(saved);
   }
 
+  async reassignActor(input: {
+    readonly fromAccountId: number;
+    readonly toAccountId: number;
+    readonly manager?: EntityManager;
+    readonly dryRun?: boolean;
+  }): Promise<number> {
+    const repository = this.getRepository(input.manager);
+    if (input.dryRun) {
+      return await repository.count({ where: { actorAccountId: input.fromAccountId } });
+    }
+    const result = await repository.update(
+      { actorAccountId: input.fromAccountId },
+      { actorAccountId: input.toAccountId },
+    );
+    return result.affected ?? 0;
+  }
+
   async runTransaction<T>(callback: (manager: EntityManager) => Promise<T>): Promise<T> {
     return await this.asyncTaskRecordRepository.manager.transaction(callback);
   }
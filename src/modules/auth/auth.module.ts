@@ -2,12 +2,27 @@
 
 import { Module } from '@nestjs/common';
 import { PassportModule } from '@nestjs/passport';
+import { TypeOrmModule } from '@nestjs/typeorm';
 import { CoreJwtModule } from '@src/infrastructure/jwt/jwt.module';
+import { RedisModule } from '@src/infrastructure/redis/redis.module';
 import { AccountInstallerModule } from '@src/modules/account/account-installer.module';
 import { AuthService } from './auth.service';
+import { AuthSessionEntity } from './entities/auth-session.entity';
+import { ImpersonationAuditEntity } from './entities/impersonation-audit.entity';
+import { MfaFactorEntity } from './entities/mfa-factor.entity';
+import { MfaRecoveryCodeEntity } from './entities/mfa-recovery-code.entity';
+import { RefreshTokenFamilyEntity } from './entities/refresh-token-family.entity';
+import { RevokedAccessTokenEntity } from './entities/revoked-access-token.entity';
+import { AuthSessionQueryService } from './queries/auth-session.query.service';
 import { LoginBootstrapQueryService } from './queries/login-bootstrap.query.service';
 import { LoginResultQueryService } from './queries/login-result.query.service';
 import { PermissionQueryService } from './queries/permission.query.service';
+import { AuthSessionService } from './services/auth-session.service';
+import { ImpersonationAuditService } from './services/impersonation-audit.service';
+import { LoginThrottleService } from './services/login-throttle.service';
+import { MfaService } from './services/mfa.service';
+import { RefreshTokenFamilyService } from './services/refresh-token-family.service';
+import { TokenRevocationService } from './services/token-revocation.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { TokenHelper } from './token.helper';
 
@@ -19,22 +34,45 @@ import { TokenHelper } from './token.helper';
     AccountInstallerModule, // 使用动态模块配置
     CoreJwtModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
+    RedisModule,
+    TypeOrmModule.forFeature([
+      RefreshTokenFamilyEntity,
+      RevokedAccessTokenEntity,
+      AuthSessionEntity,
+      MfaFactorEntity,
+      MfaRecoveryCodeEntity,
+      ImpersonationAuditEntity,
+    ]),
   ],
   providers: [
     AuthService,
     TokenHelper,
+    RefreshTokenFamilyService,
+    TokenRevocationService,
+    AuthSessionService,
+    LoginThrottleService,
+    MfaService,
+    ImpersonationAuditService,
     JwtStrategy,
     PermissionQueryService,
     LoginBootstrapQueryService,
     LoginResultQueryService,
+    AuthSessionQueryService,
   ],
   exports: [
     AuthService,
     TokenHelper, // 导出 TokenHelper 供其他模块使用
+    RefreshTokenFamilyService,
+    TokenRevocationService,
+    AuthSessionService,
+    LoginThrottleService,
+    MfaService,
+    ImpersonationAuditService,
     JwtStrategy,
     PermissionQueryService,
     LoginBootstrapQueryService,
     LoginResultQueryService,
+    AuthSessionQueryService,
   ],
 })
 export class AuthModule {}
@@ -3,8 +3,16 @@
 import { TokenHelper } from './token.helper';
 import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { AuthSessionDevice } from '@app-types/auth/auth-session.types';
+import { MfaChallengeClaims } from '@app-types/auth/mfa.types';
 import { JwtPayload } from '@app-types/jwt.types';
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { randomUUID } from 'crypto';
 import { PinoLogger } from 'nestjs-pino';
+import { EntityManager } from 'typeorm';
+import { AuthSessionService } from './services/auth-session.service';
+import { RefreshTokenFamilyService } from './services/refresh-token-family.service';
 
 /**
  * 认证服务 - 提供认证相关的技术实现
@@ -14,6 +22,8 @@ export class AuthService {
   constructor(
     private readonly tokenHelper: TokenHelper,
     private readonly configService: ConfigService,
+    private readonly refreshTokenFamilyService: RefreshTokenFamilyService,
+    private readonly authSessionService: AuthSessionService,
     private readonly logger: PinoLogger,
   ) {
     this.logger.setContext(AuthService.name);
@@ -41,6 +51,129 @@ export class AuthService {
     return { accessToken, refreshToken };
   }
 
+  /**
+   * 是否启用 refresh token 刷新机制
+   */
+  isRefreshEnabled(): boolean {
+    return this.configService.get<boolean>('jwt.enableRefresh') === true;
+  }
+
+  /**
+   * 开启新的 token 家族（同时登记登录会话）并签发首枚 refresh token
+   * @param params 账户、tokenVersion、客户端类型与设备信息
+   * @returns refresh token 与家族 ID
+   */
+  async issueRefreshToken(params: {
+    accountId: number;
+    tokenVersion: number;
+    audience?: AudienceTypeEnum;
+    device?: AuthSessionDevice;
+    manager?: EntityManager;
+  }): Promise<{ refreshToken: string; familyId: string }> {
+    const family = await this.refreshTokenFamilyService.createFamily({
+      accountId: params.accountId,
+      audience: params.audience,
+      tokenVersion: params.tokenVersion,
+      manager: params.manager,
+    });
+    await this.authSessionService.createSession({
+      accountId: params.accountId,
+      familyId: family.familyId,
+      audience: params.audience,
+      device: params.device,
+      manager: params.manager,
+    });
+
+    const refreshToken = this.signRefreshToken({
+      accountId: params.accountId,
+      tokenVersion: params.tokenVersion,
+      audience: params.audience,
+      familyId: family.familyId,
+      jti: family.currentJti,
+    });
+
+    return { refreshToken, familyId: family.familyId };
+  }
+
+  /**
+   * 签发绑定会话的 access token
+   * 写入 jti（单枚注销）、fid（登出时定位家族）与 tokenVersion（全设备下线）
+   * @param params 载荷、客户端类型、tokenVersion、家族 ID 与可选的有效期（缺省取模块默认）
+   * @returns access token
+   */
+  signAccessToken(params: {
+    payload: JwtPayload;
+    audience?: AudienceTypeEnum;
+    tokenVersion: number;
+    familyId: string;
+    expiresIn?: string;
+  }): string {
+    return this.tokenHelper.generateAccessToken({
+      payload: {
+        ...params.payload,
+        tokenVersion: params.tokenVersion,
+        fid: params.familyId,
+        jti: randomUUID(),
+      },
+      audience: params.audience,
+      expiresIn: params.expiresIn,
+    });
+  }
+
+  /**
+   * 按家族与 jti 签发 refresh token（有效期取 jwt.refreshExpiresIn）
+   * @param params 签发参数
+   * @returns refresh token
+   */
+  signRefreshToken(params: {
+    accountId: number;
+    tokenVersion: number;
+    audience?: AudienceTypeEnum;
+    familyId: string;
+    jti: string;
+  }): string {
+    return this.tokenHelper.generateRefreshToken({
+      payload: { sub: params.accountId },
+      tokenVersion: params.tokenVersion,
+      audience: params.audience,
+      familyId: params.familyId,
+      jti: params.jti,
+      expiresIn: this.configService.get<string>('jwt.refreshExpiresIn'),
+    });
+  }
+
+  /**
+   * 签发二次验证挑战令牌（有效期取 mfa.challengeExpiresIn）
+   * @param claims 账户、客户端类型与是否需先绑定
+   * @returns 挑战令牌
+   */
+  signMfaChallengeToken(claims: MfaChallengeClaims): string {
+    return this.tokenHelper.generateMfaChallengeToken({
+      accountId: claims.accountId,
+      audience: claims.audience,
+      enrollmentRequired: claims.enrollmentRequired,
+      expiresIn: this.configService.get<string>('mfa.challengeExpiresIn') ?? '5m',
+    });
+  }
+
+  /**
+   * 校验二次验证挑战令牌并提取声明
+   * @param token 挑战令牌
+   * @returns 挑战声明
+   */
+  verifyMfaChallengeToken(token: string): MfaChallengeClaims {
+    // 签名/过期错误由 TokenHelper 统一映射为 JWT_ERROR
+    const payload = this.tokenHelper.verifyToken({ token });
+    if (payload.type !== 'mfa_challenge') {
+      throw new DomainError(AUTH_ERROR.MFA_CHALLENGE_INVALID, '无效的二次验证挑战令牌');
+    }
+    return {
+      accountId: payload.sub,
+      audience: payload.aud as AudienceTypeEnum | undefined,
+      enrollmentRequired: payload.mfaEnroll === true,
+    };
+  }
+
   /**
    * 记录登录成功日志
    * @param params 日志参数
@@ -0,0 +1,91 @@
+// src/modules/auth/entities/auth-session.entity.ts
+
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * 登录会话实体
+ * 对应数据库表：base_auth_sessions
+ * 与 refresh token 家族一一对应，记录设备信息；有效性以家族状态为准
+ */
+@Entity('base_auth_sessions')
+@Index('uk_family_id', ['familyId'], { unique: true })
+@Index('idx_account_id', ['accountId'])
+export class AuthSessionEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({ name: 'account_id', type: 'int', comment: '账户 ID' })
+  accountId!: number;
+
+  @Column({
+    name: 'family_id',
+    type: 'char',
+    length: 36,
+    comment: '关联的 refresh token 家族 ID',
+  })
+  familyId!: string;
+
+  @Column({
+    type: 'varchar',
+    length: 32,
+    nullable: true,
+    comment: '客户端类型',
+  })
+  audience!: AudienceTypeEnum | null;
+
+  @Column({ type: 'varchar', length: 45, nullable: true, comment: '登录 IP' })
+  ip!: string | null;
+
+  @Column({
+    name: 'user_agent',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: '登录 User-Agent（超长截断）',
+  })
+  userAgent!: string | null;
+
+  @Column({
+    type: 'varchar',
+    length: 32,
+    nullable: true,
+    comment: '第三方登录平台；密码登录为空',
+  })
+  provider!: ThirdPartyProviderEnum | null;
+
+  @Column({
+    name: 'last_seen_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '最近活跃时间（登录或刷新令牌时更新）',
+  })
+  lastSeenAt!: Date;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间（系统事件时间）',
+  })
+  createdAt!: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    onUpdate: 'CURRENT_TIMESTAMP(3)',
+    comment: '更新时间（系统事件时间）',
+  })
+  updatedAt!: Date;
+}
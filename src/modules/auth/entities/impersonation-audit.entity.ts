@@ -0,0 +1,59 @@
+// src/modules/auth/entities/impersonation-audit.entity.ts
+
+import { ImpersonationAuditAction } from '@app-types/auth/impersonation.types';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 代登录审计实体
+ * 对应数据库表：base_auth_impersonation_audits
+ * 只追加不修改；每次代登录的开始与结束各记录一条
+ */
+@Entity('base_auth_impersonation_audits')
+@Index('idx_impersonator_created', ['impersonatorId', 'createdAt'])
+@Index('idx_target_created', ['targetAccountId', 'createdAt'])
+export class ImpersonationAuditEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({ name: 'impersonator_id', type: 'int', comment: '发起代登录的管理员账户 ID' })
+  impersonatorId!: number;
+
+  @Column({ name: 'target_account_id', type: 'int', comment: '被代登录的账户 ID' })
+  targetAccountId!: number;
+
+  @Column({ type: 'varchar', length: 16, comment: '动作：START / STOP' })
+  action!: ImpersonationAuditAction;
+
+  @Column({ type: 'varchar', length: 255, nullable: true, comment: '代登录原因（仅 START）' })
+  reason!: string | null;
+
+  @Column({
+    name: 'family_id',
+    type: 'char',
+    length: 36,
+    nullable: true,
+    comment: '代登录会话的 refresh token 家族 ID',
+  })
+  familyId!: string | null;
+
+  @Column({ type: 'varchar', length: 45, nullable: true, comment: '操作 IP' })
+  ip!: string | null;
+
+  @Column({
+    name: 'user_agent',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: '操作 User-Agent（超长截断）',
+  })
+  userAgent!: string | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间（系统事件时间）',
+  })
+  createdAt!: Date;
+}
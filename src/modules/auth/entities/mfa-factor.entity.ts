@@ -0,0 +1,73 @@
+// src/modules/auth/entities/mfa-factor.entity.ts
+
+import { MfaFactorStatus, MfaMethod } from '@app-types/auth/mfa.types';
+import { EncryptedField } from '@src/infrastructure/field-encryption/field-encryption.decorator';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * 二次验证因子实体
+ * 对应数据库表：base_auth_mfa_factors
+ * 每个账户至多一个因子；密钥经字段加密落库
+ */
+@Entity('base_auth_mfa_factors')
+@Index('uk_account_id', ['accountId'], { unique: true })
+export class MfaFactorEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({ name: 'account_id', type: 'int', comment: '账户 ID' })
+  accountId!: number;
+
+  @Column({ type: 'varchar', length: 16, comment: '二次验证方式' })
+  method!: MfaMethod;
+
+  @Column({ type: 'varchar', length: 255, comment: 'TOTP 密钥（加密存储）' })
+  @EncryptedField()
+  secret!: string;
+
+  @Column({ type: 'varchar', length: 16, comment: '状态：PENDING / ENABLED' })
+  status!: MfaFactorStatus;
+
+  @Column({
+    name: 'last_used_step',
+    type: 'int',
+    nullable: true,
+    comment: '最近一次通过校验的 TOTP 时间步（防重放）',
+  })
+  lastUsedStep!: number | null;
+
+  @Column({
+    name: 'enabled_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '启用时间',
+  })
+  enabledAt!: Date | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间（系统事件时间）',
+  })
+  createdAt!: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    onUpdate: 'CURRENT_TIMESTAMP(3)',
+    comment: '更新时间（系统事件时间）',
+  })
+  updatedAt!: Date;
+}
@@ -0,0 +1,44 @@
+// src/modules/auth/entities/mfa-recovery-code.entity.ts
+
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 二次验证恢复码实体
+ * 对应数据库表：base_auth_mfa_recovery_codes
+ * 只保存恢复码的 SHA-256 指纹，原文仅在生成时返回一次
+ */
+@Entity('base_auth_mfa_recovery_codes')
+@Index('uk_account_code_fp', ['accountId', 'codeFp'], { unique: true })
+export class MfaRecoveryCodeEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({ name: 'account_id', type: 'int', comment: '账户 ID' })
+  accountId!: number;
+
+  @Column({
+    name: 'code_fp',
+    type: 'binary',
+    length: 32,
+    comment: '恢复码指纹（SHA-256）',
+  })
+  codeFp!: Buffer;
+
+  @Column({
+    name: 'used_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '使用时间；为空表示未使用',
+  })
+  usedAt!: Date | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间（系统事件时间）',
+  })
+  createdAt!: Date;
+}
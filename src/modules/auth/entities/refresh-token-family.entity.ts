@@ -0,0 +1,125 @@
+// src/modules/auth/entities/refresh-token-family.entity.ts
+
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import {
+  RefreshTokenFamilyStatus,
+  RefreshTokenRevokeReason,
+} from '@app-types/auth/refresh-token.types';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * Refresh Token 家族实体
+ * 对应数据库表：base_auth_refresh_token_families
+ * 一次登录对应一个家族；家族内仅 currentJti 对应的 refresh token 可用于刷新
+ */
+@Entity('base_auth_refresh_token_families')
+@Index('uk_family_id', ['familyId'], { unique: true })
+@Index('idx_account_status', ['accountId', 'status'])
+export class RefreshTokenFamilyEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({
+    name: 'family_id',
+    type: 'char',
+    length: 36,
+    comment: '家族 ID（UUID），写入 refresh token 的 fid 声明',
+  })
+  familyId!: string;
+
+  @Column({ name: 'account_id', type: 'int', comment: '账户 ID' })
+  accountId!: number;
+
+  @Column({
+    type: 'varchar',
+    length: 32,
+    nullable: true,
+    comment: '签发时的客户端类型',
+  })
+  audience!: AudienceTypeEnum | null;
+
+  @Column({
+    name: 'current_jti',
+    type: 'char',
+    length: 36,
+    comment: '当前唯一有效的 refresh token jti',
+  })
+  currentJti!: string;
+
+  @Column({
+    name: 'token_version',
+    type: 'int',
+    default: 1,
+    comment: '签发时账户的 tokenVersion',
+  })
+  tokenVersion!: number;
+
+  @Column({
+    name: 'rotation_count',
+    type: 'int',
+    default: 0,
+    comment: '已轮换次数',
+  })
+  rotationCount!: number;
+
+  @Column({
+    type: 'enum',
+    enum: RefreshTokenFamilyStatus,
+    default: RefreshTokenFamilyStatus.ACTIVE,
+    comment: '家族状态',
+  })
+  status!: RefreshTokenFamilyStatus;
+
+  @Column({
+    name: 'revoked_reason',
+    type: 'varchar',
+    length: 32,
+    nullable: true,
+    comment: '作废原因',
+  })
+  revokedReason!: RefreshTokenRevokeReason | null;
+
+  @Column({
+    name: 'revoked_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '作废时间（系统事件时间）',
+  })
+  revokedAt!: Date | null;
+
+  @Column({
+    name: 'last_rotated_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '最近一次轮换时间（系统事件时间）',
+  })
+  lastRotatedAt!: Date | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间（系统事件时间）',
+  })
+  createdAt!: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    onUpdate: 'CURRENT_TIMESTAMP(3)',
+    comment: '更新时间（系统事件时间）',
+  })
+  updatedAt!: Date;
+}
@@ -0,0 +1,43 @@
+// src/modules/auth/entities/revoked-access-token.entity.ts
+
+import { RefreshTokenRevokeReason } from '@app-types/auth/refresh-token.types';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 已注销 access token 实体
+ * 对应数据库表：base_auth_revoked_access_tokens
+ * 作为 Redis 注销名单的持久化兜底；记录过期后即无意义，可按 expires_at 清理
+ */
+@Entity('base_auth_revoked_access_tokens')
+@Index('uk_jti', ['jti'], { unique: true })
+@Index('idx_expires_at', ['expiresAt'])
+export class RevokedAccessTokenEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({ type: 'char', length: 36, comment: 'access token 的 jti' })
+  jti!: string;
+
+  @Column({ name: 'account_id', type: 'int', comment: '账户 ID' })
+  accountId!: number;
+
+  @Column({ type: 'varchar', length: 32, comment: '注销原因' })
+  reason!: RefreshTokenRevokeReason;
+
+  @Column({
+    name: 'expires_at',
+    type: 'timestamp',
+    precision: 3,
+    comment: 'access token 原过期时间（系统事件时间）',
+  })
+  expiresAt!: Date;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间（系统事件时间）',
+  })
+  createdAt!: Date;
+}
@@ -0,0 +1,73 @@
+// src/modules/auth/queries/auth-session.query.service.ts
+
+import { AuthSessionStatus, AuthSessionView } from '@app-types/auth/auth-session.types';
+import { RefreshTokenFamilyStatus } from '@app-types/auth/refresh-token.types';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { AuthSessionEntity } from '../entities/auth-session.entity';
+import { RefreshTokenFamilyEntity } from '../entities/refresh-token-family.entity';
+
+/**
+ * 登录会话查询服务
+ * 会话状态由关联的 refresh token 家族派生，避免两处状态不一致
+ */
+@Injectable()
+export class AuthSessionQueryService {
+  constructor(
+    @InjectRepository(AuthSessionEntity)
+    private readonly sessionRepository: Repository<AuthSessionEntity>,
+    @InjectRepository(RefreshTokenFamilyEntity)
+    private readonly familyRepository: Repository<RefreshTokenFamilyEntity>,
+  ) {}
+
+  /**
+   * 列出账户的登录会话（按最近活跃时间倒序）
+   * @param params 账户 ID 与是否包含已下线会话
+   */
+  async listByAccountId(params: {
+    accountId: number;
+    includeRevoked?: boolean;
+  }): Promise<AuthSessionView[]> {
+    const sessions = await this.sessionRepository.find({
+      where: { accountId: params.accountId },
+      order: { lastSeenAt: 'DESC', id: 'DESC' },
+    });
+    if (sessions.length === 0) {
+      return [];
+    }
+
+    const families = await this.familyRepository.find({
+      where: { familyId: In(sessions.map((session) => session.familyId)) },
+    });
+    const familyMap = new Map(families.map((family) => [family.familyId, family]));
+
+    const views = sessions.map((session) =>
+      this.toView(session, familyMap.get(session.familyId) ?? null),
+    );
+    return params.includeRevoked
+      ? views
+      : views.filter((view) => view.status === AuthSessionStatus.ACTIVE);
+  }
+
+  /**
+   * 组装会话视图；家族缺失时视为已下线
+   */
+  toView(session: AuthSessionEntity, family: RefreshTokenFamilyEntity | null): AuthSessionView {
+    const isActive = family?.status === RefreshTokenFamilyStatus.ACTIVE;
+    return {
+      id: session.id,
+      accountId: session.accountId,
+      familyId: session.familyId,
+      audience: session.audience,
+      ip: session.ip,
+      userAgent: session.userAgent,
+      provider: session.provider,
+      status: isActive ? AuthSessionStatus.ACTIVE : AuthSessionStatus.REVOKED,
+      revokedReason: family?.revokedReason ?? null,
+      revokedAt: family?.revokedAt ?? null,
+      lastSeenAt: session.lastSeenAt,
+      createdAt: session.createdAt,
+    };
+  }
+}
@@ -14,6 +14,7 @@ export interface LoginUserDataCollection {
     loginEmail: string | null;
     status: AccountStatus;
     identityHint: string | null;
+    tokenVersion: number;
     createdAt: Date;
     updatedAt: Date;
   };
@@ -36,6 +37,7 @@ export class LoginBootstrapQueryService {
       loginEmail: string | null;
       status: AccountStatus;
       identityHint: string | null;
+      tokenVersion?: number;
       createdAt: Date;
       updatedAt: Date;
     };
@@ -61,6 +63,7 @@ export class LoginBootstrapQueryService {
         loginEmail: params.account.loginEmail,
         status: params.account.status,
         identityHint: params.account.identityHint,
+        tokenVersion: params.account.tokenVersion ?? 1,
         createdAt: params.account.createdAt,
         updatedAt: params.account.updatedAt,
       },
@@ -1,5 +1,9 @@
 // src/modules/auth/queries/login-result.query.service.ts
-import { BasicLoginResult, EnrichedLoginResult } from '@app-types/auth/login-flow.types';
+import {
+  BasicLoginResult,
+  EnrichedLoginResult,
+  LoginSessionClaims,
+} from '@app-types/auth/login-flow.types';
 import { AccountStatus, IdentityTypeEnum } from '@app-types/models/account.types';
 import { Injectable } from '@nestjs/common';
 import { LoginUserDataCollection } from './login-bootstrap.query.service';
@@ -9,11 +13,13 @@ export class LoginResultQueryService {
   toBasicLoginResult(params: {
     userData: LoginUserDataCollection;
     tokens: { accessToken: string; refreshToken: string };
+    session: LoginSessionClaims;
   }): BasicLoginResult {
-    const { userData, tokens } = params;
+    const { userData, tokens, session } = params;
     const parsedIdentityHint = this.parseIdentityHint(userData.account.identityHint);
     return {
       tokens,
+      session,
       accountId: userData.account.id,
       roleFromHint: parsedIdentityHint,
       accessGroup: userData.userWithAccessGroup.accessGroup,
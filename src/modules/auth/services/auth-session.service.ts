@@ -0,0 +1,82 @@
+// src/modules/auth/services/auth-session.service.ts
+
+import { AuthSessionDevice } from '@app-types/auth/auth-session.types';
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Repository } from 'typeorm';
+import { AuthSessionEntity } from '../entities/auth-session.entity';
+
+const USER_AGENT_MAX_LENGTH = 255;
+
+/**
+ * 登录会话服务
+ * 负责会话记录的写入；会话有效性由 refresh token 家族决定
+ */
+@Injectable()
+export class AuthSessionService {
+  constructor(
+    @InjectRepository(AuthSessionEntity)
+    private readonly sessionRepository: Repository<AuthSessionEntity>,
+  ) {}
+
+  /**
+   * 为新的 token 家族创建会话记录
+   * @param params 账户、家族、客户端类型与设备信息
+   */
+  async createSession(params: {
+    accountId: number;
+    familyId: string;
+    audience?: AudienceTypeEnum | null;
+    device?: AuthSessionDevice;
+    manager?: EntityManager;
+  }): Promise<AuthSessionEntity> {
+    const repository = this.getRepository(params.manager);
+    const entity = repository.create({
+      accountId: params.accountId,
+      familyId: params.familyId,
+      audience: params.audience ?? null,
+      ip: params.device?.ip || null,
+      userAgent: params.device?.userAgent?.slice(0, USER_AGENT_MAX_LENGTH) || null,
+      provider: params.device?.provider ?? null,
+      lastSeenAt: new Date(),
+    });
+    return await repository.save(entity);
+  }
+
+  /**
+   * 刷新会话最近活跃时间
+   * @param familyId 家族 ID
+   * @param manager 事务管理器（可选）
+   */
+  async touchByFamilyId(familyId: string, manager?: EntityManager): Promise<void> {
+    await this.getRepository(manager).update({ familyId }, { lastSeenAt: new Date() });
+  }
+
+  /**
+   * 按 ID 查找会话
+   * @param id 会话 ID
+   */
+  async findById(id: number): Promise<AuthSessionEntity | null> {
+    return await this.sessionRepository.findOne({ where: { id } });
+  }
+
+  /**
+   * 清除账户全部会话的设备信息（IP 与 User-Agent），会话行保留供管理端审计
+   * @param params.accountId 账户 ID
+   * @param params.manager 事务管理器
+   */
+  async clearDeviceInfoByAccountId(params: {
+    accountId: number;
+    manager: EntityManager;
+  }): Promise<void> {
+    await this.getRepository(params.manager).update(
+      { accountId: params.accountId },
+      { ip: null, userAgent: null },
+    );
+  }
+
+  private getRepository(manager?: EntityManager): Repository<AuthSessionEntity> {
+    return manager ? manager.getRepository(AuthSessionEntity) : this.sessionRepository;
+  }
+}
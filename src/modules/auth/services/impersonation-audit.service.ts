@@ -0,0 +1,46 @@
+// src/modules/auth/services/impersonation-audit.service.ts
+
+import { ImpersonationAuditAction } from '@app-types/auth/impersonation.types';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { ImpersonationAuditEntity } from '../entities/impersonation-audit.entity';
+
+const USER_AGENT_MAX_LENGTH = 255;
+const REASON_MAX_LENGTH = 255;
+
+/**
+ * 代登录审计服务
+ * 审计记录只追加，不提供修改与删除
+ */
+@Injectable()
+export class ImpersonationAuditService {
+  constructor(
+    @InjectRepository(ImpersonationAuditEntity)
+    private readonly auditRepository: Repository<ImpersonationAuditEntity>,
+  ) {}
+
+  /**
+   * 写入一条代登录审计记录
+   * @param params 管理员、目标账户、动作与请求来源
+   */
+  async record(params: {
+    impersonatorId: number;
+    targetAccountId: number;
+    action: ImpersonationAuditAction;
+    reason?: string | null;
+    familyId?: string | null;
+    ip?: string | null;
+    userAgent?: string | null;
+  }): Promise<void> {
+    await this.auditRepository.insert({
+      impersonatorId: params.impersonatorId,
+      targetAccountId: params.targetAccountId,
+      action: params.action,
+      reason: params.reason?.slice(0, REASON_MAX_LENGTH) || null,
+      familyId: params.familyId ?? null,
+      ip: params.ip || null,
+      userAgent: params.userAgent?.slice(0, USER_AGENT_MAX_LENGTH) || null,
+    });
+  }
+}
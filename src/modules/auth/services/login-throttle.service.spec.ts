@@ -0,0 +1,224 @@
+// src/modules/auth/services/login-throttle.service.spec.ts
+import {
+  LoginLockReason,
+  LoginThrottleConfig,
+  LoginThrottleScope,
+} from '@app-types/auth/login-throttle.types';
+import { AUTH_ERROR } from '@core/common/errors/domain-error';
+import type { ConfigService } from '@nestjs/config';
+import type Redis from 'ioredis';
+import type { PinoLogger } from 'nestjs-pino';
+import { LoginThrottleService } from './login-throttle.service';
+
+type SortedSets = Map<string, Map<string, number>>;
+
+type RedisMultiMock = {
+  readonly zremrangebyscore: (key: string, min: number, max: number) => RedisMultiMock;
+  readonly zadd: (key: string, score: number, member: string) => RedisMultiMock;
+  readonly zcard: (key: string) => RedisMultiMock;
+  readonly pexpire: () => RedisMultiMock;
+  readonly exec: () => Promise<Array<[null, unknown]>>;
+};
+
+type RedisMock = {
+  status: string;
+  readonly multi: jest.Mock<RedisMultiMock, []>;
+  readonly pttl: jest.Mock<Promise<number>, [string]>;
+  readonly set: jest.Mock<Promise<string>, [string, string, string, number]>;
+  readonly del: jest.Mock<Promise<number>, [string]>;
+};
+
+type ConfigServiceMock = {
+  readonly get: jest.Mock<LoginThrottleConfig | undefined, [string]>;
+};
+
+type LoggerMock = {
+  readonly setContext: jest.Mock<void, [string]>;
+  readonly warn: jest.Mock<void, [object, string]>;
+};
+
+const baseConfig: LoginThrottleConfig = {
+  enabled: true,
+  windowSeconds: 900,
+  maxAttemptsPerLoginName: 3,
+  maxAttemptsPerIp: 10,
+  lockSeconds: 600,
+  delayStepMs: 0,
+  maxDelayMs: 0,
+};
+
+/**
+ * 基于内存有序集合的 MULTI 事务，只实现滑动窗口计数用到的命令
+ */
+function createMulti(sets: SortedSets): RedisMultiMock {
+  const ops: Array<() => [null, unknown]> = [];
+  const chain: RedisMultiMock = {
+    zremrangebyscore: (key, min, max) => {
+      ops.push(() => {
+        const set = sets.get(key);
+        set?.forEach((score, member) => {
+          if (score >= min && score <= max) set.delete(member);
+        });
+        return [null, 0];
+      });
+      return chain;
+    },
+    zadd: (key, score, member) => {
+      ops.push(() => {
+        const set = sets.get(key) ?? new Map<string, number>();
+        set.set(member, score);
+        sets.set(key, set);
+        return [null, 1];
+      });
+      return chain;
+    },
+    zcard: (key) => {
+      ops.push(() => [null, sets.get(key)?.size ?? 0]);
+      return chain;
+    },
+    pexpire: () => {
+      ops.push(() => [null, 1]);
+      return chain;
+    },
+    exec: () => Promise.resolve(ops.map((op) => op())),
+  };
+  return chain;
+}
+
+describe('LoginThrottleService', () => {
+  const subject = { scope: LoginThrottleScope.PASSWORD, loginName: 'Alice', ip: '10.0.0.1' };
+
+  let sets: SortedSets;
+  let locks: Map<string, number>;
+  let redis: RedisMock;
+  let configService: ConfigServiceMock;
+  let logger: LoggerMock;
+  let service: LoginThrottleService;
+
+  beforeEach(() => {
+    sets = new Map();
+    locks = new Map();
+    redis = {
+      status: 'ready',
+      multi: jest.fn(() => createMulti(sets)),
+      pttl: jest.fn((key: string) => Promise.resolve(locks.has(key) ? locks.get(key)! * 1000 : -2)),
+      set: jest.fn((key: string, _value: string, _mode: string, seconds: number) => {
+        locks.set(key, seconds);
+        return Promise.resolve('OK');
+      }),
+      del: jest.fn((key: string) => {
+        sets.delete(key);
+        locks.delete(key);
+        return Promise.resolve(1);
+      }),
+    };
+    configService = {
+      get: jest.fn().mockReturnValue(baseConfig),
+    };
+    logger = {
+      setContext: jest.fn(),
+      warn: jest.fn(),
+    };
+
+    service = new LoginThrottleService(
+      redis as unknown as Redis,
+      configService as unknown as ConfigService,
+      logger as unknown as PinoLogger,
+    );
+  });
+
+  it('同一登录名失败达到阈值后应锁定，并返回重试提示', async () => {
+    for (let i = 0; i < 3; i += 1) {
+      await service.assertNotLocked(subject);
+      await service.recordFailure(subject);
+    }
+
+    // 登录名大小写不敏感
+    await expect(service.assertNotLocked({ ...subject, loginName: 'alice' })).rejects.toMatchObject(
+      {
+        code: AUTH_ERROR.LOGIN_LOCKED,
+        details: {
+          reason: LoginLockReason.LOGIN_NAME_FAILURES,
+          retryAfterSeconds: 600,
+        },
+      },
+    );
+  });
+
+  it('成功登录应清除登录名维度的失败计数', async () => {
+    await service.recordFailure(subject);
+    await service.recordFailure(subject);
+    await service.recordSuccess(subject);
+    await service.recordFailure(subject);
+
+    await expect(service.assertNotLocked(subject)).resolves.toBeUndefined();
+  });
+
+  it('同一 IP 对不同登录名的失败应累计到 IP 维度', async () => {
+    configService.get.mockReturnValue({ ...baseConfig, maxAttemptsPerIp: 2 });
+    const ipLimited = new LoginThrottleService(
+      redis as unknown as Redis,
+      configService as unknown as ConfigService,
+      logger as unknown as PinoLogger,
+    );
+
+    await ipLimited.recordFailure({
+      scope: LoginThrottleScope.PASSWORD,
+      loginName: 'a',
+      ip: '1.1.1.1',
+    });
+    await ipLimited.recordFailure({
+      scope: LoginThrottleScope.PASSWORD,
+      loginName: 'b',
+      ip: '1.1.1.1',
+    });
+
+    await expect(
+      ipLimited.assertNotLocked({
+        scope: LoginThrottleScope.PASSWORD,
+        loginName: 'c',
+        ip: '1.1.1.1',
+      }),
+    ).rejects.toMatchObject({
+      code: AUTH_ERROR.LOGIN_LOCKED,
+      details: { reason: LoginLockReason.IP_FAILURES },
+    });
+    // 不同场景独立计数
+    await expect(
+      ipLimited.assertNotLocked({ scope: LoginThrottleScope.VERIFICATION, ip: '1.1.1.1' }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('Redis 未就绪时应放行且不访问 Redis', async () => {
+    redis.status = 'connecting';
+
+    for (let i = 0; i < 5; i += 1) {
+      await service.recordFailure(subject);
+    }
+
+    await expect(service.assertNotLocked(subject)).resolves.toBeUndefined();
+    expect(redis.pttl).not.toHaveBeenCalled();
+    expect(redis.multi).not.toHaveBeenCalled();
+  });
+
+  it('未启用时应放行且不计数', async () => {
+    configService.get.mockReturnValue({ ...baseConfig, enabled: false });
+    const disabled = new LoginThrottleService(
+      redis as unknown as Redis,
+      configService as unknown as ConfigService,
+      logger as unknown as PinoLogger,
+    );
+
+    await disabled.recordFailure(subject);
+
+    expect(sets.size).toBe(0);
+    expect(redis.multi).not.toHaveBeenCalled();
+  });
+
+  it('Redis 命令出错时应放行', async () => {
+    redis.pttl.mockRejectedValue(new Error('boom'));
+
+    await expect(service.assertNotLocked(subject)).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledTimes(1);
+  });
+});
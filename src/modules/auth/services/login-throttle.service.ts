@@ -0,0 +1,217 @@
+// src/modules/auth/services/login-throttle.service.ts
+
+import {
+  LoginLockReason,
+  LoginThrottleConfig,
+  LoginThrottleSubject,
+} from '@app-types/auth/login-throttle.types';
+import { AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { REDIS_CLIENT } from '@src/infrastructure/redis/redis.module';
+import { randomUUID } from 'crypto';
+import type Redis from 'ioredis';
+import { PinoLogger } from 'nestjs-pino';
+
+const THROTTLE_KEY_PREFIX = 'auth:throttle:';
+
+/**
+ * 单个计数维度（登录名 / IP）
+ */
+interface ThrottleDimension {
+  reason: LoginLockReason;
+  failureKey: string;
+  lockKey: string;
+  maxAttempts: number;
+}
+
+/**
+ * 登录防暴力破解服务
+ * - 失败计数：Redis 有序集合实现滑动窗口，按登录名与 IP 分别计数
+ * - 渐进延迟：失败次数越多，本次失败响应越慢（有上限）
+ * - 临时锁定：窗口内失败次数达到阈值后写入带 TTL 的锁，到期自动解除
+ * - Redis 未就绪或命令出错时放行，不阻断登录
+ */
+@Injectable()
+export class LoginThrottleService {
+  private readonly config: LoginThrottleConfig | undefined;
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(LoginThrottleService.name);
+    this.config = configService.get<LoginThrottleConfig>('loginThrottle');
+  }
+
+  /**
+   * 校验主体未处于锁定状态
+   * @param subject 限流主体
+   * @throws DomainError(AUTH_ERROR.LOGIN_LOCKED) 携带 retryAfterSeconds 与 reason
+   */
+  async assertNotLocked(subject: LoginThrottleSubject): Promise<void> {
+    const dimensions = this.resolveDimensions(subject);
+    if (dimensions.length === 0) {
+      return;
+    }
+
+    let ttls: number[];
+    try {
+      ttls = await Promise.all(dimensions.map((dimension) => this.redis.pttl(dimension.lockKey)));
+    } catch (error) {
+      this.warnRedisFailure(subject, error, '查询登录锁定状态失败，已放行');
+      return;
+    }
+
+    const lockedIndex = ttls.findIndex((ttl) => ttl > 0);
+    if (lockedIndex < 0) {
+      return;
+    }
+
+    const retryAfterSeconds = Math.ceil(ttls[lockedIndex] / 1000);
+    throw new DomainError(
+      AUTH_ERROR.LOGIN_LOCKED,
+      `尝试次数过多，请 ${retryAfterSeconds} 秒后再试`,
+      {
+        scope: subject.scope,
+        reason: dimensions[lockedIndex].reason,
+        retryAfterSeconds,
+      },
+    );
+  }
+
+  /**
+   * 记录一次失败：累加滑动窗口计数，达到阈值时锁定，并按失败次数施加延迟
+   * @param subject 限流主体
+   */
+  async recordFailure(subject: LoginThrottleSubject): Promise<void> {
+    const config = this.config;
+    const dimensions = this.resolveDimensions(subject);
+    if (!config || dimensions.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const windowMs = config.windowSeconds * 1000;
+    let maxFailures = 0;
+
+    try {
+      for (const dimension of dimensions) {
+        const failures = await this.countFailure(dimension.failureKey, now, windowMs);
+        maxFailures = Math.max(maxFailures, failures);
+
+        if (failures >= dimension.maxAttempts) {
+          await this.redis.set(dimension.lockKey, dimension.reason, 'EX', config.lockSeconds);
+          await this.redis.del(dimension.failureKey);
+          this.logger.warn(
+            {
+              event: 'login_throttle_locked',
+              scope: subject.scope,
+              reason: dimension.reason,
+              loginName: subject.loginName,
+              ip: subject.ip,
+              failures,
+              lockSeconds: config.lockSeconds,
+            },
+            '失败次数达到阈值，已临时锁定',
+          );
+        }
+      }
+    } catch (error) {
+      this.warnRedisFailure(subject, error, '记录登录失败次数失败，已放行');
+      return;
+    }
+
+    const delayMs = Math.min(config.maxDelayMs, config.delayStepMs * Math.max(maxFailures - 1, 0));
+    if (delayMs > 0) {
+      await new Promise<void>((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
+  /**
+   * 记录一次成功：清除登录名维度的失败计数
+   * IP 维度不清零，避免同一来源借一个可用账户重置对其它账户的试探
+   * @param subject 限流主体
+   */
+  async recordSuccess(subject: LoginThrottleSubject): Promise<void> {
+    const dimension = this.resolveDimensions(subject).find(
+      (item) => item.reason === LoginLockReason.LOGIN_NAME_FAILURES,
+    );
+    if (!dimension) {
+      return;
+    }
+    try {
+      await this.redis.del(dimension.failureKey);
+    } catch (error) {
+      this.warnRedisFailure(subject, error, '清除登录失败计数失败');
+    }
+  }
+
+  /**
+   * 滑动窗口计数：清理窗口外的记录 → 追加本次失败 → 返回窗口内失败次数
+   */
+  private async countFailure(key: string, now: number, windowMs: number): Promise<number> {
+    const results = await this.redis
+      .multi()
+      .zremrangebyscore(key, 0, now - windowMs)
+      .zadd(key, now, `${now}:${randomUUID()}`)
+      .zcard(key)
+      .pexpire(key, windowMs)
+      .exec();
+    const [error, count] = results?.[2] ?? [null, 0];
+    if (error) {
+      throw error;
+    }
+    return Number(count);
+  }
+
+  /**
+   * 解析需要计数的维度；未启用或 Redis 未就绪时返回空数组
+   */
+  private resolveDimensions(subject: LoginThrottleSubject): ThrottleDimension[] {
+    const config = this.config;
+    if (!config?.enabled || !this.isRedisReady()) {
+      return [];
+    }
+
+    const base = `${THROTTLE_KEY_PREFIX}${subject.scope}:`;
+    const dimensions: ThrottleDimension[] = [];
+    const loginName = subject.loginName?.trim().toLowerCase();
+    if (loginName) {
+      dimensions.push({
+        reason: LoginLockReason.LOGIN_NAME_FAILURES,
+        failureKey: `${base}fail:name:${loginName}`,
+        lockKey: `${base}lock:name:${loginName}`,
+        maxAttempts: config.maxAttemptsPerLoginName,
+      });
+    }
+    const ip = subject.ip?.trim();
+    if (ip) {
+      dimensions.push({
+        reason: LoginLockReason.IP_FAILURES,
+        failureKey: `${base}fail:ip:${ip}`,
+        lockKey: `${base}lock:ip:${ip}`,
+        maxAttempts: config.maxAttemptsPerIp,
+      });
+    }
+    return dimensions;
+  }
+
+  /** 连接未就绪时 ioredis 会排队挂起命令，这里直接放行 */
+  private isRedisReady(): boolean {
+    return this.redis.status === 'ready';
+  }
+
+  private warnRedisFailure(subject: LoginThrottleSubject, error: unknown, message: string): void {
+    this.logger.warn(
+      {
+        scope: subject.scope,
+        loginName: subject.loginName,
+        ip: subject.ip,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      message,
+    );
+  }
+}
@@ -0,0 +1,274 @@
+// src/modules/auth/services/mfa.service.ts
+
+import {
+  MfaConfig,
+  MfaFactorStatus,
+  MfaMethod,
+  MfaStatusView,
+  TotpEnrollmentView,
+} from '@app-types/auth/mfa.types';
+import { AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import {
+  buildOtpauthUri,
+  encodeBase32,
+  generateTotpSecret,
+  verifyTotp,
+} from '@core/common/otp/totp.helper';
+import { TokenFingerprintHelper } from '@modules/common/security/token-fingerprint.helper';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { EntityManager, IsNull, Repository } from 'typeorm';
+import { MfaFactorEntity } from '../entities/mfa-factor.entity';
+import { MfaRecoveryCodeEntity } from '../entities/mfa-recovery-code.entity';
+
+/**
+ * 二次验证（TOTP）服务
+ * - 因子：每个账户至多一个，PENDING 绑定确认后转为 ENABLED
+ * - 恢复码：只存 SHA-256 指纹（同 TokenFingerprintHelper 对验证 token 的处理），一次性使用
+ * - 防重放：记录最近一次通过的时间步，同一时间步的验证码不可再次使用
+ */
+@Injectable()
+export class MfaService {
+  private readonly config: MfaConfig | undefined;
+
+  constructor(
+    @InjectRepository(MfaFactorEntity)
+    private readonly factorRepository: Repository<MfaFactorEntity>,
+    @InjectRepository(MfaRecoveryCodeEntity)
+    private readonly recoveryCodeRepository: Repository<MfaRecoveryCodeEntity>,
+    configService: ConfigService,
+  ) {
+    this.config = configService.get<MfaConfig>('mfa');
+  }
+
+  /**
+   * 判断权限组是否被 MFA_REQUIRED 策略强制要求二次验证
+   * @param accessGroup 账户权限组
+   */
+  isRequiredFor(accessGroup: readonly string[]): boolean {
+    const required = this.config?.requiredIdentities ?? [];
+    return accessGroup.some((identity) => required.includes(identity));
+  }
+
+  /**
+   * 账户是否已启用二次验证
+   * @param accountId 账户 ID
+   */
+  async isEnabled(accountId: number): Promise<boolean> {
+    const count = await this.factorRepository.count({
+      where: { accountId, status: MfaFactorStatus.ENABLED },
+    });
+    return count > 0;
+  }
+
+  /**
+   * 查询账户二次验证状态
+   * @param params 账户 ID 与权限组
+   */
+  async getStatus(params: {
+    accountId: number;
+    accessGroup: readonly string[];
+  }): Promise<MfaStatusView> {
+    const enabled = await this.isEnabled(params.accountId);
+    const recoveryCodesRemaining = enabled
+      ? await this.recoveryCodeRepository.count({
+          where: { accountId: params.accountId, usedAt: IsNull() },
+        })
+      : 0;
+    return {
+      enabled,
+      required: this.isRequiredFor(params.accessGroup),
+      recoveryCodesRemaining,
+    };
+  }
+
+  /**
+   * 开始绑定 TOTP：生成新密钥并保存为 PENDING（重复调用会替换未确认的密钥）
+   * @param params 账户 ID 与身份验证器中展示的账户名
+   * @returns 密钥与 otpauth URI（仅此一次返回）
+   */
+  async beginTotpEnrollment(params: {
+    accountId: number;
+    accountName: string;
+  }): Promise<TotpEnrollmentView> {
+    const existing = await this.factorRepository.findOne({
+      where: { accountId: params.accountId },
+    });
+    if (existing?.status === MfaFactorStatus.ENABLED) {
+      throw new DomainError(AUTH_ERROR.MFA_ALREADY_ENABLED, '已启用二次验证，请先停用后再重新绑定');
+    }
+
+    const secret = generateTotpSecret();
+    const factor =
+      existing ??
+      this.factorRepository.create({
+        accountId: params.accountId,
+        method: MfaMethod.TOTP,
+        lastUsedStep: null,
+        enabledAt: null,
+      });
+    factor.secret = secret;
+    factor.status = MfaFactorStatus.PENDING;
+    // 保存时密钥会被字段加密原地改写，故返回前面保留的明文
+    await this.factorRepository.save(factor);
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri({
+        secret,
+        issuer: this.config?.issuer ?? 'SSTS',
+        accountName: params.accountName,
+      }),
+    };
+  }
+
+  /**
+   * 确认绑定：校验首个验证码，启用因子并生成恢复码
+   * @param params 账户 ID 与验证码
+   * @returns 恢复码原文（仅此一次返回）
+   */
+  async confirmTotpEnrollment(params: { accountId: number; code: string }): Promise<string[]> {
+    const factor = await this.factorRepository.findOne({
+      where: { accountId: params.accountId, status: MfaFactorStatus.PENDING },
+    });
+    if (!factor) {
+      throw new DomainError(AUTH_ERROR.MFA_NOT_ENABLED, '未找到待确认的二次验证绑定');
+    }
+
+    const step = verifyTotp({ secret: factor.secret, code: params.code });
+    if (step === null) {
+      throw new DomainError(AUTH_ERROR.MFA_CODE_INVALID, '验证码错误');
+    }
+
+    return await this.factorRepository.manager.transaction(async (manager) => {
+      const result = await manager
+        .getRepository(MfaFactorEntity)
+        .update(
+          { id: factor.id, status: MfaFactorStatus.PENDING },
+          { status: MfaFactorStatus.ENABLED, enabledAt: new Date(), lastUsedStep: step },
+        );
+      if ((result.affected ?? 0) === 0) {
+        throw new DomainError(AUTH_ERROR.MFA_ALREADY_ENABLED, '二次验证已启用');
+      }
+      return await this.replaceRecoveryCodes(params.accountId, manager);
+    });
+  }
+
+  /**
+   * 校验第二因子：先按 TOTP 校验，不匹配时尝试恢复码
+   * @param params 账户 ID 与验证码（TOTP 或恢复码）
+   * @throws DomainError(AUTH_ERROR.MFA_CODE_INVALID)
+   */
+  async verifySecondFactor(params: { accountId: number; code: string }): Promise<void> {
+    const factor = await this.factorRepository.findOne({
+      where: { accountId: params.accountId, status: MfaFactorStatus.ENABLED },
+    });
+    if (!factor) {
+      throw new DomainError(AUTH_ERROR.MFA_NOT_ENABLED, '账户未启用二次验证');
+    }
+
+    const step = verifyTotp({ secret: factor.secret, code: params.code });
+    if (step !== null) {
+      // 条件更新：同一时间步（及更早）的验证码只能使用一次
+      const result = await this.factorRepository
+        .createQueryBuilder()
+        .update(MfaFactorEntity)
+        .set({ lastUsedStep: step })
+        .where('id = :id', { id: factor.id })
+        .andWhere('(last_used_step IS NULL OR last_used_step < :step)', { step })
+        .execute();
+      if ((result.affected ?? 0) > 0) {
+        return;
+      }
+      throw new DomainError(AUTH_ERROR.MFA_CODE_INVALID, '验证码已使用，请等待下一个验证码');
+    }
+
+    if (await this.consumeRecoveryCode(params)) {
+      return;
+    }
+    throw new DomainError(AUTH_ERROR.MFA_CODE_INVALID, '验证码错误');
+  }
+
+  /**
+   * 重新生成恢复码（旧恢复码全部作废）
+   * @param accountId 账户 ID
+   * @returns 新恢复码原文
+   */
+  async regenerateRecoveryCodes(accountId: number): Promise<string[]> {
+    return await this.factorRepository.manager.transaction((manager) =>
+      this.replaceRecoveryCodes(accountId, manager),
+    );
+  }
+
+  /**
+   * 停用二次验证：删除因子与全部恢复码
+   * @param accountId 账户 ID
+   */
+  async disable(accountId: number): Promise<void> {
+    await this.factorRepository.manager.transaction((manager) =>
+      this.removeAllByAccountId({ accountId, manager }),
+    );
+  }
+
+  /**
+   * 删除账户的二次验证因子与全部恢复码（账户注销时随调用方事务执行）
+   * @param params.accountId 账户 ID
+   * @param params.manager 事务管理器
+   */
+  async removeAllByAccountId(params: { accountId: number; manager: EntityManager }): Promise<void> {
+    const { accountId, manager } = params;
+    await manager.getRepository(MfaFactorEntity).delete({ accountId });
+    await manager.getRepository(MfaRecoveryCodeEntity).delete({ accountId });
+  }
+
+  /**
+   * 消费一枚恢复码（条件更新，保证只能使用一次）
+   */
+  private async consumeRecoveryCode(params: { accountId: number; code: string }): Promise<boolean> {
+    const normalized = this.normalizeRecoveryCode(params.code);
+    if (!normalized) {
+      return false;
+    }
+    const result = await this.recoveryCodeRepository.update(
+      {
+        accountId: params.accountId,
+        codeFp: TokenFingerprintHelper.generateTokenFingerprint({ token: normalized }),
+        usedAt: IsNull(),
+      },
+      { usedAt: new Date() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  private async replaceRecoveryCodes(accountId: number, manager: EntityManager): Promise<string[]> {
+    const repository = manager.getRepository(MfaRecoveryCodeEntity);
+    await repository.delete({ accountId });
+
+    const codes = Array.from({ length: this.config?.recoveryCodeCount ?? 10 }, () =>
+      this.generateRecoveryCode(),
+    );
+    await repository.insert(
+      codes.map((code) => ({
+        accountId,
+        codeFp: TokenFingerprintHelper.generateTokenFingerprint({
+          token: this.normalizeRecoveryCode(code),
+        }),
+        usedAt: null,
+      })),
+    );
+    return codes;
+  }
+
+  /** 生成形如 ABCD-EFGH 的恢复码（40 bit 随机） */
+  private generateRecoveryCode(): string {
+    const raw = encodeBase32(randomBytes(5));
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  }
+
+  /** 恢复码忽略大小写、空白与连字符 */
+  private normalizeRecoveryCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toUpperCase();
+  }
+}
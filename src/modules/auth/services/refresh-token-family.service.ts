@@ -0,0 +1,167 @@
+// src/modules/auth/services/refresh-token-family.service.ts
+
+import {
+  RefreshTokenFamilyStatus,
+  RefreshTokenFamilyView,
+  RefreshTokenRevokeReason,
+} from '@app-types/auth/refresh-token.types';
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import { EntityManager, Repository } from 'typeorm';
+import { RefreshTokenFamilyEntity } from '../entities/refresh-token-family.entity';
+
+/**
+ * Refresh Token 家族服务
+ * 负责家族的创建、轮换与作废；不负责签发 JWT
+ */
+@Injectable()
+export class RefreshTokenFamilyService {
+  constructor(
+    @InjectRepository(RefreshTokenFamilyEntity)
+    private readonly familyRepository: Repository<RefreshTokenFamilyEntity>,
+  ) {}
+
+  /**
+   * 创建新的 token 家族
+   * @param params 账户、客户端类型与 tokenVersion
+   * @returns 新家族视图（含首枚 jti）
+   */
+  async createFamily(params: {
+    accountId: number;
+    audience?: AudienceTypeEnum | null;
+    tokenVersion: number;
+    manager?: EntityManager;
+  }): Promise<RefreshTokenFamilyView> {
+    const repository = this.getRepository(params.manager);
+    const entity = repository.create({
+      familyId: randomUUID(),
+      accountId: params.accountId,
+      audience: params.audience ?? null,
+      currentJti: randomUUID(),
+      tokenVersion: params.tokenVersion,
+      rotationCount: 0,
+      status: RefreshTokenFamilyStatus.ACTIVE,
+      revokedReason: null,
+      revokedAt: null,
+      lastRotatedAt: null,
+    });
+    const saved = await repository.save(entity);
+    return this.toView(saved);
+  }
+
+  /**
+   * 加锁读取家族（需在事务内调用）
+   * @param familyId 家族 ID
+   * @param manager 事务管理器
+   */
+  async lockByFamilyIdForUpdate(
+    familyId: string,
+    manager: EntityManager,
+  ): Promise<RefreshTokenFamilyView | null> {
+    const entity = await manager
+      .getRepository(RefreshTokenFamilyEntity)
+      .createQueryBuilder('family')
+      .where('family.familyId = :familyId', { familyId })
+      .setLock('pessimistic_write')
+      .getOne();
+    return entity ? this.toView(entity) : null;
+  }
+
+  /**
+   * 轮换家族的当前 jti
+   * 条件更新：仅当 currentJti 与期望值一致且家族仍有效时成功
+   * @returns 新的 jti；条件不满足时返回 null
+   */
+  async rotate(params: {
+    familyId: string;
+    expectedJti: string;
+    manager?: EntityManager;
+  }): Promise<string | null> {
+    const repository = this.getRepository(params.manager);
+    const nextJti = randomUUID();
+    const result = await repository
+      .createQueryBuilder()
+      .update(RefreshTokenFamilyEntity)
+      .set({
+        currentJti: nextJti,
+        rotationCount: () => 'rotation_count + 1',
+        lastRotatedAt: new Date(),
+      })
+      .where('family_id = :familyId', { familyId: params.familyId })
+      .andWhere('current_jti = :expectedJti', { expectedJti: params.expectedJti })
+      .andWhere('status = :status', { status: RefreshTokenFamilyStatus.ACTIVE })
+      .execute();
+    return (result.affected ?? 0) > 0 ? nextJti : null;
+  }
+
+  /**
+   * 作废整个家族
+   * @returns 是否发生了状态变更
+   */
+  async revokeFamily(params: {
+    familyId: string;
+    reason: RefreshTokenRevokeReason;
+    manager?: EntityManager;
+  }): Promise<boolean> {
+    const repository = this.getRepository(params.manager);
+    const result = await repository.update(
+      { familyId: params.familyId, status: RefreshTokenFamilyStatus.ACTIVE },
+      {
+        status: RefreshTokenFamilyStatus.REVOKED,
+        revokedReason: params.reason,
+        revokedAt: new Date(),
+      },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * 作废账户下全部有效家族
+   * @returns 作废的家族数量
+   */
+  async revokeAllByAccountId(params: {
+    accountId: number;
+    reason: RefreshTokenRevokeReason;
+    manager?: EntityManager;
+  }): Promise<number> {
+    const repository = this.getRepository(params.manager);
+    const result = await repository.update(
+      { accountId: params.accountId, status: RefreshTokenFamilyStatus.ACTIVE },
+      {
+        status: RefreshTokenFamilyStatus.REVOKED,
+        revokedReason: params.reason,
+        revokedAt: new Date(),
+      },
+    );
+    return result.affected ?? 0;
+  }
+
+  /** 事务执行（使用 RefreshTokenFamilyEntity 的 manager） */
+  async runTransaction<T>(callback: (manager: EntityManager) => Promise<T>): Promise<T> {
+    return await this.familyRepository.manager.transaction(callback);
+  }
+
+  private getRepository(manager?: EntityManager): Repository<RefreshTokenFamilyEntity> {
+    return manager ? manager.getRepository(RefreshTokenFamilyEntity) : this.familyRepository;
+  }
+
+  private toView(entity: RefreshTokenFamilyEntity): RefreshTokenFamilyView {
+    return {
+      id: entity.id,
+      familyId: entity.familyId,
+      accountId: entity.accountId,
+      audience: entity.audience,
+      currentJti: entity.currentJti,
+      tokenVersion: entity.tokenVersion,
+      rotationCount: entity.rotationCount,
+      status: entity.status,
+      revokedReason: entity.revokedReason,
+      revokedAt: entity.revokedAt,
+      lastRotatedAt: entity.lastRotatedAt,
+      createdAt: entity.createdAt,
+      updatedAt: entity.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,83 @@
+// src/modules/auth/services/token-revocation.service.spec.ts
+import type Redis from 'ioredis';
+import type { PinoLogger } from 'nestjs-pino';
+import type { Repository } from 'typeorm';
+import type { RefreshTokenFamilyEntity } from '../entities/refresh-token-family.entity';
+import type { RevokedAccessTokenEntity } from '../entities/revoked-access-token.entity';
+import { TokenRevocationService } from './token-revocation.service';
+
+/**
+ * 仅实现 get / set（含 NX）的内存版 Redis
+ */
+const createFakeRedis = (status = 'ready') => {
+  const store = new Map<string, string>();
+  const redis = {
+    status,
+    get: jest.fn((key: string) => Promise.resolve(store.get(key) ?? null)),
+    set: jest.fn((key: string, value: string, ...args: Array<string | number>) => {
+      if (args.includes('NX') && store.has(key)) {
+        return Promise.resolve(null);
+      }
+      store.set(key, value);
+      return Promise.resolve('OK');
+    }),
+  };
+  return redis;
+};
+
+describe('TokenRevocationService 会话状态缓存', () => {
+  const familyId = 'family-1';
+
+  const buildService = (revokedInDb: boolean, redisStatus = 'ready') => {
+    const redis = createFakeRedis(redisStatus);
+    const familyRepository = {
+      count: jest.fn(() => Promise.resolve(revokedInDb ? 1 : 0)),
+    };
+    const logger = { setContext: jest.fn(), warn: jest.fn() };
+    const service = new TokenRevocationService(
+      {} as Repository<RevokedAccessTokenEntity>,
+      familyRepository as unknown as Repository<RefreshTokenFamilyEntity>,
+      redis as unknown as Redis,
+      logger as unknown as PinoLogger,
+    );
+    return { service, redis, familyRepository };
+  };
+
+  it('未命中时回退数据库并回填，后续请求只查 Redis', async () => {
+    const { service, familyRepository } = buildService(false);
+
+    expect(await service.isSessionRevoked(familyId)).toBe(false);
+    expect(await service.isSessionRevoked(familyId)).toBe(false);
+    expect(familyRepository.count).toHaveBeenCalledTimes(1);
+  });
+
+  it('下线标记覆盖已缓存的有效状态', async () => {
+    const { service, familyRepository } = buildService(false);
+    await service.isSessionRevoked(familyId);
+
+    await service.markSessionRevoked(familyId);
+
+    expect(await service.isSessionRevoked(familyId)).toBe(true);
+    expect(familyRepository.count).toHaveBeenCalledTimes(1);
+  });
+
+  it('回填有效状态不会覆盖并发写入的下线标记', async () => {
+    const { service, redis } = buildService(false);
+    redis.get.mockImplementationOnce(async () => {
+      await service.markSessionRevoked(familyId);
+      return null;
+    });
+
+    expect(await service.isSessionRevoked(familyId)).toBe(false);
+    expect(await service.isSessionRevoked(familyId)).toBe(true);
+  });
+
+  it('Redis 未就绪时直接查数据库', async () => {
+    const { service, redis, familyRepository } = buildService(true, 'connecting');
+
+    expect(await service.isSessionRevoked(familyId)).toBe(true);
+    expect(familyRepository.count).toHaveBeenCalledTimes(1);
+    expect(redis.get).not.toHaveBeenCalled();
+    expect(redis.set).not.toHaveBeenCalled();
+  });
+});
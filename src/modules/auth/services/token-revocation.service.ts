@@ -0,0 +1,187 @@
+// src/modules/auth/services/token-revocation.service.ts
+
+import {
+  RefreshTokenFamilyStatus,
+  RefreshTokenRevokeReason,
+} from '@app-types/auth/refresh-token.types';
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { REDIS_CLIENT } from '@src/infrastructure/redis/redis.module';
+import type Redis from 'ioredis';
+import { PinoLogger } from 'nestjs-pino';
+import { MoreThan, Repository } from 'typeorm';
+import { RefreshTokenFamilyEntity } from '../entities/refresh-token-family.entity';
+import { RevokedAccessTokenEntity } from '../entities/revoked-access-token.entity';
+
+const REVOKED_JTI_KEY_PREFIX = 'auth:revoked-jti:';
+const SESSION_STATE_KEY_PREFIX = 'auth:session-state:';
+/** 会话已下线标记的缓存时长；过期后回退数据库重新判定 */
+const SESSION_REVOKED_TTL_MS = 24 * 60 * 60 * 1000;
+/** 会话有效状态的缓存时长；仅在下线时写标记失败的情况下决定最长延迟 */
+const SESSION_ACTIVE_TTL_MS = 60 * 1000;
+
+/**
+ * access token 注销名单服务
+ * - 写入：数据库为准，Redis 为带 TTL 的热缓存（写失败仅告警）
+ * - 读取：Redis 可用时只查 Redis；不可用或出错时回退数据库
+ * - 会话（家族）状态：Redis 缓存下线标记与短期有效状态，未命中时回退数据库并回填
+ */
+@Injectable()
+export class TokenRevocationService {
+  constructor(
+    @InjectRepository(RevokedAccessTokenEntity)
+    private readonly revokedRepository: Repository<RevokedAccessTokenEntity>,
+    @InjectRepository(RefreshTokenFamilyEntity)
+    private readonly familyRepository: Repository<RefreshTokenFamilyEntity>,
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(TokenRevocationService.name);
+  }
+
+  /**
+   * 注销单枚 access token
+   * @param params jti、账户、原过期时间与注销原因
+   */
+  async revokeAccessToken(params: {
+    jti: string;
+    accountId: number;
+    expiresAt: Date;
+    reason: RefreshTokenRevokeReason;
+  }): Promise<void> {
+    const ttlMs = params.expiresAt.getTime() - Date.now();
+    if (ttlMs <= 0) {
+      return;
+    }
+
+    await this.revokedRepository
+      .createQueryBuilder()
+      .insert()
+      .into(RevokedAccessTokenEntity)
+      .values({
+        jti: params.jti,
+        accountId: params.accountId,
+        reason: params.reason,
+        expiresAt: params.expiresAt,
+      })
+      .orIgnore()
+      .execute();
+
+    if (!this.isRedisReady()) {
+      return;
+    }
+    try {
+      await this.redis.set(this.buildKey(params.jti), params.reason, 'PX', ttlMs);
+    } catch (error) {
+      this.logger.warn(
+        { jti: params.jti, error: error instanceof Error ? error.message : String(error) },
+        '写入 Redis 注销名单失败，将依赖数据库兜底',
+      );
+    }
+  }
+
+  /**
+   * 判断 access token 是否已注销
+   * @param jti access token 的 jti
+   */
+  async isAccessTokenRevoked(jti: string): Promise<boolean> {
+    if (this.isRedisReady()) {
+      try {
+        return (await this.redis.exists(this.buildKey(jti))) > 0;
+      } catch (error) {
+        this.logger.warn(
+          { jti, error: error instanceof Error ? error.message : String(error) },
+          '查询 Redis 注销名单失败，回退数据库',
+        );
+      }
+    }
+
+    const count = await this.revokedRepository.count({
+      where: { jti, expiresAt: MoreThan(new Date()) },
+    });
+    return count > 0;
+  }
+
+  /**
+   * 写入会话已下线标记（在家族作废落库后调用）
+   * 覆盖可能已缓存的有效状态，使该会话已签发的 access token 立即失效
+   * @param familyId 家族 ID
+   */
+  async markSessionRevoked(familyId: string): Promise<void> {
+    if (!this.isRedisReady()) {
+      return;
+    }
+    try {
+      await this.redis.set(this.buildSessionKey(familyId), 'revoked', 'PX', SESSION_REVOKED_TTL_MS);
+    } catch (error) {
+      this.logger.warn(
+        { familyId, error: error instanceof Error ? error.message : String(error) },
+        '写入 Redis 会话下线标记失败，将依赖数据库兜底',
+      );
+    }
+  }
+
+  /**
+   * 判断 access token 所属会话（refresh token 家族）是否已下线
+   * 远程下线、重用检测等场景无法得知该会话已签发的 access token，故按家族判定
+   * @param familyId 家族 ID
+   */
+  async isSessionRevoked(familyId: string): Promise<boolean> {
+    const redisReady = this.isRedisReady();
+    if (redisReady) {
+      try {
+        const cached = await this.redis.get(this.buildSessionKey(familyId));
+        if (cached) {
+          return cached === 'revoked';
+        }
+      } catch (error) {
+        this.logger.warn(
+          { familyId, error: error instanceof Error ? error.message : String(error) },
+          '查询 Redis 会话状态失败，回退数据库',
+        );
+      }
+    }
+
+    const count = await this.familyRepository.count({
+      where: { familyId, status: RefreshTokenFamilyStatus.REVOKED },
+    });
+    const revoked = count > 0;
+    if (redisReady) {
+      await this.cacheSessionState(familyId, revoked);
+    }
+    return revoked;
+  }
+
+  /**
+   * 回填会话状态缓存
+   * 有效状态使用 NX 写入，不会覆盖并发写入的下线标记
+   */
+  private async cacheSessionState(familyId: string, revoked: boolean): Promise<void> {
+    const key = this.buildSessionKey(familyId);
+    try {
+      if (revoked) {
+        await this.redis.set(key, 'revoked', 'PX', SESSION_REVOKED_TTL_MS);
+      } else {
+        await this.redis.set(key, 'active', 'PX', SESSION_ACTIVE_TTL_MS, 'NX');
+      }
+    } catch (error) {
+      this.logger.warn(
+        { familyId, error: error instanceof Error ? error.message : String(error) },
+        '回填 Redis 会话状态失败',
+      );
+    }
+  }
+
+  /** 连接未就绪时 ioredis 会排队挂起命令，这里直接走数据库 */
+  private isRedisReady(): boolean {
+    return this.redis.status === 'ready';
+  }
+
+  private buildKey(jti: string): string {
+    return `${REVOKED_JTI_KEY_PREFIX}${jti}`;
+  }
+
+  private buildSessionKey(familyId: string): string {
+    return `${SESSION_STATE_KEY_PREFIX}${familyId}`;
+  }
+}
@@ -1,6 +1,8 @@
 // src/modules/auth/strategies/jwt.strategy.ts
 
 import { JwtPayload } from '@app-types/jwt.types';
+import { DomainError, JWT_ERROR } from '@core/common/errors/domain-error';
+import { TokenRevocationService } from '../services/token-revocation.service';
 import { TokenHelper } from '../token.helper';
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
@@ -18,6 +20,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     private readonly configService: ConfigService,
     private readonly accountService: AccountService,
     private readonly tokenHelper: TokenHelper,
+    private readonly tokenRevocationService: TokenRevocationService,
     private readonly logger: PinoLogger,
   ) {
     // 确保配置值不为 undefined
@@ -67,11 +70,26 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         throw new UnauthorizedException('用户不存在或已禁用');
       }
 
+      // 账户 tokenVersion 已递增（全设备下线）：此前签发的令牌一律失效
+      if (typeof payload.tokenVersion === 'number' && payload.tokenVersion !== user.tokenVersion) {
+        throw new DomainError(JWT_ERROR.TOKEN_REVOKED, 'Token 已失效，请重新登录');
+      }
+
+      // 单枚令牌已注销（登出当前会话）
+      if (payload.jti && (await this.tokenRevocationService.isAccessTokenRevoked(payload.jti))) {
+        throw new DomainError(JWT_ERROR.TOKEN_REVOKED, 'Token 已注销，请重新登录');
+      }
+
+      // 所属会话已被远程下线
+      if (payload.fid && (await this.tokenRevocationService.isSessionRevoked(payload.fid))) {
+        throw new DomainError(JWT_ERROR.TOKEN_REVOKED, '会话已下线，请重新登录');
+      }
+
       // 返回用户信息，会被注入到 request.user 中
       return payload;
     } catch (error) {
       // 确保错误类型安全
-      if (error instanceof UnauthorizedException) {
+      if (error instanceof UnauthorizedException || error instanceof DomainError) {
         throw error;
       }
       // 处理其他类型的错误
@@ -295,6 +295,34 @@ describe('TokenHelper', () => {
       expect(result).toBe(mockToken);
     });
 
+    it('应该支持写入家族 ID、jti 与自定义有效期', () => {
+      // Arrange
+      jwtService.sign.mockReturnValue(mockToken);
+      const params: GenerateRefreshTokenParams = {
+        payload: { sub: mockJwtPayload.sub },
+        tokenVersion: 2,
+        audience: AudienceTypeEnum.SSTSWEB,
+        familyId: 'family-uuid',
+        jti: 'jti-uuid',
+        expiresIn: '7d',
+      };
+
+      // Act
+      const result = tokenHelper.generateRefreshToken(params);
+
+      // Assert
+      expect(jwtService.sign).toHaveBeenCalledWith(
+        {
+          sub: mockJwtPayload.sub,
+          type: 'refresh',
+          tokenVersion: 2,
+          fid: 'family-uuid',
+        },
+        { audience: AudienceTypeEnum.SSTSWEB, jwtid: 'jti-uuid', expiresIn: '7d' },
+      );
+      expect(result).toBe(mockToken);
+    });
+
     it('应该在生成失败时记录错误并抛出异常', () => {
       // Arrange
       const error = new Error('签名失败');
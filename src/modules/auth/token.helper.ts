@@ -1,6 +1,7 @@
 // src/modules/auth/token.helper.ts
 import {
   GenerateAccessTokenParams,
+  GenerateMfaChallengeTokenParams,
   GenerateRefreshTokenParams,
   JwtPayload,
 } from '@app-types/jwt.types';
@@ -62,20 +63,36 @@ export class TokenHelper {
     payload,
     tokenVersion = 1,
     audience,
+    familyId,
+    jti,
+    expiresIn,
   }: GenerateRefreshTokenParams): string {
     try {
-      const refreshPayload = {
+      const refreshPayload: Record<string, unknown> = {
         sub: payload.sub,
         type: 'refresh',
         tokenVersion: tokenVersion,
       };
 
+      // 家族 ID 写入 fid，轮换时保持不变，用于重用检测
+      if (familyId) {
+        refreshPayload.fid = familyId;
+      }
+
       const signOptions: Record<string, unknown> = {};
 
       if (audience) {
         signOptions.audience = audience;
       }
 
+      if (jti) {
+        signOptions.jwtid = jti;
+      }
+
+      if (expiresIn) {
+        signOptions.expiresIn = expiresIn;
+      }
+
       const token = this.jwtService.sign(refreshPayload, signOptions);
 
       return token;
@@ -99,6 +116,49 @@ export class TokenHelper {
     }
   }
 
+  /**
+   * 生成二次验证挑战令牌
+   * type 为 mfa_challenge，JwtStrategy 只接受 access 类型，故无法用于访问受保护接口
+   */
+  generateMfaChallengeToken({
+    accountId,
+    audience,
+    enrollmentRequired,
+    expiresIn,
+  }: GenerateMfaChallengeTokenParams): string {
+    try {
+      const challengePayload: Record<string, unknown> = {
+        sub: accountId,
+        type: 'mfa_challenge',
+        mfaEnroll: enrollmentRequired,
+      };
+
+      const signOptions: Record<string, unknown> = { expiresIn };
+
+      if (audience) {
+        signOptions.audience = audience;
+      }
+
+      return this.jwtService.sign(challengePayload, signOptions);
+    } catch (error) {
+      this.logger.error(
+        {
+          userId: accountId,
+          tokenType: 'mfa_challenge',
+          error: error instanceof Error ? error.message : '未知错误',
+        },
+        'mfa challenge token 生成失败',
+      );
+
+      throw new DomainError(
+        JWT_ERROR.TOKEN_GENERATION_FAILED,
+        `mfa challenge token 生成失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        { userId: accountId, tokenType: 'mfa_challenge' },
+        error,
+      );
+    }
+  }
+
   validateAudience(audience: string, configAudience: string): boolean {
     if (!audience || !configAudience) {
       return false;
@@ -0,0 +1,11 @@
+// src/modules/common/account-queue/account-queue.module.ts
+import { Module } from '@nestjs/common';
+import { BullMqModule } from '@src/infrastructure/bullmq/bullmq.module';
+import { AccountQueueService } from './account-queue.service';
+
+@Module({
+  imports: [BullMqModule],
+  providers: [AccountQueueService],
+  exports: [AccountQueueService],
+})
+export class AccountQueueModule {}
@@ -0,0 +1,46 @@
+// src/modules/common/account-queue/account-queue.service.ts
+import { Injectable } from '@nestjs/common';
+import { BULLMQ_JOBS, BULLMQ_QUEUES } from '@src/infrastructure/bullmq/bullmq.constants';
+import { BullMqProducerGateway } from '@src/infrastructure/bullmq/producer.gateway';
+import { PinoLogger } from 'nestjs-pino';
+import type {
+  QueueAccountDataExportInput,
+  QueueAccountDataExportResult,
+} from './account-queue.types';
+
+@Injectable()
+export class AccountQueueService {
+  constructor(
+    private readonly producer: BullMqProducerGateway,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(AccountQueueService.name);
+  }
+
+  async enqueueDataExport(
+    input: QueueAccountDataExportInput,
+  ): Promise<QueueAccountDataExportResult> {
+    const job = await this.producer.enqueue({
+      queueName: BULLMQ_QUEUES.ACCOUNT,
+      jobName: BULLMQ_JOBS.ACCOUNT.DATA_EXPORT,
+      payload: {
+        exportId: input.exportId,
+        accountId: input.accountId,
+      },
+      traceId: input.traceId,
+    });
+    this.logger.info(
+      {
+        exportId: input.exportId,
+        accountId: input.accountId,
+        jobId: job.jobId,
+        traceId: job.traceId,
+      },
+      'Account data export job accepted',
+    );
+    return {
+      jobId: job.jobId,
+      traceId: job.traceId,
+    };
+  }
+}
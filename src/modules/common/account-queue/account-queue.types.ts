@@ -0,0 +1,12 @@
+// src/modules/common/account-queue/account-queue.types.ts
+
+export interface QueueAccountDataExportInput {
+  readonly exportId: number;
+  readonly accountId: number;
+  readonly traceId?: string;
+}
+
+export interface QueueAccountDataExportResult {
+  readonly jobId: string;
+  readonly traceId: string;
+}
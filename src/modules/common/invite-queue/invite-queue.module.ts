@@ -0,0 +1,11 @@
+// src/modules/common/invite-queue/invite-queue.module.ts
+import { Module } from '@nestjs/common';
+import { BullMqModule } from '@src/infrastructure/bullmq/bullmq.module';
+import { InviteQueueService } from './invite-queue.service';
+
+@Module({
+  imports: [BullMqModule],
+  providers: [InviteQueueService],
+  exports: [InviteQueueService],
+})
+export class InviteQueueModule {}
@@ -0,0 +1,42 @@
+// src/modules/common/invite-queue/invite-queue.service.ts
+import { Injectable } from '@nestjs/common';
+import { BULLMQ_JOBS, BULLMQ_QUEUES } from '@src/infrastructure/bullmq/bullmq.constants';
+import { BullMqProducerGateway } from '@src/infrastructure/bullmq/producer.gateway';
+import { PinoLogger } from 'nestjs-pino';
+import type { QueueBulkCoachInviteInput, QueueBulkCoachInviteResult } from './invite-queue.types';
+
+@Injectable()
+export class InviteQueueService {
+  constructor(
+    private readonly producer: BullMqProducerGateway,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(InviteQueueService.name);
+  }
+
+  async enqueueBulkCoach(input: QueueBulkCoachInviteInput): Promise<QueueBulkCoachInviteResult> {
+    const job = await this.producer.enqueue({
+      queueName: BULLMQ_QUEUES.INVITE,
+      jobName: BULLMQ_JOBS.INVITE.BULK_COACH,
+      payload: {
+        issuedByAccountId: input.issuedByAccountId,
+        rows: input.rows,
+        expiresInMinutes: input.expiresInMinutes,
+      },
+      traceId: input.traceId,
+    });
+    this.logger.info(
+      {
+        issuedByAccountId: input.issuedByAccountId,
+        rows: input.rows.length,
+        jobId: job.jobId,
+        traceId: job.traceId,
+      },
+      'Bulk coach invite job accepted',
+    );
+    return {
+      jobId: job.jobId,
+      traceId: job.traceId,
+    };
+  }
+}
@@ -0,0 +1,14 @@
+// src/modules/common/invite-queue/invite-queue.types.ts
+import type { BulkCoachInviteRowPayload } from '@src/infrastructure/bullmq/contracts/invite.contract';
+
+export interface QueueBulkCoachInviteInput {
+  readonly issuedByAccountId: number;
+  readonly rows: ReadonlyArray<BulkCoachInviteRowPayload>;
+  readonly expiresInMinutes?: number;
+  readonly traceId?: string;
+}
+
+export interface QueueBulkCoachInviteResult {
+  readonly jobId: string;
+  readonly traceId: string;
+}
@@ -0,0 +1,42 @@
+// src/modules/common/password/password-hash.helper.spec.ts
+import { PasswordHashScheme } from '@app-types/auth/password.types';
+import { AccountService } from '@modules/account/base/services/account.service';
+import { PasswordHashHelper } from './password-hash.helper';
+
+describe('PasswordHashHelper', () => {
+  const createdAt = new Date('2023-03-15T10:18:09Z');
+
+  it('生成带版本前缀的哈希，且相同密码每次盐值不同', async () => {
+    const first = await PasswordHashHelper.hash('Secret#2024x');
+    const second = await PasswordHashHelper.hash('Secret#2024x');
+
+    expect(first).toMatch(/^\$scrypt\$N=32768,r=8,p=1\$[^$]+\$[^$]+$/);
+    expect(first).not.toBe(second);
+    expect(PasswordHashHelper.getScheme(first)).toBe(PasswordHashScheme.SCRYPT);
+    expect(PasswordHashHelper.needsRehash(first)).toBe(false);
+  });
+
+  it('校验当前方案哈希', async () => {
+    const hash = await PasswordHashHelper.hash('Secret#2024x');
+    expect(await PasswordHashHelper.verify('Secret#2024x', hash)).toBe(true);
+    expect(await PasswordHashHelper.verify('Secret#2024y', hash)).toBe(false);
+    expect(await PasswordHashHelper.verify('Secret#2024x', '$scrypt$broken')).toBe(false);
+  });
+
+  it('参数过时的哈希需要重算', async () => {
+    const hash = await PasswordHashHelper.hash('Secret#2024x');
+    const outdated = hash.replace('N=32768', 'N=16384');
+    expect(PasswordHashHelper.needsRehash(outdated)).toBe(true);
+  });
+
+  it('AccountService.verifyPassword 兼容老方案并识别其需要迁移', async () => {
+    const legacy = AccountService.hashPasswordWithTimestamp('Secret#2024x', createdAt);
+    expect(PasswordHashHelper.getScheme(legacy)).toBe(PasswordHashScheme.LEGACY_PBKDF2);
+    expect(AccountService.needsPasswordRehash(legacy)).toBe(true);
+    expect(await AccountService.verifyPassword('Secret#2024x', legacy, createdAt)).toBe(true);
+
+    const current = await AccountService.hashPassword('ｓｅｃｒｅｔ#2024x');
+    expect(await AccountService.verifyPassword('secret#2024x', current, createdAt)).toBe(true);
+    expect(await AccountService.verifyPassword('Secret#2024x', current, createdAt)).toBe(false);
+  });
+});
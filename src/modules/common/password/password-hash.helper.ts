@@ -0,0 +1,125 @@
+// src/modules/common/password/password-hash.helper.ts
+import { PasswordHashScheme } from '@app-types/auth/password.types';
+import { BinaryLike, randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+/** 当前方案前缀 */
+const SCRYPT_PREFIX = '$scrypt$';
+
+/**
+ * 当前 scrypt 参数（N=2^15, r=8, p=1，约 32 MiB 内存）
+ * 调整参数后，旧参数生成的哈希会在下次登录时自动重算
+ */
+const SCRYPT_PARAMS = { N: 32768, r: 8, p: 1 } as const;
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_SALT_BYTES = 16;
+
+/** 异步 scrypt：在 libuv 线程池中计算，不阻塞事件循环 */
+const scryptAsync = promisify(scrypt) as (
+  password: BinaryLike,
+  salt: BinaryLike,
+  keyLength: number,
+  options: ScryptOptions,
+) => Promise<Buffer>;
+
+interface ParsedScryptHash {
+  N: number;
+  r: number;
+  p: number;
+  salt: Buffer;
+  hash: Buffer;
+}
+
+/**
+ * 版本化密码哈希工具类
+ * 格式：$scrypt$N=32768,r=8,p=1$<salt base64>$<hash base64>
+ * 老系统无前缀的 PBKDF2 哈希由 LegacyPasswordCryptoHelper 处理
+ */
+export class PasswordHashHelper {
+  /** 当前方案前缀（用于统计查询） */
+  static readonly CURRENT_PREFIX = SCRYPT_PREFIX;
+
+  /**
+   * 使用当前方案生成哈希（随机盐）
+   * @param password 已预处理的密码
+   * @returns 带版本前缀的哈希字符串
+   */
+  static async hash(password: string): Promise<string> {
+    const salt = randomBytes(SCRYPT_SALT_BYTES);
+    const hash = await this.derive(password, salt, SCRYPT_PARAMS);
+    const { N, r, p } = SCRYPT_PARAMS;
+    return `${SCRYPT_PREFIX}N=${N},r=${r},p=${p}$${salt.toString('base64')}$${hash.toString('base64')}`;
+  }
+
+  /**
+   * 校验当前方案的哈希
+   * @param password 已预处理的密码
+   * @param storedHash 带版本前缀的哈希
+   * @returns 是否匹配；格式非法时返回 false
+   */
+  static async verify(password: string, storedHash: string): Promise<boolean> {
+    const parsed = this.parse(storedHash);
+    if (!parsed) {
+      return false;
+    }
+    const hash = await this.derive(password, parsed.salt, parsed, parsed.hash.length);
+    return timingSafeEqual(hash, parsed.hash);
+  }
+
+  /**
+   * 判断哈希所属方案
+   * @param storedHash 库中存储的哈希
+   */
+  static getScheme(storedHash: string): PasswordHashScheme {
+    return storedHash.startsWith(SCRYPT_PREFIX)
+      ? PasswordHashScheme.SCRYPT
+      : PasswordHashScheme.LEGACY_PBKDF2;
+  }
+
+  /**
+   * 判断哈希是否需要按当前方案与参数重算
+   * @param storedHash 库中存储的哈希
+   */
+  static needsRehash(storedHash: string): boolean {
+    const parsed = this.parse(storedHash);
+    return (
+      !parsed ||
+      parsed.N !== SCRYPT_PARAMS.N ||
+      parsed.r !== SCRYPT_PARAMS.r ||
+      parsed.p !== SCRYPT_PARAMS.p ||
+      parsed.hash.length !== SCRYPT_KEY_LENGTH
+    );
+  }
+
+  private static derive(
+    password: string,
+    salt: Buffer,
+    params: { N: number; r: number; p: number },
+    keyLength: number = SCRYPT_KEY_LENGTH,
+  ): Promise<Buffer> {
+    return scryptAsync(password, salt, keyLength, {
+      N: params.N,
+      r: params.r,
+      p: params.p,
+      // scrypt 所需内存约为 128 * N * r 字节，预留一倍余量
+      maxmem: 256 * params.N * params.r,
+    });
+  }
+
+  private static parse(storedHash: string): ParsedScryptHash | null {
+    if (!storedHash.startsWith(SCRYPT_PREFIX)) {
+      return null;
+    }
+    const [paramPart, saltPart, hashPart] = storedHash.slice(SCRYPT_PREFIX.length).split('$');
+    const match = /^N=(\d+),r=(\d+),p=(\d+)$/.exec(paramPart ?? '');
+    if (!match || !saltPart || !hashPart) {
+      return null;
+    }
+    const salt = Buffer.from(saltPart, 'base64');
+    const hash = Buffer.from(hashPart, 'base64');
+    if (salt.length === 0 || hash.length === 0) {
+      return null;
+    }
+    return { N: Number(match[1]), r: Number(match[2]), p: Number(match[3]), salt, hash };
+  }
+}
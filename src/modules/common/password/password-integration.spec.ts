@@ -4,7 +4,7 @@ import { LegacyPasswordCryptoHelper } from '@modules/common/password/legacy-pass
 
 describe('密码预处理与 PBKDF2 哈希集成测试', () => {
   describe('NFKC 标准化集成', () => {
-    it('应该确保全角字符密码的哈希和验证一致性', () => {
+    it('应该确保全角字符密码的哈希和验证一致性', async () => {
       // Arrange
       const fullWidthPassword = 'ｐａｓｓｗｏｒｄ１２３';
       const halfWidthPassword = 'password123';
@@ -18,8 +18,12 @@ describe('密码预处理与 PBKDF2 哈希集成测试', () => {
       expect(fullWidthHash).toBe(halfWidthHash);
 
       // Assert - 交叉验证应该成功
-      expect(AccountService.verifyPassword(fullWidthPassword, halfWidthHash, testDate)).toBe(true);
-      expect(AccountService.verifyPassword(halfWidthPassword, fullWidthHash, testDate)).toBe(true);
+      expect(await AccountService.verifyPassword(fullWidthPassword, halfWidthHash, testDate)).toBe(
+        true,
+      );
+      expect(await AccountService.verifyPassword(halfWidthPassword, fullWidthHash, testDate)).toBe(
+        true,
+      );
     });
 
     it('应该与直接使用 PBKDF2 的结果一致', () => {
@@ -66,7 +70,7 @@ describe('密码预处理与 PBKDF2 哈希集成测试', () => {
   });
 
   describe('与原始 PBKDF2 Helper 的兼容性', () => {
-    it('应该与直接使用 PasswordPbkdf2Helper 的结果兼容', () => {
+    it('应该与直接使用 PasswordPbkdf2Helper 的结果兼容', async () => {
       // Arrange
       const cleanPassword = 'password123';
       const testDate = new Date('2023-03-15T10:18:09Z');
@@ -90,7 +94,9 @@ describe('密码预处理与 PBKDF2 哈希集成测试', () => {
           accountServiceHash,
         ),
       ).toBe(true);
-      expect(AccountService.verifyPassword(cleanPassword, directPbkdf2Hash, testDate)).toBe(true);
+      expect(await AccountService.verifyPassword(cleanPassword, directPbkdf2Hash, testDate)).toBe(
+        true,
+      );
     });
 
     it('应该确保预处理不会影响已经标准化的密码', () => {
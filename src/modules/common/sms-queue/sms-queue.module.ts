@@ -0,0 +1,11 @@
+// src/modules/common/sms-queue/sms-queue.module.ts
+import { Module } from '@nestjs/common';
+import { BullMqModule } from '@src/infrastructure/bullmq/bullmq.module';
+import { SmsQueueService } from './sms-queue.service';
+
+@Module({
+  imports: [BullMqModule],
+  providers: [SmsQueueService],
+  exports: [SmsQueueService],
+})
+export class SmsQueueModule {}
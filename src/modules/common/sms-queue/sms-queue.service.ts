@@ -0,0 +1,49 @@
+// src/modules/common/sms-queue/sms-queue.service.ts
+import { Injectable } from '@nestjs/common';
+import { BULLMQ_JOBS, BULLMQ_QUEUES } from '@src/infrastructure/bullmq/bullmq.constants';
+import { BullMqProducerGateway } from '@src/infrastructure/bullmq/producer.gateway';
+import { PinoLogger } from 'nestjs-pino';
+import type { QueueSmsInput, QueueSmsResult } from './sms-queue.types';
+
+@Injectable()
+export class SmsQueueService {
+  constructor(
+    private readonly producer: BullMqProducerGateway,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(SmsQueueService.name);
+  }
+
+  async enqueueSend(input: QueueSmsInput): Promise<QueueSmsResult> {
+    const job = await this.producer.enqueue({
+      queueName: BULLMQ_QUEUES.SMS,
+      jobName: BULLMQ_JOBS.SMS.SEND,
+      payload: {
+        phone: input.phone,
+        templateId: input.templateId,
+        params: input.params,
+        meta: input.meta,
+      },
+      dedupKey: input.dedupKey,
+      traceId: input.traceId,
+    });
+    this.logger.info(
+      {
+        phone: this.maskPhone(input.phone),
+        templateId: input.templateId,
+        jobId: job.jobId,
+        traceId: job.traceId,
+      },
+      'SMS job accepted',
+    );
+    return {
+      jobId: job.jobId,
+      traceId: job.traceId,
+    };
+  }
+
+  private maskPhone(phone: string): string {
+    if (phone.length <= 7) return '***';
+    return `${phone.slice(0, 3)}****${phone.slice(-4)}`;
+  }
+}
@@ -0,0 +1,14 @@
+// src/modules/common/sms-queue/sms-queue.types.ts
+export interface QueueSmsInput {
+  readonly phone: string;
+  readonly templateId: string;
+  readonly params: Readonly<Record<string, string>>;
+  readonly meta?: Readonly<Record<string, string>>;
+  readonly dedupKey?: string;
+  readonly traceId?: string;
+}
+
+export interface QueueSmsResult {
+  readonly jobId: string;
+  readonly traceId: string;
+}
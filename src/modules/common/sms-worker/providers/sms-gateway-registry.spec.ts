@@ -0,0 +1,40 @@
+// src/modules/common/sms-worker/providers/sms-gateway-registry.spec.ts
+import { DomainError, THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
+import { ConfigService } from '@nestjs/config';
+import { AliyunSmsGateway } from '@src/infrastructure/sms/providers/aliyun/aliyun-sms.gateway';
+import { LocalStubSmsGateway } from '@src/infrastructure/sms/providers/local/local-stub-sms.gateway';
+import { SmsGatewayRegistry } from './sms-gateway-registry';
+
+describe('SmsGatewayRegistry', () => {
+  const buildRegistry = (input: { provider?: string }) => {
+    const configService = {
+      get: jest.fn((key: string, defaultValue?: string) => {
+        if (key === 'sms.provider') {
+          return input.provider ?? defaultValue;
+        }
+        return defaultValue;
+      }),
+    } as unknown as ConfigService;
+    const localStubGateway = { name: 'local' } as LocalStubSmsGateway;
+    const aliyunGateway = { name: 'aliyun' } as AliyunSmsGateway;
+    return new SmsGatewayRegistry(configService, localStubGateway, aliyunGateway);
+  };
+
+  it('未配置 SMS_PROVIDER 时走本地桩', () => {
+    expect(buildRegistry({}).getGateway().name).toBe('local');
+  });
+
+  it('SMS_PROVIDER 为 aliyun 时返回阿里云网关（不区分大小写）', () => {
+    expect(buildRegistry({ provider: ' Aliyun ' }).getGateway().name).toBe('aliyun');
+  });
+
+  it('未知 provider 抛出 PROVIDER_NOT_SUPPORTED', () => {
+    const registry = buildRegistry({ provider: 'unknown' });
+    expect(() => registry.getGateway()).toThrow(DomainError);
+    try {
+      registry.getGateway();
+    } catch (error) {
+      expect((error as DomainError).code).toBe(THIRDPARTY_ERROR.PROVIDER_NOT_SUPPORTED);
+    }
+  });
+});
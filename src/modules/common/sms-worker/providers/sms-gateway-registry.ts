@@ -0,0 +1,36 @@
+// src/modules/common/sms-worker/providers/sms-gateway-registry.ts
+import { DomainError, THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
+import type { SmsGateway } from '@core/sms/sms-gateway.interface';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AliyunSmsGateway } from '@src/infrastructure/sms/providers/aliyun/aliyun-sms.gateway';
+import { LocalStubSmsGateway } from '@src/infrastructure/sms/providers/local/local-stub-sms.gateway';
+
+@Injectable()
+export class SmsGatewayRegistry {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly localStubGateway: LocalStubSmsGateway,
+    private readonly aliyunGateway: AliyunSmsGateway,
+  ) {}
+
+  /**
+   * 按 SMS_PROVIDER 选择短信网关，未配置时走本地桩
+   */
+  getGateway(): SmsGateway {
+    const providerName = this.configService
+      .get<string>('sms.provider', 'local')
+      .trim()
+      .toLowerCase();
+    if (!providerName || providerName === this.localStubGateway.name) {
+      return this.localStubGateway;
+    }
+    if (providerName === this.aliyunGateway.name) {
+      return this.aliyunGateway;
+    }
+    throw new DomainError(
+      THIRDPARTY_ERROR.PROVIDER_NOT_SUPPORTED,
+      `unsupported_sms_provider:${providerName}`,
+    );
+  }
+}
@@ -0,0 +1,41 @@
+// src/modules/common/sms-worker/sms-delivery.service.ts
+import { Injectable } from '@nestjs/common';
+import { PinoLogger } from 'nestjs-pino';
+import { SmsGatewayRegistry } from './providers/sms-gateway-registry';
+import type { SendSmsInput, SendSmsResult } from './sms-worker.types';
+
+@Injectable()
+export class SmsDeliveryService {
+  constructor(
+    private readonly registry: SmsGatewayRegistry,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(SmsDeliveryService.name);
+  }
+
+  /**
+   * 通过当前配置的网关发送短信，错误抛出给上层（由 BullMQ 负责重试）
+   */
+  async send(input: SendSmsInput): Promise<SendSmsResult> {
+    const gateway = this.registry.getGateway();
+    const result = await gateway.send(input);
+    this.logger.info(
+      {
+        provider: result.provider,
+        phone: this.maskPhone(input.phone),
+        templateId: input.templateId,
+        providerMessageId: result.providerMessageId,
+      },
+      'SMS sent',
+    );
+    return result;
+  }
+
+  /**
+   * 手机号脱敏，避免日志泄露。
+   */
+  private maskPhone(phone: string): string {
+    if (phone.length <= 7) return '***';
+    return `${phone.slice(0, 3)}****${phone.slice(-4)}`;
+  }
+}
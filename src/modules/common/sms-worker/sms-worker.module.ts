@@ -0,0 +1,12 @@
+// src/modules/common/sms-worker/sms-worker.module.ts
+import { Module } from '@nestjs/common';
+import { SmsInfrastructureModule } from '@src/infrastructure/sms/sms-infrastructure.module';
+import { SmsGatewayRegistry } from './providers/sms-gateway-registry';
+import { SmsDeliveryService } from './sms-delivery.service';
+
+@Module({
+  imports: [SmsInfrastructureModule],
+  providers: [SmsDeliveryService, SmsGatewayRegistry],
+  exports: [SmsDeliveryService],
+})
+export class SmsWorkerModule {}
@@ -0,0 +1,8 @@
+// src/modules/common/sms-worker/sms-worker.types.ts
+import type {
+  SendSmsInput as CoreSendSmsInput,
+  SendSmsResult as CoreSendSmsResult,
+} from '@core/sms/sms-gateway.interface';
+
+export type SendSmsInput = CoreSendSmsInput;
+export type SendSmsResult = CoreSendSmsResult;
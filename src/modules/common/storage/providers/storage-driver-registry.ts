@@ -0,0 +1,31 @@
+// src/modules/common/storage/providers/storage-driver-registry.ts
+import { DomainError, THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
+import type { StorageDriver } from '@core/storage/storage-driver.interface';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { LocalDiskStorageDriver } from '@src/infrastructure/storage/providers/local/local-disk-storage.driver';
+
+@Injectable()
+export class StorageDriverRegistry {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly localDiskDriver: LocalDiskStorageDriver,
+  ) {}
+
+  /**
+   * 按 STORAGE_DRIVER 选择存储驱动，未配置时走本地磁盘
+   */
+  getDriver(): StorageDriver {
+    const driverName = this.configService
+      .get<string>('storage.driver', 'local')
+      .trim()
+      .toLowerCase();
+    if (!driverName || driverName === this.localDiskDriver.name) {
+      return this.localDiskDriver;
+    }
+    throw new DomainError(
+      THIRDPARTY_ERROR.PROVIDER_NOT_SUPPORTED,
+      `unsupported_storage_driver:${driverName}`,
+    );
+  }
+}
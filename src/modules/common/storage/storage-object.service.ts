@@ -0,0 +1,55 @@
+// src/modules/common/storage/storage-object.service.ts
+import type { ImageProbeResult, ImageThumbnail } from '@core/storage/image-processor.interface';
+import { Injectable } from '@nestjs/common';
+import { SharpImageProcessor } from '@src/infrastructure/storage/image/sharp-image.processor';
+import { PinoLogger } from 'nestjs-pino';
+import { StorageDriverRegistry } from './providers/storage-driver-registry';
+
+/**
+ * 存储对象服务：读写当前驱动中的对象，并提供图片识别与缩略图生成
+ */
+@Injectable()
+export class StorageObjectService {
+  constructor(
+    private readonly registry: StorageDriverRegistry,
+    private readonly imageProcessor: SharpImageProcessor,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(StorageObjectService.name);
+  }
+
+  /** 当前驱动名称（写入文件记录，便于切换驱动后定位对象） */
+  getDriverName(): string {
+    return this.registry.getDriver().name;
+  }
+
+  async put(params: { key: string; body: Buffer; contentType: string }): Promise<void> {
+    await this.registry.getDriver().putObject(params);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    return await this.registry.getDriver().getObject(key);
+  }
+
+  /**
+   * 删除多个对象（已不存在的对象视为成功）
+   */
+  async remove(keys: ReadonlyArray<string | null>): Promise<void> {
+    const driver = this.registry.getDriver();
+    for (const key of keys) {
+      if (key) {
+        await driver.deleteObject(key);
+      }
+    }
+    this.logger.debug({ driver: driver.name, keys }, 'Storage objects removed');
+  }
+
+  /** 按内容识别图片格式与尺寸，非图片返回 null */
+  async probeImage(body: Buffer): Promise<ImageProbeResult | null> {
+    return await this.imageProcessor.probe(body);
+  }
+
+  async createThumbnail(params: { body: Buffer; size: number }): Promise<ImageThumbnail> {
+    return await this.imageProcessor.createThumbnail(params);
+  }
+}
@@ -0,0 +1,90 @@
+// src/modules/common/storage/storage-url.service.spec.ts
+import { StorageConfig, StoredFileVariant } from '@app-types/models/stored-file.types';
+import { ConfigService } from '@nestjs/config';
+import { StorageUrlService } from './storage-url.service';
+
+describe('StorageUrlService', () => {
+  const now = new Date('2026-03-01T00:00:00.000Z');
+  const fileKey = 'a'.repeat(32);
+
+  const buildService = (overrides: Partial<StorageConfig> = {}) => {
+    const config = {
+      publicBaseUrl: 'https://api.example.com/',
+      signingSecret: 'test-secret',
+      uploadUrlExpiresInSeconds: 600,
+      downloadUrlExpiresInSeconds: 3600,
+      ...overrides,
+    } as StorageConfig;
+    const configService = {
+      get: jest.fn((key: string) => (key === 'storage' ? config : undefined)),
+    } as unknown as ConfigService;
+    return new StorageUrlService(configService);
+  };
+
+  const parse = (url: string) => {
+    const parsed = new URL(url);
+    return {
+      path: parsed.pathname,
+      variant: parsed.searchParams.get('variant'),
+      expires: Number(parsed.searchParams.get('expires')),
+      signature: parsed.searchParams.get('signature') ?? '',
+    };
+  };
+
+  it('签发的上传链接可通过 PUT 校验，且不可用于 GET', () => {
+    const service = buildService();
+    const signed = service.createUploadUrl({ fileKey, now });
+    const { path, expires, signature } = parse(signed.url);
+
+    expect(path).toBe(`/files/${fileKey}`);
+    expect(signed.expiresAt).toEqual(new Date(now.getTime() + 600 * 1000));
+    const base = { fileKey, variant: StoredFileVariant.ORIGINAL, expires, signature, now };
+    expect(service.verify({ ...base, method: 'PUT' })).toBe(true);
+    expect(service.verify({ ...base, method: 'GET' })).toBe(false);
+  });
+
+  it('下载链接绑定内容变体', () => {
+    const service = buildService();
+    const signed = service.createDownloadUrl({
+      fileKey,
+      variant: StoredFileVariant.THUMBNAIL,
+      now,
+    });
+    const { variant, expires, signature } = parse(signed.url);
+
+    expect(variant).toBe('thumbnail');
+    const base = { method: 'GET' as const, fileKey, expires, signature, now };
+    expect(service.verify({ ...base, variant: StoredFileVariant.THUMBNAIL })).toBe(true);
+    expect(service.verify({ ...base, variant: StoredFileVariant.ORIGINAL })).toBe(false);
+  });
+
+  it('过期、篡改 fileKey 或过期时间、更换密钥后校验失败', () => {
+    const service = buildService();
+    const { expires, signature } = parse(service.createUploadUrl({ fileKey, now }).url);
+    const base = {
+      method: 'PUT' as const,
+      fileKey,
+      variant: StoredFileVariant.ORIGINAL,
+      expires,
+      signature,
+    };
+
+    expect(service.verify({ ...base, now: new Date(expires * 1000) })).toBe(false);
+    expect(service.verify({ ...base, fileKey: 'b'.repeat(32), now })).toBe(false);
+    expect(service.verify({ ...base, expires: expires + 60, now })).toBe(false);
+    expect(service.verify({ ...base, signature: 'invalid', now })).toBe(false);
+    expect(buildService({ signingSecret: 'rotated' }).verify({ ...base, now })).toBe(false);
+  });
+
+  it('公开链接不带签名；未配置 publicBaseUrl 时返回相对路径', () => {
+    expect(
+      buildService({ publicBaseUrl: '' }).buildPublicUrl({
+        fileKey,
+        variant: StoredFileVariant.THUMBNAIL,
+      }),
+    ).toBe(`/files/${fileKey}?variant=thumbnail`);
+    expect(buildService().buildPublicUrl({ fileKey, variant: StoredFileVariant.ORIGINAL })).toBe(
+      `https://api.example.com/files/${fileKey}`,
+    );
+  });
+});
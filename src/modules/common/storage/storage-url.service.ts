@@ -0,0 +1,121 @@
+// src/modules/common/storage/storage-url.service.ts
+import { StorageConfig, StoredFileVariant } from '@app-types/models/stored-file.types';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type StorageUrlMethod = 'PUT' | 'GET';
+
+export interface SignedStorageUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * 文件访问链接服务
+ * 链接形如 {publicBaseUrl}/files/{fileKey}；签名链接追加 expires（秒级时间戳）与 signature，
+ * 签名覆盖请求方法、fileKey、内容变体与过期时间，任一被改动即失效
+ */
+@Injectable()
+export class StorageUrlService {
+  constructor(private readonly configService: ConfigService) {}
+
+  /** 签发上传链接（PUT） */
+  createUploadUrl(params: { fileKey: string; now?: Date }): SignedStorageUrl {
+    return this.createSignedUrl({
+      method: 'PUT',
+      fileKey: params.fileKey,
+      variant: StoredFileVariant.ORIGINAL,
+      expiresInSeconds: this.getConfig().uploadUrlExpiresInSeconds,
+      now: params.now,
+    });
+  }
+
+  /** 签发下载链接（GET） */
+  createDownloadUrl(params: {
+    fileKey: string;
+    variant: StoredFileVariant;
+    now?: Date;
+  }): SignedStorageUrl {
+    return this.createSignedUrl({
+      method: 'GET',
+      fileKey: params.fileKey,
+      variant: params.variant,
+      expiresInSeconds: this.getConfig().downloadUrlExpiresInSeconds,
+      now: params.now,
+    });
+  }
+
+  /** 不带签名的公开链接（仅对公开可读的文件有效，如已设为头像的图片） */
+  buildPublicUrl(params: { fileKey: string; variant: StoredFileVariant }): string {
+    return this.buildUrl(params.fileKey, this.variantQuery(params.variant));
+  }
+
+  /**
+   * 校验签名与有效期
+   */
+  verify(params: {
+    method: StorageUrlMethod;
+    fileKey: string;
+    variant: StoredFileVariant;
+    expires: number;
+    signature: string;
+    now?: Date;
+  }): boolean {
+    const now = params.now ?? new Date();
+    if (!Number.isSafeInteger(params.expires) || params.expires * 1000 <= now.getTime()) {
+      return false;
+    }
+    const expected = this.sign(params);
+    const actual = Buffer.from(params.signature, 'base64url');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private createSignedUrl(params: {
+    method: StorageUrlMethod;
+    fileKey: string;
+    variant: StoredFileVariant;
+    expiresInSeconds: number;
+    now?: Date;
+  }): SignedStorageUrl {
+    const now = params.now ?? new Date();
+    const expires = Math.floor(now.getTime() / 1000) + params.expiresInSeconds;
+    const signature = this.sign({ ...params, expires }).toString('base64url');
+    const query = new URLSearchParams(this.variantQuery(params.variant));
+    query.set('expires', String(expires));
+    query.set('signature', signature);
+    return {
+      url: this.buildUrl(params.fileKey, query.toString()),
+      expiresAt: new Date(expires * 1000),
+    };
+  }
+
+  private sign(params: {
+    method: StorageUrlMethod;
+    fileKey: string;
+    variant: StoredFileVariant;
+    expires: number;
+  }): Buffer {
+    return createHmac('sha256', this.getConfig().signingSecret)
+      .update([params.method, params.fileKey, params.variant, params.expires].join('\n'), 'utf8')
+      .digest();
+  }
+
+  private variantQuery(variant: StoredFileVariant): string {
+    return variant === StoredFileVariant.THUMBNAIL ? 'variant=thumbnail' : '';
+  }
+
+  private buildUrl(fileKey: string, query: string): string {
+    const baseUrl = this.getConfig().publicBaseUrl.replace(/\/+$/, '');
+    const path = `${baseUrl}/files/${encodeURIComponent(fileKey)}`;
+    return query ? `${path}?${query}` : path;
+  }
+
+  private getConfig(): StorageConfig {
+    const config = this.configService.get<StorageConfig>('storage');
+    if (!config) {
+      throw new Error('storage config is not loaded');
+    }
+    return config;
+  }
+}
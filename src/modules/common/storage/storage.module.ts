@@ -0,0 +1,13 @@
+// src/modules/common/storage/storage.module.ts
+import { Module } from '@nestjs/common';
+import { StorageInfrastructureModule } from '@src/infrastructure/storage/storage-infrastructure.module';
+import { StorageDriverRegistry } from './providers/storage-driver-registry';
+import { StorageObjectService } from './storage-object.service';
+import { StorageUrlService } from './storage-url.service';
+
+@Module({
+  imports: [StorageInfrastructureModule],
+  providers: [StorageDriverRegistry, StorageObjectService, StorageUrlService],
+  exports: [StorageObjectService, StorageUrlService],
+})
+export class StorageModule {}
@@ -0,0 +1,50 @@
+// src/modules/notification/notification.entity.ts
+
+import { NotificationCategory } from '@app-types/models/notification.types';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 站内通知实体
+ * 对应数据库表：base_notifications
+ * 通知写入后仅更新已读时间；接收者的通知数 / 未读数计数器在 base_user_info 中同步维护
+ */
+@Entity('base_notifications')
+@Index('idx_recipient_created', ['recipientAccountId', 'createdAt'])
+@Index('idx_recipient_read', ['recipientAccountId', 'readAt'])
+export class NotificationEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({ name: 'recipient_account_id', type: 'int', comment: '接收者账户 ID' })
+  recipientAccountId!: number;
+
+  @Column({ type: 'varchar', length: 32, comment: '通知分类' })
+  category!: NotificationCategory;
+
+  @Column({ type: 'varchar', length: 128, comment: '标题' })
+  title!: string;
+
+  @Column({ type: 'varchar', length: 1000, comment: '正文' })
+  body!: string;
+
+  @Column({ type: 'varchar', length: 512, nullable: true, comment: '客户端跳转链接' })
+  link!: string | null;
+
+  @Column({
+    name: 'read_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '已读时间（未读为 NULL）',
+  })
+  readAt!: Date | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间',
+  })
+  createdAt!: Date;
+}
@@ -0,0 +1,23 @@
+// src/modules/notification/notification.module.ts
+
+import { AccountInstallerModule } from '@modules/account/account-installer.module';
+import { PaginationModule } from '@modules/common/pagination.module';
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { NotificationEntity } from './notification.entity';
+import { NotificationService } from './notification.service';
+
+/**
+ * 站内通知模块
+ * 提供通知写入、查询与已读标记，并维护用户信息中的通知计数器
+ */
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([NotificationEntity]),
+    AccountInstallerModule, // 导入 AccountInstallerModule 以提供 AccountService（维护计数器）
+    PaginationModule, // 导入 PaginationModule 以提供通知分页
+  ],
+  providers: [NotificationService],
+  exports: [TypeOrmModule, NotificationService],
+})
+export class NotificationModule {}
@@ -0,0 +1,102 @@
+// src/modules/notification/notification.service.spec.ts
+import { NotificationCategory } from '@app-types/models/notification.types';
+import type { AccountService } from '@modules/account/base/services/account.service';
+import type { PaginationService } from '@modules/common/pagination.service';
+import type { EntityManager, Repository } from 'typeorm';
+import type { NotificationEntity } from './notification.entity';
+import { NotificationService } from './notification.service';
+
+type NotificationRepositoryMock = {
+  readonly create: jest.Mock<Partial<NotificationEntity>, [Partial<NotificationEntity>]>;
+  readonly save: jest.Mock<Promise<Partial<NotificationEntity>>, [Partial<NotificationEntity>]>;
+  readonly update: jest.Mock<Promise<{ affected?: number }>>;
+};
+
+type EntityManagerMock = {
+  readonly getRepository: jest.Mock<NotificationRepositoryMock>;
+};
+
+type AccountServiceMock = {
+  readonly adjustNotificationCounters: jest.Mock<
+    Promise<{ isUpdated: boolean }>,
+    [{ accountId: number; notifyDelta: number; unreadDelta: number; manager?: EntityManager }]
+  >;
+};
+
+describe('NotificationService', () => {
+  let transactionRepository: NotificationRepositoryMock;
+  let manager: EntityManagerMock;
+  let transaction: jest.Mock<Promise<unknown>, [(manager: EntityManager) => Promise<unknown>]>;
+  let accountService: AccountServiceMock;
+  let service: NotificationService;
+
+  beforeEach(() => {
+    transactionRepository = {
+      create: jest.fn((data) => data),
+      save: jest.fn((data) => Promise.resolve({ id: 1, ...data })),
+      update: jest.fn().mockResolvedValue({ affected: 2 }),
+    };
+    manager = {
+      getRepository: jest.fn().mockReturnValue(transactionRepository),
+    };
+    transaction = jest.fn((callback) => callback(manager as unknown as EntityManager));
+    accountService = {
+      adjustNotificationCounters: jest.fn().mockResolvedValue({ isUpdated: true }),
+    };
+
+    service = new NotificationService(
+      { manager: { transaction } } as unknown as Repository<NotificationEntity>,
+      accountService as unknown as AccountService,
+      {} as PaginationService,
+    );
+  });
+
+  it('在调用方事务内写入通知并递增通知数与未读数，超长内容截断', async () => {
+    await service.send(
+      {
+        recipientAccountId: 7,
+        category: NotificationCategory.PASSWORD_CHANGED,
+        title: '标'.repeat(200),
+        body: '正文',
+      },
+      manager as unknown as EntityManager,
+    );
+
+    expect(transaction).not.toHaveBeenCalled();
+    expect(transactionRepository.save).toHaveBeenCalledWith(
+      expect.objectContaining({ recipientAccountId: 7, link: null, readAt: null }),
+    );
+    expect(transactionRepository.create.mock.calls[0][0].title).toHaveLength(128);
+    expect(accountService.adjustNotificationCounters).toHaveBeenCalledWith({
+      accountId: 7,
+      notifyDelta: 1,
+      unreadDelta: 1,
+      manager,
+    });
+  });
+
+  it('未提供事务管理器时自行开启事务', async () => {
+    await service.send({
+      recipientAccountId: 7,
+      category: NotificationCategory.INVITE_ACCEPTED,
+      title: '邀请已被接受',
+      body: '正文',
+    });
+
+    expect(transaction).toHaveBeenCalledTimes(1);
+    expect(accountService.adjustNotificationCounters).toHaveBeenCalledTimes(1);
+  });
+
+  it('标记已读按实际更新行数递减未读数，空 ID 列表不做处理', async () => {
+    await expect(service.markRead({ recipientAccountId: 7, ids: [] })).resolves.toBe(0);
+    expect(transactionRepository.update).not.toHaveBeenCalled();
+
+    await expect(service.markRead({ recipientAccountId: 7, ids: [1, 2, 3] })).resolves.toBe(2);
+    expect(accountService.adjustNotificationCounters).toHaveBeenCalledWith({
+      accountId: 7,
+      notifyDelta: 0,
+      unreadDelta: -2,
+      manager,
+    });
+  });
+});
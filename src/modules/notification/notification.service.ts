@@ -0,0 +1,183 @@
+// src/modules/notification/notification.service.ts
+
+import {
+  NOTIFICATION_BODY_MAX_LENGTH,
+  NOTIFICATION_LINK_MAX_LENGTH,
+  NOTIFICATION_TITLE_MAX_LENGTH,
+  SendNotificationParams,
+} from '@app-types/models/notification.types';
+import type { PaginationParams, SortParam } from '@core/pagination/pagination.types';
+import { AccountService } from '@modules/account/base/services/account.service';
+import { PaginationService } from '@modules/common/pagination.service';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
+import { NotificationEntity } from './notification.entity';
+
+/** 通知列表可排序字段 → 列名 */
+const NOTIFICATION_SORT_COLUMNS: Readonly<Record<string, string>> = {
+  createdAt: 'notification.createdAt',
+  id: 'notification.id',
+};
+
+/**
+ * 站内通知服务
+ * 通知写入 / 标记已读与接收者的通知数、未读数计数器在同一事务内更新，保证两者一致
+ */
+@Injectable()
+export class NotificationService {
+  constructor(
+    @InjectRepository(NotificationEntity)
+    private readonly notificationRepository: Repository<NotificationEntity>,
+    private readonly accountService: AccountService,
+    private readonly paginationService: PaginationService,
+  ) {}
+
+  /**
+   * 发送站内通知
+   * 写入通知并递增接收者的通知数与未读数
+   * @param params 通知内容（标题、正文超长截断）
+   * @param manager 事务管理器（提供时随调用方事务提交或回滚，否则自行开启事务）
+   * @returns 写入的通知
+   */
+  async send(params: SendNotificationParams, manager?: EntityManager): Promise<NotificationEntity> {
+    if (!manager) {
+      return await this.runTransaction((transactionManager) =>
+        this.send(params, transactionManager),
+      );
+    }
+
+    const repository = manager.getRepository(NotificationEntity);
+    const notification = await repository.save(
+      repository.create({
+        recipientAccountId: params.recipientAccountId,
+        category: params.category,
+        title: params.title.slice(0, NOTIFICATION_TITLE_MAX_LENGTH),
+        body: params.body.slice(0, NOTIFICATION_BODY_MAX_LENGTH),
+        link: params.link ? params.link.slice(0, NOTIFICATION_LINK_MAX_LENGTH) : null,
+        readAt: null,
+      }),
+    );
+    await this.accountService.adjustNotificationCounters({
+      accountId: params.recipientAccountId,
+      notifyDelta: 1,
+      unreadDelta: 1,
+      manager,
+    });
+    return notification;
+  }
+
+  /**
+   * 分页查询接收者的通知（按创建时间倒序）
+   */
+  async findPaginated(params: {
+    recipientAccountId: number;
+    unreadOnly?: boolean;
+    page: number;
+    limit: number;
+  }): Promise<{
+    items: NotificationEntity[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const qb = this.notificationRepository
+      .createQueryBuilder('notification')
+      .where('notification.recipientAccountId = :recipientAccountId', {
+        recipientAccountId: params.recipientAccountId,
+      });
+    if (params.unreadOnly) {
+      qb.andWhere('notification.readAt IS NULL');
+    }
+
+    const safeLimit = Math.max(params.limit, 1);
+    const defaultSorts: ReadonlyArray<SortParam> = [
+      { field: 'createdAt', direction: 'DESC' },
+      { field: 'id', direction: 'DESC' },
+    ];
+    const paginationParams: PaginationParams = {
+      mode: 'OFFSET',
+      page: params.page,
+      pageSize: safeLimit,
+      sorts: defaultSorts,
+      withTotal: true,
+    };
+    const result = await this.paginationService.paginateQuery<NotificationEntity>({
+      qb,
+      params: paginationParams,
+      allowedSorts: Object.keys(NOTIFICATION_SORT_COLUMNS),
+      defaultSorts,
+      resolveColumn: (field) => NOTIFICATION_SORT_COLUMNS[field] ?? null,
+    });
+
+    const total = result.total ?? 0;
+    const pageSize = result.pageSize ?? safeLimit;
+    return {
+      items: [...result.items],
+      total,
+      page: result.page ?? params.page,
+      limit: pageSize,
+      totalPages: pageSize > 0 ? Math.max(Math.ceil(total / pageSize), 1) : 1,
+    };
+  }
+
+  /**
+   * 将接收者的通知标记为已读
+   * 仅更新尚未读的通知，并按实际更新行数递减未读数；并发重复标记不会重复扣减
+   * @param params.ids 通知 ID 列表（不提供时标记全部）
+   * @returns 本次标记为已读的通知数
+   */
+  async markRead(params: { recipientAccountId: number; ids?: number[] }): Promise<number> {
+    if (params.ids && params.ids.length === 0) {
+      return 0;
+    }
+
+    return await this.runTransaction(async (manager) => {
+      const result = await manager.getRepository(NotificationEntity).update(
+        {
+          recipientAccountId: params.recipientAccountId,
+          readAt: IsNull(),
+          ...(params.ids ? { id: In(params.ids) } : {}),
+        },
+        { readAt: new Date() },
+      );
+      const affected = result.affected ?? 0;
+      await this.accountService.adjustNotificationCounters({
+        accountId: params.recipientAccountId,
+        notifyDelta: 0,
+        unreadDelta: -affected,
+        manager,
+      });
+      return affected;
+    });
+  }
+
+  /**
+   * 读取接收者的未读通知数（计数器）
+   */
+  async getUnreadCount(recipientAccountId: number): Promise<number> {
+    const userInfo = await this.accountService.findUserInfoByAccountId(recipientAccountId);
+    return userInfo?.unreadCount ?? 0;
+  }
+
+  /**
+   * 删除接收者的全部通知（账户注销时随调用方事务执行；通知计数器由调用方重置）
+   * 通知正文可能包含登录 IP 等个人信息，不做保留
+   * @returns 删除的通知数
+   */
+  async removeAllByRecipient(params: {
+    recipientAccountId: number;
+    manager: EntityManager;
+  }): Promise<number> {
+    const result = await params.manager
+      .getRepository(NotificationEntity)
+      .delete({ recipientAccountId: params.recipientAccountId });
+    return result.affected ?? 0;
+  }
+
+  /** 事务执行（使用 NotificationEntity 的 manager） */
+  async runTransaction<T>(callback: (manager: EntityManager) => Promise<T>): Promise<T> {
+    return await this.notificationRepository.manager.transaction(callback);
+  }
+}
@@ -0,0 +1,151 @@
+// src/modules/stored-file/stored-file.entity.ts
+
+import {
+  StoredFileAttachmentType,
+  StoredFilePurpose,
+  StoredFileStatus,
+} from '@app-types/models/stored-file.types';
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+/**
+ * 上传文件实体
+ * 对应数据库表：base_stored_files
+ * 文件内容保存在存储驱动中，表内只记录对象键、校验结果与业务引用关系
+ */
+@Entity('base_stored_files')
+@Index('uk_file_key', ['fileKey'], { unique: true })
+@Index('idx_owner_created', ['ownerAccountId', 'createdAt'])
+@Index('idx_attached', ['attachedType', 'attachedId'])
+@Index('idx_status_updated', ['status', 'updatedAt'])
+export class StoredFileEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({
+    name: 'file_key',
+    type: 'varchar',
+    length: 32,
+    comment: '对外标识（随机串），用于拼接访问链接',
+  })
+  fileKey!: string;
+
+  @Column({ name: 'owner_account_id', type: 'int', comment: '上传者账户 ID' })
+  ownerAccountId!: number;
+
+  @Column({ type: 'varchar', length: 16, comment: '文件用途：AVATAR' })
+  purpose!: StoredFilePurpose;
+
+  @Column({
+    type: 'varchar',
+    length: 16,
+    default: StoredFileStatus.PENDING,
+    comment: 'PENDING / UPLOADING / UPLOADED / ATTACHED / RELEASED / DELETED',
+  })
+  status!: StoredFileStatus;
+
+  @Column({ type: 'varchar', length: 16, comment: '存储驱动' })
+  driver!: string;
+
+  @Column({ name: 'storage_key', type: 'varchar', length: 255, comment: '原文件对象键' })
+  storageKey!: string;
+
+  @Column({
+    name: 'thumbnail_key',
+    type: 'varchar',
+    length: 255,
+    nullable: true,
+    comment: '缩略图对象键',
+  })
+  thumbnailKey!: string | null;
+
+  @Column({
+    name: 'content_type',
+    type: 'varchar',
+    length: 64,
+    comment: 'Content-Type（上传后以实际内容识别结果为准）',
+  })
+  contentType!: string;
+
+  @Column({ name: 'size_bytes', type: 'int', nullable: true, comment: '文件字节数' })
+  sizeBytes!: number | null;
+
+  @Column({ type: 'int', nullable: true, comment: '图片宽度（像素）' })
+  width!: number | null;
+
+  @Column({ type: 'int', nullable: true, comment: '图片高度（像素）' })
+  height!: number | null;
+
+  @Column({
+    name: 'attached_type',
+    type: 'varchar',
+    length: 32,
+    nullable: true,
+    comment: '引用方类型：USER_AVATAR / COACH_AVATAR / LEARNER_AVATAR',
+  })
+  attachedType!: StoredFileAttachmentType | null;
+
+  @Column({ name: 'attached_id', type: 'int', nullable: true, comment: '引用方 ID' })
+  attachedId!: number | null;
+
+  @Column({
+    name: 'upload_expires_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '上传链接过期时间',
+  })
+  uploadExpiresAt!: Date | null;
+
+  @Column({
+    name: 'uploaded_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '上传完成时间',
+  })
+  uploadedAt!: Date | null;
+
+  @Column({
+    name: 'attached_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '被引用时间',
+  })
+  attachedAt!: Date | null;
+
+  @Column({
+    name: 'released_at',
+    type: 'timestamp',
+    precision: 3,
+    nullable: true,
+    comment: '解除引用时间',
+  })
+  releasedAt!: Date | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间',
+  })
+  createdAt!: Date;
+
+  @UpdateDateColumn({
+    name: 'updated_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    onUpdate: 'CURRENT_TIMESTAMP(3)',
+    comment: '更新时间',
+  })
+  updatedAt!: Date;
+}
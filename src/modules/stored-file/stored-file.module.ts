@@ -0,0 +1,17 @@
+// src/modules/stored-file/stored-file.module.ts
+
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { StoredFileEntity } from './stored-file.entity';
+import { StoredFileService } from './stored-file.service';
+
+/**
+ * 上传文件记录模块
+ * 提供文件记录的创建、状态流转与清理候选查询（文件内容读写见 StorageModule）
+ */
+@Module({
+  imports: [TypeOrmModule.forFeature([StoredFileEntity])],
+  providers: [StoredFileService],
+  exports: [TypeOrmModule, StoredFileService],
+})
+export class StoredFileModule {}
@@ -0,0 +1,234 @@
+// src/modules/stored-file/stored-file.service.ts
+
+import {
+  StoredFileAttachmentType,
+  StoredFilePurpose,
+  StoredFileStatus,
+  StoredFileView,
+} from '@app-types/models/stored-file.types';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { EntityManager, In, LessThanOrEqual, Not, Repository } from 'typeorm';
+import { StoredFileEntity } from './stored-file.entity';
+
+/** fileKey 随机字节数（hex 编码后 32 个字符） */
+const FILE_KEY_BYTES = 16;
+
+/**
+ * 上传文件记录服务
+ * 状态流转：PENDING → UPLOADED（写入校验结果）→ ATTACHED（被业务引用）→ RELEASED（引用解除）；
+ * PENDING 过期、UPLOADED 长期未引用、RELEASED 超过保留期的记录由清理任务标记为 DELETED
+ * 所有流转都以当前状态为条件更新，并发请求只有一个生效
+ */
+@Injectable()
+export class StoredFileService {
+  constructor(
+    @InjectRepository(StoredFileEntity)
+    private readonly fileRepository: Repository<StoredFileEntity>,
+  ) {}
+
+  /**
+   * 创建待上传的文件记录，生成对外 fileKey 与存储键
+   */
+  async createPending(params: {
+    ownerAccountId: number;
+    purpose: StoredFilePurpose;
+    contentType: string;
+    sizeBytes: number;
+    driver: string;
+    uploadExpiresAt: Date;
+  }): Promise<StoredFileView> {
+    const fileKey = randomBytes(FILE_KEY_BYTES).toString('hex');
+    const month = new Date().toISOString().slice(0, 7).replace('-', '/');
+    const saved = await this.fileRepository.save(
+      this.fileRepository.create({
+        fileKey,
+        ownerAccountId: params.ownerAccountId,
+        purpose: params.purpose,
+        status: StoredFileStatus.PENDING,
+        driver: params.driver,
+        storageKey: `${params.purpose.toLowerCase()}/${month}/${fileKey}`,
+        contentType: params.contentType,
+        sizeBytes: params.sizeBytes,
+        uploadExpiresAt: params.uploadExpiresAt,
+      }),
+    );
+    return this.toView(saved);
+  }
+
+  /** 按 ID 查询文件记录 */
+  async findById(id: number, manager?: EntityManager): Promise<StoredFileView | null> {
+    const record = await this.getRepository(manager).findOne({ where: { id } });
+    return record ? this.toView(record) : null;
+  }
+
+  /** 按对外 fileKey 查询文件记录 */
+  async findByFileKey(fileKey: string): Promise<StoredFileView | null> {
+    const record = await this.fileRepository.findOne({ where: { fileKey } });
+    return record ? this.toView(record) : null;
+  }
+
+  /**
+   * 认领上传（PENDING → UPLOADING），认领成功的请求才能写入存储对象
+   * @returns 记录已不是 PENDING（已被并发请求认领、已上传或已失效）时返回 false
+   */
+  async claimUpload(params: { id: number }): Promise<boolean> {
+    const result = await this.fileRepository.update(
+      { id: params.id, status: StoredFileStatus.PENDING },
+      { status: StoredFileStatus.UPLOADING, updatedAt: new Date() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * 放弃上传认领（UPLOADING → PENDING），写入失败后上传链接可继续使用
+   */
+  async releaseUploadClaim(params: { id: number }): Promise<void> {
+    await this.fileRepository.update(
+      { id: params.id, status: StoredFileStatus.UPLOADING },
+      { status: StoredFileStatus.PENDING, updatedAt: new Date() },
+    );
+  }
+
+  /**
+   * 写入上传校验结果（仅本次已认领的 UPLOADING 记录）
+   * @returns 记录已不是 UPLOADING 时返回 false
+   */
+  async markUploaded(params: {
+    id: number;
+    contentType: string;
+    sizeBytes: number;
+    width: number | null;
+    height: number | null;
+    thumbnailKey: string | null;
+  }): Promise<boolean> {
+    const now = new Date();
+    const result = await this.fileRepository.update(
+      { id: params.id, status: StoredFileStatus.UPLOADING },
+      {
+        status: StoredFileStatus.UPLOADED,
+        contentType: params.contentType,
+        sizeBytes: params.sizeBytes,
+        width: params.width,
+        height: params.height,
+        thumbnailKey: params.thumbnailKey,
+        uploadedAt: now,
+        updatedAt: now,
+      },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * 将已上传的文件标记为被引用（仅 UPLOADED 记录）
+   * @returns 记录已不是 UPLOADED 时返回 false
+   */
+  async attach(params: {
+    id: number;
+    attachedType: StoredFileAttachmentType;
+    attachedId: number;
+    manager?: EntityManager;
+  }): Promise<boolean> {
+    const now = new Date();
+    const result = await this.getRepository(params.manager).update(
+      { id: params.id, status: StoredFileStatus.UPLOADED },
+      {
+        status: StoredFileStatus.ATTACHED,
+        attachedType: params.attachedType,
+        attachedId: params.attachedId,
+        attachedAt: now,
+        updatedAt: now,
+      },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  /**
+   * 解除引用方当前引用的文件（如头像被替换、账户注销）
+   * @param params.exceptId 保留的文件 ID（新设置的头像）
+   * @returns 解除引用的文件数
+   */
+  async releaseByAttachment(params: {
+    attachedType: StoredFileAttachmentType;
+    attachedId: number;
+    exceptId?: number;
+    manager?: EntityManager;
+  }): Promise<number> {
+    const now = new Date();
+    const result = await this.getRepository(params.manager).update(
+      {
+        attachedType: params.attachedType,
+        attachedId: params.attachedId,
+        status: StoredFileStatus.ATTACHED,
+        ...(params.exceptId !== undefined ? { id: Not(params.exceptId) } : {}),
+      },
+      { status: StoredFileStatus.RELEASED, releasedAt: now, updatedAt: now },
+    );
+    return result.affected ?? 0;
+  }
+
+  /**
+   * 查询待清理的文件：上传链接已过期的 PENDING，以及在 staleBefore 之前进入 UPLOADING / UPLOADED / RELEASED
+   * 且此后未变化的记录（长期停留在 UPLOADING 说明认领后进程中断）
+   */
+  async findSweepCandidates(params: {
+    now: Date;
+    staleBefore: Date;
+    limit: number;
+  }): Promise<StoredFileView[]> {
+    const records = await this.fileRepository.find({
+      where: [
+        { status: StoredFileStatus.PENDING, uploadExpiresAt: LessThanOrEqual(params.now) },
+        {
+          status: In([
+            StoredFileStatus.UPLOADING,
+            StoredFileStatus.UPLOADED,
+            StoredFileStatus.RELEASED,
+          ]),
+          updatedAt: LessThanOrEqual(params.staleBefore),
+        },
+      ],
+      order: { id: 'ASC' },
+      take: params.limit,
+    });
+    return records.map((record) => this.toView(record));
+  }
+
+  /**
+   * 标记文件已删除（仅当状态仍为 expectedStatus，避免与并发的上传 / 引用冲突）
+   */
+  async markDeleted(params: { id: number; expectedStatus: StoredFileStatus }): Promise<boolean> {
+    const result = await this.fileRepository.update(
+      { id: params.id, status: params.expectedStatus },
+      { status: StoredFileStatus.DELETED, updatedAt: new Date() },
+    );
+    return (result.affected ?? 0) > 0;
+  }
+
+  private getRepository(manager?: EntityManager): Repository<StoredFileEntity> {
+    return manager ? manager.getRepository(StoredFileEntity) : this.fileRepository;
+  }
+
+  private toView(record: StoredFileEntity): StoredFileView {
+    return {
+      id: record.id,
+      fileKey: record.fileKey,
+      ownerAccountId: record.ownerAccountId,
+      purpose: record.purpose,
+      status: record.status,
+      contentType: record.contentType,
+      sizeBytes: record.sizeBytes,
+      width: record.width,
+      height: record.height,
+      attachedType: record.attachedType,
+      attachedId: record.attachedId,
+      driver: record.driver,
+      storageKey: record.storageKey,
+      thumbnailKey: record.thumbnailKey,
+      uploadExpiresAt: record.uploadExpiresAt,
+      uploadedAt: record.uploadedAt,
+      createdAt: record.createdAt,
+    };
+  }
+}
@@ -0,0 +1,188 @@
+// src/modules/third-party-auth/clients/oidc-http.client.ts
+import {
+  OidcConfig,
+  OidcDiscoveryDocument,
+  OidcJsonWebKey,
+  OidcTokenResponse,
+  OidcTokenSuccess,
+} from '@app-types/auth/oidc.types';
+import { DomainError, THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
+import { HttpService } from '@nestjs/axios';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/** 未命中 kid 时强制刷新 JWKS 的最小间隔，避免伪造 kid 打爆平台接口 */
+const JWKS_FORCE_REFRESH_INTERVAL_MS = 60_000;
+
+/**
+ * OIDC / OAuth2 HTTP 客户端
+ * - 发现文档与 JWKS 按 URL 缓存在内存中（oidc.cacheSeconds）
+ * - 平台地址全部来自配置，E2E 可指向本地模拟 IdP
+ */
+@Injectable()
+export class OidcHttpClient {
+  private readonly config: OidcConfig | undefined;
+
+  /** key: issuer */
+  private readonly discoveryCache = new Map<
+    string,
+    { document: OidcDiscoveryDocument; expiresAt: number }
+  >();
+
+  /** key: jwks_uri */
+  private readonly jwksCache = new Map<
+    string,
+    { keys: OidcJsonWebKey[]; expiresAt: number; fetchedAt: number }
+  >();
+
+  constructor(
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    this.config = configService.get<OidcConfig>('oidc');
+  }
+
+  /**
+   * 获取发现文档（校验 issuer 与配置一致）
+   * @param issuer OIDC 发行方
+   */
+  async getDiscovery(issuer: string): Promise<OidcDiscoveryDocument> {
+    const cached = this.discoveryCache.get(issuer);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.document;
+    }
+
+    const url = `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+    const document = await this.get<OidcDiscoveryDocument>(url);
+    if (
+      document?.issuer !== issuer ||
+      !document.authorization_endpoint ||
+      !document.token_endpoint ||
+      !document.jwks_uri
+    ) {
+      throw new DomainError(
+        THIRDPARTY_ERROR.PROVIDER_API_ERROR,
+        'OIDC 发现文档不完整或 issuer 不匹配',
+      );
+    }
+
+    this.discoveryCache.set(issuer, { document, expiresAt: Date.now() + this.cacheTtlMs() });
+    return document;
+  }
+
+  /**
+   * 按 kid 查找签名公钥
+   * 缓存未命中时（平台轮换密钥）限频强制刷新一次
+   * @param params JWKS 地址与 kid
+   * @returns 公钥；找不到时返回 null
+   */
+  async findSigningKey(params: {
+    jwksUri: string;
+    kid: string | undefined;
+  }): Promise<OidcJsonWebKey | null> {
+    const pick = (keys: OidcJsonWebKey[]) => {
+      const candidates = keys.filter((key) => !key.use || key.use === 'sig');
+      if (params.kid) {
+        return candidates.find((key) => key.kid === params.kid) ?? null;
+      }
+      // 未声明 kid 时仅在唯一公钥的情况下使用
+      return candidates.length === 1 ? candidates[0] : null;
+    };
+
+    const now = Date.now();
+    const cached = this.jwksCache.get(params.jwksUri);
+    if (cached && cached.expiresAt > now) {
+      const key = pick(cached.keys);
+      if (key || now - cached.fetchedAt < JWKS_FORCE_REFRESH_INTERVAL_MS) {
+        return key;
+      }
+    }
+
+    const data = await this.get<{ keys?: OidcJsonWebKey[] }>(params.jwksUri);
+    const keys = Array.isArray(data?.keys) ? data.keys : [];
+    this.jwksCache.set(params.jwksUri, {
+      keys,
+      fetchedAt: now,
+      expiresAt: now + this.cacheTtlMs(),
+    });
+    return pick(keys);
+  }
+
+  /**
+   * 授权码换取令牌（application/x-www-form-urlencoded）
+   * @param params 令牌端点与表单参数
+   * @throws DomainError 当平台返回错误或网络异常时抛出
+   */
+  async exchangeCode(params: {
+    tokenEndpoint: string;
+    form: Record<string, string>;
+  }): Promise<OidcTokenSuccess> {
+    let data: OidcTokenResponse;
+    try {
+      const resp = await this.httpService.axiosRef.post<OidcTokenResponse>(
+        params.tokenEndpoint,
+        new URLSearchParams(params.form).toString(),
+        {
+          timeout: this.config?.timeoutMs ?? 10000,
+          headers: {
+            // eslint-disable-next-line @typescript-eslint/naming-convention
+            'Content-Type': 'application/x-www-form-urlencoded',
+            // GitHub 默认返回 form 编码，需显式要求 JSON
+            // eslint-disable-next-line @typescript-eslint/naming-convention
+            Accept: 'application/json',
+          },
+          // 4xx 时平台同样返回 { error, error_description }
+          validateStatus: (status) => status < 500,
+        },
+      );
+      data = resp.data;
+    } catch {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, 'OIDC 令牌端点调用失败');
+    }
+
+    if ('error' in data) {
+      const msg = data.error_description ?? data.error;
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, `授权码换取令牌失败: ${msg}`);
+    }
+    if (!data.access_token) {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, 'OIDC 令牌端点返回数据不完整');
+    }
+    return data;
+  }
+
+  /**
+   * 拉取用户信息
+   * @param params 用户信息端点与 access_token
+   */
+  async getUserInfo(params: {
+    userinfoEndpoint: string;
+    accessToken: string;
+  }): Promise<Record<string, unknown>> {
+    const data = await this.get<Record<string, unknown>>(params.userinfoEndpoint, {
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      Authorization: `Bearer ${params.accessToken}`,
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      Accept: 'application/json',
+    });
+    if (typeof data !== 'object' || data === null) {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, '用户信息接口返回数据不完整');
+    }
+    return data;
+  }
+
+  private async get<T>(url: string, headers?: Record<string, string>): Promise<T> {
+    try {
+      const resp = await this.httpService.axiosRef.get<T>(url, {
+        headers,
+        timeout: this.config?.timeoutMs ?? 10000,
+      });
+      return resp.data;
+    } catch {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, 'OIDC 平台接口调用失败');
+    }
+  }
+
+  private cacheTtlMs(): number {
+    return (this.config?.cacheSeconds ?? 3600) * 1000;
+  }
+}
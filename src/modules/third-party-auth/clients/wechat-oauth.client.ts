@@ -0,0 +1,98 @@
+// src/modules/third-party-auth/clients/wechat-oauth.client.ts
+import {
+  WechatOAuthAccessTokenResponse,
+  WechatOAuthAccessTokenSuccess,
+  WechatOAuthConfig,
+  WechatUserInfoResponse,
+  WechatUserInfoSuccess,
+} from '@app-types/models/third-party-auth.types';
+import { DomainError, THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
+import { HttpService } from '@nestjs/axios';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * 微信网页授权 HTTP 客户端
+ * 封装 sns/oauth2/access_token 与 sns/userinfo 两个接口
+ * API 根地址取自 wechatOAuth.apiBaseUrl，E2E 可指向本地桩服务
+ */
+@Injectable()
+export class WechatOAuthClient {
+  private readonly config: WechatOAuthConfig | undefined;
+
+  constructor(
+    private readonly httpService: HttpService,
+    configService: ConfigService,
+  ) {
+    this.config = configService.get<WechatOAuthConfig>('wechatOAuth');
+  }
+
+  /**
+   * 用网页授权 code 换取 access_token 与 openid
+   * @param code 前端回调页拿到的授权 code
+   * @returns access_token 接口成功响应
+   * @throws DomainError 当配置缺失、微信返回错误或网络异常时抛出
+   */
+  async exchangeCode(code: string): Promise<WechatOAuthAccessTokenSuccess> {
+    const appId = this.config?.appId;
+    const appSecret = this.config?.appSecret;
+    if (!appId || !appSecret) {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_CONFIG_MISSING, '微信网页应用配置缺失');
+    }
+
+    const data = await this.get<WechatOAuthAccessTokenResponse>('/sns/oauth2/access_token', {
+      appid: appId,
+      secret: appSecret,
+      code,
+      grant_type: 'authorization_code',
+    });
+
+    if ('errcode' in data) {
+      const msg = data.errmsg ?? String(data.errcode);
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, `微信网页授权失败: ${msg}`);
+    }
+    if (!data.openid || !data.access_token) {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, '微信 API 返回数据不完整');
+    }
+    return data;
+  }
+
+  /**
+   * 拉取用户信息（需 snsapi_userinfo / snsapi_login 作用域）
+   * @param params 网页授权 access_token 与 openid
+   * @returns 用户信息接口成功响应
+   * @throws DomainError 当微信返回错误或网络异常时抛出
+   */
+  async getUserInfo(params: {
+    accessToken: string;
+    openid: string;
+  }): Promise<WechatUserInfoSuccess> {
+    const data = await this.get<WechatUserInfoResponse>('/sns/userinfo', {
+      access_token: params.accessToken,
+      openid: params.openid,
+      lang: 'zh_CN',
+    });
+
+    if ('errcode' in data) {
+      const msg = data.errmsg ?? String(data.errcode);
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, `微信获取用户信息失败: ${msg}`);
+    }
+    if (data.openid !== params.openid) {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, '微信用户信息与授权用户不一致');
+    }
+    return data;
+  }
+
+  private async get<T>(path: string, params: Record<string, string>): Promise<T> {
+    const baseUrl = (this.config?.apiBaseUrl ?? 'https://api.weixin.qq.com').replace(/\/+$/, '');
+    try {
+      const resp = await this.httpService.axiosRef.get<T>(`${baseUrl}${path}`, {
+        params,
+        timeout: this.config?.timeoutMs ?? 10000,
+      });
+      return resp.data;
+    } catch {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, '微信 API 调用失败');
+    }
+  }
+}
@@ -16,14 +16,20 @@ export interface ThirdPartyProvider {
    * @param params 交换参数
    * @param params.authCredential 第三方凭证 (如 OAuth code、id_token、access_token)
    * @param params.audience 客户端类型 (用于区分不同应用场景)
+   * @param params.state OAuth2 回调中的 state (仅 OIDC / OAuth2 平台使用)
+   * @param params.flowToken 发起登录时签发的流程令牌 (仅 OIDC / OAuth2 平台使用)
    * @returns 标准化的第三方会话信息
    * @throws HttpException 当凭证无效或网络请求失败时抛出异常
    */
   exchangeCredential({
     authCredential,
     audience,
+    state,
+    flowToken,
   }: {
     authCredential: string;
     audience: AudienceTypeEnum;
+    state?: string;
+    flowToken?: string;
   }): Promise<ThirdPartySession>;
 }
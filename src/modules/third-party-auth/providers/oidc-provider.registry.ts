@@ -0,0 +1,48 @@
+// src/modules/third-party-auth/providers/oidc-provider.registry.ts
+import { OidcConfig } from '@app-types/auth/oidc.types';
+import { ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { OidcHttpClient } from '../clients/oidc-http.client';
+import { OidcProvider } from './oidc.provider';
+
+/**
+ * OIDC / OAuth2 提供者注册表
+ * 按 oidc.providers 配置为每个已启用的平台创建一个 OidcProvider 实例
+ */
+@Injectable()
+export class OidcProviderRegistry {
+  private readonly providers = new Map<ThirdPartyProviderEnum, OidcProvider>();
+
+  constructor(client: OidcHttpClient, jwtService: JwtService, configService: ConfigService) {
+    const config = configService.get<OidcConfig>('oidc');
+    for (const providerConfig of config?.providers ?? []) {
+      this.providers.set(
+        providerConfig.provider,
+        new OidcProvider(providerConfig, {
+          client,
+          jwtService,
+          flowExpiresIn: config?.flowExpiresIn ?? '10m',
+          clockToleranceSeconds: config?.clockToleranceSeconds ?? 60,
+        }),
+      );
+    }
+  }
+
+  /**
+   * 获取全部已启用的提供者
+   */
+  list(): OidcProvider[] {
+    return [...this.providers.values()];
+  }
+
+  /**
+   * 按平台类型获取提供者
+   * @param provider 第三方平台类型
+   * @returns 提供者；平台未配置时返回 undefined
+   */
+  get(provider: ThirdPartyProviderEnum): OidcProvider | undefined {
+    return this.providers.get(provider);
+  }
+}
@@ -0,0 +1,316 @@
+// src/modules/third-party-auth/providers/oidc.provider.ts
+import {
+  OidcAuthorizationView,
+  OidcFlowClaims,
+  OidcIdTokenClaims,
+  OidcProviderConfig,
+} from '@app-types/auth/oidc.types';
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import { ThirdPartySession } from '@app-types/models/third-party-auth.types';
+import { DomainError, THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
+import {
+  decodeJws,
+  generateOidcRandom,
+  generatePkcePair,
+  isSupportedJwsAlgorithm,
+  validateIdTokenClaims,
+  verifyJwsSignature,
+} from '@core/common/oidc/oidc.helper';
+import { JwtService } from '@nestjs/jwt';
+import { OidcHttpClient } from '../clients/oidc-http.client';
+import { ThirdPartyProvider } from '../interfaces/third-party-provider.interface';
+
+/** 登录流程令牌的 type 声明，JwtStrategy 只接受 access 类型，故无法用于访问受保护接口 */
+const FLOW_TOKEN_TYPE = 'oidc_flow';
+
+type OidcEndpoints = {
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint: string | null;
+  jwksUri: string | null;
+  signingAlgorithms: string[] | null;
+};
+
+/**
+ * 通用 OIDC / OAuth2 认证提供者
+ * 一个实例对应一个平台配置（如 GOOGLE、GITHUB），由 OidcProviderRegistry 按配置创建
+ * 流程：
+ *  1) buildAuthorization 生成 state / nonce / PKCE，并签发登录流程令牌
+ *  2) 回调后 exchangeCredential 校验流程令牌与 state → 授权码换令牌
+ *  3) OIDC：JWKS 校验 id_token 签名与声明；OAuth2：拉取用户信息
+ */
+export class OidcProvider implements ThirdPartyProvider {
+  readonly provider: ThirdPartyProviderEnum;
+
+  constructor(
+    private readonly config: OidcProviderConfig,
+    private readonly deps: {
+      client: OidcHttpClient;
+      jwtService: JwtService;
+      flowExpiresIn: string;
+      clockToleranceSeconds: number;
+    },
+  ) {
+    this.provider = config.provider;
+  }
+
+  /**
+   * 生成平台授权地址与登录流程令牌
+   * @param params.audience 客户端类型
+   */
+  async buildAuthorization(params: { audience: AudienceTypeEnum }): Promise<OidcAuthorizationView> {
+    const endpoints = await this.resolveEndpoints();
+    const state = generateOidcRandom();
+    const nonce = generateOidcRandom();
+    const { codeVerifier, codeChallenge } = generatePkcePair();
+
+    const url = new URL(endpoints.authorizationEndpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('scope', this.config.scopes.join(' '));
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (this.config.issuer) {
+      url.searchParams.set('nonce', nonce);
+    }
+
+    const flowToken = this.signFlowToken({
+      provider: this.provider,
+      audience: params.audience,
+      state,
+      nonce,
+      codeVerifier,
+    });
+    return { authorizationUrl: url.toString(), state, flowToken };
+  }
+
+  /**
+   * 授权码换取身份
+   * @param params.authCredential 回调中的授权码 code
+   * @param params.audience 客户端类型（须与发起时一致）
+   * @param params.state 回调中的 state
+   * @param params.flowToken 发起时签发的登录流程令牌
+   * @returns 标准化的第三方会话信息
+   * @throws DomainError 当流程令牌 / state 不匹配、平台调用失败或身份校验失败时抛出
+   */
+  async exchangeCredential(params: {
+    authCredential: string;
+    audience: AudienceTypeEnum;
+    state?: string;
+    flowToken?: string;
+  }): Promise<ThirdPartySession> {
+    const flow = this.verifyFlowToken(params);
+    const endpoints = await this.resolveEndpoints();
+
+    const token = await this.deps.client.exchangeCode({
+      tokenEndpoint: endpoints.tokenEndpoint,
+      form: {
+        grant_type: 'authorization_code',
+        code: params.authCredential,
+        redirect_uri: this.config.redirectUri,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        code_verifier: flow.codeVerifier,
+      },
+    });
+
+    if (this.config.issuer) {
+      if (!token.id_token) {
+        throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, 'OIDC 令牌响应缺少 id_token');
+      }
+      return await this.verifyIdToken({ idToken: token.id_token, endpoints, nonce: flow.nonce });
+    }
+
+    if (!endpoints.userinfoEndpoint) {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_CONFIG_MISSING, 'OAuth2 用户信息端点未配置');
+    }
+    const userInfo = await this.deps.client.getUserInfo({
+      userinfoEndpoint: endpoints.userinfoEndpoint,
+      accessToken: token.access_token,
+    });
+    return this.toOAuth2Session(userInfo);
+  }
+
+  private async verifyIdToken(params: {
+    idToken: string;
+    endpoints: OidcEndpoints;
+    nonce: string;
+  }): Promise<ThirdPartySession> {
+    const jws = decodeJws(params.idToken);
+    if (!jws || !params.endpoints.jwksUri) {
+      throw new DomainError(THIRDPARTY_ERROR.CREDENTIAL_INVALID, 'id_token 格式非法');
+    }
+    const alg = jws.header.alg;
+    const allowedAlgorithms = params.endpoints.signingAlgorithms;
+    if (!isSupportedJwsAlgorithm(alg) || (allowedAlgorithms && !allowedAlgorithms.includes(alg!))) {
+      throw new DomainError(
+        THIRDPARTY_ERROR.CREDENTIAL_INVALID,
+        `id_token 签名算法不受支持: ${alg}`,
+      );
+    }
+
+    const jwk = await this.deps.client.findSigningKey({
+      jwksUri: params.endpoints.jwksUri,
+      kid: jws.header.kid,
+    });
+    if (!jwk || !verifyJwsSignature({ jws, jwk })) {
+      throw new DomainError(THIRDPARTY_ERROR.CREDENTIAL_INVALID, 'id_token 签名校验失败');
+    }
+
+    const failure = validateIdTokenClaims({
+      claims: jws.payload,
+      issuer: this.config.issuer!,
+      clientId: this.config.clientId,
+      nonce: params.nonce,
+      clockToleranceSeconds: this.deps.clockToleranceSeconds,
+    });
+    if (failure) {
+      throw new DomainError(THIRDPARTY_ERROR.CREDENTIAL_INVALID, `id_token 校验失败: ${failure}`);
+    }
+
+    const claims = jws.payload as unknown as OidcIdTokenClaims;
+    const verifiedEmail = claims.email_verified === true ? (claims.email ?? null) : null;
+    this.assertDomainAllowed({ hostedDomain: claims.hd ?? null, verifiedEmail });
+
+    return {
+      providerUserId: claims.sub,
+      unionId: null,
+      profile: {
+        nickname: claims.name ?? null,
+        email: verifiedEmail,
+        avatarUrl: claims.picture ?? null,
+      },
+      idTokenHeaderPayload: jws.signingInput,
+    };
+  }
+
+  private toOAuth2Session(userInfo: Record<string, unknown>): ThirdPartySession {
+    const rawId = userInfo[this.config.userIdField];
+    if ((typeof rawId !== 'string' && typeof rawId !== 'number') || rawId === '') {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_API_ERROR, '用户信息缺少唯一标识');
+    }
+    const pick = (...keys: string[]) => {
+      for (const key of keys) {
+        const value = userInfo[key];
+        if (typeof value === 'string' && value.length > 0) return value;
+      }
+      return null;
+    };
+
+    // 纯 OAuth2 无法确认邮箱已验证，配置了域名白名单时直接拒绝
+    this.assertDomainAllowed({ hostedDomain: null, verifiedEmail: null });
+
+    return {
+      providerUserId: String(rawId),
+      unionId: null,
+      profile: {
+        nickname: pick('name', 'login'),
+        email: pick('email'),
+        avatarUrl: pick('avatar_url', 'picture'),
+      },
+    };
+  }
+
+  /**
+   * 企业域名白名单：优先比对 hd 声明，其次比对已验证邮箱的域名
+   */
+  private assertDomainAllowed(params: {
+    hostedDomain: string | null;
+    verifiedEmail: string | null;
+  }): void {
+    const allowed = this.config.allowedDomains;
+    if (allowed.length === 0) {
+      return;
+    }
+    const domain =
+      params.hostedDomain ?? params.verifiedEmail?.split('@').pop()?.toLowerCase() ?? null;
+    if (!domain || !allowed.includes(domain.toLowerCase())) {
+      throw new DomainError(
+        THIRDPARTY_ERROR.IDENTITY_NOT_ALLOWED,
+        '该第三方账号不属于允许登录的组织',
+        { provider: this.provider },
+      );
+    }
+  }
+
+  private async resolveEndpoints(): Promise<OidcEndpoints> {
+    const { issuer } = this.config;
+    if (issuer) {
+      const discovery = await this.deps.client.getDiscovery(issuer);
+      return {
+        authorizationEndpoint:
+          this.config.authorizationEndpoint ?? discovery.authorization_endpoint,
+        tokenEndpoint: this.config.tokenEndpoint ?? discovery.token_endpoint,
+        userinfoEndpoint: this.config.userinfoEndpoint ?? discovery.userinfo_endpoint ?? null,
+        jwksUri: discovery.jwks_uri,
+        signingAlgorithms: discovery.id_token_signing_alg_values_supported ?? null,
+      };
+    }
+
+    if (!this.config.authorizationEndpoint || !this.config.tokenEndpoint) {
+      throw new DomainError(THIRDPARTY_ERROR.PROVIDER_CONFIG_MISSING, 'OAuth2 端点配置缺失');
+    }
+    return {
+      authorizationEndpoint: this.config.authorizationEndpoint,
+      tokenEndpoint: this.config.tokenEndpoint,
+      userinfoEndpoint: this.config.userinfoEndpoint,
+      jwksUri: null,
+      signingAlgorithms: null,
+    };
+  }
+
+  private signFlowToken(claims: OidcFlowClaims): string {
+    const flowPayload: Record<string, unknown> = {
+      type: FLOW_TOKEN_TYPE,
+      provider: claims.provider,
+      state: claims.state,
+      nonce: claims.nonce,
+      cv: claims.codeVerifier,
+    };
+    const signOptions: Record<string, unknown> = {
+      expiresIn: this.deps.flowExpiresIn,
+      audience: claims.audience,
+    };
+    return this.deps.jwtService.sign(flowPayload, signOptions);
+  }
+
+  private verifyFlowToken(params: {
+    audience: AudienceTypeEnum;
+    state?: string;
+    flowToken?: string;
+  }): OidcFlowClaims {
+    const invalid = () =>
+      new DomainError(THIRDPARTY_ERROR.CREDENTIAL_INVALID, '登录流程已失效，请重新发起登录');
+    if (!params.state || !params.flowToken) {
+      throw invalid();
+    }
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = this.deps.jwtService.verify<Record<string, unknown>>(params.flowToken, {
+        audience: params.audience,
+      });
+    } catch {
+      throw invalid();
+    }
+    if (
+      payload.type !== FLOW_TOKEN_TYPE ||
+      payload.provider !== this.provider ||
+      payload.state !== params.state ||
+      typeof payload.nonce !== 'string' ||
+      typeof payload.cv !== 'string'
+    ) {
+      throw invalid();
+    }
+
+    return {
+      provider: this.provider,
+      audience: params.audience,
+      state: payload.state,
+      nonce: payload.nonce,
+      codeVerifier: payload.cv,
+    };
+  }
+}
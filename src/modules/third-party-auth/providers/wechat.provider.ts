@@ -1,40 +1,56 @@
 // src/modules/third-party-auth/providers/wechat.provider.ts
 import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
 import { ThirdPartySession } from '@app-types/models/third-party-auth.types';
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
+import { WechatOAuthClient } from '../clients/wechat-oauth.client';
 import { ThirdPartyProvider } from '../interfaces/third-party-provider.interface';
 
+/** 可拉取用户信息的网页授权作用域（snsapi_base 仅返回 openid） */
+const USERINFO_SCOPES = ['snsapi_userinfo', 'snsapi_login'];
+
 /**
  * 微信网页/公众号认证提供者
- * 用于实现微信网页授权和公众号 OAuth 认证流程
- * TODO: 实现完整的网页/公众号 OAuth 认证流程
+ * 实现网页授权 code → access_token → userinfo 的 OAuth 流程
  */
 @Injectable()
 export class WechatProvider implements ThirdPartyProvider {
   readonly provider = ThirdPartyProviderEnum.WECHAT;
 
+  constructor(private readonly client: WechatOAuthClient) {}
+
   /**
    * 微信网页/公众号 OAuth 认证凭证交换
-   * TODO: 实现 code → access_token → userinfo 的完整 OAuth 流程
+   * - 作用域允许时拉取昵称与头像；unionid 优先取 access_token 响应，其次取用户信息
    * @param params 交换参数
    * @param params.authCredential 微信网页授权获取的 code
    * @param params.audience 客户端类型
    * @returns 标准化的第三方会话信息
-   * @throws HttpException 当前未实现，抛出占位异常
+   * @throws DomainError 当配置缺失、凭证无效或微信 API 调用失败时抛出异常
    */
-  exchangeCredential({
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async exchangeCredential({
     authCredential,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    audience,
   }: {
     authCredential: string;
     audience: AudienceTypeEnum;
   }): Promise<ThirdPartySession> {
-    // TODO: 实现微信网页/公众号 OAuth 的 code→access_token→userinfo 流程
-    throw new HttpException(
-      { errorCode: 'WECHAT_WEB_NOT_IMPLEMENTED', errorMessage: '微信网页 OAuth 暂未实现' },
-      HttpStatus.NOT_IMPLEMENTED,
-    );
+    const token = await this.client.exchangeCode(authCredential);
+
+    const scopes = (token.scope ?? '').split(',').map((scope) => scope.trim());
+    if (!scopes.some((scope) => USERINFO_SCOPES.includes(scope))) {
+      return { providerUserId: token.openid, unionId: token.unionid ?? null };
+    }
+
+    const userInfo = await this.client.getUserInfo({
+      accessToken: token.access_token,
+      openid: token.openid,
+    });
+    return {
+      providerUserId: token.openid,
+      unionId: token.unionid ?? userInfo.unionid ?? null,
+      profile: {
+        nickname: userInfo.nickname || null,
+        avatarUrl: userInfo.headimgurl || null,
+      },
+    };
   }
 }
@@ -3,11 +3,15 @@ import { HttpModule } from '@nestjs/axios';
 import { Module, Provider } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { CoreJwtModule } from '@src/infrastructure/jwt/jwt.module';
 
 import { ThirdPartyAuthEntity } from '@src/modules/account/base/entities/third-party-auth.entity';
 
 import { ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import { OidcHttpClient } from './clients/oidc-http.client';
+import { WechatOAuthClient } from './clients/wechat-oauth.client';
 import { ThirdPartyProvider } from './interfaces/third-party-provider.interface';
+import { OidcProviderRegistry } from './providers/oidc-provider.registry';
 import { WeAppProvider } from './providers/weapp.provider';
 import { WechatProvider } from './providers/wechat.provider';
 import { ThirdPartyAuthQueryService } from './queries/third-party-auth.query.service';
@@ -19,16 +23,18 @@ import { PROVIDER_MAP, ThirdPartyAuthService } from './third-party-auth.service'
  */
 const providerMapFactory: Provider = {
   provide: PROVIDER_MAP,
-  useFactory: (weapp: WeAppProvider, wechat: WechatProvider) => {
+  useFactory: (weapp: WeAppProvider, wechat: WechatProvider, oidc: OidcProviderRegistry) => {
     // 构建第三方平台类型到提供者实现的映射
     const map = new Map<ThirdPartyProviderEnum, ThirdPartyProvider>([
       [weapp.provider, weapp],
       [wechat.provider, wechat],
-      // TODO: 添加更多第三方平台支持 (GitHub、Google、QQ 等)
+      // OIDC / OAuth2 平台（GOOGLE、GITHUB）仅在配置了 clientId 时注册
+      ...oidc.list().map((provider) => [provider.provider, provider] as const),
+      // TODO: 添加更多第三方平台支持 (QQ 等)
     ]);
     return map;
   },
-  inject: [WeAppProvider, WechatProvider],
+  inject: [WeAppProvider, WechatProvider, OidcProviderRegistry],
 };
 
 /**
@@ -36,8 +42,16 @@ const providerMapFactory: Provider = {
  * 提供统一的第三方平台认证、绑定、解绑等功能
  */
 @Module({
-  imports: [TypeOrmModule.forFeature([ThirdPartyAuthEntity]), HttpModule, ConfigModule],
+  imports: [
+    TypeOrmModule.forFeature([ThirdPartyAuthEntity]),
+    HttpModule,
+    ConfigModule,
+    CoreJwtModule,
+  ],
   providers: [
+    WechatOAuthClient,
+    OidcHttpClient,
+    OidcProviderRegistry,
     WeAppProvider,
     WechatProvider,
     providerMapFactory,
@@ -1,4 +1,5 @@
 // src/modules/third-party-auth/third-party-auth.service.ts
+import { OidcAuthorizationView } from '@app-types/auth/oidc.types';
 import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
 import {
   BindThirdPartyInputModel,
@@ -7,12 +8,13 @@ import {
   ThirdPartySession,
   UnbindThirdPartyInputModel,
 } from '@app-types/models/third-party-auth.types';
-import { DomainError, THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
+import { DomainError, isDomainError, THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
 import { Inject, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { ThirdPartyAuthEntity } from '@src/modules/account/base/entities/third-party-auth.entity';
-import { Repository } from 'typeorm';
+import { EntityManager, Not, Repository } from 'typeorm';
 import { ThirdPartyProvider } from './interfaces/third-party-provider.interface';
+import { OidcProviderRegistry } from './providers/oidc-provider.registry';
 import { WeAppProvider } from './providers/weapp.provider';
 
 /** 第三方认证提供者映射的依赖注入标识 */
@@ -30,6 +32,7 @@ export class ThirdPartyAuthService {
     @Inject(PROVIDER_MAP)
     private readonly adapters: Map<ThirdPartyProviderEnum, ThirdPartyProvider>,
     private readonly weappProvider: WeAppProvider,
+    private readonly oidcProviderRegistry: OidcProviderRegistry,
   ) {}
 
   /**
@@ -39,6 +42,8 @@ export class ThirdPartyAuthService {
    * @param params.provider 第三方平台类型
    * @param params.credential 第三方认证凭证
    * @param params.audience 客户端类型
+   * @param params.state OAuth2 回调中的 state (仅 OIDC / OAuth2 平台)
+   * @param params.flowToken 登录流程令牌 (仅 OIDC / OAuth2 平台)
    * @returns 标准化的第三方会话信息
    * @throws BadRequestException 当平台不支持时抛出异常
    * @throws UnauthorizedException 当凭证无效时抛出异常
@@ -47,10 +52,14 @@ export class ThirdPartyAuthService {
     provider,
     authCredential,
     audience,
+    state,
+    flowToken,
   }: {
     provider: ThirdPartyProviderEnum;
     authCredential: string;
     audience: AudienceTypeEnum;
+    state?: string;
+    flowToken?: string;
   }): Promise<ThirdPartySession> {
     const adapter = this.adapters.get(provider);
     if (!adapter) {
@@ -64,30 +73,64 @@ export class ThirdPartyAuthService {
       return await adapter.exchangeCredential({
         authCredential,
         audience,
+        state,
+        flowToken,
       });
-    } catch {
+    } catch (error) {
+      // 组织白名单拒绝需要让用户看到明确原因，不折叠为凭证无效
+      if (isDomainError(error) && error.code === THIRDPARTY_ERROR.IDENTITY_NOT_ALLOWED) {
+        throw error;
+      }
       // TODO: 在此处添加横切关注点：错误折叠、监控打点、限流重试、幂等去重等
       throw new DomainError(THIRDPARTY_ERROR.CREDENTIAL_INVALID, '第三方凭证无效或已过期');
     }
   }
 
+  /**
+   * 发起 OIDC / OAuth2 登录
+   * 生成平台授权地址（含 state、nonce、PKCE）与登录流程令牌
+   * @param params 发起参数
+   * @param params.provider 第三方平台类型
+   * @param params.audience 客户端类型
+   * @returns 授权地址、state 与登录流程令牌
+   * @throws DomainError 当平台未配置 OIDC / OAuth2 或发现文档获取失败时抛出
+   */
+  async beginOidcAuthorization(params: {
+    provider: ThirdPartyProviderEnum;
+    audience: AudienceTypeEnum;
+  }): Promise<OidcAuthorizationView> {
+    const oidcProvider = this.oidcProviderRegistry.get(params.provider);
+    if (!oidcProvider) {
+      throw new DomainError(
+        THIRDPARTY_ERROR.PROVIDER_NOT_SUPPORTED,
+        `未启用的 OIDC 登录平台：${params.provider}`,
+      );
+    }
+    return await oidcProvider.buildAuthorization({ audience: params.audience });
+  }
+
   /**
    * 绑定第三方账户
    * 将用户账户与第三方平台账户建立绑定关系
    * @param params 绑定参数
    * @param params.accountId 用户账户 ID
    * @param params.input 绑定输入参数
+   * @param params.manager 可选的事务管理器（与验证记录消费在同一事务中绑定时传入）
    * @returns 绑定后的第三方认证实体
    * @throws HttpException 当账户已绑定或第三方账户已被占用时抛出异常
    */
   async bindThirdParty(params: {
     accountId: number;
     input: BindThirdPartyInputModel;
+    manager?: EntityManager;
   }): Promise<ThirdPartyAuthView> {
-    const { accountId, input } = params;
+    const { accountId, input, manager } = params;
+    const repository = manager
+      ? manager.getRepository(ThirdPartyAuthEntity)
+      : this.thirdPartyAuthRepository;
 
     // 检查当前账户是否已绑定该平台
-    const existedByAccount = await this.thirdPartyAuthRepository.findOne({
+    const existedByAccount = await repository.findOne({
       where: { accountId, provider: input.provider },
     });
     if (existedByAccount) {
@@ -98,7 +141,7 @@ export class ThirdPartyAuthService {
     }
 
     // 检查该第三方账户是否已被其他用户绑定
-    const existedByProvider = await this.thirdPartyAuthRepository.findOne({
+    const existedByProvider = await repository.findOne({
       where: { provider: input.provider, providerUserId: input.providerUserId },
     });
     if (existedByProvider) {
@@ -109,7 +152,7 @@ export class ThirdPartyAuthService {
     }
 
     // 创建新的绑定关系
-    const thirdPartyAuth = this.thirdPartyAuthRepository.create({
+    const thirdPartyAuth = repository.create({
       accountId,
       provider: input.provider,
       providerUserId: input.providerUserId,
@@ -117,7 +160,7 @@ export class ThirdPartyAuthService {
       accessToken: input.accessToken,
     });
 
-    const saved = await this.thirdPartyAuthRepository.save(thirdPartyAuth);
+    const saved = await repository.save(thirdPartyAuth);
     return this.toView(saved);
   }
 
@@ -177,6 +220,39 @@ export class ThirdPartyAuthService {
     return record ? this.toView(record) : null;
   }
 
+  /**
+   * 按 unionid 关联已有账户并补建当前平台的绑定
+   * 同一开放平台下小程序与公众号 / 网站应用的 unionid 相同：
+   * 用户先在小程序注册后，首次网页授权登录即可自动归入同一账户
+   * @param params 关联参数
+   * @param params.provider 当前登录的第三方平台类型
+   * @param params.session 第三方会话信息
+   * @returns 新建的绑定记录；无 unionid、无可关联账户或关联账户不唯一时返回 null
+   * @throws DomainError 当关联账户已绑定该平台的其他用户时抛出
+   */
+  async linkByUnionId(params: {
+    provider: ThirdPartyProviderEnum;
+    session: ThirdPartySession;
+  }): Promise<ThirdPartyAuthView | null> {
+    const { provider, session } = params;
+    if (!session.unionId) {
+      return null;
+    }
+
+    const siblings = await this.thirdPartyAuthRepository.find({
+      where: { unionId: session.unionId, provider: Not(provider) },
+      select: ['id', 'accountId'],
+    });
+    const accountIds = new Set(siblings.map((record) => record.accountId));
+    if (accountIds.size !== 1) {
+      // 不存在或指向多个账户时不做猜测，交由上层按未绑定处理
+      return null;
+    }
+
+    const [accountId] = accountIds;
+    return await this.bindThirdPartyForRegistration({ accountId, provider, session });
+  }
+
   /**
    * 获取用户的第三方绑定列表
    * 查询指定用户的所有第三方平台绑定记录
@@ -0,0 +1,89 @@
+// src/modules/verification-record/events/verification-record-event.emitter.ts
+
+import {
+  VerificationRecordEvent,
+  VerificationRecordEventListener,
+  VerificationRecordEventType,
+} from '@app-types/models/verification-record-event.types';
+import { Injectable } from '@nestjs/common';
+import { PinoLogger } from 'nestjs-pino';
+
+/**
+ * 验证记录领域事件发布器
+ * - 其他模块（通知、统计等）通过 on / onAny 订阅，返回值用于取消订阅
+ * - 监听器异步执行，互不影响；抛出的错误只记录日志，不影响发布方
+ */
+@Injectable()
+export class VerificationRecordEventEmitter {
+  private readonly listeners = new Map<
+    VerificationRecordEventType,
+    Set<VerificationRecordEventListener>
+  >();
+  private readonly anyListeners = new Set<VerificationRecordEventListener>();
+
+  constructor(private readonly logger: PinoLogger) {
+    this.logger.setContext(VerificationRecordEventEmitter.name);
+  }
+
+  /**
+   * 订阅指定类型的事件
+   * @param eventType 事件类型
+   * @param listener 监听器
+   * @returns 取消订阅函数
+   */
+  on<T extends VerificationRecordEventType>(
+    eventType: T,
+    listener: VerificationRecordEventListener<T>,
+  ): () => void {
+    const listeners = this.listeners.get(eventType) ?? new Set<VerificationRecordEventListener>();
+    this.listeners.set(eventType, listeners);
+    const registered = listener as VerificationRecordEventListener;
+    listeners.add(registered);
+    return () => {
+      listeners.delete(registered);
+    };
+  }
+
+  /**
+   * 订阅全部事件
+   * @param listener 监听器
+   * @returns 取消订阅函数
+   */
+  onAny(listener: VerificationRecordEventListener): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 发布事件（不等待监听器执行完成）
+   * @param event 验证记录事件
+   */
+  emit(event: VerificationRecordEvent): void {
+    const listeners = [...(this.listeners.get(event.eventType) ?? []), ...this.anyListeners];
+    for (const listener of listeners) {
+      setImmediate(() => {
+        void this.invoke(listener, event);
+      });
+    }
+  }
+
+  private async invoke(
+    listener: VerificationRecordEventListener,
+    event: VerificationRecordEvent,
+  ): Promise<void> {
+    try {
+      await listener(event);
+    } catch (error) {
+      this.logger.warn(
+        {
+          recordId: event.recordId,
+          eventType: event.eventType,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        '验证记录事件监听器执行失败',
+      );
+    }
+  }
+}
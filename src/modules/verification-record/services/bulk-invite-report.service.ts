@@ -0,0 +1,65 @@
+// src/modules/verification-record/services/bulk-invite-report.service.ts
+
+import { BulkInviteReport } from '@app-types/models/verification-record.types';
+import { Inject, Injectable } from '@nestjs/common';
+import { REDIS_CLIENT } from '@src/infrastructure/redis/redis.module';
+import type Redis from 'ioredis';
+import { PinoLogger } from 'nestjs-pino';
+
+const REPORT_KEY_PREFIX = 'invite:bulk-report:';
+
+/** 批量邀请报告保留时长（秒） */
+const REPORT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * 批量邀请结果报告存储
+ * - 异步任务的逐行结果写入 Redis（带 TTL），任务状态仍以 base_async_task_records 为准
+ * - 读写失败只告警，不影响任务本身的执行结果
+ */
+@Injectable()
+export class BulkInviteReportService {
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(BulkInviteReportService.name);
+  }
+
+  /**
+   * 保存任务报告
+   * @param jobId 队列任务 ID
+   * @param report 结果报告
+   */
+  async save(jobId: string, report: BulkInviteReport): Promise<void> {
+    try {
+      await this.redis.set(this.key(jobId), JSON.stringify(report), 'EX', REPORT_TTL_SECONDS);
+    } catch (error) {
+      this.logger.warn(
+        { jobId, error: error instanceof Error ? error.message : String(error) },
+        '保存批量邀请报告失败',
+      );
+    }
+  }
+
+  /**
+   * 读取任务报告
+   * @param jobId 队列任务 ID
+   * @returns 报告；尚未完成、已过期或读取失败时为 null
+   */
+  async find(jobId: string): Promise<BulkInviteReport | null> {
+    try {
+      const raw = await this.redis.get(this.key(jobId));
+      return raw ? (JSON.parse(raw) as BulkInviteReport) : null;
+    } catch (error) {
+      this.logger.warn(
+        { jobId, error: error instanceof Error ? error.message : String(error) },
+        '读取批量邀请报告失败',
+      );
+      return null;
+    }
+  }
+
+  private key(jobId: string): string {
+    return `${REPORT_KEY_PREFIX}${jobId}`;
+  }
+}
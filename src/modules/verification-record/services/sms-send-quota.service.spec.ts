@@ -0,0 +1,152 @@
+// src/modules/verification-record/services/sms-send-quota.service.spec.ts
+import { SmsQuotaConfig, SmsQuotaReason } from '@app-types/auth/sms-code.types';
+import { VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import type { ConfigService } from '@nestjs/config';
+import type Redis from 'ioredis';
+import type { PinoLogger } from 'nestjs-pino';
+import { SmsSendQuotaService } from './sms-send-quota.service';
+
+type SortedSets = Map<string, Map<string, number>>;
+
+type RedisMultiMock = {
+  readonly zremrangebyscore: (key: string, min: number, max: number) => RedisMultiMock;
+  readonly zadd: (key: string, score: number, member: string) => RedisMultiMock;
+  readonly zcard: (key: string) => RedisMultiMock;
+  readonly pexpire: () => RedisMultiMock;
+  readonly exec: () => Promise<Array<[null, unknown]>>;
+};
+
+type RedisMock = {
+  status: string;
+  readonly multi: jest.Mock<RedisMultiMock, []>;
+};
+
+type ConfigServiceMock = {
+  readonly get: jest.Mock<SmsQuotaConfig | undefined, [string]>;
+};
+
+type LoggerMock = {
+  readonly setContext: jest.Mock<void, [string]>;
+  readonly warn: jest.Mock<void, [object, string]>;
+};
+
+const baseConfig: SmsQuotaConfig = {
+  windowSeconds: 3600,
+  maxPerPhone: 2,
+  maxPerIp: 3,
+};
+
+/**
+ * 基于内存有序集合的 MULTI 事务，只实现滑动窗口计数用到的命令
+ */
+function createMulti(sets: SortedSets): RedisMultiMock {
+  const ops: Array<() => [null, unknown]> = [];
+  const chain: RedisMultiMock = {
+    zremrangebyscore: (key, min, max) => {
+      ops.push(() => {
+        const set = sets.get(key);
+        set?.forEach((score, member) => {
+          if (score >= min && score <= max) set.delete(member);
+        });
+        return [null, 0];
+      });
+      return chain;
+    },
+    zadd: (key, score, member) => {
+      ops.push(() => {
+        const set = sets.get(key) ?? new Map<string, number>();
+        set.set(member, score);
+        sets.set(key, set);
+        return [null, 1];
+      });
+      return chain;
+    },
+    zcard: (key) => {
+      ops.push(() => [null, sets.get(key)?.size ?? 0]);
+      return chain;
+    },
+    pexpire: () => {
+      ops.push(() => [null, 1]);
+      return chain;
+    },
+    exec: () => Promise.resolve(ops.map((op) => op())),
+  };
+  return chain;
+}
+
+describe('SmsSendQuotaService', () => {
+  let sets: SortedSets;
+  let redis: RedisMock;
+  let configService: ConfigServiceMock;
+  let logger: LoggerMock;
+  let service: SmsSendQuotaService;
+
+  beforeEach(() => {
+    sets = new Map();
+    redis = {
+      status: 'ready',
+      multi: jest.fn(() => createMulti(sets)),
+    };
+    configService = {
+      get: jest.fn().mockReturnValue(baseConfig),
+    };
+    logger = {
+      setContext: jest.fn(),
+      warn: jest.fn(),
+    };
+
+    service = new SmsSendQuotaService(
+      redis as unknown as Redis,
+      configService as unknown as ConfigService,
+      logger as unknown as PinoLogger,
+    );
+  });
+
+  it('同一手机号达到上限后拒绝发送', async () => {
+    await service.consume({ phone: '13800000000', ip: '10.0.0.1' });
+    await service.consume({ phone: '13800000000', ip: '10.0.0.1' });
+
+    await expect(service.consume({ phone: '13800000000', ip: '10.0.0.1' })).rejects.toMatchObject({
+      code: VERIFICATION_RECORD_ERROR.SEND_QUOTA_EXCEEDED,
+      details: { reason: SmsQuotaReason.PHONE, windowSeconds: 3600 },
+    });
+  });
+
+  it('同一 IP 达到上限后拒绝发送，被拒绝的请求不占用手机号配额', async () => {
+    await service.consume({ phone: '13800000001', ip: '10.0.0.1' });
+    await service.consume({ phone: '13800000002', ip: '10.0.0.1' });
+    await service.consume({ phone: '13800000003', ip: '10.0.0.1' });
+
+    await expect(service.consume({ phone: '13800000004', ip: '10.0.0.1' })).rejects.toMatchObject({
+      details: { reason: SmsQuotaReason.IP },
+    });
+    expect(sets.get('sms:quota:phone:13800000004')?.size ?? 0).toBe(0);
+
+    // 更换来源 IP 不受影响
+    await expect(
+      service.consume({ phone: '13800000004', ip: '10.0.0.2' }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('窗口外的发送记录不计入配额', async () => {
+    const expired = Date.now() - 2 * 3600 * 1000;
+    sets.set(
+      'sms:quota:phone:13800000000',
+      new Map([
+        ['a', expired],
+        ['b', expired],
+      ]),
+    );
+
+    await expect(service.consume({ phone: '13800000000' })).resolves.toBeUndefined();
+  });
+
+  it('Redis 未就绪时直接放行', async () => {
+    redis.status = 'connecting';
+
+    await service.consume({ phone: '13800000000' });
+    await service.consume({ phone: '13800000000' });
+    await expect(service.consume({ phone: '13800000000' })).resolves.toBeUndefined();
+    expect(redis.multi).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,162 @@
+// src/modules/verification-record/services/sms-send-quota.service.ts
+
+import { SmsQuotaConfig, SmsQuotaReason, SmsQuotaSubject } from '@app-types/auth/sms-code.types';
+import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { REDIS_CLIENT } from '@src/infrastructure/redis/redis.module';
+import { randomUUID } from 'crypto';
+import type Redis from 'ioredis';
+import { PinoLogger } from 'nestjs-pino';
+
+const QUOTA_KEY_PREFIX = 'sms:quota:';
+
+/**
+ * 单个配额维度（手机号 / IP）
+ */
+interface QuotaDimension {
+  reason: SmsQuotaReason;
+  key: string;
+  max: number;
+}
+
+/**
+ * 短信发送配额服务
+ * - Redis 有序集合实现滑动窗口，按手机号与 IP 分别计数
+ * - 任一维度达到上限即拒绝，拒绝的请求不计入配额
+ * - Redis 未就绪或命令出错时放行，不阻断发送
+ */
+@Injectable()
+export class SmsSendQuotaService {
+  private readonly config: SmsQuotaConfig | undefined;
+
+  constructor(
+    @Inject(REDIS_CLIENT) private readonly redis: Redis,
+    configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(SmsSendQuotaService.name);
+    this.config = configService.get<SmsQuotaConfig>('sms.quota');
+  }
+
+  /**
+   * 校验并占用一次发送配额
+   * @param subject 手机号与来源 IP
+   * @throws DomainError(VERIFICATION_RECORD_ERROR.SEND_QUOTA_EXCEEDED) 携带 reason 与 windowSeconds
+   */
+  async consume(subject: SmsQuotaSubject): Promise<void> {
+    const config = this.config;
+    const dimensions = this.resolveDimensions(subject);
+    if (!config || dimensions.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const windowMs = config.windowSeconds * 1000;
+
+    let counts: number[];
+    try {
+      counts = await Promise.all(
+        dimensions.map((dimension) => this.countInWindow(dimension.key, now, windowMs)),
+      );
+    } catch (error) {
+      this.warnRedisFailure(subject, error, '查询短信发送配额失败，已放行');
+      return;
+    }
+
+    const exceededIndex = dimensions.findIndex(
+      (dimension, index) => counts[index] >= dimension.max,
+    );
+    if (exceededIndex >= 0) {
+      this.logger.warn(
+        {
+          event: 'sms_quota_exceeded',
+          reason: dimensions[exceededIndex].reason,
+          ip: subject.ip,
+          count: counts[exceededIndex],
+        },
+        '短信发送次数达到上限',
+      );
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.SEND_QUOTA_EXCEEDED,
+        '短信发送次数已达上限，请稍后再试',
+        {
+          reason: dimensions[exceededIndex].reason,
+          windowSeconds: config.windowSeconds,
+        },
+      );
+    }
+
+    try {
+      for (const dimension of dimensions) {
+        await this.redis
+          .multi()
+          .zadd(dimension.key, now, `${now}:${randomUUID()}`)
+          .pexpire(dimension.key, windowMs)
+          .exec();
+      }
+    } catch (error) {
+      this.warnRedisFailure(subject, error, '记录短信发送配额失败，已放行');
+    }
+  }
+
+  /**
+   * 滑动窗口计数：清理窗口外的记录 → 返回窗口内发送次数
+   */
+  private async countInWindow(key: string, now: number, windowMs: number): Promise<number> {
+    const results = await this.redis
+      .multi()
+      .zremrangebyscore(key, 0, now - windowMs)
+      .zcard(key)
+      .exec();
+    const [error, count] = results?.[1] ?? [null, 0];
+    if (error) {
+      throw error;
+    }
+    return Number(count);
+  }
+
+  /**
+   * 解析需要计数的维度；未配置、上限 <= 0 或 Redis 未就绪时跳过
+   */
+  private resolveDimensions(subject: SmsQuotaSubject): QuotaDimension[] {
+    const config = this.config;
+    if (!config || !this.isRedisReady()) {
+      return [];
+    }
+
+    const dimensions: QuotaDimension[] = [];
+    const phone = subject.phone.trim();
+    if (phone && config.maxPerPhone > 0) {
+      dimensions.push({
+        reason: SmsQuotaReason.PHONE,
+        key: `${QUOTA_KEY_PREFIX}phone:${phone}`,
+        max: config.maxPerPhone,
+      });
+    }
+    const ip = subject.ip?.trim();
+    if (ip && config.maxPerIp > 0) {
+      dimensions.push({
+        reason: SmsQuotaReason.IP,
+        key: `${QUOTA_KEY_PREFIX}ip:${ip}`,
+        max: config.maxPerIp,
+      });
+    }
+    return dimensions;
+  }
+
+  /** 连接未就绪时 ioredis 会排队挂起命令，这里直接放行 */
+  private isRedisReady(): boolean {
+    return this.redis.status === 'ready';
+  }
+
+  private warnRedisFailure(subject: SmsQuotaSubject, error: unknown, message: string): void {
+    this.logger.warn(
+      {
+        ip: subject.ip,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      message,
+    );
+  }
+}
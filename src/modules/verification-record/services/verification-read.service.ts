@@ -153,6 +153,8 @@ export class VerificationReadService {
       'specialty',
       'remark',
       'managerName', // 管理员姓名字段，用于 INVITE_MANAGER 类型
+      'learnerName', // 学员姓名字段，用于 INVITE_LEARNER 类型
+      'customerId',
       'department',
       'orgId',
       'projectId',
@@ -0,0 +1,133 @@
+// src/modules/verification-record/services/verification-record-event.service.spec.ts
+import {
+  VerificationRecordEvent,
+  VerificationRecordEventType,
+} from '@app-types/models/verification-record-event.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import type { PinoLogger } from 'nestjs-pino';
+import type { EntityManager, Repository } from 'typeorm';
+import { VerificationRecordEventEmitter } from '../events/verification-record-event.emitter';
+import type { VerificationRecordEventEntity } from '../verification-record-event.entity';
+import { VerificationRecordEventService } from './verification-record-event.service';
+
+/** 等待 setImmediate 调度的监听器执行完毕 */
+const flushListeners = () => new Promise((resolve) => setImmediate(resolve));
+
+type EventRepositoryMock = {
+  readonly insert: jest.Mock<Promise<unknown>, [Partial<VerificationRecordEventEntity>[]]>;
+};
+
+type EntityManagerMock = {
+  readonly getRepository: jest.Mock<EventRepositoryMock>;
+};
+
+type LoggerMock = {
+  readonly setContext: jest.Mock<void, [string]>;
+  readonly warn: jest.Mock;
+};
+
+const revoked = {
+  recordId: 1,
+  recordType: VerificationRecordType.INVITE_COACH,
+  eventType: VerificationRecordEventType.REVOKED,
+  reason: 'MANUAL',
+};
+
+describe('VerificationRecordEventService', () => {
+  let repository: EventRepositoryMock;
+  let transactionRepository: EventRepositoryMock;
+  let manager: EntityManagerMock;
+  let logger: LoggerMock;
+  let emitter: VerificationRecordEventEmitter;
+  let service: VerificationRecordEventService;
+
+  beforeEach(() => {
+    repository = {
+      insert: jest.fn().mockResolvedValue(undefined),
+    };
+    transactionRepository = {
+      insert: jest.fn().mockResolvedValue(undefined),
+    };
+    manager = {
+      getRepository: jest.fn().mockReturnValue(transactionRepository),
+    };
+    logger = {
+      setContext: jest.fn(),
+      warn: jest.fn(),
+    };
+
+    emitter = new VerificationRecordEventEmitter(logger as unknown as PinoLogger);
+    service = new VerificationRecordEventService(
+      repository as unknown as Repository<VerificationRecordEventEntity>,
+      emitter,
+      logger as unknown as PinoLogger,
+    );
+  });
+
+  it('写入后按类型发布事件，未提供的字段记为 null', async () => {
+    const onRevoked = jest.fn();
+    const onAny = jest.fn();
+    const onCreated = jest.fn();
+    emitter.on(VerificationRecordEventType.REVOKED, onRevoked);
+    emitter.on(VerificationRecordEventType.CREATED, onCreated);
+    emitter.onAny(onAny);
+
+    await service.record(revoked);
+    await flushListeners();
+
+    expect(repository.insert).toHaveBeenCalledWith([
+      expect.objectContaining({ recordId: 1, actorAccountId: null, ip: null, reason: 'MANUAL' }),
+    ]);
+    expect(onRevoked).toHaveBeenCalledWith(
+      expect.objectContaining({ recordId: 1, eventType: VerificationRecordEventType.REVOKED }),
+    );
+    expect(onAny).toHaveBeenCalledTimes(1);
+    expect(onCreated).not.toHaveBeenCalled();
+  });
+
+  it('hold 的事务内写入的事件在提交后发布，回滚时丢弃', async () => {
+    const transaction = manager as unknown as EntityManager;
+    const received: VerificationRecordEvent[] = [];
+    emitter.onAny((event) => {
+      received.push(event);
+    });
+
+    service.hold(transaction);
+    await service.record(revoked, transaction);
+    await flushListeners();
+    expect(transactionRepository.insert).toHaveBeenCalledTimes(1);
+    expect(received).toHaveLength(0);
+    service.release(transaction, true);
+    await flushListeners();
+    expect(received).toHaveLength(1);
+
+    service.hold(transaction);
+    await service.record(revoked, transaction);
+    service.release(transaction, false);
+    await flushListeners();
+    expect(received).toHaveLength(1);
+  });
+
+  it('写入失败与监听器异常只告警，不影响调用方和其他监听器', async () => {
+    const healthy = jest.fn();
+    emitter.onAny(() => {
+      throw new Error('listener down');
+    });
+    const unsubscribe = emitter.onAny(healthy);
+
+    repository.insert.mockRejectedValueOnce(new Error('db down'));
+    await expect(service.record(revoked)).resolves.toBeUndefined();
+    await flushListeners();
+    expect(healthy).not.toHaveBeenCalled();
+
+    await service.record(revoked);
+    await flushListeners();
+    expect(healthy).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+
+    unsubscribe();
+    await service.record(revoked);
+    await flushListeners();
+    expect(healthy).toHaveBeenCalledTimes(1);
+  });
+});
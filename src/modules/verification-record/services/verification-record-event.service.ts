@@ -0,0 +1,141 @@
+// src/modules/verification-record/services/verification-record-event.service.ts
+
+import {
+  RecordVerificationRecordEventParams,
+  VerificationRecordEvent,
+} from '@app-types/models/verification-record-event.types';
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { PinoLogger } from 'nestjs-pino';
+import { EntityManager, Repository } from 'typeorm';
+import { VerificationRecordEventEntity } from '../verification-record-event.entity';
+import { VerificationRecordEventEmitter } from '../events/verification-record-event.emitter';
+
+const REASON_MAX_LENGTH = 64;
+
+/** 单条记录时间线最多返回的事件数 */
+const TIMELINE_MAX_EVENTS = 500;
+
+/**
+ * 验证记录事件服务
+ * - 事件只追加，不提供修改与删除；写入失败只告警，不影响业务操作
+ * - 写入后通过 VerificationRecordEventEmitter 发布；在 hold 过的事务中写入的事件待事务提交后再发布，回滚则丢弃
+ */
+@Injectable()
+export class VerificationRecordEventService {
+  private readonly heldEvents = new WeakMap<EntityManager, VerificationRecordEvent[]>();
+
+  constructor(
+    @InjectRepository(VerificationRecordEventEntity)
+    private readonly eventRepository: Repository<VerificationRecordEventEntity>,
+    private readonly eventEmitter: VerificationRecordEventEmitter,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(VerificationRecordEventService.name);
+  }
+
+  /**
+   * 写入一条事件
+   * @param params 事件内容
+   * @param manager 可选的事务管理器（与状态变更同事务写入）
+   */
+  async record(
+    params: RecordVerificationRecordEventParams,
+    manager?: EntityManager,
+  ): Promise<void> {
+    await this.recordMany([params], manager);
+  }
+
+  /**
+   * 批量写入事件
+   * @param params 事件内容列表
+   * @param manager 可选的事务管理器（与状态变更同事务写入）
+   */
+  async recordMany(
+    params: ReadonlyArray<RecordVerificationRecordEventParams>,
+    manager?: EntityManager,
+  ): Promise<void> {
+    if (params.length === 0) {
+      return;
+    }
+
+    const occurredAt = new Date();
+    const events: VerificationRecordEvent[] = params.map((item) => ({
+      recordId: item.recordId,
+      recordType: item.recordType,
+      eventType: item.eventType,
+      actorAccountId: item.actorAccountId ?? null,
+      reason: item.reason?.slice(0, REASON_MAX_LENGTH) || null,
+      ip: item.ip || null,
+      occurredAt,
+    }));
+
+    const repository = manager
+      ? manager.getRepository(VerificationRecordEventEntity)
+      : this.eventRepository;
+    try {
+      await repository.insert(
+        events.map(({ occurredAt: createdAt, ...event }) => ({ ...event, createdAt })),
+      );
+    } catch (error) {
+      this.logger.warn(
+        {
+          recordIds: events.map((event) => event.recordId),
+          eventType: events[0].eventType,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        '写入验证记录事件失败',
+      );
+      return;
+    }
+
+    const held = manager ? this.heldEvents.get(manager) : undefined;
+    if (held) {
+      held.push(...events);
+      return;
+    }
+    events.forEach((event) => this.eventEmitter.emit(event));
+  }
+
+  /**
+   * 暂存该事务内写入的事件，直到 release
+   * @param manager 事务管理器
+   */
+  hold(manager: EntityManager): void {
+    this.heldEvents.set(manager, []);
+  }
+
+  /**
+   * 结束暂存：事务提交时发布暂存的事件，回滚时丢弃
+   * @param manager 事务管理器
+   * @param committed 事务是否已提交
+   */
+  release(manager: EntityManager, committed: boolean): void {
+    const held = this.heldEvents.get(manager) ?? [];
+    this.heldEvents.delete(manager);
+    if (committed) {
+      held.forEach((event) => this.eventEmitter.emit(event));
+    }
+  }
+
+  /**
+   * 查询记录的事件时间线（按发生时间正序）
+   * @param recordId 验证记录 ID
+   */
+  async findTimeline(recordId: number): Promise<VerificationRecordEvent[]> {
+    const rows = await this.eventRepository.find({
+      where: { recordId },
+      order: { createdAt: 'ASC', id: 'ASC' },
+      take: TIMELINE_MAX_EVENTS,
+    });
+    return rows.map((row) => ({
+      recordId: row.recordId,
+      recordType: row.recordType,
+      eventType: row.eventType,
+      actorAccountId: row.actorAccountId,
+      reason: row.reason,
+      ip: row.ip,
+      occurredAt: row.createdAt,
+    }));
+  }
+}
@@ -41,6 +41,14 @@ export class VerificationCodeHelper {
     return this.generateNumericCode(6);
   }
 
+  /**
+   * 组合短信验证码的存储 token
+   * 6 位验证码全局碰撞概率高，按用途与手机号加前缀后再计算指纹，消费时以同样方式组合
+   */
+  buildSmsCodeToken(params: { phone: string; purpose: string; code: string }): string {
+    return `sms:${params.purpose}:${params.phone}:${params.code.trim()}`;
+  }
+
   generateEmailToken(): string {
     return this.generateTokenByChars(64);
   }
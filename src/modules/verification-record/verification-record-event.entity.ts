@@ -0,0 +1,54 @@
+// src/modules/verification-record/verification-record-event.entity.ts
+
+import { VerificationRecordEventType } from '@app-types/models/verification-record-event.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * 验证记录事件实体
+ * 对应数据库表：base_verification_record_events
+ * 只追加不修改；记录签发、投递、查看、消费尝试、撤销与过期
+ */
+@Entity('base_verification_record_events')
+@Index('idx_record_created', ['recordId', 'createdAt'])
+export class VerificationRecordEventEntity {
+  @PrimaryGeneratedColumn({ type: 'int', comment: 'primary key' })
+  id!: number;
+
+  @Column({ name: 'record_id', type: 'int', comment: '验证记录 ID' })
+  recordId!: number;
+
+  @Column({ name: 'record_type', type: 'varchar', length: 32, comment: '验证记录类型' })
+  recordType!: VerificationRecordType;
+
+  @Column({ name: 'event_type', type: 'varchar', length: 32, comment: '事件类型' })
+  eventType!: VerificationRecordEventType;
+
+  @Column({
+    name: 'actor_account_id',
+    type: 'int',
+    nullable: true,
+    comment: '操作者账户 ID（系统或匿名操作为 NULL）',
+  })
+  actorAccountId!: number | null;
+
+  @Column({
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+    comment: '原因：撤销原因 / 投递渠道 / 消费失败错误码',
+  })
+  reason!: string | null;
+
+  @Column({ type: 'varchar', length: 45, nullable: true, comment: '操作 IP' })
+  ip!: string | null;
+
+  @CreateDateColumn({
+    name: 'created_at',
+    type: 'timestamp',
+    precision: 3,
+    default: () => 'CURRENT_TIMESTAMP(3)',
+    comment: '创建时间（事件发生时间）',
+  })
+  createdAt!: Date;
+}
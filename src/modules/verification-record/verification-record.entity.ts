@@ -1,6 +1,7 @@
 // src/modules/verification-record/verification-record.entity.ts
 
 import {
+  DEFAULT_VERIFICATION_CODE_MAX_ATTEMPTS,
   SubjectType,
   VerificationRecordStatus,
   VerificationRecordType,
@@ -146,6 +147,32 @@ export class VerificationRecordEntity {
   })
   payload!: Record<string, unknown> | null;
 
+  /**
+   * 已失败尝试次数
+   * 仅验证码类记录计数，每次比对失败 +1
+   */
+  @Column({
+    name: 'attempt_count',
+    type: 'int',
+    nullable: false,
+    default: 0,
+    comment: '已失败尝试次数（仅验证码类记录）',
+  })
+  attemptCount!: number;
+
+  /**
+   * 最大尝试次数
+   * 失败次数达到该值后记录被撤销
+   */
+  @Column({
+    name: 'max_attempts',
+    type: 'int',
+    nullable: false,
+    default: DEFAULT_VERIFICATION_CODE_MAX_ATTEMPTS,
+    comment: '最大尝试次数（达到后撤销记录）',
+  })
+  maxAttempts!: number;
+
   /**
    * 签发者账号 ID
    * 可为空，记录创建该验证记录的账号 ID
@@ -1,16 +1,23 @@
 // src/modules/verification-record/verification-record.module.ts
 
+import { PaginationModule } from '@modules/common/pagination.module';
 import { PasswordModule } from '@modules/common/password/password.module';
 import { VerificationCodeHelper } from './verification-code.helper';
 import { AccountInstallerModule } from '@modules/account/account-installer.module';
 import { CoachServiceModule } from '@modules/account/identities/training/coach/coach-service.module';
 import { ManagerServiceModule } from '@modules/account/identities/training/manager/manager-service.module';
 import { Module } from '@nestjs/common';
+import { RedisModule } from '@src/infrastructure/redis/redis.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { VerificationRecordEventEmitter } from './events/verification-record-event.emitter';
 import { ConsumableQueryService } from './queries/consumable.query.service';
 import { VerificationRecordQueryService } from './queries/verification-record.query.service';
 import { VerificationRecordReadRepository } from './repositories/verification-record.read.repo';
+import { BulkInviteReportService } from './services/bulk-invite-report.service';
+import { SmsSendQuotaService } from './services/sms-send-quota.service';
 import { VerificationReadService } from './services/verification-read.service';
+import { VerificationRecordEventService } from './services/verification-record-event.service';
+import { VerificationRecordEventEntity } from './verification-record-event.entity';
 import { VerificationRecordEntity } from './verification-record.entity';
 import { VerificationRecordService } from './verification-record.service';
 
@@ -20,11 +27,13 @@ import { VerificationRecordService } from './verification-record.service';
  */
 @Module({
   imports: [
-    TypeOrmModule.forFeature([VerificationRecordEntity]),
+    TypeOrmModule.forFeature([VerificationRecordEntity, VerificationRecordEventEntity]),
     AccountInstallerModule, // 导入 AccountInstallerModule 以提供 AccountService
     PasswordModule, // 导入 PasswordModule 以提供 PasswordPolicyService
     CoachServiceModule, // 导入 CoachServiceModule 以提供 CoachService
     ManagerServiceModule, // 导入 ManagerServiceModule 以提供 ManagerService
+    RedisModule, // 导入 RedisModule 以提供短信发送配额计数与批量邀请报告
+    PaginationModule, // 导入 PaginationModule 以提供签发记录分页
   ],
   providers: [
     VerificationRecordService,
@@ -33,6 +42,10 @@ import { VerificationRecordService } from './verification-record.service';
     ConsumableQueryService,
     VerificationRecordQueryService,
     VerificationCodeHelper,
+    SmsSendQuotaService,
+    BulkInviteReportService,
+    VerificationRecordEventEmitter,
+    VerificationRecordEventService,
   ],
   exports: [
     TypeOrmModule,
@@ -42,6 +55,10 @@ import { VerificationRecordService } from './verification-record.service';
     ConsumableQueryService,
     VerificationRecordQueryService,
     VerificationCodeHelper,
+    SmsSendQuotaService,
+    BulkInviteReportService,
+    VerificationRecordEventEmitter,
+    VerificationRecordEventService,
   ],
 })
 export class VerificationRecordModule {}
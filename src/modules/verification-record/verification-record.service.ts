@@ -1,21 +1,46 @@
 // src/modules/verification-record/verification-record.service.ts
 
 import {
+  CODE_VERIFICATION_RECORD_TYPES,
   CreateVerificationRecordParams,
   FindVerificationRecordParams,
+  InviteAcceptanceStats,
   SubjectType,
   VerificationRecordStatus,
   VerificationRecordType,
 } from '@app-types/models/verification-record.types';
+import {
+  VERIFICATION_RECORD_REVOKE_REASON,
+  VerificationRecordEventType,
+} from '@app-types/models/verification-record-event.types';
 import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import type { PaginationParams, SortParam } from '@core/pagination/pagination.types';
+import { PaginationService } from '@modules/common/pagination.service';
 import { TokenFingerprintHelper } from '@modules/common/security/token-fingerprint.helper';
 import { Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { EntityManager, QueryFailedError, Repository } from 'typeorm';
+import { Brackets, EntityManager, QueryFailedError, Repository, SelectQueryBuilder } from 'typeorm';
+import { VerificationRecordEventService } from './services/verification-record-event.service';
 import { VerificationRecordEntity } from './verification-record.entity';
 
 export type VerificationRecordTransactionManager = EntityManager;
 
+/** 过期后仍允许消费的宽限期（毫秒） */
+export const VERIFICATION_RECORD_CONSUME_GRACE_MS = 180 * 1000;
+
+/** 已结束生命周期、可按保留期清理的状态 */
+const FINISHED_STATUSES = [
+  VerificationRecordStatus.CONSUMED,
+  VerificationRecordStatus.REVOKED,
+  VerificationRecordStatus.EXPIRED,
+];
+
+/** 签发记录列表允许的排序字段与列映射 */
+const ISSUED_RECORD_SORT_COLUMNS: Readonly<Record<string, string>> = {
+  createdAt: 'record.createdAt',
+  id: 'record.id',
+};
+
 export type VerificationRecordConsumeTargetConstraint =
   | { mode: 'IGNORE' }
   | { mode: 'NULL_ONLY' }
@@ -50,6 +75,8 @@ export class VerificationRecordService {
   constructor(
     @InjectRepository(VerificationRecordEntity)
     private readonly verificationRecordRepository: Repository<VerificationRecordEntity>,
+    private readonly paginationService: PaginationService,
+    private readonly verificationRecordEventService: VerificationRecordEventService,
   ) {}
 
   /**
@@ -271,12 +298,23 @@ export class VerificationRecordService {
         subjectId: params.subjectId || null,
         payload: params.payload || null,
         issuedByAccountId: params.issuedByAccountId || null,
+        ...(params.maxAttempts ? { maxAttempts: params.maxAttempts } : {}),
         consumedByAccountId: null,
         consumedAt: null,
       });
 
       // 保存到数据库
-      return await repository.save(record);
+      const saved = await repository.save(record);
+      await this.verificationRecordEventService.record(
+        {
+          recordId: saved.id,
+          recordType: saved.type,
+          eventType: VerificationRecordEventType.CREATED,
+          actorAccountId: saved.issuedByAccountId,
+        },
+        manager,
+      );
+      return saved;
     } catch (error) {
       // 处理唯一约束冲突（token 指纹重复）
       if (this.isUniqueConstraintViolation(error)) {
@@ -371,7 +409,12 @@ export class VerificationRecordService {
       queryBuilder.andWhere('record.id = :recordId', { recordId: where.id });
     }
     if (where.tokenFp !== undefined) {
-      queryBuilder.andWhere('record.tokenFp = :tokenFp', { tokenFp: where.tokenFp });
+      // 验证码类记录只能按（类型 + 目标）定位，避免凭指纹穷举
+      queryBuilder
+        .andWhere('record.tokenFp = :tokenFp', { tokenFp: where.tokenFp })
+        .andWhere('record.type NOT IN (:...codeTypes)', {
+          codeTypes: [...CODE_VERIFICATION_RECORD_TYPES],
+        });
     }
 
     const hasForAccountId = forAccountId !== undefined;
@@ -407,6 +450,8 @@ export class VerificationRecordService {
       subjectId?: number;
       now: Date;
       targetConstraint: VerificationRecordConsumeTargetConstraint;
+      /** 消费请求 IP（写入事件） */
+      clientIp?: string;
     };
     manager?: EntityManager;
   }): Promise<{
@@ -436,8 +481,7 @@ export class VerificationRecordService {
       updateFields.subjectId = subjectId;
     }
 
-    const gracePeriodMs = 180 * 1000;
-    const gracePeriodAgo = new Date(now.getTime() - gracePeriodMs);
+    const gracePeriodAgo = new Date(now.getTime() - VERIFICATION_RECORD_CONSUME_GRACE_MS);
 
     const queryBuilder = repository
       .createQueryBuilder()
@@ -486,6 +530,9 @@ export class VerificationRecordService {
     }
 
     const updatedRecord = await repository.findOne({ where });
+    if (updatedRecord) {
+      await this.recordConsumeSucceeded(updatedRecord, context, manager);
+    }
     return {
       affected: updateResult.affected ?? 0,
       updatedRecord: updatedRecord ?? null,
@@ -493,7 +540,32 @@ export class VerificationRecordService {
     };
   }
 
-  async revokeRecord(params: { recordId: number; manager?: EntityManager }): Promise<{
+  /**
+   * 写入消费成功事件（与消费同事务）
+   */
+  private async recordConsumeSucceeded(
+    record: VerificationRecordEntity,
+    context: { consumedByAccountId?: number; clientIp?: string },
+    manager?: EntityManager,
+  ): Promise<void> {
+    await this.verificationRecordEventService.record(
+      {
+        recordId: record.id,
+        recordType: record.type,
+        eventType: VerificationRecordEventType.CONSUME_SUCCEEDED,
+        actorAccountId: context.consumedByAccountId ?? null,
+        ip: context.clientIp,
+      },
+      manager,
+    );
+  }
+
+  async revokeRecord(params: {
+    recordId: number;
+    /** 撤销操作者账户 ID（写入事件） */
+    actorAccountId?: number;
+    manager?: EntityManager;
+  }): Promise<{
     affected: number;
     updatedRecord: VerificationRecordEntity | null;
     currentRecord: VerificationRecordEntity | null;
@@ -521,6 +593,18 @@ export class VerificationRecordService {
     }
 
     const updatedRecord = await repository.findOne({ where: { id: recordId } });
+    if (updatedRecord) {
+      await this.verificationRecordEventService.record(
+        {
+          recordId,
+          recordType: updatedRecord.type,
+          eventType: VerificationRecordEventType.REVOKED,
+          actorAccountId: params.actorAccountId ?? null,
+          reason: VERIFICATION_RECORD_REVOKE_REASON.MANUAL,
+        },
+        manager,
+      );
+    }
     return {
       affected: result.affected ?? 0,
       updatedRecord: updatedRecord ?? null,
@@ -528,6 +612,654 @@ export class VerificationRecordService {
     };
   }
 
+  /**
+   * 撤销目标账户下指定类型的全部活跃记录（基础数据库操作）
+   * 用于重新签发前作废旧链接，保证同一时间只有最新一条可用
+   * @returns 撤销的记录数
+   */
+  async revokeActiveRecordsByTarget(params: {
+    type: VerificationRecordType;
+    targetAccountId: number;
+    manager?: EntityManager;
+  }): Promise<number> {
+    const { type, targetAccountId, manager } = params;
+    return await this.revokeActiveRecordsForReissue({
+      type,
+      manager,
+      filter: (query) =>
+        query.andWhere('record.targetAccountId = :targetAccountId', { targetAccountId }),
+    });
+  }
+
+  /**
+   * 撤销指定主体下指定类型的全部活跃记录（基础数据库操作）
+   * 用于无目标账户的邀请（如学员邀请按学员 ID）重新签发前作废旧记录
+   * @returns 撤销的记录数
+   */
+  async revokeActiveRecordsBySubject(params: {
+    type: VerificationRecordType;
+    subjectType: SubjectType;
+    subjectId: number;
+    manager?: EntityManager;
+  }): Promise<number> {
+    const { type, subjectType, subjectId, manager } = params;
+    return await this.revokeActiveRecordsForReissue({
+      type,
+      manager,
+      filter: (query) =>
+        query
+          .andWhere('record.subjectType = :subjectType', { subjectType })
+          .andWhere('record.subjectId = :subjectId', { subjectId }),
+    });
+  }
+
+  /**
+   * 账户合并：将记录上的目标账户、签发者与使用者改挂到新账户（基础数据库操作）
+   * 记录事件中的操作者保持原值，作为审计历史
+   * @returns 涉及的记录数（dryRun 时仅统计）
+   */
+  async reassignAccount(params: {
+    fromAccountId: number;
+    toAccountId: number;
+    manager?: EntityManager;
+    dryRun?: boolean;
+  }): Promise<number> {
+    const { fromAccountId, toAccountId, manager } = params;
+    const repository = manager
+      ? manager.getRepository(VerificationRecordEntity)
+      : this.verificationRecordRepository;
+    const affected = await repository
+      .createQueryBuilder('record')
+      .where('record.targetAccountId = :fromAccountId', { fromAccountId })
+      .orWhere('record.issuedByAccountId = :fromAccountId', { fromAccountId })
+      .orWhere('record.consumedByAccountId = :fromAccountId', { fromAccountId })
+      .getCount();
+    if (params.dryRun || affected === 0) {
+      return affected;
+    }
+
+    await repository.update({ targetAccountId: fromAccountId }, { targetAccountId: toAccountId });
+    await repository.update(
+      { issuedByAccountId: fromAccountId },
+      { issuedByAccountId: toAccountId },
+    );
+    await repository.update(
+      { consumedByAccountId: fromAccountId },
+      { consumedByAccountId: toAccountId },
+    );
+    return affected;
+  }
+
+  /**
+   * 查找目标账户下指定类型最近创建的一条记录（**不做状态/时效校验**）
+   * 仅用于重新发送冷却等频率判断
+   */
+  async findLatestByTarget(params: {
+    type: VerificationRecordType;
+    targetAccountId: number;
+  }): Promise<VerificationRecordEntity | null> {
+    return await this.verificationRecordRepository.findOne({
+      where: { type: params.type, targetAccountId: params.targetAccountId },
+      order: { createdAt: 'DESC', id: 'DESC' },
+    });
+  }
+
+  /**
+   * 撤销 payload 指定字段全部匹配的活跃记录（基础数据库操作）
+   * 用于无目标账户的记录（如短信验证码按手机号）重新签发前作废旧记录
+   * @returns 撤销的记录数
+   */
+  async revokeActiveRecordsByPayload(params: {
+    type: VerificationRecordType;
+    payload: Readonly<Record<string, string>>;
+    manager?: EntityManager;
+  }): Promise<number> {
+    const { type, payload, manager } = params;
+    const conditions = this.buildPayloadConditions('record.payload', payload);
+    return await this.revokeActiveRecordsForReissue({
+      type,
+      manager,
+      filter: (query) => {
+        for (const [condition, parameters] of conditions) {
+          query.andWhere(condition, parameters);
+        }
+        return query;
+      },
+    });
+  }
+
+  /**
+   * 重新签发前撤销匹配的活跃记录，并按 REISSUED 写入撤销事件
+   * 先加锁取出 ID 再更新，未提供事务管理器时自行开启事务
+   * @returns 撤销的记录数
+   */
+  private async revokeActiveRecordsForReissue(params: {
+    type: VerificationRecordType;
+    manager?: EntityManager;
+    filter: (
+      query: SelectQueryBuilder<VerificationRecordEntity>,
+    ) => SelectQueryBuilder<VerificationRecordEntity>;
+  }): Promise<number> {
+    const revoke = async (manager: EntityManager): Promise<number> => {
+      const repository = manager.getRepository(VerificationRecordEntity);
+      const rows = await params
+        .filter(
+          repository
+            .createQueryBuilder('record')
+            .setLock('pessimistic_write')
+            .select('record.id', 'id')
+            .where('record.type = :type', { type: params.type })
+            .andWhere('record.status = :activeStatus', {
+              activeStatus: VerificationRecordStatus.ACTIVE,
+            }),
+        )
+        .getRawMany<{ id: number }>();
+      const ids = rows.map((row) => Number(row.id));
+      if (ids.length === 0) {
+        return 0;
+      }
+
+      const result = await repository
+        .createQueryBuilder()
+        .update()
+        .set({ status: VerificationRecordStatus.REVOKED })
+        .whereInIds(ids)
+        .execute();
+      await this.verificationRecordEventService.recordMany(
+        ids.map((recordId) => ({
+          recordId,
+          recordType: params.type,
+          eventType: VerificationRecordEventType.REVOKED,
+          reason: VERIFICATION_RECORD_REVOKE_REASON.REISSUED,
+        })),
+        manager,
+      );
+      return result.affected ?? 0;
+    };
+
+    return params.manager ? await revoke(params.manager) : await this.runTransaction(revoke);
+  }
+
+  /**
+   * 查找 payload 指定字段全部匹配的最近一条记录（**不做状态/时效校验**）
+   * 仅用于重新发送冷却等频率判断
+   */
+  async findLatestByPayload(params: {
+    type: VerificationRecordType;
+    payload: Readonly<Record<string, string>>;
+  }): Promise<VerificationRecordEntity | null> {
+    const query = this.verificationRecordRepository
+      .createQueryBuilder('record')
+      .where('record.type = :type', { type: params.type });
+    for (const [condition, parameters] of this.buildPayloadConditions(
+      'record.payload',
+      params.payload,
+    )) {
+      query.andWhere(condition, parameters);
+    }
+    return await query.orderBy('record.createdAt', 'DESC').addOrderBy('record.id', 'DESC').getOne();
+  }
+
+  /**
+   * 构建 payload 字段匹配条件（MySQL JSON_EXTRACT）
+   * 字段名会拼入 JSON 路径，只允许标识符字符
+   */
+  private buildPayloadConditions(
+    column: string,
+    payload: Readonly<Record<string, string>>,
+  ): Array<[string, Record<string, string>]> {
+    const entries = Object.entries(payload);
+    if (entries.length === 0) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, 'payload 匹配条件不能为空');
+    }
+    return entries.map(([key, value], index) => {
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(key)) {
+        throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, 'payload 字段名不合法', {
+          key,
+        });
+      }
+      const parameter = `payload_${index}`;
+      return [
+        `JSON_UNQUOTE(JSON_EXTRACT(${column}, '$.${key}')) = :${parameter}`,
+        { [parameter]: value },
+      ];
+    });
+  }
+
+  /**
+   * 查找（类型 + 目标）范围内最新一条可消费的验证码记录
+   * 目标为目标账户或 payload 字段，至少提供一项；同一范围内仅最新一条参与比对
+   */
+  async findActiveCodeRecord(params: {
+    type: VerificationRecordType;
+    targetAccountId?: number;
+    payload?: Readonly<Record<string, string>>;
+    now?: Date;
+  }): Promise<VerificationRecordEntity | null> {
+    const { type, targetAccountId, payload } = params;
+    const now = params.now ?? new Date();
+    if (targetAccountId === undefined && !payload) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, '验证码查找范围不能为空', {
+        type,
+      });
+    }
+
+    const query = this.verificationRecordRepository
+      .createQueryBuilder('record')
+      .where('record.type = :type', { type })
+      .andWhere('record.status = :activeStatus', { activeStatus: VerificationRecordStatus.ACTIVE })
+      .andWhere('record.expiresAt > :now', { now })
+      .andWhere('(record.notBefore IS NULL OR record.notBefore <= :now)', { now });
+    if (targetAccountId !== undefined) {
+      query.andWhere('record.targetAccountId = :targetAccountId', { targetAccountId });
+    }
+    if (payload) {
+      for (const [condition, parameters] of this.buildPayloadConditions(
+        'record.payload',
+        payload,
+      )) {
+        query.andWhere(condition, parameters);
+      }
+    }
+    return await query.orderBy('record.createdAt', 'DESC').addOrderBy('record.id', 'DESC').getOne();
+  }
+
+  /**
+   * 记录一次验证码比对失败（基础数据库操作）
+   * 失败次数 +1，达到最大尝试次数时同时撤销记录；仅对 ACTIVE 记录生效
+   * @returns 更新后的失败次数与是否已撤销；记录已不可用时返回 null
+   */
+  async recordFailedAttempt(params: {
+    recordId: number;
+    manager?: EntityManager;
+  }): Promise<{ attemptCount: number; maxAttempts: number; revoked: boolean } | null> {
+    const { recordId, manager } = params;
+    const repository = manager
+      ? manager.getRepository(VerificationRecordEntity)
+      : this.verificationRecordRepository;
+
+    // MySQL 按书写顺序求值赋值表达式：先判定状态，再累加计数
+    const result = await repository
+      .createQueryBuilder()
+      .update()
+      .set({
+        status: () =>
+          'CASE WHEN attempt_count + 1 >= max_attempts THEN :revokedStatus ELSE status END',
+        attemptCount: () => 'attempt_count + 1',
+      })
+      .where('id = :recordId', { recordId })
+      .andWhere('status = :activeStatus', { activeStatus: VerificationRecordStatus.ACTIVE })
+      .setParameter('revokedStatus', VerificationRecordStatus.REVOKED)
+      .execute();
+    if (!result.affected) {
+      return null;
+    }
+
+    const record = await repository.findOne({
+      where: { id: recordId },
+      select: ['id', 'type', 'status', 'attemptCount', 'maxAttempts'],
+    });
+    if (!record) {
+      return null;
+    }
+    if (record.status === VerificationRecordStatus.REVOKED) {
+      await this.verificationRecordEventService.record(
+        {
+          recordId,
+          recordType: record.type,
+          eventType: VerificationRecordEventType.REVOKED,
+          reason: VERIFICATION_RECORD_REVOKE_REASON.TOO_MANY_ATTEMPTS,
+        },
+        manager,
+      );
+    }
+    return {
+      attemptCount: record.attemptCount,
+      maxAttempts: record.maxAttempts,
+      revoked: record.status === VerificationRecordStatus.REVOKED,
+    };
+  }
+
+  /**
+   * 将指定类型下已超时的 ACTIVE 记录标记为 EXPIRED（单批，基础数据库操作）
+   * 按 (type, status, expires_at) 索引取一批 ID 后更新，调用方循环直到返回值小于 limit
+   * @param params.before 过期时间早于该时刻的记录（调用方需预留消费宽限期）
+   * @returns 本批标记的记录数
+   */
+  async expireOverdueRecords(params: {
+    type: VerificationRecordType;
+    before: Date;
+    limit: number;
+  }): Promise<number> {
+    return await this.runTransaction(async (manager) => {
+      const ids = await this.findBatchIds({
+        type: params.type,
+        statuses: [VerificationRecordStatus.ACTIVE],
+        expiresBefore: params.before,
+        limit: params.limit,
+        manager,
+      });
+      if (ids.length === 0) {
+        return 0;
+      }
+
+      const result = await manager
+        .getRepository(VerificationRecordEntity)
+        .createQueryBuilder()
+        .update()
+        .set({ status: VerificationRecordStatus.EXPIRED })
+        .whereInIds(ids)
+        .execute();
+      await this.verificationRecordEventService.recordMany(
+        ids.map((recordId) => ({
+          recordId,
+          recordType: params.type,
+          eventType: VerificationRecordEventType.EXPIRED,
+        })),
+        manager,
+      );
+      return result.affected ?? 0;
+    });
+  }
+
+  /**
+   * 删除指定类型下过期时间早于 before 的终态记录（单批，基础数据库操作）
+   * 终态：CONSUMED / REVOKED / EXPIRED；调用方循环直到返回值小于 limit
+   * @returns 本批删除的记录数
+   */
+  async purgeFinishedRecords(params: {
+    type: VerificationRecordType;
+    before: Date;
+    limit: number;
+  }): Promise<number> {
+    const ids = await this.findBatchIds({
+      type: params.type,
+      statuses: FINISHED_STATUSES,
+      expiresBefore: params.before,
+      limit: params.limit,
+    });
+    if (ids.length === 0) {
+      return 0;
+    }
+
+    const result = await this.verificationRecordRepository.delete(ids);
+    return result.affected ?? 0;
+  }
+
+  /**
+   * 按 idx_type_status_exp 索引取一批记录 ID
+   * 提供事务管理器时对取出的行加写锁
+   */
+  private async findBatchIds(params: {
+    type: VerificationRecordType;
+    statuses: VerificationRecordStatus[];
+    expiresBefore: Date;
+    limit: number;
+    manager?: EntityManager;
+  }): Promise<number[]> {
+    const query = this.getRepository(params.manager).createQueryBuilder('record');
+    if (params.manager) {
+      query.setLock('pessimistic_write');
+    }
+    const rows = await query
+      .select('record.id', 'id')
+      .where('record.type = :type', { type: params.type })
+      .andWhere('record.status IN (:...statuses)', { statuses: params.statuses })
+      .andWhere('record.expiresAt < :expiresBefore', { expiresBefore: params.expiresBefore })
+      .orderBy('record.expiresAt', 'ASC')
+      .limit(params.limit)
+      .getRawMany<{ id: number }>();
+    return rows.map((row) => Number(row.id));
+  }
+
+  /**
+   * 分页查询指定账号签发的记录（基础数据库操作，按创建时间倒序）
+   * 状态按有效状态筛选：已超过有效期的 ACTIVE 记录视为 EXPIRED
+   */
+  async findIssuedPaginated(params: {
+    issuedByAccountId: number;
+    types: ReadonlyArray<VerificationRecordType>;
+    status?: VerificationRecordStatus;
+    page: number;
+    limit: number;
+    now?: Date;
+  }): Promise<{
+    items: VerificationRecordEntity[];
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  }> {
+    const now = params.now ?? new Date();
+    const qb = this.verificationRecordRepository
+      .createQueryBuilder('record')
+      .where('record.issuedByAccountId = :issuedByAccountId', {
+        issuedByAccountId: params.issuedByAccountId,
+      })
+      .andWhere('record.type IN (:...types)', { types: params.types });
+    if (params.status) {
+      this.applyEffectiveStatus(qb, params.status, now);
+    }
+
+    const safeLimit = Math.max(params.limit, 1);
+    const defaultSorts: ReadonlyArray<SortParam> = [
+      { field: 'createdAt', direction: 'DESC' },
+      { field: 'id', direction: 'DESC' },
+    ];
+    const paginationParams: PaginationParams = {
+      mode: 'OFFSET',
+      page: params.page,
+      pageSize: safeLimit,
+      sorts: defaultSorts,
+      withTotal: true,
+    };
+    const result = await this.paginationService.paginateQuery<VerificationRecordEntity>({
+      qb,
+      params: paginationParams,
+      allowedSorts: Object.keys(ISSUED_RECORD_SORT_COLUMNS),
+      defaultSorts,
+      resolveColumn: (field) => ISSUED_RECORD_SORT_COLUMNS[field] ?? null,
+    });
+
+    const total = result.total ?? 0;
+    const pageSize = result.pageSize ?? safeLimit;
+    return {
+      items: [...result.items],
+      total,
+      page: result.page ?? params.page,
+      limit: pageSize,
+      totalPages: pageSize > 0 ? Math.max(Math.ceil(total / pageSize), 1) : 1,
+    };
+  }
+
+  /**
+   * 按有效状态筛选：ACTIVE 仅含仍在有效期内的记录，EXPIRED 包含已超时但尚未标记的 ACTIVE 记录
+   */
+  private applyEffectiveStatus(
+    qb: SelectQueryBuilder<VerificationRecordEntity>,
+    status: VerificationRecordStatus,
+    now: Date,
+  ): void {
+    const active = VerificationRecordStatus.ACTIVE;
+    if (status === VerificationRecordStatus.ACTIVE) {
+      qb.andWhere('record.status = :active', { active }).andWhere('record.expiresAt >= :now', {
+        now,
+      });
+      return;
+    }
+    if (status === VerificationRecordStatus.EXPIRED) {
+      qb.andWhere(
+        new Brackets((sub) => {
+          sub.where('record.status = :expired', { expired: status }).orWhere(
+            new Brackets((overdue) => {
+              overdue
+                .where('record.status = :active', { active })
+                .andWhere('record.expiresAt < :now', { now });
+            }),
+          );
+        }),
+      );
+      return;
+    }
+    qb.andWhere('record.status = :status', { status });
+  }
+
+  /**
+   * 按签发者统计记录的有效状态分布（基础数据库操作）
+   * @param params.issuedByAccountId 仅统计该签发者，不传则统计全部签发者
+   */
+  async countIssuedByIssuer(params: {
+    types: ReadonlyArray<VerificationRecordType>;
+    issuedByAccountId?: number;
+    now?: Date;
+  }): Promise<InviteAcceptanceStats[]> {
+    const qb = this.verificationRecordRepository
+      .createQueryBuilder('record')
+      .select('record.issuedByAccountId', 'issuedByAccountId')
+      .addSelect('COUNT(*)', 'issued')
+      .addSelect('SUM(CASE WHEN record.status = :consumed THEN 1 ELSE 0 END)', 'consumed')
+      .addSelect('SUM(CASE WHEN record.status = :revoked THEN 1 ELSE 0 END)', 'revoked')
+      .addSelect(
+        'SUM(CASE WHEN record.status = :expired OR (record.status = :active AND record.expiresAt < :now) THEN 1 ELSE 0 END)',
+        'expired',
+      )
+      .addSelect(
+        'SUM(CASE WHEN record.status = :active AND record.expiresAt >= :now THEN 1 ELSE 0 END)',
+        'pending',
+      )
+      .where('record.type IN (:...types)', { types: params.types })
+      .andWhere('record.issuedByAccountId IS NOT NULL')
+      .setParameters({
+        consumed: VerificationRecordStatus.CONSUMED,
+        revoked: VerificationRecordStatus.REVOKED,
+        expired: VerificationRecordStatus.EXPIRED,
+        active: VerificationRecordStatus.ACTIVE,
+        now: params.now ?? new Date(),
+      })
+      .groupBy('record.issuedByAccountId')
+      .orderBy('issued', 'DESC')
+      .addOrderBy('record.issuedByAccountId', 'ASC');
+    if (params.issuedByAccountId !== undefined) {
+      qb.andWhere('record.issuedByAccountId = :issuedByAccountId', {
+        issuedByAccountId: params.issuedByAccountId,
+      });
+    }
+
+    const rows = await qb.getRawMany<Record<keyof InviteAcceptanceStats, string | number>>();
+    return rows.map((row) => ({
+      issuedByAccountId: Number(row.issuedByAccountId),
+      issued: Number(row.issued),
+      consumed: Number(row.consumed),
+      expired: Number(row.expired),
+      revoked: Number(row.revoked),
+      pending: Number(row.pending),
+    }));
+  }
+
+  /**
+   * 撤销指定签发者名下给定 ID 中仍在有效期内的 ACTIVE 记录（基础数据库操作）
+   * 不属于该签发者、类型不符、非 ACTIVE 或已超过有效期的 ID 会被忽略
+   * @returns 实际撤销的记录 ID
+   */
+  async revokeIssuedRecords(params: {
+    recordIds: ReadonlyArray<number>;
+    issuedByAccountId: number;
+    types: ReadonlyArray<VerificationRecordType>;
+    now?: Date;
+  }): Promise<number[]> {
+    if (params.recordIds.length === 0) {
+      return [];
+    }
+
+    return await this.runTransaction(async (manager) => {
+      const repository = manager.getRepository(VerificationRecordEntity);
+      const rows = await repository
+        .createQueryBuilder('record')
+        .setLock('pessimistic_write')
+        .select('record.id', 'id')
+        .addSelect('record.type', 'type')
+        .where('record.id IN (:...ids)', { ids: params.recordIds })
+        .andWhere('record.issuedByAccountId = :issuedByAccountId', {
+          issuedByAccountId: params.issuedByAccountId,
+        })
+        .andWhere('record.type IN (:...types)', { types: params.types })
+        .andWhere('record.status = :activeStatus', {
+          activeStatus: VerificationRecordStatus.ACTIVE,
+        })
+        .andWhere('record.expiresAt >= :now', { now: params.now ?? new Date() })
+        .getRawMany<{ id: number; type: VerificationRecordType }>();
+      const ids = rows.map((row) => Number(row.id));
+      if (ids.length === 0) {
+        return [];
+      }
+
+      await repository
+        .createQueryBuilder()
+        .update()
+        .set({ status: VerificationRecordStatus.REVOKED })
+        .whereInIds(ids)
+        .execute();
+      await this.verificationRecordEventService.recordMany(
+        rows.map((row) => ({
+          recordId: Number(row.id),
+          recordType: row.type,
+          eventType: VerificationRecordEventType.REVOKED,
+          actorAccountId: params.issuedByAccountId,
+          reason: VERIFICATION_RECORD_REVOKE_REASON.MANUAL,
+        })),
+        manager,
+      );
+      return ids;
+    });
+  }
+
+  /**
+   * 轮换记录 token（基础数据库操作）
+   * 替换指纹并重置有效期与尝试次数，仅 ACTIVE / EXPIRED 记录可轮换，轮换后恢复为 ACTIVE
+   * @returns 轮换后的记录，状态不允许时返回 null
+   */
+  async rotateToken(params: {
+    recordId: number;
+    token: string;
+    expiresAt: Date;
+    payload?: Record<string, unknown> | null;
+  }): Promise<VerificationRecordEntity | null> {
+    try {
+      return await this.runTransaction(async (manager) => {
+        const repository = manager.getRepository(VerificationRecordEntity);
+        const record = await repository.findOne({
+          where: { id: params.recordId },
+          lock: { mode: 'pessimistic_write' },
+        });
+        if (
+          !record ||
+          (record.status !== VerificationRecordStatus.ACTIVE &&
+            record.status !== VerificationRecordStatus.EXPIRED)
+        ) {
+          return null;
+        }
+
+        record.tokenFp = this.generateTokenFingerprint(params.token);
+        record.status = VerificationRecordStatus.ACTIVE;
+        record.expiresAt = params.expiresAt;
+        record.attemptCount = 0;
+        if (params.payload !== undefined) {
+          record.payload = params.payload;
+        }
+        return await repository.save(record);
+      });
+    } catch (error) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.UPDATE_FAILED,
+        this.isUniqueConstraintViolation(error)
+          ? '验证记录更新失败：token 已存在'
+          : '验证记录更新失败',
+        { recordId: params.recordId },
+        error,
+      );
+    }
+  }
+
   async getTargetAccountIdByRecordId(params: {
     recordId: number;
     manager?: EntityManager;
@@ -543,6 +1275,21 @@ export class VerificationRecordService {
     return record?.targetAccountId ?? null;
   }
 
+  /**
+   * 在指定事务内按 ID 读取验证记录（**不做状态/时效/权限校验**）
+   * 供消费流程的处理器在同一事务中回表读取原始载荷
+   * @param params.recordId 记录 ID
+   * @param params.manager 可选的事务管理器
+   * @returns 验证记录实体或 null
+   */
+  async findByIdWithManager(params: {
+    recordId: number;
+    manager?: EntityManager;
+  }): Promise<VerificationRecordEntity | null> {
+    const { recordId, manager } = params;
+    return await this.getRepository(manager).findOne({ where: { id: recordId } });
+  }
+
   /**
    * 检查验证记录是否有效（工具方法）
    * 验证记录状态、过期时间和生效时间
@@ -576,11 +1323,26 @@ export class VerificationRecordService {
 
   /**
    * 运行事务
+   * 事务内写入的验证记录事件在提交后才发布给监听器
    * @param callback 事务回调函数
    * @returns 事务执行结果
    */
   async runTransaction<T>(callback: (manager: EntityManager) => Promise<T>): Promise<T> {
-    return await this.verificationRecordRepository.manager.transaction(callback);
+    let transactionManager: EntityManager | undefined;
+    let committed = false;
+    try {
+      const result = await this.verificationRecordRepository.manager.transaction((manager) => {
+        transactionManager = manager;
+        this.verificationRecordEventService.hold(manager);
+        return callback(manager);
+      });
+      committed = true;
+      return result;
+    } finally {
+      if (transactionManager) {
+        this.verificationRecordEventService.release(transactionManager, committed);
+      }
+    }
   }
 
   /**
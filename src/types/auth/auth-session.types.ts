@@ -0,0 +1,40 @@
+// src/types/auth/auth-session.types.ts
+
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '../models/account.types';
+import { RefreshTokenRevokeReason } from './refresh-token.types';
+
+/**
+ * 登录会话状态（由所属 refresh token 家族状态派生）
+ */
+export enum AuthSessionStatus {
+  ACTIVE = 'ACTIVE',
+  REVOKED = 'REVOKED',
+}
+
+/**
+ * 登录设备信息（登录时采集）
+ */
+export interface AuthSessionDevice {
+  ip?: string | null;
+  userAgent?: string | null;
+  /** 第三方登录平台；密码登录为空 */
+  provider?: ThirdPartyProviderEnum | null;
+}
+
+/**
+ * 登录会话视图
+ */
+export interface AuthSessionView {
+  id: number;
+  accountId: number;
+  familyId: string;
+  audience: AudienceTypeEnum | null;
+  ip: string | null;
+  userAgent: string | null;
+  provider: ThirdPartyProviderEnum | null;
+  status: AuthSessionStatus;
+  revokedReason: RefreshTokenRevokeReason | null;
+  revokedAt: Date | null;
+  lastSeenAt: Date;
+  createdAt: Date;
+}
@@ -0,0 +1,35 @@
+// src/types/auth/email-verification.types.ts
+
+/**
+ * 邮箱验证配置
+ */
+export interface EmailVerificationConfig {
+  /** 是否要求邮箱注册的账户完成邮箱验证后才激活 */
+  required: boolean;
+  /** 验证链接有效期（分钟） */
+  linkExpiresInMinutes: number;
+  /** 重新发送冷却时间（秒） */
+  resendCooldownSeconds: number;
+  /** 邮件中验证链接的前端地址，为空时只发送 token */
+  linkBaseUrl: string;
+}
+
+/**
+ * 发送邮箱验证邮件用例输入
+ */
+export interface SendVerificationEmailParams {
+  /** 待验证的账户 ID */
+  accountId: number;
+  /** 待验证的邮箱 */
+  email: string;
+}
+
+/**
+ * 发送邮箱验证邮件结果
+ */
+export interface SendVerificationEmailResult {
+  /** 验证记录 ID */
+  recordId: number;
+  /** 验证链接过期时间 */
+  expiresAt: Date;
+}
@@ -0,0 +1,56 @@
+// src/types/auth/impersonation.types.ts
+
+import { AudienceTypeEnum, IdentityTypeEnum } from '../models/account.types';
+
+/**
+ * 代登录审计动作
+ */
+export enum ImpersonationAuditAction {
+  START = 'START',
+  STOP = 'STOP',
+}
+
+/**
+ * 代登录配置（config.module.ts 中的 impersonation）
+ */
+export interface ImpersonationConfig {
+  /** 代登录 access token 有效期（不签发 refresh token） */
+  accessTokenExpiresIn: string;
+}
+
+/**
+ * 发起代登录用例输入
+ */
+export interface ImpersonateAccountParams {
+  impersonatorId: number;
+  targetAccountId: number;
+  /** 代登录原因（写入审计） */
+  reason: string;
+  audience?: AudienceTypeEnum;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * 发起代登录用例输出
+ */
+export interface ImpersonateAccountResult {
+  accessToken: string;
+  accountId: number;
+  impersonatorId: number;
+  role: IdentityTypeEnum;
+  expiresAt: Date;
+}
+
+/**
+ * 结束代登录用例输入（由代登录 access token 声明映射而来）
+ */
+export interface StopImpersonationParams {
+  accountId: number;
+  impersonatorId?: number;
+  jti?: string;
+  familyId?: string;
+  expiresAt?: Date;
+  ip?: string;
+  userAgent?: string;
+}
@@ -2,6 +2,15 @@
 
 import { AccountStatus, AudienceTypeEnum, IdentityTypeEnum } from '@app-types/models/account.types';
 
+/**
+ * 登录会话声明
+ * 重新签发 access token 时需写回，保证登出与全设备下线对其生效
+ */
+export interface LoginSessionClaims {
+  familyId: string;
+  tokenVersion: number;
+}
+
 /**
  * ExecuteLoginFlowUsecase 输出类型
  */
@@ -10,6 +19,7 @@ export interface BasicLoginResult {
     accessToken: string;
     refreshToken: string;
   };
+  session: LoginSessionClaims;
   accountId: number;
   roleFromHint: IdentityTypeEnum | null;
   accessGroup: IdentityTypeEnum[];
@@ -0,0 +1,58 @@
+// src/types/auth/login-throttle.types.ts
+
+/**
+ * 登录限流场景
+ * - 各场景独立计数，互不影响
+ */
+export enum LoginThrottleScope {
+  /** 密码登录 */
+  PASSWORD = 'PASSWORD',
+  /** 第三方登录 */
+  THIRD_PARTY = 'THIRD_PARTY',
+  /** 验证码 / 验证 token 消费 */
+  VERIFICATION = 'VERIFICATION',
+  /** 登录二次验证（loginName 维度按账户计数） */
+  MFA = 'MFA',
+  /** 已登录用户修改密码时校验原密码（loginName 维度按账户计数） */
+  CHANGE_PASSWORD = 'CHANGE_PASSWORD',
+}
+
+/**
+ * 临时锁定原因
+ * - 锁定仅存在于 Redis，到期自动解除，不改写账户状态
+ */
+export enum LoginLockReason {
+  /** 同一登录名连续失败次数过多 */
+  LOGIN_NAME_FAILURES = 'LOGIN_NAME_FAILURES',
+  /** 同一来源 IP 失败次数过多 */
+  IP_FAILURES = 'IP_FAILURES',
+}
+
+/**
+ * 限流主体
+ * - loginName 与 ip 均可缺省，缺省的维度不计数
+ */
+export interface LoginThrottleSubject {
+  scope: LoginThrottleScope;
+  loginName?: string | null;
+  ip?: string | null;
+}
+
+/**
+ * 登录限流配置（config.module.ts 中的 loginThrottle）
+ */
+export interface LoginThrottleConfig {
+  enabled: boolean;
+  /** 滑动窗口长度（秒） */
+  windowSeconds: number;
+  /** 窗口内同一登录名允许的失败次数 */
+  maxAttemptsPerLoginName: number;
+  /** 窗口内同一 IP 允许的失败次数 */
+  maxAttemptsPerIp: number;
+  /** 触发锁定后的锁定时长（秒） */
+  lockSeconds: number;
+  /** 每次失败递增的延迟（毫秒） */
+  delayStepMs: number;
+  /** 单次失败延迟上限（毫秒） */
+  maxDelayMs: number;
+}
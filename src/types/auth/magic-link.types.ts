@@ -0,0 +1,28 @@
+// src/types/auth/magic-link.types.ts
+
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+
+/**
+ * 魔法链接登录配置（config.module.ts 中的 magicLink）
+ */
+export interface MagicLinkConfig {
+  /** 登录链接有效期（分钟） */
+  linkExpiresInMinutes: number;
+  /** 重新发送冷却时间（秒） */
+  resendCooldownSeconds: number;
+  /** 邮件中登录链接的前端地址，为空时只发送 token */
+  linkBaseUrl: string;
+}
+
+/**
+ * 请求魔法链接用例输入
+ */
+export interface RequestMagicLinkParams {
+  /** 登录邮箱 */
+  email: string;
+  /** 使用链接登录的客户端类型 */
+  audience: AudienceTypeEnum;
+}
+
+/** 魔法链接邮件的模板 ID */
+export const MAGIC_LINK_EMAIL_TEMPLATE = 'magic_link';
@@ -0,0 +1,62 @@
+// src/types/auth/mfa.types.ts
+
+import { AudienceTypeEnum } from '../models/account.types';
+
+/**
+ * 二次验证因子状态
+ * - PENDING：已生成密钥，等待用户用首个验证码确认
+ * - ENABLED：已启用，登录需完成二次验证
+ */
+export enum MfaFactorStatus {
+  PENDING = 'PENDING',
+  ENABLED = 'ENABLED',
+}
+
+/**
+ * 二次验证方式
+ */
+export enum MfaMethod {
+  TOTP = 'TOTP',
+}
+
+/**
+ * TOTP 绑定信息（仅在开始绑定时返回一次）
+ */
+export interface TotpEnrollmentView {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * 账户二次验证状态
+ */
+export interface MfaStatusView {
+  enabled: boolean;
+  /** 当前身份是否被策略强制要求二次验证 */
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * 二次验证挑战令牌声明
+ */
+export interface MfaChallengeClaims {
+  accountId: number;
+  audience?: AudienceTypeEnum;
+  /** 账户尚未绑定但被策略强制：需先完成绑定再登录 */
+  enrollmentRequired: boolean;
+}
+
+/**
+ * 二次验证配置（config.module.ts 中的 mfa）
+ */
+export interface MfaConfig {
+  /** 身份验证器 App 中展示的签发方 */
+  issuer: string;
+  /** 挑战令牌有效期 */
+  challengeExpiresIn: string;
+  /** 每次生成的恢复码数量 */
+  recoveryCodeCount: number;
+  /** 强制要求二次验证的身份（IdentityTypeEnum 取值） */
+  requiredIdentities: string[];
+}
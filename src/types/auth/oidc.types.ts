@@ -0,0 +1,127 @@
+// src/types/auth/oidc.types.ts
+
+import type { webcrypto } from 'crypto';
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '../models/account.types';
+
+/**
+ * 单个 OIDC / OAuth2 平台配置
+ * - issuer 非空：按 OIDC 处理（发现文档 + id_token 校验）
+ * - issuer 为空：按纯 OAuth2 处理（如 GitHub），身份取自用户信息接口
+ */
+export interface OidcProviderConfig {
+  provider: ThirdPartyProviderEnum;
+  issuer: string | null;
+  clientId: string;
+  clientSecret: string;
+  /** 前端回调地址（须与平台后台登记的一致） */
+  redirectUri: string;
+  scopes: string[];
+  /** 显式端点；OIDC 模式下为空时取发现文档中的值 */
+  authorizationEndpoint: string | null;
+  tokenEndpoint: string | null;
+  userinfoEndpoint: string | null;
+  /** 用户信息中作为 providerUserId 的字段（OAuth2 模式使用，如 GitHub 的 id） */
+  userIdField: string;
+  /** 允许登录的企业域名（Google hd 声明或已验证邮箱域名）；为空表示不限制 */
+  allowedDomains: string[];
+}
+
+/**
+ * OIDC 配置（config.module.ts 中的 oidc）
+ */
+export interface OidcConfig {
+  /** 已配置 clientId 的平台 */
+  providers: OidcProviderConfig[];
+  /** 登录流程令牌有效期（如 10m） */
+  flowExpiresIn: string;
+  /** 发现文档与 JWKS 的缓存时长（秒） */
+  cacheSeconds: number;
+  /** id_token 时间声明允许的时钟偏差（秒） */
+  clockToleranceSeconds: number;
+  /** 单次 HTTP 请求超时（毫秒） */
+  timeoutMs: number;
+}
+
+/**
+ * OIDC 发现文档（仅列出使用到的字段）
+ */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+  id_token_signing_alg_values_supported?: string[];
+}
+
+/**
+ * JWKS 中的单个公钥
+ */
+export type OidcJsonWebKey = webcrypto.JsonWebKey & { kid?: string; alg?: string; use?: string };
+
+/**
+ * 令牌端点成功响应
+ */
+export interface OidcTokenSuccess {
+  access_token: string;
+  token_type: string;
+  id_token?: string;
+  expires_in?: number;
+  scope?: string;
+}
+
+/**
+ * 令牌端点错误响应
+ */
+export interface OidcTokenError {
+  error: string;
+  error_description?: string;
+}
+
+/**
+ * 令牌端点响应联合类型
+ */
+export type OidcTokenResponse = OidcTokenSuccess | OidcTokenError;
+
+/**
+ * id_token 声明（仅列出使用到的字段）
+ */
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  azp?: string;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+  /** Google Workspace 托管域 */
+  hd?: string;
+}
+
+/**
+ * 登录流程令牌声明
+ * 由发起登录的客户端保管（不随授权地址发往平台），回调时连同 code 与 state 一并提交
+ */
+export interface OidcFlowClaims {
+  provider: ThirdPartyProviderEnum;
+  audience: AudienceTypeEnum;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * 发起 OIDC 登录的返回值
+ */
+export interface OidcAuthorizationView {
+  /** 需跳转的平台授权地址 */
+  authorizationUrl: string;
+  /** 回调时须原样带回的 state */
+  state: string;
+  /** 登录流程令牌 */
+  flowToken: string;
+}
@@ -0,0 +1,30 @@
+// src/types/auth/password.types.ts
+
+/**
+ * 密码安全配置（config.module.ts 中的 password）
+ */
+export interface PasswordConfig {
+  /** 修改密码时不可复用的历史密码数量（不含当前密码） */
+  historySize: number;
+}
+
+/**
+ * 密码哈希方案
+ * - LEGACY_PBKDF2：老系统 PBKDF2-SHA256 / 5000 次迭代，以账户创建时间为盐，无前缀
+ * - SCRYPT：带版本前缀的 scrypt 哈希（$scrypt$...），随机盐，参数自描述
+ */
+export enum PasswordHashScheme {
+  LEGACY_PBKDF2 = 'LEGACY_PBKDF2',
+  SCRYPT = 'SCRYPT',
+}
+
+/**
+ * 密码哈希方案分布统计
+ */
+export interface PasswordHashReportView {
+  total: number;
+  /** 仍使用老方案的账户数（登录成功后自动迁移） */
+  legacy: number;
+  /** 已使用当前方案的账户数 */
+  current: number;
+}
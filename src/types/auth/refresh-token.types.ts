@@ -0,0 +1,85 @@
+// src/types/auth/refresh-token.types.ts
+
+import { AudienceTypeEnum } from '../models/account.types';
+
+/**
+ * Refresh Token 家族状态
+ * - 一次登录产生一个家族，家族内每次刷新轮换一枚新的 refresh token
+ */
+export enum RefreshTokenFamilyStatus {
+  ACTIVE = 'ACTIVE',
+  REVOKED = 'REVOKED',
+}
+
+/**
+ * Refresh Token 家族作废原因
+ */
+export enum RefreshTokenRevokeReason {
+  /** 已轮换的旧 refresh token 被再次使用，判定为泄露 */
+  REUSE_DETECTED = 'REUSE_DETECTED',
+  /** 账户 tokenVersion 已变更，家族整体失效 */
+  TOKEN_VERSION_MISMATCH = 'TOKEN_VERSION_MISMATCH',
+  /** 用户主动登出当前会话 */
+  LOGOUT = 'LOGOUT',
+  /** 用户登出全部设备（或被管理员强制下线） */
+  LOGOUT_ALL = 'LOGOUT_ALL',
+  /** 用户在会话列表中远程下线某个会话 */
+  SESSION_REVOKED = 'SESSION_REVOKED',
+  /** 用户修改密码，账户下全部会话失效 */
+  PASSWORD_CHANGED = 'PASSWORD_CHANGED',
+  /** 管理员变更账户状态（封禁 / 暂停 / 解封），账户下全部会话失效 */
+  ACCOUNT_STATUS_CHANGED = 'ACCOUNT_STATUS_CHANGED',
+  /** 账户被注销（匿名化），账户下全部会话失效 */
+  ACCOUNT_ERASED = 'ACCOUNT_ERASED',
+  /** 账户被合并到其他账户，源账户下全部会话失效 */
+  ACCOUNT_MERGED = 'ACCOUNT_MERGED',
+}
+
+/**
+ * Refresh Token 家族视图
+ */
+export interface RefreshTokenFamilyView {
+  id: number;
+  familyId: string;
+  accountId: number;
+  audience: AudienceTypeEnum | null;
+  currentJti: string;
+  tokenVersion: number;
+  rotationCount: number;
+  status: RefreshTokenFamilyStatus;
+  revokedReason: RefreshTokenRevokeReason | null;
+  revokedAt: Date | null;
+  lastRotatedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * 刷新令牌用例输入
+ */
+export interface RefreshAccessTokenParams {
+  refreshToken: string;
+  audience: AudienceTypeEnum;
+}
+
+/**
+ * 刷新令牌用例输出
+ */
+export interface RefreshAccessTokenResult {
+  accessToken: string;
+  refreshToken: string;
+  accountId: number;
+}
+
+/**
+ * 登出当前会话用例输入（由 access token 声明映射而来）
+ */
+export interface LogoutParams {
+  accountId: number;
+  /** access token 的 jti；旧令牌可能缺失 */
+  jti?: string;
+  /** 会话所属的 refresh token 家族 ID；旧令牌可能缺失 */
+  familyId?: string;
+  /** access token 原过期时间 */
+  expiresAt?: Date;
+}
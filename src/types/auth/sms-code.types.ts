@@ -0,0 +1,83 @@
+// src/types/auth/sms-code.types.ts
+
+/**
+ * 短信验证码用途
+ * - 不同用途的验证码互不通用
+ */
+export enum SmsCodePurpose {
+  /** 手机号验证码登录 */
+  LOGIN = 'LOGIN',
+  /** 绑定 / 更换手机号 */
+  BIND_PHONE = 'BIND_PHONE',
+}
+
+/** 验证码短信的业务模板 ID（服务商模板编码通过配置映射） */
+export const SMS_VERIFICATION_CODE_TEMPLATE = 'verification_code';
+
+/**
+ * 短信发送配额配置（config.module.ts 中的 sms.quota）
+ */
+export interface SmsQuotaConfig {
+  /** 滑动窗口长度（秒） */
+  windowSeconds: number;
+  /** 窗口内同一手机号允许的发送次数，<= 0 表示不限制 */
+  maxPerPhone: number;
+  /** 窗口内同一 IP 允许的发送次数，<= 0 表示不限制 */
+  maxPerIp: number;
+}
+
+/**
+ * 短信验证码配置（config.module.ts 中的 sms）
+ */
+export interface SmsCodeConfig {
+  /** 验证码有效期（分钟） */
+  codeExpiresInMinutes: number;
+  /** 同一手机号同一用途的重发冷却时间（秒） */
+  resendCooldownSeconds: number;
+  quota: SmsQuotaConfig;
+}
+
+/**
+ * 发送配额超限的维度
+ */
+export enum SmsQuotaReason {
+  PHONE = 'PHONE',
+  IP = 'IP',
+}
+
+/**
+ * 发送配额主体
+ * - ip 缺省时不按 IP 计数
+ */
+export interface SmsQuotaSubject {
+  phone: string;
+  ip?: string | null;
+}
+
+/**
+ * 请求短信验证码用例输入
+ */
+export interface RequestSmsCodeParams {
+  /** 手机号 */
+  phone: string;
+  /** 验证码用途 */
+  purpose: SmsCodePurpose;
+  /** 请求来源 IP */
+  ip?: string | null;
+}
+
+/**
+ * 请求短信验证码结果
+ */
+export interface RequestSmsCodeResult {
+  /** 再次请求前需等待的秒数 */
+  cooldownSeconds: number;
+}
+
+/**
+ * 短信验证码记录的 payload
+ */
+export interface SmsVerifyCodePayload {
+  phone: string;
+  purpose: SmsCodePurpose;
+}
@@ -18,6 +18,19 @@ export type GenerateRefreshTokenParams = {
   payload: Pick<JwtPayload, 'sub'>;
   tokenVersion?: number;
   audience?: AudienceTypeEnum; // 更明确的类型，使用枚举而非字符串
+  familyId?: string; // Refresh Token 家族 ID，轮换时保持不变
+  jti?: string; // 本枚 refresh token 的唯一 ID，轮换时更新
+  expiresIn?: string; // 缺省时沿用模块默认（access token 有效期）
+};
+
+/**
+ * 生成二次验证挑战令牌的参数类型
+ */
+export type GenerateMfaChallengeTokenParams = {
+  accountId: number;
+  audience?: AudienceTypeEnum;
+  enrollmentRequired: boolean; // 账户未绑定但被策略强制，需先完成绑定
+  expiresIn: string;
 };
 
 /**
@@ -31,8 +44,12 @@ export type JwtPayload = {
   accessGroup: string[]; // 角色或分组
   /** 当前使用角色（可选；在登录后角色决策阶段写入） */
   activeRole?: IdentityTypeEnum;
-  type?: 'access' | 'refresh';
-  tokenVersion?: number; // Refresh 控制用
+  type?: 'access' | 'refresh' | 'mfa_challenge';
+  tokenVersion?: number; // 账户令牌版本，递增即作废全部已签发令牌
+  fid?: string; // Refresh Token 家族 ID（access token 携带以便登出时作废同一会话）
+  jti?: string; // JWT ID，用于单枚令牌注销
+  mfaEnroll?: boolean; // 二次验证挑战令牌：是否需先完成绑定
+  impersonatorId?: number; // 代登录令牌：发起代登录的管理员账户 ID
   // 自动管理字段
   iat?: number; // 签发时间
   exp?: number; // 过期时间
@@ -0,0 +1,106 @@
+// src/types/models/account-lifecycle.types.ts
+
+import type { LoginHistoryItemModel } from './account.types';
+
+/**
+ * 账户注销配置（config.module.ts 中的 accountDeletion）
+ */
+export interface AccountDeletionConfig {
+  /** 申请注销后的冷静期（天），期满后由 Worker 执行匿名化 */
+  graceDays: number;
+  /** 是否注册到期注销的周期任务 */
+  sweepEnabled: boolean;
+  /** 周期任务执行间隔（秒） */
+  sweepEverySeconds: number;
+  /** 单轮最多注销的账户数 */
+  batchSize: number;
+}
+
+/**
+ * 个人数据导出配置（config.module.ts 中的 accountDataExport）
+ */
+export interface AccountDataExportConfig {
+  /** 邮件中下载链接的前端地址，token 以 ?token= 追加；为空时只发送 token */
+  linkBaseUrl: string;
+  /** 下载链接有效期（小时） */
+  linkExpiresInHours: number;
+  /** 两次申请导出的最小间隔（分钟） */
+  cooldownMinutes: number;
+  /** 归档中最多包含的 AI 调用记录条数（按时间倒序） */
+  maxAiCallRecords: number;
+}
+
+/**
+ * 个人数据导出状态
+ */
+export enum AccountDataExportStatus {
+  /** 已受理，等待 Worker 生成 */
+  PENDING = 'PENDING',
+  /** 已生成，可通过链接下载 */
+  READY = 'READY',
+  /** 生成失败 */
+  FAILED = 'FAILED',
+  /** 链接已过期，归档已清空 */
+  EXPIRED = 'EXPIRED',
+}
+
+/** 匿名化后的账户昵称前缀（后缀为账户 ID，保证唯一） */
+export const ERASED_ACCOUNT_NICKNAME_PREFIX = '已注销用户';
+
+/** 匿名化后身份档案中的姓名占位 */
+export const ERASED_PROFILE_NAME = '已注销';
+
+/** 注销 / 导出相关邮件的模板 ID */
+export const ACCOUNT_DELETION_EMAIL_TEMPLATE = 'account_deletion';
+export const ACCOUNT_DATA_EXPORT_EMAIL_TEMPLATE = 'account_data_export';
+
+/**
+ * 账户注销申请视图
+ */
+export interface AccountDeletionView {
+  accountId: number;
+  /** 申请时间（未申请或已撤销时为 null） */
+  deletionRequestedAt: Date | null;
+  /** 计划注销时间（未申请或已撤销时为 null） */
+  deletionScheduledAt: Date | null;
+}
+
+/**
+ * 个人数据导出记录视图（不含归档内容）
+ */
+export interface AccountDataExportView {
+  id: number;
+  accountId: number;
+  status: AccountDataExportStatus;
+  sizeBytes: number | null;
+  expiresAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * 个人数据导出归档内容
+ * 账户密码哈希、令牌等凭证数据不包含在内
+ */
+export interface AccountDataExportArchive {
+  /** 归档格式版本 */
+  version: 1;
+  exportedAt: string;
+  account: {
+    id: number;
+    loginName: string | null;
+    loginEmail: string | null;
+    status: string;
+    identityHint: string | null;
+    lastLoginAt: string | null;
+    createdAt: string;
+  };
+  userInfo: Record<string, unknown> | null;
+  /** 身份档案（identity → 档案），未启用或不存在的身份不出现 */
+  identities: Record<string, unknown>;
+  /** 客户名下的学员档案 */
+  learners: Array<Record<string, unknown>>;
+  loginHistory: LoginHistoryItemModel[];
+  thirdPartyBindings: Array<{ provider: string; createdAt: string }>;
+  aiCallRecords: Array<Record<string, unknown>>;
+}
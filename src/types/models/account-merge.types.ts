@@ -0,0 +1,65 @@
+// src/types/models/account-merge.types.ts
+
+import type { IdentityTypeEnum } from './account.types';
+
+/**
+ * 账户合并冲突范围
+ */
+export enum AccountMergeConflictScope {
+  /** 两个账户均持有同一身份档案且无法合并（如均为教练） */
+  IDENTITY = 'IDENTITY',
+  /** 两个账户绑定了同一第三方平台（每个账户每个平台仅允许一个绑定） */
+  THIRD_PARTY_BINDING = 'THIRD_PARTY_BINDING',
+}
+
+/**
+ * 阻止合并的冲突项
+ */
+export interface AccountMergeConflict {
+  scope: AccountMergeConflictScope;
+  /** 冲突对象：身份标识或第三方平台 */
+  key: string;
+  reason: string;
+}
+
+/**
+ * 身份档案迁移结果（AccountProfileProvider.transferTo 返回值）
+ */
+export interface ProfileTransferResult {
+  /** 迁移（预检时为将要迁移）的档案行数 */
+  moved: number;
+  /** 阻止合并的冲突说明，无冲突为 null */
+  conflict: string | null;
+}
+
+/**
+ * 单个身份的迁移统计
+ */
+export interface AccountMergeIdentityTransfer {
+  identity: string;
+  moved: number;
+}
+
+/**
+ * 账户合并报告（预检与执行共用）
+ * 预检时各计数为将要迁移的数量，执行后为实际迁移的数量
+ */
+export interface AccountMergeReport {
+  sourceAccountId: number;
+  targetAccountId: number;
+  dryRun: boolean;
+  /** 阻止合并的冲突；非空时不会执行合并 */
+  conflicts: AccountMergeConflict[];
+  identities: AccountMergeIdentityTransfer[];
+  thirdPartyBindings: number;
+  verificationRecords: number;
+  asyncTaskRecords: number;
+  /** 目标账户没有登录凭证时，是否接管源账户的登录名 / 登录邮箱与密码 */
+  credentialsMoved: boolean;
+  /** 合并后目标账户的访问组 */
+  accessGroup: IdentityTypeEnum[];
+  /** 合并后目标账户的身份提示 */
+  identityHint: IdentityTypeEnum | null;
+  /** 源账户被作废的会话数（预检时为 0） */
+  revokedSessions: number;
+}
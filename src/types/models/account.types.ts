@@ -54,6 +54,9 @@ export enum ThirdPartyProviderEnum {
  */
 export enum ThirdPartyLoginProviderEnum {
   WEAPP = 'WEAPP',
+  WECHAT = 'WECHAT',
+  GOOGLE = 'GOOGLE',
+  GITHUB = 'GITHUB',
 }
 
 /**
@@ -77,6 +80,64 @@ export type UserAccountView = {
   updatedAt: Date;
 };
 
+/**
+ * 管理端可设置的账户状态：封禁 / 暂停 / 恢复正常
+ * DELETED、PENDING、INACTIVE 分别由注销、注册激活与不活跃清理流程维护
+ */
+export const MANAGEABLE_ACCOUNT_STATUSES: ReadonlyArray<AccountStatus> = [
+  AccountStatus.ACTIVE,
+  AccountStatus.BANNED,
+  AccountStatus.SUSPENDED,
+];
+
+/** 账户状态变更原因最大长度 */
+export const ACCOUNT_STATUS_REASON_MAX_LENGTH = 255;
+
+/** 单次批量变更账户状态的最大账户数 */
+export const ACCOUNT_STATUS_BATCH_MAX_SIZE = 100;
+
+/** 管理端账户目录可排序字段 */
+export const ACCOUNT_DIRECTORY_SORT_FIELDS = [
+  'createdAt',
+  'lastLoginAt',
+  'loginName',
+  'id',
+] as const;
+export type AccountDirectorySortField = (typeof ACCOUNT_DIRECTORY_SORT_FIELDS)[number];
+
+/**
+ * 管理端账户目录筛选条件
+ * query 在登录名、登录邮箱、昵称上做模糊匹配
+ */
+export type AccountDirectoryFilters = {
+  query?: string;
+  status?: AccountStatus;
+  accessGroup?: IdentityTypeEnum;
+  identityHint?: IdentityTypeEnum;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  lastLoginAfter?: Date;
+  lastLoginBefore?: Date;
+};
+
+/**
+ * 管理端账户目录项
+ */
+export type AccountDirectoryItemView = {
+  id: number;
+  loginName: string | null;
+  loginEmail: string | null;
+  status: AccountStatus;
+  statusReason: string | null;
+  statusChangedAt: Date | null;
+  identityHint: string | null;
+  nickname: string | null;
+  accessGroup: IdentityTypeEnum[];
+  lastLoginAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
 export enum AudienceTypeEnum {
   DESKTOP = 'DESKTOP',
   SSTSTEST = 'SSTSTEST',
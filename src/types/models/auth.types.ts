@@ -38,6 +38,7 @@ export interface AuthLoginModel {
   loginPassword: string;
   type: LoginTypeEnum;
   ip?: string;
+  userAgent?: string;
   audience: AudienceTypeEnum;
 }
 
@@ -0,0 +1,67 @@
+// src/types/models/notification.types.ts
+
+/**
+ * 站内通知分类
+ */
+export enum NotificationCategory {
+  /** 发出的邀请已被接受 */
+  INVITE_ACCEPTED = 'INVITE_ACCEPTED',
+  /** 账户密码已修改 */
+  PASSWORD_CHANGED = 'PASSWORD_CHANGED',
+  /** 学员已停用 */
+  LEARNER_DEACTIVATED = 'LEARNER_DEACTIVATED',
+  /** 已申请注销账户，冷静期后执行 */
+  ACCOUNT_DELETION_SCHEDULED = 'ACCOUNT_DELETION_SCHEDULED',
+  /** 已撤销注销申请 */
+  ACCOUNT_DELETION_CANCELLED = 'ACCOUNT_DELETION_CANCELLED',
+  /** 个人数据导出已生成 */
+  DATA_EXPORT_READY = 'DATA_EXPORT_READY',
+}
+
+/** 通知标题最大长度 */
+export const NOTIFICATION_TITLE_MAX_LENGTH = 128;
+
+/** 通知正文最大长度 */
+export const NOTIFICATION_BODY_MAX_LENGTH = 1000;
+
+/** 通知跳转链接最大长度 */
+export const NOTIFICATION_LINK_MAX_LENGTH = 512;
+
+/** 单次标记已读的最大通知数 */
+export const NOTIFICATION_MARK_READ_MAX_IDS = 100;
+
+/**
+ * 发送站内通知参数
+ */
+export interface SendNotificationParams {
+  /** 接收者账户 ID */
+  recipientAccountId: number;
+  /** 通知分类 */
+  category: NotificationCategory;
+  /** 标题（超长截断） */
+  title: string;
+  /** 正文（超长截断） */
+  body: string;
+  /** 客户端跳转链接（可选） */
+  link?: string | null;
+}
+
+/**
+ * 站内通知视图
+ */
+export interface NotificationView {
+  /** 通知 ID */
+  id: number;
+  /** 通知分类 */
+  category: NotificationCategory;
+  /** 标题 */
+  title: string;
+  /** 正文 */
+  body: string;
+  /** 客户端跳转链接 */
+  link: string | null;
+  /** 已读时间（未读为 null） */
+  readAt: Date | null;
+  /** 创建时间 */
+  createdAt: Date;
+}
@@ -0,0 +1,111 @@
+// src/types/models/stored-file.types.ts
+
+/**
+ * 文件存储配置（config.module.ts 中的 storage）
+ */
+export interface StorageConfig {
+  /** 存储驱动：local（本地磁盘），后续扩展 S3 兼容驱动 */
+  driver: string;
+  /** 对外访问地址前缀（API 服务地址），上传 / 下载链接以 /files/:fileKey 追加 */
+  publicBaseUrl: string;
+  /** 上传 / 下载链接签名密钥 */
+  signingSecret: string;
+  /** 上传链接有效期（秒） */
+  uploadUrlExpiresInSeconds: number;
+  /** 下载链接有效期（秒） */
+  downloadUrlExpiresInSeconds: number;
+  /** 头像文件大小上限（字节） */
+  avatarMaxBytes: number;
+  /** 头像允许的 Content-Type */
+  avatarContentTypes: string[];
+  /** 缩略图边长（像素） */
+  thumbnailSize: number;
+  local: {
+    /** 本地磁盘驱动的根目录 */
+    rootDir: string;
+  };
+  orphanSweep: {
+    /** 是否注册孤儿文件清理的周期任务 */
+    enabled: boolean;
+    /** 周期任务执行间隔（秒） */
+    everySeconds: number;
+    /** 已上传未使用 / 已被替换的文件保留时长（小时），超时后删除 */
+    retentionHours: number;
+    /** 单轮最多删除的文件数 */
+    batchSize: number;
+  };
+}
+
+/**
+ * 文件状态
+ * PENDING → UPLOADED → ATTACHED → RELEASED → DELETED；PENDING / UPLOADED 超时未使用也会被删除
+ */
+export enum StoredFileStatus {
+  /** 已签发上传链接，等待客户端上传 */
+  PENDING = 'PENDING',
+  /** 上传请求已认领，正在写入存储对象（同一链接的并发上传只有一个能认领） */
+  UPLOADING = 'UPLOADING',
+  /** 已上传并通过校验，尚未被业务引用 */
+  UPLOADED = 'UPLOADED',
+  /** 已被业务引用（如设为头像） */
+  ATTACHED = 'ATTACHED',
+  /** 引用已解除（如头像被替换），等待清理 */
+  RELEASED = 'RELEASED',
+  /** 存储对象已删除 */
+  DELETED = 'DELETED',
+}
+
+/**
+ * 文件用途（决定大小与类型限制）
+ */
+export enum StoredFilePurpose {
+  AVATAR = 'AVATAR',
+}
+
+/**
+ * 文件引用方
+ */
+export enum StoredFileAttachmentType {
+  /** 用户头像（attachedId 为账户 ID） */
+  USER_AVATAR = 'USER_AVATAR',
+  /** 教练头像（attachedId 为教练 ID） */
+  COACH_AVATAR = 'COACH_AVATAR',
+  /** 学员头像（attachedId 为学员 ID） */
+  LEARNER_AVATAR = 'LEARNER_AVATAR',
+}
+
+/**
+ * 文件内容变体
+ */
+export enum StoredFileVariant {
+  ORIGINAL = 'ORIGINAL',
+  THUMBNAIL = 'THUMBNAIL',
+}
+
+/** 缩略图统一输出为 webp */
+export const STORED_FILE_THUMBNAIL_CONTENT_TYPE = 'image/webp';
+
+/**
+ * 文件记录视图
+ */
+export interface StoredFileView {
+  id: number;
+  /** 对外标识（随机串），用于拼接访问链接 */
+  fileKey: string;
+  ownerAccountId: number;
+  purpose: StoredFilePurpose;
+  status: StoredFileStatus;
+  contentType: string;
+  sizeBytes: number | null;
+  width: number | null;
+  height: number | null;
+  attachedType: StoredFileAttachmentType | null;
+  attachedId: number | null;
+  /** 存储驱动与驱动内的对象键（仅供用例读写对象，不对外暴露） */
+  driver: string;
+  storageKey: string;
+  thumbnailKey: string | null;
+  uploadExpiresAt: Date | null;
+  uploadedAt: Date | null;
+  createdAt: Date;
+}
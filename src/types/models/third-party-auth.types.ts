@@ -162,3 +162,81 @@ export interface WeAppGetAccessTokenError {
  * 微信小程序获取 access_token 接口响应联合类型
  */
 export type WeAppGetAccessTokenResponse = WeAppGetAccessTokenSuccess | WeAppGetAccessTokenError;
+
+/**
+ * 微信网页授权配置（config.module.ts 中的 wechatOAuth）
+ */
+export interface WechatOAuthConfig {
+  /** 公众号 / 网站应用 appid */
+  appId: string;
+  /** 公众号 / 网站应用 secret */
+  appSecret: string;
+  /** 微信 API 根地址（测试环境可指向本地桩服务） */
+  apiBaseUrl: string;
+  /** 单次请求超时（毫秒） */
+  timeoutMs: number;
+}
+
+/**
+ * 微信网页授权 code 换取 access_token 接口成功响应
+ */
+export interface WechatOAuthAccessTokenSuccess {
+  /** 网页授权接口调用凭证 */
+  access_token: string;
+  /** 凭证有效时间，单位：秒 */
+  expires_in: number;
+  /** 用于刷新 access_token */
+  refresh_token: string;
+  /** 用户在该公众号 / 网站应用下的唯一标识 */
+  openid: string;
+  /** 用户授权的作用域，多个以逗号分隔 */
+  scope: string;
+  /** 用户在微信开放平台的唯一标识 (公众号绑定开放平台后返回) */
+  unionid?: string;
+}
+
+/**
+ * 微信网页授权 code 换取 access_token 接口错误响应
+ */
+export interface WechatOAuthAccessTokenError {
+  /** 错误码 */
+  errcode: number;
+  /** 错误信息 */
+  errmsg: string;
+}
+
+/**
+ * 微信网页授权 code 换取 access_token 接口响应联合类型
+ */
+export type WechatOAuthAccessTokenResponse =
+  | WechatOAuthAccessTokenSuccess
+  | WechatOAuthAccessTokenError;
+
+/**
+ * 微信网页授权拉取用户信息接口成功响应
+ */
+export interface WechatUserInfoSuccess {
+  /** 用户唯一标识 */
+  openid: string;
+  /** 用户昵称 */
+  nickname: string;
+  /** 用户头像 URL（用户未设置时为空字符串） */
+  headimgurl: string;
+  /** 用户在微信开放平台的唯一标识 (公众号绑定开放平台后返回) */
+  unionid?: string;
+}
+
+/**
+ * 微信网页授权拉取用户信息接口错误响应
+ */
+export interface WechatUserInfoError {
+  /** 错误码 */
+  errcode: number;
+  /** 错误信息 */
+  errmsg: string;
+}
+
+/**
+ * 微信网页授权拉取用户信息接口响应联合类型
+ */
+export type WechatUserInfoResponse = WechatUserInfoSuccess | WechatUserInfoError;
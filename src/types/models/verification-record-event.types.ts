@@ -0,0 +1,83 @@
+// src/types/models/verification-record-event.types.ts
+
+import { VerificationRecordType } from './verification-record.types';
+
+/**
+ * 验证记录事件类型
+ * 事件只追加不修改，按发生时间组成记录的时间线
+ */
+export enum VerificationRecordEventType {
+  /** 已签发 */
+  CREATED = 'CREATED',
+  /** 已投递（邮件 / 短信入队） */
+  DELIVERED = 'DELIVERED',
+  /** 通过 findVerificationRecord 查看 */
+  VIEWED = 'VIEWED',
+  /** 消费成功 */
+  CONSUME_SUCCEEDED = 'CONSUME_SUCCEEDED',
+  /** 消费失败（reason 为错误码） */
+  CONSUME_FAILED = 'CONSUME_FAILED',
+  /** 已撤销 */
+  REVOKED = 'REVOKED',
+  /** 已过期（由过期清理任务标记） */
+  EXPIRED = 'EXPIRED',
+}
+
+/**
+ * 撤销原因（REVOKED 事件的 reason）
+ */
+export const VERIFICATION_RECORD_REVOKE_REASON = {
+  /** 签发者或管理员主动撤销 */
+  MANUAL: 'MANUAL',
+  /** 重新签发时作废旧记录 */
+  REISSUED: 'REISSUED',
+  /** 验证码错误次数达到上限 */
+  TOO_MANY_ATTEMPTS: 'TOO_MANY_ATTEMPTS',
+} as const;
+
+/**
+ * 投递渠道（DELIVERED 事件的 reason）
+ */
+export const VERIFICATION_RECORD_DELIVERY_CHANNEL = {
+  EMAIL: 'EMAIL',
+  SMS: 'SMS',
+} as const;
+
+/**
+ * 验证记录领域事件
+ */
+export interface VerificationRecordEvent<
+  T extends VerificationRecordEventType = VerificationRecordEventType,
+> {
+  /** 验证记录 ID */
+  recordId: number;
+  /** 验证记录类型 */
+  recordType: VerificationRecordType;
+  /** 事件类型 */
+  eventType: T;
+  /** 操作者账户 ID（系统或匿名操作为 null） */
+  actorAccountId: number | null;
+  /** 原因：撤销原因 / 投递渠道 / 消费失败错误码 */
+  reason: string | null;
+  /** 操作 IP */
+  ip: string | null;
+  /** 发生时间 */
+  occurredAt: Date;
+}
+
+/**
+ * 记录事件的输入（未提供的字段记为 null，发生时间默认为当前时间）
+ */
+export type RecordVerificationRecordEventParams = Pick<
+  VerificationRecordEvent,
+  'recordId' | 'recordType' | 'eventType'
+> &
+  Partial<Pick<VerificationRecordEvent, 'actorAccountId' | 'reason' | 'ip'>>;
+
+/**
+ * 验证记录事件监听器
+ * 监听器在事件写入（事务提交）后异步执行，抛出的错误只记录日志
+ */
+export type VerificationRecordEventListener<
+  T extends VerificationRecordEventType = VerificationRecordEventType,
+> = (event: VerificationRecordEvent<T>) => void | Promise<void>;
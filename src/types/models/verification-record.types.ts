@@ -10,7 +10,7 @@ export enum VerificationRecordType {
   /** 邀请管理员 */
   INVITE_MANAGER = 'INVITE_MANAGER',
   /** 邀请学员 */
-  // INVITE_LEARNER = 'INVITE_LEARNER',
+  INVITE_LEARNER = 'INVITE_LEARNER',
   /** 邮箱验证链接 */
   EMAIL_VERIFY_LINK = 'EMAIL_VERIFY_LINK',
   /** 邮箱验证码 */
@@ -18,9 +18,9 @@ export enum VerificationRecordType {
   /** 密码重置 */
   PASSWORD_RESET = 'PASSWORD_RESET',
   /** 魔法链接 */
-  // MAGIC_LINK = 'MAGIC_LINK',
+  MAGIC_LINK = 'MAGIC_LINK',
   /** 微信小程序绑定 */
-  // WEAPP_BIND = 'WEAPP_BIND',
+  WEAPP_BIND = 'WEAPP_BIND',
   /** 短信验证码 */
   SMS_VERIFY_CODE = 'SMS_VERIFY_CODE',
 }
@@ -34,10 +34,172 @@ export enum CreatableVerificationRecordType {
   INVITE_COACH = 'INVITE_COACH',
   /** 邀请管理员 */
   INVITE_MANAGER = 'INVITE_MANAGER',
+  /** 邮箱验证链接 */
+  EMAIL_VERIFY_LINK = 'EMAIL_VERIFY_LINK',
+  /** 邮箱验证码 */
+  EMAIL_VERIFY_CODE = 'EMAIL_VERIFY_CODE',
   /** 密码重置 */
   PASSWORD_RESET = 'PASSWORD_RESET',
 }
 
+/**
+ * 验证码类记录类型
+ * 短数字验证码可被穷举，只能按（类型 + 目标）定位记录后比对验证码，不允许仅凭指纹查找
+ */
+export const CODE_VERIFICATION_RECORD_TYPES: ReadonlySet<VerificationRecordType> = new Set([
+  VerificationRecordType.EMAIL_VERIFY_CODE,
+  VerificationRecordType.SMS_VERIFY_CODE,
+]);
+
+/**
+ * 邀请类记录类型
+ * 签发者可查看、重新发送与撤销自己签发的邀请
+ */
+export const INVITE_VERIFICATION_RECORD_TYPES: ReadonlySet<VerificationRecordType> = new Set([
+  VerificationRecordType.INVITE_COACH,
+  VerificationRecordType.INVITE_MANAGER,
+  VerificationRecordType.INVITE_LEARNER,
+]);
+
+/** 邀请类记录对应的身份名称（邀请邮件与站内通知文案） */
+export const INVITE_ROLE_LABELS: Readonly<Partial<Record<VerificationRecordType, string>>> = {
+  [VerificationRecordType.INVITE_COACH]: '教练',
+  [VerificationRecordType.INVITE_MANAGER]: '管理员',
+  [VerificationRecordType.INVITE_LEARNER]: '学员',
+};
+
+/** 邀请默认有效期（分钟），重新发送时未指定则按此顺延 */
+export const DEFAULT_INVITE_EXPIRES_IN_MINUTES = 10080;
+
+/** 重新发送邀请的冷却时间（秒） */
+export const INVITE_RESEND_COOLDOWN_SECONDS = 60;
+
+/** 邀请邮件的模板 ID */
+export const INVITE_EMAIL_TEMPLATE = 'invite';
+
+/** 小程序扫码绑定记录默认有效期（分钟） */
+export const WEAPP_BIND_EXPIRES_IN_MINUTES = 10;
+
+/**
+ * 小程序扫码绑定状态
+ * 网页端按绑定记录轮询，由记录状态与有效期推导
+ */
+export enum WeappBindStatus {
+  /** 等待小程序扫码确认 */
+  PENDING = 'PENDING',
+  /** 已完成绑定 */
+  BOUND = 'BOUND',
+  /** 已过期 */
+  EXPIRED = 'EXPIRED',
+  /** 已作废（重新发起绑定或被撤销） */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * 单个签发者的邀请接受情况统计
+ * 已过期包含尚未被清理任务标记、但已超过有效期的 ACTIVE 记录
+ */
+export interface InviteAcceptanceStats {
+  /** 签发者账号 ID */
+  issuedByAccountId: number;
+  /** 签发总数 */
+  issued: number;
+  /** 已接受 */
+  consumed: number;
+  /** 已过期 */
+  expired: number;
+  /** 已撤销 */
+  revoked: number;
+  /** 待接受（仍在有效期内） */
+  pending: number;
+}
+
+/** 批量邀请教练：CSV 数据行数不超过该值时同步处理，超出后转为异步任务 */
+export const BULK_COACH_INVITE_SYNC_MAX_ROWS = 50;
+
+/** 批量邀请教练：单个 CSV 最多数据行数 */
+export const BULK_COACH_INVITE_MAX_ROWS = 1000;
+
+/** 批量邀请教练 CSV 表头（顺序不限，name / email 必填） */
+export const BULK_COACH_INVITE_CSV_COLUMNS = [
+  'name',
+  'email',
+  'phone',
+  'level',
+  'specialty',
+] as const;
+
+/**
+ * 批量邀请教练的 CSV 数据行（原始文本，尚未校验）
+ */
+export interface CoachInviteCsvRow {
+  /** 数据行号（不含表头，从 1 开始） */
+  rowNumber: number;
+  name: string;
+  email: string;
+  phone: string;
+  level: string;
+  specialty: string;
+}
+
+/**
+ * 批量邀请单行处理状态
+ */
+export enum BulkInviteRowStatus {
+  /** 已签发邀请 */
+  CREATED = 'CREATED',
+  /** 校验或创建失败 */
+  FAILED = 'FAILED',
+}
+
+/**
+ * 批量邀请单行处理结果
+ */
+export interface BulkInviteRowResult {
+  /** 数据行号（不含表头，从 1 开始） */
+  rowNumber: number;
+  status: BulkInviteRowStatus;
+  /** 标准化后的邮箱（邮箱无效时为原始值） */
+  email: string | null;
+  /** 邀请记录 ID（仅 CREATED） */
+  recordId: number | null;
+  /** 是否已投递邀请邮件 */
+  emailQueued: boolean;
+  /** 失败错误码（仅 FAILED） */
+  errorCode: string | null;
+  /** 失败原因（仅 FAILED） */
+  message: string | null;
+}
+
+/**
+ * 批量邀请结果报告
+ */
+export interface BulkInviteReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  rows: BulkInviteRowResult[];
+}
+
+/** 验证码默认最大尝试次数，达到后记录被撤销 */
+export const DEFAULT_VERIFICATION_CODE_MAX_ATTEMPTS = 5;
+
+/**
+ * 验证记录过期清理配置
+ */
+export interface VerificationRecordSweepConfig {
+  /** 是否注册周期任务 */
+  enabled: boolean;
+  /** 执行间隔（秒） */
+  everySeconds: number;
+  /** 单批处理行数 */
+  batchSize: number;
+  /** 单轮内每种记录类型的过期、清理各自的最大批次数 */
+  maxBatchesPerRun: number;
+  /** 终态记录在过期时间之后的保留天数，<= 0 表示不清理 */
+  retentionDays: number;
+}
+
 /**
  * 验证记录状态枚举
  * 状态机：一票一次
@@ -91,6 +253,8 @@ export interface CreateVerificationRecordParams {
   payload?: Record<string, unknown>;
   /** 签发者账号 ID (可选) */
   issuedByAccountId?: number;
+  /** 最大尝试次数 (可选，仅对验证码类记录生效) */
+  maxAttempts?: number;
 }
 
 /**
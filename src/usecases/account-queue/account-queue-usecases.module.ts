@@ -0,0 +1,12 @@
+// src/usecases/account-queue/account-queue-usecases.module.ts
+import { Module } from '@nestjs/common';
+import { AsyncTaskRecordModule } from '@src/modules/async-task-record/async-task-record.module';
+import { AccountQueueModule } from '@src/modules/common/account-queue/account-queue.module';
+import { QueueAccountDataExportUsecase } from './queue-account-data-export.usecase';
+
+@Module({
+  imports: [AccountQueueModule, AsyncTaskRecordModule],
+  providers: [QueueAccountDataExportUsecase],
+  exports: [QueueAccountDataExportUsecase],
+})
+export class AccountQueueUsecasesModule {}
@@ -0,0 +1,84 @@
+// src/usecases/account-queue/queue-account-data-export.usecase.ts
+import { Injectable } from '@nestjs/common';
+import {
+  resolveAsyncTaskBizKey,
+  resolveEnqueueFailureIdentifiers,
+} from '@src/core/common/async-task/async-task-identifier.policy';
+import { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { AsyncTaskRecordSource } from '@src/modules/async-task-record/async-task-record.types';
+import { AccountQueueService } from '@src/modules/common/account-queue/account-queue.service';
+import type {
+  QueueAccountDataExportInput,
+  QueueAccountDataExportResult,
+} from '@src/modules/common/account-queue/account-queue.types';
+
+@Injectable()
+export class QueueAccountDataExportUsecase {
+  constructor(
+    private readonly accountQueueService: AccountQueueService,
+    private readonly asyncTaskRecordService: AsyncTaskRecordService,
+  ) {}
+
+  async execute(input: QueueAccountDataExportInput): Promise<QueueAccountDataExportResult> {
+    const occurredAt = new Date();
+    const result = await this.enqueueOrThrow({ input, occurredAt });
+    await this.asyncTaskRecordService.recordEnqueued({
+      data: {
+        queueName: 'account',
+        jobName: 'data-export',
+        jobId: result.jobId,
+        traceId: result.traceId,
+        actorAccountId: input.accountId,
+        bizType: 'account',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'account',
+          traceId: result.traceId,
+          jobId: result.jobId,
+        }),
+        bizSubKey: String(input.exportId),
+        source: this.resolveSource(),
+        reason: 'enqueue_accepted',
+        occurredAt,
+      },
+    });
+    return result;
+  }
+
+  private async enqueueOrThrow(input: {
+    readonly input: QueueAccountDataExportInput;
+    readonly occurredAt: Date;
+  }): Promise<QueueAccountDataExportResult> {
+    try {
+      return await this.accountQueueService.enqueueDataExport(input.input);
+    } catch (error: unknown) {
+      const normalizedError =
+        error instanceof Error ? error : new Error('account_data_export_enqueue_failed');
+      const identifiers = resolveEnqueueFailureIdentifiers({
+        domain: 'account',
+        traceId: input.input.traceId,
+        occurredAt: input.occurredAt,
+        traceIdPrefix: 'account-enqueue:',
+      });
+      await this.asyncTaskRecordService.recordEnqueueFailed({
+        data: {
+          queueName: 'account',
+          jobName: 'data-export',
+          jobId: identifiers.failedJobId,
+          traceId: identifiers.traceId,
+          actorAccountId: input.input.accountId,
+          bizType: 'account',
+          bizKey: identifiers.bizKey,
+          bizSubKey: String(input.input.exportId),
+          source: this.resolveSource(),
+          reason: normalizedError.message.slice(0, 128),
+          occurredAt: input.occurredAt,
+        },
+      });
+      throw normalizedError;
+    }
+  }
+
+  private resolveSource(): AsyncTaskRecordSource {
+    return 'user_action';
+  }
+}
@@ -0,0 +1,25 @@
+// src/usecases/account-worker/account-worker-usecases.module.ts
+import { AccountInstallerModule } from '@modules/account/account-installer.module';
+import { LearnerServiceModule } from '@modules/account/identities/training/learner/learner-service.module';
+import { Module } from '@nestjs/common';
+import { AccountDataExportModule } from '@src/modules/account-data-export/account-data-export.module';
+import { AiProviderCallRecordModule } from '@src/modules/ai-provider-call-record/ai-provider-call-record.module';
+import { AsyncTaskRecordModule } from '@src/modules/async-task-record/async-task-record.module';
+import { NotificationModule } from '@src/modules/notification/notification.module';
+import { EmailQueueUsecasesModule } from '@src/usecases/email-queue/email-queue-usecases.module';
+import { ProcessAccountDataExportUsecase } from './process-account-data-export.usecase';
+
+@Module({
+  imports: [
+    AccountInstallerModule,
+    LearnerServiceModule,
+    AccountDataExportModule,
+    AiProviderCallRecordModule,
+    NotificationModule,
+    EmailQueueUsecasesModule,
+    AsyncTaskRecordModule,
+  ],
+  providers: [ProcessAccountDataExportUsecase],
+  exports: [ProcessAccountDataExportUsecase],
+})
+export class AccountWorkerUsecasesModule {}
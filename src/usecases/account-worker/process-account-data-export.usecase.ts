@@ -0,0 +1,307 @@
+// src/usecases/account-worker/process-account-data-export.usecase.ts
+import {
+  ACCOUNT_DATA_EXPORT_EMAIL_TEMPLATE,
+  AccountDataExportArchive,
+  AccountDataExportConfig,
+  AccountDataExportStatus,
+} from '@app-types/models/account-lifecycle.types';
+import { AccountStatus } from '@app-types/models/account.types';
+import { NotificationCategory } from '@app-types/models/notification.types';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { resolveAsyncTaskBizKey } from '@src/core/common/async-task/async-task-identifier.policy';
+import type {
+  AccountDataExportPayload,
+  AccountDataExportResult,
+} from '@src/infrastructure/bullmq/contracts/account.contract';
+import type { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { LearnerService } from '@src/modules/account/identities/training/learner/account-learner.service';
+import { AccountDataExportService } from '@src/modules/account-data-export/account-data-export.service';
+import { AiProviderCallRecordService } from '@src/modules/ai-provider-call-record/ai-provider-call-record.service';
+import { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { AsyncTaskRecordSource } from '@src/modules/async-task-record/async-task-record.types';
+import { NotificationService } from '@src/modules/notification/notification.service';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ProcessAccountDataExportProcessInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly payload: AccountDataExportPayload;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+}
+
+export interface ProcessAccountDataExportCompleteInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly exportId?: number;
+  readonly actorAccountId?: number;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+  readonly finishedAt?: Date;
+  readonly result?: AccountDataExportResult;
+}
+
+export interface ProcessAccountDataExportFailInput extends ProcessAccountDataExportCompleteInput {
+  readonly reason?: string;
+  readonly occurredAt?: Date;
+}
+
+/**
+ * 个人数据导出用例（Worker 异步任务）
+ * - 汇总账户、用户信息、身份档案、学员、登录历史、第三方绑定与 AI 调用记录，生成 JSON 归档
+ * - 归档写入导出记录并签发下载令牌，链接通过邮件投递，同时写入站内通知
+ * - 重试耗尽后导出记录标记为 FAILED，用户可重新申请
+ */
+@Injectable()
+export class ProcessAccountDataExportUsecase {
+  private readonly config: AccountDataExportConfig;
+
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly learnerService: LearnerService,
+    private readonly accountDataExportService: AccountDataExportService,
+    private readonly aiProviderCallRecordService: AiProviderCallRecordService,
+    private readonly notificationService: NotificationService,
+    private readonly queueEmailUsecase: QueueEmailUsecase,
+    private readonly asyncTaskRecordService: AsyncTaskRecordService,
+    private readonly logger: PinoLogger,
+    configService: ConfigService,
+  ) {
+    this.logger.setContext(ProcessAccountDataExportUsecase.name);
+    this.config = configService.get<AccountDataExportConfig>('accountDataExport') ?? {
+      linkBaseUrl: '',
+      linkExpiresInHours: 72,
+      cooldownMinutes: 1440,
+      maxAiCallRecords: 1000,
+    };
+  }
+
+  async process(input: ProcessAccountDataExportProcessInput): Promise<AccountDataExportResult> {
+    const { exportId, accountId } = input.payload;
+    await this.asyncTaskRecordService.recordStarted({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        actorAccountId: accountId,
+        bizType: 'account',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'account',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        bizSubKey: String(exportId),
+        source: this.resolveSource(),
+        reason: 'worker_processing',
+        attemptCount: Math.max(input.attemptsMade + 1, 1),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        occurredAt: input.startedAt,
+      },
+    });
+
+    const record = await this.accountDataExportService.findById(exportId);
+    if (!record || record.accountId !== accountId) {
+      throw new Error(`account_data_export_not_found:${exportId}`);
+    }
+    if (record.status !== AccountDataExportStatus.PENDING) {
+      // 重复投递或已被处理，直接返回已有结果
+      return { exportId, sizeBytes: record.sizeBytes ?? 0 };
+    }
+
+    const account = await this.accountService.findOneById(accountId);
+    if (!account?.loginEmail || account.status === AccountStatus.DELETED) {
+      await this.accountDataExportService.markFailed({
+        id: exportId,
+        reason: 'account_unavailable',
+      });
+      return { exportId, sizeBytes: 0 };
+    }
+
+    const archive = JSON.stringify(await this.buildArchive(account));
+    const expiresAt = new Date(Date.now() + this.config.linkExpiresInHours * HOUR_MS);
+    const issued = await this.accountDataExportService.markReady({
+      id: exportId,
+      archive,
+      expiresAt,
+    });
+    const sizeBytes = Buffer.byteLength(archive, 'utf8');
+    if (!issued) {
+      return { exportId, sizeBytes };
+    }
+
+    await this.notificationService.send({
+      recipientAccountId: accountId,
+      category: NotificationCategory.DATA_EXPORT_READY,
+      title: '个人数据导出已生成',
+      body: `下载链接已发送至您的登录邮箱，${this.config.linkExpiresInHours} 小时内有效。`,
+    });
+    await this.deliver({ to: account.loginEmail, token: issued.token, exportId, expiresAt });
+
+    this.logger.info(
+      { event: 'account_data_export_ready', jobId: input.jobId, exportId, accountId, sizeBytes },
+      '个人数据导出完成',
+    );
+    return { exportId, sizeBytes };
+  }
+
+  async complete(input: ProcessAccountDataExportCompleteInput): Promise<void> {
+    await this.recordFinished({
+      ...input,
+      status: 'succeeded',
+      reason: input.result
+        ? `export_id=${input.result.exportId};size_bytes=${input.result.sizeBytes}`
+        : 'worker_completed',
+      occurredAt: input.finishedAt,
+    });
+  }
+
+  async fail(input: ProcessAccountDataExportFailInput): Promise<void> {
+    const exhausted =
+      typeof input.maxAttempts !== 'number' || input.attemptsMade >= input.maxAttempts;
+    if (exhausted && input.exportId) {
+      await this.accountDataExportService.markFailed({
+        id: input.exportId,
+        reason: input.reason ?? 'worker_failed',
+      });
+    }
+    await this.recordFinished({
+      ...input,
+      status: 'failed',
+      occurredAt: input.occurredAt ?? input.finishedAt,
+    });
+  }
+
+  /**
+   * 汇总账户的个人数据
+   * 密码哈希、令牌版本等凭证类字段不导出
+   */
+  private async buildArchive(account: AccountEntity): Promise<AccountDataExportArchive> {
+    const accountId = account.id;
+    const [userInfo, identities, thirdPartyBindings, aiCallRecords, customer] = await Promise.all([
+      this.accountService.findUserInfoByAccountId(accountId),
+      this.accountService.findIdentityProfiles(accountId),
+      this.accountService.findThirdPartyBindings(accountId),
+      this.aiProviderCallRecordService.findRecentByAccountId({
+        accountId,
+        limit: this.config.maxAiCallRecords,
+      }),
+      this.accountService.findCustomerByAccountId(accountId),
+    ]);
+    const learners = customer ? await this.learnerService.findByCustomerId(customer.id) : [];
+
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      account: {
+        id: account.id,
+        loginName: account.loginName,
+        loginEmail: account.loginEmail,
+        status: account.status,
+        identityHint: account.identityHint,
+        lastLoginAt: account.lastLoginAt?.toISOString() ?? null,
+        createdAt: account.createdAt.toISOString(),
+      },
+      userInfo: userInfo ? { ...userInfo } : null,
+      identities,
+      learners: learners.map((learner) => ({ ...learner })),
+      loginHistory: account.recentLoginHistory ?? [],
+      thirdPartyBindings: thirdPartyBindings.map((binding) => ({
+        provider: binding.provider,
+        createdAt: binding.createdAt.toISOString(),
+      })),
+      aiCallRecords: aiCallRecords.map((record) => ({ ...record })),
+    };
+  }
+
+  /**
+   * 投递下载链接邮件
+   * 投递失败只记录日志，不回滚已生成的归档（站内通知已写入）
+   */
+  private async deliver(params: {
+    to: string;
+    token: string;
+    exportId: number;
+    expiresAt: Date;
+  }): Promise<void> {
+    const link = this.config.linkBaseUrl
+      ? `${this.config.linkBaseUrl}?token=${encodeURIComponent(params.token)}`
+      : null;
+    try {
+      await this.queueEmailUsecase.execute({
+        to: params.to,
+        subject: '您的个人数据导出已生成',
+        text: [
+          '您申请的个人数据导出已生成，登录后访问下方链接即可下载。',
+          link ? `下载链接：${link}` : `下载令牌：${params.token}`,
+          `链接将于 ${params.expiresAt.toISOString()} 失效，如非本人操作请立即修改密码。`,
+        ].join('\n'),
+        templateId: ACCOUNT_DATA_EXPORT_EMAIL_TEMPLATE,
+        meta: { event: 'account_data_export_ready' },
+        dedupKey: `account-data-export:${params.exportId}`,
+      });
+    } catch (error) {
+      this.logger.warn(
+        {
+          event: 'account_data_export_notify_failed',
+          exportId: params.exportId,
+          error: (error as Error)?.message,
+        },
+        '个人数据导出邮件投递失败',
+      );
+    }
+  }
+
+  private async recordFinished(
+    input: ProcessAccountDataExportCompleteInput & {
+      readonly status: 'succeeded' | 'failed';
+      readonly reason?: string;
+      readonly occurredAt?: Date;
+    },
+  ): Promise<void> {
+    await this.asyncTaskRecordService.recordFinished({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        actorAccountId: input.actorAccountId,
+        bizType: 'account',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'account',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        bizSubKey: input.exportId ? String(input.exportId) : undefined,
+        source: this.resolveSource(),
+        status: input.status,
+        reason: input.reason,
+        attemptCount: Math.max(input.attemptsMade, 1),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        finishedAt: input.finishedAt,
+        occurredAt: input.occurredAt,
+      },
+    });
+  }
+
+  private resolveSource(): AsyncTaskRecordSource {
+    return 'user_action';
+  }
+}
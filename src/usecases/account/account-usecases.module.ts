@@ -1,34 +1,88 @@
 // src/usecases/account/account-usecases.module.ts
+import { AuthModule } from '@modules/auth/auth.module';
 import { Module } from '@nestjs/common';
 import { AccountInstallerModule } from '@src/modules/account/account-installer.module';
+import { CoachServiceModule } from '@src/modules/account/identities/training/coach/coach-service.module';
+import { CustomerServiceModule } from '@src/modules/account/identities/training/customer/customer-service.module';
+import { LearnerServiceModule } from '@src/modules/account/identities/training/learner/learner-service.module';
+import { AccountDataExportModule } from '@src/modules/account-data-export/account-data-export.module';
+import { AiProviderCallRecordModule } from '@src/modules/ai-provider-call-record/ai-provider-call-record.module';
+import { AsyncTaskRecordModule } from '@src/modules/async-task-record/async-task-record.module';
 import { PasswordModule } from '@src/modules/common/password/password.module';
+import { NotificationModule } from '@src/modules/notification/notification.module';
+import { StoredFileModule } from '@src/modules/stored-file/stored-file.module';
+import { VerificationRecordModule } from '@src/modules/verification-record/verification-record.module';
+import { ChangePasswordUsecase } from '@src/usecases/account/change-password.usecase';
 import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { EraseAccountUsecase } from '@src/usecases/account/erase-account.usecase';
 import { FetchIdentityByRoleUsecase } from '@src/usecases/account/fetch-identity-by-role.usecase';
 import { FetchUserInfoUsecase } from '@src/usecases/account/fetch-user-info.usecase';
 import { GetAccountByIdUsecase } from '@src/usecases/account/get-account-by-id.usecase';
+import { GetDataExportArchiveUsecase } from '@src/usecases/account/get-data-export-archive.usecase';
+import { GetPasswordHashReportUsecase } from '@src/usecases/account/get-password-hash-report.usecase';
 import { GetVisibleUserInfoUsecase } from '@src/usecases/account/get-visible-user-info.usecase';
+import { ListAccountsUsecase } from '@src/usecases/account/list-accounts.usecase';
+import { MergeAccountsUsecase } from '@src/usecases/account/merge-accounts.usecase';
+import { RequestAccountDeletionUsecase } from '@src/usecases/account/request-account-deletion.usecase';
+import { RequestDataExportUsecase } from '@src/usecases/account/request-data-export.usecase';
+import { SetAccountStatusUsecase } from '@src/usecases/account/set-account-status.usecase';
 import {
   UpdateAccessGroupUsecase,
   UpdateVisibleUserInfoUsecase,
 } from '@src/usecases/account/update-visible-user-info.usecase';
+import { AccountQueueUsecasesModule } from '@src/usecases/account-queue/account-queue-usecases.module';
+import { EmailQueueUsecasesModule } from '@src/usecases/email-queue/email-queue-usecases.module';
 
 @Module({
-  imports: [AccountInstallerModule, PasswordModule],
+  imports: [
+    AccountInstallerModule,
+    PasswordModule,
+    AuthModule,
+    EmailQueueUsecasesModule,
+    NotificationModule,
+    AccountDataExportModule,
+    AiProviderCallRecordModule,
+    AccountQueueUsecasesModule,
+    VerificationRecordModule,
+    AsyncTaskRecordModule,
+    StoredFileModule,
+    CoachServiceModule,
+    CustomerServiceModule,
+    LearnerServiceModule,
+  ],
   providers: [
+    ChangePasswordUsecase,
     CreateAccountUsecase,
+    EraseAccountUsecase,
     FetchIdentityByRoleUsecase,
     FetchUserInfoUsecase,
     GetAccountByIdUsecase,
+    GetDataExportArchiveUsecase,
+    GetPasswordHashReportUsecase,
     GetVisibleUserInfoUsecase,
+    ListAccountsUsecase,
+    MergeAccountsUsecase,
+    RequestAccountDeletionUsecase,
+    RequestDataExportUsecase,
+    SetAccountStatusUsecase,
     UpdateVisibleUserInfoUsecase,
     UpdateAccessGroupUsecase,
   ],
   exports: [
+    ChangePasswordUsecase,
     CreateAccountUsecase,
+    EraseAccountUsecase,
     FetchIdentityByRoleUsecase,
     FetchUserInfoUsecase,
     GetAccountByIdUsecase,
+    GetDataExportArchiveUsecase,
+    GetPasswordHashReportUsecase,
     GetVisibleUserInfoUsecase,
+    ListAccountsUsecase,
+    MergeAccountsUsecase,
+    RequestAccountDeletionUsecase,
+    RequestDataExportUsecase,
+    SetAccountStatusUsecase,
     UpdateVisibleUserInfoUsecase,
     UpdateAccessGroupUsecase,
   ],
@@ -0,0 +1,125 @@
+// src/usecases/account/change-password.usecase.spec.ts
+import { LoginThrottleScope, LoginThrottleSubject } from '@app-types/auth/login-throttle.types';
+import { AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import type { PasswordPolicyService } from '@core/common/password/password-policy.service';
+import type { LoginThrottleService } from '@modules/auth/services/login-throttle.service';
+import type { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import type { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import type { PasswordHistoryService } from '@src/modules/account/base/services/password-history.service';
+import type { NotificationService } from '@src/modules/notification/notification.service';
+import type { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import type { PinoLogger } from 'nestjs-pino';
+import { ChangePasswordUsecase } from './change-password.usecase';
+
+type AccountServiceMock = {
+  readonly findOneById: jest.Mock<Promise<AccountEntity | null>, [number]>;
+  readonly runTransaction: jest.Mock;
+};
+
+type PasswordPolicyServiceMock = {
+  readonly validatePassword: jest.Mock<{ isValid: boolean; errors: string[] }, [string]>;
+};
+
+type LoginThrottleServiceMock = {
+  readonly assertNotLocked: jest.Mock<Promise<void>, [LoginThrottleSubject]>;
+  readonly recordFailure: jest.Mock<Promise<void>, [LoginThrottleSubject]>;
+  readonly recordSuccess: jest.Mock<Promise<void>, [LoginThrottleSubject]>;
+};
+
+const OLD_PASSWORD = 'OldGuest#2025x';
+
+describe('ChangePasswordUsecase 原密码校验限流', () => {
+  const throttleSubject: LoginThrottleSubject = {
+    scope: LoginThrottleScope.CHANGE_PASSWORD,
+    loginName: 'account:7',
+    ip: '10.0.0.1',
+  };
+
+  let accountService: AccountServiceMock;
+  let passwordPolicyService: PasswordPolicyServiceMock;
+  let loginThrottleService: LoginThrottleServiceMock;
+  let usecase: ChangePasswordUsecase;
+
+  beforeEach(async () => {
+    accountService = {
+      findOneById: jest.fn(),
+      runTransaction: jest.fn(),
+    };
+    passwordPolicyService = {
+      validatePassword: jest.fn(),
+    };
+    loginThrottleService = {
+      assertNotLocked: jest.fn(),
+      recordFailure: jest.fn(),
+      recordSuccess: jest.fn(),
+    };
+
+    accountService.findOneById.mockResolvedValue({
+      id: 7,
+      loginPassword: await AccountService.hashPassword(OLD_PASSWORD),
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    } as AccountEntity);
+
+    usecase = new ChangePasswordUsecase(
+      accountService as unknown as AccountService,
+      {} as PasswordHistoryService,
+      passwordPolicyService as unknown as PasswordPolicyService,
+      {} as RefreshTokenFamilyService,
+      {} as QueueEmailUsecase,
+      {} as NotificationService,
+      loginThrottleService as unknown as LoginThrottleService,
+      { setContext: jest.fn() } as unknown as PinoLogger,
+    );
+  });
+
+  it('原密码错误时按账户与 IP 记录失败', async () => {
+    await expect(
+      usecase.execute({
+        accountId: 7,
+        oldPassword: 'Wrong#2025x',
+        newPassword: 'NewGuest#2025x',
+        ip: '10.0.0.1',
+      }),
+    ).rejects.toMatchObject({ code: AUTH_ERROR.INVALID_PASSWORD, message: '原密码错误' });
+
+    expect(loginThrottleService.assertNotLocked).toHaveBeenCalledWith(throttleSubject);
+    expect(loginThrottleService.recordFailure).toHaveBeenCalledWith(throttleSubject);
+    expect(loginThrottleService.recordSuccess).not.toHaveBeenCalled();
+  });
+
+  it('已锁定时直接拒绝，不再校验原密码', async () => {
+    loginThrottleService.assertNotLocked.mockRejectedValue(
+      new DomainError(AUTH_ERROR.LOGIN_LOCKED, '尝试次数过多'),
+    );
+
+    await expect(
+      usecase.execute({
+        accountId: 7,
+        oldPassword: OLD_PASSWORD,
+        newPassword: 'NewGuest#2025x',
+        ip: '10.0.0.1',
+      }),
+    ).rejects.toMatchObject({ code: AUTH_ERROR.LOGIN_LOCKED });
+
+    expect(loginThrottleService.recordFailure).not.toHaveBeenCalled();
+    expect(passwordPolicyService.validatePassword).not.toHaveBeenCalled();
+  });
+
+  it('原密码正确时清除失败计数后继续校验新密码', async () => {
+    passwordPolicyService.validatePassword.mockReturnValue({ isValid: false, errors: ['过短'] });
+
+    await expect(
+      usecase.execute({
+        accountId: 7,
+        oldPassword: OLD_PASSWORD,
+        newPassword: 'short',
+        ip: '10.0.0.1',
+      }),
+    ).rejects.toMatchObject({ code: AUTH_ERROR.INVALID_PASSWORD });
+
+    expect(loginThrottleService.recordSuccess).toHaveBeenCalledWith(throttleSubject);
+    expect(loginThrottleService.recordFailure).not.toHaveBeenCalled();
+    expect(accountService.runTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -1 +1,170 @@
 // src/usecases/account/change-password.usecase.ts
+
+import { LoginThrottleScope, LoginThrottleSubject } from '@app-types/auth/login-throttle.types';
+import { RefreshTokenRevokeReason } from '@app-types/auth/refresh-token.types';
+import { NotificationCategory } from '@app-types/models/notification.types';
+import { ACCOUNT_ERROR, AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { PasswordPolicyService } from '@core/common/password/password-policy.service';
+import { LoginThrottleService } from '@modules/auth/services/login-throttle.service';
+import { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { PasswordHistoryService } from '@src/modules/account/base/services/password-history.service';
+import { NotificationService } from '@src/modules/notification/notification.service';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+/**
+ * 修改密码用例参数
+ */
+export interface ChangePasswordUsecaseParams {
+  /** 当前登录账户 ID */
+  accountId: number;
+  /** 原密码 */
+  oldPassword: string;
+  /** 新密码 */
+  newPassword: string;
+  /** 客户端 IP（写入通知邮件，并参与原密码错误次数限流） */
+  ip?: string;
+}
+
+/**
+ * 修改密码用例（已登录用户自助修改）
+ * 流程：校验原密码（错误次数按账户与 IP 限流）→ 校验密码策略 → 拒绝复用当前及最近历史密码
+ *       → 事务内更新密码、记录历史、递增 tokenVersion、作废全部会话并写入站内通知 → 投递通知邮件
+ */
+@Injectable()
+export class ChangePasswordUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly passwordHistoryService: PasswordHistoryService,
+    private readonly passwordPolicyService: PasswordPolicyService,
+    private readonly refreshTokenFamilyService: RefreshTokenFamilyService,
+    private readonly queueEmailUsecase: QueueEmailUsecase,
+    private readonly notificationService: NotificationService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(ChangePasswordUsecase.name);
+  }
+
+  /**
+   * 执行修改密码
+   * 修改成功后账户下已签发的全部令牌（含当前会话）失效，需重新登录
+   * @param params 修改参数
+   */
+  async execute(params: ChangePasswordUsecaseParams): Promise<void> {
+    const { accountId, oldPassword, newPassword } = params;
+
+    const account = await this.accountService.findOneById(accountId);
+    if (!account) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '账户不存在');
+    }
+
+    // 持有被盗 access token 也不能借此接口无限次试探原密码
+    const throttleSubject: LoginThrottleSubject = {
+      scope: LoginThrottleScope.CHANGE_PASSWORD,
+      loginName: `account:${accountId}`,
+      ip: params.ip,
+    };
+    await this.loginThrottleService.assertNotLocked(throttleSubject);
+    if (
+      !(await AccountService.verifyPassword(oldPassword, account.loginPassword, account.createdAt))
+    ) {
+      await this.loginThrottleService.recordFailure(throttleSubject);
+      throw new DomainError(AUTH_ERROR.INVALID_PASSWORD, '原密码错误');
+    }
+    await this.loginThrottleService.recordSuccess(throttleSubject);
+
+    const passwordValidation = this.passwordPolicyService.validatePassword(newPassword);
+    if (!passwordValidation.isValid) {
+      throw new DomainError(
+        AUTH_ERROR.INVALID_PASSWORD,
+        `密码不符合安全要求: ${passwordValidation.errors.join(', ')}`,
+      );
+    }
+
+    const isReused =
+      (await AccountService.verifyPassword(
+        newPassword,
+        account.loginPassword,
+        account.createdAt,
+      )) ||
+      (await this.passwordHistoryService.isRecentlyUsed({
+        accountId,
+        accountCreatedAt: account.createdAt,
+        password: newPassword,
+      }));
+    if (isReused) {
+      throw new DomainError(
+        ACCOUNT_ERROR.PASSWORD_REUSED,
+        `新密码不能与当前密码及最近 ${this.passwordHistoryService.getHistorySize()} 次使用过的密码相同`,
+      );
+    }
+
+    const revokedSessions = await this.accountService.runTransaction(async (manager) => {
+      const locked = await this.accountService.lockByIdForUpdate(accountId, manager);
+      await this.accountService.updateAccount(
+        accountId,
+        {
+          loginPassword: await AccountService.hashPassword(newPassword),
+          tokenVersion: locked.tokenVersion + 1,
+          updatedAt: new Date(),
+        },
+        manager,
+      );
+      await this.passwordHistoryService.record({
+        accountId,
+        passwordHash: locked.loginPassword,
+        manager,
+      });
+      const revoked = await this.refreshTokenFamilyService.revokeAllByAccountId({
+        accountId,
+        reason: RefreshTokenRevokeReason.PASSWORD_CHANGED,
+        manager,
+      });
+      await this.notificationService.send(
+        {
+          recipientAccountId: accountId,
+          category: NotificationCategory.PASSWORD_CHANGED,
+          title: '账户密码已修改',
+          body: `您的账户密码已修改${params.ip ? `（来源 IP：${params.ip}）` : ''}，所有设备上的登录状态已失效。如非本人操作，请立即重置密码并联系管理员。`,
+        },
+        manager,
+      );
+      return revoked;
+    });
+
+    this.logger.info({ event: 'password_changed', accountId, revokedSessions }, '账户已修改密码');
+
+    if (account.loginEmail) {
+      // 通知不阻塞响应
+      void this.notifyPasswordChanged({ to: account.loginEmail, ip: params.ip });
+    }
+  }
+
+  /**
+   * 投递密码修改通知邮件
+   * 投递失败只记录日志，不影响已完成的密码修改
+   */
+  private async notifyPasswordChanged(params: { to: string; ip?: string }): Promise<void> {
+    const changedAt = new Date().toISOString();
+    try {
+      await this.queueEmailUsecase.execute({
+        to: params.to,
+        subject: '您的账户密码已修改',
+        text: [
+          `您的账户密码已于 ${changedAt} 修改${params.ip ? `（来源 IP：${params.ip}）` : ''}。`,
+          '所有设备上的登录状态已失效，请使用新密码重新登录。',
+          '如非本人操作，请立即通过“忘记密码”重置密码并联系管理员。',
+        ].join('\n'),
+        meta: { event: 'password_changed' },
+      });
+    } catch (error) {
+      this.logger.warn(
+        { event: 'password_changed_notify_failed', error: (error as Error)?.message },
+        '密码修改通知邮件投递失败',
+      );
+    }
+  }
+}
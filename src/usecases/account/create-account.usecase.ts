@@ -68,12 +68,12 @@ export class CreateAccountUsecase {
       }
     }
 
-    // 1) 创建账户（先写临时密码拿到 createdAt）
+    // 1) 创建账户（密码按当前方案哈希，不再依赖 createdAt 作盐）
     const account = this.accountService.createAccountEntity({
       manager,
       accountData: {
         ...accountData,
-        loginPassword: 'temp',
+        loginPassword: await AccountService.hashPassword(String(accountData.loginPassword)),
         status: accountData.status || AccountStatus.PENDING,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -81,15 +81,7 @@ export class CreateAccountUsecase {
     });
     const savedAccount = await this.accountService.saveAccount({ account, manager });
 
-    // 2) 依据 createdAt 生成最终哈希密码并更新
-    const hashedPassword = AccountService.hashPasswordWithTimestamp(
-      String(accountData.loginPassword),
-      savedAccount.createdAt,
-    );
-    savedAccount.loginPassword = hashedPassword;
-    await this.accountService.saveAccount({ account: savedAccount, manager });
-
-    // 3) 写入 UserInfo
+    // 2) 写入 UserInfo
     const userInfo = this.accountService.createUserInfoEntity({
       manager,
       userInfoData: {
@@ -0,0 +1,23 @@
+// src/usecases/account/erase-account.input.normalize.ts
+
+import { ACCOUNT_STATUS_REASON_MAX_LENGTH } from '@app-types/models/account.types';
+import { ACCOUNT_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { normalizeRequiredText } from '@core/common/input-normalize/input-normalize.policy';
+
+/**
+ * 规范化管理员注销账户的原因：必填
+ * @returns 截断到状态原因上限长度的原因
+ */
+export function normalizeEraseReason(input: string): string {
+  try {
+    return normalizeRequiredText(input, { fieldName: '注销原因' }).slice(
+      0,
+      ACCOUNT_STATUS_REASON_MAX_LENGTH,
+    );
+  } catch (error) {
+    if (error instanceof DomainError) {
+      throw new DomainError(ACCOUNT_ERROR.DELETION_NOT_ALLOWED, '注销账户时必须填写原因');
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,306 @@
+// src/usecases/account/erase-account.usecase.spec.ts
+import { RefreshTokenRevokeReason } from '@app-types/auth/refresh-token.types';
+import { AccountStatus, IdentityTypeEnum } from '@app-types/models/account.types';
+import { StoredFileAttachmentType } from '@app-types/models/stored-file.types';
+import { ACCOUNT_ERROR, PERMISSION_ERROR } from '@core/common/errors/domain-error';
+import type { AuthSessionService } from '@modules/auth/services/auth-session.service';
+import type { MfaService } from '@modules/auth/services/mfa.service';
+import type { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import type { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import type { AccountService } from '@src/modules/account/base/services/account.service';
+import type { CoachEntity } from '@src/modules/account/identities/training/coach/account-coach.entity';
+import type { CoachService } from '@src/modules/account/identities/training/coach/coach.service';
+import type { CustomerEntity } from '@src/modules/account/identities/training/customer/account-customer.entity';
+import type { CustomerService } from '@src/modules/account/identities/training/customer/account-customer.service';
+import type { LearnerService } from '@src/modules/account/identities/training/learner/account-learner.service';
+import type { AccountDataExportService } from '@src/modules/account-data-export/account-data-export.service';
+import type { AiProviderCallRecordService } from '@src/modules/ai-provider-call-record/ai-provider-call-record.service';
+import type { NotificationService } from '@src/modules/notification/notification.service';
+import type { StoredFileService } from '@src/modules/stored-file/stored-file.service';
+import type { PinoLogger } from 'nestjs-pino';
+import type { EntityManager } from 'typeorm';
+import { EraseAccountUsecase } from './erase-account.usecase';
+
+type AccountServiceMock = {
+  readonly runTransaction: jest.Mock<
+    Promise<unknown>,
+    [(manager: EntityManager) => Promise<unknown>]
+  >;
+  readonly lockByIdForUpdate: jest.Mock<Promise<AccountEntity>, [number, EntityManager]>;
+  readonly updateAccount: jest.Mock<
+    Promise<void>,
+    [number, Partial<AccountEntity>, EntityManager?]
+  >;
+  readonly erasePersonalData: jest.Mock<
+    Promise<{ identities: string[]; thirdPartyBindings: number }>
+  >;
+};
+
+type RefreshTokenFamilyServiceMock = {
+  readonly revokeAllByAccountId: jest.Mock<Promise<number>>;
+};
+
+type AccountDataExportServiceMock = {
+  readonly removeAllByAccountId: jest.Mock<Promise<number>>;
+};
+
+type AiProviderCallRecordServiceMock = {
+  readonly clearNicknameSnapshotByAccountId: jest.Mock<Promise<number>>;
+};
+
+type StoredFileServiceMock = {
+  readonly releaseByAttachment: jest.Mock<Promise<number>>;
+};
+
+type MfaServiceMock = {
+  readonly removeAllByAccountId: jest.Mock<Promise<void>>;
+};
+
+type AuthSessionServiceMock = {
+  readonly clearDeviceInfoByAccountId: jest.Mock<Promise<void>>;
+};
+
+type NotificationServiceMock = {
+  readonly removeAllByRecipient: jest.Mock<Promise<number>>;
+};
+
+type CoachServiceMock = {
+  readonly findByAccountId: jest.Mock<Promise<CoachEntity | null>, [number, EntityManager?]>;
+};
+
+type CustomerServiceMock = {
+  readonly findByAccountId: jest.Mock<Promise<CustomerEntity | null>, [number, EntityManager?]>;
+};
+
+type LearnerServiceMock = {
+  readonly findIdsByAccountId: jest.Mock<Promise<number[]>>;
+  readonly findUnlinkedIdsByCustomerId: jest.Mock<Promise<number[]>>;
+};
+
+type LoggerMock = {
+  readonly setContext: jest.Mock<void, [string]>;
+  readonly info: jest.Mock;
+};
+
+describe('EraseAccountUsecase', () => {
+  let locked: Pick<AccountEntity, 'status' | 'deletionScheduledAt'>;
+  let manager: EntityManager;
+  let accountService: AccountServiceMock;
+  let refreshTokenFamilyService: RefreshTokenFamilyServiceMock;
+  let accountDataExportService: AccountDataExportServiceMock;
+  let aiProviderCallRecordService: AiProviderCallRecordServiceMock;
+  let storedFileService: StoredFileServiceMock;
+  let mfaService: MfaServiceMock;
+  let authSessionService: AuthSessionServiceMock;
+  let notificationService: NotificationServiceMock;
+  let coachService: CoachServiceMock;
+  let customerService: CustomerServiceMock;
+  let learnerService: LearnerServiceMock;
+  let logger: LoggerMock;
+  let usecase: EraseAccountUsecase;
+
+  beforeEach(() => {
+    locked = { status: AccountStatus.ACTIVE, deletionScheduledAt: null };
+    manager = {} as EntityManager;
+    accountService = {
+      runTransaction: jest.fn((callback) => callback(manager)),
+      lockByIdForUpdate: jest.fn((accountId: number, _manager: EntityManager) =>
+        Promise.resolve({ id: accountId, ...locked, tokenVersion: 3 } as AccountEntity),
+      ),
+      updateAccount: jest.fn().mockResolvedValue(undefined),
+      erasePersonalData: jest
+        .fn()
+        .mockResolvedValue({ identities: [IdentityTypeEnum.CUSTOMER], thirdPartyBindings: 1 }),
+    };
+    refreshTokenFamilyService = {
+      revokeAllByAccountId: jest.fn().mockResolvedValue(2),
+    };
+    accountDataExportService = {
+      removeAllByAccountId: jest.fn().mockResolvedValue(1),
+    };
+    aiProviderCallRecordService = {
+      clearNicknameSnapshotByAccountId: jest.fn().mockResolvedValue(4),
+    };
+    storedFileService = {
+      releaseByAttachment: jest.fn().mockResolvedValue(1),
+    };
+    mfaService = {
+      removeAllByAccountId: jest.fn().mockResolvedValue(undefined),
+    };
+    authSessionService = {
+      clearDeviceInfoByAccountId: jest.fn().mockResolvedValue(undefined),
+    };
+    notificationService = {
+      removeAllByRecipient: jest.fn().mockResolvedValue(3),
+    };
+    coachService = {
+      findByAccountId: jest.fn().mockResolvedValue({ id: 11 } as CoachEntity),
+    };
+    customerService = {
+      findByAccountId: jest.fn().mockResolvedValue({ id: 21 } as CustomerEntity),
+    };
+    learnerService = {
+      findIdsByAccountId: jest.fn().mockResolvedValue([31]),
+      findUnlinkedIdsByCustomerId: jest.fn().mockResolvedValue([32, 33]),
+    };
+    logger = {
+      setContext: jest.fn(),
+      info: jest.fn(),
+    };
+
+    usecase = new EraseAccountUsecase(
+      accountService as unknown as AccountService,
+      refreshTokenFamilyService as unknown as RefreshTokenFamilyService,
+      accountDataExportService as unknown as AccountDataExportService,
+      aiProviderCallRecordService as unknown as AiProviderCallRecordService,
+      storedFileService as unknown as StoredFileService,
+      mfaService as unknown as MfaService,
+      authSessionService as unknown as AuthSessionService,
+      notificationService as unknown as NotificationService,
+      coachService as unknown as CoachService,
+      customerService as unknown as CustomerService,
+      learnerService as unknown as LearnerService,
+      logger as unknown as PinoLogger,
+    );
+  });
+
+  it('在同一事务内清空登录凭证、匿名化个人数据并作废全部会话', async () => {
+    const result = await usecase.execute({
+      session: { accountId: 1, roles: [IdentityTypeEnum.ADMIN] },
+      accountId: 7,
+      reason: ' 家长申请 ',
+    });
+
+    expect(result).toEqual({
+      accountId: 7,
+      identities: [IdentityTypeEnum.CUSTOMER],
+      thirdPartyBindings: 1,
+      revokedSessions: 2,
+    });
+    expect(accountService.updateAccount).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({
+        loginName: null,
+        loginEmail: null,
+        status: AccountStatus.DELETED,
+        statusReason: '家长申请',
+        recentLoginHistory: null,
+        deletionScheduledAt: null,
+        tokenVersion: 4,
+      }),
+      manager,
+    );
+    expect(accountService.erasePersonalData).toHaveBeenCalledWith({ accountId: 7, manager });
+    expect(accountDataExportService.removeAllByAccountId).toHaveBeenCalledWith({
+      accountId: 7,
+      manager,
+    });
+    expect(aiProviderCallRecordService.clearNicknameSnapshotByAccountId).toHaveBeenCalledWith({
+      accountId: 7,
+      manager,
+    });
+    expect(storedFileService.releaseByAttachment).toHaveBeenCalledWith({
+      attachedType: StoredFileAttachmentType.USER_AVATAR,
+      attachedId: 7,
+      manager,
+    });
+    expect(refreshTokenFamilyService.revokeAllByAccountId).toHaveBeenCalledWith({
+      accountId: 7,
+      reason: RefreshTokenRevokeReason.ACCOUNT_ERASED,
+      manager,
+    });
+    expect(mfaService.removeAllByAccountId).toHaveBeenCalledWith({ accountId: 7, manager });
+    expect(authSessionService.clearDeviceInfoByAccountId).toHaveBeenCalledWith({
+      accountId: 7,
+      manager,
+    });
+    expect(notificationService.removeAllByRecipient).toHaveBeenCalledWith({
+      recipientAccountId: 7,
+      manager,
+    });
+  });
+
+  it('解除用户、教练档案与学员档案的头像引用', async () => {
+    await usecase.execute({
+      session: { accountId: 1, roles: [IdentityTypeEnum.ADMIN] },
+      accountId: 7,
+      reason: '家长申请',
+    });
+
+    expect(learnerService.findIdsByAccountId).toHaveBeenCalledWith({ accountId: 7, manager });
+    expect(learnerService.findUnlinkedIdsByCustomerId).toHaveBeenCalledWith({
+      customerId: 21,
+      manager,
+    });
+    expect(storedFileService.releaseByAttachment.mock.calls.map(([params]) => params)).toEqual([
+      { attachedType: StoredFileAttachmentType.USER_AVATAR, attachedId: 7, manager },
+      { attachedType: StoredFileAttachmentType.COACH_AVATAR, attachedId: 11, manager },
+      { attachedType: StoredFileAttachmentType.LEARNER_AVATAR, attachedId: 31, manager },
+      { attachedType: StoredFileAttachmentType.LEARNER_AVATAR, attachedId: 32, manager },
+      { attachedType: StoredFileAttachmentType.LEARNER_AVATAR, attachedId: 33, manager },
+    ]);
+  });
+
+  it('无教练与客户档案时只解除用户与本人学员档案的头像引用', async () => {
+    coachService.findByAccountId.mockResolvedValue(null);
+    customerService.findByAccountId.mockResolvedValue(null);
+    learnerService.findIdsByAccountId.mockResolvedValue([]);
+
+    await usecase.execute({
+      session: { accountId: 1, roles: [IdentityTypeEnum.ADMIN] },
+      accountId: 7,
+      reason: '家长申请',
+    });
+
+    expect(learnerService.findUnlinkedIdsByCustomerId).not.toHaveBeenCalled();
+    expect(storedFileService.releaseByAttachment).toHaveBeenCalledTimes(1);
+    expect(storedFileService.releaseByAttachment).toHaveBeenCalledWith({
+      attachedType: StoredFileAttachmentType.USER_AVATAR,
+      attachedId: 7,
+      manager,
+    });
+  });
+
+  it('拒绝非管理员、注销本人与已注销的账户', async () => {
+    locked = { status: AccountStatus.DELETED, deletionScheduledAt: null };
+    const session = { accountId: 1, roles: [IdentityTypeEnum.ADMIN] };
+
+    await expect(
+      usecase.execute({
+        session: { accountId: 2, roles: [IdentityTypeEnum.MANAGER] },
+        accountId: 7,
+        reason: '违规',
+      }),
+    ).rejects.toMatchObject({ code: PERMISSION_ERROR.INSUFFICIENT_PERMISSIONS });
+    await expect(
+      usecase.execute({ session, accountId: session.accountId, reason: '测试' }),
+    ).rejects.toMatchObject({ code: ACCOUNT_ERROR.DELETION_NOT_ALLOWED });
+    await expect(usecase.execute({ session, accountId: 7, reason: '测试' })).rejects.toMatchObject({
+      code: ACCOUNT_ERROR.DELETION_NOT_ALLOWED,
+    });
+    expect(accountService.updateAccount).not.toHaveBeenCalled();
+  });
+
+  it('到期注销在加锁后重新校验计划时间，已撤销或未到期的申请不执行', async () => {
+    const now = new Date('2026-03-01T00:00:00.000Z');
+
+    // 已撤销申请
+    await expect(usecase.eraseDue({ accountId: 7, now })).resolves.toBeNull();
+
+    locked = {
+      status: AccountStatus.ACTIVE,
+      deletionScheduledAt: new Date('2026-03-02T00:00:00.000Z'),
+    };
+    await expect(usecase.eraseDue({ accountId: 7, now })).resolves.toBeNull();
+    expect(accountService.updateAccount).not.toHaveBeenCalled();
+
+    locked = {
+      status: AccountStatus.ACTIVE,
+      deletionScheduledAt: new Date('2026-02-28T00:00:00.000Z'),
+    };
+    await expect(usecase.eraseDue({ accountId: 7, now })).resolves.toMatchObject({
+      accountId: 7,
+    });
+    expect(accountService.updateAccount).toHaveBeenCalledTimes(1);
+  });
+});
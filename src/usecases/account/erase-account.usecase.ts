@@ -0,0 +1,225 @@
+// src/usecases/account/erase-account.usecase.ts
+
+import { RefreshTokenRevokeReason } from '@app-types/auth/refresh-token.types';
+import { UsecaseSession } from '@app-types/auth/session.types';
+import { AccountStatus, IdentityTypeEnum } from '@app-types/models/account.types';
+import { StoredFileAttachmentType } from '@app-types/models/stored-file.types';
+import { hasRole } from '@core/account/policy/role-access.policy';
+import { ACCOUNT_ERROR, DomainError, PERMISSION_ERROR } from '@core/common/errors/domain-error';
+import { AuthSessionService } from '@modules/auth/services/auth-session.service';
+import { MfaService } from '@modules/auth/services/mfa.service';
+import { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { CoachService } from '@src/modules/account/identities/training/coach/coach.service';
+import { CustomerService } from '@src/modules/account/identities/training/customer/account-customer.service';
+import { LearnerService } from '@src/modules/account/identities/training/learner/account-learner.service';
+import { AccountDataExportService } from '@src/modules/account-data-export/account-data-export.service';
+import { AiProviderCallRecordService } from '@src/modules/ai-provider-call-record/ai-provider-call-record.service';
+import { NotificationService } from '@src/modules/notification/notification.service';
+import { StoredFileService } from '@src/modules/stored-file/stored-file.service';
+import { randomBytes } from 'crypto';
+import { PinoLogger } from 'nestjs-pino';
+import { EntityManager } from 'typeorm';
+import { normalizeEraseReason } from './erase-account.input.normalize';
+
+/** 冷静期满自动注销时写入的状态原因 */
+const SCHEDULED_ERASURE_REASON = '用户申请注销，冷静期已满';
+
+/**
+ * 管理员注销账户参数
+ */
+export interface EraseAccountParams {
+  session: UsecaseSession;
+  accountId: number;
+  /** 注销原因（必填） */
+  reason: string;
+}
+
+/**
+ * 注销账户结果
+ */
+export interface EraseAccountResult {
+  accountId: number;
+  /** 被匿名化的身份 */
+  identities: string[];
+  /** 删除的第三方登录绑定数 */
+  thirdPartyBindings: number;
+  /** 被作废的会话数 */
+  revokedSessions: number;
+}
+
+/**
+ * 注销账户用例（匿名化个人数据）
+ * 单个事务内完成：锁定账户 → 清空登录凭证并标记 DELETED → 匿名化用户信息与身份档案
+ * → 删除第三方绑定、数据导出、二次验证与站内通知 → 清除 AI 调用记录昵称快照与会话设备信息
+ * → 解除用户、教练与学员头像文件引用（由清理任务删除）→ 作废全部会话
+ * 账户行、身份行、AI 调用记录与会话行本身保留，业务数据的外键引用与审计不受影响；
+ * 代登录审计记录按审计数据原样保留
+ */
+@Injectable()
+export class EraseAccountUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly refreshTokenFamilyService: RefreshTokenFamilyService,
+    private readonly accountDataExportService: AccountDataExportService,
+    private readonly aiProviderCallRecordService: AiProviderCallRecordService,
+    private readonly storedFileService: StoredFileService,
+    private readonly mfaService: MfaService,
+    private readonly authSessionService: AuthSessionService,
+    private readonly notificationService: NotificationService,
+    private readonly coachService: CoachService,
+    private readonly customerService: CustomerService,
+    private readonly learnerService: LearnerService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(EraseAccountUsecase.name);
+  }
+
+  /**
+   * 管理员立即注销指定账户（仅 ADMIN，不能注销本人）
+   */
+  async execute(params: EraseAccountParams): Promise<EraseAccountResult> {
+    if (!hasRole(params.session.roles, IdentityTypeEnum.ADMIN)) {
+      throw new DomainError(PERMISSION_ERROR.INSUFFICIENT_PERMISSIONS, '仅管理员可注销账户');
+    }
+    if (params.accountId === params.session.accountId) {
+      throw new DomainError(ACCOUNT_ERROR.DELETION_NOT_ALLOWED, '不能注销当前登录账户');
+    }
+    const reason = normalizeEraseReason(params.reason);
+
+    const result = await this.erase({ accountId: params.accountId, reason });
+    if (!result) {
+      throw new DomainError(ACCOUNT_ERROR.DELETION_NOT_ALLOWED, '账户已注销', {
+        accountId: params.accountId,
+      });
+    }
+    this.logger.info(
+      { event: 'account_erased', actorAccountId: params.session.accountId, ...result },
+      '管理员注销账户',
+    );
+    return result;
+  }
+
+  /**
+   * 注销冷静期已满的账户（维护任务调用）
+   * 加锁后重新校验计划时间，期间已撤销申请的账户返回 null
+   */
+  async eraseDue(params: { accountId: number; now: Date }): Promise<EraseAccountResult | null> {
+    const result = await this.erase({
+      accountId: params.accountId,
+      reason: SCHEDULED_ERASURE_REASON,
+      dueBefore: params.now,
+    });
+    if (result) {
+      this.logger.info({ event: 'account_erased_scheduled', ...result }, '冷静期满，账户已注销');
+    }
+    return result;
+  }
+
+  /**
+   * 在事务内注销单个账户
+   * @returns 已注销或（指定 dueBefore 时）未到期的账户返回 null
+   */
+  private async erase(params: {
+    accountId: number;
+    reason: string;
+    dueBefore?: Date;
+  }): Promise<EraseAccountResult | null> {
+    const { accountId } = params;
+    return await this.accountService.runTransaction(async (manager) => {
+      const locked = await this.accountService.lockByIdForUpdate(accountId, manager);
+      if (locked.status === AccountStatus.DELETED) {
+        return null;
+      }
+      if (
+        params.dueBefore &&
+        (!locked.deletionScheduledAt || locked.deletionScheduledAt > params.dueBefore)
+      ) {
+        return null;
+      }
+
+      const now = new Date();
+      await this.accountService.updateAccount(
+        accountId,
+        {
+          loginName: null,
+          loginEmail: null,
+          // 随机口令的哈希，任何输入都无法再通过密码校验
+          loginPassword: await AccountService.hashPassword(randomBytes(32).toString('hex')),
+          status: AccountStatus.DELETED,
+          statusReason: params.reason,
+          statusChangedAt: now,
+          deletionScheduledAt: null,
+          recentLoginHistory: null,
+          lastLoginAt: null,
+          tokenVersion: locked.tokenVersion + 1,
+          updatedAt: now,
+        },
+        manager,
+      );
+      const erased = await this.accountService.erasePersonalData({ accountId, manager });
+      await this.accountDataExportService.removeAllByAccountId({ accountId, manager });
+      await this.mfaService.removeAllByAccountId({ accountId, manager });
+      await this.notificationService.removeAllByRecipient({
+        recipientAccountId: accountId,
+        manager,
+      });
+      await this.aiProviderCallRecordService.clearNicknameSnapshotByAccountId({
+        accountId,
+        manager,
+      });
+      await this.releaseAvatars({ accountId, manager });
+      const revokedSessions = await this.refreshTokenFamilyService.revokeAllByAccountId({
+        accountId,
+        reason: RefreshTokenRevokeReason.ACCOUNT_ERASED,
+        manager,
+      });
+      await this.authSessionService.clearDeviceInfoByAccountId({ accountId, manager });
+      return { accountId, ...erased, revokedSessions };
+    });
+  }
+
+  /**
+   * 解除随账户匿名化的头像文件引用：用户头像、教练档案头像，
+   * 以及学员档案头像（账户本人的学员档案与其客户档案名下未关联账户的学员）
+   */
+  private async releaseAvatars(params: {
+    accountId: number;
+    manager: EntityManager;
+  }): Promise<void> {
+    const { accountId, manager } = params;
+    await this.storedFileService.releaseByAttachment({
+      attachedType: StoredFileAttachmentType.USER_AVATAR,
+      attachedId: accountId,
+      manager,
+    });
+
+    const coach = await this.coachService.findByAccountId(accountId, manager);
+    if (coach) {
+      await this.storedFileService.releaseByAttachment({
+        attachedType: StoredFileAttachmentType.COACH_AVATAR,
+        attachedId: coach.id,
+        manager,
+      });
+    }
+
+    const customer = await this.customerService.findByAccountId(accountId, manager);
+    const learnerIds = [
+      ...(await this.learnerService.findIdsByAccountId({ accountId, manager })),
+      ...(customer
+        ? await this.learnerService.findUnlinkedIdsByCustomerId({
+            customerId: customer.id,
+            manager,
+          })
+        : []),
+    ];
+    for (const learnerId of learnerIds) {
+      await this.storedFileService.releaseByAttachment({
+        attachedType: StoredFileAttachmentType.LEARNER_AVATAR,
+        attachedId: learnerId,
+        manager,
+      });
+    }
+  }
+}
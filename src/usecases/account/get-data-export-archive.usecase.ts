@@ -0,0 +1,39 @@
+// src/usecases/account/get-data-export-archive.usecase.ts
+
+import { UsecaseSession } from '@app-types/auth/session.types';
+import {
+  AccountDataExportStatus,
+  AccountDataExportView,
+} from '@app-types/models/account-lifecycle.types';
+import { ACCOUNT_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { AccountDataExportService } from '@src/modules/account-data-export/account-data-export.service';
+
+/**
+ * 按下载令牌读取个人数据归档用例
+ * 令牌只能由导出记录所属账户本人使用；令牌无效、已过期或不属于当前账户时统一返回 NOT_FOUND
+ */
+@Injectable()
+export class GetDataExportArchiveUsecase {
+  constructor(private readonly accountDataExportService: AccountDataExportService) {}
+
+  /**
+   * @returns 导出记录与 JSON 归档字符串
+   */
+  async execute(params: {
+    session: UsecaseSession;
+    token: string;
+  }): Promise<{ record: AccountDataExportView; archive: string }> {
+    const found = await this.accountDataExportService.findArchiveByToken(params.token);
+    if (
+      !found?.archive ||
+      found.record.accountId !== params.session.accountId ||
+      found.record.status !== AccountDataExportStatus.READY ||
+      !found.record.expiresAt ||
+      found.record.expiresAt.getTime() <= Date.now()
+    ) {
+      throw new DomainError(ACCOUNT_ERROR.DATA_EXPORT_NOT_FOUND, '下载链接无效或已过期');
+    }
+    return { record: found.record, archive: found.archive };
+  }
+}
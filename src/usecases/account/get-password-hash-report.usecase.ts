@@ -0,0 +1,20 @@
+// src/usecases/account/get-password-hash-report.usecase.ts
+import { PasswordHashReportView } from '@app-types/auth/password.types';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+
+/**
+ * 密码哈希迁移进度报告用例
+ * 统计仍使用老方案（PBKDF2）的账户数量
+ */
+@Injectable()
+export class GetPasswordHashReportUsecase {
+  constructor(private readonly accountService: AccountService) {}
+
+  /**
+   * 获取密码哈希方案分布
+   */
+  async execute(): Promise<PasswordHashReportView> {
+    return await this.accountService.getPasswordHashReport();
+  }
+}
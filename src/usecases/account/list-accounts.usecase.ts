@@ -0,0 +1,67 @@
+// src/usecases/account/list-accounts.usecase.ts
+
+import { UsecaseSession } from '@app-types/auth/session.types';
+import {
+  AccountDirectoryFilters,
+  AccountDirectoryItemView,
+  AccountDirectorySortField,
+  IdentityTypeEnum,
+} from '@app-types/models/account.types';
+import { hasRole } from '@core/account/policy/role-access.policy';
+import { DomainError, PERMISSION_ERROR } from '@core/common/errors/domain-error';
+import { normalizeOptionalText } from '@core/common/input-normalize/input-normalize.policy';
+import { Injectable } from '@nestjs/common';
+import { AccountDirectoryQueryService } from '@src/modules/account/queries/account-directory.query.service';
+
+/**
+ * 管理端账户目录查询参数
+ */
+export interface ListAccountsUsecaseParams {
+  session: UsecaseSession;
+  filters: AccountDirectoryFilters;
+  page: number;
+  limit: number;
+  sortBy?: AccountDirectorySortField;
+  sortOrder?: 'ASC' | 'DESC';
+}
+
+/**
+ * 管理端账户目录查询结果
+ */
+export interface ListAccountsUsecaseResult {
+  items: AccountDirectoryItemView[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+/**
+ * 管理端账户目录用例（仅 ADMIN）
+ * 支持按状态、访问组、身份提示、创建 / 最近登录时间区间筛选，以及登录名 / 邮箱 / 昵称模糊搜索
+ */
+@Injectable()
+export class ListAccountsUsecase {
+  constructor(private readonly accountDirectoryQueryService: AccountDirectoryQueryService) {}
+
+  /**
+   * 执行账户目录查询
+   * @param params 查询参数
+   */
+  async execute(params: ListAccountsUsecaseParams): Promise<ListAccountsUsecaseResult> {
+    if (!hasRole(params.session.roles, IdentityTypeEnum.ADMIN)) {
+      throw new DomainError(PERMISSION_ERROR.INSUFFICIENT_PERMISSIONS, '仅管理员可查看账户目录');
+    }
+
+    const query = normalizeOptionalText(params.filters.query, 'to_undefined', {
+      fieldName: '搜索关键字',
+    });
+    return await this.accountDirectoryQueryService.search({
+      filters: { ...params.filters, query: query ?? undefined },
+      page: params.page,
+      limit: params.limit,
+      sortBy: params.sortBy,
+      sortOrder: params.sortOrder,
+    });
+  }
+}
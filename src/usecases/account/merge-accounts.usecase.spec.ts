@@ -0,0 +1,315 @@
+// src/usecases/account/merge-accounts.usecase.spec.ts
+import { RefreshTokenRevokeReason } from '@app-types/auth/refresh-token.types';
+import type { JwtPayload } from '@app-types/jwt.types';
+import {
+  AccountStatus,
+  IdentityTypeEnum,
+  ThirdPartyProviderEnum,
+} from '@app-types/models/account.types';
+import { AccountMergeConflictScope } from '@app-types/models/account-merge.types';
+import { ACCOUNT_ERROR, PERMISSION_ERROR } from '@core/common/errors/domain-error';
+import type { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import type { TokenRevocationService } from '@modules/auth/services/token-revocation.service';
+import type { TokenHelper } from '@modules/auth/token.helper';
+import type { UserInfoEntity } from '@src/modules/account/base/entities/user-info.entity';
+import type { AccountService } from '@src/modules/account/base/services/account.service';
+import type { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import type { PinoLogger } from 'nestjs-pino';
+import type { EntityManager } from 'typeorm';
+import { MergeAccountsUsecase } from './merge-accounts.usecase';
+
+type AccountRow = {
+  id: number;
+  status: AccountStatus;
+  loginName: string | null;
+  loginEmail: string | null;
+  loginPassword: string;
+  tokenVersion: number;
+  identityHint: string | null;
+};
+
+type AccountServiceMock = {
+  readonly runTransaction: jest.Mock<
+    Promise<unknown>,
+    [(manager: EntityManager) => Promise<unknown>]
+  >;
+  readonly lockByIdForUpdate: jest.Mock<Promise<AccountRow | undefined>, [number, EntityManager]>;
+  readonly findUserInfoByAccountId: jest.Mock<Promise<UserInfoEntity | null>>;
+  readonly transferThirdPartyBindings: jest.Mock<
+    Promise<{ moved: number; conflicts: ThirdPartyProviderEnum[] }>
+  >;
+  readonly transferIdentityProfiles: jest.Mock<
+    Promise<{
+      identities: Array<{ identity: string; moved: number }>;
+      conflicts: Array<{ identity: string; reason: string }>;
+    }>
+  >;
+  readonly updateUserInfoAccessGroup: jest.Mock<Promise<{ isUpdated: boolean }>>;
+  readonly updateAccount: jest.Mock<Promise<void>>;
+};
+
+type RefreshTokenFamilyServiceMock = {
+  readonly revokeAllByAccountId: jest.Mock<Promise<number>>;
+};
+
+type TokenHelperMock = {
+  readonly verifyToken: jest.Mock<Partial<JwtPayload>, [{ token: string }]>;
+};
+
+type TokenRevocationServiceMock = {
+  readonly isAccessTokenRevoked: jest.Mock<Promise<boolean>>;
+  readonly isSessionRevoked: jest.Mock<Promise<boolean>>;
+};
+
+type VerificationRecordServiceMock = {
+  readonly reassignAccount: jest.Mock<Promise<number>>;
+};
+
+type AsyncTaskRecordServiceMock = {
+  readonly reassignActor: jest.Mock<Promise<number>>;
+};
+
+type LoggerMock = {
+  readonly setContext: jest.Mock<void, [string]>;
+  readonly info: jest.Mock;
+};
+
+describe('MergeAccountsUsecase', () => {
+  let accounts: Map<number, AccountRow>;
+  let accessGroups: Map<number, IdentityTypeEnum[]>;
+  let manager: EntityManager;
+  let accountService: AccountServiceMock;
+  let refreshTokenFamilyService: RefreshTokenFamilyServiceMock;
+  let tokenHelper: TokenHelperMock;
+  let tokenRevocationService: TokenRevocationServiceMock;
+  let verificationRecordService: VerificationRecordServiceMock;
+  let asyncTaskRecordService: AsyncTaskRecordServiceMock;
+  let logger: LoggerMock;
+  let usecase: MergeAccountsUsecase;
+
+  beforeEach(() => {
+    accounts = new Map([
+      [
+        7,
+        {
+          id: 7,
+          status: AccountStatus.ACTIVE,
+          loginName: 'mom',
+          loginEmail: 'mom@example.com',
+          loginPassword: '$scrypt$N=32768,r=8,p=1$c2FsdA==$aGFzaA==',
+          tokenVersion: 2,
+          identityHint: IdentityTypeEnum.CUSTOMER,
+        },
+      ],
+      [
+        9,
+        {
+          id: 9,
+          status: AccountStatus.ACTIVE,
+          loginName: null,
+          loginEmail: null,
+          loginPassword: 'weapp',
+          tokenVersion: 5,
+          identityHint: IdentityTypeEnum.REGISTRANT,
+        },
+      ],
+    ]);
+    accessGroups = new Map([
+      [7, [IdentityTypeEnum.CUSTOMER]],
+      [9, [IdentityTypeEnum.REGISTRANT]],
+    ]);
+    manager = {} as EntityManager;
+    accountService = {
+      runTransaction: jest.fn((callback) => callback(manager)),
+      lockByIdForUpdate: jest.fn((accountId: number, _manager: EntityManager) =>
+        Promise.resolve(accounts.get(accountId)),
+      ),
+      findUserInfoByAccountId: jest.fn((accountId: number) =>
+        Promise.resolve({ accountId, accessGroup: accessGroups.get(accountId) } as UserInfoEntity),
+      ),
+      transferThirdPartyBindings: jest.fn().mockResolvedValue({ moved: 1, conflicts: [] }),
+      transferIdentityProfiles: jest.fn().mockResolvedValue({
+        identities: [{ identity: 'CUSTOMER', moved: 1 }],
+        conflicts: [],
+      }),
+      updateUserInfoAccessGroup: jest.fn().mockResolvedValue({ isUpdated: true }),
+      updateAccount: jest.fn().mockResolvedValue(undefined),
+    };
+    refreshTokenFamilyService = {
+      revokeAllByAccountId: jest.fn().mockResolvedValue(3),
+    };
+    tokenHelper = {
+      verifyToken: jest.fn(),
+    };
+    tokenRevocationService = {
+      isAccessTokenRevoked: jest.fn().mockResolvedValue(false),
+      isSessionRevoked: jest.fn().mockResolvedValue(false),
+    };
+    verificationRecordService = {
+      reassignAccount: jest.fn().mockResolvedValue(2),
+    };
+    asyncTaskRecordService = {
+      reassignActor: jest.fn().mockResolvedValue(4),
+    };
+    logger = {
+      setContext: jest.fn(),
+      info: jest.fn(),
+    };
+
+    usecase = new MergeAccountsUsecase(
+      accountService as unknown as AccountService,
+      refreshTokenFamilyService as unknown as RefreshTokenFamilyService,
+      tokenHelper as unknown as TokenHelper,
+      tokenRevocationService as unknown as TokenRevocationService,
+      verificationRecordService as unknown as VerificationRecordService,
+      asyncTaskRecordService as unknown as AsyncTaskRecordService,
+      logger as unknown as PinoLogger,
+    );
+  });
+
+  it('预检只返回冲突与影响范围，不写入任何数据', async () => {
+    accountService.transferThirdPartyBindings.mockResolvedValue({
+      moved: 1,
+      conflicts: [ThirdPartyProviderEnum.WEAPP],
+    });
+
+    const report = await usecase.execute({
+      session: { accountId: 1, roles: [IdentityTypeEnum.ADMIN] },
+      sourceAccountId: 7,
+      targetAccountId: 9,
+      dryRun: true,
+    });
+
+    expect(report).toMatchObject({
+      dryRun: true,
+      conflicts: [
+        {
+          scope: AccountMergeConflictScope.THIRD_PARTY_BINDING,
+          key: ThirdPartyProviderEnum.WEAPP,
+        },
+      ],
+      verificationRecords: 2,
+      asyncTaskRecords: 4,
+      accessGroup: [IdentityTypeEnum.CUSTOMER],
+      revokedSessions: 0,
+    });
+    expect(accountService.transferThirdPartyBindings).toHaveBeenCalledTimes(1);
+    expect(accountService.transferThirdPartyBindings).toHaveBeenCalledWith(
+      expect.objectContaining({ dryRun: true }),
+    );
+    expect(accountService.updateAccount).not.toHaveBeenCalled();
+    expect(refreshTokenFamilyService.revokeAllByAccountId).not.toHaveBeenCalled();
+  });
+
+  it('存在冲突时拒绝执行合并', async () => {
+    accountService.transferThirdPartyBindings.mockResolvedValue({
+      moved: 1,
+      conflicts: [ThirdPartyProviderEnum.WEAPP],
+    });
+
+    await expect(
+      usecase.execute({
+        session: { accountId: 1, roles: [IdentityTypeEnum.ADMIN] },
+        sourceAccountId: 7,
+        targetAccountId: 9,
+        dryRun: false,
+      }),
+    ).rejects.toMatchObject({ code: ACCOUNT_ERROR.MERGE_CONFLICT });
+    expect(accountService.transferThirdPartyBindings).toHaveBeenCalledTimes(1);
+    expect(accountService.updateAccount).not.toHaveBeenCalled();
+  });
+
+  it('合并后源账户注销并指向目标账户，目标账户合并访问组并接管登录凭证', async () => {
+    const source = accounts.get(7)!;
+
+    const report = await usecase.execute({
+      session: { accountId: 1, roles: [IdentityTypeEnum.ADMIN] },
+      sourceAccountId: 7,
+      targetAccountId: 9,
+      dryRun: false,
+    });
+
+    expect(report).toMatchObject({
+      dryRun: false,
+      conflicts: [],
+      credentialsMoved: true,
+      accessGroup: [IdentityTypeEnum.CUSTOMER],
+      identityHint: IdentityTypeEnum.CUSTOMER,
+      revokedSessions: 3,
+    });
+    expect(accountService.updateUserInfoAccessGroup).toHaveBeenCalledWith({
+      accountId: 9,
+      accessGroup: [IdentityTypeEnum.CUSTOMER],
+      manager,
+    });
+    expect(accountService.updateAccount).toHaveBeenNthCalledWith(
+      1,
+      7,
+      expect.objectContaining({
+        loginName: null,
+        loginEmail: null,
+        status: AccountStatus.DELETED,
+        mergedIntoAccountId: 9,
+        tokenVersion: 3,
+      }),
+      manager,
+    );
+    expect(accountService.updateAccount).toHaveBeenNthCalledWith(
+      2,
+      9,
+      expect.objectContaining({
+        identityHint: IdentityTypeEnum.CUSTOMER,
+        loginName: 'mom',
+        loginEmail: 'mom@example.com',
+        loginPassword: source.loginPassword,
+      }),
+      manager,
+    );
+    expect(refreshTokenFamilyService.revokeAllByAccountId).toHaveBeenCalledWith({
+      accountId: 7,
+      reason: RefreshTokenRevokeReason.ACCOUNT_MERGED,
+      manager,
+    });
+  });
+
+  it('拒绝非管理员、合并到自身与已注销的账户', async () => {
+    const session = { accountId: 1, roles: [IdentityTypeEnum.ADMIN] };
+
+    await expect(
+      usecase.execute({
+        session: { accountId: 2, roles: [IdentityTypeEnum.MANAGER] },
+        sourceAccountId: 7,
+        targetAccountId: 9,
+        dryRun: true,
+      }),
+    ).rejects.toMatchObject({ code: PERMISSION_ERROR.INSUFFICIENT_PERMISSIONS });
+    await expect(
+      usecase.execute({ session, sourceAccountId: 7, targetAccountId: 7, dryRun: true }),
+    ).rejects.toMatchObject({ code: ACCOUNT_ERROR.MERGE_NOT_ALLOWED });
+
+    accounts.get(7)!.status = AccountStatus.DELETED;
+    await expect(
+      usecase.execute({ session, sourceAccountId: 7, targetAccountId: 9, dryRun: true }),
+    ).rejects.toMatchObject({ code: ACCOUNT_ERROR.MERGE_NOT_ALLOWED });
+  });
+
+  it('本人合并需提供源账户仍有效的 access token', async () => {
+    const session = { accountId: 9, roles: [IdentityTypeEnum.REGISTRANT] };
+
+    tokenHelper.verifyToken.mockReturnValue({ sub: 7, type: 'refresh', tokenVersion: 2 });
+    await expect(
+      usecase.executeForSelf({ session, sourceAccessToken: 'refresh', dryRun: true }),
+    ).rejects.toMatchObject({ code: ACCOUNT_ERROR.MERGE_NOT_ALLOWED });
+
+    tokenHelper.verifyToken.mockReturnValue({ sub: 7, type: 'access', tokenVersion: 1 });
+    await expect(
+      usecase.executeForSelf({ session, sourceAccessToken: 'stale', dryRun: true }),
+    ).rejects.toMatchObject({ code: ACCOUNT_ERROR.MERGE_NOT_ALLOWED });
+
+    tokenHelper.verifyToken.mockReturnValue({ sub: 7, type: 'access', tokenVersion: 2 });
+    await expect(
+      usecase.executeForSelf({ session, sourceAccessToken: 'valid', dryRun: true }),
+    ).resolves.toMatchObject({ sourceAccountId: 7, targetAccountId: 9, dryRun: true });
+  });
+});
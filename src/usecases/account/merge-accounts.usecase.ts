@@ -0,0 +1,314 @@
+// src/usecases/account/merge-accounts.usecase.ts
+
+import { PasswordHashScheme } from '@app-types/auth/password.types';
+import { RefreshTokenRevokeReason } from '@app-types/auth/refresh-token.types';
+import { UsecaseSession } from '@app-types/auth/session.types';
+import { AccountStatus, IdentityTypeEnum } from '@app-types/models/account.types';
+import {
+  AccountMergeConflict,
+  AccountMergeConflictScope,
+  AccountMergeReport,
+} from '@app-types/models/account-merge.types';
+import {
+  mergeAccessGroups,
+  resolveMergedIdentityHint,
+} from '@core/account/policy/account-merge.policy';
+import { hasRole } from '@core/account/policy/role-access.policy';
+import { ACCOUNT_ERROR, DomainError, PERMISSION_ERROR } from '@core/common/errors/domain-error';
+import { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import { TokenRevocationService } from '@modules/auth/services/token-revocation.service';
+import { TokenHelper } from '@modules/auth/token.helper';
+import { PasswordHashHelper } from '@modules/common/password/password-hash.helper';
+import { Injectable } from '@nestjs/common';
+import { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { randomBytes } from 'crypto';
+import { PinoLogger } from 'nestjs-pino';
+import { EntityManager } from 'typeorm';
+
+/**
+ * 管理员合并账户参数
+ */
+export interface MergeAccountsParams {
+  session: UsecaseSession;
+  /** 被合并（合并后注销）的账户 */
+  sourceAccountId: number;
+  /** 保留的账户 */
+  targetAccountId: number;
+  /** 仅预检冲突与影响范围，不写入 */
+  dryRun: boolean;
+}
+
+/**
+ * 本人合并账户参数（当前登录账户为目标账户）
+ */
+export interface MergeOwnAccountParams {
+  session: UsecaseSession;
+  /** 源账户的 access token，证明当前用户同时控制源账户 */
+  sourceAccessToken: string;
+  dryRun: boolean;
+}
+
+/**
+ * 合并账户用例
+ * 将重复注册的源账户（如邮箱注册与小程序注册各一个）并入目标账户，单个事务内完成：
+ * 锁定双方账户 → 预检冲突 → 迁移第三方绑定、身份档案、验证记录与异步任务归属
+ * → 合并访问组与身份提示 → 源账户标记 DELETED 并指向目标账户 → 作废源账户全部会话
+ * 存在冲突时不执行合并；dryRun 只返回预检报告
+ */
+@Injectable()
+export class MergeAccountsUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly refreshTokenFamilyService: RefreshTokenFamilyService,
+    private readonly tokenHelper: TokenHelper,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly asyncTaskRecordService: AsyncTaskRecordService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(MergeAccountsUsecase.name);
+  }
+
+  /**
+   * 管理员合并任意两个账户（仅 ADMIN）
+   */
+  async execute(params: MergeAccountsParams): Promise<AccountMergeReport> {
+    if (!hasRole(params.session.roles, IdentityTypeEnum.ADMIN)) {
+      throw new DomainError(PERMISSION_ERROR.INSUFFICIENT_PERMISSIONS, '仅管理员可合并账户');
+    }
+
+    const report = await this.merge({
+      sourceAccountId: params.sourceAccountId,
+      targetAccountId: params.targetAccountId,
+      dryRun: params.dryRun,
+    });
+    if (!report.dryRun) {
+      this.logger.info(
+        { event: 'account_merged', actorAccountId: params.session.accountId, ...report },
+        '管理员合并账户',
+      );
+    }
+    return report;
+  }
+
+  /**
+   * 本人将另一个账户并入当前账户
+   * 需提供源账户仍有效的 access token（如在小程序内登录后取得），证明同时控制两个账户
+   */
+  async executeForSelf(params: MergeOwnAccountParams): Promise<AccountMergeReport> {
+    const proof = await this.verifySourceToken(params.sourceAccessToken);
+    const report = await this.merge({
+      sourceAccountId: proof.accountId,
+      targetAccountId: params.session.accountId,
+      dryRun: params.dryRun,
+      sourceTokenVersion: proof.tokenVersion,
+    });
+    if (!report.dryRun) {
+      this.logger.info({ event: 'account_merged_by_owner', ...report }, '用户合并本人账户');
+    }
+    return report;
+  }
+
+  /**
+   * 校验源账户令牌：必须是未注销的本人 access token（代登录令牌不可用于合并）
+   */
+  private async verifySourceToken(
+    token: string,
+  ): Promise<{ accountId: number; tokenVersion?: number }> {
+    // 签名 / 过期错误由 TokenHelper 统一映射为 JWT_ERROR
+    const payload = this.tokenHelper.verifyToken({ token });
+    if (payload.type !== 'access' || payload.impersonatorId !== undefined) {
+      throw new DomainError(ACCOUNT_ERROR.MERGE_NOT_ALLOWED, '源账户令牌无效');
+    }
+    const revoked =
+      (payload.jti && (await this.tokenRevocationService.isAccessTokenRevoked(payload.jti))) ||
+      (payload.fid && (await this.tokenRevocationService.isSessionRevoked(payload.fid)));
+    if (revoked) {
+      throw new DomainError(ACCOUNT_ERROR.MERGE_NOT_ALLOWED, '源账户令牌已失效，请重新登录');
+    }
+    return { accountId: payload.sub, tokenVersion: payload.tokenVersion };
+  }
+
+  /**
+   * 在事务内预检并（非 dryRun 时）执行合并
+   */
+  private async merge(params: {
+    sourceAccountId: number;
+    targetAccountId: number;
+    dryRun: boolean;
+    sourceTokenVersion?: number;
+  }): Promise<AccountMergeReport> {
+    const { sourceAccountId, targetAccountId, dryRun } = params;
+    if (sourceAccountId === targetAccountId) {
+      throw new DomainError(ACCOUNT_ERROR.MERGE_NOT_ALLOWED, '不能将账户合并到自身');
+    }
+
+    return await this.accountService.runTransaction(async (manager) => {
+      // 按 ID 升序加锁，避免两个方向的并发合并互相等待
+      const locked = new Map<number, AccountEntity>();
+      for (const accountId of [sourceAccountId, targetAccountId].sort((a, b) => a - b)) {
+        locked.set(accountId, await this.accountService.lockByIdForUpdate(accountId, manager));
+      }
+      const source = locked.get(sourceAccountId)!;
+      const target = locked.get(targetAccountId)!;
+      for (const account of [source, target]) {
+        if (account.status === AccountStatus.DELETED) {
+          throw new DomainError(ACCOUNT_ERROR.MERGE_NOT_ALLOWED, '账户已注销，无法合并', {
+            accountId: account.id,
+          });
+        }
+      }
+      if (
+        params.sourceTokenVersion !== undefined &&
+        params.sourceTokenVersion !== source.tokenVersion
+      ) {
+        throw new DomainError(ACCOUNT_ERROR.MERGE_NOT_ALLOWED, '源账户令牌已失效，请重新登录');
+      }
+
+      const plan = await this.transfer({ source, target, manager, dryRun: true });
+      if (dryRun) {
+        return plan;
+      }
+      if (plan.conflicts.length > 0) {
+        throw new DomainError(ACCOUNT_ERROR.MERGE_CONFLICT, '账户存在合并冲突，请先处理', {
+          conflicts: plan.conflicts,
+        });
+      }
+
+      const report = await this.transfer({ source, target, manager, dryRun: false });
+      await this.accountService.updateUserInfoAccessGroup({
+        accountId: target.id,
+        accessGroup: report.accessGroup,
+        manager,
+      });
+
+      const now = new Date();
+      await this.accountService.updateAccount(
+        source.id,
+        {
+          loginName: null,
+          loginEmail: null,
+          // 随机口令的哈希，任何输入都无法再通过密码校验
+          loginPassword: await AccountService.hashPassword(randomBytes(32).toString('hex')),
+          status: AccountStatus.DELETED,
+          statusReason: `已合并至账户 #${target.id}`,
+          statusChangedAt: now,
+          deletionRequestedAt: null,
+          deletionScheduledAt: null,
+          mergedIntoAccountId: target.id,
+          tokenVersion: source.tokenVersion + 1,
+          updatedAt: now,
+        },
+        manager,
+      );
+      // 源账户登录凭证须先释放，再写入目标账户（登录名 / 登录邮箱唯一）
+      await this.accountService.updateAccount(
+        target.id,
+        {
+          identityHint: report.identityHint,
+          ...(report.credentialsMoved
+            ? {
+                loginName: source.loginName,
+                loginEmail: source.loginEmail,
+                loginPassword: source.loginPassword,
+              }
+            : {}),
+          updatedAt: now,
+        },
+        manager,
+      );
+
+      const revokedSessions = await this.refreshTokenFamilyService.revokeAllByAccountId({
+        accountId: source.id,
+        reason: RefreshTokenRevokeReason.ACCOUNT_MERGED,
+        manager,
+      });
+      return { ...report, revokedSessions };
+    });
+  }
+
+  /**
+   * 统计（dryRun）或迁移源账户关联的数据，并计算合并后的访问组
+   */
+  private async transfer(params: {
+    source: AccountEntity;
+    target: AccountEntity;
+    manager: EntityManager;
+    dryRun: boolean;
+  }): Promise<AccountMergeReport> {
+    const { source, target, manager, dryRun } = params;
+    const scope = { sourceAccountId: source.id, targetAccountId: target.id, manager, dryRun };
+
+    const bindings = await this.accountService.transferThirdPartyBindings(scope);
+    const profiles = await this.accountService.transferIdentityProfiles(scope);
+    const conflicts: AccountMergeConflict[] = [
+      ...bindings.conflicts.map((provider) => ({
+        scope: AccountMergeConflictScope.THIRD_PARTY_BINDING,
+        key: provider,
+        reason: `两个账户均已绑定 ${provider}`,
+      })),
+      ...profiles.conflicts.map((conflict) => ({
+        scope: AccountMergeConflictScope.IDENTITY,
+        key: conflict.identity,
+        reason: conflict.reason,
+      })),
+    ];
+    const verificationRecords = await this.verificationRecordService.reassignAccount({
+      fromAccountId: source.id,
+      toAccountId: target.id,
+      manager,
+      dryRun,
+    });
+    const asyncTaskRecords = await this.asyncTaskRecordService.reassignActor({
+      fromAccountId: source.id,
+      toAccountId: target.id,
+      manager,
+      dryRun,
+    });
+
+    const [sourceInfo, targetInfo] = await Promise.all([
+      this.accountService.findUserInfoByAccountId(source.id, manager),
+      this.accountService.findUserInfoByAccountId(target.id, manager),
+    ]);
+    if (!targetInfo) {
+      throw new DomainError(ACCOUNT_ERROR.USER_INFO_NOT_FOUND, '用户信息不存在', {
+        accountId: target.id,
+      });
+    }
+    const accessGroup = mergeAccessGroups(
+      targetInfo.accessGroup ?? [],
+      sourceInfo?.accessGroup ?? [],
+    );
+
+    return {
+      sourceAccountId: source.id,
+      targetAccountId: target.id,
+      dryRun,
+      conflicts,
+      identities: profiles.identities,
+      thirdPartyBindings: bindings.moved,
+      verificationRecords,
+      asyncTaskRecords,
+      credentialsMoved: this.canMoveCredentials(source, target),
+      accessGroup,
+      identityHint: resolveMergedIdentityHint(target.identityHint, accessGroup),
+      revokedSessions: 0,
+    };
+  }
+
+  /**
+   * 目标账户没有任何登录凭证（如小程序注册）时接管源账户的登录名 / 登录邮箱与密码
+   * 老方案哈希以账户创建时间为盐，迁移后无法校验，此时不迁移
+   */
+  private canMoveCredentials(source: AccountEntity, target: AccountEntity): boolean {
+    return (
+      !target.loginName &&
+      !target.loginEmail &&
+      Boolean(source.loginName || source.loginEmail) &&
+      PasswordHashHelper.getScheme(source.loginPassword) === PasswordHashScheme.SCRYPT
+    );
+  }
+}
@@ -0,0 +1,179 @@
+// src/usecases/account/request-account-deletion.usecase.ts
+
+import { UsecaseSession } from '@app-types/auth/session.types';
+import { AccountStatus } from '@app-types/models/account.types';
+import {
+  ACCOUNT_DELETION_EMAIL_TEMPLATE,
+  AccountDeletionConfig,
+  AccountDeletionView,
+} from '@app-types/models/account-lifecycle.types';
+import { NotificationCategory } from '@app-types/models/notification.types';
+import { ACCOUNT_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { NotificationService } from '@src/modules/notification/notification.service';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 申请 / 撤销账户注销用例（本人操作）
+ * 申请后进入冷静期，期间账户可正常登录并撤销申请；期满后由维护任务执行匿名化
+ */
+@Injectable()
+export class RequestAccountDeletionUsecase {
+  private readonly config: AccountDeletionConfig;
+
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly notificationService: NotificationService,
+    private readonly queueEmailUsecase: QueueEmailUsecase,
+    private readonly logger: PinoLogger,
+    configService: ConfigService,
+  ) {
+    this.logger.setContext(RequestAccountDeletionUsecase.name);
+    this.config = configService.get<AccountDeletionConfig>('accountDeletion') ?? {
+      graceDays: 14,
+      sweepEnabled: true,
+      sweepEverySeconds: 3600,
+      batchSize: 50,
+    };
+  }
+
+  /**
+   * 申请注销当前账户
+   * @returns 申请时间与计划注销时间
+   */
+  async execute(params: { session: UsecaseSession }): Promise<AccountDeletionView> {
+    const accountId = params.session.accountId;
+    const view = await this.accountService.runTransaction(async (manager) => {
+      const locked = await this.accountService.lockByIdForUpdate(accountId, manager);
+      if (locked.status === AccountStatus.DELETED) {
+        throw new DomainError(ACCOUNT_ERROR.DELETION_NOT_ALLOWED, '账户已注销');
+      }
+      if (locked.deletionScheduledAt) {
+        throw new DomainError(ACCOUNT_ERROR.DELETION_NOT_ALLOWED, '已申请注销，请勿重复提交', {
+          deletionScheduledAt: locked.deletionScheduledAt.toISOString(),
+        });
+      }
+
+      const now = new Date();
+      const scheduledAt = new Date(now.getTime() + this.config.graceDays * DAY_MS);
+      await this.accountService.updateAccount(
+        accountId,
+        { deletionRequestedAt: now, deletionScheduledAt: scheduledAt, updatedAt: now },
+        manager,
+      );
+      await this.notificationService.send(
+        {
+          recipientAccountId: accountId,
+          category: NotificationCategory.ACCOUNT_DELETION_SCHEDULED,
+          title: '已申请注销账户',
+          body: `账户将于 ${scheduledAt.toISOString()} 注销，届时个人信息将被清除且无法恢复。在此之前登录并撤销申请即可保留账户。`,
+        },
+        manager,
+      );
+      return {
+        accountId,
+        deletionRequestedAt: now,
+        deletionScheduledAt: scheduledAt,
+        loginEmail: locked.loginEmail,
+      };
+    });
+
+    this.logger.info(
+      {
+        event: 'account_deletion_requested',
+        accountId,
+        deletionScheduledAt: view.deletionScheduledAt,
+      },
+      '用户申请注销账户',
+    );
+    if (view.loginEmail) {
+      // 通知不阻塞响应
+      void this.notify({
+        to: view.loginEmail,
+        subject: '您已申请注销账户',
+        lines: [
+          `您的账户将于 ${view.deletionScheduledAt.toISOString()} 注销，届时个人信息将被清除且无法恢复。`,
+          '在此之前登录并撤销申请即可保留账户。如非本人操作，请立即修改密码并撤销申请。',
+        ],
+        event: 'account_deletion_requested',
+      });
+    }
+    return {
+      accountId,
+      deletionRequestedAt: view.deletionRequestedAt,
+      deletionScheduledAt: view.deletionScheduledAt,
+    };
+  }
+
+  /**
+   * 撤销注销申请
+   * @returns 撤销后的注销状态（时间字段均为 null）
+   */
+  async cancel(params: { session: UsecaseSession }): Promise<AccountDeletionView> {
+    const accountId = params.session.accountId;
+    const loginEmail = await this.accountService.runTransaction(async (manager) => {
+      const locked = await this.accountService.lockByIdForUpdate(accountId, manager);
+      if (locked.status === AccountStatus.DELETED || !locked.deletionScheduledAt) {
+        throw new DomainError(ACCOUNT_ERROR.DELETION_NOT_ALLOWED, '当前没有待执行的注销申请');
+      }
+
+      await this.accountService.updateAccount(
+        accountId,
+        { deletionRequestedAt: null, deletionScheduledAt: null, updatedAt: new Date() },
+        manager,
+      );
+      await this.notificationService.send(
+        {
+          recipientAccountId: accountId,
+          category: NotificationCategory.ACCOUNT_DELETION_CANCELLED,
+          title: '已撤销注销申请',
+          body: '您的注销申请已撤销，账户将继续保留。',
+        },
+        manager,
+      );
+      return locked.loginEmail;
+    });
+
+    this.logger.info({ event: 'account_deletion_cancelled', accountId }, '用户撤销注销申请');
+    if (loginEmail) {
+      void this.notify({
+        to: loginEmail,
+        subject: '您已撤销注销申请',
+        lines: ['您的注销申请已撤销，账户将继续保留。', '如非本人操作，请立即修改密码。'],
+        event: 'account_deletion_cancelled',
+      });
+    }
+    return { accountId, deletionRequestedAt: null, deletionScheduledAt: null };
+  }
+
+  /**
+   * 投递注销相关邮件
+   * 投递失败只记录日志，站内通知已在事务内写入
+   */
+  private async notify(params: {
+    to: string;
+    subject: string;
+    lines: string[];
+    event: string;
+  }): Promise<void> {
+    try {
+      await this.queueEmailUsecase.execute({
+        to: params.to,
+        subject: params.subject,
+        text: params.lines.join('\n'),
+        templateId: ACCOUNT_DELETION_EMAIL_TEMPLATE,
+        meta: { event: params.event },
+      });
+    } catch (error) {
+      this.logger.warn(
+        { event: `${params.event}_notify_failed`, error: (error as Error)?.message },
+        '注销通知邮件投递失败',
+      );
+    }
+  }
+}
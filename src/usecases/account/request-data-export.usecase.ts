@@ -0,0 +1,85 @@
+// src/usecases/account/request-data-export.usecase.ts
+
+import { UsecaseSession } from '@app-types/auth/session.types';
+import { AccountStatus } from '@app-types/models/account.types';
+import {
+  AccountDataExportConfig,
+  AccountDataExportStatus,
+  AccountDataExportView,
+} from '@app-types/models/account-lifecycle.types';
+import { ACCOUNT_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { AccountDataExportService } from '@src/modules/account-data-export/account-data-export.service';
+import { QueueAccountDataExportUsecase } from '@src/usecases/account-queue/queue-account-data-export.usecase';
+
+/**
+ * 申请导出个人数据用例（本人操作）
+ * 创建 PENDING 导出记录并投递异步任务，归档生成后通过邮件发送下载链接
+ */
+@Injectable()
+export class RequestDataExportUsecase {
+  private readonly config: AccountDataExportConfig;
+
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly accountDataExportService: AccountDataExportService,
+    private readonly queueAccountDataExportUsecase: QueueAccountDataExportUsecase,
+    configService: ConfigService,
+  ) {
+    this.config = configService.get<AccountDataExportConfig>('accountDataExport') ?? {
+      linkBaseUrl: '',
+      linkExpiresInHours: 72,
+      cooldownMinutes: 1440,
+      maxAiCallRecords: 1000,
+    };
+  }
+
+  /**
+   * 申请导出当前账户的个人数据
+   * @returns 新建的导出记录（PENDING）
+   */
+  async execute(params: { session: UsecaseSession }): Promise<AccountDataExportView> {
+    const accountId = params.session.accountId;
+    const account = await this.accountService.findOneById(accountId);
+    if (!account || account.status === AccountStatus.DELETED) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '账户不存在');
+    }
+    if (!account.loginEmail) {
+      throw new DomainError(
+        ACCOUNT_ERROR.DATA_EXPORT_NOT_ALLOWED,
+        '下载链接将发送至登录邮箱，请先绑定登录邮箱',
+      );
+    }
+
+    const latest = await this.accountDataExportService.findLatestByAccountId(accountId);
+    if (latest && this.isThrottled(latest)) {
+      throw new DomainError(
+        ACCOUNT_ERROR.DATA_EXPORT_TOO_FREQUENT,
+        '导出申请过于频繁，请稍后再试',
+        {
+          latestExportId: latest.id,
+          cooldownMinutes: this.config.cooldownMinutes,
+        },
+      );
+    }
+
+    const record = await this.accountDataExportService.createPending({ accountId });
+    await this.queueAccountDataExportUsecase.execute({ exportId: record.id, accountId });
+    return record;
+  }
+
+  /**
+   * 仍在生成中，或距上次申请不足冷却时间（失败的申请不计入冷却）
+   */
+  private isThrottled(latest: AccountDataExportView): boolean {
+    if (latest.status === AccountDataExportStatus.PENDING) {
+      return true;
+    }
+    if (latest.status === AccountDataExportStatus.FAILED) {
+      return false;
+    }
+    return Date.now() - latest.createdAt.getTime() < this.config.cooldownMinutes * 60 * 1000;
+  }
+}
@@ -0,0 +1,55 @@
+// src/usecases/account/set-account-status.input.normalize.ts
+
+import {
+  ACCOUNT_STATUS_BATCH_MAX_SIZE,
+  ACCOUNT_STATUS_REASON_MAX_LENGTH,
+  AccountStatus,
+} from '@app-types/models/account.types';
+import { ACCOUNT_ERROR, DomainError } from '@core/common/errors/domain-error';
+import {
+  normalizeOptionalText,
+  normalizeRequiredText,
+} from '@core/common/input-normalize/input-normalize.policy';
+
+/**
+ * 规范化状态变更原因：封禁 / 暂停时必填，恢复正常时可省略
+ * @returns 截断到上限长度的原因；未填写时为 null
+ */
+export function normalizeAccountStatusReason(
+  input: string | null | undefined,
+  status: AccountStatus,
+): string | null {
+  if (status === AccountStatus.ACTIVE) {
+    const reason = normalizeOptionalText(input, 'to_null', { fieldName: '变更原因' });
+    return reason ? reason.slice(0, ACCOUNT_STATUS_REASON_MAX_LENGTH) : null;
+  }
+  try {
+    return normalizeRequiredText(input, { fieldName: '变更原因' }).slice(
+      0,
+      ACCOUNT_STATUS_REASON_MAX_LENGTH,
+    );
+  } catch (error) {
+    if (error instanceof DomainError) {
+      throw new DomainError(
+        ACCOUNT_ERROR.STATUS_CHANGE_NOT_ALLOWED,
+        '封禁或暂停账户时必须填写原因',
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * 规范化批量变更的账户 ID：保序去重，并校验单批数量上限
+ */
+export function normalizeAccountStatusTargetIds(input: ReadonlyArray<number>): number[] {
+  const accountIds = [...new Set(input)];
+  if (accountIds.length > ACCOUNT_STATUS_BATCH_MAX_SIZE) {
+    throw new DomainError(
+      ACCOUNT_ERROR.STATUS_CHANGE_NOT_ALLOWED,
+      `单次最多变更 ${ACCOUNT_STATUS_BATCH_MAX_SIZE} 个账户`,
+      { count: accountIds.length },
+    );
+  }
+  return accountIds;
+}
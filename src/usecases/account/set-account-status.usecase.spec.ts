@@ -0,0 +1,141 @@
+// src/usecases/account/set-account-status.usecase.spec.ts
+import { RefreshTokenRevokeReason } from '@app-types/auth/refresh-token.types';
+import { AccountStatus, IdentityTypeEnum } from '@app-types/models/account.types';
+import { ACCOUNT_ERROR, PERMISSION_ERROR } from '@core/common/errors/domain-error';
+import type { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import type { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import type { AccountService } from '@src/modules/account/base/services/account.service';
+import type { PinoLogger } from 'nestjs-pino';
+import type { EntityManager } from 'typeorm';
+import { SetAccountStatusUsecase } from './set-account-status.usecase';
+
+type AccountServiceMock = {
+  readonly runTransaction: jest.Mock<
+    Promise<unknown>,
+    [(manager: EntityManager) => Promise<unknown>]
+  >;
+  readonly lockByIdForUpdate: jest.Mock<Promise<AccountEntity>, [number, EntityManager]>;
+  readonly updateAccount: jest.Mock<
+    Promise<void>,
+    [number, Partial<AccountEntity>, EntityManager?]
+  >;
+};
+
+type RefreshTokenFamilyServiceMock = {
+  readonly revokeAllByAccountId: jest.Mock<
+    Promise<number>,
+    [{ accountId: number; reason: RefreshTokenRevokeReason; manager?: EntityManager }]
+  >;
+};
+
+type LoggerMock = {
+  readonly setContext: jest.Mock<void, [string]>;
+  readonly info: jest.Mock;
+};
+
+describe('SetAccountStatusUsecase', () => {
+  let statuses: Map<number, AccountStatus>;
+  let manager: EntityManager;
+  let accountService: AccountServiceMock;
+  let refreshTokenFamilyService: RefreshTokenFamilyServiceMock;
+  let logger: LoggerMock;
+  let usecase: SetAccountStatusUsecase;
+
+  beforeEach(() => {
+    statuses = new Map();
+    manager = {} as EntityManager;
+    accountService = {
+      runTransaction: jest.fn((callback) => callback(manager)),
+      lockByIdForUpdate: jest.fn((accountId: number, _manager: EntityManager) => {
+        const status = statuses.get(accountId);
+        return status
+          ? Promise.resolve({ id: accountId, status, tokenVersion: 3 } as AccountEntity)
+          : Promise.reject(new Error('unexpected'));
+      }),
+      updateAccount: jest.fn().mockResolvedValue(undefined),
+    };
+    refreshTokenFamilyService = {
+      revokeAllByAccountId: jest.fn().mockResolvedValue(2),
+    };
+    logger = {
+      setContext: jest.fn(),
+      info: jest.fn(),
+    };
+
+    usecase = new SetAccountStatusUsecase(
+      accountService as unknown as AccountService,
+      refreshTokenFamilyService as unknown as RefreshTokenFamilyService,
+      logger as unknown as PinoLogger,
+    );
+  });
+
+  it('封禁账户时写入原因、递增 tokenVersion 并在同一事务内作废全部会话', async () => {
+    statuses.set(7, AccountStatus.ACTIVE);
+
+    const result = await usecase.execute({
+      session: { accountId: 1, roles: [IdentityTypeEnum.ADMIN] },
+      accountId: 7,
+      status: AccountStatus.BANNED,
+      reason: '  违规发布广告  ',
+    });
+
+    expect(result).toEqual({
+      accountId: 7,
+      previousStatus: AccountStatus.ACTIVE,
+      status: AccountStatus.BANNED,
+      revokedSessions: 2,
+    });
+    expect(accountService.updateAccount).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({
+        status: AccountStatus.BANNED,
+        statusReason: '违规发布广告',
+        tokenVersion: 4,
+      }),
+      manager,
+    );
+    expect(refreshTokenFamilyService.revokeAllByAccountId).toHaveBeenCalledWith({
+      accountId: 7,
+      reason: RefreshTokenRevokeReason.ACCOUNT_STATUS_CHANGED,
+      manager,
+    });
+  });
+
+  it('拒绝非管理员、不支持的目标状态与缺少原因的封禁', async () => {
+    statuses.set(7, AccountStatus.ACTIVE);
+    const session = { accountId: 1, roles: [IdentityTypeEnum.ADMIN] };
+
+    await expect(
+      usecase.execute({
+        session: { accountId: 2, roles: [IdentityTypeEnum.MANAGER] },
+        accountId: 7,
+        status: AccountStatus.BANNED,
+        reason: '违规',
+      }),
+    ).rejects.toMatchObject({ code: PERMISSION_ERROR.INSUFFICIENT_PERMISSIONS });
+    await expect(
+      usecase.execute({ session, accountId: 7, status: AccountStatus.DELETED }),
+    ).rejects.toMatchObject({ code: ACCOUNT_ERROR.STATUS_CHANGE_NOT_ALLOWED });
+    await expect(
+      usecase.execute({ session, accountId: 7, status: AccountStatus.SUSPENDED }),
+    ).rejects.toMatchObject({ code: ACCOUNT_ERROR.STATUS_CHANGE_NOT_ALLOWED });
+    expect(accountService.runTransaction).not.toHaveBeenCalled();
+  });
+
+  it('批量变更跳过本人、已注销与状态未变化的账户', async () => {
+    statuses.set(1, AccountStatus.ACTIVE);
+    statuses.set(7, AccountStatus.BANNED);
+    statuses.set(8, AccountStatus.DELETED);
+    statuses.set(9, AccountStatus.ACTIVE);
+    statuses.set(10, AccountStatus.SUSPENDED);
+
+    const result = await usecase.executeBulk({
+      session: { accountId: 1, roles: [IdentityTypeEnum.ADMIN] },
+      accountIds: [1, 7, 8, 9, 10, 10],
+      status: AccountStatus.ACTIVE,
+    });
+
+    expect(result).toEqual({ updatedIds: [7, 10], skippedIds: [1, 8, 9] });
+    expect(refreshTokenFamilyService.revokeAllByAccountId).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,211 @@
+// src/usecases/account/set-account-status.usecase.ts
+
+import { RefreshTokenRevokeReason } from '@app-types/auth/refresh-token.types';
+import { UsecaseSession } from '@app-types/auth/session.types';
+import {
+  AccountStatus,
+  IdentityTypeEnum,
+  MANAGEABLE_ACCOUNT_STATUSES,
+} from '@app-types/models/account.types';
+import { hasRole } from '@core/account/policy/role-access.policy';
+import { ACCOUNT_ERROR, DomainError, PERMISSION_ERROR } from '@core/common/errors/domain-error';
+import { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { PinoLogger } from 'nestjs-pino';
+import {
+  normalizeAccountStatusReason,
+  normalizeAccountStatusTargetIds,
+} from './set-account-status.input.normalize';
+
+/**
+ * 变更账户状态参数
+ */
+export interface SetAccountStatusParams {
+  session: UsecaseSession;
+  accountId: number;
+  /** 目标状态（仅 ACTIVE / BANNED / SUSPENDED） */
+  status: AccountStatus;
+  /** 变更原因（封禁 / 暂停时必填） */
+  reason?: string | null;
+}
+
+/**
+ * 变更账户状态结果
+ */
+export interface SetAccountStatusResult {
+  accountId: number;
+  previousStatus: AccountStatus;
+  status: AccountStatus;
+  /** 被作废的会话数 */
+  revokedSessions: number;
+}
+
+/**
+ * 批量变更账户状态参数
+ */
+export interface SetAccountsStatusParams {
+  session: UsecaseSession;
+  accountIds: number[];
+  status: AccountStatus;
+  reason?: string | null;
+}
+
+/**
+ * 批量变更账户状态结果
+ */
+export interface SetAccountsStatusResult {
+  /** 已变更的账户 ID */
+  updatedIds: number[];
+  /** 未变更的账户 ID（不存在、已注销、当前操作者本人或状态未变化） */
+  skippedIds: number[];
+}
+
+/**
+ * 管理端变更账户状态用例（封禁 / 暂停 / 解封，仅 ADMIN）
+ * 每个账户在独立事务内完成：锁定账户 → 写入状态与原因 → 递增 tokenVersion → 作废全部会话
+ * 登录与刷新令牌流程会拒绝非 ACTIVE 账户，因此封禁后账户无法重新登录
+ */
+@Injectable()
+export class SetAccountStatusUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly refreshTokenFamilyService: RefreshTokenFamilyService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(SetAccountStatusUsecase.name);
+  }
+
+  /**
+   * 变更单个账户状态
+   * @param params 变更参数
+   * @returns 变更前后的状态与被作废的会话数（状态未变化时不作废会话）
+   */
+  async execute(params: SetAccountStatusParams): Promise<SetAccountStatusResult> {
+    const reason = this.assertChangeAllowed(params);
+    if (params.accountId === params.session.accountId) {
+      throw new DomainError(ACCOUNT_ERROR.STATUS_CHANGE_NOT_ALLOWED, '不能变更当前登录账户的状态');
+    }
+
+    const result = await this.applyStatus({
+      actorAccountId: params.session.accountId,
+      accountId: params.accountId,
+      status: params.status,
+      reason,
+    });
+    return { accountId: params.accountId, ...result };
+  }
+
+  /**
+   * 批量变更账户状态
+   * 不存在、已注销、当前操作者本人或状态未变化的账户原样返回，不整体失败
+   * @param params 变更参数
+   * @returns 已变更与被跳过的账户 ID
+   */
+  async executeBulk(params: SetAccountsStatusParams): Promise<SetAccountsStatusResult> {
+    const reason = this.assertChangeAllowed(params);
+    const accountIds = normalizeAccountStatusTargetIds(params.accountIds);
+
+    const updatedIds: number[] = [];
+    const skippedIds: number[] = [];
+    for (const accountId of accountIds) {
+      if (accountId === params.session.accountId) {
+        skippedIds.push(accountId);
+        continue;
+      }
+      try {
+        const result = await this.applyStatus({
+          actorAccountId: params.session.accountId,
+          accountId,
+          status: params.status,
+          reason,
+        });
+        (result.previousStatus === params.status ? skippedIds : updatedIds).push(accountId);
+      } catch (error) {
+        if (!(error instanceof DomainError)) throw error;
+        skippedIds.push(accountId);
+      }
+    }
+    return { updatedIds, skippedIds };
+  }
+
+  /**
+   * 校验操作者与目标状态
+   * @returns 归一化后的变更原因
+   */
+  private assertChangeAllowed(params: {
+    session: UsecaseSession;
+    status: AccountStatus;
+    reason?: string | null;
+  }): string | null {
+    if (!hasRole(params.session.roles, IdentityTypeEnum.ADMIN)) {
+      throw new DomainError(PERMISSION_ERROR.INSUFFICIENT_PERMISSIONS, '仅管理员可变更账户状态');
+    }
+    if (!MANAGEABLE_ACCOUNT_STATUSES.includes(params.status)) {
+      throw new DomainError(
+        ACCOUNT_ERROR.STATUS_CHANGE_NOT_ALLOWED,
+        `不支持设置为该状态：${params.status}`,
+        { status: params.status },
+      );
+    }
+    return normalizeAccountStatusReason(params.reason, params.status);
+  }
+
+  /**
+   * 在事务内变更单个账户状态并作废其全部会话
+   * 已注销账户不允许变更；状态未变化时不做任何修改
+   */
+  private async applyStatus(params: {
+    actorAccountId: number;
+    accountId: number;
+    status: AccountStatus;
+    reason: string | null;
+  }): Promise<{ previousStatus: AccountStatus; status: AccountStatus; revokedSessions: number }> {
+    const { accountId, status, reason } = params;
+    const result = await this.accountService.runTransaction(async (manager) => {
+      const locked = await this.accountService.lockByIdForUpdate(accountId, manager);
+      if (locked.status === AccountStatus.DELETED) {
+        throw new DomainError(ACCOUNT_ERROR.STATUS_CHANGE_NOT_ALLOWED, '账户已注销，不能变更状态', {
+          accountId,
+        });
+      }
+      if (locked.status === status) {
+        return { previousStatus: locked.status, status, revokedSessions: 0 };
+      }
+
+      const now = new Date();
+      await this.accountService.updateAccount(
+        accountId,
+        {
+          status,
+          statusReason: reason,
+          statusChangedAt: now,
+          tokenVersion: locked.tokenVersion + 1,
+          updatedAt: now,
+        },
+        manager,
+      );
+      const revokedSessions = await this.refreshTokenFamilyService.revokeAllByAccountId({
+        accountId,
+        reason: RefreshTokenRevokeReason.ACCOUNT_STATUS_CHANGED,
+        manager,
+      });
+      return { previousStatus: locked.status, status, revokedSessions };
+    });
+
+    if (result.previousStatus !== status) {
+      this.logger.info(
+        {
+          event: 'account_status_changed',
+          actorAccountId: params.actorAccountId,
+          accountId,
+          previousStatus: result.previousStatus,
+          status,
+          revokedSessions: result.revokedSessions,
+        },
+        '管理员变更账户状态',
+      );
+    }
+    return result;
+  }
+}
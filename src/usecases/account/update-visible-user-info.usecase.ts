@@ -533,16 +533,29 @@ export class UpdateVisibleUserInfoUsecase {
     if (typeof patch.gender !== 'undefined') target.gender = patch.gender;
     if (typeof patch.birthDate !== 'undefined') target.birthDate = patch.birthDate;
     if (typeof patch.avatarUrl !== 'undefined') target.avatarUrl = patch.avatarUrl;
-    if (typeof patch.email !== 'undefined') target.email = patch.email;
+    this.applyContactPatch(target, patch);
     if (typeof patch.signature !== 'undefined') target.signature = patch.signature;
     if (typeof patch.address !== 'undefined') target.address = patch.address;
-    if (typeof patch.phone !== 'undefined') target.phone = patch.phone;
     if (typeof patch.tags !== 'undefined') target.tags = patch.tags;
     if (typeof patch.geographic !== 'undefined') target.geographic = patch.geographic;
     if (typeof patch.userState !== 'undefined') target.userState = patch.userState;
     if (typeof patch.notifyCount !== 'undefined') target.notifyCount = patch.notifyCount;
     if (typeof patch.unreadCount !== 'undefined') target.unreadCount = patch.unreadCount;
   }
+
+  /**
+   * 应用邮箱 / 手机号补丁：值变更后清除对应的验证时间，需重新验证
+   */
+  private applyContactPatch(target: UserInfoRecord, patch: UserInfoUpdatePatch): void {
+    if (typeof patch.email !== 'undefined') {
+      if (patch.email !== target.email) target.emailVerifiedAt = null;
+      target.email = patch.email;
+    }
+    if (typeof patch.phone !== 'undefined') {
+      if (patch.phone !== target.phone) target.phoneVerifiedAt = null;
+      target.phone = patch.phone;
+    }
+  }
 }
 
 export interface UpdateAccessGroupParams {
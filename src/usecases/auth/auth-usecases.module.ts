@@ -3,30 +3,71 @@ import { AuthModule } from '@modules/auth/auth.module';
 import { ThirdPartyAuthModule } from '@modules/third-party-auth/third-party-auth.module';
 import { Module } from '@nestjs/common';
 import { AccountInstallerModule } from '@src/modules/account/account-installer.module';
+import { VerificationRecordModule } from '@src/modules/verification-record/verification-record.module';
+import { CheckLoginMfaUsecase } from '@src/usecases/auth/check-login-mfa.usecase';
 import { DecideLoginRoleUsecase } from '@src/usecases/auth/decide-login-role.usecase';
 import { EnrichLoginWithIdentityUsecase } from '@src/usecases/auth/enrich-login-with-identity.usecase';
+import { EnrollTotpUsecase } from '@src/usecases/auth/enroll-totp.usecase';
 import { ExecuteLoginFlowUsecase } from '@src/usecases/auth/execute-login-flow.usecase';
+import { ImpersonateAccountUsecase } from '@src/usecases/auth/impersonate-account.usecase';
+import { ListAuthSessionsUsecase } from '@src/usecases/auth/list-auth-sessions.usecase';
 import { LoginByAccountIdUsecase } from '@src/usecases/auth/login-by-account-id.usecase';
+import { LoginWithMagicLinkUsecase } from '@src/usecases/auth/login-with-magic-link.usecase';
 import { LoginWithPasswordUsecase } from '@src/usecases/auth/login-with-password.usecase';
+import { LoginWithSmsUsecase } from '@src/usecases/auth/login-with-sms.usecase';
 import { LoginWithThirdPartyUsecase } from '@src/usecases/auth/login-with-third-party.usecase';
+import { LogoutUsecase } from '@src/usecases/auth/logout.usecase';
+import { ManageMfaUsecase } from '@src/usecases/auth/manage-mfa.usecase';
+import { RefreshAccessTokenUsecase } from '@src/usecases/auth/refresh-access-token.usecase';
+import { RevokeAuthSessionUsecase } from '@src/usecases/auth/revoke-auth-session.usecase';
+import { VerifyMfaLoginUsecase } from '@src/usecases/auth/verify-mfa-login.usecase';
+import { VerificationUsecasesModule } from '@src/usecases/verification/verification-usecases.module';
 
 @Module({
-  imports: [AuthModule, ThirdPartyAuthModule, AccountInstallerModule],
+  imports: [
+    AuthModule,
+    ThirdPartyAuthModule,
+    AccountInstallerModule,
+    VerificationRecordModule,
+    VerificationUsecasesModule,
+  ],
   providers: [
     LoginWithPasswordUsecase,
+    LoginWithSmsUsecase,
+    LoginWithMagicLinkUsecase,
     ExecuteLoginFlowUsecase,
     LoginByAccountIdUsecase,
     LoginWithThirdPartyUsecase,
     DecideLoginRoleUsecase,
     EnrichLoginWithIdentityUsecase,
+    RefreshAccessTokenUsecase,
+    LogoutUsecase,
+    ListAuthSessionsUsecase,
+    RevokeAuthSessionUsecase,
+    CheckLoginMfaUsecase,
+    VerifyMfaLoginUsecase,
+    EnrollTotpUsecase,
+    ManageMfaUsecase,
+    ImpersonateAccountUsecase,
   ],
   exports: [
     LoginWithPasswordUsecase,
+    LoginWithSmsUsecase,
+    LoginWithMagicLinkUsecase,
     ExecuteLoginFlowUsecase,
     LoginByAccountIdUsecase,
     LoginWithThirdPartyUsecase,
     DecideLoginRoleUsecase,
     EnrichLoginWithIdentityUsecase,
+    RefreshAccessTokenUsecase,
+    LogoutUsecase,
+    ListAuthSessionsUsecase,
+    RevokeAuthSessionUsecase,
+    CheckLoginMfaUsecase,
+    VerifyMfaLoginUsecase,
+    EnrollTotpUsecase,
+    ManageMfaUsecase,
+    ImpersonateAccountUsecase,
   ],
 })
 export class AuthUsecasesModule {}
@@ -0,0 +1,48 @@
+// src/usecases/auth/check-login-mfa.usecase.ts
+
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { AuthService } from '@modules/auth/auth.service';
+import { MfaService } from '@modules/auth/services/mfa.service';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+
+/**
+ * 登录二次验证检查用例
+ * 第一因子通过后、签发令牌前调用：
+ * - 已启用二次验证，或身份被 MFA_REQUIRED 策略强制 → 抛 MFA_REQUIRED，details 携带挑战令牌
+ * - 否则直接放行
+ */
+@Injectable()
+export class CheckLoginMfaUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly authService: AuthService,
+    private readonly mfaService: MfaService,
+  ) {}
+
+  /**
+   * @param params 账户 ID 与客户端类型
+   * @throws DomainError(AUTH_ERROR.MFA_REQUIRED) details: { mfaChallengeToken, enrollmentRequired }
+   */
+  async execute(params: { accountId: number; audience?: AudienceTypeEnum }): Promise<void> {
+    const enabled = await this.mfaService.isEnabled(params.accountId);
+    if (!enabled) {
+      const userInfo = await this.accountService.findUserInfoByAccountId(params.accountId);
+      if (!this.mfaService.isRequiredFor(userInfo?.accessGroup ?? [])) {
+        return;
+      }
+    }
+
+    const mfaChallengeToken = this.authService.signMfaChallengeToken({
+      accountId: params.accountId,
+      audience: params.audience,
+      enrollmentRequired: !enabled,
+    });
+    throw new DomainError(
+      AUTH_ERROR.MFA_REQUIRED,
+      enabled ? '请输入二次验证码' : '当前身份要求启用二次验证，请先完成绑定',
+      { mfaChallengeToken, enrollmentRequired: !enabled },
+    );
+  }
+}
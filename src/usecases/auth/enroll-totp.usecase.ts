@@ -0,0 +1,62 @@
+// src/usecases/auth/enroll-totp.usecase.ts
+
+import { TotpEnrollmentView } from '@app-types/auth/mfa.types';
+import { ACCOUNT_ERROR, AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { AuthService } from '@modules/auth/auth.service';
+import { MfaService } from '@modules/auth/services/mfa.service';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+
+/**
+ * TOTP 绑定用例
+ * - begin：生成密钥与 otpauth URI（已登录用户）
+ * - beginWithChallenge：被 MFA_REQUIRED 策略强制、尚未绑定的用户在登录挑战中绑定
+ * - confirm：校验首个验证码后启用，返回恢复码
+ */
+@Injectable()
+export class EnrollTotpUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly authService: AuthService,
+    private readonly mfaService: MfaService,
+  ) {}
+
+  /**
+   * 开始绑定
+   * @param params 当前账户 ID
+   * @returns 密钥与 otpauth URI
+   */
+  async begin(params: { accountId: number }): Promise<TotpEnrollmentView> {
+    const account = await this.accountService.findOneById(params.accountId);
+    if (!account) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '账户不存在');
+    }
+    return await this.mfaService.beginTotpEnrollment({
+      accountId: account.id,
+      accountName: account.loginEmail ?? account.loginName ?? String(account.id),
+    });
+  }
+
+  /**
+   * 凭登录挑战令牌开始绑定（仅限需先绑定的挑战）
+   * 绑定确认与登录在 verifyMfaLogin 中一并完成
+   * @param params 挑战令牌
+   * @returns 密钥与 otpauth URI
+   */
+  async beginWithChallenge(params: { mfaChallengeToken: string }): Promise<TotpEnrollmentView> {
+    const claims = this.authService.verifyMfaChallengeToken(params.mfaChallengeToken);
+    if (!claims.enrollmentRequired) {
+      throw new DomainError(AUTH_ERROR.MFA_CHALLENGE_INVALID, '该挑战令牌不可用于绑定');
+    }
+    return await this.begin({ accountId: claims.accountId });
+  }
+
+  /**
+   * 确认绑定
+   * @param params 当前账户 ID 与验证码
+   * @returns 恢复码原文（仅此一次返回）
+   */
+  async confirm(params: { accountId: number; code: string }): Promise<string[]> {
+    return await this.mfaService.confirmTotpEnrollment(params);
+  }
+}
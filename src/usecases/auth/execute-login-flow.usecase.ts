@@ -1,6 +1,7 @@
 // src/usecases/auth/execute-login-flow.usecase.ts
 
-import { BasicLoginResult } from '@app-types/auth/login-flow.types';
+import { AuthSessionDevice } from '@app-types/auth/auth-session.types';
+import { BasicLoginResult, LoginSessionClaims } from '@app-types/auth/login-flow.types';
 import {
   AccountStatus,
   AudienceTypeEnum,
@@ -17,6 +18,7 @@ import { LoginResultQueryService } from '@modules/auth/queries/login-result.quer
 import { TokenHelper } from '@modules/auth/token.helper';
 import { Injectable } from '@nestjs/common';
 import { AccountService } from '@src/modules/account/base/services/account.service';
+import { randomUUID } from 'crypto';
 import { PinoLogger } from 'nestjs-pino';
 
 /**
@@ -45,13 +47,18 @@ export class ExecuteLoginFlowUsecase {
   async execute({
     accountId,
     ip,
+    userAgent,
     audience,
     provider,
+    impersonatorId,
   }: {
     accountId: number;
     ip?: string;
+    userAgent?: string;
     audience?: AudienceTypeEnum;
     provider?: ThirdPartyProviderEnum;
+    /** 代登录时为发起的管理员账户 ID；代登录不计入目标账户的登录历史 */
+    impersonatorId?: number;
   }): Promise<BasicLoginResult> {
     // 验证 audience 类型安全性
     this.validateAudience(audience);
@@ -60,15 +67,23 @@ export class ExecuteLoginFlowUsecase {
     const userData = await this.fetchUserData(accountId);
 
     // 生成 JWT tokens，传入 audience 参数
-    const tokens = this.generateTokens(userData, audience);
+    const { session, ...tokens } = await this.generateTokens(
+      userData,
+      audience,
+      { ip, userAgent, provider },
+      impersonatorId !== undefined,
+    );
 
     // 记录登录历史
-    await this.handleLoginHistory({ accountId, ip, audience, provider });
+    if (impersonatorId === undefined) {
+      await this.handleLoginHistory({ accountId, ip, audience, provider });
+    }
 
     // 构建并返回基础登录结果
     return this.loginResultQueryService.toBasicLoginResult({
       userData,
       tokens,
+      session,
     });
   }
 
@@ -124,16 +139,21 @@ export class ExecuteLoginFlowUsecase {
    * 生成 JWT tokens
    * @param userData 用户数据集合
    * @param audience 客户端类型（用于 JWT audience 声明）
+   * @param device 登录设备信息（记录到会话）
+   * @param impersonated 是否为代登录（不下发 refresh token，因此不建家族与会话记录）
    * @returns JWT tokens 对象
    */
-  private generateTokens(
+  private async generateTokens(
     userData: LoginUserDataCollection,
-    audience?: AudienceTypeEnum,
-  ): {
+    audience: AudienceTypeEnum | undefined,
+    device: AuthSessionDevice,
+    impersonated: boolean,
+  ): Promise<{
     accessToken: string;
     refreshToken: string;
-  } {
-    const { userWithAccessGroup, userInfo } = userData;
+    session: LoginSessionClaims;
+  }> {
+    const { userWithAccessGroup, userInfo, account } = userData;
 
     // 创建 JWT payload
     const jwtPayload = this.tokenHelper.createPayloadFromUser({
@@ -143,18 +163,30 @@ export class ExecuteLoginFlowUsecase {
       accessGroup: userWithAccessGroup.accessGroup,
     });
 
-    // 生成 tokens，传入 audience 参数
-    const accessToken = this.tokenHelper.generateAccessToken({
-      payload: jwtPayload,
-      audience: audience, // 传递 audience 参数
-    });
+    // 每次登录开启新的 refresh token 家族，并登记会话设备信息
+    // 代登录只生成家族 ID 用于审计关联与结束时吊销，不出现在目标账户的会话列表中
+    const { refreshToken, familyId } = impersonated
+      ? { refreshToken: '', familyId: randomUUID() }
+      : await this.authService.issueRefreshToken({
+          accountId: jwtPayload.sub,
+          tokenVersion: account.tokenVersion,
+          audience,
+          device,
+        });
 
-    const refreshToken = this.tokenHelper.generateRefreshToken({
-      payload: { sub: jwtPayload.sub },
-      audience: audience, // 传递 audience 参数
+    // access token 绑定同一家族，便于登出时一并作废
+    const accessToken = this.authService.signAccessToken({
+      payload: jwtPayload,
+      audience,
+      tokenVersion: account.tokenVersion,
+      familyId,
     });
 
-    return { accessToken, refreshToken };
+    return {
+      accessToken,
+      refreshToken,
+      session: { familyId, tokenVersion: account.tokenVersion },
+    };
   }
 
   /**
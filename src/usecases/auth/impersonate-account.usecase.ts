@@ -0,0 +1,152 @@
+// src/usecases/auth/impersonate-account.usecase.ts
+
+import {
+  ImpersonateAccountParams,
+  ImpersonateAccountResult,
+  ImpersonationAuditAction,
+  ImpersonationConfig,
+  StopImpersonationParams,
+} from '@app-types/auth/impersonation.types';
+import { AudienceTypeEnum, IdentityTypeEnum } from '@app-types/models/account.types';
+import { ACCOUNT_ERROR, AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { normalizeRequiredText } from '@core/common/input-normalize/input-normalize.policy';
+import { ImpersonationAuditService } from '@modules/auth/services/impersonation-audit.service';
+import { TokenHelper } from '@modules/auth/token.helper';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { PinoLogger } from 'nestjs-pino';
+import { LoginByAccountIdUsecase } from './login-by-account-id.usecase';
+import { LogoutUsecase } from './logout.usecase';
+
+/**
+ * 代登录用例（客服以用户身份登录排查问题）
+ * - 开始：复用 LoginByAccountIdUsecase 签发短期 access token，载荷携带 impersonatorId
+ * - 结束：注销代登录令牌并吊销其会话（代登录不建立 refresh token 家族与会话记录）
+ * 开始与结束均写入审计表
+ */
+@Injectable()
+export class ImpersonateAccountUsecase {
+  private readonly accessTokenExpiresIn: string;
+
+  constructor(
+    private readonly loginByAccountIdUsecase: LoginByAccountIdUsecase,
+    private readonly logoutUsecase: LogoutUsecase,
+    private readonly accountService: AccountService,
+    private readonly impersonationAuditService: ImpersonationAuditService,
+    private readonly tokenHelper: TokenHelper,
+    private readonly logger: PinoLogger,
+    configService: ConfigService,
+  ) {
+    this.logger.setContext(ImpersonateAccountUsecase.name);
+    this.accessTokenExpiresIn =
+      configService.get<ImpersonationConfig>('impersonation')?.accessTokenExpiresIn ?? '15m';
+  }
+
+  /**
+   * 开始代登录
+   * @param params 管理员、目标账户、原因与请求来源
+   * @returns 代登录 access token 及其过期时间
+   */
+  async execute(params: ImpersonateAccountParams): Promise<ImpersonateAccountResult> {
+    const reason = normalizeRequiredText(params.reason, { fieldName: '代登录原因' });
+    await this.assertTargetAllowed(params.impersonatorId, params.targetAccountId);
+
+    const login = await this.loginByAccountIdUsecase.execute({
+      accountId: params.targetAccountId,
+      ip: params.ip,
+      userAgent: params.userAgent,
+      audience: params.audience ?? AudienceTypeEnum.DESKTOP,
+      impersonation: {
+        impersonatorId: params.impersonatorId,
+        expiresIn: this.accessTokenExpiresIn,
+      },
+    });
+
+    const claims = this.tokenHelper.decodeToken({ token: login.accessToken });
+    await this.impersonationAuditService.record({
+      impersonatorId: params.impersonatorId,
+      targetAccountId: params.targetAccountId,
+      action: ImpersonationAuditAction.START,
+      reason,
+      familyId: claims?.fid,
+      ip: params.ip,
+      userAgent: params.userAgent,
+    });
+    this.logger.info(
+      {
+        event: 'impersonation_start',
+        impersonatorId: params.impersonatorId,
+        targetAccountId: params.targetAccountId,
+        familyId: claims?.fid,
+        ip: params.ip,
+      },
+      '管理员开始代登录',
+    );
+
+    return {
+      accessToken: login.accessToken,
+      accountId: login.accountId,
+      impersonatorId: params.impersonatorId,
+      role: login.role,
+      expiresAt: new Date((claims?.exp ?? 0) * 1000),
+    };
+  }
+
+  /**
+   * 结束代登录：注销当前代登录令牌并作废其会话
+   * @param params 当前 access token 的声明与请求来源
+   */
+  async stop(params: StopImpersonationParams): Promise<void> {
+    if (params.impersonatorId === undefined) {
+      throw new DomainError(AUTH_ERROR.NOT_IMPERSONATING, '当前会话不是代登录会话');
+    }
+
+    await this.logoutUsecase.execute({
+      accountId: params.accountId,
+      jti: params.jti,
+      familyId: params.familyId,
+      expiresAt: params.expiresAt,
+    });
+
+    await this.impersonationAuditService.record({
+      impersonatorId: params.impersonatorId,
+      targetAccountId: params.accountId,
+      action: ImpersonationAuditAction.STOP,
+      familyId: params.familyId,
+      ip: params.ip,
+      userAgent: params.userAgent,
+    });
+    this.logger.info(
+      {
+        event: 'impersonation_stop',
+        impersonatorId: params.impersonatorId,
+        targetAccountId: params.accountId,
+        familyId: params.familyId,
+        ip: params.ip,
+      },
+      '管理员结束代登录',
+    );
+  }
+
+  /**
+   * 校验代登录目标：不可代登录自己或其他管理员
+   */
+  private async assertTargetAllowed(
+    impersonatorId: number,
+    targetAccountId: number,
+  ): Promise<void> {
+    if (impersonatorId === targetAccountId) {
+      throw new DomainError(AUTH_ERROR.IMPERSONATION_TARGET_INVALID, '不能代登录自己的账户');
+    }
+    const userInfo = await this.accountService.findUserInfoByAccountId(targetAccountId);
+    if (!userInfo) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '账户不存在');
+    }
+    if (userInfo.accessGroup?.includes(IdentityTypeEnum.ADMIN)) {
+      throw new DomainError(AUTH_ERROR.IMPERSONATION_TARGET_INVALID, '不能代登录管理员账户', {
+        targetAccountId,
+      });
+    }
+  }
+}
@@ -0,0 +1,40 @@
+// src/usecases/auth/list-auth-sessions.usecase.ts
+
+import { AuthSessionView } from '@app-types/auth/auth-session.types';
+import { AuthSessionQueryService } from '@modules/auth/queries/auth-session.query.service';
+import { Injectable } from '@nestjs/common';
+
+/**
+ * 查询登录会话用例
+ * - 本人：仅返回在线会话
+ * - 管理端：按账户查看，可包含已下线会话
+ */
+@Injectable()
+export class ListAuthSessionsUsecase {
+  constructor(private readonly authSessionQueryService: AuthSessionQueryService) {}
+
+  /**
+   * 查询当前账户的在线会话
+   * @param params 当前账户 ID
+   */
+  async execute({ accountId }: { accountId: number }): Promise<AuthSessionView[]> {
+    return await this.authSessionQueryService.listByAccountId({ accountId });
+  }
+
+  /**
+   * 管理端查询指定账户的会话
+   * @param params 目标账户 ID 与是否包含已下线会话
+   */
+  async executeForAccount({
+    targetAccountId,
+    includeRevoked = false,
+  }: {
+    targetAccountId: number;
+    includeRevoked?: boolean;
+  }): Promise<AuthSessionView[]> {
+    return await this.authSessionQueryService.listByAccountId({
+      accountId: targetAccountId,
+      includeRevoked,
+    });
+  }
+}
@@ -4,7 +4,7 @@ import { EnrichedLoginResult, LoginWarningType } from '@app-types/auth/login-flo
 import { JwtPayload } from '@app-types/jwt.types';
 import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
 import { AUTH_ERROR, DomainError } from '@core/common/errors';
-import { TokenHelper } from '@modules/auth/token.helper';
+import { AuthService } from '@modules/auth/auth.service';
 import { Injectable } from '@nestjs/common';
 import { DecideLoginRoleUsecase } from './decide-login-role.usecase';
 import { EnrichLoginWithIdentityUsecase } from './enrich-login-with-identity.usecase';
@@ -20,7 +20,7 @@ export class LoginByAccountIdUsecase {
     private readonly executeLoginFlowUsecase: ExecuteLoginFlowUsecase,
     private readonly decideLoginRoleUsecase: DecideLoginRoleUsecase,
     private readonly enrichLoginWithIdentityUsecase: EnrichLoginWithIdentityUsecase,
-    private readonly tokenHelper: TokenHelper,
+    private readonly authService: AuthService,
   ) {}
 
   /**
@@ -30,6 +30,7 @@ export class LoginByAccountIdUsecase {
    * @param params.ip 客户端 IP 地址
    * @param params.audience 客户端类型
    * @param params.provider 第三方登录提供商（可选，用于区分第三方登录）
+   * @param params.impersonation 代登录信息（可选；写入 impersonatorId 声明，不返回 refresh token）
    * @returns 增强的登录结果
    */
   /**
@@ -42,20 +43,26 @@ export class LoginByAccountIdUsecase {
   async execute({
     accountId,
     ip,
+    userAgent,
     audience,
     provider,
+    impersonation,
   }: {
     accountId: number;
     ip?: string;
+    userAgent?: string;
     audience?: AudienceTypeEnum;
     provider?: ThirdPartyProviderEnum;
+    impersonation?: { impersonatorId: number; expiresIn: string };
   }): Promise<EnrichedLoginResult> {
     // Execute: 执行基础登录流程
     const basicResult = await this.executeLoginFlowUsecase.execute({
       accountId,
       ip,
+      userAgent,
       audience,
       provider,
+      impersonatorId: impersonation?.impersonatorId,
     });
 
     // Decide: 决策最终角色
@@ -64,7 +71,7 @@ export class LoginByAccountIdUsecase {
       {
         accountId: basicResult.accountId,
         ip: ip || '',
-        userAgent: '-',
+        userAgent: userAgent || '-',
         audience: audience || AudienceTypeEnum.DESKTOP,
       },
     );
@@ -82,9 +89,20 @@ export class LoginByAccountIdUsecase {
       email: basicResult.account.loginEmail,
       accessGroup: basicResult.accessGroup,
       ...(hasRoles ? { activeRole: finalRole } : {}),
+      ...(impersonation ? { impersonatorId: impersonation.impersonatorId } : {}),
+    };
+    // 按最终角色重新签发 access token，沿用登录流程建立的会话声明
+    const accessToken = this.authService.signAccessToken({
+      payload,
+      audience,
+      ...basicResult.session,
+      expiresIn: impersonation?.expiresIn,
+    });
+    // 代登录不下发 refresh token：到期即结束，无法自行续期
+    const tokens = {
+      accessToken,
+      refreshToken: impersonation ? '' : basicResult.tokens.refreshToken,
     };
-    const accessToken = this.tokenHelper.generateAccessToken({ payload, audience });
-    const tokens = { accessToken, refreshToken: basicResult.tokens.refreshToken };
 
     // Enrich: 装配身份信息
     const enrichedResult = await this.enrichLoginWithIdentityUsecase.execute({
@@ -0,0 +1,68 @@
+// src/usecases/auth/login-with-magic-link.usecase.ts
+
+import { EnrichedLoginResult } from '@app-types/auth/login-flow.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { AUTH_ERROR, isDomainError } from '@core/common/errors';
+import { Injectable } from '@nestjs/common';
+import { ConsumeVerificationFlowUsecase } from '@src/usecases/verification/consume-verification-flow.usecase';
+import { MagicLinkLoginHandlerResult } from '@src/usecases/verification/magic-link/magic-link-login-result.types';
+import { PinoLogger } from 'nestjs-pino';
+import { CheckLoginMfaUsecase } from './check-login-mfa.usecase';
+import { LoginByAccountIdUsecase } from './login-by-account-id.usecase';
+
+/**
+ * 魔法链接登录参数
+ */
+export interface LoginWithMagicLinkParams {
+  /** 邮件中的登录令牌 */
+  token: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * 魔法链接登录用例
+ * 消费 MAGIC_LINK 记录（失败按 IP 计入验证码防暴力破解），再按请求链接时的客户端类型登录
+ */
+@Injectable()
+export class LoginWithMagicLinkUsecase {
+  constructor(
+    private readonly consumeVerificationFlowUsecase: ConsumeVerificationFlowUsecase,
+    private readonly checkLoginMfaUsecase: CheckLoginMfaUsecase,
+    private readonly loginByAccountIdUsecase: LoginByAccountIdUsecase,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(LoginWithMagicLinkUsecase.name);
+  }
+
+  /**
+   * 执行魔法链接登录
+   * @param params 登录参数
+   * @returns 增强的登录结果
+   */
+  async execute({ token, ip, userAgent }: LoginWithMagicLinkParams): Promise<EnrichedLoginResult> {
+    try {
+      const { accountId, audience } = (await this.consumeVerificationFlowUsecase.execute({
+        token,
+        expectedType: VerificationRecordType.MAGIC_LINK,
+        clientIp: ip,
+      })) as MagicLinkLoginHandlerResult;
+
+      // 二次验证：已启用或被策略强制时抛 MFA_REQUIRED（携带挑战令牌），不签发令牌
+      await this.checkLoginMfaUsecase.execute({ accountId, audience });
+
+      return await this.loginByAccountIdUsecase.execute({ accountId, ip, userAgent, audience });
+    } catch (error) {
+      // 需要二次验证属于正常分支，不记为登录失败
+      if (isDomainError(error) && error.code === AUTH_ERROR.MFA_REQUIRED) {
+        throw error;
+      }
+
+      this.logger.error(
+        { ip, error: isDomainError(error) ? error.code : 'UNKNOWN_ERROR' },
+        '魔法链接登录失败',
+      );
+      throw error;
+    }
+  }
+}
@@ -1,18 +1,27 @@
 // src/usecases/auth/login-with-password.usecase.ts
 
 import { EnrichedLoginResult, LoginWarningType } from '@app-types/auth/login-flow.types';
+import { LoginThrottleScope, LoginThrottleSubject } from '@app-types/auth/login-throttle.types';
 import { JwtPayload } from '@app-types/jwt.types';
 import { AccountStatus } from '@app-types/models/account.types';
 import { AuthLoginModel } from '@app-types/models/auth.types';
 import { AUTH_ERROR, DomainError, isDomainError } from '@core/common/errors';
 import { Injectable } from '@nestjs/common';
-import { TokenHelper } from '@modules/auth/token.helper';
+import { AuthService } from '@modules/auth/auth.service';
+import { LoginThrottleService } from '@modules/auth/services/login-throttle.service';
 import { AccountService } from '@src/modules/account/base/services/account.service';
 import { PinoLogger } from 'nestjs-pino';
+import { CheckLoginMfaUsecase } from './check-login-mfa.usecase';
 import { DecideLoginRoleUsecase } from './decide-login-role.usecase';
 import { EnrichLoginWithIdentityUsecase } from './enrich-login-with-identity.usecase';
 import { ExecuteLoginFlowUsecase } from './execute-login-flow.usecase';
 
+/** 计入防暴力破解失败次数的错误码（凭据类错误） */
+const CREDENTIAL_FAILURE_CODES: ReadonlyArray<string> = [
+  AUTH_ERROR.ACCOUNT_NOT_FOUND,
+  AUTH_ERROR.INVALID_PASSWORD,
+];
+
 /**
  * 密码登录用例
  * 负责编排密码登录的完整流程（Validate → Execute → Decide → Enrich）
@@ -24,7 +33,9 @@ export class LoginWithPasswordUsecase {
     private readonly executeLoginFlowUsecase: ExecuteLoginFlowUsecase,
     private readonly decideLoginRoleUsecase: DecideLoginRoleUsecase,
     private readonly enrichLoginWithIdentityUsecase: EnrichLoginWithIdentityUsecase,
-    private readonly tokenHelper: TokenHelper,
+    private readonly authService: AuthService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly checkLoginMfaUsecase: CheckLoginMfaUsecase,
     private readonly logger: PinoLogger,
   ) {
     this.logger.setContext(LoginWithPasswordUsecase.name);
@@ -39,16 +50,24 @@ export class LoginWithPasswordUsecase {
     loginName,
     loginPassword,
     ip,
+    userAgent,
     audience,
   }: AuthLoginModel): Promise<EnrichedLoginResult> {
     try {
-      // Validate: 验证登录凭据
-      const account = await this.validateLoginCredentials({ loginName, loginPassword });
+      // Validate: 验证登录凭据（含失败计数与临时锁定）
+      const account = await this.validateWithThrottle(
+        { loginName, loginPassword },
+        { scope: LoginThrottleScope.PASSWORD, loginName, ip },
+      );
+
+      // 二次验证：已启用或被策略强制时抛 MFA_REQUIRED（携带挑战令牌），不签发令牌
+      await this.checkLoginMfaUsecase.execute({ accountId: account.id, audience });
 
       // Execute: 执行基础登录流程
       const basicResult = await this.executeLoginFlowUsecase.execute({
         accountId: account.id,
         ip,
+        userAgent,
         audience,
       });
 
@@ -58,7 +77,7 @@ export class LoginWithPasswordUsecase {
         {
           accountId: basicResult.accountId,
           ip: ip || '',
-          userAgent: '',
+          userAgent: userAgent || '',
           audience: audience,
         },
       );
@@ -88,7 +107,12 @@ export class LoginWithPasswordUsecase {
         accessGroup: basicResult.accessGroup,
         ...(hasRoles ? { activeRole: finalRole } : {}),
       };
-      const accessToken = this.tokenHelper.generateAccessToken({ payload, audience });
+      // 按最终角色重新签发 access token，沿用登录流程建立的会话声明
+      const accessToken = this.authService.signAccessToken({
+        payload,
+        audience,
+        ...basicResult.session,
+      });
       const tokens = { accessToken, refreshToken: basicResult.tokens.refreshToken };
 
       // Enrich: 装配身份信息
@@ -112,6 +136,11 @@ export class LoginWithPasswordUsecase {
 
       return enrichedResult;
     } catch (error) {
+      // 需要二次验证属于正常分支，不记为登录失败
+      if (isDomainError(error) && error.code === AUTH_ERROR.MFA_REQUIRED) {
+        throw error;
+      }
+
       // 记录登录失败
       this.logger.error(
         { loginName, ip, audience, error: isDomainError(error) ? error.code : 'UNKNOWN_ERROR' },
@@ -123,6 +152,31 @@ export class LoginWithPasswordUsecase {
     }
   }
 
+  /**
+   * 在防暴力破解保护下验证登录凭据
+   * 锁定中直接拒绝；凭据错误计入失败次数；成功后清除登录名维度的计数
+   * @param credentials 登录名与密码
+   * @param subject 限流主体
+   * @returns 验证通过的账户信息
+   */
+  private async validateWithThrottle(
+    credentials: Pick<AuthLoginModel, 'loginName' | 'loginPassword'>,
+    subject: LoginThrottleSubject,
+  ) {
+    await this.loginThrottleService.assertNotLocked(subject);
+
+    try {
+      const account = await this.validateLoginCredentials(credentials);
+      await this.loginThrottleService.recordSuccess(subject);
+      return account;
+    } catch (error) {
+      if (isDomainError(error) && CREDENTIAL_FAILURE_CODES.includes(error.code)) {
+        await this.loginThrottleService.recordFailure(subject);
+      }
+      throw error;
+    }
+  }
+
   /**
    * 验证登录凭据
    * @param params 登录参数
@@ -144,7 +198,7 @@ export class LoginWithPasswordUsecase {
     }
 
     // 验证密码
-    const isPasswordValid = AccountService.verifyPassword(
+    const isPasswordValid = await AccountService.verifyPassword(
       loginPassword,
       account.loginPassword,
       account.createdAt,
@@ -154,6 +208,37 @@ export class LoginWithPasswordUsecase {
       throw new DomainError(AUTH_ERROR.INVALID_PASSWORD, '密码错误');
     }
 
+    // 老方案哈希在登录成功后透明迁移到当前方案
+    if (AccountService.needsPasswordRehash(account.loginPassword)) {
+      await this.rehashPassword(account.id, account.loginPassword, loginPassword);
+    }
+
     return account;
   }
+
+  /**
+   * 按当前方案重算密码哈希
+   * 失败只记录日志，不影响本次登录（下次登录会再次尝试）
+   */
+  private async rehashPassword(
+    accountId: number,
+    currentHash: string,
+    password: string,
+  ): Promise<void> {
+    try {
+      const upgraded = await this.accountService.upgradePasswordHash({
+        accountId,
+        currentHash,
+        password,
+      });
+      if (upgraded) {
+        this.logger.info({ event: 'password_rehashed', accountId }, '密码哈希已迁移到当前方案');
+      }
+    } catch (error) {
+      this.logger.warn(
+        { event: 'password_rehash_failed', accountId, error: (error as Error)?.message },
+        '密码哈希迁移失败',
+      );
+    }
+  }
 }
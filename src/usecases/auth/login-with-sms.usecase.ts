@@ -0,0 +1,88 @@
+// src/usecases/auth/login-with-sms.usecase.ts
+
+import { EnrichedLoginResult } from '@app-types/auth/login-flow.types';
+import { SmsCodePurpose } from '@app-types/auth/sms-code.types';
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { AUTH_ERROR, isDomainError } from '@core/common/errors';
+import { normalizePhone } from '@core/common/normalize/normalize.helper';
+import { VerificationCodeHelper } from '@modules/verification-record/verification-code.helper';
+import { Injectable } from '@nestjs/common';
+import { ConsumeVerificationFlowUsecase } from '@src/usecases/verification/consume-verification-flow.usecase';
+import { PinoLogger } from 'nestjs-pino';
+import { CheckLoginMfaUsecase } from './check-login-mfa.usecase';
+import { LoginByAccountIdUsecase } from './login-by-account-id.usecase';
+
+/**
+ * 短信验证码登录参数
+ */
+export interface LoginWithSmsParams {
+  /** 已验证的手机号 */
+  phone: string;
+  /** 短信验证码 */
+  code: string;
+  ip?: string;
+  userAgent?: string;
+  audience: AudienceTypeEnum;
+}
+
+/**
+ * 短信验证码登录用例
+ * 按手机号定位 LOGIN 用途的 SMS_VERIFY_CODE 并比对验证码（失败计入记录尝试次数与 IP 防暴力破解），再按账户 ID 登录
+ */
+@Injectable()
+export class LoginWithSmsUsecase {
+  constructor(
+    private readonly consumeVerificationFlowUsecase: ConsumeVerificationFlowUsecase,
+    private readonly verificationCodeHelper: VerificationCodeHelper,
+    private readonly checkLoginMfaUsecase: CheckLoginMfaUsecase,
+    private readonly loginByAccountIdUsecase: LoginByAccountIdUsecase,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(LoginWithSmsUsecase.name);
+  }
+
+  /**
+   * 执行短信验证码登录
+   * @param params 登录参数
+   * @returns 增强的登录结果
+   */
+  async execute({
+    phone,
+    code,
+    ip,
+    userAgent,
+    audience,
+  }: LoginWithSmsParams): Promise<EnrichedLoginResult> {
+    try {
+      const normalizedPhone = normalizePhone(phone);
+      const token = this.verificationCodeHelper.buildSmsCodeToken({
+        phone: normalizedPhone,
+        purpose: SmsCodePurpose.LOGIN,
+        code,
+      });
+      const { accountId } = await this.consumeVerificationFlowUsecase.execute({
+        token,
+        expectedType: VerificationRecordType.SMS_VERIFY_CODE,
+        clientIp: ip,
+        codeScope: { payload: { phone: normalizedPhone, purpose: SmsCodePurpose.LOGIN } },
+      });
+
+      // 二次验证：已启用或被策略强制时抛 MFA_REQUIRED（携带挑战令牌），不签发令牌
+      await this.checkLoginMfaUsecase.execute({ accountId, audience });
+
+      return await this.loginByAccountIdUsecase.execute({ accountId, ip, userAgent, audience });
+    } catch (error) {
+      // 需要二次验证属于正常分支，不记为登录失败
+      if (isDomainError(error) && error.code === AUTH_ERROR.MFA_REQUIRED) {
+        throw error;
+      }
+
+      this.logger.error(
+        { ip, audience, error: isDomainError(error) ? error.code : 'UNKNOWN_ERROR' },
+        '短信验证码登录失败',
+      );
+      throw error;
+    }
+  }
+}
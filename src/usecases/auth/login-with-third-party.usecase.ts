@@ -2,12 +2,16 @@
 
 import { Injectable } from '@nestjs/common';
 
+import { LoginThrottleScope } from '@app-types/auth/login-throttle.types';
 import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
 import { LoginResultModel } from '@app-types/models/auth.types';
-import { DomainError, THIRDPARTY_ERROR } from '@core/common/errors';
+import { ThirdPartySession } from '@app-types/models/third-party-auth.types';
+import { DomainError, isDomainError, THIRDPARTY_ERROR } from '@core/common/errors';
 import { normalizeRequiredText } from '@core/common/input-normalize/input-normalize.policy';
 
+import { LoginThrottleService } from '@modules/auth/services/login-throttle.service';
 import { ThirdPartyAuthService } from '@modules/third-party-auth/third-party-auth.service';
+import { CheckLoginMfaUsecase } from './check-login-mfa.usecase';
 import { LoginByAccountIdUsecase } from './login-by-account-id.usecase';
 
 /**
@@ -18,17 +22,22 @@ export interface ThirdPartyLoginParams {
   provider: ThirdPartyProviderEnum;
   authCredential: string; // 小程序 js_code、网页 code、id_token 等
   audience: AudienceTypeEnum;
+  state?: string; // OIDC / OAuth2 回调中的 state
+  flowToken?: string; // OIDC / OAuth2 登录流程令牌（beginOidcLogin 返回）
   ip?: string;
+  userAgent?: string;
 }
 
 /**
  * 第三方登录用例
  * 流程：
  *  1) 解析第三方凭证 → 标准会话
- *  2) 用 provider + providerUserId 查绑定
- *  3) 已绑定 → 按 accountId 发放令牌
+ *  2) 用 provider + providerUserId 查绑定；未命中时按 unionid 关联其他平台已绑定的账户并补建绑定
+ *  3) 已绑定 → 二次验证检查（需要时抛 MFA_REQUIRED）→ 按 accountId 发放令牌
  *  4) 未绑定 → 抛领域错误（统一错误码）
  *
+ * 凭证无效按来源 IP 计入防暴力破解失败次数，锁定期间直接拒绝
+ *
  * 只抛 DomainError；不抛 HttpException
  */
 @Injectable()
@@ -36,26 +45,41 @@ export class LoginWithThirdPartyUsecase {
   constructor(
     private readonly tpa: ThirdPartyAuthService,
     private readonly loginByAccountId: LoginByAccountIdUsecase,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly checkLoginMfaUsecase: CheckLoginMfaUsecase,
   ) {}
 
   async execute(params: ThirdPartyLoginParams): Promise<LoginResultModel> {
     const provider = params.provider;
     const audience = params.audience ?? AudienceTypeEnum.DESKTOP; // 修复：直接使用枚举值
     const ip = params.ip;
-    const authCredential = normalizeThirdPartyAuthCredential(params.authCredential);
+    const throttleSubject = { scope: LoginThrottleScope.THIRD_PARTY, ip };
+    await this.loginThrottleService.assertNotLocked(throttleSubject);
 
     // 1) 解析第三方凭证
-    const session = await this.resolveIdentitySafe({
-      provider,
-      authCredential,
-      audience, // 修复：现在是 AudienceTypeEnum 类型
-    });
+    let session: ThirdPartySession;
+    try {
+      const authCredential = normalizeThirdPartyAuthCredential(params.authCredential);
+      session = await this.resolveIdentitySafe({
+        provider,
+        authCredential,
+        audience, // 修复：现在是 AudienceTypeEnum 类型
+        state: params.state,
+        flowToken: params.flowToken,
+      });
+    } catch (error) {
+      if (isDomainError(error) && error.code === THIRDPARTY_ERROR.CREDENTIAL_INVALID) {
+        await this.loginThrottleService.recordFailure(throttleSubject);
+      }
+      throw error;
+    }
 
-    // 2) 查找绑定关系
-    const bound = await this.tpa.findAccountByThirdParty({
-      provider,
-      providerUserId: session.providerUserId,
-    });
+    // 2) 查找绑定关系（如小程序用户首次网页授权登录：按 unionid 归入同一账户）
+    const bound =
+      (await this.tpa.findAccountByThirdParty({
+        provider,
+        providerUserId: session.providerUserId,
+      })) ?? (await this.tpa.linkByUnionId({ provider, session }));
 
     if (!bound?.accountId) {
       // 平台无关、可前端稳定识别的错误码
@@ -65,10 +89,12 @@ export class LoginWithThirdPartyUsecase {
       });
     }
 
-    // 3) 已绑定 → 按 accountId 发放令牌（复用既有用例）
+    // 3) 已绑定 → 二次验证检查后按 accountId 发放令牌（复用既有用例）
+    await this.checkLoginMfaUsecase.execute({ accountId: bound.accountId, audience });
     const result = await this.loginByAccountId.execute({
       accountId: bound.accountId,
       ip,
+      userAgent: params.userAgent,
       audience, // 修复：现在是 AudienceTypeEnum 类型
       provider,
     });
@@ -84,6 +110,8 @@ export class LoginWithThirdPartyUsecase {
     provider: ThirdPartyProviderEnum;
     authCredential: string;
     audience: AudienceTypeEnum;
+    state?: string;
+    flowToken?: string;
   }) {
     try {
       return await this.tpa.resolveIdentity(args);
@@ -1 +1,85 @@
 // src/usecases/auth/logout.usecase.ts
+
+import { LogoutParams, RefreshTokenRevokeReason } from '@app-types/auth/refresh-token.types';
+import { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import { TokenRevocationService } from '@modules/auth/services/token-revocation.service';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { PinoLogger } from 'nestjs-pino';
+
+/**
+ * 登出用例
+ * - 当前会话：注销本枚 access token 并作废所属 refresh token 家族
+ * - 全部设备：递增账户 tokenVersion 并作废账户下全部家族
+ */
+@Injectable()
+export class LogoutUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly refreshTokenFamilyService: RefreshTokenFamilyService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(LogoutUsecase.name);
+  }
+
+  /**
+   * 登出当前会话
+   * @param params 当前 access token 的声明
+   */
+  async execute({ accountId, jti, familyId, expiresAt }: LogoutParams): Promise<void> {
+    if (familyId) {
+      await this.refreshTokenFamilyService.revokeFamily({
+        familyId,
+        reason: RefreshTokenRevokeReason.LOGOUT,
+      });
+      await this.tokenRevocationService.markSessionRevoked(familyId);
+    }
+
+    if (jti && expiresAt) {
+      await this.tokenRevocationService.revokeAccessToken({
+        jti,
+        accountId,
+        expiresAt,
+        reason: RefreshTokenRevokeReason.LOGOUT,
+      });
+    }
+
+    this.logger.info({ event: 'logout', accountId, familyId }, '用户登出当前会话');
+  }
+
+  /**
+   * 登出全部设备
+   * 递增 tokenVersion 后，此前签发的 access/refresh token 均无法再通过校验
+   * @param params 账户 ID 与作废原因（管理员强制下线时可复用）
+   * @returns 被作废的会话数量
+   */
+  async executeAllDevices({
+    accountId,
+    reason = RefreshTokenRevokeReason.LOGOUT_ALL,
+  }: {
+    accountId: number;
+    reason?: RefreshTokenRevokeReason;
+  }): Promise<{ revokedSessions: number }> {
+    const revokedSessions = await this.accountService.runTransaction(async (manager) => {
+      const account = await this.accountService.lockByIdForUpdate(accountId, manager);
+      await this.accountService.updateAccount(
+        accountId,
+        { tokenVersion: account.tokenVersion + 1 },
+        manager,
+      );
+      return await this.refreshTokenFamilyService.revokeAllByAccountId({
+        accountId,
+        reason,
+        manager,
+      });
+    });
+
+    this.logger.info(
+      { event: 'logout_all_devices', accountId, reason, revokedSessions },
+      '账户已在全部设备登出',
+    );
+
+    return { revokedSessions };
+  }
+}
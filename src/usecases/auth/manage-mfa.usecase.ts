@@ -0,0 +1,45 @@
+// src/usecases/auth/manage-mfa.usecase.ts
+
+import { MfaStatusView } from '@app-types/auth/mfa.types';
+import { AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { MfaService } from '@modules/auth/services/mfa.service';
+import { Injectable } from '@nestjs/common';
+
+/**
+ * 二次验证管理用例（已登录用户）
+ * 停用与重新生成恢复码均需再次校验第二因子
+ */
+@Injectable()
+export class ManageMfaUsecase {
+  constructor(private readonly mfaService: MfaService) {}
+
+  /**
+   * 查询当前账户二次验证状态
+   * @param params 账户 ID 与权限组
+   */
+  async getStatus(params: { accountId: number; accessGroup: string[] }): Promise<MfaStatusView> {
+    return await this.mfaService.getStatus(params);
+  }
+
+  /**
+   * 停用二次验证（被 MFA_REQUIRED 策略强制的身份不可停用）
+   * @param params 账户 ID、权限组与验证码（TOTP 或恢复码）
+   */
+  async disable(params: { accountId: number; accessGroup: string[]; code: string }): Promise<void> {
+    if (this.mfaService.isRequiredFor(params.accessGroup)) {
+      throw new DomainError(AUTH_ERROR.MFA_REQUIRED, '当前身份要求启用二次验证，不可停用');
+    }
+    await this.mfaService.verifySecondFactor(params);
+    await this.mfaService.disable(params.accountId);
+  }
+
+  /**
+   * 重新生成恢复码（旧恢复码全部作废）
+   * @param params 账户 ID 与验证码（TOTP 或恢复码）
+   * @returns 新恢复码原文
+   */
+  async regenerateRecoveryCodes(params: { accountId: number; code: string }): Promise<string[]> {
+    await this.mfaService.verifySecondFactor(params);
+    return await this.mfaService.regenerateRecoveryCodes(params.accountId);
+  }
+}
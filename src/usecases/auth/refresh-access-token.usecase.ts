@@ -1 +1,281 @@
 // src/usecases/auth/refresh-access-token.usecase.ts
+
+import {
+  RefreshAccessTokenParams,
+  RefreshAccessTokenResult,
+  RefreshTokenFamilyStatus,
+  RefreshTokenFamilyView,
+  RefreshTokenRevokeReason,
+} from '@app-types/auth/refresh-token.types';
+import { JwtPayload } from '@app-types/jwt.types';
+import { AccountStatus, AudienceTypeEnum } from '@app-types/models/account.types';
+import {
+  ACCOUNT_ERROR,
+  AUTH_ERROR,
+  DomainError,
+  DomainErrorCode,
+} from '@core/common/errors/domain-error';
+import { AuthService } from '@modules/auth/auth.service';
+import { LoginBootstrapQueryService } from '@modules/auth/queries/login-bootstrap.query.service';
+import { LoginResultQueryService } from '@modules/auth/queries/login-result.query.service';
+import { AuthSessionService } from '@modules/auth/services/auth-session.service';
+import { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import { TokenRevocationService } from '@modules/auth/services/token-revocation.service';
+import { TokenHelper } from '@modules/auth/token.helper';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { PinoLogger } from 'nestjs-pino';
+import { EntityManager } from 'typeorm';
+import { DecideLoginRoleUsecase } from './decide-login-role.usecase';
+
+/**
+ * 已校验的 refresh token 声明
+ */
+interface RefreshTokenClaims {
+  accountId: number;
+  familyId: string;
+  jti: string;
+  tokenVersion: number;
+}
+
+/**
+ * 事务内轮换结果
+ * - rejected 时携带错误，待事务提交后再抛出，确保家族作废已落库
+ * - revokedFamilyId：本次作废的家族，事务提交后写入会话下线标记
+ */
+type RotationOutcome =
+  | { kind: 'rotated'; nextJti: string; family: RefreshTokenFamilyView }
+  | { kind: 'rejected'; error: DomainError; revokedFamilyId?: string };
+
+/**
+ * 刷新访问令牌用例
+ * 职责：校验 refresh token → 轮换家族 jti（重用即作废整个家族）→ 签发新的 access/refresh 令牌对
+ */
+@Injectable()
+export class RefreshAccessTokenUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly authService: AuthService,
+    private readonly tokenHelper: TokenHelper,
+    private readonly refreshTokenFamilyService: RefreshTokenFamilyService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly authSessionService: AuthSessionService,
+    private readonly loginBootstrapQueryService: LoginBootstrapQueryService,
+    private readonly loginResultQueryService: LoginResultQueryService,
+    private readonly decideLoginRoleUsecase: DecideLoginRoleUsecase,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(RefreshAccessTokenUsecase.name);
+  }
+
+  /**
+   * 执行令牌刷新
+   * @param params refresh token 与客户端类型
+   * @returns 新的令牌对
+   */
+  async execute({
+    refreshToken,
+    audience,
+  }: RefreshAccessTokenParams): Promise<RefreshAccessTokenResult> {
+    if (!this.authService.isRefreshEnabled()) {
+      throw new DomainError(AUTH_ERROR.REFRESH_DISABLED, '当前环境未启用令牌刷新');
+    }
+
+    if (!this.authService.validateAudience(audience)) {
+      throw new DomainError(AUTH_ERROR.INVALID_AUDIENCE, `无效的客户端类型: ${audience}`);
+    }
+
+    const claims = this.verifyRefreshToken(refreshToken, audience);
+
+    const outcome = await this.refreshTokenFamilyService.runTransaction((manager) =>
+      this.rotateInTransaction(claims, manager),
+    );
+
+    if (outcome.kind === 'rejected') {
+      if (outcome.revokedFamilyId) {
+        await this.tokenRevocationService.markSessionRevoked(outcome.revokedFamilyId);
+      }
+      throw outcome.error;
+    }
+
+    const accessToken = await this.generateAccessToken(claims, audience);
+    const nextRefreshToken = this.authService.signRefreshToken({
+      accountId: claims.accountId,
+      tokenVersion: claims.tokenVersion,
+      audience,
+      familyId: outcome.family.familyId,
+      jti: outcome.nextJti,
+    });
+
+    return {
+      accessToken,
+      refreshToken: nextRefreshToken,
+      accountId: claims.accountId,
+    };
+  }
+
+  /**
+   * 校验 refresh token 签名、类型与 audience，并提取家族声明
+   * @param refreshToken refresh token
+   * @param audience 客户端类型
+   * @returns 已校验的声明
+   */
+  private verifyRefreshToken(refreshToken: string, audience: AudienceTypeEnum): RefreshTokenClaims {
+    // 签名/过期错误由 TokenHelper 统一映射为 JWT_ERROR
+    const payload: JwtPayload = this.tokenHelper.verifyToken({ token: refreshToken });
+
+    if (payload.type !== 'refresh') {
+      throw new DomainError(AUTH_ERROR.INVALID_REFRESH_TOKEN, '无效的 refresh token 类型');
+    }
+
+    if (payload.aud !== audience) {
+      throw new DomainError(AUTH_ERROR.INVALID_AUDIENCE, 'refresh token 与客户端类型不匹配', {
+        audience,
+      });
+    }
+
+    if (!payload.fid || !payload.jti || typeof payload.tokenVersion !== 'number') {
+      throw new DomainError(AUTH_ERROR.INVALID_REFRESH_TOKEN, 'refresh token 缺少家族声明');
+    }
+
+    return {
+      accountId: payload.sub,
+      familyId: payload.fid,
+      jti: payload.jti,
+      tokenVersion: payload.tokenVersion,
+    };
+  }
+
+  /**
+   * 在事务内加锁校验家族并轮换 jti
+   * @param claims refresh token 声明
+   * @param manager 事务管理器
+   * @returns 轮换结果
+   */
+  private async rotateInTransaction(
+    claims: RefreshTokenClaims,
+    manager: EntityManager,
+  ): Promise<RotationOutcome> {
+    const family = await this.refreshTokenFamilyService.lockByFamilyIdForUpdate(
+      claims.familyId,
+      manager,
+    );
+    if (!family || family.accountId !== claims.accountId) {
+      return this.reject(AUTH_ERROR.INVALID_REFRESH_TOKEN, 'refresh token 无效');
+    }
+
+    if (family.status === RefreshTokenFamilyStatus.REVOKED) {
+      return this.reject(AUTH_ERROR.REFRESH_TOKEN_REVOKED, 'refresh token 已失效，请重新登录');
+    }
+
+    // 旧 jti 被再次使用：视为泄露，作废整个家族
+    if (family.currentJti !== claims.jti) {
+      await this.refreshTokenFamilyService.revokeFamily({
+        familyId: family.familyId,
+        reason: RefreshTokenRevokeReason.REUSE_DETECTED,
+        manager,
+      });
+      this.logger.warn(
+        {
+          event: 'refresh_token_reuse_detected',
+          accountId: claims.accountId,
+          familyId: family.familyId,
+          rotationCount: family.rotationCount,
+        },
+        '检测到 refresh token 重用，已作废整个令牌家族',
+      );
+      return this.reject(
+        AUTH_ERROR.REFRESH_TOKEN_REUSED,
+        'refresh token 已被使用，请重新登录',
+        family.familyId,
+      );
+    }
+
+    const account = await this.accountService.findOneById(claims.accountId, manager);
+    if (!account) {
+      return this.reject(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '账户不存在');
+    }
+
+    if (account.tokenVersion !== claims.tokenVersion) {
+      await this.refreshTokenFamilyService.revokeFamily({
+        familyId: family.familyId,
+        reason: RefreshTokenRevokeReason.TOKEN_VERSION_MISMATCH,
+        manager,
+      });
+      return this.reject(AUTH_ERROR.REFRESH_TOKEN_REVOKED, 'refresh token 已失效，请重新登录');
+    }
+
+    if (account.status !== AccountStatus.ACTIVE) {
+      return this.reject(AUTH_ERROR.ACCOUNT_INACTIVE, '账户未激活或已被禁用');
+    }
+
+    const nextJti = await this.refreshTokenFamilyService.rotate({
+      familyId: family.familyId,
+      expectedJti: claims.jti,
+      manager,
+    });
+    if (!nextJti) {
+      return this.reject(AUTH_ERROR.INVALID_REFRESH_TOKEN, 'refresh token 轮换失败');
+    }
+    await this.authSessionService.touchByFamilyId(family.familyId, manager);
+
+    return { kind: 'rotated', nextJti, family };
+  }
+
+  /**
+   * 按最新账户数据签发 access token（角色决策与登录保持一致）
+   * @param claims refresh token 声明（账户、家族与 tokenVersion）
+   * @param audience 客户端类型
+   * @returns access token
+   */
+  private async generateAccessToken(
+    claims: RefreshTokenClaims,
+    audience: AudienceTypeEnum,
+  ): Promise<string> {
+    const { accountId } = claims;
+    const account = await this.accountService.findOneById(accountId);
+    const userInfo = await this.accountService.findUserInfoByAccountId(accountId);
+    if (!account || !userInfo) {
+      throw new DomainError(ACCOUNT_ERROR.USER_INFO_NOT_FOUND, '用户信息不存在');
+    }
+
+    const userData = this.loginBootstrapQueryService.toLoginUserDataCollection({
+      account,
+      userInfo,
+    });
+    const basicResult = this.loginResultQueryService.toBasicLoginResult({
+      userData,
+      tokens: { accessToken: '', refreshToken: '' },
+      session: { familyId: claims.familyId, tokenVersion: claims.tokenVersion },
+    });
+
+    const { finalRole } = this.decideLoginRoleUsecase.execute(
+      { roleFromHint: basicResult.roleFromHint, accessGroup: basicResult.accessGroup },
+      { accountId, ip: '', userAgent: '', audience },
+    );
+
+    const hasRoles = basicResult.accessGroup.length > 0;
+    const payload: JwtPayload = {
+      sub: accountId,
+      username: basicResult.userInfo.nickname,
+      email: basicResult.account.loginEmail,
+      accessGroup: basicResult.accessGroup,
+      ...(hasRoles && basicResult.accessGroup.includes(finalRole) ? { activeRole: finalRole } : {}),
+    };
+
+    return this.authService.signAccessToken({
+      payload,
+      audience,
+      tokenVersion: claims.tokenVersion,
+      familyId: claims.familyId,
+    });
+  }
+
+  private reject(
+    code: DomainErrorCode,
+    message: string,
+    revokedFamilyId?: string,
+  ): RotationOutcome {
+    return { kind: 'rejected', error: new DomainError(code, message), revokedFamilyId };
+  }
+}
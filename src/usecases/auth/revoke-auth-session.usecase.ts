@@ -0,0 +1,50 @@
+// src/usecases/auth/revoke-auth-session.usecase.ts
+
+import { RefreshTokenRevokeReason } from '@app-types/auth/refresh-token.types';
+import { AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { AuthSessionService } from '@modules/auth/services/auth-session.service';
+import { RefreshTokenFamilyService } from '@modules/auth/services/refresh-token-family.service';
+import { TokenRevocationService } from '@modules/auth/services/token-revocation.service';
+import { Injectable } from '@nestjs/common';
+import { PinoLogger } from 'nestjs-pino';
+
+/**
+ * 远程下线会话用例
+ * 作废会话关联的 refresh token 家族；JwtStrategy 按家族判定，已签发的 access token 同步失效
+ */
+@Injectable()
+export class RevokeAuthSessionUsecase {
+  constructor(
+    private readonly authSessionService: AuthSessionService,
+    private readonly refreshTokenFamilyService: RefreshTokenFamilyService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(RevokeAuthSessionUsecase.name);
+  }
+
+  /**
+   * 下线当前账户的指定会话（重复下线视为成功）
+   * @param params 当前账户 ID 与会话 ID
+   */
+  async execute({ accountId, sessionId }: { accountId: number; sessionId: number }): Promise<void> {
+    const session = await this.authSessionService.findById(sessionId);
+    // 不区分“不存在”与“不属于本人”，避免泄露他人会话
+    if (!session || session.accountId !== accountId) {
+      throw new DomainError(AUTH_ERROR.SESSION_NOT_FOUND, '会话不存在', { sessionId });
+    }
+
+    const revoked = await this.refreshTokenFamilyService.revokeFamily({
+      familyId: session.familyId,
+      reason: RefreshTokenRevokeReason.SESSION_REVOKED,
+    });
+    if (revoked) {
+      await this.tokenRevocationService.markSessionRevoked(session.familyId);
+    }
+
+    this.logger.info(
+      { event: 'session_revoked', accountId, sessionId, changed: revoked },
+      '会话已远程下线',
+    );
+  }
+}
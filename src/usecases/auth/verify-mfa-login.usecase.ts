@@ -0,0 +1,82 @@
+// src/usecases/auth/verify-mfa-login.usecase.ts
+
+import { EnrichedLoginResult } from '@app-types/auth/login-flow.types';
+import { LoginThrottleScope, LoginThrottleSubject } from '@app-types/auth/login-throttle.types';
+import { AUTH_ERROR, isDomainError } from '@core/common/errors';
+import { AuthService } from '@modules/auth/auth.service';
+import { LoginThrottleService } from '@modules/auth/services/login-throttle.service';
+import { MfaService } from '@modules/auth/services/mfa.service';
+import { Injectable } from '@nestjs/common';
+import { LoginByAccountIdUsecase } from './login-by-account-id.usecase';
+
+/**
+ * 二次验证登录结果
+ * recoveryCodes 仅在本次同时完成强制绑定时返回
+ */
+export interface VerifyMfaLoginResult {
+  login: EnrichedLoginResult;
+  recoveryCodes: string[] | null;
+}
+
+/**
+ * 二次验证登录用例（两步登录的第二步）
+ * 流程：校验挑战令牌 → 校验 TOTP / 恢复码（强制绑定场景则确认绑定）→ 按账户 ID 签发令牌
+ */
+@Injectable()
+export class VerifyMfaLoginUsecase {
+  constructor(
+    private readonly authService: AuthService,
+    private readonly mfaService: MfaService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly loginByAccountIdUsecase: LoginByAccountIdUsecase,
+  ) {}
+
+  /**
+   * @param params 挑战令牌、验证码与客户端信息
+   * @returns 登录结果
+   */
+  async execute(params: {
+    mfaChallengeToken: string;
+    code: string;
+    ip?: string;
+    userAgent?: string;
+  }): Promise<VerifyMfaLoginResult> {
+    const claims = this.authService.verifyMfaChallengeToken(params.mfaChallengeToken);
+    const throttleSubject: LoginThrottleSubject = {
+      scope: LoginThrottleScope.MFA,
+      loginName: `account:${claims.accountId}`,
+      ip: params.ip,
+    };
+    await this.loginThrottleService.assertNotLocked(throttleSubject);
+
+    let recoveryCodes: string[] | null = null;
+    try {
+      const enabled = await this.mfaService.isEnabled(claims.accountId);
+      if (!enabled && claims.enrollmentRequired) {
+        recoveryCodes = await this.mfaService.confirmTotpEnrollment({
+          accountId: claims.accountId,
+          code: params.code,
+        });
+      } else {
+        await this.mfaService.verifySecondFactor({
+          accountId: claims.accountId,
+          code: params.code,
+        });
+      }
+    } catch (error) {
+      if (isDomainError(error) && error.code === AUTH_ERROR.MFA_CODE_INVALID) {
+        await this.loginThrottleService.recordFailure(throttleSubject);
+      }
+      throw error;
+    }
+    await this.loginThrottleService.recordSuccess(throttleSubject);
+
+    const login = await this.loginByAccountIdUsecase.execute({
+      accountId: claims.accountId,
+      ip: params.ip,
+      userAgent: params.userAgent,
+      audience: claims.audience,
+    });
+    return { login, recoveryCodes };
+  }
+}
@@ -2,6 +2,7 @@
 import { AudienceTypeEnum, IdentityTypeEnum } from '@app-types/models/account.types';
 import { Injectable } from '@nestjs/common';
 import { ACCOUNT_ERROR, DomainError } from '@src/core/common/errors/domain-error';
+import { AuthService } from '@modules/auth/auth.service';
 import { TokenHelper } from '@modules/auth/token.helper';
 import {
   AccountService,
@@ -77,6 +78,7 @@ export class UpgradeToCoachUsecase {
     private readonly accountService: AccountService,
     private readonly coachService: CoachService,
     private readonly tokenHelper: TokenHelper,
+    private readonly authService: AuthService,
   ) {}
 
   /**
@@ -165,12 +167,14 @@ export class UpgradeToCoachUsecase {
 
     // 5. 生成新的 JWT 令牌
     const userInfo = await this.accountService.findUserInfoByAccountId(accountId, manager);
-    const tokens = this.generateTokens(
+    const tokens = await this.generateTokens(
       accountId,
       userInfo ? userInfo.nickname : account.loginEmail || 'coach',
       account.loginEmail,
       updatedAccessGroup,
       audience,
+      account.tokenVersion,
+      manager,
     );
 
     return {
@@ -261,13 +265,15 @@ export class UpgradeToCoachUsecase {
   /**
    * 生成新的访问令牌和刷新令牌
    */
-  private generateTokens(
+  private async generateTokens(
     accountId: number,
     nickname: string,
     loginEmail: string | null,
     accessGroup: IdentityTypeEnum[],
     audience: AudienceTypeEnum,
-  ): { accessToken: string; refreshToken: string } {
+    tokenVersion: number,
+    manager: AccountTransactionManager,
+  ): Promise<{ accessToken: string; refreshToken: string }> {
     // 组装标准化的 JWT Payload（与 customer 升级保持一致）
     const jwtPayload = this.tokenHelper.createPayloadFromUser({
       id: accountId,
@@ -276,8 +282,18 @@ export class UpgradeToCoachUsecase {
       accessGroup: accessGroup.map((x) => x.toString()),
     });
 
-    const accessToken = this.tokenHelper.generateAccessToken({ payload: jwtPayload, audience });
-    const refreshToken = this.tokenHelper.generateRefreshToken({ payload: jwtPayload, audience });
+    const { refreshToken, familyId } = await this.authService.issueRefreshToken({
+      accountId,
+      tokenVersion,
+      audience,
+      manager,
+    });
+    const accessToken = this.authService.signAccessToken({
+      payload: jwtPayload,
+      audience,
+      tokenVersion,
+      familyId,
+    });
 
     return { accessToken, refreshToken };
   }
@@ -3,6 +3,7 @@
 import { AccountStatus, AudienceTypeEnum, IdentityTypeEnum } from '@app-types/models/account.types';
 import { Injectable } from '@nestjs/common';
 import { ACCOUNT_ERROR, DomainError } from '@src/core/common/errors/domain-error';
+import { AuthService } from '@modules/auth/auth.service';
 import { TokenHelper } from '@modules/auth/token.helper';
 import {
   AccountService,
@@ -76,6 +77,7 @@ export class UpgradeToCustomerUsecase {
     private readonly accountService: AccountService,
     private readonly customerService: CustomerService,
     private readonly tokenHelper: TokenHelper,
+    private readonly authService: AuthService,
   ) {}
 
   /**
@@ -150,12 +152,14 @@ export class UpgradeToCustomerUsecase {
     );
 
     // 5. 生成新的 JWT 令牌
-    const tokens = this.generateTokens(
+    const tokens = await this.generateTokens(
       accountId,
       (await this.accountService.findUserInfoByAccountId(accountId, manager))!.nickname,
       account.loginEmail,
       updatedAccessGroup,
       audience,
+      account.tokenVersion,
+      manager,
     );
 
     return {
@@ -275,13 +279,15 @@ export class UpgradeToCustomerUsecase {
    * @param audience 客户端类型
    * @returns 令牌对象
    */
-  private generateTokens(
+  private async generateTokens(
     accountId: number,
     nickname: string,
     loginEmail: string | null,
     accessGroup: IdentityTypeEnum[],
     audience: AudienceTypeEnum,
-  ): { accessToken: string; refreshToken: string } {
+    tokenVersion: number,
+    manager: AccountTransactionManager,
+  ): Promise<{ accessToken: string; refreshToken: string }> {
     // 使用 TokenHelper 的 createPayloadFromUser 方法创建 payload
     const jwtPayload = this.tokenHelper.createPayloadFromUser({
       id: accountId,
@@ -290,16 +296,20 @@ export class UpgradeToCustomerUsecase {
       accessGroup: accessGroup.map((item) => item.toString()),
     });
 
-    // 生成访问令牌
-    const accessToken = this.tokenHelper.generateAccessToken({
-      payload: jwtPayload,
+    // 生成刷新令牌
+    const { refreshToken, familyId } = await this.authService.issueRefreshToken({
+      accountId,
+      tokenVersion,
       audience,
+      manager,
     });
 
-    // 生成刷新令牌
-    const refreshToken = this.tokenHelper.generateRefreshToken({
-      payload: { sub: jwtPayload.sub },
+    // 生成访问令牌
+    const accessToken = this.authService.signAccessToken({
+      payload: jwtPayload,
       audience,
+      tokenVersion,
+      familyId,
     });
 
     return { accessToken, refreshToken };
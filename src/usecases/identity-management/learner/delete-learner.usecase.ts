@@ -1,7 +1,12 @@
 // src/usecases/identity-management/learner/delete-learner.usecase.ts
 // src/usecases/learner/delete-learner.usecase.ts
 
+import { NotificationCategory } from '@app-types/models/notification.types';
+import { StoredFileAttachmentType } from '@app-types/models/stored-file.types';
 import { Injectable } from '@nestjs/common';
+import { NotificationService } from '@src/modules/notification/notification.service';
+import { StoredFileService } from '@src/modules/stored-file/stored-file.service';
+import { EntityManager } from 'typeorm';
 import {
   DomainError,
   LEARNER_ERROR,
@@ -9,6 +14,7 @@ import {
 } from '../../../core/common/errors/domain-error';
 import { CustomerService } from '../../../modules/account/identities/training/customer/account-customer.service';
 import { ManagerService } from '../../../modules/account/identities/training/manager/manager.service';
+import { LearnerEntity } from '../../../modules/account/identities/training/learner/account-learner.entity';
 import { LearnerService } from '../../../modules/account/identities/training/learner/account-learner.service';
 
 /**
@@ -21,6 +27,8 @@ import { LearnerService } from '../../../modules/account/identities/training/lea
  * - 软删除：设置 deactivatedAt 字段而不是物理删除
  * - 事务保证：所有操作在单事务内完成
  * - 幂等性：重复删除不报错
+ * - 头像文件：同一事务内解除学员头像引用（由清理任务删除）
+ * - 站内通知：同一事务内通知已关联账户的学员本人，以及由 Manager 操作时的所属客户
  */
 @Injectable()
 export class DeleteLearnerUsecase {
@@ -28,6 +36,8 @@ export class DeleteLearnerUsecase {
     private readonly customerService: CustomerService,
     private readonly managerService: ManagerService,
     private readonly learnerService: LearnerService,
+    private readonly notificationService: NotificationService,
+    private readonly storedFileService: StoredFileService,
   ) {}
 
   /**
@@ -43,6 +53,8 @@ export class DeleteLearnerUsecase {
     const { accountId, learnerId, customerId } = input;
     // 双重身份验证：支持 customer 和 manager 身份
     let targetCustomerId: number;
+    // 所属客户的账户 ID（Manager 操作时用于通知客户；Customer 本人操作时不通知）
+    let customerAccountId: number | null = null;
 
     // 首先尝试验证 customer 身份
     const customer = await this.customerService.findByAccountId(accountId);
@@ -78,6 +90,7 @@ export class DeleteLearnerUsecase {
       // }
 
       targetCustomerId = customerId;
+      customerAccountId = targetCustomer.accountId;
     }
 
     return await this.learnerService.runTransaction(async (manager) => {
@@ -124,7 +137,63 @@ export class DeleteLearnerUsecase {
         throw new DomainError(LEARNER_ERROR.LEARNER_DELETE_FAILED, '删除学员信息失败');
       }
 
+      // 5. 解除学员头像文件引用
+      await this.storedFileService.releaseByAttachment({
+        attachedType: StoredFileAttachmentType.LEARNER_AVATAR,
+        attachedId: learnerId,
+        manager,
+      });
+
+      // 6. 通知学员本人与所属客户（随软删除事务提交）
+      await this.notifyLearnerDeactivated({
+        learner,
+        actorAccountId: accountId,
+        customerAccountId,
+        manager,
+      });
+
       return true;
     });
   }
+
+  /**
+   * 发送学员停用通知
+   * 学员本人（已关联账户时）与所属客户各收到一条；操作者本人不通知
+   */
+  private async notifyLearnerDeactivated(params: {
+    learner: LearnerEntity;
+    actorAccountId: number;
+    customerAccountId: number | null;
+    manager: EntityManager;
+  }): Promise<void> {
+    const { learner, actorAccountId, customerAccountId, manager } = params;
+
+    if (learner.accountId && learner.accountId !== actorAccountId) {
+      await this.notificationService.send(
+        {
+          recipientAccountId: learner.accountId,
+          category: NotificationCategory.LEARNER_DEACTIVATED,
+          title: '学员档案已停用',
+          body: `您的学员档案「${learner.name}」已被停用，如有疑问请联系所属客户或管理员。`,
+        },
+        manager,
+      );
+    }
+
+    if (
+      customerAccountId &&
+      customerAccountId !== actorAccountId &&
+      customerAccountId !== learner.accountId
+    ) {
+      await this.notificationService.send(
+        {
+          recipientAccountId: customerAccountId,
+          category: NotificationCategory.LEARNER_DEACTIVATED,
+          title: '学员已停用',
+          body: `您名下的学员「${learner.name}」已被管理员停用。`,
+        },
+        manager,
+      );
+    }
+  }
 }
@@ -0,0 +1,12 @@
+// src/usecases/invite-queue/invite-queue-usecases.module.ts
+import { Module } from '@nestjs/common';
+import { AsyncTaskRecordModule } from '@src/modules/async-task-record/async-task-record.module';
+import { InviteQueueModule } from '@src/modules/common/invite-queue/invite-queue.module';
+import { QueueBulkCoachInviteUsecase } from './queue-bulk-coach-invite.usecase';
+
+@Module({
+  imports: [InviteQueueModule, AsyncTaskRecordModule],
+  providers: [QueueBulkCoachInviteUsecase],
+  exports: [QueueBulkCoachInviteUsecase],
+})
+export class InviteQueueUsecasesModule {}
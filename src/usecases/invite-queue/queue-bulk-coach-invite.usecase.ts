@@ -0,0 +1,81 @@
+// src/usecases/invite-queue/queue-bulk-coach-invite.usecase.ts
+import { Injectable } from '@nestjs/common';
+import {
+  resolveAsyncTaskBizKey,
+  resolveEnqueueFailureIdentifiers,
+} from '@src/core/common/async-task/async-task-identifier.policy';
+import { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { AsyncTaskRecordSource } from '@src/modules/async-task-record/async-task-record.types';
+import { InviteQueueService } from '@src/modules/common/invite-queue/invite-queue.service';
+import type {
+  QueueBulkCoachInviteInput,
+  QueueBulkCoachInviteResult,
+} from '@src/modules/common/invite-queue/invite-queue.types';
+
+@Injectable()
+export class QueueBulkCoachInviteUsecase {
+  constructor(
+    private readonly inviteQueueService: InviteQueueService,
+    private readonly asyncTaskRecordService: AsyncTaskRecordService,
+  ) {}
+
+  async execute(input: QueueBulkCoachInviteInput): Promise<QueueBulkCoachInviteResult> {
+    const occurredAt = new Date();
+    const result = await this.enqueueOrThrow({ input, occurredAt });
+    await this.asyncTaskRecordService.recordEnqueued({
+      data: {
+        queueName: 'invite',
+        jobName: 'bulk-coach',
+        jobId: result.jobId,
+        traceId: result.traceId,
+        actorAccountId: input.issuedByAccountId,
+        bizType: 'invite',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'invite',
+          traceId: result.traceId,
+          jobId: result.jobId,
+        }),
+        source: this.resolveSource(),
+        reason: `enqueue_accepted:rows=${input.rows.length}`,
+        occurredAt,
+      },
+    });
+    return result;
+  }
+
+  private async enqueueOrThrow(input: {
+    readonly input: QueueBulkCoachInviteInput;
+    readonly occurredAt: Date;
+  }): Promise<QueueBulkCoachInviteResult> {
+    try {
+      return await this.inviteQueueService.enqueueBulkCoach(input.input);
+    } catch (error: unknown) {
+      const normalizedError = error instanceof Error ? error : new Error('invite_enqueue_failed');
+      const identifiers = resolveEnqueueFailureIdentifiers({
+        domain: 'invite',
+        traceId: input.input.traceId,
+        occurredAt: input.occurredAt,
+        traceIdPrefix: 'invite-enqueue:',
+      });
+      await this.asyncTaskRecordService.recordEnqueueFailed({
+        data: {
+          queueName: 'invite',
+          jobName: 'bulk-coach',
+          jobId: identifiers.failedJobId,
+          traceId: identifiers.traceId,
+          actorAccountId: input.input.issuedByAccountId,
+          bizType: 'invite',
+          bizKey: identifiers.bizKey,
+          source: this.resolveSource(),
+          reason: normalizedError.message.slice(0, 128),
+          occurredAt: input.occurredAt,
+        },
+      });
+      throw normalizedError;
+    }
+  }
+
+  private resolveSource(): AsyncTaskRecordSource {
+    return 'user_action';
+  }
+}
@@ -0,0 +1,22 @@
+// src/usecases/invite-worker/invite-worker-usecases.module.ts
+import { AccountInstallerModule } from '@modules/account/account-installer.module';
+import { CoachServiceModule } from '@modules/account/identities/training/coach/coach-service.module';
+import { Module } from '@nestjs/common';
+import { AsyncTaskRecordModule } from '@src/modules/async-task-record/async-task-record.module';
+import { VerificationRecordModule } from '@src/modules/verification-record/verification-record.module';
+import { EmailQueueUsecasesModule } from '@src/usecases/email-queue/email-queue-usecases.module';
+import { CreateCoachInvitesBatchUsecase } from '@src/usecases/verification/coach/create-coach-invites-batch.usecase';
+import { ProcessBulkCoachInviteUsecase } from './process-bulk-coach-invite.usecase';
+
+@Module({
+  imports: [
+    VerificationRecordModule,
+    AccountInstallerModule,
+    CoachServiceModule,
+    EmailQueueUsecasesModule,
+    AsyncTaskRecordModule,
+  ],
+  providers: [CreateCoachInvitesBatchUsecase, ProcessBulkCoachInviteUsecase],
+  exports: [ProcessBulkCoachInviteUsecase],
+})
+export class InviteWorkerUsecasesModule {}
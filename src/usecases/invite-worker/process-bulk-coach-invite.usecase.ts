@@ -0,0 +1,159 @@
+// src/usecases/invite-worker/process-bulk-coach-invite.usecase.ts
+import { Injectable } from '@nestjs/common';
+import { resolveAsyncTaskBizKey } from '@src/core/common/async-task/async-task-identifier.policy';
+import type {
+  BulkCoachInvitePayload,
+  BulkCoachInviteResult,
+} from '@src/infrastructure/bullmq/contracts/invite.contract';
+import { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { AsyncTaskRecordSource } from '@src/modules/async-task-record/async-task-record.types';
+import { BulkInviteReportService } from '@src/modules/verification-record/services/bulk-invite-report.service';
+import { CreateCoachInvitesBatchUsecase } from '@src/usecases/verification/coach/create-coach-invites-batch.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+export interface ProcessBulkCoachInviteProcessInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly payload: BulkCoachInvitePayload;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+}
+
+export interface ProcessBulkCoachInviteCompleteInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly actorAccountId?: number;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+  readonly finishedAt?: Date;
+  readonly result?: BulkCoachInviteResult;
+}
+
+export interface ProcessBulkCoachInviteFailInput extends ProcessBulkCoachInviteCompleteInput {
+  readonly reason?: string;
+  readonly occurredAt?: Date;
+}
+
+/**
+ * 批量邀请教练用例（Worker 异步任务）
+ * - 复用同步接口的批量签发逻辑，逐行报告写入报告存储供发起者查询
+ * - 任务生命周期写入 base_async_task_records，完成摘要记录在 reason
+ */
+@Injectable()
+export class ProcessBulkCoachInviteUsecase {
+  constructor(
+    private readonly createCoachInvitesBatchUsecase: CreateCoachInvitesBatchUsecase,
+    private readonly bulkInviteReportService: BulkInviteReportService,
+    private readonly asyncTaskRecordService: AsyncTaskRecordService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(ProcessBulkCoachInviteUsecase.name);
+  }
+
+  async process(input: ProcessBulkCoachInviteProcessInput): Promise<BulkCoachInviteResult> {
+    await this.asyncTaskRecordService.recordStarted({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        actorAccountId: input.payload.issuedByAccountId,
+        bizType: 'invite',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'invite',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        reason: 'worker_processing',
+        attemptCount: Math.max(input.attemptsMade + 1, 1),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        occurredAt: input.startedAt,
+      },
+    });
+
+    const report = await this.createCoachInvitesBatchUsecase.execute({
+      issuedByAccountId: input.payload.issuedByAccountId,
+      rows: input.payload.rows,
+      expiresInMinutes: input.payload.expiresInMinutes,
+    });
+    await this.bulkInviteReportService.save(input.jobId, report);
+
+    this.logger.info(
+      {
+        event: 'coach_bulk_invite_processed',
+        jobId: input.jobId,
+        total: report.total,
+        succeeded: report.succeeded,
+      },
+      '批量邀请教练任务完成',
+    );
+    return { total: report.total, succeeded: report.succeeded, failed: report.failed };
+  }
+
+  async complete(input: ProcessBulkCoachInviteCompleteInput): Promise<void> {
+    await this.recordFinished({
+      ...input,
+      status: 'succeeded',
+      reason: input.result
+        ? `total=${input.result.total};succeeded=${input.result.succeeded};failed=${input.result.failed}`
+        : 'worker_completed',
+      occurredAt: input.finishedAt,
+    });
+  }
+
+  async fail(input: ProcessBulkCoachInviteFailInput): Promise<void> {
+    await this.recordFinished({
+      ...input,
+      status: 'failed',
+      occurredAt: input.occurredAt ?? input.finishedAt,
+    });
+  }
+
+  private async recordFinished(
+    input: ProcessBulkCoachInviteCompleteInput & {
+      readonly status: 'succeeded' | 'failed';
+      readonly reason?: string;
+      readonly occurredAt?: Date;
+    },
+  ): Promise<void> {
+    await this.asyncTaskRecordService.recordFinished({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        actorAccountId: input.actorAccountId,
+        bizType: 'invite',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'invite',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        status: input.status,
+        reason: input.reason,
+        attemptCount: Math.max(input.attemptsMade, 1),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        finishedAt: input.finishedAt,
+        occurredAt: input.occurredAt,
+      },
+    });
+  }
+
+  private resolveSource(): AsyncTaskRecordSource {
+    return 'user_action';
+  }
+}
@@ -0,0 +1,39 @@
+// src/usecases/maintenance-worker/maintenance-worker-usecases.module.ts
+import { AuthModule } from '@modules/auth/auth.module';
+import { Module } from '@nestjs/common';
+import { AccountInstallerModule } from '@src/modules/account/account-installer.module';
+import { AccountDataExportModule } from '@src/modules/account-data-export/account-data-export.module';
+import { AiProviderCallRecordModule } from '@src/modules/ai-provider-call-record/ai-provider-call-record.module';
+import { AsyncTaskRecordModule } from '@src/modules/async-task-record/async-task-record.module';
+import { StorageModule } from '@src/modules/common/storage/storage.module';
+import { StoredFileModule } from '@src/modules/stored-file/stored-file.module';
+import { VerificationRecordModule } from '@src/modules/verification-record/verification-record.module';
+import { EraseAccountUsecase } from '@src/usecases/account/erase-account.usecase';
+import { SweepAccountDeletionsUsecase } from './sweep-account-deletions.usecase';
+import { SweepOrphanedFilesUsecase } from './sweep-orphaned-files.usecase';
+import { SweepVerificationRecordsUsecase } from './sweep-verification-records.usecase';
+
+@Module({
+  imports: [
+    VerificationRecordModule,
+    AsyncTaskRecordModule,
+    AccountInstallerModule,
+    AuthModule,
+    AccountDataExportModule,
+    AiProviderCallRecordModule,
+    StoredFileModule,
+    StorageModule,
+  ],
+  providers: [
+    SweepVerificationRecordsUsecase,
+    EraseAccountUsecase,
+    SweepAccountDeletionsUsecase,
+    SweepOrphanedFilesUsecase,
+  ],
+  exports: [
+    SweepVerificationRecordsUsecase,
+    SweepAccountDeletionsUsecase,
+    SweepOrphanedFilesUsecase,
+  ],
+})
+export class MaintenanceWorkerUsecasesModule {}
@@ -0,0 +1,181 @@
+// src/usecases/maintenance-worker/sweep-account-deletions.usecase.ts
+import { AccountDeletionConfig } from '@app-types/models/account-lifecycle.types';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { resolveAsyncTaskBizKey } from '@src/core/common/async-task/async-task-identifier.policy';
+import type { AccountDeletionSweepResult } from '@src/infrastructure/bullmq/contracts/maintenance.contract';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { AccountDataExportService } from '@src/modules/account-data-export/account-data-export.service';
+import { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { AsyncTaskRecordSource } from '@src/modules/async-task-record/async-task-record.types';
+import { EraseAccountUsecase } from '@src/usecases/account/erase-account.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+export interface SweepAccountDeletionsProcessInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+}
+
+export interface SweepAccountDeletionsCompleteInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+  readonly finishedAt?: Date;
+  readonly result?: AccountDeletionSweepResult;
+}
+
+export interface SweepAccountDeletionsFailInput extends SweepAccountDeletionsCompleteInput {
+  readonly reason?: string;
+  readonly occurredAt?: Date;
+}
+
+/**
+ * 账户注销周期任务用例（Worker 周期任务）
+ * - 注销：冷静期已满的账户逐个在独立事务内匿名化，单个失败不影响其余账户，下一轮重试
+ * - 过期：下载链接已过期的数据导出记录标记为 EXPIRED 并清空归档
+ * - 每轮执行结果写入 base_async_task_records
+ */
+@Injectable()
+export class SweepAccountDeletionsUsecase {
+  private readonly config: AccountDeletionConfig;
+
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly eraseAccountUsecase: EraseAccountUsecase,
+    private readonly accountDataExportService: AccountDataExportService,
+    private readonly asyncTaskRecordService: AsyncTaskRecordService,
+    private readonly logger: PinoLogger,
+    configService: ConfigService,
+  ) {
+    this.logger.setContext(SweepAccountDeletionsUsecase.name);
+    this.config = configService.get<AccountDeletionConfig>('accountDeletion') ?? {
+      graceDays: 14,
+      sweepEnabled: true,
+      sweepEverySeconds: 3600,
+      batchSize: 50,
+    };
+  }
+
+  async process(input: SweepAccountDeletionsProcessInput): Promise<AccountDeletionSweepResult> {
+    await this.asyncTaskRecordService.recordStarted({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        bizType: 'maintenance',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'maintenance',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        reason: 'worker_processing',
+        attemptCount: Math.max(input.attemptsMade + 1, 1),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        occurredAt: input.startedAt,
+      },
+    });
+
+    const now = input.startedAt ?? new Date();
+    const accountIds = await this.accountService.findDueDeletionAccountIds({
+      before: now,
+      limit: this.config.batchSize,
+    });
+
+    let erased = 0;
+    let failed = 0;
+    for (const accountId of accountIds) {
+      try {
+        if (await this.eraseAccountUsecase.eraseDue({ accountId, now })) {
+          erased++;
+        }
+      } catch (error) {
+        failed++;
+        this.logger.warn(
+          { event: 'account_erase_failed', accountId, error: (error as Error)?.message },
+          '到期账户注销失败，下一轮重试',
+        );
+      }
+    }
+
+    const expiredExports = await this.accountDataExportService.expireOverdue({
+      before: now,
+      limit: this.config.batchSize,
+    });
+
+    this.logger.info(
+      { event: 'account_deletion_sweep', jobId: input.jobId, erased, failed, expiredExports },
+      '账户注销任务完成',
+    );
+    return { erased, failed, expiredExports };
+  }
+
+  async complete(input: SweepAccountDeletionsCompleteInput): Promise<void> {
+    await this.recordFinished({
+      ...input,
+      status: 'succeeded',
+      reason: input.result
+        ? `erased=${input.result.erased};failed=${input.result.failed};expired_exports=${input.result.expiredExports}`
+        : 'worker_completed',
+      occurredAt: input.finishedAt,
+    });
+  }
+
+  async fail(input: SweepAccountDeletionsFailInput): Promise<void> {
+    await this.recordFinished({
+      ...input,
+      status: 'failed',
+      occurredAt: input.occurredAt ?? input.finishedAt,
+    });
+  }
+
+  private async recordFinished(
+    input: SweepAccountDeletionsCompleteInput & {
+      readonly status: 'succeeded' | 'failed';
+      readonly reason?: string;
+      readonly occurredAt?: Date;
+    },
+  ): Promise<void> {
+    await this.asyncTaskRecordService.recordFinished({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        bizType: 'maintenance',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'maintenance',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        status: input.status,
+        reason: input.reason,
+        attemptCount: Math.max(input.attemptsMade, 1),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        finishedAt: input.finishedAt,
+        occurredAt: input.occurredAt,
+      },
+    });
+  }
+
+  private resolveSource(): AsyncTaskRecordSource {
+    return 'cron';
+  }
+}
@@ -0,0 +1,179 @@
+// src/usecases/maintenance-worker/sweep-orphaned-files.usecase.ts
+import { StorageConfig } from '@app-types/models/stored-file.types';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { resolveAsyncTaskBizKey } from '@src/core/common/async-task/async-task-identifier.policy';
+import type { StorageOrphanSweepResult } from '@src/infrastructure/bullmq/contracts/maintenance.contract';
+import { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { AsyncTaskRecordSource } from '@src/modules/async-task-record/async-task-record.types';
+import { StorageObjectService } from '@src/modules/common/storage/storage-object.service';
+import { StoredFileService } from '@src/modules/stored-file/stored-file.service';
+import { PinoLogger } from 'nestjs-pino';
+
+export interface SweepOrphanedFilesProcessInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+}
+
+export interface SweepOrphanedFilesCompleteInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+  readonly finishedAt?: Date;
+  readonly result?: StorageOrphanSweepResult;
+}
+
+export interface SweepOrphanedFilesFailInput extends SweepOrphanedFilesCompleteInput {
+  readonly reason?: string;
+  readonly occurredAt?: Date;
+}
+
+/**
+ * 孤儿文件清理用例（Worker 周期任务）
+ * - 上传链接已过期仍未上传的文件，以及保留期内未被引用 / 已被替换的文件，逐个删除存储对象并标记为 DELETED
+ * - 先以原状态为条件标记记录，再删除对象：与并发的上传 / 引用冲突时跳过该文件
+ * - 每轮执行结果写入 base_async_task_records
+ */
+@Injectable()
+export class SweepOrphanedFilesUsecase {
+  private readonly config: StorageConfig['orphanSweep'];
+
+  constructor(
+    private readonly storedFileService: StoredFileService,
+    private readonly storageObjectService: StorageObjectService,
+    private readonly asyncTaskRecordService: AsyncTaskRecordService,
+    private readonly logger: PinoLogger,
+    configService: ConfigService,
+  ) {
+    this.logger.setContext(SweepOrphanedFilesUsecase.name);
+    this.config = configService.get<StorageConfig['orphanSweep']>('storage.orphanSweep') ?? {
+      enabled: true,
+      everySeconds: 3600,
+      retentionHours: 24,
+      batchSize: 200,
+    };
+  }
+
+  async process(input: SweepOrphanedFilesProcessInput): Promise<StorageOrphanSweepResult> {
+    await this.asyncTaskRecordService.recordStarted({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        bizType: 'maintenance',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'maintenance',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        reason: 'worker_processing',
+        attemptCount: Math.max(input.attemptsMade + 1, 1),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        occurredAt: input.startedAt,
+      },
+    });
+
+    const now = input.startedAt ?? new Date();
+    const files = await this.storedFileService.findSweepCandidates({
+      now,
+      staleBefore: new Date(now.getTime() - this.config.retentionHours * 60 * 60 * 1000),
+      limit: this.config.batchSize,
+    });
+
+    let deleted = 0;
+    let failed = 0;
+    for (const file of files) {
+      try {
+        if (
+          !(await this.storedFileService.markDeleted({ id: file.id, expectedStatus: file.status }))
+        ) {
+          continue;
+        }
+        await this.storageObjectService.remove([file.storageKey, file.thumbnailKey]);
+        deleted++;
+      } catch (error) {
+        failed++;
+        this.logger.warn(
+          { event: 'stored_file_delete_failed', fileId: file.id, error: (error as Error)?.message },
+          '孤儿文件删除失败',
+        );
+      }
+    }
+
+    this.logger.info(
+      { event: 'storage_orphan_sweep', jobId: input.jobId, deleted, failed },
+      '孤儿文件清理任务完成',
+    );
+    return { deleted, failed };
+  }
+
+  async complete(input: SweepOrphanedFilesCompleteInput): Promise<void> {
+    await this.recordFinished({
+      ...input,
+      status: 'succeeded',
+      reason: input.result
+        ? `deleted=${input.result.deleted};failed=${input.result.failed}`
+        : 'worker_completed',
+      occurredAt: input.finishedAt,
+    });
+  }
+
+  async fail(input: SweepOrphanedFilesFailInput): Promise<void> {
+    await this.recordFinished({
+      ...input,
+      status: 'failed',
+      occurredAt: input.occurredAt ?? input.finishedAt,
+    });
+  }
+
+  private async recordFinished(
+    input: SweepOrphanedFilesCompleteInput & {
+      readonly status: 'succeeded' | 'failed';
+      readonly reason?: string;
+      readonly occurredAt?: Date;
+    },
+  ): Promise<void> {
+    await this.asyncTaskRecordService.recordFinished({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        bizType: 'maintenance',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'maintenance',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        status: input.status,
+        reason: input.reason,
+        attemptCount: Math.max(input.attemptsMade, 1),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        finishedAt: input.finishedAt,
+        occurredAt: input.occurredAt,
+      },
+    });
+  }
+
+  private resolveSource(): AsyncTaskRecordSource {
+    return 'cron';
+  }
+}
@@ -0,0 +1,147 @@
+// src/usecases/maintenance-worker/sweep-verification-records.usecase.spec.ts
+import {
+  VerificationRecordSweepConfig,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import type { ConfigService } from '@nestjs/config';
+import type { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { AsyncTaskRecordView } from '@src/modules/async-task-record/async-task-record.types';
+import {
+  VERIFICATION_RECORD_CONSUME_GRACE_MS,
+  type VerificationRecordService,
+} from '@src/modules/verification-record/verification-record.service';
+import type { PinoLogger } from 'nestjs-pino';
+import { SweepVerificationRecordsUsecase } from './sweep-verification-records.usecase';
+
+type SweepBatchParams = {
+  type: VerificationRecordType;
+  before: Date;
+  limit: number;
+};
+
+type VerificationRecordServiceMock = {
+  readonly expireOverdueRecords: jest.Mock<Promise<number>, [SweepBatchParams]>;
+  readonly purgeFinishedRecords: jest.Mock<Promise<number>, [SweepBatchParams]>;
+};
+
+type AsyncTaskRecordServiceMock = {
+  readonly recordStarted: jest.Mock<Promise<AsyncTaskRecordView>>;
+  readonly recordFinished: jest.Mock<Promise<AsyncTaskRecordView>>;
+};
+
+type ConfigServiceMock = {
+  readonly get: jest.Mock<VerificationRecordSweepConfig | undefined, [string]>;
+};
+
+type LoggerMock = {
+  readonly setContext: jest.Mock<void, [string]>;
+  readonly info: jest.Mock;
+};
+
+const baseConfig: VerificationRecordSweepConfig = {
+  enabled: true,
+  everySeconds: 300,
+  batchSize: 2,
+  maxBatchesPerRun: 3,
+  retentionDays: 30,
+};
+
+const baseInput = {
+  queueName: 'maintenance',
+  jobName: 'verification-record-sweep',
+  jobId: 'repeat:1',
+  traceId: 'maintenance:repeat:1',
+  attemptsMade: 0,
+  startedAt: new Date('2026-01-31T00:00:00.000Z'),
+};
+
+describe('SweepVerificationRecordsUsecase', () => {
+  let verificationRecordService: VerificationRecordServiceMock;
+  let asyncTaskRecordService: AsyncTaskRecordServiceMock;
+  let configService: ConfigServiceMock;
+  let logger: LoggerMock;
+  let usecase: SweepVerificationRecordsUsecase;
+
+  const createUsecase = (): SweepVerificationRecordsUsecase =>
+    new SweepVerificationRecordsUsecase(
+      verificationRecordService as unknown as VerificationRecordService,
+      asyncTaskRecordService as unknown as AsyncTaskRecordService,
+      logger as unknown as PinoLogger,
+      configService as unknown as ConfigService,
+    );
+
+  beforeEach(() => {
+    verificationRecordService = {
+      expireOverdueRecords: jest.fn().mockResolvedValue(0),
+      purgeFinishedRecords: jest.fn().mockResolvedValue(0),
+    };
+    asyncTaskRecordService = {
+      recordStarted: jest.fn(),
+      recordFinished: jest.fn(),
+    };
+    configService = {
+      get: jest.fn().mockReturnValue(baseConfig),
+    };
+    logger = {
+      setContext: jest.fn(),
+      info: jest.fn(),
+    };
+
+    usecase = createUsecase();
+  });
+
+  it('按类型分批过期，批次不足 batchSize 时切换类型', async () => {
+    verificationRecordService.expireOverdueRecords.mockImplementation(({ type }) =>
+      Promise.resolve(type === VerificationRecordType.EMAIL_VERIFY_CODE ? 2 : 0),
+    );
+    verificationRecordService.purgeFinishedRecords
+      .mockResolvedValueOnce(2)
+      .mockResolvedValueOnce(1)
+      .mockResolvedValue(0);
+
+    const result = await usecase.process(baseInput);
+
+    // EMAIL_VERIFY_CODE 每批都满，达到 maxBatchesPerRun 后停止
+    expect(result).toEqual({ expired: 6, purged: 3 });
+    const emailCalls = verificationRecordService.expireOverdueRecords.mock.calls.filter(
+      ([params]) => params.type === VerificationRecordType.EMAIL_VERIFY_CODE,
+    );
+    expect(emailCalls).toHaveLength(3);
+    expect(verificationRecordService.expireOverdueRecords).toHaveBeenCalledWith({
+      type: VerificationRecordType.EMAIL_VERIFY_CODE,
+      before: new Date(baseInput.startedAt.getTime() - VERIFICATION_RECORD_CONSUME_GRACE_MS),
+      limit: 2,
+    });
+    expect(verificationRecordService.purgeFinishedRecords).toHaveBeenCalledWith(
+      expect.objectContaining({ before: new Date('2026-01-01T00:00:00.000Z'), limit: 2 }),
+    );
+  });
+
+  it('保留天数 <= 0 时不清理历史记录', async () => {
+    configService.get.mockReturnValue({ ...baseConfig, retentionDays: 0 });
+    usecase = createUsecase();
+
+    await expect(usecase.process(baseInput)).resolves.toEqual({ expired: 0, purged: 0 });
+    expect(verificationRecordService.purgeFinishedRecords).not.toHaveBeenCalled();
+  });
+
+  it('执行过程与结果写入异步任务记录', async () => {
+    await usecase.process(baseInput);
+    await usecase.complete({ ...baseInput, result: { expired: 4, purged: 1 } });
+
+    expect(asyncTaskRecordService.recordStarted).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        bizType: 'maintenance',
+        bizKey: 'repeat:1',
+        source: 'cron',
+        reason: 'worker_processing',
+      }),
+    });
+    expect(asyncTaskRecordService.recordFinished).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        status: 'succeeded',
+        reason: 'expired=4;purged=1',
+      }),
+    });
+  });
+});
@@ -0,0 +1,195 @@
+// src/usecases/maintenance-worker/sweep-verification-records.usecase.ts
+import {
+  VerificationRecordSweepConfig,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { resolveAsyncTaskBizKey } from '@src/core/common/async-task/async-task-identifier.policy';
+import type { VerificationRecordSweepResult } from '@src/infrastructure/bullmq/contracts/maintenance.contract';
+import { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { AsyncTaskRecordSource } from '@src/modules/async-task-record/async-task-record.types';
+import {
+  VERIFICATION_RECORD_CONSUME_GRACE_MS,
+  VerificationRecordService,
+} from '@src/modules/verification-record/verification-record.service';
+import { PinoLogger } from 'nestjs-pino';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SweepVerificationRecordsProcessInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+}
+
+export interface SweepVerificationRecordsCompleteInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+  readonly finishedAt?: Date;
+  readonly result?: VerificationRecordSweepResult;
+}
+
+export interface SweepVerificationRecordsFailInput extends SweepVerificationRecordsCompleteInput {
+  readonly reason?: string;
+  readonly occurredAt?: Date;
+}
+
+/**
+ * 验证记录过期清理用例（Worker 周期任务）
+ * - 过期：超过消费宽限期仍为 ACTIVE 的记录标记为 EXPIRED
+ * - 清理：过期时间早于保留期的 CONSUMED / REVOKED / EXPIRED 记录直接删除
+ * - 按记录类型分批执行，每轮执行结果写入 base_async_task_records
+ */
+@Injectable()
+export class SweepVerificationRecordsUsecase {
+  private readonly config: VerificationRecordSweepConfig;
+
+  constructor(
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly asyncTaskRecordService: AsyncTaskRecordService,
+    private readonly logger: PinoLogger,
+    configService: ConfigService,
+  ) {
+    this.logger.setContext(SweepVerificationRecordsUsecase.name);
+    this.config = configService.get<VerificationRecordSweepConfig>('verificationRecordSweep') ?? {
+      enabled: true,
+      everySeconds: 300,
+      batchSize: 500,
+      maxBatchesPerRun: 20,
+      retentionDays: 30,
+    };
+  }
+
+  async process(
+    input: SweepVerificationRecordsProcessInput,
+  ): Promise<VerificationRecordSweepResult> {
+    await this.asyncTaskRecordService.recordStarted({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        bizType: 'maintenance',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'maintenance',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        reason: 'worker_processing',
+        attemptCount: Math.max(input.attemptsMade + 1, 1),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        occurredAt: input.startedAt,
+      },
+    });
+
+    const now = input.startedAt ?? new Date();
+    const limit = this.config.batchSize;
+    const expireBefore = new Date(now.getTime() - VERIFICATION_RECORD_CONSUME_GRACE_MS);
+    const expired = await this.runInBatches((type) =>
+      this.verificationRecordService.expireOverdueRecords({ type, before: expireBefore, limit }),
+    );
+
+    let purged = 0;
+    if (this.config.retentionDays > 0) {
+      const purgeBefore = new Date(now.getTime() - this.config.retentionDays * DAY_MS);
+      purged = await this.runInBatches((type) =>
+        this.verificationRecordService.purgeFinishedRecords({ type, before: purgeBefore, limit }),
+      );
+    }
+
+    this.logger.info(
+      { event: 'verification_record_sweep', jobId: input.jobId, expired, purged },
+      '验证记录清理完成',
+    );
+    return { expired, purged };
+  }
+
+  async complete(input: SweepVerificationRecordsCompleteInput): Promise<void> {
+    await this.recordFinished({
+      ...input,
+      status: 'succeeded',
+      reason: input.result
+        ? `expired=${input.result.expired};purged=${input.result.purged}`
+        : 'worker_completed',
+      occurredAt: input.finishedAt,
+    });
+  }
+
+  async fail(input: SweepVerificationRecordsFailInput): Promise<void> {
+    await this.recordFinished({
+      ...input,
+      status: 'failed',
+      occurredAt: input.occurredAt ?? input.finishedAt,
+    });
+  }
+
+  /**
+   * 按记录类型逐批执行，单批不足 batchSize 或达到批次上限时切换到下一类型
+   */
+  private async runInBatches(
+    action: (type: VerificationRecordType) => Promise<number>,
+  ): Promise<number> {
+    let total = 0;
+    for (const type of Object.values(VerificationRecordType)) {
+      for (let batch = 0; batch < this.config.maxBatchesPerRun; batch++) {
+        const affected = await action(type);
+        total += affected;
+        if (affected < this.config.batchSize) {
+          break;
+        }
+      }
+    }
+    return total;
+  }
+
+  private async recordFinished(
+    input: SweepVerificationRecordsCompleteInput & {
+      readonly status: 'succeeded' | 'failed';
+      readonly reason?: string;
+      readonly occurredAt?: Date;
+    },
+  ): Promise<void> {
+    await this.asyncTaskRecordService.recordFinished({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        bizType: 'maintenance',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'maintenance',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        status: input.status,
+        reason: input.reason,
+        attemptCount: Math.max(input.attemptsMade, 1),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        finishedAt: input.finishedAt,
+        occurredAt: input.occurredAt,
+      },
+    });
+  }
+
+  private resolveSource(): AsyncTaskRecordSource {
+    return 'cron';
+  }
+}
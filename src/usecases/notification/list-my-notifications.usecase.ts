@@ -0,0 +1,77 @@
+// src/usecases/notification/list-my-notifications.usecase.ts
+
+import { NotificationView } from '@app-types/models/notification.types';
+import { Injectable } from '@nestjs/common';
+import { NotificationService } from '@src/modules/notification/notification.service';
+
+/**
+ * 查询我的通知参数
+ */
+export interface ListMyNotificationsParams {
+  /** 当前用户账户 ID（接收者） */
+  currentAccountId: number;
+  /** 是否仅返回未读通知 */
+  unreadOnly?: boolean;
+  /** 页码，从 1 开始 */
+  page?: number;
+  /** 每页数量，默认 10，最大 100 */
+  limit?: number;
+}
+
+/**
+ * 我的通知分页结果
+ */
+export interface PaginatedMyNotifications {
+  /** 通知列表 */
+  items: NotificationView[];
+  /** 总数 */
+  total: number;
+  /** 页码 */
+  page: number;
+  /** 每页条数 */
+  limit: number;
+  /** 总页数 */
+  totalPages: number;
+  /** 未读通知数（用户信息中的计数器） */
+  unreadCount: number;
+}
+
+/**
+ * 查询我的通知用例
+ * 仅返回当前用户收到的通知，按创建时间倒序
+ */
+@Injectable()
+export class ListMyNotificationsUsecase {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  /**
+   * 执行列表查询
+   * @param params 查询参数
+   * @returns 分页结果与未读数
+   */
+  async execute(params: ListMyNotificationsParams): Promise<PaginatedMyNotifications> {
+    const [result, unreadCount] = await Promise.all([
+      this.notificationService.findPaginated({
+        recipientAccountId: params.currentAccountId,
+        unreadOnly: params.unreadOnly,
+        page: params.page ?? 1,
+        limit: Math.min(params.limit ?? 10, 100),
+      }),
+      this.notificationService.getUnreadCount(params.currentAccountId),
+    ]);
+
+    return {
+      ...result,
+      items: result.items.map((notification) => ({
+        id: notification.id,
+        category: notification.category,
+        title: notification.title,
+        body: notification.body,
+        link: notification.link,
+        readAt: notification.readAt,
+        createdAt: notification.createdAt,
+      })),
+      unreadCount,
+    };
+  }
+}
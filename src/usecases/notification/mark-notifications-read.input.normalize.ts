@@ -0,0 +1,25 @@
+// src/usecases/notification/mark-notifications-read.input.normalize.ts
+
+import { NOTIFICATION_MARK_READ_MAX_IDS } from '@app-types/models/notification.types';
+import { DomainError, NOTIFICATION_ERROR } from '@core/common/errors/domain-error';
+
+/**
+ * 规范化待标记的通知 ID：保序去重，并校验单次数量上限
+ * 未提供时保持 undefined（表示标记全部未读通知）
+ * @param input 调用方传入的通知 ID
+ */
+export function normalizeMarkReadNotificationIds(
+  input: ReadonlyArray<number> | undefined,
+): number[] | undefined {
+  if (!input) {
+    return undefined;
+  }
+  const ids = [...new Set(input)];
+  if (ids.length > NOTIFICATION_MARK_READ_MAX_IDS) {
+    throw new DomainError(
+      NOTIFICATION_ERROR.INVALID_PARAMS,
+      `单次最多标记 ${NOTIFICATION_MARK_READ_MAX_IDS} 条通知`,
+    );
+  }
+  return ids;
+}
@@ -0,0 +1,50 @@
+// src/usecases/notification/mark-notifications-read.usecase.ts
+
+import { Injectable } from '@nestjs/common';
+import { NotificationService } from '@src/modules/notification/notification.service';
+import { normalizeMarkReadNotificationIds } from './mark-notifications-read.input.normalize';
+
+/**
+ * 标记通知已读参数
+ */
+export interface MarkNotificationsReadParams {
+  /** 当前用户账户 ID（接收者） */
+  currentAccountId: number;
+  /** 通知 ID 列表（不提供时标记全部未读通知） */
+  ids?: number[];
+}
+
+/**
+ * 标记通知已读结果
+ */
+export interface MarkNotificationsReadResult {
+  /** 本次标记为已读的通知数 */
+  markedCount: number;
+  /** 标记后的未读通知数 */
+  unreadCount: number;
+}
+
+/**
+ * 标记通知已读用例
+ * 只会更新当前用户自己的未读通知；他人的通知或已读通知被忽略
+ */
+@Injectable()
+export class MarkNotificationsReadUsecase {
+  constructor(private readonly notificationService: NotificationService) {}
+
+  /**
+   * 执行标记
+   * @param params 标记参数
+   * @returns 标记数量与最新未读数
+   */
+  async execute(params: MarkNotificationsReadParams): Promise<MarkNotificationsReadResult> {
+    const ids = normalizeMarkReadNotificationIds(params.ids);
+
+    const markedCount = await this.notificationService.markRead({
+      recipientAccountId: params.currentAccountId,
+      ids,
+    });
+    const unreadCount = await this.notificationService.getUnreadCount(params.currentAccountId);
+    return { markedCount, unreadCount };
+  }
+}
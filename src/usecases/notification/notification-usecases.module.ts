@@ -0,0 +1,12 @@
+// src/usecases/notification/notification-usecases.module.ts
+import { Module } from '@nestjs/common';
+import { NotificationModule } from '@src/modules/notification/notification.module';
+import { ListMyNotificationsUsecase } from './list-my-notifications.usecase';
+import { MarkNotificationsReadUsecase } from './mark-notifications-read.usecase';
+
+@Module({
+  imports: [NotificationModule],
+  providers: [ListMyNotificationsUsecase, MarkNotificationsReadUsecase],
+  exports: [ListMyNotificationsUsecase, MarkNotificationsReadUsecase],
+})
+export class NotificationUsecasesModule {}
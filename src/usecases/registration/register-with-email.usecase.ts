@@ -1,5 +1,6 @@
 // src/usecases/registration/register-with-email.usecase.ts
 
+import { EmailVerificationConfig } from '@app-types/auth/email-verification.types';
 import { AccountStatus, IdentityTypeEnum, UserAccountView } from '@app-types/models/account.types';
 import { VerificationRecordType } from '@app-types/models/verification-record.types';
 import {
@@ -12,9 +13,11 @@ import { isPrivateIp, isServerIp } from '@core/common/network/network-access.hel
 import { PasswordPolicyService } from '@core/common/password/password-policy.service';
 import { TokenFingerprintHelper } from '@modules/common/security/token-fingerprint.helper';
 import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { AccountService } from '@src/modules/account/base/services/account.service';
 import { AccountQueryService } from '@src/modules/account/queries/account.query.service';
 import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { SendVerificationEmailUsecase } from '@src/usecases/verification/email/send-verification-email.usecase';
 import {
   RegisterWithEmailParams,
   RegisterWithEmailResult,
@@ -28,17 +31,24 @@ import {
 /**
  * 邮箱注册用例
  * 负责处理用户通过邮箱注册的完整业务流程
+ * 注册后签发邮箱验证链接；开启 emailVerification.required 时账户保持 PENDING 直至完成验证
  */
 @Injectable()
 export class RegisterWithEmailUsecase {
+  private readonly emailVerificationRequired: boolean;
+
   constructor(
     private readonly accountService: AccountService,
     private readonly accountQueryService: AccountQueryService,
     private readonly passwordPolicyService: PasswordPolicyService,
     private readonly verificationRecordService: VerificationRecordService,
+    private readonly sendVerificationEmailUsecase: SendVerificationEmailUsecase,
     private readonly logger: PinoLogger,
+    configService: ConfigService,
   ) {
     this.logger.setContext(RegisterWithEmailUsecase.name);
+    this.emailVerificationRequired =
+      configService.get<EmailVerificationConfig>('emailVerification')?.required ?? false;
   }
 
   /**
@@ -106,7 +116,9 @@ export class RegisterWithEmailUsecase {
         }
       }
 
-      if (account.status !== AccountStatus.ACTIVE) {
+      await this.sendVerificationEmail({ accountId: account.id, email: normalizedLoginEmail });
+
+      if (!this.emailVerificationRequired && account.status !== AccountStatus.ACTIVE) {
         await this.accountService.updateAccount(account.id, { status: AccountStatus.ACTIVE });
       }
 
@@ -114,7 +126,7 @@ export class RegisterWithEmailUsecase {
 
       return {
         success: true,
-        message: '注册成功',
+        message: this.emailVerificationRequired ? '注册成功，请前往邮箱完成验证' : '注册成功',
         accountId: account.id,
       };
     } catch (error) {
@@ -130,6 +142,25 @@ export class RegisterWithEmailUsecase {
     }
   }
 
+  /**
+   * 签发邮箱验证链接
+   * 失败不影响注册结果，用户可通过 resendVerificationEmail 重新获取
+   */
+  private async sendVerificationEmail(params: { accountId: number; email: string }): Promise<void> {
+    try {
+      await this.sendVerificationEmailUsecase.execute(params);
+    } catch (error) {
+      this.logger.warn(
+        {
+          event: 'email_verification_issue_failed',
+          accountId: params.accountId,
+          error: error instanceof Error ? error.message : '未知错误',
+        },
+        '注册成功，但邮箱验证链接签发失败',
+      );
+    }
+  }
+
   /**
    * 消费邀请 token
    * @param params 消费参数
@@ -263,7 +294,7 @@ export class RegisterWithEmailUsecase {
         accountData: {
           loginName,
           loginEmail,
-          loginPassword: 'temp',
+          loginPassword: await AccountService.hashPassword(loginPassword),
           status,
           identityHint,
           createdAt: new Date(),
@@ -272,12 +303,6 @@ export class RegisterWithEmailUsecase {
       });
       const savedAccount = await this.accountService.saveAccount({ account, manager });
 
-      savedAccount.loginPassword = AccountService.hashPasswordWithTimestamp(
-        loginPassword,
-        savedAccount.createdAt,
-      );
-      await this.accountService.saveAccount({ account: savedAccount, manager });
-
       const userInfo = this.accountService.createUserInfoEntity({
         manager,
         userInfoData: {
@@ -8,6 +8,7 @@ import { VerificationRecordModule } from '@src/modules/verification-record/verif
 import { RegisterWithEmailUsecase } from '@src/usecases/registration/register-with-email.usecase';
 import { RegisterWithThirdPartyUsecase } from '@src/usecases/registration/register-with-third-party.usecase';
 import { WeappRegisterUsecase } from '@src/usecases/registration/weapp-register.usecase';
+import { VerificationUsecasesModule } from '@src/usecases/verification/verification-usecases.module';
 
 @Module({
   imports: [
@@ -16,6 +17,7 @@ import { WeappRegisterUsecase } from '@src/usecases/registration/weapp-register.
     AccountInstallerModule,
     PasswordModule,
     ThirdPartyAuthModule,
+    VerificationUsecasesModule,
   ],
   providers: [RegisterWithEmailUsecase, RegisterWithThirdPartyUsecase, WeappRegisterUsecase],
   exports: [RegisterWithEmailUsecase, RegisterWithThirdPartyUsecase, WeappRegisterUsecase],
@@ -268,19 +268,13 @@ export class WeappRegisterUsecase {
         manager,
         accountData: {
           ...accountData,
-          loginPassword: 'temp',
+          loginPassword: await AccountService.hashPassword(accountData.loginPassword),
           createdAt: new Date(),
           updatedAt: new Date(),
         },
       });
       const savedAccount = await this.accountService.saveAccount({ account, manager });
 
-      savedAccount.loginPassword = AccountService.hashPasswordWithTimestamp(
-        accountData.loginPassword,
-        savedAccount.createdAt,
-      );
-      await this.accountService.saveAccount({ account: savedAccount, manager });
-
       const userInfo = this.accountService.createUserInfoEntity({
         manager,
         userInfoData: {
@@ -0,0 +1,80 @@
+// src/usecases/sms-queue/queue-sms.usecase.ts
+import { Injectable } from '@nestjs/common';
+import { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { AsyncTaskRecordSource } from '@src/modules/async-task-record/async-task-record.types';
+import { SmsQueueService } from '@src/modules/common/sms-queue/sms-queue.service';
+import type { QueueSmsInput, QueueSmsResult } from '@src/modules/common/sms-queue/sms-queue.types';
+import {
+  resolveAsyncTaskBizKey,
+  resolveEnqueueFailureIdentifiers,
+} from '@src/core/common/async-task/async-task-identifier.policy';
+
+@Injectable()
+export class QueueSmsUsecase {
+  constructor(
+    private readonly smsQueueService: SmsQueueService,
+    private readonly asyncTaskRecordService: AsyncTaskRecordService,
+  ) {}
+
+  async execute(input: QueueSmsInput): Promise<QueueSmsResult> {
+    const occurredAt = new Date();
+    const result = await this.enqueueOrThrow({ input, occurredAt });
+    await this.asyncTaskRecordService.recordEnqueued({
+      data: {
+        queueName: 'sms',
+        jobName: 'send',
+        jobId: result.jobId,
+        traceId: result.traceId,
+        bizType: 'sms',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'sms',
+          traceId: result.traceId,
+          jobId: result.jobId,
+          dedupKey: input.dedupKey,
+        }),
+        source: this.resolveSource(),
+        reason: 'enqueue_accepted',
+        occurredAt,
+        dedupKey: input.dedupKey,
+      },
+    });
+    return result;
+  }
+
+  private async enqueueOrThrow(input: {
+    readonly input: QueueSmsInput;
+    readonly occurredAt: Date;
+  }): Promise<QueueSmsResult> {
+    try {
+      return await this.smsQueueService.enqueueSend(input.input);
+    } catch (error: unknown) {
+      const normalizedError = error instanceof Error ? error : new Error('sms_enqueue_failed');
+      const identifiers = resolveEnqueueFailureIdentifiers({
+        domain: 'sms',
+        traceId: input.input.traceId,
+        occurredAt: input.occurredAt,
+        dedupKey: input.input.dedupKey,
+        traceIdPrefix: 'sms-enqueue:',
+      });
+      await this.asyncTaskRecordService.recordEnqueueFailed({
+        data: {
+          queueName: 'sms',
+          jobName: 'send',
+          jobId: identifiers.failedJobId,
+          traceId: identifiers.traceId,
+          bizType: 'sms',
+          bizKey: identifiers.bizKey,
+          source: this.resolveSource(),
+          reason: normalizedError.message.slice(0, 128),
+          occurredAt: input.occurredAt,
+          dedupKey: input.input.dedupKey,
+        },
+      });
+      throw normalizedError;
+    }
+  }
+
+  private resolveSource(): AsyncTaskRecordSource {
+    return 'user_action';
+  }
+}
@@ -0,0 +1,12 @@
+// src/usecases/sms-queue/sms-queue-usecases.module.ts
+import { Module } from '@nestjs/common';
+import { AsyncTaskRecordModule } from '@src/modules/async-task-record/async-task-record.module';
+import { SmsQueueModule } from '@src/modules/common/sms-queue/sms-queue.module';
+import { QueueSmsUsecase } from './queue-sms.usecase';
+
+@Module({
+  imports: [SmsQueueModule, AsyncTaskRecordModule],
+  providers: [QueueSmsUsecase],
+  exports: [QueueSmsUsecase],
+})
+export class SmsQueueUsecasesModule {}
@@ -0,0 +1,133 @@
+// src/usecases/sms-worker/consume-sms-job.usecase.ts
+import { Injectable } from '@nestjs/common';
+import { resolveAsyncTaskBizKey } from '@src/core/common/async-task/async-task-identifier.policy';
+import { AsyncTaskRecordService } from '@src/modules/async-task-record/async-task-record.service';
+import type { AsyncTaskRecordSource } from '@src/modules/async-task-record/async-task-record.types';
+import { SmsDeliveryService } from '@src/modules/common/sms-worker/sms-delivery.service';
+import type { SendSmsInput, SendSmsResult } from '@src/modules/common/sms-worker/sms-worker.types';
+
+export interface ConsumeSmsJobProcessInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly payload: SendSmsInput;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+}
+
+export interface ConsumeSmsJobCompleteInput {
+  readonly queueName: string;
+  readonly jobName: string;
+  readonly jobId: string;
+  readonly traceId: string;
+  readonly attemptsMade: number;
+  readonly maxAttempts?: number;
+  readonly enqueuedAt?: Date;
+  readonly startedAt?: Date;
+  readonly finishedAt?: Date;
+}
+
+export interface ConsumeSmsJobFailInput extends ConsumeSmsJobCompleteInput {
+  readonly reason?: string;
+  readonly occurredAt?: Date;
+}
+
+@Injectable()
+export class ConsumeSmsJobUsecase {
+  constructor(
+    private readonly smsDeliveryService: SmsDeliveryService,
+    private readonly asyncTaskRecordService: AsyncTaskRecordService,
+  ) {}
+
+  async process(input: ConsumeSmsJobProcessInput): Promise<SendSmsResult> {
+    await this.asyncTaskRecordService.recordStarted({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        bizType: 'sms',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'sms',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        reason: 'worker_processing',
+        attemptCount: this.resolveProcessingAttemptCount({ attemptsMade: input.attemptsMade }),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        occurredAt: input.startedAt,
+      },
+    });
+    return await this.smsDeliveryService.send(input.payload);
+  }
+
+  async complete(input: ConsumeSmsJobCompleteInput): Promise<void> {
+    await this.asyncTaskRecordService.recordFinished({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        bizType: 'sms',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'sms',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        status: 'succeeded',
+        reason: 'worker_completed',
+        attemptCount: this.resolveFinalAttemptCount({ attemptsMade: input.attemptsMade }),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        finishedAt: input.finishedAt,
+        occurredAt: input.finishedAt,
+      },
+    });
+  }
+
+  async fail(input: ConsumeSmsJobFailInput): Promise<void> {
+    await this.asyncTaskRecordService.recordFinished({
+      data: {
+        queueName: input.queueName,
+        jobName: input.jobName,
+        jobId: input.jobId,
+        traceId: input.traceId,
+        bizType: 'sms',
+        bizKey: resolveAsyncTaskBizKey({
+          domain: 'sms',
+          traceId: input.traceId,
+          jobId: input.jobId,
+        }),
+        source: this.resolveSource(),
+        status: 'failed',
+        reason: input.reason,
+        attemptCount: this.resolveFinalAttemptCount({ attemptsMade: input.attemptsMade }),
+        maxAttempts: input.maxAttempts,
+        enqueuedAt: input.enqueuedAt,
+        startedAt: input.startedAt,
+        finishedAt: input.finishedAt,
+        occurredAt: input.occurredAt ?? input.finishedAt,
+      },
+    });
+  }
+
+  private resolveProcessingAttemptCount(input: { readonly attemptsMade: number }): number {
+    return Math.max(input.attemptsMade + 1, 1);
+  }
+
+  private resolveFinalAttemptCount(input: { readonly attemptsMade: number }): number {
+    return Math.max(input.attemptsMade, 1);
+  }
+
+  private resolveSource(): AsyncTaskRecordSource {
+    return 'system';
+  }
+}
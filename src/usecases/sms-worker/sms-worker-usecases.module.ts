@@ -0,0 +1,12 @@
+// src/usecases/sms-worker/sms-worker-usecases.module.ts
+import { Module } from '@nestjs/common';
+import { AsyncTaskRecordModule } from '@src/modules/async-task-record/async-task-record.module';
+import { SmsWorkerModule } from '@src/modules/common/sms-worker/sms-worker.module';
+import { ConsumeSmsJobUsecase } from './consume-sms-job.usecase';
+
+@Module({
+  imports: [SmsWorkerModule, AsyncTaskRecordModule],
+  providers: [ConsumeSmsJobUsecase],
+  exports: [ConsumeSmsJobUsecase],
+})
+export class SmsWorkerUsecasesModule {}
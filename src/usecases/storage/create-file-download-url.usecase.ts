@@ -0,0 +1,52 @@
+// src/usecases/storage/create-file-download-url.usecase.ts
+
+import { UsecaseSession } from '@app-types/auth/session.types';
+import { IdentityTypeEnum } from '@app-types/models/account.types';
+import { StoredFileStatus, StoredFileVariant } from '@app-types/models/stored-file.types';
+import { hasRole } from '@core/account/policy/role-access.policy';
+import { DomainError, STORAGE_ERROR } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import {
+  type SignedStorageUrl,
+  StorageUrlService,
+} from '@src/modules/common/storage/storage-url.service';
+import { StoredFileService } from '@src/modules/stored-file/stored-file.service';
+
+/**
+ * 签发文件下载链接用例（上传者本人或管理员）
+ * 用于读取尚未公开的文件，如刚上传、尚未设为头像的图片
+ */
+@Injectable()
+export class CreateFileDownloadUrlUsecase {
+  constructor(
+    private readonly storedFileService: StoredFileService,
+    private readonly storageUrlService: StorageUrlService,
+  ) {}
+
+  async execute(params: {
+    session: UsecaseSession;
+    fileId: number;
+    variant: StoredFileVariant;
+  }): Promise<SignedStorageUrl> {
+    const file = await this.storedFileService.findById(params.fileId);
+    const visible =
+      file &&
+      (file.ownerAccountId === params.session.accountId ||
+        hasRole(params.session.roles, IdentityTypeEnum.ADMIN));
+    // 他人的文件与不存在的文件返回相同错误，避免探测文件 ID
+    if (!file || !visible) {
+      throw new DomainError(STORAGE_ERROR.FILE_NOT_FOUND, '文件不存在');
+    }
+    if (
+      file.status === StoredFileStatus.PENDING ||
+      file.status === StoredFileStatus.UPLOADING ||
+      file.status === StoredFileStatus.DELETED
+    ) {
+      throw new DomainError(STORAGE_ERROR.FILE_NOT_READY, '文件尚未上传或已删除');
+    }
+    return this.storageUrlService.createDownloadUrl({
+      fileKey: file.fileKey,
+      variant: params.variant,
+    });
+  }
+}
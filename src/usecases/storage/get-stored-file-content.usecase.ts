@@ -0,0 +1,85 @@
+// src/usecases/storage/get-stored-file-content.usecase.ts
+
+import {
+  STORED_FILE_THUMBNAIL_CONTENT_TYPE,
+  StoredFilePurpose,
+  StoredFileStatus,
+  StoredFileVariant,
+} from '@app-types/models/stored-file.types';
+import { DomainError, STORAGE_ERROR } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { StorageObjectService } from '@src/modules/common/storage/storage-object.service';
+import { StorageUrlService } from '@src/modules/common/storage/storage-url.service';
+import { StoredFileService } from '@src/modules/stored-file/stored-file.service';
+
+export interface GetStoredFileContentParams {
+  fileKey: string;
+  variant: StoredFileVariant;
+  /** 签名下载链接的参数；公开文件可不传 */
+  expires?: number;
+  signature?: string;
+}
+
+export interface StoredFileContent {
+  body: Buffer;
+  contentType: string;
+  /** 是否为公开内容（可被共享缓存） */
+  isPublic: boolean;
+}
+
+/** 可读取内容的状态（RELEASED 在清理前仍可通过签名链接读取） */
+const READABLE_STATUSES: ReadonlyArray<StoredFileStatus> = [
+  StoredFileStatus.UPLOADED,
+  StoredFileStatus.ATTACHED,
+  StoredFileStatus.RELEASED,
+];
+
+/**
+ * 读取文件内容用例
+ * 已设为头像的图片公开可读（fileKey 不可猜测）；其余文件须携带有效的签名下载链接
+ */
+@Injectable()
+export class GetStoredFileContentUsecase {
+  constructor(
+    private readonly storedFileService: StoredFileService,
+    private readonly storageObjectService: StorageObjectService,
+    private readonly storageUrlService: StorageUrlService,
+  ) {}
+
+  async execute(params: GetStoredFileContentParams): Promise<StoredFileContent> {
+    const file = await this.storedFileService.findByFileKey(params.fileKey);
+    if (!file || !READABLE_STATUSES.includes(file.status)) {
+      throw new DomainError(STORAGE_ERROR.FILE_NOT_FOUND, '文件不存在');
+    }
+
+    const isPublic =
+      file.status === StoredFileStatus.ATTACHED && file.purpose === StoredFilePurpose.AVATAR;
+    if (!isPublic) {
+      const valid =
+        params.expires !== undefined &&
+        params.signature !== undefined &&
+        this.storageUrlService.verify({
+          method: 'GET',
+          fileKey: file.fileKey,
+          variant: params.variant,
+          expires: params.expires,
+          signature: params.signature,
+        });
+      if (!valid) {
+        throw new DomainError(STORAGE_ERROR.SIGNED_URL_INVALID, '下载链接无效或已过期');
+      }
+    }
+
+    const isThumbnail = params.variant === StoredFileVariant.THUMBNAIL;
+    const key = isThumbnail ? file.thumbnailKey : file.storageKey;
+    const body = key ? await this.storageObjectService.get(key) : null;
+    if (!body) {
+      throw new DomainError(STORAGE_ERROR.FILE_NOT_FOUND, '文件不存在');
+    }
+    return {
+      body,
+      contentType: isThumbnail ? STORED_FILE_THUMBNAIL_CONTENT_TYPE : file.contentType,
+      isPublic,
+    };
+  }
+}
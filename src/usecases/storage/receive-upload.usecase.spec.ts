@@ -0,0 +1,171 @@
+// src/usecases/storage/receive-upload.usecase.spec.ts
+import {
+  StorageConfig,
+  StoredFilePurpose,
+  StoredFileStatus,
+  StoredFileView,
+} from '@app-types/models/stored-file.types';
+import { STORAGE_ERROR } from '@core/common/errors/domain-error';
+import type { ImageProbeResult, ImageThumbnail } from '@core/storage/image-processor.interface';
+import type { ConfigService } from '@nestjs/config';
+import type { StorageObjectService } from '@src/modules/common/storage/storage-object.service';
+import type { StorageUrlService } from '@src/modules/common/storage/storage-url.service';
+import type { StoredFileService } from '@src/modules/stored-file/stored-file.service';
+import type { PinoLogger } from 'nestjs-pino';
+import { ReceiveUploadUsecase } from './receive-upload.usecase';
+
+type StoredFileServiceMock = {
+  readonly findByFileKey: jest.Mock<Promise<StoredFileView | null>, [string]>;
+  readonly claimUpload: jest.Mock<Promise<boolean>, [{ id: number }]>;
+  readonly releaseUploadClaim: jest.Mock<Promise<void>, [{ id: number }]>;
+  readonly markUploaded: jest.Mock<Promise<boolean>>;
+  readonly findById: jest.Mock<Promise<StoredFileView | null>, [number]>;
+};
+
+type StorageObjectServiceMock = {
+  readonly probeImage: jest.Mock<Promise<ImageProbeResult | null>, [Buffer]>;
+  readonly createThumbnail: jest.Mock<Promise<ImageThumbnail>>;
+  readonly put: jest.Mock<Promise<void>, [{ key: string; body: Buffer; contentType: string }]>;
+  readonly remove: jest.Mock<Promise<void>, [ReadonlyArray<string | null>]>;
+};
+
+type StorageUrlServiceMock = {
+  readonly verify: jest.Mock<boolean>;
+};
+
+type ConfigServiceMock = {
+  readonly get: jest.Mock<Partial<StorageConfig> | undefined, [string]>;
+};
+
+type LoggerMock = {
+  readonly setContext: jest.Mock<void, [string]>;
+  readonly info: jest.Mock;
+};
+
+function createStoredFileView(status: StoredFileStatus): StoredFileView {
+  return {
+    id: 5,
+    fileKey: 'abc',
+    ownerAccountId: 7,
+    purpose: StoredFilePurpose.AVATAR,
+    status,
+    contentType: 'image/png',
+    sizeBytes: 1024,
+    width: null,
+    height: null,
+    attachedType: null,
+    attachedId: null,
+    driver: 'local',
+    storageKey: 'avatar/202601/abc',
+    thumbnailKey: null,
+    uploadExpiresAt: new Date('2026-01-01T00:10:00.000Z'),
+    uploadedAt: null,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  };
+}
+
+describe('ReceiveUploadUsecase', () => {
+  const params = {
+    fileKey: 'abc',
+    expires: 1767226200,
+    signature: 'sig',
+    contentType: 'image/png',
+    body: Buffer.from('png-bytes'),
+  };
+
+  let storedFileService: StoredFileServiceMock;
+  let storageObjectService: StorageObjectServiceMock;
+  let storageUrlService: StorageUrlServiceMock;
+  let configService: ConfigServiceMock;
+  let logger: LoggerMock;
+  let usecase: ReceiveUploadUsecase;
+
+  beforeEach(() => {
+    storedFileService = {
+      findByFileKey: jest.fn().mockResolvedValue(createStoredFileView(StoredFileStatus.PENDING)),
+      claimUpload: jest.fn().mockResolvedValue(true),
+      releaseUploadClaim: jest.fn().mockResolvedValue(undefined),
+      markUploaded: jest.fn().mockResolvedValue(true),
+      findById: jest.fn().mockResolvedValue(createStoredFileView(StoredFileStatus.UPLOADED)),
+    };
+    storageObjectService = {
+      probeImage: jest.fn().mockResolvedValue({ contentType: 'image/png', width: 64, height: 64 }),
+      createThumbnail: jest
+        .fn()
+        .mockResolvedValue({ body: Buffer.from('thumb'), contentType: 'image/webp' }),
+      put: jest.fn().mockResolvedValue(undefined),
+      remove: jest.fn().mockResolvedValue(undefined),
+    };
+    storageUrlService = {
+      verify: jest.fn().mockReturnValue(true),
+    };
+    configService = {
+      get: jest.fn().mockReturnValue({ thumbnailSize: 128 }),
+    };
+    logger = {
+      setContext: jest.fn(),
+      info: jest.fn(),
+    };
+
+    usecase = new ReceiveUploadUsecase(
+      storedFileService as unknown as StoredFileService,
+      storageObjectService as unknown as StorageObjectService,
+      storageUrlService as unknown as StorageUrlService,
+      configService as unknown as ConfigService,
+      logger as unknown as PinoLogger,
+    );
+  });
+
+  it('认领记录后写入原图与缩略图并标记为已上传', async () => {
+    await expect(usecase.execute(params)).resolves.toMatchObject({
+      status: StoredFileStatus.UPLOADED,
+    });
+
+    expect(storedFileService.claimUpload).toHaveBeenCalledWith({ id: 5 });
+    expect(storageObjectService.put.mock.calls.map(([input]) => input.key)).toEqual([
+      'avatar/202601/abc',
+      'avatar/202601/abc_thumb',
+    ]);
+    expect(storedFileService.markUploaded).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 5, thumbnailKey: 'avatar/202601/abc_thumb' }),
+    );
+    expect(storageObjectService.remove).not.toHaveBeenCalled();
+  });
+
+  it('并发上传中未认领到记录的请求直接失败，不写入也不删除存储对象', async () => {
+    storedFileService.claimUpload.mockResolvedValue(false);
+
+    await expect(usecase.execute(params)).rejects.toMatchObject({
+      code: STORAGE_ERROR.FILE_NOT_READY,
+    });
+
+    expect(storageObjectService.put).not.toHaveBeenCalled();
+    expect(storageObjectService.remove).not.toHaveBeenCalled();
+    expect(storedFileService.markUploaded).not.toHaveBeenCalled();
+    expect(storedFileService.releaseUploadClaim).not.toHaveBeenCalled();
+  });
+
+  it('写入失败时删除本次写入的对象并放弃认领，链接可继续使用', async () => {
+    storageObjectService.put
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(usecase.execute(params)).rejects.toThrow('disk full');
+
+    expect(storageObjectService.remove).toHaveBeenCalledWith([
+      'avatar/202601/abc',
+      'avatar/202601/abc_thumb',
+    ]);
+    expect(storedFileService.releaseUploadClaim).toHaveBeenCalledWith({ id: 5 });
+    expect(storedFileService.markUploaded).not.toHaveBeenCalled();
+  });
+
+  it('内容校验失败时不认领记录', async () => {
+    storageObjectService.probeImage.mockResolvedValue(null);
+
+    await expect(usecase.execute(params)).rejects.toMatchObject({
+      code: STORAGE_ERROR.CONTENT_MISMATCH,
+    });
+    expect(storedFileService.claimUpload).not.toHaveBeenCalled();
+  });
+});
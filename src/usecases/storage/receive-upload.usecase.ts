@@ -0,0 +1,156 @@
+// src/usecases/storage/receive-upload.usecase.ts
+
+import {
+  StorageConfig,
+  StoredFileStatus,
+  StoredFileVariant,
+  StoredFileView,
+} from '@app-types/models/stored-file.types';
+import { DomainError, STORAGE_ERROR } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageObjectService } from '@src/modules/common/storage/storage-object.service';
+import { StorageUrlService } from '@src/modules/common/storage/storage-url.service';
+import { StoredFileService } from '@src/modules/stored-file/stored-file.service';
+import { PinoLogger } from 'nestjs-pino';
+import { normalizeContentType } from './storage-input.normalize';
+
+export interface UploadUrlParams {
+  fileKey: string;
+  /** 签名链接中的过期时间（秒级时间戳） */
+  expires: number;
+  signature: string;
+}
+
+export interface ReceiveUploadParams extends UploadUrlParams {
+  /** 请求头中的 Content-Type */
+  contentType: string;
+  body: Buffer;
+}
+
+/**
+ * 接收上传内容用例（签名上传链接的 PUT 请求）
+ * 校验签名 → 校验大小与类型（以文件内容识别结果为准）→ 认领记录 → 写入原图与缩略图 → 记录标记为 UPLOADED
+ * 同一链接的并发上传只有认领成功的请求会写入存储对象，其余请求直接失败，不会覆盖或删除他人写入的对象
+ */
+@Injectable()
+export class ReceiveUploadUsecase {
+  constructor(
+    private readonly storedFileService: StoredFileService,
+    private readonly storageObjectService: StorageObjectService,
+    private readonly storageUrlService: StorageUrlService,
+    private readonly configService: ConfigService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(ReceiveUploadUsecase.name);
+  }
+
+  /**
+   * 读取请求体之前校验链接，返回允许的最大字节数
+   */
+  async authorize(params: UploadUrlParams): Promise<{ maxBytes: number }> {
+    const file = await this.findPendingFile(params);
+    return { maxBytes: file.sizeBytes ?? 0 };
+  }
+
+  async execute(params: ReceiveUploadParams): Promise<StoredFileView> {
+    const file = await this.findPendingFile(params);
+    if (params.body.length === 0) {
+      throw new DomainError(STORAGE_ERROR.CONTENT_MISMATCH, '上传内容为空');
+    }
+    if (params.body.length > (file.sizeBytes ?? 0)) {
+      throw new DomainError(STORAGE_ERROR.FILE_TOO_LARGE, '上传内容超过申请的大小', {
+        maxBytes: file.sizeBytes,
+      });
+    }
+    const declaredType = normalizeContentType(params.contentType);
+    if (declaredType !== file.contentType) {
+      throw new DomainError(STORAGE_ERROR.CONTENT_MISMATCH, 'Content-Type 与申请时不一致', {
+        expected: file.contentType,
+      });
+    }
+    // 不信任请求头，按实际内容识别格式
+    const probe = await this.storageObjectService.probeImage(params.body);
+    if (!probe || probe.contentType !== file.contentType) {
+      throw new DomainError(STORAGE_ERROR.CONTENT_MISMATCH, '文件内容与声明的类型不一致', {
+        expected: file.contentType,
+      });
+    }
+
+    const thumbnail = await this.storageObjectService.createThumbnail({
+      body: params.body,
+      size: this.getConfig().thumbnailSize,
+    });
+    if (!(await this.storedFileService.claimUpload({ id: file.id }))) {
+      throw new DomainError(STORAGE_ERROR.FILE_NOT_READY, '文件已上传或已失效');
+    }
+
+    const thumbnailKey = `${file.storageKey}_thumb`;
+    try {
+      await this.storageObjectService.put({
+        key: file.storageKey,
+        body: params.body,
+        contentType: probe.contentType,
+      });
+      await this.storageObjectService.put({
+        key: thumbnailKey,
+        body: thumbnail.body,
+        contentType: thumbnail.contentType,
+      });
+    } catch (error) {
+      // 对象键只由持有认领的请求写入，可以安全删除
+      await this.storageObjectService.remove([file.storageKey, thumbnailKey]);
+      await this.storedFileService.releaseUploadClaim({ id: file.id });
+      throw error;
+    }
+
+    const uploaded = await this.storedFileService.markUploaded({
+      id: file.id,
+      contentType: probe.contentType,
+      sizeBytes: params.body.length,
+      width: probe.width,
+      height: probe.height,
+      thumbnailKey,
+    });
+    if (!uploaded) {
+      // 认领期间记录已被清理任务删除：本次写入的对象不再被任何记录引用
+      await this.storageObjectService.remove([file.storageKey, thumbnailKey]);
+      throw new DomainError(STORAGE_ERROR.FILE_NOT_READY, '文件已上传或已失效');
+    }
+
+    this.logger.info(
+      { event: 'stored_file_uploaded', fileId: file.id, sizeBytes: params.body.length },
+      '文件上传完成',
+    );
+    return (await this.storedFileService.findById(file.id)) ?? file;
+  }
+
+  private async findPendingFile(params: UploadUrlParams): Promise<StoredFileView> {
+    const valid = this.storageUrlService.verify({
+      method: 'PUT',
+      fileKey: params.fileKey,
+      variant: StoredFileVariant.ORIGINAL,
+      expires: params.expires,
+      signature: params.signature,
+    });
+    if (!valid) {
+      throw new DomainError(STORAGE_ERROR.SIGNED_URL_INVALID, '上传链接无效或已过期');
+    }
+    const file = await this.storedFileService.findByFileKey(params.fileKey);
+    if (!file) {
+      throw new DomainError(STORAGE_ERROR.FILE_NOT_FOUND, '文件不存在');
+    }
+    if (file.status !== StoredFileStatus.PENDING) {
+      throw new DomainError(STORAGE_ERROR.FILE_NOT_READY, '文件已上传或已失效');
+    }
+    return file;
+  }
+
+  private getConfig(): StorageConfig {
+    const config = this.configService.get<StorageConfig>('storage');
+    if (!config) {
+      throw new Error('storage config is not loaded');
+    }
+    return config;
+  }
+}
@@ -0,0 +1,78 @@
+// src/usecases/storage/request-avatar-upload.usecase.ts
+
+import { UsecaseSession } from '@app-types/auth/session.types';
+import {
+  StorageConfig,
+  StoredFilePurpose,
+  StoredFileView,
+} from '@app-types/models/stored-file.types';
+import { DomainError, STORAGE_ERROR } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { StorageObjectService } from '@src/modules/common/storage/storage-object.service';
+import { StorageUrlService } from '@src/modules/common/storage/storage-url.service';
+import { StoredFileService } from '@src/modules/stored-file/stored-file.service';
+import { normalizeContentType } from './storage-input.normalize';
+
+export interface RequestAvatarUploadParams {
+  session: UsecaseSession;
+  /** 待上传文件的 Content-Type，上传时须一致 */
+  contentType: string;
+  /** 待上传文件的字节数，上传内容不得超过该值 */
+  sizeBytes: number;
+}
+
+export interface AvatarUploadTicket {
+  file: StoredFileView;
+  /** 签名上传链接，客户端以 PUT 方式上传文件内容 */
+  uploadUrl: string;
+  expiresAt: Date;
+}
+
+/**
+ * 申请上传头像用例
+ * 校验类型与大小后创建 PENDING 文件记录并签发上传链接；上传完成后通过 uploadAvatar 设为头像
+ */
+@Injectable()
+export class RequestAvatarUploadUsecase {
+  constructor(
+    private readonly storedFileService: StoredFileService,
+    private readonly storageObjectService: StorageObjectService,
+    private readonly storageUrlService: StorageUrlService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async execute(params: RequestAvatarUploadParams): Promise<AvatarUploadTicket> {
+    const config = this.configService.get<StorageConfig>('storage');
+    if (!config) {
+      throw new Error('storage config is not loaded');
+    }
+
+    const contentType = normalizeContentType(params.contentType);
+    if (!config.avatarContentTypes.includes(contentType)) {
+      throw new DomainError(STORAGE_ERROR.CONTENT_TYPE_NOT_ALLOWED, '不支持的头像文件类型', {
+        allowed: config.avatarContentTypes,
+      });
+    }
+    if (!Number.isInteger(params.sizeBytes) || params.sizeBytes <= 0) {
+      throw new DomainError(STORAGE_ERROR.FILE_TOO_LARGE, '文件大小无效');
+    }
+    if (params.sizeBytes > config.avatarMaxBytes) {
+      throw new DomainError(STORAGE_ERROR.FILE_TOO_LARGE, '头像文件过大', {
+        maxBytes: config.avatarMaxBytes,
+      });
+    }
+
+    const now = new Date();
+    const file = await this.storedFileService.createPending({
+      ownerAccountId: params.session.accountId,
+      purpose: StoredFilePurpose.AVATAR,
+      contentType,
+      sizeBytes: params.sizeBytes,
+      driver: this.storageObjectService.getDriverName(),
+      uploadExpiresAt: new Date(now.getTime() + config.uploadUrlExpiresInSeconds * 1000),
+    });
+    const upload = this.storageUrlService.createUploadUrl({ fileKey: file.fileKey, now });
+    return { file, uploadUrl: upload.url, expiresAt: upload.expiresAt };
+  }
+}
@@ -0,0 +1,10 @@
+// src/usecases/storage/storage-input.normalize.ts
+
+/**
+ * 规范化 Content-Type：去掉参数部分（如 charset），去除首尾空白并转小写
+ * @param input 请求中声明的 Content-Type
+ * @returns 可直接与白名单 / 申请记录比较的 MIME 类型
+ */
+export function normalizeContentType(input: string): string {
+  return input.split(';')[0].trim().toLowerCase();
+}
@@ -0,0 +1,41 @@
+// src/usecases/storage/storage-usecases.module.ts
+import { Module } from '@nestjs/common';
+import { AccountInstallerModule } from '@src/modules/account/account-installer.module';
+import { CoachServiceModule } from '@src/modules/account/identities/training/coach/coach-service.module';
+import { CustomerServiceModule } from '@src/modules/account/identities/training/customer/customer-service.module';
+import { LearnerIdentityModule } from '@src/modules/account/identities/training/learner/learner.module';
+import { ManagerServiceModule } from '@src/modules/account/identities/training/manager/manager-service.module';
+import { StorageModule } from '@src/modules/common/storage/storage.module';
+import { StoredFileModule } from '@src/modules/stored-file/stored-file.module';
+import { CreateFileDownloadUrlUsecase } from './create-file-download-url.usecase';
+import { GetStoredFileContentUsecase } from './get-stored-file-content.usecase';
+import { ReceiveUploadUsecase } from './receive-upload.usecase';
+import { RequestAvatarUploadUsecase } from './request-avatar-upload.usecase';
+import { UploadAvatarUsecase } from './upload-avatar.usecase';
+
+@Module({
+  imports: [
+    StorageModule,
+    StoredFileModule,
+    AccountInstallerModule,
+    CoachServiceModule,
+    CustomerServiceModule,
+    LearnerIdentityModule,
+    ManagerServiceModule,
+  ],
+  providers: [
+    RequestAvatarUploadUsecase,
+    ReceiveUploadUsecase,
+    GetStoredFileContentUsecase,
+    CreateFileDownloadUrlUsecase,
+    UploadAvatarUsecase,
+  ],
+  exports: [
+    RequestAvatarUploadUsecase,
+    ReceiveUploadUsecase,
+    GetStoredFileContentUsecase,
+    CreateFileDownloadUrlUsecase,
+    UploadAvatarUsecase,
+  ],
+})
+export class StorageUsecasesModule {}
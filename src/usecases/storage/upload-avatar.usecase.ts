@@ -0,0 +1,210 @@
+// src/usecases/storage/upload-avatar.usecase.ts
+
+import { UsecaseSession } from '@app-types/auth/session.types';
+import {
+  StoredFileAttachmentType,
+  StoredFilePurpose,
+  StoredFileStatus,
+  StoredFileVariant,
+  StoredFileView,
+} from '@app-types/models/stored-file.types';
+import {
+  ACCOUNT_ERROR,
+  DomainError,
+  LEARNER_ERROR,
+  PERMISSION_ERROR,
+  STORAGE_ERROR,
+} from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { CoachService } from '@src/modules/account/identities/training/coach/coach.service';
+import { CustomerService } from '@src/modules/account/identities/training/customer/account-customer.service';
+import { LearnerService } from '@src/modules/account/identities/training/learner/account-learner.service';
+import { ManagerService } from '@src/modules/account/identities/training/manager/manager.service';
+import { StorageUrlService } from '@src/modules/common/storage/storage-url.service';
+import { StoredFileService } from '@src/modules/stored-file/stored-file.service';
+import { EntityManager } from 'typeorm';
+
+export interface UploadAvatarParams {
+  session: UsecaseSession;
+  /** 已上传完成的文件 ID（requestAvatarUpload 返回） */
+  fileId: number;
+  target: StoredFileAttachmentType;
+  /** 教练 ID / 学员 ID；设置本人头像或教练本人头像时可省略 */
+  targetId?: number;
+}
+
+export interface UploadAvatarResult {
+  file: StoredFileView;
+  avatarUrl: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * 设置头像用例
+ * 权限：
+ * - USER_AVATAR：仅本人
+ * - COACH_AVATAR：教练本人；Manager 须指定教练 ID（与 updateCoach 一致）
+ * - LEARNER_AVATAR：学员所属客户；或有权管理该客户的 Manager
+ * 单事务内：文件标记为 ATTACHED → 解除原头像文件的引用（由清理任务删除）→ 写入 avatarUrl
+ */
+@Injectable()
+export class UploadAvatarUsecase {
+  constructor(
+    private readonly storedFileService: StoredFileService,
+    private readonly storageUrlService: StorageUrlService,
+    private readonly accountService: AccountService,
+    private readonly coachService: CoachService,
+    private readonly customerService: CustomerService,
+    private readonly learnerService: LearnerService,
+    private readonly managerService: ManagerService,
+  ) {}
+
+  async execute(params: UploadAvatarParams): Promise<UploadAvatarResult> {
+    const file = await this.storedFileService.findById(params.fileId);
+    // 只能使用本人上传的文件；他人的文件与不存在的文件返回相同错误
+    if (!file || file.ownerAccountId !== params.session.accountId) {
+      throw new DomainError(STORAGE_ERROR.FILE_NOT_FOUND, '文件不存在');
+    }
+    if (file.purpose !== StoredFilePurpose.AVATAR || file.status !== StoredFileStatus.UPLOADED) {
+      throw new DomainError(STORAGE_ERROR.FILE_NOT_READY, '文件未上传完成或已被使用');
+    }
+
+    const attachedId = await this.resolveTargetId(params);
+    const avatarUrl = this.storageUrlService.buildPublicUrl({
+      fileKey: file.fileKey,
+      variant: StoredFileVariant.ORIGINAL,
+    });
+
+    await this.accountService.runTransaction(async (manager) => {
+      const attached = await this.storedFileService.attach({
+        id: file.id,
+        attachedType: params.target,
+        attachedId,
+        manager,
+      });
+      if (!attached) {
+        throw new DomainError(STORAGE_ERROR.FILE_NOT_READY, '文件未上传完成或已被使用');
+      }
+      await this.storedFileService.releaseByAttachment({
+        attachedType: params.target,
+        attachedId,
+        exceptId: file.id,
+        manager,
+      });
+      await this.writeAvatarUrl({
+        target: params.target,
+        attachedId,
+        avatarUrl,
+        actorAccountId: params.session.accountId,
+        manager,
+      });
+    });
+
+    return {
+      file: (await this.storedFileService.findById(file.id)) ?? file,
+      avatarUrl,
+      thumbnailUrl: this.storageUrlService.buildPublicUrl({
+        fileKey: file.fileKey,
+        variant: StoredFileVariant.THUMBNAIL,
+      }),
+    };
+  }
+
+  /**
+   * 按目标类型校验权限，返回引用方 ID（账户 ID / 教练 ID / 学员 ID）
+   */
+  private async resolveTargetId(params: UploadAvatarParams): Promise<number> {
+    const accountId = params.session.accountId;
+    switch (params.target) {
+      case StoredFileAttachmentType.USER_AVATAR:
+        if (params.targetId !== undefined && params.targetId !== accountId) {
+          throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '只能修改本人头像');
+        }
+        return accountId;
+      case StoredFileAttachmentType.COACH_AVATAR:
+        return await this.resolveCoachId(accountId, params.targetId);
+      case StoredFileAttachmentType.LEARNER_AVATAR:
+        return await this.resolveLearnerId(accountId, params.targetId);
+      default:
+        throw new DomainError(ACCOUNT_ERROR.OPERATION_NOT_SUPPORTED, '不支持的头像类型');
+    }
+  }
+
+  private async resolveCoachId(accountId: number, coachId?: number): Promise<number> {
+    const asCoach = await this.coachService.findProfileByAccountId(accountId);
+    if (asCoach) {
+      if (coachId !== undefined && coachId !== asCoach.id) {
+        throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '无权限编辑其他教练信息');
+      }
+      return asCoach.id;
+    }
+
+    const asManager = await this.managerService.findByAccountId(accountId);
+    if (!asManager) {
+      throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '用户身份验证失败');
+    }
+    if (coachId === undefined) {
+      throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, 'Manager 必须指定目标教练 ID');
+    }
+    if (!(await this.coachService.findById(coachId))) {
+      throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '目标教练不存在');
+    }
+    return coachId;
+  }
+
+  private async resolveLearnerId(accountId: number, learnerId?: number): Promise<number> {
+    if (learnerId === undefined) {
+      throw new DomainError(LEARNER_ERROR.LEARNER_NOT_FOUND, '必须指定学员 ID');
+    }
+    const learner = await this.learnerService.findById(learnerId);
+    if (!learner || learner.deactivatedAt) {
+      throw new DomainError(LEARNER_ERROR.LEARNER_NOT_FOUND, '学员不存在');
+    }
+
+    const customer = await this.customerService.findByAccountId(accountId);
+    if (customer?.id === learner.customerId) {
+      return learner.id;
+    }
+    const manager = await this.managerService.findByAccountId(accountId);
+    if (
+      manager &&
+      (await this.managerService.hasPermissionForCustomer(manager.id, learner.customerId))
+    ) {
+      return learner.id;
+    }
+    throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '无权限访问该学员');
+  }
+
+  private async writeAvatarUrl(params: {
+    target: StoredFileAttachmentType;
+    attachedId: number;
+    avatarUrl: string;
+    actorAccountId: number;
+    manager: EntityManager;
+  }): Promise<void> {
+    const { attachedId, avatarUrl, actorAccountId, manager } = params;
+    if (params.target === StoredFileAttachmentType.USER_AVATAR) {
+      const userInfo = await this.accountService.findUserInfoByAccountId(attachedId, manager);
+      if (!userInfo) {
+        throw new DomainError(ACCOUNT_ERROR.USER_INFO_NOT_FOUND, '用户信息不存在');
+      }
+      userInfo.avatarUrl = avatarUrl;
+      await this.accountService.saveUserInfo({ userInfo, manager });
+      return;
+    }
+    if (params.target === StoredFileAttachmentType.COACH_AVATAR) {
+      await this.coachService.updateCoachWithManager({
+        id: attachedId,
+        updateData: { avatarUrl, updatedBy: actorAccountId },
+        manager,
+      });
+      return;
+    }
+    await this.learnerService.updateWithManager({
+      id: attachedId,
+      updateData: { avatarUrl, updatedBy: actorAccountId },
+      manager,
+    });
+  }
+}
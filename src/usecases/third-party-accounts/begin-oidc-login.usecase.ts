@@ -0,0 +1,21 @@
+// src/usecases/third-party-accounts/begin-oidc-login.usecase.ts
+import { OidcAuthorizationView } from '@app-types/auth/oidc.types';
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import { ThirdPartyAuthService } from '@modules/third-party-auth/third-party-auth.service';
+import { Injectable } from '@nestjs/common';
+
+/**
+ * 发起 OIDC / OAuth2 登录用例
+ * 返回平台授权地址；客户端保管 flowToken，回调后连同 code 与 state 调用 thirdPartyLogin
+ */
+@Injectable()
+export class BeginOidcLoginUsecase {
+  constructor(private readonly tpa: ThirdPartyAuthService) {}
+
+  async execute(params: {
+    provider: ThirdPartyProviderEnum;
+    audience: AudienceTypeEnum;
+  }): Promise<OidcAuthorizationView> {
+    return await this.tpa.beginOidcAuthorization(params);
+  }
+}
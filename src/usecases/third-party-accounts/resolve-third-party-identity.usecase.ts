@@ -12,6 +12,10 @@ export interface ResolveThirdPartyIdentityParams {
   provider: ThirdPartyProviderEnum;
   authCredential: string;
   audience: AudienceTypeEnum;
+  /** OAuth2 回调中的 state（仅 OIDC / OAuth2 平台） */
+  state?: string;
+  /** 发起登录时签发的流程令牌（仅 OIDC / OAuth2 平台） */
+  flowToken?: string;
 }
 
 @Injectable()
@@ -26,6 +30,8 @@ export class ResolveThirdPartyIdentityUsecase {
         provider: params.provider,
         authCredential: credential,
         audience: params.audience,
+        state: params.state,
+        flowToken: params.flowToken,
       });
     } catch (e) {
       if (e instanceof DomainError) {
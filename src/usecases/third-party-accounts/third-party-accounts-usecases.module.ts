@@ -1,6 +1,7 @@
 // src/usecases/third-party-accounts/third-party-accounts-usecases.module.ts
 import { ThirdPartyAuthModule } from '@modules/third-party-auth/third-party-auth.module';
 import { Module } from '@nestjs/common';
+import { BeginOidcLoginUsecase } from '@src/usecases/third-party-accounts/begin-oidc-login.usecase';
 import { BindThirdPartyAccountUsecase } from '@src/usecases/third-party-accounts/bind-third-party-account.usecase';
 import { GenerateWeappQrcodeUsecase } from '@src/usecases/third-party-accounts/generate-weapp-qrcode.usecase';
 import { GetThirdPartyAuthsUsecase } from '@src/usecases/third-party-accounts/get-third-party-auths.usecase';
@@ -11,6 +12,7 @@ import { UnbindThirdPartyAccountUsecase } from '@src/usecases/third-party-accoun
 @Module({
   imports: [ThirdPartyAuthModule],
   providers: [
+    BeginOidcLoginUsecase,
     BindThirdPartyAccountUsecase,
     GenerateWeappQrcodeUsecase,
     GetThirdPartyAuthsUsecase,
@@ -19,6 +21,7 @@ import { UnbindThirdPartyAccountUsecase } from '@src/usecases/third-party-accoun
     UnbindThirdPartyAccountUsecase,
   ],
   exports: [
+    BeginOidcLoginUsecase,
     BindThirdPartyAccountUsecase,
     GenerateWeappQrcodeUsecase,
     GetThirdPartyAuthsUsecase,
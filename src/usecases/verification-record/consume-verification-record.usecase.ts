@@ -65,6 +65,8 @@ export interface ConsumeByIdUsecaseParams {
 export interface RevokeRecordUsecaseParams {
   /** 记录 ID */
   recordId: number;
+  /** 撤销操作者账户 ID（写入撤销事件） */
+  actorAccountId?: number;
   /** 可选的事务管理器 */
   manager?: VerificationRecordTransactionManager;
 }
@@ -245,7 +247,7 @@ export class ConsumeVerificationRecordUsecase {
    * @returns 更新后的验证记录实体
    */
   async revokeRecord(params: RevokeRecordUsecaseParams): Promise<VerificationRecordDetailView> {
-    const { recordId, manager } = params;
+    const { recordId, actorAccountId, manager } = params;
 
     return this.verificationRecordService.runTransaction(async (transactionManager) => {
       const activeManager = manager || transactionManager;
@@ -254,6 +256,7 @@ export class ConsumeVerificationRecordUsecase {
         const { affected, updatedRecord, currentRecord } =
           await this.verificationRecordService.revokeRecord({
             recordId,
+            actorAccountId,
             manager: activeManager,
           });
 
@@ -392,6 +395,12 @@ export class ConsumeVerificationRecordUsecase {
         'Manager 邀请需要指定消费者账户 ID',
       );
     }
+    if (expectedType === VerificationRecordType.INVITE_LEARNER) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        'Learner 邀请需要指定消费者账户 ID',
+      );
+    }
     return { mode: 'NULL_ONLY' };
   }
 }
@@ -1,8 +1,13 @@
 // src/usecases/verification-record/create-verification-record.usecase.ts
 
+import { SmsCodePurpose } from '@app-types/auth/sms-code.types';
+import { AudienceTypeEnum } from '@app-types/models/account.types';
 import {
+  CODE_VERIFICATION_RECORD_TYPES,
   CreateVerificationRecordParams,
+  SubjectType,
   VerificationRecordType,
+  WEAPP_BIND_EXPIRES_IN_MINUTES,
 } from '@app-types/models/verification-record.types';
 import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
 import { VerificationCodeHelper } from '@modules/verification-record/verification-code.helper';
@@ -52,6 +57,12 @@ export class CreateVerificationRecordUsecase {
     VerificationRecordType.PASSWORD_RESET,
     VerificationRecordType.INVITE_COACH,
     VerificationRecordType.INVITE_MANAGER,
+    VerificationRecordType.INVITE_LEARNER,
+    VerificationRecordType.EMAIL_VERIFY_LINK,
+    VerificationRecordType.EMAIL_VERIFY_CODE,
+    VerificationRecordType.SMS_VERIFY_CODE,
+    VerificationRecordType.MAGIC_LINK,
+    VerificationRecordType.WEAPP_BIND,
   ]);
 
   constructor(
@@ -166,6 +177,27 @@ export class CreateVerificationRecordUsecase {
         '验证记录创建失败：缺少过期时间',
       );
     }
+
+    // 验证码类记录按（类型 + 目标）定位，必须有目标账户或载荷
+    if (
+      CODE_VERIFICATION_RECORD_TYPES.has(params.type) &&
+      !params.targetAccountId &&
+      !params.payload
+    ) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.CREATION_FAILED,
+        '验证记录创建失败：验证码需要指定目标账户',
+        { type: params.type },
+      );
+    }
+
+    if (params.maxAttempts !== undefined && params.maxAttempts < 1) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.CREATION_FAILED,
+        '验证记录创建失败：最大尝试次数必须大于 0',
+        { maxAttempts: params.maxAttempts },
+      );
+    }
   }
 
   private validateTimeParams(params: CreateVerificationRecordUsecaseParams): void {
@@ -282,4 +314,149 @@ export class CreateVerificationRecordUsecase {
       tokenLength: params.tokenLength || 64,
     });
   }
+
+  /**
+   * 创建邮箱验证链接
+   * 便捷方法：验证的邮箱写入载荷，消费时与账户当前邮箱比对，默认 24 小时过期
+   * @param params 创建参数
+   * @returns 创建结果
+   */
+  async createEmailVerifyLink(params: {
+    targetAccountId: number;
+    email: string;
+    expiresInMinutes?: number;
+    tokenLength?: number;
+  }): Promise<CreateVerificationRecordUsecaseResult> {
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + (params.expiresInMinutes || 1440));
+
+    return this.execute({
+      type: VerificationRecordType.EMAIL_VERIFY_LINK,
+      expiresAt,
+      targetAccountId: params.targetAccountId,
+      payload: { email: params.email },
+      tokenLength: params.tokenLength || 64,
+    });
+  }
+
+  /**
+   * 创建魔法登录链接
+   * 便捷方法：登录邮箱与客户端类型写入载荷，消费时与账户当前邮箱比对，默认 15 分钟过期
+   * @param params 创建参数
+   * @returns 创建结果
+   */
+  async createMagicLink(params: {
+    targetAccountId: number;
+    email: string;
+    audience: AudienceTypeEnum;
+    expiresInMinutes?: number;
+    tokenLength?: number;
+  }): Promise<CreateVerificationRecordUsecaseResult> {
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + (params.expiresInMinutes || 15));
+
+    return this.execute({
+      type: VerificationRecordType.MAGIC_LINK,
+      expiresAt,
+      targetAccountId: params.targetAccountId,
+      payload: { email: params.email, audience: params.audience },
+      tokenLength: params.tokenLength || 64,
+    });
+  }
+
+  /**
+   * 创建学员邀请
+   * 便捷方法：以学员为主体，学员姓名与所属客户写入载荷，默认 7 天过期
+   * token 同时作为小程序码 scene，长度不超过 32
+   * @param params 创建参数
+   * @returns 创建结果
+   */
+  async createLearnerInvite(params: {
+    learnerId: number;
+    learnerName: string;
+    customerId: number;
+    issuedByAccountId: number;
+    expiresInMinutes?: number;
+  }): Promise<CreateVerificationRecordUsecaseResult> {
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + (params.expiresInMinutes || 10080));
+
+    return this.execute({
+      type: VerificationRecordType.INVITE_LEARNER,
+      expiresAt,
+      subjectType: SubjectType.LEARNER,
+      subjectId: params.learnerId,
+      issuedByAccountId: params.issuedByAccountId,
+      payload: { learnerName: params.learnerName, customerId: params.customerId },
+      tokenLength: 32,
+    });
+  }
+
+  /**
+   * 创建小程序扫码绑定记录
+   * 便捷方法：以待绑定账户为目标，token 作为小程序码 scene（长度不超过 32），默认 10 分钟过期
+   * @param params 创建参数
+   * @returns 创建结果
+   */
+  async createWeappBind(params: {
+    targetAccountId: number;
+    expiresInMinutes?: number;
+  }): Promise<CreateVerificationRecordUsecaseResult> {
+    const expiresAt = new Date();
+    expiresAt.setMinutes(
+      expiresAt.getMinutes() + (params.expiresInMinutes || WEAPP_BIND_EXPIRES_IN_MINUTES),
+    );
+
+    return this.execute({
+      type: VerificationRecordType.WEAPP_BIND,
+      expiresAt,
+      targetAccountId: params.targetAccountId,
+      issuedByAccountId: params.targetAccountId,
+      tokenLength: 32,
+    });
+  }
+
+  /**
+   * 创建短信验证码
+   * 便捷方法：以「用途 + 手机号 + 验证码」组合 token 落库，手机号与用途写入载荷，默认 5 分钟过期
+   * 组合 token 冲突时重新生成验证码（最多 3 次）
+   * @param params 创建参数
+   * @returns 创建结果，额外包含下发给用户的验证码
+   */
+  async createSmsVerifyCode(params: {
+    phone: string;
+    purpose: SmsCodePurpose;
+    targetAccountId?: number;
+    expiresInMinutes?: number;
+  }): Promise<CreateVerificationRecordUsecaseResult & { code: string }> {
+    const expiresAt = new Date();
+    expiresAt.setMinutes(expiresAt.getMinutes() + (params.expiresInMinutes || 5));
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const code = this.verificationCodeHelper.generateSmsCode();
+      const token = this.verificationCodeHelper.buildSmsCodeToken({
+        phone: params.phone,
+        purpose: params.purpose,
+        code,
+      });
+      if (await this.verificationRecordService.isTokenExists(token)) {
+        continue;
+      }
+
+      const result = await this.execute({
+        type: VerificationRecordType.SMS_VERIFY_CODE,
+        expiresAt,
+        targetAccountId: params.targetAccountId,
+        payload: { phone: params.phone, purpose: params.purpose },
+        customToken: token,
+      });
+      return { ...result, code };
+    }
+
+    throw new DomainError(
+      VERIFICATION_RECORD_ERROR.CREATION_FAILED,
+      '验证记录创建失败：验证码生成冲突，重试次数已达上限',
+      { type: VerificationRecordType.SMS_VERIFY_CODE, purpose: params.purpose },
+    );
+  }
 }
@@ -1,5 +1,6 @@
 // src/usecases/verification-record/find-verification-record.usecase.ts
 
+import { VerificationRecordEventType } from '@app-types/models/verification-record-event.types';
 import { VerificationRecordType } from '@app-types/models/verification-record.types';
 import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
 import { Injectable } from '@nestjs/common';
@@ -7,6 +8,7 @@ import {
   VerificationRecordQueryService,
   VerificationRecordView,
 } from '@src/modules/verification-record/queries/verification-record.query.service';
+import { VerificationRecordEventService } from '@src/modules/verification-record/services/verification-record-event.service';
 import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
 
 /**
@@ -21,6 +23,8 @@ export interface FindVerificationRecordUsecaseParams {
   expectedType?: VerificationRecordType;
   /** 是否忽略 target 限制（用于公开验证） */
   ignoreTargetRestriction?: boolean;
+  /** 查看来源；提供时找到记录后写入 VIEWED 事件 */
+  viewer?: { accountId?: number; ip?: string };
 }
 
 /**
@@ -32,6 +36,7 @@ export class FindVerificationRecordUsecase {
   constructor(
     private readonly verificationRecordService: VerificationRecordService,
     private readonly verificationRecordQueryService: VerificationRecordQueryService,
+    private readonly verificationRecordEventService: VerificationRecordEventService,
   ) {}
 
   /**
@@ -55,7 +60,19 @@ export class FindVerificationRecordUsecase {
         ignoreTargetRestriction,
         now,
       });
-      return record ? this.verificationRecordQueryService.toCleanView(record) : null;
+      if (!record) {
+        return null;
+      }
+      if (params.viewer) {
+        await this.verificationRecordEventService.record({
+          recordId: record.id,
+          recordType: record.type,
+          eventType: VerificationRecordEventType.VIEWED,
+          actorAccountId: params.viewer.accountId ?? forAccountId ?? null,
+          ip: params.viewer.ip,
+        });
+      }
+      return this.verificationRecordQueryService.toCleanView(record);
     } catch (error) {
       throw new DomainError(
         VERIFICATION_RECORD_ERROR.QUERY_FAILED,
@@ -0,0 +1,52 @@
+// src/usecases/verification-record/get-verification-record-events.usecase.ts
+
+import { type UsecaseSession } from '@app-types/auth/session.types';
+import { IdentityTypeEnum } from '@app-types/models/account.types';
+import { VerificationRecordEvent } from '@app-types/models/verification-record-event.types';
+import { hasRole } from '@core/account/policy/role-access.policy';
+import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { VerificationRecordEventService } from '@src/modules/verification-record/services/verification-record-event.service';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+
+/**
+ * 查询验证记录事件时间线参数
+ */
+export interface GetVerificationRecordEventsParams {
+  /** 当前会话 */
+  session: UsecaseSession;
+  /** 验证记录 ID */
+  recordId: number;
+}
+
+/**
+ * 查询验证记录事件时间线用例
+ * 仅签发者本人与 ADMIN 可查看；无权查看时按记录不存在处理，避免暴露记录 ID
+ */
+@Injectable()
+export class GetVerificationRecordEventsUsecase {
+  constructor(
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly verificationRecordEventService: VerificationRecordEventService,
+  ) {}
+
+  /**
+   * 执行查询
+   * @param params 会话与记录 ID
+   * @returns 按发生时间正序的事件列表
+   */
+  async execute(params: GetVerificationRecordEventsParams): Promise<VerificationRecordEvent[]> {
+    const record = await this.verificationRecordService.findById(params.recordId);
+    const canView =
+      !!record &&
+      (record.issuedByAccountId === params.session.accountId ||
+        hasRole(params.session.roles, IdentityTypeEnum.ADMIN));
+    if (!canView) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.RECORD_NOT_FOUND, '验证记录不存在', {
+        recordId: params.recordId,
+      });
+    }
+
+    return await this.verificationRecordEventService.findTimeline(params.recordId);
+  }
+}
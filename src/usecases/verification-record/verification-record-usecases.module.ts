@@ -4,6 +4,7 @@ import { VerificationRecordModule } from '@src/modules/verification-record/verif
 import { ConsumeVerificationRecordUsecase } from './consume-verification-record.usecase';
 import { CreateVerificationRecordUsecase } from './create-verification-record.usecase';
 import { FindVerificationRecordUsecase } from './find-verification-record.usecase';
+import { GetVerificationRecordEventsUsecase } from './get-verification-record-events.usecase';
 
 @Module({
   imports: [VerificationRecordModule],
@@ -11,11 +12,13 @@ import { FindVerificationRecordUsecase } from './find-verification-record.usecas
     CreateVerificationRecordUsecase,
     ConsumeVerificationRecordUsecase,
     FindVerificationRecordUsecase,
+    GetVerificationRecordEventsUsecase,
   ],
   exports: [
     CreateVerificationRecordUsecase,
     ConsumeVerificationRecordUsecase,
     FindVerificationRecordUsecase,
+    GetVerificationRecordEventsUsecase,
   ],
 })
 export class VerificationRecordUsecasesModule {}
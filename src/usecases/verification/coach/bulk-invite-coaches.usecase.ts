@@ -0,0 +1,155 @@
+// src/usecases/verification/coach/bulk-invite-coaches.usecase.ts
+
+import {
+  BULK_COACH_INVITE_CSV_COLUMNS,
+  BULK_COACH_INVITE_MAX_ROWS,
+  BULK_COACH_INVITE_SYNC_MAX_ROWS,
+  BulkInviteReport,
+  CoachInviteCsvRow,
+} from '@app-types/models/verification-record.types';
+import { parseCsv } from '@core/common/csv/csv.parser';
+import {
+  DomainError,
+  PERMISSION_ERROR,
+  VERIFICATION_RECORD_ERROR,
+} from '@core/common/errors/domain-error';
+import { ManagerService } from '@modules/account/identities/training/manager/manager.service';
+import { Injectable } from '@nestjs/common';
+import { QueueBulkCoachInviteUsecase } from '@src/usecases/invite-queue/queue-bulk-coach-invite.usecase';
+import { PinoLogger } from 'nestjs-pino';
+import { resolveCoachInviteCsvColumn } from './coach-invite-csv.input.normalize';
+import { CreateCoachInvitesBatchUsecase } from './create-coach-invites-batch.usecase';
+
+type CsvColumn = (typeof BULK_COACH_INVITE_CSV_COLUMNS)[number];
+
+/**
+ * 批量邀请教练参数
+ */
+export interface BulkInviteCoachesParams {
+  /** 当前用户账户 ID（必须为活跃 manager） */
+  currentAccountId: number;
+  /** CSV 文本，首行为表头：name,email,phone,level,specialty */
+  csv: string;
+  /** 有效期（分钟，可选，默认 7 天） */
+  expiresInMinutes?: number;
+}
+
+/**
+ * 批量邀请教练结果
+ * 同步处理时直接返回报告；转为异步任务时返回任务 ID，报告通过任务查询获取
+ */
+export interface BulkInviteCoachesResult {
+  /** 数据行数 */
+  total: number;
+  /** 是否转为异步任务 */
+  async: boolean;
+  /** 异步任务 ID（同步处理时为 null） */
+  jobId: string | null;
+  /** 逐行结果报告（异步处理时为 null） */
+  report: BulkInviteReport | null;
+}
+
+/**
+ * 批量邀请教练用例（仅允许 manager 身份）
+ * 流程：解析 CSV → 行数不超过同步上限时直接签发并返回报告 → 否则投递异步任务（记录于 base_async_task_records）
+ */
+@Injectable()
+export class BulkInviteCoachesUsecase {
+  constructor(
+    private readonly managerService: ManagerService,
+    private readonly createCoachInvitesBatchUsecase: CreateCoachInvitesBatchUsecase,
+    private readonly queueBulkCoachInviteUsecase: QueueBulkCoachInviteUsecase,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(BulkInviteCoachesUsecase.name);
+  }
+
+  /**
+   * 执行批量邀请
+   * @param params 邀请参数
+   * @returns 同步报告或异步任务 ID
+   */
+  async execute(params: BulkInviteCoachesParams): Promise<BulkInviteCoachesResult> {
+    const isActive = await this.managerService.isActiveManager(params.currentAccountId);
+    if (!isActive) {
+      throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '仅活跃的 manager 可批量邀请教练');
+    }
+
+    const rows = this.parseRows(params.csv);
+    if (rows.length <= BULK_COACH_INVITE_SYNC_MAX_ROWS) {
+      const report = await this.createCoachInvitesBatchUsecase.execute({
+        issuedByAccountId: params.currentAccountId,
+        rows,
+        expiresInMinutes: params.expiresInMinutes,
+      });
+      return { total: rows.length, async: false, jobId: null, report };
+    }
+
+    const { jobId } = await this.queueBulkCoachInviteUsecase.execute({
+      issuedByAccountId: params.currentAccountId,
+      rows,
+      expiresInMinutes: params.expiresInMinutes,
+    });
+    this.logger.info(
+      {
+        event: 'coach_bulk_invite_queued',
+        accountId: params.currentAccountId,
+        rows: rows.length,
+        jobId,
+      },
+      '批量邀请教练已转为异步任务',
+    );
+    return { total: rows.length, async: true, jobId, report: null };
+  }
+
+  /**
+   * 解析 CSV：按表头定位列（忽略大小写与未知列），name / email 列必填
+   */
+  private parseRows(csv: string): CoachInviteCsvRow[] {
+    const [header, ...records] = parseCsv(csv);
+    if (!header) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, 'CSV 内容为空');
+    }
+
+    const columnIndex = new Map<CsvColumn, number>();
+    header.forEach((title, index) => {
+      const column = resolveCoachInviteCsvColumn(title);
+      if (column && !columnIndex.has(column)) {
+        columnIndex.set(column, index);
+      }
+    });
+    if (!columnIndex.has('name') || !columnIndex.has('email')) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.INVALID_PARAMS,
+        'CSV 表头必须包含 name 与 email 列',
+        {
+          header,
+        },
+      );
+    }
+
+    if (records.length === 0) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, 'CSV 没有数据行');
+    }
+    if (records.length > BULK_COACH_INVITE_MAX_ROWS) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.INVALID_PARAMS,
+        `单次最多邀请 ${BULK_COACH_INVITE_MAX_ROWS} 名教练`,
+        { rows: records.length },
+      );
+    }
+
+    const read = (record: string[], column: CsvColumn): string => {
+      const index = columnIndex.get(column);
+      return index === undefined ? '' : (record[index] ?? '');
+    };
+    return records.map((record, index) => ({
+      rowNumber: index + 1,
+      name: read(record, 'name'),
+      email: read(record, 'email'),
+      phone: read(record, 'phone'),
+      level: read(record, 'level'),
+      specialty: read(record, 'specialty'),
+    }));
+  }
+}
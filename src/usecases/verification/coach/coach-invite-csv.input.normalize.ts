@@ -0,0 +1,108 @@
+// src/usecases/verification/coach/coach-invite-csv.input.normalize.ts
+
+import {
+  BULK_COACH_INVITE_CSV_COLUMNS,
+  CoachInviteCsvRow,
+} from '@app-types/models/verification-record.types';
+import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { normalizeOptionalText } from '@core/common/input-normalize/input-normalize.policy';
+import { normalizeEmail, normalizePhone } from '@core/common/normalize/normalize.helper';
+import { normalizeUpdateCoachInput } from '@src/usecases/identity-management/coach/coach.input.normalize';
+import { isEmail } from 'class-validator';
+
+type CoachInviteCsvColumn = (typeof BULK_COACH_INVITE_CSV_COLUMNS)[number];
+
+const MAINLAND_PHONE_PATTERN = /^1[3-9]\d{9}$/;
+
+const COACH_LEVELS: ReadonlyArray<number> = [1, 2, 3];
+
+/**
+ * 通过规范化的 CSV 数据行
+ */
+export interface NormalizedCoachInviteRow {
+  rowNumber: number;
+  name: string;
+  specialty: string | null;
+  email: string;
+  phone: string | null;
+  level: number;
+}
+
+/**
+ * 单行规范化结果；失败行携带去除首尾空白后的原始邮箱，供报告展示
+ */
+export type CoachInviteRowNormalizeResult =
+  | { ok: true; row: NormalizedCoachInviteRow }
+  | { ok: false; rowNumber: number; email: string | null; error: unknown };
+
+/**
+ * 按表头标题定位 CSV 列（忽略首尾空白与大小写），未知列返回 undefined
+ */
+export function resolveCoachInviteCsvColumn(title: string): CoachInviteCsvColumn | undefined {
+  const normalized = normalizeOptionalText(title, 'keep_empty_string')?.toLowerCase();
+  return BULK_COACH_INVITE_CSV_COLUMNS.find((column) => column === normalized);
+}
+
+/**
+ * 逐行规范化 CSV 数据行
+ * 姓名 / 专长沿用教练资料的规范化策略；文件内重复的邮箱（规范化后比较）记为失败
+ */
+export function normalizeCoachInviteCsvRows(
+  rows: ReadonlyArray<CoachInviteCsvRow>,
+): CoachInviteRowNormalizeResult[] {
+  const seenEmails = new Set<string>();
+  return rows.map((row): CoachInviteRowNormalizeResult => {
+    try {
+      return { ok: true, row: normalizeCoachInviteCsvRow(row, seenEmails) };
+    } catch (error) {
+      return {
+        ok: false,
+        rowNumber: row.rowNumber,
+        email: normalizeOptionalText(row.email, 'to_null') ?? null,
+        error,
+      };
+    }
+  });
+}
+
+function normalizeCoachInviteCsvRow(
+  row: CoachInviteCsvRow,
+  seenEmails: Set<string>,
+): NormalizedCoachInviteRow {
+  const { name, specialty } = normalizeUpdateCoachInput({
+    name: row.name,
+    specialty: row.specialty,
+  });
+  if (!name) {
+    throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, '教练姓名不能为空');
+  }
+
+  const email = normalizeEmail(row.email);
+  if (!isEmail(email)) {
+    throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, '邮箱格式不正确');
+  }
+  if (seenEmails.has(email)) {
+    throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, '邮箱在文件中重复');
+  }
+  seenEmails.add(email);
+
+  const phone = normalizePhone(row.phone);
+  if (phone && !MAINLAND_PHONE_PATTERN.test(phone)) {
+    throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, '手机号格式不正确');
+  }
+
+  const levelText = normalizeOptionalText(row.level, 'to_undefined');
+  const level = levelText ? Number(levelText) : 1;
+  if (!COACH_LEVELS.includes(level)) {
+    throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, '教练等级只能是 1、2 或 3');
+  }
+
+  return {
+    rowNumber: row.rowNumber,
+    name,
+    specialty: specialty ?? null,
+    email,
+    phone: phone || null,
+    level,
+  };
+}
@@ -0,0 +1,213 @@
+// src/usecases/verification/coach/create-coach-invites-batch.usecase.spec.ts
+import {
+  BulkInviteRowStatus,
+  CoachInviteCsvRow,
+  CreateVerificationRecordParams,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import { VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import type { CoachService } from '@modules/account/identities/training/coach/coach.service';
+import type { VerificationCodeHelper } from '@modules/verification-record/verification-code.helper';
+import type { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import type { AccountService } from '@src/modules/account/base/services/account.service';
+import type { QueueEmailResult } from '@src/modules/common/email-queue/email-queue.types';
+import type { VerificationRecordEventService } from '@src/modules/verification-record/services/verification-record-event.service';
+import type { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import type { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import type { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import type { PinoLogger } from 'nestjs-pino';
+import type { EntityManager } from 'typeorm';
+import { CreateCoachInvitesBatchUsecase } from './create-coach-invites-batch.usecase';
+
+const row = (rowNumber: number, overrides: Partial<CoachInviteCsvRow> = {}): CoachInviteCsvRow => ({
+  rowNumber,
+  name: `教练${rowNumber}`,
+  email: `coach${rowNumber}@example.com`,
+  phone: '',
+  level: '',
+  specialty: '',
+  ...overrides,
+});
+
+type VerificationRecordServiceMock = {
+  readonly runTransaction: jest.Mock<
+    Promise<unknown>,
+    [(manager: EntityManager) => Promise<unknown>]
+  >;
+  readonly createRecord: jest.Mock<
+    Promise<VerificationRecordEntity>,
+    [CreateVerificationRecordParams, EntityManager?]
+  >;
+};
+
+type VerificationCodeHelperMock = {
+  readonly generateTokenByChars: jest.Mock<string, [number]>;
+};
+
+type AccountServiceMock = {
+  readonly findByEmail: jest.Mock<Promise<AccountEntity | null>, [string]>;
+};
+
+type CoachServiceMock = {
+  readonly isActiveCoach: jest.Mock<Promise<boolean>, [number]>;
+};
+
+type QueueEmailUsecaseMock = {
+  readonly execute: jest.Mock<Promise<QueueEmailResult>>;
+};
+
+type VerificationRecordEventServiceMock = {
+  readonly record: jest.Mock<Promise<void>>;
+};
+
+type LoggerMock = {
+  readonly setContext: jest.Mock<void, [string]>;
+  readonly info: jest.Mock;
+  readonly warn: jest.Mock;
+  readonly error: jest.Mock;
+};
+
+describe('CreateCoachInvitesBatchUsecase', () => {
+  let nextId: number;
+  let manager: EntityManager;
+  let verificationRecordService: VerificationRecordServiceMock;
+  let verificationCodeHelper: VerificationCodeHelperMock;
+  let accountService: AccountServiceMock;
+  let coachService: CoachServiceMock;
+  let queueEmailUsecase: QueueEmailUsecaseMock;
+  let verificationRecordEventService: VerificationRecordEventServiceMock;
+  let logger: LoggerMock;
+  let usecase: CreateCoachInvitesBatchUsecase;
+
+  beforeEach(() => {
+    nextId = 100;
+    manager = {} as EntityManager;
+    verificationRecordService = {
+      runTransaction: jest.fn((callback) => callback(manager)),
+      createRecord: jest.fn((params) =>
+        Promise.resolve({
+          id: nextId++,
+          type: params.type,
+          expiresAt: params.expiresAt,
+        } as VerificationRecordEntity),
+      ),
+    };
+    verificationCodeHelper = {
+      generateTokenByChars: jest.fn().mockReturnValue('token'),
+    };
+    accountService = {
+      findByEmail: jest.fn().mockResolvedValue(null),
+    };
+    coachService = {
+      isActiveCoach: jest.fn().mockResolvedValue(false),
+    };
+    queueEmailUsecase = {
+      execute: jest.fn().mockResolvedValue({ jobId: 'j', traceId: 't' }),
+    };
+    verificationRecordEventService = {
+      record: jest.fn().mockResolvedValue(undefined),
+    };
+    logger = {
+      setContext: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+
+    usecase = new CreateCoachInvitesBatchUsecase(
+      verificationRecordService as unknown as VerificationRecordService,
+      verificationCodeHelper as unknown as VerificationCodeHelper,
+      accountService as unknown as AccountService,
+      coachService as unknown as CoachService,
+      queueEmailUsecase as unknown as QueueEmailUsecase,
+      verificationRecordEventService as unknown as VerificationRecordEventService,
+      logger as unknown as PinoLogger,
+    );
+  });
+
+  it('校验失败的行单独记为失败，其余行在同一事务内签发并投递邮件', async () => {
+    const report = await usecase.execute({
+      issuedByAccountId: 1,
+      rows: [
+        row(1, { email: ' Coach1@Example.com ', level: '2', specialty: ' 游泳 ' }),
+        row(2, { email: 'not-an-email' }),
+        row(3, { email: 'coach1@example.com' }),
+        row(4, { level: '5' }),
+        row(5, { name: '  ' }),
+        row(6, { phone: '138-0000-0000' }),
+      ],
+    });
+
+    expect(report).toMatchObject({ total: 6, succeeded: 2, failed: 4 });
+    expect(report.rows.map((item) => item.status)).toEqual([
+      BulkInviteRowStatus.CREATED,
+      BulkInviteRowStatus.FAILED,
+      BulkInviteRowStatus.FAILED,
+      BulkInviteRowStatus.FAILED,
+      BulkInviteRowStatus.FAILED,
+      BulkInviteRowStatus.CREATED,
+    ]);
+    expect(report.rows[2].message).toBe('邮箱在文件中重复');
+
+    expect(verificationRecordService.runTransaction).toHaveBeenCalledTimes(1);
+    expect(verificationRecordService.createRecord).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: VerificationRecordType.INVITE_COACH,
+        issuedByAccountId: 1,
+        payload: {
+          coachName: '教练1',
+          coachLevel: 2,
+          specialty: '游泳',
+          inviteeEmail: 'coach1@example.com',
+        },
+      }),
+      manager,
+    );
+    expect(verificationRecordService.createRecord.mock.calls[1][0].payload).toMatchObject({
+      phone: '13800000000',
+      coachLevel: 1,
+    });
+    expect(queueEmailUsecase.execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('已是活跃教练的账户记为失败，已注册账户写入目标账户', async () => {
+    accountService.findByEmail.mockImplementation((email) =>
+      Promise.resolve({ id: email === 'coach1@example.com' ? 11 : 12 } as AccountEntity),
+    );
+    coachService.isActiveCoach.mockImplementation((accountId) => Promise.resolve(accountId === 11));
+
+    const report = await usecase.execute({ issuedByAccountId: 1, rows: [row(1), row(2)] });
+
+    expect(report.rows[0]).toMatchObject({
+      status: BulkInviteRowStatus.FAILED,
+      errorCode: VERIFICATION_RECORD_ERROR.INVALID_PARAMS,
+    });
+    expect(verificationRecordService.createRecord).toHaveBeenCalledTimes(1);
+    expect(verificationRecordService.createRecord.mock.calls[0][0]).toMatchObject({
+      targetAccountId: 12,
+    });
+  });
+
+  it('事务失败时所有通过校验的行均记为失败且不投递邮件', async () => {
+    verificationRecordService.createRecord
+      .mockResolvedValueOnce({
+        id: 1,
+        type: VerificationRecordType.INVITE_COACH,
+        expiresAt: new Date(),
+      } as VerificationRecordEntity)
+      .mockRejectedValueOnce(new Error('db down'));
+
+    const report = await usecase.execute({ issuedByAccountId: 1, rows: [row(1), row(2)] });
+
+    expect(report).toMatchObject({ succeeded: 0, failed: 2 });
+    expect(report.rows.every((item) => item.recordId === null)).toBe(true);
+    // 非领域错误不向签发者暴露原始信息
+    expect(report.rows.map((item) => item.message)).toEqual(['邀请创建失败', '邀请创建失败']);
+    expect(report.rows[0].errorCode).toBe(VERIFICATION_RECORD_ERROR.CREATION_FAILED);
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ event: 'coach_bulk_invite_row_failed', error: 'db down' }),
+      expect.any(String),
+    );
+    expect(queueEmailUsecase.execute).not.toHaveBeenCalled();
+  });
+});
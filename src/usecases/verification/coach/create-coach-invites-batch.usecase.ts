@@ -0,0 +1,286 @@
+// src/usecases/verification/coach/create-coach-invites-batch.usecase.ts
+
+import {
+  BulkInviteReport,
+  BulkInviteRowResult,
+  BulkInviteRowStatus,
+  CoachInviteCsvRow,
+  DEFAULT_INVITE_EXPIRES_IN_MINUTES,
+  INVITE_EMAIL_TEMPLATE,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import {
+  VERIFICATION_RECORD_DELIVERY_CHANNEL,
+  VerificationRecordEventType,
+} from '@app-types/models/verification-record-event.types';
+import {
+  DomainError,
+  VERIFICATION_RECORD_ERROR,
+  isDomainError,
+} from '@core/common/errors/domain-error';
+import { CoachService } from '@modules/account/identities/training/coach/coach.service';
+import { VerificationCodeHelper } from '@modules/verification-record/verification-code.helper';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { VerificationRecordEventService } from '@src/modules/verification-record/services/verification-record-event.service';
+import { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { PinoLogger } from 'nestjs-pino';
+import {
+  normalizeCoachInviteCsvRows,
+  NormalizedCoachInviteRow,
+} from './coach-invite-csv.input.normalize';
+
+/** 邀请 token 长度，与单条邀请保持一致 */
+const INVITE_TOKEN_LENGTH = 32;
+
+/**
+ * 批量创建教练邀请参数
+ */
+export interface CreateCoachInvitesBatchParams {
+  /** 签发者账户 ID（调用方负责校验 manager 身份） */
+  issuedByAccountId: number;
+  /** CSV 数据行 */
+  rows: ReadonlyArray<CoachInviteCsvRow>;
+  /** 有效期（分钟，可选，默认 7 天） */
+  expiresInMinutes?: number;
+}
+
+/**
+ * 通过校验、待签发的邀请
+ */
+interface PreparedCoachInvite {
+  rowNumber: number;
+  email: string;
+  targetAccountId: number | null;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * 批量创建教练邀请用例（同步接口与异步任务共用）
+ * 流程：逐行校验（沿用教练资料的输入规范化策略）→ 单个事务内签发全部 INVITE_COACH → 提交后投递邀请邮件
+ * 校验失败的行不影响其他行；事务失败时所有通过校验的行均记为失败
+ */
+@Injectable()
+export class CreateCoachInvitesBatchUsecase {
+  constructor(
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly verificationCodeHelper: VerificationCodeHelper,
+    private readonly accountService: AccountService,
+    private readonly coachService: CoachService,
+    private readonly queueEmailUsecase: QueueEmailUsecase,
+    private readonly verificationRecordEventService: VerificationRecordEventService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(CreateCoachInvitesBatchUsecase.name);
+  }
+
+  /**
+   * 执行批量签发
+   * @param params 签发参数
+   * @returns 按行号排序的逐行结果报告
+   */
+  async execute(params: CreateCoachInvitesBatchParams): Promise<BulkInviteReport> {
+    const results: BulkInviteRowResult[] = [];
+    const prepared: PreparedCoachInvite[] = [];
+
+    for (const item of normalizeCoachInviteCsvRows(params.rows)) {
+      if (!item.ok) {
+        results.push(this.toFailedRow(item.rowNumber, item.email, item.error));
+        continue;
+      }
+      try {
+        prepared.push(await this.prepareRow(item.row));
+      } catch (error) {
+        results.push(this.toFailedRow(item.row.rowNumber, item.row.email, error));
+      }
+    }
+
+    if (prepared.length > 0) {
+      const expiresAt = new Date(
+        Date.now() + (params.expiresInMinutes ?? DEFAULT_INVITE_EXPIRES_IN_MINUTES) * 60 * 1000,
+      );
+      try {
+        const created = await this.createRecords({
+          invites: prepared,
+          issuedByAccountId: params.issuedByAccountId,
+          expiresAt,
+        });
+        for (const { invite, record, token } of created) {
+          const emailQueued = await this.deliver({ to: invite.email, token, record });
+          results.push({
+            rowNumber: invite.rowNumber,
+            status: BulkInviteRowStatus.CREATED,
+            email: invite.email,
+            recordId: record.id,
+            emailQueued,
+            errorCode: null,
+            message: null,
+          });
+        }
+      } catch (error) {
+        this.logger.error(
+          {
+            event: 'coach_bulk_invite_failed',
+            issuedByAccountId: params.issuedByAccountId,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          '批量签发教练邀请失败',
+        );
+        for (const invite of prepared) {
+          results.push(this.toFailedRow(invite.rowNumber, invite.email, error));
+        }
+      }
+    }
+
+    results.sort((a, b) => a.rowNumber - b.rowNumber);
+    const succeeded = results.filter((row) => row.status === BulkInviteRowStatus.CREATED).length;
+    this.logger.info(
+      {
+        event: 'coach_bulk_invite_created',
+        issuedByAccountId: params.issuedByAccountId,
+        total: results.length,
+        succeeded,
+      },
+      '批量签发教练邀请完成',
+    );
+    return {
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      rows: results,
+    };
+  }
+
+  /**
+   * 校验已规范化的单行：已是活跃教练的账户记为失败
+   */
+  private async prepareRow(row: NormalizedCoachInviteRow): Promise<PreparedCoachInvite> {
+    const { email, phone } = row;
+    const account = await this.accountService.findByEmail(email);
+    if (account && (await this.coachService.isActiveCoach(account.id))) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, '该邮箱对应的账户已是教练');
+    }
+
+    return {
+      rowNumber: row.rowNumber,
+      email,
+      targetAccountId: account?.id ?? null,
+      payload: {
+        coachName: row.name,
+        coachLevel: row.level,
+        specialty: row.specialty,
+        inviteeEmail: email,
+        ...(phone ? { phone } : {}),
+      },
+    };
+  }
+
+  /**
+   * 在单个事务内签发全部邀请，任一条失败则整体回滚
+   */
+  private async createRecords(params: {
+    invites: PreparedCoachInvite[];
+    issuedByAccountId: number;
+    expiresAt: Date;
+  }): Promise<
+    Array<{ invite: PreparedCoachInvite; record: VerificationRecordEntity; token: string }>
+  > {
+    return await this.verificationRecordService.runTransaction(async (manager) => {
+      const created: Array<{
+        invite: PreparedCoachInvite;
+        record: VerificationRecordEntity;
+        token: string;
+      }> = [];
+      for (const invite of params.invites) {
+        const token = this.verificationCodeHelper.generateTokenByChars(INVITE_TOKEN_LENGTH);
+        const record = await this.verificationRecordService.createRecord(
+          {
+            type: VerificationRecordType.INVITE_COACH,
+            token,
+            expiresAt: params.expiresAt,
+            targetAccountId: invite.targetAccountId ?? undefined,
+            payload: invite.payload,
+            issuedByAccountId: params.issuedByAccountId,
+          },
+          manager,
+        );
+        created.push({ invite, record, token });
+      }
+      return created;
+    });
+  }
+
+  /**
+   * 投递邀请邮件
+   * 投递失败只记录日志，签发者可通过重新发送邀请补发
+   */
+  private async deliver(params: {
+    to: string;
+    token: string;
+    record: VerificationRecordEntity;
+  }): Promise<boolean> {
+    try {
+      await this.queueEmailUsecase.execute({
+        to: params.to,
+        subject: '您收到一份教练邀请',
+        text: [
+          '您被邀请成为教练，登录后使用下方邀请码即可接受邀请。',
+          `邀请码：${params.token}`,
+          `邀请码将于 ${params.record.expiresAt.toISOString()} 失效，如非本人操作请忽略本邮件。`,
+        ].join('\n'),
+        templateId: INVITE_EMAIL_TEMPLATE,
+        meta: { event: 'invite_bulk', type: params.record.type },
+        dedupKey: `invite:${params.record.id}:${params.record.expiresAt.getTime()}`,
+      });
+      await this.verificationRecordEventService.record({
+        recordId: params.record.id,
+        recordType: params.record.type,
+        eventType: VerificationRecordEventType.DELIVERED,
+        actorAccountId: params.record.issuedByAccountId,
+        reason: VERIFICATION_RECORD_DELIVERY_CHANNEL.EMAIL,
+      });
+      return true;
+    } catch (error) {
+      this.logger.warn(
+        {
+          event: 'invite_notify_failed',
+          recordId: params.record.id,
+          error: (error as Error)?.message,
+        },
+        '邀请邮件投递失败',
+      );
+      return false;
+    }
+  }
+
+  /**
+   * 构造失败行；仅领域错误的提示对签发者可见，其余错误只写日志
+   */
+  private toFailedRow(
+    rowNumber: number,
+    email: string | null,
+    error: unknown,
+  ): BulkInviteRowResult {
+    if (!isDomainError(error)) {
+      this.logger.error(
+        {
+          event: 'coach_bulk_invite_row_failed',
+          rowNumber,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        '教练邀请行处理失败',
+      );
+    }
+    return {
+      rowNumber,
+      status: BulkInviteRowStatus.FAILED,
+      email,
+      recordId: null,
+      emailQueued: false,
+      errorCode: isDomainError(error) ? error.code : VERIFICATION_RECORD_ERROR.CREATION_FAILED,
+      message: isDomainError(error) ? error.message : '邀请创建失败',
+    };
+  }
+}
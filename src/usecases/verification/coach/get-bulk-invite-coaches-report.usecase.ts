@@ -0,0 +1,73 @@
+// src/usecases/verification/coach/get-bulk-invite-coaches-report.usecase.ts
+
+import { BulkInviteReport } from '@app-types/models/verification-record.types';
+import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { BULLMQ_QUEUES } from '@src/infrastructure/bullmq/bullmq.constants';
+import type { AsyncTaskRecordStatus } from '@src/modules/async-task-record/async-task-record.types';
+import { AsyncTaskRecordQueryService } from '@src/modules/async-task-record/queries/async-task-record.query.service';
+import { BulkInviteReportService } from '@src/modules/verification-record/services/bulk-invite-report.service';
+
+/**
+ * 查询批量邀请任务参数
+ */
+export interface GetBulkInviteCoachesReportParams {
+  /** 当前用户账户 ID（必须为任务发起者） */
+  currentAccountId: number;
+  /** 异步任务 ID */
+  jobId: string;
+}
+
+/**
+ * 批量邀请任务状态与报告
+ */
+export interface BulkInviteCoachesReportView {
+  jobId: string;
+  status: AsyncTaskRecordStatus;
+  /** 任务失败原因或完成摘要 */
+  reason: string | null;
+  enqueuedAt: Date;
+  finishedAt: Date | null;
+  /** 逐行结果报告（任务未完成或报告已过期时为 null） */
+  report: BulkInviteReport | null;
+}
+
+/**
+ * 查询批量邀请任务用例
+ * 任务状态读取 base_async_task_records，逐行报告读取任务完成时写入的报告存储
+ * 只能查询本人发起的任务，其他任务统一返回未找到
+ */
+@Injectable()
+export class GetBulkInviteCoachesReportUsecase {
+  constructor(
+    private readonly asyncTaskRecordQueryService: AsyncTaskRecordQueryService,
+    private readonly bulkInviteReportService: BulkInviteReportService,
+  ) {}
+
+  /**
+   * 执行查询
+   * @param params 查询参数
+   * @returns 任务状态与报告
+   */
+  async execute(params: GetBulkInviteCoachesReportParams): Promise<BulkInviteCoachesReportView> {
+    const task = await this.asyncTaskRecordQueryService.findByQueueJob({
+      where: { queueName: BULLMQ_QUEUES.INVITE, jobId: params.jobId },
+    });
+    if (!task || task.actorAccountId !== params.currentAccountId) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.RECORD_NOT_FOUND, '批量邀请任务不存在', {
+        jobId: params.jobId,
+      });
+    }
+
+    const report =
+      task.status === 'succeeded' ? await this.bulkInviteReportService.find(task.jobId) : null;
+    return {
+      jobId: task.jobId,
+      status: task.status,
+      reason: task.reason,
+      enqueuedAt: task.enqueuedAt,
+      finishedAt: task.finishedAt,
+      report,
+    };
+  }
+}
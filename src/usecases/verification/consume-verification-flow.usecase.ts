@@ -1,17 +1,30 @@
 // src/usecases/verification/consume-verification-flow.usecase.ts
 
+import { LoginThrottleScope } from '@app-types/auth/login-throttle.types';
+import { NotificationCategory } from '@app-types/models/notification.types';
+import { VerificationRecordEventType } from '@app-types/models/verification-record-event.types';
 import {
+  CODE_VERIFICATION_RECORD_TYPES,
+  INVITE_ROLE_LABELS,
+  INVITE_VERIFICATION_RECORD_TYPES,
   VerificationRecordType,
   SubjectType,
   VerificationRecordStatus,
 } from '@app-types/models/verification-record.types';
 import {
   DomainError,
+  isDomainError,
   PERMISSION_ERROR,
   VERIFICATION_RECORD_ERROR,
 } from '@core/common/errors/domain-error';
+import { LoginThrottleService } from '@modules/auth/services/login-throttle.service';
 import { Injectable } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { EntityManager } from 'typeorm';
+import { NotificationService } from '@src/modules/notification/notification.service';
 import { ConsumableQueryService } from '@src/modules/verification-record/queries/consumable.query.service';
+import { VerificationRecordView } from '@src/modules/verification-record/services/verification-read.service';
+import { VerificationRecordEventService } from '@src/modules/verification-record/services/verification-record-event.service';
 import {
   VerificationRecordConsumeTargetConstraint,
   VerificationRecordService,
@@ -19,16 +32,48 @@ import {
 } from '@src/modules/verification-record/verification-record.service';
 import { InviteCoachHandler } from './coach/invite-coach.handler';
 import { InviteCoachHandlerResult } from './coach/invite-coach-result.types';
+import { VerifyEmailHandler } from './email/verify-email.handler';
+import { VerifyEmailHandlerResult } from './email/verify-email-result.types';
+import { MagicLinkLoginHandler } from './magic-link/magic-link-login.handler';
+import { MagicLinkLoginHandlerResult } from './magic-link/magic-link-login-result.types';
+import { InviteLearnerHandler } from './learner/invite-learner.handler';
+import { InviteLearnerHandlerResult } from './learner/invite-learner-result.types';
 import { InviteManagerHandler } from './manager/invite-manager.handler';
 import { InviteManagerHandlerResult } from './manager/invite-manager-result.types';
 import { ResetPasswordHandler } from './password/reset-password.handler';
+import { VerifySmsHandler } from './sms/verify-sms.handler';
+import { VerifySmsHandlerResult } from './sms/verify-sms-result.types';
+import { BindWeappHandler } from './third-party/bind-weapp.handler';
+import { BindWeappHandlerResult } from './third-party/bind-weapp-result.types';
 import {
   ConsumeVerificationFlowParams,
   VerificationFlowContext,
   VerificationFlowHandler,
+  VerificationCodeScope,
   VerificationFlowResult,
 } from './types/consume.types';
 
+/** 计入防暴力破解失败次数的错误码（token 无效类错误） */
+const TOKEN_FAILURE_CODES: ReadonlyArray<string> = [
+  VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+  VERIFICATION_RECORD_ERROR.INVALID_TOKEN,
+  VERIFICATION_RECORD_ERROR.RECORD_NOT_FOUND,
+  VERIFICATION_RECORD_ERROR.TOO_MANY_ATTEMPTS,
+];
+
+/** 凭 token 即可匿名消费的类型（记录绑定的目标账户由处理器自行解析） */
+const ANONYMOUS_CONSUMABLE_TYPES: ReadonlyArray<VerificationRecordType> = [
+  VerificationRecordType.PASSWORD_RESET,
+  VerificationRecordType.EMAIL_VERIFY_LINK,
+  VerificationRecordType.EMAIL_VERIFY_CODE,
+  VerificationRecordType.SMS_VERIFY_CODE,
+  VerificationRecordType.MAGIC_LINK,
+  VerificationRecordType.WEAPP_BIND,
+];
+
+/** 本次消费尝试定位到的验证记录（消费失败时据此写入事件） */
+type ConsumeAttemptTarget = { record: { id: number; type: VerificationRecordType } | null };
+
 /**
  * 验证流程消费用例
  * 负责协调验证码的分发到具体业务用例、以及最终的状态落账
@@ -39,6 +84,9 @@ import {
  * 3. 在事务中执行业务逻辑和验证码消费
  *
  * 注意：此用例不再包含预读步骤，预读应该通过独立的 findVerificationRecord GraphQL 查询完成
+ * token 无效按来源 IP 计入防暴力破解失败次数，锁定期间直接拒绝
+ * 验证码类记录先按（类型 + 目标）定位再比对验证码，比对失败计入记录自身的尝试次数
+ * 能定位到记录的失败尝试写入 CONSUME_FAILED 事件（reason 为错误码）
  */
 @Injectable()
 export class ConsumeVerificationFlowUsecase {
@@ -53,10 +101,23 @@ export class ConsumeVerificationFlowUsecase {
     private readonly resetPasswordHandler: ResetPasswordHandler,
     private readonly inviteCoachHandler: InviteCoachHandler,
     private readonly inviteManagerHandler: InviteManagerHandler,
+    private readonly inviteLearnerHandler: InviteLearnerHandler,
+    private readonly verifyEmailHandler: VerifyEmailHandler,
+    private readonly verifySmsHandler: VerifySmsHandler,
+    private readonly magicLinkLoginHandler: MagicLinkLoginHandler,
+    private readonly bindWeappHandler: BindWeappHandler,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly verificationRecordEventService: VerificationRecordEventService,
+    private readonly notificationService: NotificationService,
   ) {
     this.registerHandler(this.resetPasswordHandler);
     this.registerHandler(this.inviteCoachHandler);
     this.registerHandler(this.inviteManagerHandler);
+    this.registerHandler(this.inviteLearnerHandler);
+    this.registerHandler(this.verifyEmailHandler);
+    this.registerHandler(this.verifySmsHandler);
+    this.registerHandler(this.magicLinkLoginHandler);
+    this.registerHandler(this.bindWeappHandler);
   }
 
   /**
@@ -88,7 +149,136 @@ export class ConsumeVerificationFlowUsecase {
    * @returns 验证流程结果
    */
   async execute(params: ConsumeVerificationFlowParams): Promise<VerificationFlowResult> {
-    const { token, consumedByAccountId, expectedType, manager, resetPassword } = params;
+    const throttleSubject = { scope: LoginThrottleScope.VERIFICATION, ip: params.clientIp };
+    await this.loginThrottleService.assertNotLocked(throttleSubject);
+
+    const target: ConsumeAttemptTarget = { record: null };
+    try {
+      const codeVerified = await this.verifyCodeAttempt(params, target);
+      return await this.consumeInTransaction(params, codeVerified, target);
+    } catch (error) {
+      if (isDomainError(error) && TOKEN_FAILURE_CODES.includes(error.code)) {
+        await this.loginThrottleService.recordFailure(throttleSubject);
+      }
+      await this.recordConsumeFailure(params, target, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 写入消费失败事件
+   * 未在流程中定位到记录时，非验证码类型再按 token 指纹查找（含已消费 / 已撤销的记录）
+   */
+  private async recordConsumeFailure(
+    params: ConsumeVerificationFlowParams,
+    target: ConsumeAttemptTarget,
+    error: unknown,
+  ): Promise<void> {
+    let record = target.record;
+    if (
+      !record &&
+      !(params.expectedType && CODE_VERIFICATION_RECORD_TYPES.has(params.expectedType))
+    ) {
+      record = await this.verificationRecordService.findByToken(params.token).catch(() => null);
+    }
+    if (!record) {
+      return;
+    }
+
+    await this.verificationRecordEventService.record({
+      recordId: record.id,
+      recordType: record.type,
+      eventType: VerificationRecordEventType.CONSUME_FAILED,
+      actorAccountId: params.consumedByAccountId ?? null,
+      reason: isDomainError(error) ? error.code : null,
+      ip: params.clientIp,
+    });
+  }
+
+  /**
+   * 验证码类记录的前置比对
+   * 按（类型 + 目标）定位最新记录后比对验证码；比对失败累加尝试次数，达到上限时记录被撤销
+   * 失败计数不在消费事务内，避免随业务回滚
+   * @param params 流程参数
+   * @param target 定位到的记录写入此处
+   * @returns 是否已完成验证码比对（非验证码类型返回 false）
+   */
+  private async verifyCodeAttempt(
+    params: ConsumeVerificationFlowParams,
+    target: ConsumeAttemptTarget,
+  ): Promise<boolean> {
+    const { token, expectedType } = params;
+    if (!expectedType || !CODE_VERIFICATION_RECORD_TYPES.has(expectedType)) {
+      return false;
+    }
+
+    const scope = this.resolveCodeScope(params);
+    const record = await this.verificationRecordService.findActiveCodeRecord({
+      type: expectedType,
+      targetAccountId: scope.targetAccountId,
+      payload: scope.payload,
+    });
+    if (!record) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.RECORD_NOT_FOUND, '验证码不存在或已失效');
+    }
+    target.record = { id: record.id, type: record.type };
+
+    const tokenFp = this.verificationRecordService.generateTokenFingerprint(token);
+    if (tokenFp.length === record.tokenFp.length && timingSafeEqual(tokenFp, record.tokenFp)) {
+      return true;
+    }
+
+    const attempt = await this.verificationRecordService.recordFailedAttempt({
+      recordId: record.id,
+    });
+    if (!attempt || attempt.revoked) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.TOO_MANY_ATTEMPTS,
+        '验证码错误次数过多，请重新获取',
+        { recordId: record.id },
+      );
+    }
+    throw new DomainError(VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID, '验证码错误', {
+      remainingAttempts: attempt.maxAttempts - attempt.attemptCount,
+    });
+  }
+
+  /**
+   * 解析验证码查找范围：显式指定优先，否则以消费者账号为目标
+   */
+  private resolveCodeScope(params: ConsumeVerificationFlowParams): VerificationCodeScope {
+    if (params.codeScope?.targetAccountId !== undefined || params.codeScope?.payload) {
+      return params.codeScope;
+    }
+    if (params.consumedByAccountId !== undefined) {
+      return { targetAccountId: params.consumedByAccountId };
+    }
+    throw new DomainError(VERIFICATION_RECORD_ERROR.INVALID_PARAMS, '验证码消费需要指定查找范围', {
+      expectedType: params.expectedType,
+    });
+  }
+
+  /**
+   * 在事务中重新校验验证记录、执行业务处理器并落账
+   * @param params 流程参数
+   * @param codeVerified 验证码类记录是否已完成前置比对
+   * @param target 定位到的记录写入此处
+   * @returns 验证流程结果
+   */
+  private async consumeInTransaction(
+    params: ConsumeVerificationFlowParams,
+    codeVerified: boolean,
+    target: ConsumeAttemptTarget,
+  ): Promise<VerificationFlowResult> {
+    const {
+      token,
+      consumedByAccountId,
+      expectedType,
+      manager,
+      resetPassword,
+      weappSession,
+      clientIp,
+    } = params;
 
     return this.verificationRecordService.runTransaction(async (transactionManager) => {
       const activeManager = manager || transactionManager;
@@ -104,6 +294,7 @@ export class ConsumeVerificationFlowUsecase {
           { token, expectedType },
         );
       }
+      target.record = { id: recordView.id, type: recordView.type };
 
       // 第二步：验证 expectedType（如果提供）
       if (expectedType && recordView.type !== expectedType) {
@@ -113,6 +304,14 @@ export class ConsumeVerificationFlowUsecase {
           { expectedType, actualType: recordView.type },
         );
       }
+      // 验证码类记录必须经过前置比对（需声明 expectedType），不允许仅凭 token 消费
+      if (CODE_VERIFICATION_RECORD_TYPES.has(recordView.type) && !codeVerified) {
+        throw new DomainError(
+          VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+          '验证码消费需要指定记录类型',
+          { actualType: recordView.type },
+        );
+      }
 
       // 第三步：获取对应的业务处理器
       const handler = this.getHandler(recordView.type);
@@ -123,31 +322,14 @@ export class ConsumeVerificationFlowUsecase {
         consumedByAccountId,
         manager: activeManager,
         resetPassword, // 传递密码重置载荷
+        weappSession,
       };
 
       // 第五步：执行业务逻辑
       const businessResult = await handler.handle(context);
 
       // 第六步：从业务结果中提取主体信息
-      let subjectType: SubjectType | undefined;
-      let subjectId: number | undefined;
-
-      // 根据验证记录类型和业务结果提取主体信息
-      if (recordView.type === VerificationRecordType.INVITE_COACH && businessResult) {
-        // 对于 INVITE_COACH 类型，从 InviteCoachHandlerResult 中提取 coachId
-        const coachResult = businessResult as InviteCoachHandlerResult;
-        if (coachResult.coachId) {
-          subjectType = SubjectType.COACH;
-          subjectId = coachResult.coachId;
-        }
-      } else if (recordView.type === VerificationRecordType.INVITE_MANAGER && businessResult) {
-        // 对于 INVITE_MANAGER 类型，从 InviteManagerHandlerResult 中提取 managerId
-        const managerResult = businessResult as InviteManagerHandlerResult;
-        if (managerResult.managerId) {
-          subjectType = SubjectType.MANAGER;
-          subjectId = managerResult.managerId;
-        }
-      }
+      const { subjectType, subjectId } = this.resolveSubject(recordView.type, businessResult);
 
       // 第七步：消费验证记录（在同一事务中）
       await this.consumeVerificationRecord({
@@ -157,12 +339,111 @@ export class ConsumeVerificationFlowUsecase {
         manager: activeManager,
         subjectType,
         subjectId,
+        clientIp,
       });
 
+      // 第八步：邀请类记录通知签发者（随消费事务提交）
+      await this.notifyInviteAccepted(recordView, consumedByAccountId, activeManager);
+
       return businessResult;
     });
   }
 
+  /**
+   * 邀请被接受后向签发者发送站内通知
+   * 使用消费事务的管理器写入，业务回滚时通知与计数器一并回滚；签发者自己接受时不通知
+   */
+  private async notifyInviteAccepted(
+    recordView: VerificationRecordView,
+    consumedByAccountId: number | undefined,
+    manager: EntityManager,
+  ): Promise<void> {
+    const issuerId = recordView.issuedByAccountId;
+    if (
+      !INVITE_VERIFICATION_RECORD_TYPES.has(recordView.type) ||
+      !issuerId ||
+      issuerId === consumedByAccountId
+    ) {
+      return;
+    }
+
+    const label = INVITE_ROLE_LABELS[recordView.type] ?? '成员';
+    await this.notificationService.send(
+      {
+        recipientAccountId: issuerId,
+        category: NotificationCategory.INVITE_ACCEPTED,
+        title: `${label}邀请已被接受`,
+        body: `您于 ${recordView.createdAt.toISOString()} 发出的${label}邀请（记录 #${recordView.id}）已被接受。`,
+      },
+      manager,
+    );
+  }
+
+  /**
+   * 根据验证记录类型从业务结果中提取主体信息
+   * @param type 验证记录类型
+   * @param businessResult 业务处理器结果
+   * @returns 主体类型与主体 ID（无主体时均为 undefined）
+   */
+  private resolveSubject(
+    type: VerificationRecordType,
+    businessResult: VerificationFlowResult,
+  ): { subjectType?: SubjectType; subjectId?: number } {
+    if (!businessResult) {
+      return {};
+    }
+
+    let subjectType: SubjectType | undefined;
+    let subjectId: number | undefined;
+
+    // 根据验证记录类型和业务结果提取主体信息
+    if (type === VerificationRecordType.INVITE_COACH) {
+      // 对于 INVITE_COACH 类型，从 InviteCoachHandlerResult 中提取 coachId
+      const coachResult = businessResult as InviteCoachHandlerResult;
+      if (coachResult.coachId) {
+        subjectType = SubjectType.COACH;
+        subjectId = coachResult.coachId;
+      }
+    } else if (type === VerificationRecordType.INVITE_MANAGER) {
+      // 对于 INVITE_MANAGER 类型，从 InviteManagerHandlerResult 中提取 managerId
+      const managerResult = businessResult as InviteManagerHandlerResult;
+      if (managerResult.managerId) {
+        subjectType = SubjectType.MANAGER;
+        subjectId = managerResult.managerId;
+      }
+    } else if (type === VerificationRecordType.INVITE_LEARNER) {
+      // 对于 INVITE_LEARNER 类型，主体即完成关联的学员
+      const learnerResult = businessResult as InviteLearnerHandlerResult;
+      subjectType = SubjectType.LEARNER;
+      subjectId = learnerResult.learnerId;
+    } else if (
+      type === VerificationRecordType.EMAIL_VERIFY_LINK ||
+      type === VerificationRecordType.EMAIL_VERIFY_CODE
+    ) {
+      // 对于邮箱验证类型，主体即完成验证的账户
+      const emailResult = businessResult as VerifyEmailHandlerResult;
+      subjectType = SubjectType.ACCOUNT;
+      subjectId = emailResult.accountId;
+    } else if (type === VerificationRecordType.SMS_VERIFY_CODE) {
+      // 对于短信验证码，主体即登录或完成绑定的账户
+      const smsResult = businessResult as VerifySmsHandlerResult;
+      subjectType = SubjectType.ACCOUNT;
+      subjectId = smsResult.accountId;
+    } else if (type === VerificationRecordType.MAGIC_LINK) {
+      // 对于魔法链接，主体即登录的账户
+      const magicLinkResult = businessResult as MagicLinkLoginHandlerResult;
+      subjectType = SubjectType.ACCOUNT;
+      subjectId = magicLinkResult.accountId;
+    } else if (type === VerificationRecordType.WEAPP_BIND) {
+      // 对于小程序绑定，主体即完成绑定的账户
+      const weappResult = businessResult as BindWeappHandlerResult;
+      subjectType = SubjectType.ACCOUNT;
+      subjectId = weappResult.accountId;
+    }
+
+    return { subjectType, subjectId };
+  }
+
   /**
    * 获取指定类型的处理器
    * @param type 验证记录类型
@@ -204,8 +485,10 @@ export class ConsumeVerificationFlowUsecase {
     subjectType?: SubjectType;
     subjectId?: number;
     manager?: Parameters<VerificationRecordService['consumeRecord']>[0]['manager'];
+    clientIp?: string;
   }): Promise<void> {
-    const { token, consumedByAccountId, expectedType, subjectType, subjectId, manager } = params;
+    const { token, consumedByAccountId, expectedType, subjectType, subjectId, manager, clientIp } =
+      params;
     const now = new Date();
     const targetConstraint = this.resolveTargetConstraint({ consumedByAccountId, expectedType });
     const tokenFp = this.verificationRecordService.generateTokenFingerprint(token);
@@ -219,6 +502,7 @@ export class ConsumeVerificationFlowUsecase {
         subjectId,
         now,
         targetConstraint,
+        clientIp,
       },
       manager,
     });
@@ -244,7 +528,7 @@ export class ConsumeVerificationFlowUsecase {
       throw new DomainError(VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID, '验证码类型不匹配');
     }
 
-    if (record.type !== VerificationRecordType.PASSWORD_RESET) {
+    if (!ANONYMOUS_CONSUMABLE_TYPES.includes(record.type)) {
       if (record.targetAccountId && !context.consumedByAccountId) {
         throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '此验证码需要登录后使用');
       }
@@ -291,7 +575,7 @@ export class ConsumeVerificationFlowUsecase {
     if (consumedByAccountId !== undefined) {
       return { mode: 'MATCH_OR_NULL', accountId: consumedByAccountId };
     }
-    if (expectedType === VerificationRecordType.PASSWORD_RESET) {
+    if (expectedType && ANONYMOUS_CONSUMABLE_TYPES.includes(expectedType)) {
       return { mode: 'IGNORE' };
     }
     if (expectedType === VerificationRecordType.INVITE_COACH) {
@@ -306,6 +590,12 @@ export class ConsumeVerificationFlowUsecase {
         'Manager 邀请需要指定消费者账户 ID',
       );
     }
+    if (expectedType === VerificationRecordType.INVITE_LEARNER) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        'Learner 邀请需要指定消费者账户 ID',
+      );
+    }
     return { mode: 'NULL_ONLY' };
   }
 }
@@ -0,0 +1,160 @@
+// src/usecases/verification/email/send-verification-email.usecase.ts
+
+import {
+  EmailVerificationConfig,
+  SendVerificationEmailParams,
+  SendVerificationEmailResult,
+} from '@app-types/auth/email-verification.types';
+import { AccountStatus } from '@app-types/models/account.types';
+import {
+  VERIFICATION_RECORD_DELIVERY_CHANNEL,
+  VerificationRecordEventType,
+} from '@app-types/models/verification-record-event.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { VerificationRecordEventService } from '@src/modules/verification-record/services/verification-record-event.service';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { CreateVerificationRecordUsecase } from '@src/usecases/verification-record/create-verification-record.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+/** 允许发送验证邮件的账户状态 */
+const VERIFIABLE_STATUSES: ReadonlyArray<AccountStatus> = [
+  AccountStatus.PENDING,
+  AccountStatus.ACTIVE,
+];
+
+/**
+ * 发送邮箱验证邮件用例
+ * 流程：冷却校验 → 作废旧链接 → 签发 EMAIL_VERIFY_LINK → 投递邮件（不阻塞）
+ */
+@Injectable()
+export class SendVerificationEmailUsecase {
+  private readonly config: EmailVerificationConfig;
+
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly createVerificationRecordUsecase: CreateVerificationRecordUsecase,
+    private readonly queueEmailUsecase: QueueEmailUsecase,
+    private readonly verificationRecordEventService: VerificationRecordEventService,
+    private readonly logger: PinoLogger,
+    configService: ConfigService,
+  ) {
+    this.logger.setContext(SendVerificationEmailUsecase.name);
+    this.config = configService.get<EmailVerificationConfig>('emailVerification') ?? {
+      required: false,
+      linkExpiresInMinutes: 1440,
+      resendCooldownSeconds: 60,
+      linkBaseUrl: '',
+    };
+  }
+
+  /**
+   * 为指定账户签发邮箱验证链接并投递邮件
+   * @param params 账户 ID 与待验证邮箱
+   * @returns 验证记录 ID 与过期时间
+   */
+  async execute(params: SendVerificationEmailParams): Promise<SendVerificationEmailResult> {
+    const { accountId, email } = params;
+    await this.assertCooldownPassed(accountId);
+
+    await this.verificationRecordService.revokeActiveRecordsByTarget({
+      type: VerificationRecordType.EMAIL_VERIFY_LINK,
+      targetAccountId: accountId,
+    });
+    const { record, token } = await this.createVerificationRecordUsecase.createEmailVerifyLink({
+      targetAccountId: accountId,
+      email,
+      expiresInMinutes: this.config.linkExpiresInMinutes,
+    });
+
+    // 邮件投递不阻塞响应
+    void this.deliver({ to: email, token, recordId: record.id });
+
+    return { recordId: record.id, expiresAt: record.expiresAt };
+  }
+
+  /**
+   * 按邮箱重新发送验证邮件
+   * 邮箱未注册、已验证或账户不可用时静默返回，避免暴露账户是否存在
+   * @param params 登录邮箱
+   */
+  async resend(params: { email: string }): Promise<void> {
+    const account = await this.accountService.findByEmail(params.email);
+    if (!account?.loginEmail || !VERIFIABLE_STATUSES.includes(account.status)) {
+      return;
+    }
+
+    const userInfo = await this.accountService.findUserInfoByAccountId(account.id);
+    if (!userInfo || userInfo.emailVerifiedAt) {
+      return;
+    }
+
+    await this.execute({ accountId: account.id, email: account.loginEmail });
+  }
+
+  /**
+   * 校验重新发送冷却时间
+   */
+  private async assertCooldownPassed(accountId: number): Promise<void> {
+    const latest = await this.verificationRecordService.findLatestByTarget({
+      type: VerificationRecordType.EMAIL_VERIFY_LINK,
+      targetAccountId: accountId,
+    });
+    if (!latest) {
+      return;
+    }
+
+    const elapsedMs = Date.now() - latest.createdAt.getTime();
+    const cooldownMs = this.config.resendCooldownSeconds * 1000;
+    if (elapsedMs < cooldownMs) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.RESEND_TOO_FREQUENT,
+        '验证邮件发送过于频繁，请稍后再试',
+        { retryAfterSeconds: Math.ceil((cooldownMs - elapsedMs) / 1000) },
+      );
+    }
+  }
+
+  /**
+   * 投递验证邮件
+   * 投递失败只记录日志，用户可通过重新发送补救
+   */
+  private async deliver(params: { to: string; token: string; recordId: number }): Promise<void> {
+    const link = this.config.linkBaseUrl
+      ? `${this.config.linkBaseUrl}?token=${encodeURIComponent(params.token)}`
+      : null;
+    try {
+      await this.queueEmailUsecase.execute({
+        to: params.to,
+        subject: '请验证您的邮箱地址',
+        text: [
+          '感谢注册，请完成邮箱验证以激活账户。',
+          link ? `验证链接：${link}` : `验证令牌：${params.token}`,
+          `链接 ${this.config.linkExpiresInMinutes} 分钟内有效，如非本人操作请忽略本邮件。`,
+        ].join('\n'),
+        meta: { event: 'email_verification' },
+        dedupKey: `email-verify:${params.recordId}`,
+      });
+      await this.verificationRecordEventService.record({
+        recordId: params.recordId,
+        recordType: VerificationRecordType.EMAIL_VERIFY_LINK,
+        eventType: VerificationRecordEventType.DELIVERED,
+        reason: VERIFICATION_RECORD_DELIVERY_CHANNEL.EMAIL,
+      });
+    } catch (error) {
+      this.logger.warn(
+        {
+          event: 'email_verification_notify_failed',
+          recordId: params.recordId,
+          error: (error as Error)?.message,
+        },
+        '邮箱验证邮件投递失败',
+      );
+    }
+  }
+}
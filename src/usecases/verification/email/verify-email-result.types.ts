@@ -1,15 +1,17 @@
 // src/usecases/verification/email/verify-email-result.types.ts
 
 /**
- * 邮箱验证处理器结果类型
+ * 邮箱验证处理器结果
  */
 export interface VerifyEmailHandlerResult {
-  success: boolean;
-  message: string;
-  data: {
-    type: 'EMAIL_VERIFY_CODE' | 'EMAIL_VERIFY_LINK';
-    recordId: string;
-    consumedByAccountId: string;
-    verifiedEmail: string;
-  };
+  /** 完成验证的账户 ID */
+  accountId: number;
+  /** 验证记录 ID */
+  recordId: number;
+  /** 已验证的邮箱 */
+  verifiedEmail: string;
+  /** 是否由 PENDING 激活为 ACTIVE */
+  activated: boolean;
+  /** 操作成功标识 */
+  success: true;
 }
@@ -1,34 +1,72 @@
 // src/usecases/verification/email/verify-email.handler.ts
 
 import { VerificationRecordType } from '@app-types/models/verification-record.types';
-import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import {
+  ACCOUNT_ERROR,
+  DomainError,
+  VERIFICATION_RECORD_ERROR,
+} from '@core/common/errors/domain-error';
 import { Injectable } from '@nestjs/common';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
 import { VerificationFlowContext, VerificationFlowHandler } from '../types/consume.types';
+import { VerifyEmailHandlerResult } from './verify-email-result.types';
+import { VerifyEmailUsecase } from './verify-email.usecase';
 
 /**
  * 邮箱验证处理器
  * 实现 VerificationFlowHandler 接口，处理邮箱验证码和邮箱验证链接的消费逻辑
  */
 @Injectable()
-export class VerifyEmailHandler implements VerificationFlowHandler {
+export class VerifyEmailHandler implements VerificationFlowHandler<VerifyEmailHandlerResult> {
   readonly supportedTypes = [
     VerificationRecordType.EMAIL_VERIFY_CODE,
     VerificationRecordType.EMAIL_VERIFY_LINK,
   ];
 
-  constructor() {}
+  constructor(
+    private readonly verifyEmailUsecase: VerifyEmailUsecase,
+    private readonly verificationRecordService: VerificationRecordService,
+  ) {}
 
   /**
    * 处理邮箱验证流程
+   * 待验证邮箱仅保存在原始载荷中（记录视图不含 PII），需回表读取
    * @param context 验证流程上下文
    * @returns 验证结果
    */
-  handle(context: VerificationFlowContext): Promise<never> {
-    const { recordView } = context;
+  async handle(context: VerificationFlowContext): Promise<VerifyEmailHandlerResult> {
+    const { recordView, manager } = context;
 
-    // 暂时抛出权限错误，匹配 e2e 测试期望
-    throw new DomainError(VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID, '无权使用此验证码', {
-      type: recordView.type,
+    const record = await this.verificationRecordService
+      .getRepository(manager)
+      .findOne({ where: { id: recordView.id } });
+    const email = record?.payload?.email;
+    if (typeof email !== 'string' || !email) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '验证记录缺少邮箱信息',
+        {
+          recordId: recordView.id,
+        },
+      );
+    }
+    if (!record?.targetAccountId) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '验证记录中未找到目标账户');
+    }
+
+    const usecaseResult = await this.verifyEmailUsecase.execute({
+      recordId: recordView.id,
+      targetAccountId: record.targetAccountId,
+      email,
+      manager,
     });
+
+    return {
+      accountId: usecaseResult.accountId,
+      recordId: usecaseResult.recordId,
+      verifiedEmail: email,
+      activated: usecaseResult.activated,
+      success: true,
+    };
   }
 }
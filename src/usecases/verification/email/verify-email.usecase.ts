@@ -1,11 +1,17 @@
 // src/usecases/verification/email/verify-email.usecase.ts
 
-// TODO: 临时注释掉整个文件内容以避免 ESLint 错误
-// 这个文件包含邮箱验证的业务逻辑，需要在后续开发中重新实现
-
-import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { AccountStatus } from '@app-types/models/account.types';
+import {
+  ACCOUNT_ERROR,
+  DomainError,
+  VERIFICATION_RECORD_ERROR,
+} from '@core/common/errors/domain-error';
 import { Injectable } from '@nestjs/common';
-import { VerificationFlowResult } from '../types/consume.types';
+import {
+  AccountService,
+  type AccountTransactionManager,
+} from '@src/modules/account/base/services/account.service';
+import { PinoLogger } from 'nestjs-pino';
 
 /**
  * 邮箱验证用例参数
@@ -13,29 +19,80 @@ import { VerificationFlowResult } from '../types/consume.types';
 export interface VerifyEmailUsecaseParams {
   /** 验证记录 ID */
   recordId: number;
-  /** 消费者账号 ID */
-  consumedByAccountId: number;
-  /** 验证记录实体 */
-  record: unknown;
+  /** 目标账户 ID */
+  targetAccountId: number;
+  /** 签发时记录的待验证邮箱 */
+  email: string;
+  /** 可选的事务管理器 */
+  manager?: AccountTransactionManager;
+}
+
+/**
+ * 邮箱验证用例结果
+ */
+export interface VerifyEmailUsecaseResult {
+  /** 完成验证的账户 ID */
+  accountId: number;
+  /** 验证记录 ID */
+  recordId: number;
+  /** 是否由 PENDING 激活为 ACTIVE */
+  activated: boolean;
 }
 
 /**
  * 邮箱验证用例
- * 处理邮箱验证的具体业务逻辑
+ * 标记用户信息中的邮箱已验证，并将 PENDING 账户激活
  */
 @Injectable()
 export class VerifyEmailUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(VerifyEmailUsecase.name);
+  }
+
   /**
    * 执行邮箱验证
    *
-   * @param _params 验证参数
+   * @param params 验证参数
    * @returns 验证结果
    */
-  execute(_params: VerifyEmailUsecaseParams): Promise<VerificationFlowResult> {
-    // TODO: 实现邮箱验证逻辑
-    throw new DomainError(
-      VERIFICATION_RECORD_ERROR.OPERATION_NOT_SUPPORTED,
-      '邮箱验证功能暂未实现',
+  async execute(params: VerifyEmailUsecaseParams): Promise<VerifyEmailUsecaseResult> {
+    const { recordId, targetAccountId, email, manager } = params;
+
+    const account = await this.accountService.findOneById(targetAccountId, manager);
+    if (!account) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '目标账户不存在');
+    }
+
+    const { isUpdated } = await this.accountService.markEmailVerified({
+      accountId: targetAccountId,
+      email,
+      manager,
+    });
+    if (!isUpdated) {
+      // 签发后邮箱已被修改，旧链接不再代表当前邮箱
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '邮箱已变更，请重新发送验证邮件',
+      );
+    }
+
+    const activated = account.status === AccountStatus.PENDING;
+    if (activated) {
+      await this.accountService.updateAccount(
+        targetAccountId,
+        { status: AccountStatus.ACTIVE, updatedAt: new Date() },
+        manager,
+      );
+    }
+
+    this.logger.info(
+      { event: 'email_verified', accountId: targetAccountId, recordId, activated },
+      '邮箱验证完成',
     );
+
+    return { accountId: targetAccountId, recordId, activated };
   }
 }
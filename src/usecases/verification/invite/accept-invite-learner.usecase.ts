@@ -1,8 +1,15 @@
 // src/usecases/verification/invite/accept-invite-learner.usecase.ts
 
-import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { IdentityTypeEnum } from '@app-types/models/account.types';
+import { ACCOUNT_ERROR, DomainError, LEARNER_ERROR } from '@core/common/errors/domain-error';
 import { Injectable } from '@nestjs/common';
-import { VerificationFlowResult } from '../types/consume.types';
+import {
+  AccountService,
+  type AccountTransactionManager,
+} from '@src/modules/account/base/services/account.service';
+import { LearnerService } from '@src/modules/account/identities/training/learner/account-learner.service';
+import { PinoLogger } from 'nestjs-pino';
+import { InviteLearnerHandlerResult } from '../learner/invite-learner-result.types';
 
 /**
  * 接受学员邀请用例参数
@@ -12,32 +19,127 @@ export interface AcceptInviteLearnerUsecaseParams {
   recordId: number;
   /** 消费者账号 ID */
   consumedByAccountId: number;
-  /** 其他参数 */
-  [key: string]: unknown;
+  /** 被邀请关联的学员 ID */
+  learnerId: number;
+  /** 发出邀请时学员所属的客户 ID */
+  customerId: number;
+  manager?: AccountTransactionManager;
 }
 
 /**
  * 接受学员邀请用例
- *
  * 负责处理学员邀请的接受流程，包括：
- * - 验证邀请的有效性
- * - 检查用户权限
- * - 建立学员关系
- * - 更新相关状态
+ * 1. 校验学员仍有效且仍属于发出邀请的客户
+ * 2. 校验学员与账户均未关联其他对象（一个学员只关联一个账户）
+ * 3. 将学员关联到当前账户
+ * 4. 更新用户的 accessGroup 权限
  */
 @Injectable()
 export class AcceptInviteLearnerUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly learnerService: LearnerService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(AcceptInviteLearnerUsecase.name);
+  }
+
   /**
    * 执行接受学员邀请流程
-   *
    * @param params 用例参数
-   * @returns 邀请接受结果
+   * @returns 学员邀请处理结果
+   */
+  async execute(params: AcceptInviteLearnerUsecaseParams): Promise<InviteLearnerHandlerResult> {
+    const { manager: externalManager } = params;
+
+    // 优先使用外层传入的 manager，避免双重事务
+    if (externalManager) {
+      return await this.linkLearner(params, externalManager);
+    }
+    return await this.accountService.runTransaction((manager) => this.linkLearner(params, manager));
+  }
+
+  private async linkLearner(
+    params: AcceptInviteLearnerUsecaseParams,
+    manager: AccountTransactionManager,
+  ): Promise<InviteLearnerHandlerResult> {
+    const { recordId, consumedByAccountId, learnerId, customerId } = params;
+
+    const learner = await this.learnerService.findByIdWithManager({ id: learnerId, manager });
+    if (!learner || learner.deactivatedAt) {
+      throw new DomainError(LEARNER_ERROR.LEARNER_NOT_FOUND, '学员不存在或已下线', {
+        learnerId,
+      });
+    }
+    if (learner.customerId !== customerId) {
+      throw new DomainError(LEARNER_ERROR.LEARNER_CUSTOMER_MISMATCH, '学员已不属于发出邀请的客户', {
+        learnerId,
+      });
+    }
+    if (learner.accountId !== null && learner.accountId !== consumedByAccountId) {
+      throw new DomainError(LEARNER_ERROR.LEARNER_ALREADY_LINKED, '该学员已关联其他账户', {
+        learnerId,
+      });
+    }
+
+    const linkedLearner = await this.learnerService.findByAccountId(consumedByAccountId, manager);
+    if (linkedLearner && linkedLearner.id !== learner.id) {
+      throw new DomainError(LEARNER_ERROR.LEARNER_ALREADY_LINKED, '当前账户已关联其他学员', {
+        learnerId: linkedLearner.id,
+      });
+    }
+
+    const isNewlyLinked = learner.accountId === null;
+    if (isNewlyLinked) {
+      await this.learnerService.updateWithManager({
+        id: learner.id,
+        updateData: { accountId: consumedByAccountId, updatedBy: consumedByAccountId },
+        manager,
+      });
+      this.logger.info(
+        { event: 'learner_linked', learnerId, accountId: consumedByAccountId, recordId },
+        '学员已关联账户',
+      );
+    }
+
+    await this.updateUserPermissions(consumedByAccountId, manager);
+
+    return {
+      accountId: consumedByAccountId,
+      learnerId: learner.id,
+      customerId: learner.customerId,
+      recordId,
+      isNewlyLinked,
+      success: true,
+    };
+  }
+
+  /**
+   * 更新用户权限：清理 REGISTRANT，确保包含 LEARNER
+   * @param accountId 账户 ID
+   * @param manager 事务管理器
    */
-  execute(_params: AcceptInviteLearnerUsecaseParams): Promise<VerificationFlowResult> {
-    // TODO: 实现接受学员邀请逻辑
-    throw new DomainError(
-      VERIFICATION_RECORD_ERROR.OPERATION_NOT_SUPPORTED,
-      '接受学员邀请功能暂未实现',
+  private async updateUserPermissions(
+    accountId: number,
+    manager: AccountTransactionManager,
+  ): Promise<void> {
+    const userInfo = await this.accountService.findUserInfoByAccountId(accountId, manager);
+    if (!userInfo) {
+      throw new DomainError(ACCOUNT_ERROR.USER_INFO_NOT_FOUND, '用户信息不存在');
+    }
+
+    const currentAccessGroup = userInfo.accessGroup || [];
+    const nextAccessGroup = currentAccessGroup.filter(
+      (item) => item !== IdentityTypeEnum.REGISTRANT,
     );
+    if (!nextAccessGroup.includes(IdentityTypeEnum.LEARNER)) {
+      nextAccessGroup.push(IdentityTypeEnum.LEARNER);
+    }
+
+    await this.accountService.updateUserInfoAccessGroup({
+      accountId,
+      accessGroup: nextAccessGroup,
+      manager,
+    });
   }
 }
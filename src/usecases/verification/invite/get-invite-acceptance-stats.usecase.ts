@@ -0,0 +1,55 @@
+// src/usecases/verification/invite/get-invite-acceptance-stats.usecase.ts
+
+import {
+  INVITE_VERIFICATION_RECORD_TYPES,
+  InviteAcceptanceStats,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import { DomainError, PERMISSION_ERROR } from '@core/common/errors/domain-error';
+import { ManagerService } from '@modules/account/identities/training/manager/manager.service';
+import { Injectable } from '@nestjs/common';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+
+/**
+ * 查询邀请接受情况统计参数
+ */
+export interface GetInviteAcceptanceStatsParams {
+  /** 当前用户账户 ID（必须为活跃 manager） */
+  currentAccountId: number;
+  /** 记录类型（可选，默认全部邀请类型） */
+  type?: VerificationRecordType;
+  /** 仅统计该签发者（可选） */
+  issuedByAccountId?: number;
+}
+
+/**
+ * 查询邀请接受情况统计用例（仅允许 manager 身份）
+ * 按签发者汇总签发、接受、过期、撤销与待接受数量
+ */
+@Injectable()
+export class GetInviteAcceptanceStatsUsecase {
+  constructor(
+    private readonly managerService: ManagerService,
+    private readonly verificationRecordService: VerificationRecordService,
+  ) {}
+
+  /**
+   * 执行统计查询
+   * @param params 查询参数
+   * @returns 按签发总数倒序的统计列表
+   */
+  async execute(params: GetInviteAcceptanceStatsParams): Promise<InviteAcceptanceStats[]> {
+    const isActive = await this.managerService.isActiveManager(params.currentAccountId);
+    if (!isActive) {
+      throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '仅活跃的 manager 可查看邀请统计');
+    }
+
+    if (params.type && !INVITE_VERIFICATION_RECORD_TYPES.has(params.type)) {
+      return [];
+    }
+    return await this.verificationRecordService.countIssuedByIssuer({
+      types: params.type ? [params.type] : [...INVITE_VERIFICATION_RECORD_TYPES],
+      issuedByAccountId: params.issuedByAccountId,
+    });
+  }
+}
@@ -0,0 +1,96 @@
+// src/usecases/verification/invite/list-issued-verification-records.usecase.ts
+
+import {
+  INVITE_VERIFICATION_RECORD_TYPES,
+  VerificationRecordStatus,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import { Injectable } from '@nestjs/common';
+import {
+  VerificationRecordDetailView,
+  VerificationRecordQueryService,
+} from '@src/modules/verification-record/queries/verification-record.query.service';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+
+/**
+ * 查询我签发的验证记录参数
+ */
+export interface ListIssuedVerificationRecordsParams {
+  /** 当前用户账户 ID（签发者） */
+  currentAccountId: number;
+  /** 记录类型（可选，默认全部邀请类型） */
+  type?: VerificationRecordType;
+  /** 有效状态（可选） */
+  status?: VerificationRecordStatus;
+  /** 页码，从 1 开始 */
+  page?: number;
+  /** 每页数量，默认 10，最大 100 */
+  limit?: number;
+}
+
+/**
+ * 我签发的验证记录分页结果
+ */
+export interface PaginatedIssuedVerificationRecords {
+  /** 记录列表（状态为有效状态） */
+  items: VerificationRecordDetailView[];
+  /** 总数 */
+  total: number;
+  /** 页码 */
+  page: number;
+  /** 每页条数 */
+  limit: number;
+  /** 总页数 */
+  totalPages: number;
+}
+
+/**
+ * 查询我签发的验证记录用例
+ * 仅返回当前用户签发的邀请类记录；已超过有效期但尚未被清理任务标记的记录按 EXPIRED 返回
+ */
+@Injectable()
+export class ListIssuedVerificationRecordsUsecase {
+  constructor(
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly verificationRecordQueryService: VerificationRecordQueryService,
+  ) {}
+
+  /**
+   * 执行列表查询
+   * @param params 查询参数
+   * @returns 分页结果
+   */
+  async execute(
+    params: ListIssuedVerificationRecordsParams,
+  ): Promise<PaginatedIssuedVerificationRecords> {
+    const types = params.type ? [params.type] : [...INVITE_VERIFICATION_RECORD_TYPES];
+    if (!types.every((type) => INVITE_VERIFICATION_RECORD_TYPES.has(type))) {
+      return {
+        items: [],
+        total: 0,
+        page: params.page ?? 1,
+        limit: params.limit ?? 10,
+        totalPages: 1,
+      };
+    }
+
+    const now = new Date();
+    const result = await this.verificationRecordService.findIssuedPaginated({
+      issuedByAccountId: params.currentAccountId,
+      types,
+      status: params.status,
+      page: params.page ?? 1,
+      limit: Math.min(params.limit ?? 10, 100),
+      now,
+    });
+
+    return {
+      ...result,
+      items: result.items.map((record) => {
+        const view = this.verificationRecordQueryService.toDetailView(record);
+        const overdue = view.status === VerificationRecordStatus.ACTIVE && view.expiresAt < now;
+        return overdue ? { ...view, status: VerificationRecordStatus.EXPIRED } : view;
+      }),
+    };
+  }
+}
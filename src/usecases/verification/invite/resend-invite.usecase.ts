@@ -0,0 +1,223 @@
+// src/usecases/verification/invite/resend-invite.usecase.ts
+
+import {
+  DEFAULT_INVITE_EXPIRES_IN_MINUTES,
+  INVITE_EMAIL_TEMPLATE,
+  INVITE_RESEND_COOLDOWN_SECONDS,
+  INVITE_ROLE_LABELS,
+  INVITE_VERIFICATION_RECORD_TYPES,
+  VerificationRecordStatus,
+} from '@app-types/models/verification-record.types';
+import {
+  VERIFICATION_RECORD_DELIVERY_CHANNEL,
+  VerificationRecordEventType,
+} from '@app-types/models/verification-record-event.types';
+import {
+  DomainError,
+  PERMISSION_ERROR,
+  VERIFICATION_RECORD_ERROR,
+} from '@core/common/errors/domain-error';
+import { normalizeEmail } from '@core/common/normalize/normalize.helper';
+import { VerificationCodeHelper } from '@modules/verification-record/verification-code.helper';
+import { Injectable } from '@nestjs/common';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import {
+  VerificationRecordDetailView,
+  VerificationRecordQueryService,
+} from '@src/modules/verification-record/queries/verification-record.query.service';
+import { VerificationRecordEventService } from '@src/modules/verification-record/services/verification-record-event.service';
+import { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+/** 邀请 token 长度（学员邀请 token 同时作为小程序码 scene，不超过 32） */
+const INVITE_TOKEN_LENGTH = 32;
+
+/**
+ * 重新发送邀请参数
+ */
+export interface ResendInviteParams {
+  /** 当前用户账户 ID（签发者） */
+  currentAccountId: number;
+  /** 邀请记录 ID */
+  recordId: number;
+  /** 收件邮箱（可选，提供时写入载荷供后续重发使用） */
+  email?: string;
+  /** 新的有效期（分钟，可选，默认 7 天） */
+  expiresInMinutes?: number;
+}
+
+/**
+ * 重新发送邀请结果
+ */
+export interface ResendInviteResult {
+  /** 轮换后的邀请记录 */
+  record: VerificationRecordDetailView;
+  /** 新的邀请 token，旧 token 立即失效 */
+  token: string;
+  /** 是否已投递邀请邮件（无收件邮箱或投递失败时为 false） */
+  emailQueued: boolean;
+}
+
+/**
+ * 重新发送邀请用例
+ * 流程：校验归属与状态 → 冷却校验 → 轮换 token 并顺延有效期 → 投递邀请邮件
+ * 轮换在原记录上进行，记录 ID 不变，已过期的邀请会恢复为 ACTIVE
+ * 收件邮箱依次取：入参 → 载荷 inviteeEmail → 目标账户登录邮箱
+ */
+@Injectable()
+export class ResendInviteUsecase {
+  constructor(
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly verificationRecordQueryService: VerificationRecordQueryService,
+    private readonly verificationCodeHelper: VerificationCodeHelper,
+    private readonly accountService: AccountService,
+    private readonly queueEmailUsecase: QueueEmailUsecase,
+    private readonly verificationRecordEventService: VerificationRecordEventService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(ResendInviteUsecase.name);
+  }
+
+  /**
+   * 重新发送本人签发的邀请
+   * @param params 重发参数
+   * @returns 轮换后的记录、新 token 与邮件投递结果
+   */
+  async execute(params: ResendInviteParams): Promise<ResendInviteResult> {
+    const record = await this.loadOwnedInvite(params);
+
+    const email = params.email ? normalizeEmail(params.email) : undefined;
+    const payload = email ? { ...(record.payload ?? {}), inviteeEmail: email } : undefined;
+    const expiresAt = new Date(
+      Date.now() + (params.expiresInMinutes ?? DEFAULT_INVITE_EXPIRES_IN_MINUTES) * 60 * 1000,
+    );
+    const token = this.verificationCodeHelper.generateTokenByChars(INVITE_TOKEN_LENGTH);
+
+    const rotated = await this.verificationRecordService.rotateToken({
+      recordId: record.id,
+      token,
+      expiresAt,
+      payload,
+    });
+    if (!rotated) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.STATUS_NOT_ALLOWED, '邀请已被使用或撤销', {
+        recordId: record.id,
+      });
+    }
+
+    const recipient = email ?? (await this.resolveRecipient(rotated));
+    const emailQueued = recipient
+      ? await this.deliver({ to: recipient, token, record: rotated })
+      : false;
+
+    this.logger.info(
+      {
+        event: 'invite_resent',
+        recordId: rotated.id,
+        type: rotated.type,
+        accountId: params.currentAccountId,
+        emailQueued,
+      },
+      '重新发送邀请',
+    );
+    return {
+      record: this.verificationRecordQueryService.toDetailView(rotated),
+      token,
+      emailQueued,
+    };
+  }
+
+  /**
+   * 加载并校验本人签发、可重发的邀请
+   * 记录不存在或不是邀请时统一返回未找到，避免暴露其他类型记录
+   */
+  private async loadOwnedInvite(params: ResendInviteParams): Promise<VerificationRecordEntity> {
+    const record = await this.verificationRecordService.findById(params.recordId);
+    if (!record || !INVITE_VERIFICATION_RECORD_TYPES.has(record.type)) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.RECORD_NOT_FOUND, '邀请不存在', {
+        recordId: params.recordId,
+      });
+    }
+    if (record.issuedByAccountId !== params.currentAccountId) {
+      throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '只能重新发送自己签发的邀请');
+    }
+    if (
+      record.status !== VerificationRecordStatus.ACTIVE &&
+      record.status !== VerificationRecordStatus.EXPIRED
+    ) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.STATUS_NOT_ALLOWED, '邀请已被使用或撤销', {
+        recordId: record.id,
+        status: record.status,
+      });
+    }
+
+    const elapsedMs = Date.now() - record.updatedAt.getTime();
+    if (elapsedMs < INVITE_RESEND_COOLDOWN_SECONDS * 1000) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.RESEND_TOO_FREQUENT, '重新发送过于频繁', {
+        retryAfterSeconds: Math.ceil((INVITE_RESEND_COOLDOWN_SECONDS * 1000 - elapsedMs) / 1000),
+      });
+    }
+    return record;
+  }
+
+  /**
+   * 解析收件邮箱：载荷 inviteeEmail → 目标账户登录邮箱
+   */
+  private async resolveRecipient(record: VerificationRecordEntity): Promise<string | null> {
+    const inviteeEmail = record.payload?.inviteeEmail;
+    if (typeof inviteeEmail === 'string' && inviteeEmail) {
+      return inviteeEmail;
+    }
+    if (!record.targetAccountId) {
+      return null;
+    }
+    const account = await this.accountService.findOneById(record.targetAccountId);
+    return account?.loginEmail ?? null;
+  }
+
+  /**
+   * 投递邀请邮件
+   * 投递失败只记录日志，新 token 仍已生效，签发者可直接转交
+   */
+  private async deliver(params: {
+    to: string;
+    token: string;
+    record: VerificationRecordEntity;
+  }): Promise<boolean> {
+    const label = INVITE_ROLE_LABELS[params.record.type] ?? '成员';
+    try {
+      await this.queueEmailUsecase.execute({
+        to: params.to,
+        subject: `您收到一份${label}邀请`,
+        text: [
+          `您被邀请成为${label}，登录后使用下方邀请码即可接受邀请。`,
+          `邀请码：${params.token}`,
+          `邀请码将于 ${params.record.expiresAt.toISOString()} 失效，如非本人操作请忽略本邮件。`,
+        ].join('\n'),
+        templateId: INVITE_EMAIL_TEMPLATE,
+        meta: { event: 'invite_resend', type: params.record.type },
+        dedupKey: `invite:${params.record.id}:${params.record.expiresAt.getTime()}`,
+      });
+      await this.verificationRecordEventService.record({
+        recordId: params.record.id,
+        recordType: params.record.type,
+        eventType: VerificationRecordEventType.DELIVERED,
+        actorAccountId: params.record.issuedByAccountId,
+        reason: VERIFICATION_RECORD_DELIVERY_CHANNEL.EMAIL,
+      });
+      return true;
+    } catch (error) {
+      this.logger.warn(
+        {
+          event: 'invite_notify_failed',
+          recordId: params.record.id,
+          error: (error as Error)?.message,
+        },
+        '邀请邮件投递失败',
+      );
+      return false;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+// src/usecases/verification/invite/revoke-issued-invites.input.normalize.ts
+
+import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+
+/** 单次批量撤销的最大记录数 */
+const MAX_REVOKE_BATCH_SIZE = 100;
+
+/**
+ * 规范化待撤销的邀请记录 ID：保序去重，并校验单批数量上限
+ * @param input 调用方传入的记录 ID
+ */
+export function normalizeRevokeInviteRecordIds(input: ReadonlyArray<number>): number[] {
+  const recordIds = [...new Set(input)];
+  if (recordIds.length > MAX_REVOKE_BATCH_SIZE) {
+    throw new DomainError(
+      VERIFICATION_RECORD_ERROR.INVALID_PARAMS,
+      `单次最多撤销 ${MAX_REVOKE_BATCH_SIZE} 条邀请`,
+      { count: recordIds.length },
+    );
+  }
+  return recordIds;
+}
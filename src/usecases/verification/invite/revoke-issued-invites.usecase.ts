@@ -0,0 +1,65 @@
+// src/usecases/verification/invite/revoke-issued-invites.usecase.ts
+
+import { INVITE_VERIFICATION_RECORD_TYPES } from '@app-types/models/verification-record.types';
+import { Injectable } from '@nestjs/common';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { PinoLogger } from 'nestjs-pino';
+import { normalizeRevokeInviteRecordIds } from './revoke-issued-invites.input.normalize';
+
+/**
+ * 批量撤销邀请参数
+ */
+export interface RevokeIssuedInvitesParams {
+  /** 当前用户账户 ID（签发者） */
+  currentAccountId: number;
+  /** 待撤销的记录 ID */
+  recordIds: number[];
+}
+
+/**
+ * 批量撤销邀请结果
+ */
+export interface RevokeIssuedInvitesResult {
+  /** 已撤销的记录 ID */
+  revokedIds: number[];
+  /** 未撤销的记录 ID（不存在、非本人签发、已结束或已过期） */
+  skippedIds: number[];
+}
+
+/**
+ * 批量撤销我签发的邀请用例
+ * 只撤销本人签发且仍待接受的邀请，其余 ID 原样返回，不整体失败
+ */
+@Injectable()
+export class RevokeIssuedInvitesUsecase {
+  constructor(
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(RevokeIssuedInvitesUsecase.name);
+  }
+
+  /**
+   * 执行批量撤销
+   * @param params 撤销参数
+   * @returns 已撤销与被跳过的记录 ID
+   */
+  async execute(params: RevokeIssuedInvitesParams): Promise<RevokeIssuedInvitesResult> {
+    const recordIds = normalizeRevokeInviteRecordIds(params.recordIds);
+
+    const revokedIds = await this.verificationRecordService.revokeIssuedRecords({
+      recordIds,
+      issuedByAccountId: params.currentAccountId,
+      types: [...INVITE_VERIFICATION_RECORD_TYPES],
+    });
+
+    this.logger.info(
+      { event: 'invites_revoked', accountId: params.currentAccountId, count: revokedIds.length },
+      '批量撤销邀请',
+    );
+    return {
+      revokedIds,
+      skippedIds: recordIds.filter((id) => !revokedIds.includes(id)),
+    };
+  }
+}
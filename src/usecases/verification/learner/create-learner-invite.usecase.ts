@@ -0,0 +1,127 @@
+// src/usecases/verification/learner/create-learner-invite.usecase.ts
+
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { SubjectType, VerificationRecordType } from '@app-types/models/verification-record.types';
+import { DomainError, LEARNER_ERROR, PERMISSION_ERROR } from '@core/common/errors/domain-error';
+import { CustomerService } from '@modules/account/identities/training/customer/account-customer.service';
+import { LearnerService } from '@modules/account/identities/training/learner/account-learner.service';
+import { Injectable } from '@nestjs/common';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { GenerateWeappQrcodeUsecase } from '@src/usecases/third-party-accounts/generate-weapp-qrcode.usecase';
+import { CreateVerificationRecordUsecase } from '@src/usecases/verification-record/create-verification-record.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+/**
+ * 创建学员邀请参数
+ */
+export interface CreateLearnerInviteParams {
+  /** 当前用户账户 ID（必须为客户） */
+  currentAccountId: number;
+  /** 学员 ID */
+  learnerId: number;
+  /** 有效期（分钟，可选，默认 7 天） */
+  expiresInMinutes?: number;
+  /** 小程序码参数（可选，提供时以邀请 token 作为 scene 生成小程序码） */
+  qrcode?: {
+    audience: AudienceTypeEnum;
+    page?: string;
+    width?: number;
+    envVersion?: 'develop' | 'trial' | 'release';
+  };
+}
+
+/**
+ * 创建学员邀请结果
+ */
+export interface CreateLearnerInviteResult {
+  /** 验证记录 ID */
+  recordId: number;
+  /** 邀请 token（链接参数或小程序码 scene） */
+  token: string;
+  /** 过期时间 */
+  expiresAt: Date;
+  /** 小程序码（未请求时为 null） */
+  qrcode: { contentType: string; imageBase64: string } | null;
+}
+
+/**
+ * 创建学员邀请用例
+ * 流程：校验客户身份 → 校验学员归属且未关联账户 → 作废旧邀请 → 签发 INVITE_LEARNER → 可选生成小程序码
+ */
+@Injectable()
+export class CreateLearnerInviteUsecase {
+  constructor(
+    private readonly customerService: CustomerService,
+    private readonly learnerService: LearnerService,
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly createVerificationRecordUsecase: CreateVerificationRecordUsecase,
+    private readonly generateWeappQrcodeUsecase: GenerateWeappQrcodeUsecase,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(CreateLearnerInviteUsecase.name);
+  }
+
+  /**
+   * 为客户名下的学员签发邀请
+   * @param params 创建参数
+   * @returns 邀请 token 与可选的小程序码
+   */
+  async execute(params: CreateLearnerInviteParams): Promise<CreateLearnerInviteResult> {
+    const customer = await this.customerService.findByAccountId(params.currentAccountId);
+    if (!customer || customer.deactivatedAt) {
+      throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '只有客户可以邀请学员');
+    }
+
+    const learner = await this.learnerService.findByIdAndCustomerId({
+      id: params.learnerId,
+      customerId: customer.id,
+    });
+    if (!learner || learner.deactivatedAt) {
+      throw new DomainError(LEARNER_ERROR.LEARNER_NOT_FOUND, '学员不存在或已下线', {
+        learnerId: params.learnerId,
+      });
+    }
+    if (learner.accountId !== null) {
+      throw new DomainError(LEARNER_ERROR.LEARNER_ALREADY_LINKED, '该学员已关联账户', {
+        learnerId: learner.id,
+      });
+    }
+
+    // 同一学员同一时间只保留最新一条邀请
+    await this.verificationRecordService.revokeActiveRecordsBySubject({
+      type: VerificationRecordType.INVITE_LEARNER,
+      subjectType: SubjectType.LEARNER,
+      subjectId: learner.id,
+    });
+    const { record, token } = await this.createVerificationRecordUsecase.createLearnerInvite({
+      learnerId: learner.id,
+      learnerName: learner.name,
+      customerId: customer.id,
+      issuedByAccountId: params.currentAccountId,
+      expiresInMinutes: params.expiresInMinutes,
+    });
+    this.logger.info(
+      { event: 'learner_invite_created', learnerId: learner.id, recordId: record.id },
+      '学员邀请已签发',
+    );
+
+    const qrcode = params.qrcode
+      ? await this.generateWeappQrcodeUsecase.execute({
+          audience: params.qrcode.audience,
+          scene: token,
+          page: params.qrcode.page,
+          width: params.qrcode.width,
+          envVersion: params.qrcode.envVersion,
+        })
+      : null;
+
+    return {
+      recordId: record.id,
+      token,
+      expiresAt: record.expiresAt,
+      qrcode: qrcode?.imageBase64
+        ? { contentType: qrcode.contentType, imageBase64: qrcode.imageBase64 }
+        : null,
+    };
+  }
+}
@@ -0,0 +1,19 @@
+// src/usecases/verification/learner/invite-learner-result.types.ts
+
+/**
+ * Learner 邀请处理结果
+ */
+export interface InviteLearnerHandlerResult {
+  /** 账户 ID */
+  accountId: number;
+  /** Learner ID */
+  learnerId: number;
+  /** 所属客户 ID */
+  customerId: number;
+  /** 验证记录 ID */
+  recordId: number;
+  /** 是否为本次新建立的关联 */
+  isNewlyLinked: boolean;
+  /** 操作是否成功 */
+  success: boolean;
+}
@@ -0,0 +1,74 @@
+// src/usecases/verification/learner/invite-learner.handler.ts
+
+import { SubjectType, VerificationRecordType } from '@app-types/models/verification-record.types';
+import {
+  DomainError,
+  PERMISSION_ERROR,
+  VERIFICATION_RECORD_ERROR,
+} from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { AcceptInviteLearnerUsecase } from '../invite/accept-invite-learner.usecase';
+import { VerificationFlowContext, VerificationFlowHandler } from '../types/consume.types';
+import { InviteLearnerHandlerResult } from './invite-learner-result.types';
+
+/**
+ * 邀请 Learner 处理器
+ * 实现 VerificationFlowHandler 接口，连接验证流程和学员关联用例
+ * 学员邀请不指定目标账户，由登录后消费的账户完成关联
+ */
+@Injectable()
+export class InviteLearnerHandler implements VerificationFlowHandler<InviteLearnerHandlerResult> {
+  readonly supportedTypes = [VerificationRecordType.INVITE_LEARNER];
+
+  constructor(private readonly acceptInviteLearnerUsecase: AcceptInviteLearnerUsecase) {}
+
+  /**
+   * 处理 Learner 邀请验证流程
+   * @param context 验证流程上下文
+   * @returns Learner 邀请处理结果
+   */
+  async handle(context: VerificationFlowContext): Promise<InviteLearnerHandlerResult> {
+    const { recordView, consumedByAccountId, manager } = context;
+
+    if (!consumedByAccountId) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        'Learner 邀请需要指定消费者账户 ID',
+      );
+    }
+
+    // 发出邀请的客户不能把自己关联为学员
+    if (recordView.issuedByAccountId === consumedByAccountId) {
+      throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '不能接受自己发出的学员邀请');
+    }
+
+    if (recordView.subjectType !== SubjectType.LEARNER || !recordView.subjectId) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '学员邀请缺少学员信息',
+        {
+          recordId: recordView.id,
+        },
+      );
+    }
+
+    const customerId = recordView.publicPayload?.customerId;
+    if (typeof customerId !== 'number') {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '学员邀请载荷格式无效',
+        {
+          recordId: recordView.id,
+        },
+      );
+    }
+
+    return await this.acceptInviteLearnerUsecase.execute({
+      recordId: recordView.id,
+      consumedByAccountId,
+      learnerId: recordView.subjectId,
+      customerId,
+      manager,
+    });
+  }
+}
@@ -0,0 +1,17 @@
+// src/usecases/verification/magic-link/magic-link-login-result.types.ts
+
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+
+/**
+ * 魔法链接登录处理器结果
+ */
+export interface MagicLinkLoginHandlerResult {
+  /** 待登录的账户 ID */
+  accountId: number;
+  /** 验证记录 ID */
+  recordId: number;
+  /** 请求链接时声明的客户端类型 */
+  audience: AudienceTypeEnum;
+  /** 操作成功标识 */
+  success: true;
+}
@@ -0,0 +1,78 @@
+// src/usecases/verification/magic-link/magic-link-login.handler.ts
+
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import {
+  ACCOUNT_ERROR,
+  DomainError,
+  VERIFICATION_RECORD_ERROR,
+} from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { VerificationFlowContext, VerificationFlowHandler } from '../types/consume.types';
+import { MagicLinkLoginHandlerResult } from './magic-link-login-result.types';
+import { MagicLinkLoginUsecase } from './magic-link-login.usecase';
+
+const AUDIENCES: ReadonlyArray<string> = Object.values(AudienceTypeEnum);
+
+/**
+ * 魔法链接登录处理器
+ * 实现 VerificationFlowHandler 接口，处理 MAGIC_LINK 的消费逻辑
+ */
+@Injectable()
+export class MagicLinkLoginHandler implements VerificationFlowHandler<MagicLinkLoginHandlerResult> {
+  readonly supportedTypes = [VerificationRecordType.MAGIC_LINK];
+
+  constructor(
+    private readonly magicLinkLoginUsecase: MagicLinkLoginUsecase,
+    private readonly verificationRecordService: VerificationRecordService,
+  ) {}
+
+  /**
+   * 处理魔法链接登录流程
+   * 登录邮箱与客户端类型仅保存在原始载荷中（记录视图不含 PII），需回表读取
+   * @param context 验证流程上下文
+   * @returns 待登录的账户与客户端类型
+   */
+  async handle(context: VerificationFlowContext): Promise<MagicLinkLoginHandlerResult> {
+    const { recordView, manager } = context;
+
+    const record = await this.verificationRecordService.findByIdWithManager({
+      recordId: recordView.id,
+      manager,
+    });
+    const email = record?.payload?.email;
+    const audience = record?.payload?.audience;
+    if (typeof email !== 'string' || !email) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '验证记录缺少邮箱信息',
+        { recordId: recordView.id },
+      );
+    }
+    if (typeof audience !== 'string' || !AUDIENCES.includes(audience)) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '验证记录缺少客户端类型',
+        { recordId: recordView.id },
+      );
+    }
+    if (!record?.targetAccountId) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '验证记录中未找到目标账户');
+    }
+
+    const usecaseResult = await this.magicLinkLoginUsecase.execute({
+      recordId: recordView.id,
+      targetAccountId: record.targetAccountId,
+      email,
+      manager,
+    });
+
+    return {
+      accountId: usecaseResult.accountId,
+      recordId: usecaseResult.recordId,
+      audience: audience as AudienceTypeEnum,
+      success: true,
+    };
+  }
+}
@@ -1,9 +1,18 @@
 // src/usecases/verification/magic-link/magic-link-login.usecase.ts
-// src/usecases/verification/magic-link-login.usecase.ts
 
-import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { AccountStatus } from '@app-types/models/account.types';
+import {
+  ACCOUNT_ERROR,
+  AUTH_ERROR,
+  DomainError,
+  VERIFICATION_RECORD_ERROR,
+} from '@core/common/errors/domain-error';
+import { normalizeEmail } from '@core/common/normalize/normalize.helper';
 import { Injectable } from '@nestjs/common';
-import { VerificationFlowResult } from '../types/consume.types';
+import {
+  AccountService,
+  type AccountTransactionManager,
+} from '@src/modules/account/base/services/account.service';
 
 /**
  * 魔法链接登录用例参数
@@ -11,34 +20,56 @@ import { VerificationFlowResult } from '../types/consume.types';
 export interface MagicLinkLoginUsecaseParams {
   /** 验证记录 ID */
   recordId: number;
-  /** 消费者账号 ID */
-  consumedByAccountId: number;
-  /** 其他参数 */
-  [key: string]: unknown;
+  /** 目标账户 ID */
+  targetAccountId: number;
+  /** 签发时的登录邮箱 */
+  email: string;
+  /** 可选的事务管理器 */
+  manager?: AccountTransactionManager;
+}
+
+/**
+ * 魔法链接登录用例结果
+ */
+export interface MagicLinkLoginUsecaseResult {
+  /** 待登录的账户 ID */
+  accountId: number;
+  /** 验证记录 ID */
+  recordId: number;
 }
 
 /**
  * 魔法链接登录用例
- *
- * 负责处理魔法链接登录流程，包括：
- * - 验证链接的有效性
- * - 检查用户权限
- * - 生成登录凭证
- * - 更新登录状态
+ * 确认链接签发后账户仍可用、登录邮箱未变更；令牌签发由上层登录用例完成
  */
 @Injectable()
 export class MagicLinkLoginUsecase {
+  constructor(private readonly accountService: AccountService) {}
+
   /**
-   * 执行魔法链接登录流程
+   * 执行魔法链接登录校验
    *
    * @param params 用例参数
-   * @returns 登录结果
+   * @returns 待登录的账户
    */
-  execute(_params: MagicLinkLoginUsecaseParams): Promise<VerificationFlowResult> {
-    // TODO: 实现魔法链接登录逻辑
-    throw new DomainError(
-      VERIFICATION_RECORD_ERROR.OPERATION_NOT_SUPPORTED,
-      '魔法链接登录功能暂未实现',
-    );
+  async execute(params: MagicLinkLoginUsecaseParams): Promise<MagicLinkLoginUsecaseResult> {
+    const { recordId, targetAccountId, email, manager } = params;
+
+    const account = await this.accountService.findOneById(targetAccountId, manager);
+    if (!account) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '目标账户不存在');
+    }
+    if (!account.loginEmail || normalizeEmail(account.loginEmail) !== normalizeEmail(email)) {
+      // 签发后登录邮箱已被修改，旧链接不再代表当前邮箱
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '登录邮箱已变更，请重新获取登录链接',
+      );
+    }
+    if (account.status !== AccountStatus.ACTIVE) {
+      throw new DomainError(AUTH_ERROR.ACCOUNT_INACTIVE, '账户未激活或已被禁用');
+    }
+
+    return { accountId: account.id, recordId };
   }
 }
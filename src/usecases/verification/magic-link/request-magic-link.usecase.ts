@@ -0,0 +1,134 @@
+// src/usecases/verification/magic-link/request-magic-link.usecase.ts
+
+import {
+  MAGIC_LINK_EMAIL_TEMPLATE,
+  MagicLinkConfig,
+  RequestMagicLinkParams,
+} from '@app-types/auth/magic-link.types';
+import { AccountStatus } from '@app-types/models/account.types';
+import {
+  VERIFICATION_RECORD_DELIVERY_CHANNEL,
+  VerificationRecordEventType,
+} from '@app-types/models/verification-record-event.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { VerificationRecordEventService } from '@src/modules/verification-record/services/verification-record-event.service';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { CreateVerificationRecordUsecase } from '@src/usecases/verification-record/create-verification-record.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+/**
+ * 请求魔法链接用例
+ * 流程：解析账户 → 冷却校验 → 作废旧链接 → 签发 MAGIC_LINK → 投递邮件（不阻塞）
+ * 邮箱未注册、账户不可用或处于冷却期时均静默返回，避免暴露账户是否存在
+ */
+@Injectable()
+export class RequestMagicLinkUsecase {
+  private readonly config: MagicLinkConfig;
+
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly createVerificationRecordUsecase: CreateVerificationRecordUsecase,
+    private readonly queueEmailUsecase: QueueEmailUsecase,
+    private readonly verificationRecordEventService: VerificationRecordEventService,
+    private readonly logger: PinoLogger,
+    configService: ConfigService,
+  ) {
+    this.logger.setContext(RequestMagicLinkUsecase.name);
+    this.config = configService.get<MagicLinkConfig>('magicLink') ?? {
+      linkExpiresInMinutes: 15,
+      resendCooldownSeconds: 60,
+      linkBaseUrl: '',
+    };
+  }
+
+  /**
+   * 为登录邮箱签发魔法链接并投递邮件
+   * @param params 登录邮箱与客户端类型
+   */
+  async execute(params: RequestMagicLinkParams): Promise<void> {
+    const account = await this.accountService.findByEmail(params.email);
+    if (!account?.loginEmail || account.status !== AccountStatus.ACTIVE) {
+      return;
+    }
+
+    if (await this.isInCooldown(account.id)) {
+      this.logger.info(
+        { event: 'magic_link_cooldown', accountId: account.id },
+        '魔法链接请求处于冷却期，已忽略',
+      );
+      return;
+    }
+
+    await this.verificationRecordService.revokeActiveRecordsByTarget({
+      type: VerificationRecordType.MAGIC_LINK,
+      targetAccountId: account.id,
+    });
+    const { record, token } = await this.createVerificationRecordUsecase.createMagicLink({
+      targetAccountId: account.id,
+      email: account.loginEmail,
+      audience: params.audience,
+      expiresInMinutes: this.config.linkExpiresInMinutes,
+    });
+
+    // 邮件投递不阻塞响应
+    void this.deliver({ to: account.loginEmail, token, recordId: record.id });
+  }
+
+  /**
+   * 距上一次签发是否仍在冷却期内
+   */
+  private async isInCooldown(accountId: number): Promise<boolean> {
+    const latest = await this.verificationRecordService.findLatestByTarget({
+      type: VerificationRecordType.MAGIC_LINK,
+      targetAccountId: accountId,
+    });
+    if (!latest) {
+      return false;
+    }
+    return Date.now() - latest.createdAt.getTime() < this.config.resendCooldownSeconds * 1000;
+  }
+
+  /**
+   * 投递魔法链接邮件
+   * 投递失败只记录日志，用户可在冷却后重新请求
+   */
+  private async deliver(params: { to: string; token: string; recordId: number }): Promise<void> {
+    const link = this.config.linkBaseUrl
+      ? `${this.config.linkBaseUrl}?token=${encodeURIComponent(params.token)}`
+      : null;
+    try {
+      await this.queueEmailUsecase.execute({
+        to: params.to,
+        subject: '您的登录链接',
+        text: [
+          '您正在使用邮箱链接登录，点击下方链接即可完成登录。',
+          link ? `登录链接：${link}` : `登录令牌：${params.token}`,
+          `链接 ${this.config.linkExpiresInMinutes} 分钟内有效且仅可使用一次，如非本人操作请忽略本邮件。`,
+        ].join('\n'),
+        templateId: MAGIC_LINK_EMAIL_TEMPLATE,
+        meta: { event: 'magic_link_login' },
+        dedupKey: `magic-link:${params.recordId}`,
+      });
+      await this.verificationRecordEventService.record({
+        recordId: params.recordId,
+        recordType: VerificationRecordType.MAGIC_LINK,
+        eventType: VerificationRecordEventType.DELIVERED,
+        reason: VERIFICATION_RECORD_DELIVERY_CHANNEL.EMAIL,
+      });
+    } catch (error) {
+      this.logger.warn(
+        {
+          event: 'magic_link_notify_failed',
+          recordId: params.recordId,
+          error: (error as Error)?.message,
+        },
+        '魔法链接邮件投递失败',
+      );
+    }
+  }
+}
@@ -72,11 +72,8 @@ export class ResetPasswordUsecase {
         throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '目标账户不存在');
       }
 
-      // 使用账户创建时间作为盐值生成新密码哈希
-      const hashedPassword = AccountService.hashPasswordWithTimestamp(
-        newPassword,
-        account.createdAt,
-      );
+      // 按当前密码哈希方案生成新密码哈希
+      const hashedPassword = await AccountService.hashPassword(newPassword);
 
       // 更新账户密码，使用传入的 manager（如果有）
       await this.accountService.updateAccount(
@@ -0,0 +1,46 @@
+// src/usecases/verification/sms/bind-phone.usecase.ts
+
+import { SmsCodePurpose } from '@app-types/auth/sms-code.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { normalizePhone } from '@core/common/normalize/normalize.helper';
+import { VerificationCodeHelper } from '@modules/verification-record/verification-code.helper';
+import { Injectable } from '@nestjs/common';
+import { ConsumeVerificationFlowUsecase } from '@src/usecases/verification/consume-verification-flow.usecase';
+
+/**
+ * 绑定手机号用例
+ * 消费 BIND_PHONE 用途的 SMS_VERIFY_CODE，将手机号写入当前账户并标记已验证
+ */
+@Injectable()
+export class BindPhoneUsecase {
+  constructor(
+    private readonly consumeVerificationFlowUsecase: ConsumeVerificationFlowUsecase,
+    private readonly verificationCodeHelper: VerificationCodeHelper,
+  ) {}
+
+  /**
+   * 执行手机号绑定
+   * @param params 当前账户、手机号、验证码与来源 IP
+   */
+  async execute(params: {
+    accountId: number;
+    phone: string;
+    code: string;
+    ip?: string;
+  }): Promise<void> {
+    const phone = normalizePhone(params.phone);
+    const token = this.verificationCodeHelper.buildSmsCodeToken({
+      phone,
+      purpose: SmsCodePurpose.BIND_PHONE,
+      code: params.code,
+    });
+    await this.consumeVerificationFlowUsecase.execute({
+      token,
+      consumedByAccountId: params.accountId,
+      expectedType: VerificationRecordType.SMS_VERIFY_CODE,
+      clientIp: params.ip,
+      // BIND_PHONE 记录无目标账户，按手机号与用途定位
+      codeScope: { payload: { phone, purpose: SmsCodePurpose.BIND_PHONE } },
+    });
+  }
+}
@@ -0,0 +1,152 @@
+// src/usecases/verification/sms/request-sms-code.usecase.ts
+
+import {
+  RequestSmsCodeParams,
+  RequestSmsCodeResult,
+  SMS_VERIFICATION_CODE_TEMPLATE,
+  SmsCodeConfig,
+  SmsCodePurpose,
+} from '@app-types/auth/sms-code.types';
+import { AccountStatus } from '@app-types/models/account.types';
+import {
+  VERIFICATION_RECORD_DELIVERY_CHANNEL,
+  VerificationRecordEventType,
+} from '@app-types/models/verification-record-event.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { normalizePhone } from '@core/common/normalize/normalize.helper';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AccountService } from '@src/modules/account/base/services/account.service';
+import { SmsSendQuotaService } from '@src/modules/verification-record/services/sms-send-quota.service';
+import { VerificationRecordEventService } from '@src/modules/verification-record/services/verification-record-event.service';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { QueueSmsUsecase } from '@src/usecases/sms-queue/queue-sms.usecase';
+import { CreateVerificationRecordUsecase } from '@src/usecases/verification-record/create-verification-record.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+/**
+ * 请求短信验证码用例
+ * 流程：冷却校验 → 发送配额 → 解析目标账户 → 作废旧验证码 → 签发 SMS_VERIFY_CODE → 投递短信（不阻塞）
+ */
+@Injectable()
+export class RequestSmsCodeUsecase {
+  private readonly config: SmsCodeConfig;
+
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly createVerificationRecordUsecase: CreateVerificationRecordUsecase,
+    private readonly smsSendQuotaService: SmsSendQuotaService,
+    private readonly queueSmsUsecase: QueueSmsUsecase,
+    private readonly verificationRecordEventService: VerificationRecordEventService,
+    private readonly logger: PinoLogger,
+    configService: ConfigService,
+  ) {
+    this.logger.setContext(RequestSmsCodeUsecase.name);
+    this.config = configService.get<SmsCodeConfig>('sms') ?? {
+      codeExpiresInMinutes: 5,
+      resendCooldownSeconds: 60,
+      quota: { windowSeconds: 3600, maxPerPhone: 10, maxPerIp: 50 },
+    };
+  }
+
+  /**
+   * 为手机号签发验证码并投递短信
+   * LOGIN 用途下手机号未绑定可用账户时静默返回，避免暴露账户是否存在
+   * @param params 手机号、用途与来源 IP
+   * @returns 再次请求前需等待的秒数
+   */
+  async execute(params: RequestSmsCodeParams): Promise<RequestSmsCodeResult> {
+    const phone = normalizePhone(params.phone);
+    const { purpose } = params;
+    const result: RequestSmsCodeResult = { cooldownSeconds: this.config.resendCooldownSeconds };
+
+    await this.assertCooldownPassed(phone, purpose);
+    await this.smsSendQuotaService.consume({ phone, ip: params.ip });
+
+    let targetAccountId: number | undefined;
+    if (purpose === SmsCodePurpose.LOGIN) {
+      const userInfo = await this.accountService.findUserInfoByVerifiedPhone(phone);
+      if (!userInfo || userInfo.account?.status !== AccountStatus.ACTIVE) {
+        return result;
+      }
+      targetAccountId = userInfo.accountId;
+    }
+
+    await this.verificationRecordService.revokeActiveRecordsByPayload({
+      type: VerificationRecordType.SMS_VERIFY_CODE,
+      payload: { phone, purpose },
+    });
+    const { record, code } = await this.createVerificationRecordUsecase.createSmsVerifyCode({
+      phone,
+      purpose,
+      targetAccountId,
+      expiresInMinutes: this.config.codeExpiresInMinutes,
+    });
+
+    // 短信投递不阻塞响应
+    void this.deliver({ phone, code, purpose, recordId: record.id });
+
+    return result;
+  }
+
+  /**
+   * 校验同一手机号同一用途的重发冷却时间
+   */
+  private async assertCooldownPassed(phone: string, purpose: SmsCodePurpose): Promise<void> {
+    const latest = await this.verificationRecordService.findLatestByPayload({
+      type: VerificationRecordType.SMS_VERIFY_CODE,
+      payload: { phone, purpose },
+    });
+    if (!latest) {
+      return;
+    }
+
+    const elapsedMs = Date.now() - latest.createdAt.getTime();
+    const cooldownMs = this.config.resendCooldownSeconds * 1000;
+    if (elapsedMs < cooldownMs) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.RESEND_TOO_FREQUENT,
+        '验证码发送过于频繁，请稍后再试',
+        { retryAfterSeconds: Math.ceil((cooldownMs - elapsedMs) / 1000) },
+      );
+    }
+  }
+
+  /**
+   * 投递验证码短信
+   * 投递失败只记录日志，用户可在冷却后重新获取
+   */
+  private async deliver(params: {
+    phone: string;
+    code: string;
+    purpose: SmsCodePurpose;
+    recordId: number;
+  }): Promise<void> {
+    try {
+      await this.queueSmsUsecase.execute({
+        phone: params.phone,
+        templateId: SMS_VERIFICATION_CODE_TEMPLATE,
+        params: { code: params.code },
+        meta: { event: 'sms_verification_code', purpose: params.purpose },
+        dedupKey: `sms-code:${params.recordId}`,
+      });
+      await this.verificationRecordEventService.record({
+        recordId: params.recordId,
+        recordType: VerificationRecordType.SMS_VERIFY_CODE,
+        eventType: VerificationRecordEventType.DELIVERED,
+        reason: VERIFICATION_RECORD_DELIVERY_CHANNEL.SMS,
+      });
+    } catch (error) {
+      this.logger.warn(
+        {
+          event: 'sms_verification_code_notify_failed',
+          recordId: params.recordId,
+          error: (error as Error)?.message,
+        },
+        '短信验证码投递失败',
+      );
+    }
+  }
+}
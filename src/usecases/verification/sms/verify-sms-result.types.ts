@@ -0,0 +1,19 @@
+// src/usecases/verification/sms/verify-sms-result.types.ts
+
+import { SmsCodePurpose } from '@app-types/auth/sms-code.types';
+
+/**
+ * 短信验证码处理器结果
+ */
+export interface VerifySmsHandlerResult {
+  /** 登录账户（LOGIN）或完成绑定的账户（BIND_PHONE） */
+  accountId: number;
+  /** 验证记录 ID */
+  recordId: number;
+  /** 已验证的手机号 */
+  phone: string;
+  /** 验证码用途 */
+  purpose: SmsCodePurpose;
+  /** 操作成功标识 */
+  success: true;
+}
@@ -0,0 +1,73 @@
+// src/usecases/verification/sms/verify-sms.handler.ts
+
+import { SmsCodePurpose } from '@app-types/auth/sms-code.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { VerificationFlowContext, VerificationFlowHandler } from '../types/consume.types';
+import { VerifySmsHandlerResult } from './verify-sms-result.types';
+import { VerifySmsUsecase } from './verify-sms.usecase';
+
+const SMS_CODE_PURPOSES: ReadonlyArray<string> = Object.values(SmsCodePurpose);
+
+/**
+ * 短信验证码处理器
+ * 实现 VerificationFlowHandler 接口，处理 SMS_VERIFY_CODE 的消费逻辑
+ */
+@Injectable()
+export class VerifySmsHandler implements VerificationFlowHandler<VerifySmsHandlerResult> {
+  readonly supportedTypes = [VerificationRecordType.SMS_VERIFY_CODE];
+
+  constructor(
+    private readonly verifySmsUsecase: VerifySmsUsecase,
+    private readonly verificationRecordService: VerificationRecordService,
+  ) {}
+
+  /**
+   * 处理短信验证流程
+   * 手机号与用途仅保存在原始载荷中（记录视图不含 PII），需回表读取
+   * @param context 验证流程上下文
+   * @returns 验证结果
+   */
+  async handle(context: VerificationFlowContext): Promise<VerifySmsHandlerResult> {
+    const { recordView, consumedByAccountId, manager } = context;
+
+    const record = await this.verificationRecordService
+      .getRepository(manager)
+      .findOne({ where: { id: recordView.id } });
+    const phone = record?.payload?.phone;
+    const purpose = record?.payload?.purpose;
+    if (typeof phone !== 'string' || !phone) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '验证记录缺少手机号信息',
+        { recordId: recordView.id },
+      );
+    }
+    if (typeof purpose !== 'string' || !SMS_CODE_PURPOSES.includes(purpose)) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '验证记录缺少验证码用途',
+        { recordId: recordView.id },
+      );
+    }
+
+    const usecaseResult = await this.verifySmsUsecase.execute({
+      recordId: recordView.id,
+      phone,
+      purpose: purpose as SmsCodePurpose,
+      targetAccountId: record?.targetAccountId ?? null,
+      consumedByAccountId,
+      manager,
+    });
+
+    return {
+      accountId: usecaseResult.accountId,
+      recordId: usecaseResult.recordId,
+      phone,
+      purpose: purpose as SmsCodePurpose,
+      success: true,
+    };
+  }
+}
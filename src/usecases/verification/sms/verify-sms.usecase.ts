@@ -1,9 +1,19 @@
 // src/usecases/verification/sms/verify-sms.usecase.ts
-// src/usecases/verification/verify-sms.usecase.ts
 
-import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { SmsCodePurpose } from '@app-types/auth/sms-code.types';
+import { AccountStatus } from '@app-types/models/account.types';
+import {
+  ACCOUNT_ERROR,
+  DomainError,
+  PERMISSION_ERROR,
+  VERIFICATION_RECORD_ERROR,
+} from '@core/common/errors/domain-error';
 import { Injectable } from '@nestjs/common';
-import { VerificationFlowResult } from '../types/consume.types';
+import {
+  AccountService,
+  type AccountTransactionManager,
+} from '@src/modules/account/base/services/account.service';
+import { PinoLogger } from 'nestjs-pino';
 
 /**
  * 短信验证用例参数
@@ -11,34 +21,106 @@ import { VerificationFlowResult } from '../types/consume.types';
 export interface VerifySmsUsecaseParams {
   /** 验证记录 ID */
   recordId: number;
-  /** 消费者账号 ID */
-  consumedByAccountId: number;
-  /** 其他参数 */
-  [key: string]: unknown;
+  /** 签发时记录的手机号 */
+  phone: string;
+  /** 验证码用途 */
+  purpose: SmsCodePurpose;
+  /** 签发时绑定的目标账户（LOGIN 用途） */
+  targetAccountId: number | null;
+  /** 消费者账号 ID（BIND_PHONE 用途必填） */
+  consumedByAccountId?: number;
+  /** 可选的事务管理器 */
+  manager?: AccountTransactionManager;
+}
+
+/**
+ * 短信验证用例结果
+ */
+export interface VerifySmsUsecaseResult {
+  /** 登录账户或完成绑定的账户 */
+  accountId: number;
+  /** 验证记录 ID */
+  recordId: number;
 }
 
 /**
  * 短信验证用例
- *
- * 负责处理短信验证流程，包括：
- * - 验证短信验证码的有效性
- * - 检查用户权限
- * - 验证手机号码
- * - 更新验证状态
+ * - LOGIN：确认手机号仍属于签发时的账户且账户可用，返回待登录的账户
+ * - BIND_PHONE：手机号未被其他账户验证时写入当前账户并标记已验证
  */
 @Injectable()
 export class VerifySmsUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(VerifySmsUsecase.name);
+  }
+
   /**
    * 执行短信验证流程
    *
    * @param params 用例参数
    * @returns 验证结果
    */
-  execute(_params: VerifySmsUsecaseParams): Promise<VerificationFlowResult> {
-    // TODO: 实现短信验证逻辑
-    throw new DomainError(
-      VERIFICATION_RECORD_ERROR.OPERATION_NOT_SUPPORTED,
-      '短信验证功能暂未实现',
+  async execute(params: VerifySmsUsecaseParams): Promise<VerifySmsUsecaseResult> {
+    switch (params.purpose) {
+      case SmsCodePurpose.LOGIN:
+        return await this.verifyLogin(params);
+      case SmsCodePurpose.BIND_PHONE:
+        return await this.bindPhone(params);
+      default:
+        throw new DomainError(
+          VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+          '不支持的短信验证码用途',
+          { recordId: params.recordId, purpose: params.purpose as string },
+        );
+    }
+  }
+
+  private async verifyLogin(params: VerifySmsUsecaseParams): Promise<VerifySmsUsecaseResult> {
+    const { recordId, phone, targetAccountId, manager } = params;
+
+    const userInfo = await this.accountService.findUserInfoByVerifiedPhone(phone, manager);
+    if (!userInfo || userInfo.accountId !== targetAccountId) {
+      // 签发后手机号被解绑或转移，旧验证码不再代表当前账户
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '手机号已变更，请重新获取验证码',
+      );
+    }
+    if (userInfo.account?.status !== AccountStatus.ACTIVE) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_SUSPENDED, '账户不可用');
+    }
+
+    return { accountId: userInfo.accountId, recordId };
+  }
+
+  private async bindPhone(params: VerifySmsUsecaseParams): Promise<VerifySmsUsecaseResult> {
+    const { recordId, phone, consumedByAccountId, manager } = params;
+    if (!consumedByAccountId) {
+      throw new DomainError(PERMISSION_ERROR.ACCESS_DENIED, '绑定手机号需要登录后操作');
+    }
+
+    const owner = await this.accountService.findUserInfoByVerifiedPhone(phone, manager);
+    if (owner && owner.accountId !== consumedByAccountId) {
+      throw new DomainError(ACCOUNT_ERROR.PHONE_TAKEN, '该手机号已被其他账户绑定');
+    }
+
+    const { isUpdated } = await this.accountService.markPhoneVerified({
+      accountId: consumedByAccountId,
+      phone,
+      manager,
+    });
+    if (!isUpdated) {
+      throw new DomainError(ACCOUNT_ERROR.USER_INFO_NOT_FOUND, '用户信息不存在');
+    }
+
+    this.logger.info(
+      { event: 'phone_verified', accountId: consumedByAccountId, recordId },
+      '手机号绑定完成',
     );
+
+    return { accountId: consumedByAccountId, recordId };
   }
 }
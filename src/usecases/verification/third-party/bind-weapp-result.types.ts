@@ -0,0 +1,15 @@
+// src/usecases/verification/third-party/bind-weapp-result.types.ts
+
+/**
+ * 微信小程序绑定处理器结果
+ */
+export interface BindWeappHandlerResult {
+  /** 完成绑定的账户 ID */
+  accountId: number;
+  /** 验证记录 ID */
+  recordId: number;
+  /** 新建的第三方认证记录 ID */
+  thirdPartyAuthId: number;
+  /** 操作成功标识 */
+  success: true;
+}
@@ -0,0 +1,51 @@
+// src/usecases/verification/third-party/bind-weapp.handler.ts
+
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import {
+  ACCOUNT_ERROR,
+  DomainError,
+  VERIFICATION_RECORD_ERROR,
+} from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { VerificationFlowContext, VerificationFlowHandler } from '../types/consume.types';
+import { BindWeappHandlerResult } from './bind-weapp-result.types';
+import { BindWeappUsecase } from './bind-weapp.usecase';
+
+/**
+ * 微信小程序绑定处理器
+ * 实现 VerificationFlowHandler 接口，处理 WEAPP_BIND 的消费逻辑
+ * 小程序端无需登录，凭扫码得到的 token 与 code2session 结果为记录目标账户完成绑定
+ */
+@Injectable()
+export class BindWeappHandler implements VerificationFlowHandler<BindWeappHandlerResult> {
+  readonly supportedTypes = [VerificationRecordType.WEAPP_BIND];
+
+  constructor(private readonly bindWeappUsecase: BindWeappUsecase) {}
+
+  /**
+   * 处理微信小程序绑定流程
+   * @param context 验证流程上下文
+   * @returns 绑定结果
+   */
+  async handle(context: VerificationFlowContext): Promise<BindWeappHandlerResult> {
+    const { recordView, weappSession, manager } = context;
+
+    if (!weappSession?.providerUserId) {
+      throw new DomainError(
+        VERIFICATION_RECORD_ERROR.VERIFICATION_INVALID,
+        '小程序绑定需要提供微信会话信息',
+        { recordId: recordView.id },
+      );
+    }
+    if (!recordView.targetAccountId) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '验证记录中未找到目标账户');
+    }
+
+    return await this.bindWeappUsecase.execute({
+      recordId: recordView.id,
+      targetAccountId: recordView.targetAccountId,
+      session: weappSession,
+      manager,
+    });
+  }
+}
@@ -1,9 +1,16 @@
 // src/usecases/verification/third-party/bind-weapp.usecase.ts
-// src/usecases/verification/bind-weapp.usecase.ts
 
-import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { AccountStatus, ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import { ThirdPartySession } from '@app-types/models/third-party-auth.types';
+import { ACCOUNT_ERROR, AUTH_ERROR, DomainError } from '@core/common/errors/domain-error';
+import { ThirdPartyAuthService } from '@modules/third-party-auth/third-party-auth.service';
 import { Injectable } from '@nestjs/common';
-import { VerificationFlowResult } from '../types/consume.types';
+import {
+  AccountService,
+  type AccountTransactionManager,
+} from '@src/modules/account/base/services/account.service';
+import { PinoLogger } from 'nestjs-pino';
+import { BindWeappHandlerResult } from './bind-weapp-result.types';
 
 /**
  * 微信小程序绑定用例参数
@@ -11,34 +18,66 @@ import { VerificationFlowResult } from '../types/consume.types';
 export interface BindWeappUsecaseParams {
   /** 验证记录 ID */
   recordId: number;
-  /** 消费者账号 ID */
-  consumedByAccountId: number;
-  /** 其他参数 */
-  [key: string]: unknown;
+  /** 发起绑定的账户 ID（记录目标账户） */
+  targetAccountId: number;
+  /** 小程序 code2session 解析出的会话 */
+  session: ThirdPartySession;
+  /** 可选的事务管理器 */
+  manager?: AccountTransactionManager;
 }
 
 /**
  * 微信小程序绑定用例
- *
- * 负责处理微信小程序绑定流程，包括：
- * - 验证绑定请求的有效性
- * - 检查用户权限
- * - 建立第三方账号关联
- * - 更新绑定状态
+ * 确认发起绑定的账户仍可用，再为其写入 WEAPP 第三方认证记录
+ * 账户已绑定小程序或该微信用户已绑定其他账户时拒绝
  */
 @Injectable()
 export class BindWeappUsecase {
+  constructor(
+    private readonly accountService: AccountService,
+    private readonly thirdPartyAuthService: ThirdPartyAuthService,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(BindWeappUsecase.name);
+  }
+
   /**
-   * 执行微信小程序绑定流程
+   * 执行微信小程序绑定
    *
    * @param params 用例参数
    * @returns 绑定结果
    */
-  execute(_params: BindWeappUsecaseParams): Promise<VerificationFlowResult> {
-    // TODO: 实现微信小程序绑定逻辑
-    throw new DomainError(
-      VERIFICATION_RECORD_ERROR.OPERATION_NOT_SUPPORTED,
-      '微信小程序绑定功能暂未实现',
+  async execute(params: BindWeappUsecaseParams): Promise<BindWeappHandlerResult> {
+    const { recordId, targetAccountId, session, manager } = params;
+
+    const account = await this.accountService.findOneById(targetAccountId, manager);
+    if (!account) {
+      throw new DomainError(ACCOUNT_ERROR.ACCOUNT_NOT_FOUND, '目标账户不存在');
+    }
+    if (account.status !== AccountStatus.ACTIVE) {
+      throw new DomainError(AUTH_ERROR.ACCOUNT_INACTIVE, '账户未激活或已被禁用');
+    }
+
+    const thirdPartyAuth = await this.thirdPartyAuthService.bindThirdParty({
+      accountId: account.id,
+      input: {
+        provider: ThirdPartyProviderEnum.WEAPP,
+        providerUserId: session.providerUserId,
+        unionId: session.unionId,
+        accessToken: null,
+      },
+      manager,
+    });
+    this.logger.info(
+      { event: 'weapp_bound', accountId: account.id, recordId },
+      '微信小程序扫码绑定成功',
     );
+
+    return {
+      accountId: account.id,
+      recordId,
+      thirdPartyAuthId: thirdPartyAuth.id,
+      success: true,
+    };
   }
 }
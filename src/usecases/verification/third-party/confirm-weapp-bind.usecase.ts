@@ -0,0 +1,56 @@
+// src/usecases/verification/third-party/confirm-weapp-bind.usecase.ts
+
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { Injectable } from '@nestjs/common';
+import { ResolveThirdPartyIdentityUsecase } from '@src/usecases/third-party-accounts/resolve-third-party-identity.usecase';
+import { ConsumeVerificationFlowUsecase } from '../consume-verification-flow.usecase';
+import { BindWeappHandlerResult } from './bind-weapp-result.types';
+
+/**
+ * 确认小程序扫码绑定参数
+ */
+export interface ConfirmWeappBindParams {
+  /** 小程序码 scene 中的绑定 token */
+  token: string;
+  /** 小程序 wx.login 获取的 js_code */
+  authCredential: string;
+  /** 客户端类型 */
+  audience: AudienceTypeEnum;
+  /** 请求来源 IP（用于防暴力破解计数） */
+  clientIp?: string;
+}
+
+/**
+ * 确认小程序扫码绑定用例
+ * 小程序端无需登录：先以 js_code 调用 code2session 解析微信身份，再消费 WEAPP_BIND 记录完成绑定
+ * token 无效按来源 IP 计入防暴力破解失败次数
+ */
+@Injectable()
+export class ConfirmWeappBindUsecase {
+  constructor(
+    private readonly resolveThirdPartyIdentityUsecase: ResolveThirdPartyIdentityUsecase,
+    private readonly consumeVerificationFlowUsecase: ConsumeVerificationFlowUsecase,
+  ) {}
+
+  /**
+   * 执行绑定确认
+   * @param params 确认参数
+   * @returns 绑定结果
+   */
+  async execute(params: ConfirmWeappBindParams): Promise<BindWeappHandlerResult> {
+    const session = await this.resolveThirdPartyIdentityUsecase.execute({
+      provider: ThirdPartyProviderEnum.WEAPP,
+      authCredential: params.authCredential,
+      audience: params.audience,
+    });
+
+    const result = await this.consumeVerificationFlowUsecase.execute({
+      token: params.token,
+      expectedType: VerificationRecordType.WEAPP_BIND,
+      weappSession: session,
+      clientIp: params.clientIp,
+    });
+    return result as BindWeappHandlerResult;
+  }
+}
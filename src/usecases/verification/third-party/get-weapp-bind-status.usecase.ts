@@ -0,0 +1,81 @@
+// src/usecases/verification/third-party/get-weapp-bind-status.usecase.ts
+
+import {
+  VerificationRecordStatus,
+  VerificationRecordType,
+  WeappBindStatus,
+} from '@app-types/models/verification-record.types';
+import { DomainError, VERIFICATION_RECORD_ERROR } from '@core/common/errors/domain-error';
+import { Injectable } from '@nestjs/common';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+
+/**
+ * 查询小程序扫码绑定状态参数
+ */
+export interface GetWeappBindStatusParams {
+  /** 当前用户账户 ID（必须为绑定码的目标账户） */
+  currentAccountId: number;
+  /** 绑定记录 ID */
+  recordId: number;
+}
+
+/**
+ * 小程序扫码绑定状态
+ */
+export interface WeappBindStatusView {
+  recordId: number;
+  status: WeappBindStatus;
+  expiresAt: Date;
+  /** 完成绑定时间（未绑定时为 null） */
+  boundAt: Date | null;
+}
+
+/**
+ * 查询小程序扫码绑定状态用例
+ * 供网页端展示小程序码后轮询；只能查询本人发起的绑定，其他记录统一返回未找到
+ */
+@Injectable()
+export class GetWeappBindStatusUsecase {
+  constructor(private readonly verificationRecordService: VerificationRecordService) {}
+
+  /**
+   * 执行查询
+   * @param params 查询参数
+   * @returns 绑定状态
+   */
+  async execute(params: GetWeappBindStatusParams): Promise<WeappBindStatusView> {
+    const record = await this.verificationRecordService.findById(params.recordId);
+    if (
+      !record ||
+      record.type !== VerificationRecordType.WEAPP_BIND ||
+      record.targetAccountId !== params.currentAccountId
+    ) {
+      throw new DomainError(VERIFICATION_RECORD_ERROR.RECORD_NOT_FOUND, '绑定记录不存在', {
+        recordId: params.recordId,
+      });
+    }
+
+    return {
+      recordId: record.id,
+      status: this.resolveStatus(record.status, record.expiresAt),
+      expiresAt: record.expiresAt,
+      boundAt: record.status === VerificationRecordStatus.CONSUMED ? record.consumedAt : null,
+    };
+  }
+
+  /**
+   * 由记录状态推导绑定状态；未被清理任务标记但已超过有效期的 ACTIVE 记录视为已过期
+   */
+  private resolveStatus(status: VerificationRecordStatus, expiresAt: Date): WeappBindStatus {
+    switch (status) {
+      case VerificationRecordStatus.CONSUMED:
+        return WeappBindStatus.BOUND;
+      case VerificationRecordStatus.REVOKED:
+        return WeappBindStatus.CANCELLED;
+      case VerificationRecordStatus.EXPIRED:
+        return WeappBindStatus.EXPIRED;
+      case VerificationRecordStatus.ACTIVE:
+        return expiresAt <= new Date() ? WeappBindStatus.EXPIRED : WeappBindStatus.PENDING;
+    }
+  }
+}
@@ -0,0 +1,106 @@
+// src/usecases/verification/third-party/request-weapp-bind.usecase.ts
+
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { DomainError, THIRDPARTY_ERROR } from '@core/common/errors/domain-error';
+import { ThirdPartyAuthService } from '@modules/third-party-auth/third-party-auth.service';
+import { Injectable } from '@nestjs/common';
+import { VerificationRecordService } from '@src/modules/verification-record/verification-record.service';
+import { GenerateWeappQrcodeUsecase } from '@src/usecases/third-party-accounts/generate-weapp-qrcode.usecase';
+import { CreateVerificationRecordUsecase } from '@src/usecases/verification-record/create-verification-record.usecase';
+import { PinoLogger } from 'nestjs-pino';
+
+/**
+ * 发起小程序扫码绑定参数
+ */
+export interface RequestWeappBindParams {
+  /** 当前用户账户 ID */
+  currentAccountId: number;
+  /** 有效期（分钟，可选，默认 10 分钟） */
+  expiresInMinutes?: number;
+  /** 小程序码参数（以绑定 token 作为 scene 生成小程序码） */
+  qrcode: {
+    audience: AudienceTypeEnum;
+    page?: string;
+    width?: number;
+    envVersion?: 'develop' | 'trial' | 'release';
+  };
+}
+
+/**
+ * 发起小程序扫码绑定结果
+ */
+export interface RequestWeappBindResult {
+  /** 验证记录 ID（网页端据此轮询绑定状态） */
+  recordId: number;
+  /** 绑定 token（小程序码 scene） */
+  token: string;
+  /** 过期时间 */
+  expiresAt: Date;
+  /** 小程序码 */
+  qrcode: { contentType: string; imageBase64: string } | null;
+}
+
+/**
+ * 发起小程序扫码绑定用例
+ * 流程：校验账户未绑定小程序 → 作废旧绑定码 → 签发 WEAPP_BIND → 以 token 为 scene 生成小程序码
+ * 小程序扫码后携带 scene 与 code2session 结果确认绑定，网页端按记录 ID 轮询绑定状态
+ */
+@Injectable()
+export class RequestWeappBindUsecase {
+  constructor(
+    private readonly thirdPartyAuthService: ThirdPartyAuthService,
+    private readonly verificationRecordService: VerificationRecordService,
+    private readonly createVerificationRecordUsecase: CreateVerificationRecordUsecase,
+    private readonly generateWeappQrcodeUsecase: GenerateWeappQrcodeUsecase,
+    private readonly logger: PinoLogger,
+  ) {
+    this.logger.setContext(RequestWeappBindUsecase.name);
+  }
+
+  /**
+   * 为当前账户签发小程序绑定码
+   * @param params 发起参数
+   * @returns 绑定记录与小程序码
+   */
+  async execute(params: RequestWeappBindParams): Promise<RequestWeappBindResult> {
+    const bound = await this.thirdPartyAuthService.findThirdPartyAuthByAccountId(
+      params.currentAccountId,
+      ThirdPartyProviderEnum.WEAPP,
+    );
+    if (bound) {
+      throw new DomainError(THIRDPARTY_ERROR.ACCOUNT_ALREADY_BOUND, '该账户已绑定微信小程序');
+    }
+
+    // 同一账户同一时间只保留最新一张绑定码
+    await this.verificationRecordService.revokeActiveRecordsByTarget({
+      type: VerificationRecordType.WEAPP_BIND,
+      targetAccountId: params.currentAccountId,
+    });
+    const { record, token } = await this.createVerificationRecordUsecase.createWeappBind({
+      targetAccountId: params.currentAccountId,
+      expiresInMinutes: params.expiresInMinutes,
+    });
+    this.logger.info(
+      { event: 'weapp_bind_requested', accountId: params.currentAccountId, recordId: record.id },
+      '小程序绑定码已签发',
+    );
+
+    const qrcode = await this.generateWeappQrcodeUsecase.execute({
+      audience: params.qrcode.audience,
+      scene: token,
+      page: params.qrcode.page,
+      width: params.qrcode.width,
+      envVersion: params.qrcode.envVersion,
+    });
+
+    return {
+      recordId: record.id,
+      token,
+      expiresAt: record.expiresAt,
+      qrcode: qrcode.imageBase64
+        ? { contentType: qrcode.contentType, imageBase64: qrcode.imageBase64 }
+        : null,
+    };
+  }
+}
@@ -1,12 +1,18 @@
 // src/usecases/verification/types/consume.types.ts
 
 import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { ThirdPartySession } from '@app-types/models/third-party-auth.types';
 import { VerificationRecordType } from '@app-types/models/verification-record.types';
 import { VerificationRecordView } from '@src/modules/verification-record/services/verification-read.service';
 import type { VerificationRecordTransactionManager } from '@src/modules/verification-record/verification-record.service';
 import { InviteCoachHandlerResult } from '@src/usecases/verification/coach/invite-coach-result.types';
+import { VerifyEmailHandlerResult } from '@src/usecases/verification/email/verify-email-result.types';
+import { InviteLearnerHandlerResult } from '@src/usecases/verification/learner/invite-learner-result.types';
+import { MagicLinkLoginHandlerResult } from '@src/usecases/verification/magic-link/magic-link-login-result.types';
 import { InviteManagerHandlerResult } from '@src/usecases/verification/manager/invite-manager-result.types';
 import { PasswordResetHandlerResult } from '@src/usecases/verification/password/reset-password-result.types';
+import { VerifySmsHandlerResult } from '@src/usecases/verification/sms/verify-sms-result.types';
+import { BindWeappHandlerResult } from '@src/usecases/verification/third-party/bind-weapp-result.types';
 
 /**
  * 密码重置载荷
@@ -16,6 +22,17 @@ export interface ResetPasswordPayload {
   newPassword: string;
 }
 
+/**
+ * 验证码查找范围
+ * 验证码类记录按（类型 + 目标）定位，目标为目标账户或 payload 字段
+ */
+export interface VerificationCodeScope {
+  /** 目标账户 ID */
+  targetAccountId?: number;
+  /** payload 字段匹配条件（如手机号与用途） */
+  payload?: Readonly<Record<string, string>>;
+}
+
 /**
  * 验证流程输入参数
  */
@@ -36,6 +53,12 @@ export interface ConsumeVerificationFlowParams {
   manager?: VerificationRecordTransactionManager;
   /** 密码重置载荷（仅用于密码重置类型） */
   resetPassword?: ResetPasswordPayload;
+  /** 请求来源 IP（可选，用于防暴力破解计数；缺省时不计数） */
+  clientIp?: string;
+  /** 验证码查找范围（验证码类记录使用；缺省时以消费者账号为目标） */
+  codeScope?: VerificationCodeScope;
+  /** 小程序 code2session 解析出的会话（仅用于小程序绑定类型） */
+  weappSession?: ThirdPartySession;
 }
 
 /**
@@ -50,6 +73,8 @@ export interface VerificationFlowContext {
   manager: VerificationRecordTransactionManager;
   /** 密码重置载荷（仅用于密码重置类型） */
   resetPassword?: ResetPasswordPayload;
+  /** 小程序会话（仅用于小程序绑定类型） */
+  weappSession?: ThirdPartySession;
 }
 
 // TODO: 临时注释其他验证类型，专注于密码重置功能
@@ -127,7 +152,12 @@ export interface VerificationFlowContext {
 export type VerificationFlowResult =
   | PasswordResetHandlerResult
   | InviteCoachHandlerResult
-  | InviteManagerHandlerResult;
+  | InviteManagerHandlerResult
+  | InviteLearnerHandlerResult
+  | VerifyEmailHandlerResult
+  | VerifySmsHandlerResult
+  | MagicLinkLoginHandlerResult
+  | BindWeappHandlerResult;
 // TODO: 后续可扩展更多类型
 // export type VerificationFlowResult =
 //   | EmailVerificationResult
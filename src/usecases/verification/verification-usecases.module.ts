@@ -1,25 +1,72 @@
 // 文件位置： src/usecases/verification/verification-usecases.module.ts
 import { PasswordModule } from '@modules/common/password/password.module';
 import { AccountInstallerModule } from '@modules/account/account-installer.module';
+import { AuthModule } from '@modules/auth/auth.module';
 import { CoachServiceModule } from '@modules/account/identities/training/coach/coach-service.module';
+import { CustomerServiceModule } from '@modules/account/identities/training/customer/customer-service.module';
+import { LearnerServiceModule } from '@modules/account/identities/training/learner/learner-service.module';
 import { ManagerServiceModule } from '@modules/account/identities/training/manager/manager-service.module';
+import { ThirdPartyAuthModule } from '@modules/third-party-auth/third-party-auth.module';
+import { EmailQueueUsecasesModule } from '@src/usecases/email-queue/email-queue-usecases.module';
+import { InviteQueueUsecasesModule } from '@src/usecases/invite-queue/invite-queue-usecases.module';
+import { SmsQueueUsecasesModule } from '@src/usecases/sms-queue/sms-queue-usecases.module';
+import { ThirdPartyAccountsUsecasesModule } from '@src/usecases/third-party-accounts/third-party-accounts-usecases.module';
+import { VerificationRecordUsecasesModule } from '@src/usecases/verification-record/verification-record-usecases.module';
 import { Module } from '@nestjs/common';
+import { AsyncTaskRecordModule } from '@src/modules/async-task-record/async-task-record.module';
+import { NotificationModule } from '@src/modules/notification/notification.module';
 import { VerificationRecordModule } from '@src/modules/verification-record/verification-record.module';
+import { BulkInviteCoachesUsecase } from '@src/usecases/verification/coach/bulk-invite-coaches.usecase';
+import { CreateCoachInvitesBatchUsecase } from '@src/usecases/verification/coach/create-coach-invites-batch.usecase';
+import { GetBulkInviteCoachesReportUsecase } from '@src/usecases/verification/coach/get-bulk-invite-coaches-report.usecase';
 import { InviteCoachHandler } from '@src/usecases/verification/coach/invite-coach.handler';
 import { ConsumeVerificationFlowUsecase } from '@src/usecases/verification/consume-verification-flow.usecase';
+import { SendVerificationEmailUsecase } from '@src/usecases/verification/email/send-verification-email.usecase';
+import { VerifyEmailHandler } from '@src/usecases/verification/email/verify-email.handler';
+import { VerifyEmailUsecase } from '@src/usecases/verification/email/verify-email.usecase';
 import { AcceptInviteCoachUsecase } from '@src/usecases/verification/invite/accept-invite-coach.usecase';
+import { AcceptInviteLearnerUsecase } from '@src/usecases/verification/invite/accept-invite-learner.usecase';
 import { AcceptInviteManagerUsecase } from '@src/usecases/verification/invite/accept-invite-manager.usecase';
+import { GetInviteAcceptanceStatsUsecase } from '@src/usecases/verification/invite/get-invite-acceptance-stats.usecase';
+import { ListIssuedVerificationRecordsUsecase } from '@src/usecases/verification/invite/list-issued-verification-records.usecase';
+import { ResendInviteUsecase } from '@src/usecases/verification/invite/resend-invite.usecase';
+import { RevokeIssuedInvitesUsecase } from '@src/usecases/verification/invite/revoke-issued-invites.usecase';
+import { CreateLearnerInviteUsecase } from '@src/usecases/verification/learner/create-learner-invite.usecase';
+import { InviteLearnerHandler } from '@src/usecases/verification/learner/invite-learner.handler';
+import { MagicLinkLoginHandler } from '@src/usecases/verification/magic-link/magic-link-login.handler';
+import { MagicLinkLoginUsecase } from '@src/usecases/verification/magic-link/magic-link-login.usecase';
+import { RequestMagicLinkUsecase } from '@src/usecases/verification/magic-link/request-magic-link.usecase';
 import { InviteManagerHandler } from '@src/usecases/verification/manager/invite-manager.handler';
 import { ResetPasswordHandler } from '@src/usecases/verification/password/reset-password.handler';
 import { ResetPasswordUsecase } from '@src/usecases/verification/password/reset-password.usecase';
+import { BindPhoneUsecase } from '@src/usecases/verification/sms/bind-phone.usecase';
+import { RequestSmsCodeUsecase } from '@src/usecases/verification/sms/request-sms-code.usecase';
+import { VerifySmsHandler } from '@src/usecases/verification/sms/verify-sms.handler';
+import { VerifySmsUsecase } from '@src/usecases/verification/sms/verify-sms.usecase';
+import { BindWeappHandler } from '@src/usecases/verification/third-party/bind-weapp.handler';
+import { BindWeappUsecase } from '@src/usecases/verification/third-party/bind-weapp.usecase';
+import { ConfirmWeappBindUsecase } from '@src/usecases/verification/third-party/confirm-weapp-bind.usecase';
+import { GetWeappBindStatusUsecase } from '@src/usecases/verification/third-party/get-weapp-bind-status.usecase';
+import { RequestWeappBindUsecase } from '@src/usecases/verification/third-party/request-weapp-bind.usecase';
 
 @Module({
   imports: [
     VerificationRecordModule,
     AccountInstallerModule,
+    AuthModule,
     PasswordModule,
     CoachServiceModule,
     ManagerServiceModule,
+    CustomerServiceModule,
+    LearnerServiceModule,
+    VerificationRecordUsecasesModule,
+    EmailQueueUsecasesModule,
+    SmsQueueUsecasesModule,
+    InviteQueueUsecasesModule,
+    AsyncTaskRecordModule,
+    NotificationModule,
+    ThirdPartyAccountsUsecasesModule,
+    ThirdPartyAuthModule,
   ],
   providers: [
     ConsumeVerificationFlowUsecase,
@@ -29,7 +76,48 @@ import { ResetPasswordUsecase } from '@src/usecases/verification/password/reset-
     AcceptInviteCoachUsecase,
     InviteManagerHandler,
     AcceptInviteManagerUsecase,
+    InviteLearnerHandler,
+    AcceptInviteLearnerUsecase,
+    CreateLearnerInviteUsecase,
+    ListIssuedVerificationRecordsUsecase,
+    ResendInviteUsecase,
+    RevokeIssuedInvitesUsecase,
+    GetInviteAcceptanceStatsUsecase,
+    CreateCoachInvitesBatchUsecase,
+    BulkInviteCoachesUsecase,
+    GetBulkInviteCoachesReportUsecase,
+    VerifyEmailUsecase,
+    VerifyEmailHandler,
+    SendVerificationEmailUsecase,
+    VerifySmsUsecase,
+    VerifySmsHandler,
+    RequestSmsCodeUsecase,
+    BindPhoneUsecase,
+    MagicLinkLoginUsecase,
+    MagicLinkLoginHandler,
+    RequestMagicLinkUsecase,
+    BindWeappUsecase,
+    BindWeappHandler,
+    RequestWeappBindUsecase,
+    ConfirmWeappBindUsecase,
+    GetWeappBindStatusUsecase,
+  ],
+  exports: [
+    ConsumeVerificationFlowUsecase,
+    SendVerificationEmailUsecase,
+    RequestSmsCodeUsecase,
+    BindPhoneUsecase,
+    RequestMagicLinkUsecase,
+    CreateLearnerInviteUsecase,
+    ListIssuedVerificationRecordsUsecase,
+    ResendInviteUsecase,
+    RevokeIssuedInvitesUsecase,
+    GetInviteAcceptanceStatsUsecase,
+    BulkInviteCoachesUsecase,
+    GetBulkInviteCoachesReportUsecase,
+    RequestWeappBindUsecase,
+    ConfirmWeappBindUsecase,
+    GetWeappBindStatusUsecase,
   ],
-  exports: [ConsumeVerificationFlowUsecase],
 })
 export class VerificationUsecasesModule {}
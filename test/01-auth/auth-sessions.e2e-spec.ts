@@ -0,0 +1,236 @@
+// test/01-auth/auth-sessions.e2e-spec.ts
+import { AudienceTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { AuthSessionEntity } from '@src/modules/auth/entities/auth-session.entity';
+import { RefreshTokenFamilyEntity } from '@src/modules/auth/entities/refresh-token-family.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { login, postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type SessionItem = {
+  id: number;
+  accountId: number;
+  audience: AudienceTypeEnum | null;
+  userAgent: string | null;
+  status: string;
+  isCurrent: boolean;
+};
+
+/**
+ * 登录会话登记、查询与远程下线 E2E 测试
+ */
+describe('Auth Sessions (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { admin, guest, manager } = testAccountsConfig;
+
+  const sessionFields = 'id accountId audience userAgent status isCurrent';
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(AuthSessionEntity).clear();
+    await dataSource.getRepository(RefreshTokenFamilyEntity).clear();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({
+      dataSource,
+      createAccountUsecase,
+      includeKeys: ['guest', 'manager', 'admin'],
+    });
+  });
+
+  const loginAsGuest = async (userAgent: string): Promise<string> => {
+    const res = await request(app.getHttpServer())
+      .post('/graphql')
+      .set('User-Agent', userAgent)
+      .send({
+        query: `
+          mutation Login($input: AuthLoginInput!) {
+            login(input: $input) { accessToken }
+          }
+        `,
+        variables: {
+          input: {
+            loginName: guest.loginName,
+            loginPassword: guest.loginPassword,
+            type: LoginTypeEnum.PASSWORD,
+            audience: AudienceTypeEnum.DESKTOP,
+          },
+        },
+      })
+      .expect(200);
+    const token = (res.body as { data?: { login?: { accessToken?: string } } }).data?.login
+      ?.accessToken;
+    if (!token) throw new Error('登录失败：未获取到 accessToken');
+    return token;
+  };
+
+  const mySessions = async (token: string): Promise<SessionItem[]> => {
+    const res = await postGql({
+      app,
+      query: `query { mySessions { ${sessionFields} } }`,
+      token,
+    }).expect(200);
+    const body = res.body as { data?: { mySessions?: SessionItem[] }; errors?: GqlError[] };
+    expect(body.errors).toBeUndefined();
+    return body.data?.mySessions ?? [];
+  };
+
+  const revokeSession = async (token: string, id: number): Promise<GqlError[] | undefined> => {
+    const res = await postGql({
+      app,
+      query: 'mutation RevokeSession($id: Int!) { revokeSession(id: $id) }',
+      variables: { id },
+      token,
+    }).expect(200);
+    return (res.body as { errors?: GqlError[] }).errors;
+  };
+
+  it('登录时登记会话，mySessions 返回设备信息并标记当前会话', async () => {
+    const phoneToken = await loginAsGuest('e2e-phone');
+    const laptopToken = await loginAsGuest('e2e-laptop');
+
+    const sessions = await mySessions(laptopToken);
+    expect(sessions).toHaveLength(2);
+    expect(sessions.map((s) => s.userAgent).sort()).toEqual(['e2e-laptop', 'e2e-phone']);
+    expect(sessions.every((s) => s.status === 'ACTIVE')).toBe(true);
+    expect(sessions.every((s) => s.audience === AudienceTypeEnum.DESKTOP)).toBe(true);
+
+    const current = sessions.filter((s) => s.isCurrent);
+    expect(current).toHaveLength(1);
+    expect(current[0].userAgent).toBe('e2e-laptop');
+
+    const fromPhone = await mySessions(phoneToken);
+    expect(fromPhone.find((s) => s.isCurrent)?.userAgent).toBe('e2e-phone');
+  });
+
+  it('revokeSession 远程下线后该会话的 access token 立即失效', async () => {
+    const phoneToken = await loginAsGuest('e2e-phone');
+    const laptopToken = await loginAsGuest('e2e-laptop');
+
+    const phoneSession = (await mySessions(laptopToken)).find((s) => s.userAgent === 'e2e-phone');
+    expect(phoneSession).toBeDefined();
+
+    expect(await revokeSession(laptopToken, phoneSession!.id)).toBeUndefined();
+
+    const res = await postGql({
+      app,
+      query: `query { mySessions { ${sessionFields} } }`,
+      token: phoneToken,
+    }).expect(200);
+    const body = res.body as { errors?: GqlError[] };
+    expect(body.errors?.[0]?.extensions?.errorCode).toBe('JWT_TOKEN_REVOKED');
+
+    const remaining = await mySessions(laptopToken);
+    expect(remaining).toHaveLength(1);
+    expect(remaining[0].isCurrent).toBe(true);
+  });
+
+  it('不能下线他人的会话', async () => {
+    await loginAsGuest('e2e-phone');
+    const managerToken = await login({
+      app,
+      loginName: manager.loginName,
+      loginPassword: manager.loginPassword,
+    });
+
+    const guestSession = await dataSource
+      .getRepository(AuthSessionEntity)
+      .findOneOrFail({ where: { userAgent: 'e2e-phone' } });
+
+    const errors = await revokeSession(managerToken, guestSession.id);
+    expect(errors?.[0]?.extensions?.errorCode).toBe('AUTH_SESSION_NOT_FOUND');
+  });
+
+  it('管理端可按账户查看会话（含已下线）', async () => {
+    const phoneToken = await loginAsGuest('e2e-phone');
+    const laptopToken = await loginAsGuest('e2e-laptop');
+    const phoneSession = (await mySessions(phoneToken)).find((s) => s.isCurrent)!;
+    await revokeSession(laptopToken, phoneSession.id);
+
+    const adminToken = await login({
+      app,
+      loginName: admin.loginName,
+      loginPassword: admin.loginPassword,
+    });
+    const query = `
+      query AccountSessions($accountId: Int!, $includeRevoked: Boolean) {
+        accountSessions(accountId: $accountId, includeRevoked: $includeRevoked) { ${sessionFields} }
+      }
+    `;
+
+    const active = await postGql({
+      app,
+      query,
+      variables: { accountId: phoneSession.accountId },
+      token: adminToken,
+    }).expect(200);
+    const activeBody = active.body as { data?: { accountSessions?: SessionItem[] } };
+    expect(activeBody.data?.accountSessions).toHaveLength(1);
+
+    const all = await postGql({
+      app,
+      query,
+      variables: { accountId: phoneSession.accountId, includeRevoked: true },
+      token: adminToken,
+    }).expect(200);
+    const allBody = all.body as { data?: { accountSessions?: SessionItem[] } };
+    const statuses = allBody.data?.accountSessions?.map((s) => s.status).sort();
+    expect(statuses).toEqual(['ACTIVE', 'REVOKED']);
+  });
+
+  it('普通用户不能查看他人会话', async () => {
+    const guestToken = await loginAsGuest('e2e-phone');
+    const res = await postGql({
+      app,
+      query: `query { accountSessions(accountId: 1) { ${sessionFields} } }`,
+      token: guestToken,
+    }).expect(200);
+    const body = res.body as { errors?: GqlError[] };
+    expect(body.errors?.length).toBeGreaterThan(0);
+  });
+
+  it('Manager 不能查看账户会话（仅管理员）', async () => {
+    const guestToken = await loginAsGuest('e2e-phone');
+    const guestSession = (await mySessions(guestToken)).find((s) => s.isCurrent)!;
+    const managerToken = await login({
+      app,
+      loginName: manager.loginName,
+      loginPassword: manager.loginPassword,
+    });
+    const res = await postGql({
+      app,
+      query: `query AccountSessions($accountId: Int!) { accountSessions(accountId: $accountId) { ${sessionFields} } }`,
+      variables: { accountId: guestSession.accountId },
+      token: managerToken,
+    }).expect(200);
+    const body = res.body as { data?: unknown; errors?: GqlError[] };
+    expect(body.errors?.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,141 @@
+// test/01-auth/change-password.e2e-spec.ts
+import { AudienceTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { PasswordHistoryEntity } from '@src/modules/account/base/entities/password-history.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type Tokens = { accessToken: string; refreshToken: string; accountId: number };
+
+/**
+ * 修改密码 E2E 测试
+ */
+describe('Change Password (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { guest } = testAccountsConfig;
+  const NEW_PASSWORD = 'NewGuest#2025x';
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(PasswordHistoryEntity).clear();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest'] });
+  });
+
+  const login = async (loginPassword: string): Promise<GqlBody<{ login: Tokens }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken refreshToken accountId }
+        }
+      `,
+      variables: {
+        input: {
+          loginName: guest.loginName,
+          loginPassword,
+          type: LoginTypeEnum.PASSWORD,
+          audience: AudienceTypeEnum.DESKTOP,
+        },
+      },
+    }).expect(200);
+    return res.body as GqlBody<{ login: Tokens }>;
+  };
+
+  const changePassword = async (
+    token: string,
+    oldPassword: string,
+    newPassword: string,
+  ): Promise<GqlBody<{ changePassword: boolean }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation ChangePassword($input: ChangePasswordInput!) {
+          changePassword(input: $input)
+        }
+      `,
+      variables: { input: { oldPassword, newPassword } },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ changePassword: boolean }>;
+  };
+
+  it('原密码错误时拒绝修改', async () => {
+    const { data } = await login(guest.loginPassword);
+    const result = await changePassword(data!.login.accessToken, 'wrongPass@2024', NEW_PASSWORD);
+    expect(result.errors?.[0]?.extensions?.errorCode).toBe('INVALID_PASSWORD');
+  });
+
+  it('新密码与当前密码相同时拒绝修改', async () => {
+    const { data } = await login(guest.loginPassword);
+    const result = await changePassword(
+      data!.login.accessToken,
+      guest.loginPassword,
+      guest.loginPassword,
+    );
+    expect(result.errors?.[0]?.extensions?.errorCode).toBe('PASSWORD_REUSED');
+  });
+
+  it('修改成功后全部会话失效，新密码可登录且旧密码不可再复用', async () => {
+    const { data } = await login(guest.loginPassword);
+    const tokens = data!.login;
+
+    const result = await changePassword(tokens.accessToken, guest.loginPassword, NEW_PASSWORD);
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.changePassword).toBe(true);
+
+    const account = await dataSource
+      .getRepository(AccountEntity)
+      .findOneByOrFail({ id: tokens.accountId });
+    expect(account.tokenVersion).toBe(2);
+
+    // 原 access token 已失效
+    const stale = await changePassword(tokens.accessToken, NEW_PASSWORD, 'Another#2025x');
+    expect(stale.errors?.[0]?.extensions?.errorCode).toBe('JWT_TOKEN_REVOKED');
+
+    expect((await login(guest.loginPassword)).errors?.[0]?.extensions?.errorCode).toBe(
+      'INVALID_PASSWORD',
+    );
+    const relogin = await login(NEW_PASSWORD);
+    expect(relogin.errors).toBeUndefined();
+
+    // 改回旧密码命中历史
+    const reuse = await changePassword(
+      relogin.data!.login.accessToken,
+      NEW_PASSWORD,
+      guest.loginPassword,
+    );
+    expect(reuse.errors?.[0]?.extensions?.errorCode).toBe('PASSWORD_REUSED');
+    expect(await dataSource.getRepository(PasswordHistoryEntity).count()).toBe(1);
+  });
+});
@@ -0,0 +1,260 @@
+// test/01-auth/impersonation.e2e-spec.ts
+import { ImpersonationAuditAction } from '@app-types/auth/impersonation.types';
+import { AudienceTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { ImpersonationAuditEntity } from '@src/modules/auth/entities/impersonation-audit.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type Impersonation = {
+  accessToken: string;
+  accountId: number;
+  impersonatorId: number;
+  expiresAt: string;
+};
+
+/**
+ * 代登录 E2E 测试
+ */
+describe('Impersonation (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { admin, customer } = testAccountsConfig;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(ImpersonationAuditEntity).clear();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({
+      dataSource,
+      createAccountUsecase,
+      includeKeys: ['admin', 'customer'],
+    });
+  });
+
+  const login = async (loginName: string, loginPassword: string): Promise<string> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken }
+        }
+      `,
+      variables: {
+        input: {
+          loginName,
+          loginPassword,
+          type: LoginTypeEnum.PASSWORD,
+          audience: AudienceTypeEnum.DESKTOP,
+        },
+      },
+    }).expect(200);
+    return (res.body as GqlBody<{ login: { accessToken: string } }>).data!.login.accessToken;
+  };
+
+  const accountIdOf = async (loginName: string): Promise<number> =>
+    (await dataSource.getRepository(AccountEntity).findOneByOrFail({ loginName })).id;
+
+  const impersonate = async (
+    token: string,
+    accountId: number,
+    reason = '复现工单 #1024 的页面异常',
+  ): Promise<GqlBody<{ impersonateAccount: Impersonation }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Impersonate($input: ImpersonateAccountInput!) {
+          impersonateAccount(input: $input) { accessToken accountId impersonatorId expiresAt }
+        }
+      `,
+      variables: { input: { accountId, reason } },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ impersonateAccount: Impersonation }>;
+  };
+
+  const changePassword = async (token: string): Promise<GqlBody<{ changePassword: boolean }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation ChangePassword($input: ChangePasswordInput!) {
+          changePassword(input: $input)
+        }
+      `,
+      variables: {
+        input: { oldPassword: customer.loginPassword, newPassword: 'Another#2025x' },
+      },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ changePassword: boolean }>;
+  };
+
+  const stopImpersonation = async (
+    token: string,
+  ): Promise<GqlBody<{ stopImpersonation: boolean }>> => {
+    const res = await postGql({
+      app,
+      query: `mutation { stopImpersonation }`,
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ stopImpersonation: boolean }>;
+  };
+
+  const mySessionIds = async (
+    token: string,
+  ): Promise<GqlBody<{ mySessions: { id: number }[] }>> => {
+    const res = await postGql({ app, query: `query { mySessions { id } }`, token }).expect(200);
+    return res.body as GqlBody<{ mySessions: { id: number }[] }>;
+  };
+
+  /** 本人登录一次，再由管理员代登录同一账户 */
+  const startImpersonationOfCustomer = async (): Promise<{
+    customerToken: string;
+    impersonationToken: string;
+  }> => {
+    const customerToken = await login(customer.loginName, customer.loginPassword);
+    const adminToken = await login(admin.loginName, admin.loginPassword);
+    const started = await impersonate(adminToken, await accountIdOf(customer.loginName));
+    expect(started.errors).toBeUndefined();
+    return { customerToken, impersonationToken: started.data!.impersonateAccount.accessToken };
+  };
+
+  it('非管理员无法发起代登录', async () => {
+    const customerToken = await login(customer.loginName, customer.loginPassword);
+    const adminId = await accountIdOf(admin.loginName);
+    const result = await impersonate(customerToken, adminId);
+    expect(result.errors?.[0]?.extensions?.errorCode).toBe('INSUFFICIENT_PERMISSIONS');
+  });
+
+  it('不能代登录管理员账户', async () => {
+    const adminToken = await login(admin.loginName, admin.loginPassword);
+    const adminId = await accountIdOf(admin.loginName);
+    const result = await impersonate(adminToken, adminId);
+    expect(result.errors?.[0]?.extensions?.errorCode).toBe('AUTH_IMPERSONATION_TARGET_INVALID');
+  });
+
+  it('代登录原因为空白时返回输入校验错误', async () => {
+    const adminToken = await login(admin.loginName, admin.loginPassword);
+    const customerId = await accountIdOf(customer.loginName);
+    const result = await impersonate(adminToken, customerId, '   ');
+    expect(result.errors?.[0]?.extensions?.errorCode).toBe('INPUT_NORMALIZE_REQUIRED_TEXT_EMPTY');
+  });
+
+  it('代登录签发短期令牌，期间禁止敏感操作，结束后令牌失效并留存审计', async () => {
+    const adminToken = await login(admin.loginName, admin.loginPassword);
+    const adminId = await accountIdOf(admin.loginName);
+    const customerId = await accountIdOf(customer.loginName);
+
+    const started = await impersonate(adminToken, customerId);
+    expect(started.errors).toBeUndefined();
+    const session = started.data!.impersonateAccount;
+    expect(session.accountId).toBe(customerId);
+    expect(session.impersonatorId).toBe(adminId);
+    expect(new Date(session.expiresAt).getTime()).toBeLessThanOrEqual(
+      Date.now() + 15 * 60 * 1000 + 5000,
+    );
+
+    // 代登录不建立会话记录，目标账户的会话列表中不可见
+    const sessions = await mySessionIds(session.accessToken);
+    expect(sessions.errors).toBeUndefined();
+    expect(sessions.data?.mySessions).toEqual([]);
+
+    // 敏感操作被拦截
+    const blocked = await changePassword(session.accessToken);
+    expect(blocked.errors?.[0]?.extensions?.errorCode).toBe('AUTH_IMPERSONATION_FORBIDDEN');
+
+    // 代登录令牌不能再次发起代登录
+    const nested = await impersonate(session.accessToken, customerId);
+    expect(nested.errors?.[0]?.extensions?.errorCode).toBe('AUTH_IMPERSONATION_FORBIDDEN');
+
+    // 普通令牌不能结束代登录
+    expect((await stopImpersonation(adminToken)).errors?.[0]?.extensions?.errorCode).toBe(
+      'AUTH_NOT_IMPERSONATING',
+    );
+
+    const stopped = await stopImpersonation(session.accessToken);
+    expect(stopped.errors).toBeUndefined();
+    expect(stopped.data?.stopImpersonation).toBe(true);
+    expect((await changePassword(session.accessToken)).errors?.[0]?.extensions?.errorCode).toBe(
+      'JWT_TOKEN_REVOKED',
+    );
+
+    const audits = await dataSource
+      .getRepository(ImpersonationAuditEntity)
+      .find({ order: { id: 'ASC' } });
+    expect(audits.map((item) => item.action)).toEqual([
+      ImpersonationAuditAction.START,
+      ImpersonationAuditAction.STOP,
+    ]);
+    expect(audits[0]).toMatchObject({
+      impersonatorId: adminId,
+      targetAccountId: customerId,
+      reason: '复现工单 #1024 的页面异常',
+    });
+    expect(audits[1].familyId).toBe(audits[0].familyId);
+  });
+
+  it('代登录令牌不能远程下线本人会话', async () => {
+    const { customerToken, impersonationToken } = await startImpersonationOfCustomer();
+    const sessions = await mySessionIds(customerToken);
+    expect(sessions.errors).toBeUndefined();
+    const sessionId = sessions.data!.mySessions[0].id;
+
+    const res = await postGql({
+      app,
+      query: 'mutation RevokeSession($id: Int!) { revokeSession(id: $id) }',
+      variables: { id: sessionId },
+      token: impersonationToken,
+    }).expect(200);
+    const body = res.body as GqlBody<{ revokeSession: boolean }>;
+    expect(body.errors?.[0]?.extensions?.errorCode).toBe('AUTH_IMPERSONATION_FORBIDDEN');
+
+    // 本人会话保持有效
+    expect((await mySessionIds(customerToken)).errors).toBeUndefined();
+  });
+
+  it('代登录令牌不能登出全部设备', async () => {
+    const { customerToken, impersonationToken } = await startImpersonationOfCustomer();
+
+    const res = await postGql({
+      app,
+      query: `mutation { logoutAllDevices }`,
+      token: impersonationToken,
+    }).expect(200);
+    const body = res.body as GqlBody<{ logoutAllDevices: boolean }>;
+    expect(body.errors?.[0]?.extensions?.errorCode).toBe('AUTH_IMPERSONATION_FORBIDDEN');
+
+    // 本人令牌与代登录令牌均未被吊销
+    expect((await mySessionIds(customerToken)).errors).toBeUndefined();
+    expect((await mySessionIds(impersonationToken)).errors).toBeUndefined();
+  });
+});
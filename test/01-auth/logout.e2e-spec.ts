@@ -0,0 +1,165 @@
+// test/01-auth/logout.e2e-spec.ts
+import { AudienceTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { RefreshTokenFamilyEntity } from '@src/modules/auth/entities/refresh-token-family.entity';
+import { RevokedAccessTokenEntity } from '@src/modules/auth/entities/revoked-access-token.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type Tokens = { accessToken: string; refreshToken: string; accountId: number };
+
+/**
+ * 登出与服务端令牌注销 E2E 测试
+ */
+describe('Logout & Token Revocation (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { guest } = testAccountsConfig;
+
+  beforeAll(async () => {
+    process.env.JWT_ENABLE_REFRESH = 'true';
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(RefreshTokenFamilyEntity).clear();
+    await dataSource.getRepository(RevokedAccessTokenEntity).clear();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest'] });
+  });
+
+  const login = async (): Promise<Tokens> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken refreshToken accountId }
+        }
+      `,
+      variables: {
+        input: {
+          loginName: guest.loginName,
+          loginPassword: guest.loginPassword,
+          type: LoginTypeEnum.PASSWORD,
+          audience: AudienceTypeEnum.DESKTOP,
+        },
+      },
+    }).expect(200);
+    const body = res.body as { data?: { login?: Tokens } };
+    if (!body.data?.login) throw new Error('登录失败：未获取到令牌');
+    return body.data.login;
+  };
+
+  const callProtected = async (tokens: Tokens): Promise<GqlError[] | undefined> => {
+    const res = await postGql({
+      app,
+      query:
+        'query BasicUserInfo($accountId: Int!) { basicUserInfo(accountId: $accountId) { accountId } }',
+      variables: { accountId: tokens.accountId },
+      token: tokens.accessToken,
+    }).expect(200);
+    return (res.body as { errors?: GqlError[] }).errors;
+  };
+
+  const refresh = async (refreshToken: string): Promise<GqlError[] | undefined> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation RefreshAccessToken($input: RefreshAccessTokenInput!) {
+          refreshAccessToken(input: $input) { accessToken }
+        }
+      `,
+      variables: { input: { refreshToken, audience: AudienceTypeEnum.DESKTOP } },
+    }).expect(200);
+    return (res.body as { errors?: GqlError[] }).errors;
+  };
+
+  const runMutation = async (
+    name: 'logout' | 'logoutAllDevices',
+    token: string,
+  ): Promise<{ data?: Record<string, boolean>; errors?: GqlError[] }> => {
+    const res = await postGql({ app, query: `mutation { ${name} }`, token }).expect(200);
+    return res.body as { data?: Record<string, boolean>; errors?: GqlError[] };
+  };
+
+  it('logout 后当前 access token 与所属 refresh token 均失效', async () => {
+    const tokens = await login();
+    expect(await callProtected(tokens)).toBeUndefined();
+
+    const result = await runMutation('logout', tokens.accessToken);
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.logout).toBe(true);
+
+    const afterLogout = await callProtected(tokens);
+    expect(afterLogout?.[0]?.extensions?.errorCode).toBe('JWT_TOKEN_REVOKED');
+
+    const refreshErrors = await refresh(tokens.refreshToken);
+    expect(refreshErrors?.[0]?.extensions?.errorCode).toBe('REFRESH_TOKEN_REVOKED');
+  });
+
+  it('logout 仅影响当前会话，其它会话不受影响', async () => {
+    const current = await login();
+    const other = await login();
+
+    await runMutation('logout', current.accessToken);
+
+    expect(await callProtected(other)).toBeUndefined();
+    expect(await refresh(other.refreshToken)).toBeUndefined();
+  });
+
+  it('logoutAllDevices 后全部会话失效且 tokenVersion 递增', async () => {
+    const first = await login();
+    const second = await login();
+
+    const result = await runMutation('logoutAllDevices', first.accessToken);
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.logoutAllDevices).toBe(true);
+
+    for (const tokens of [first, second]) {
+      const errors = await callProtected(tokens);
+      expect(errors?.[0]?.extensions?.errorCode).toBe('JWT_TOKEN_REVOKED');
+      const refreshErrors = await refresh(tokens.refreshToken);
+      expect(refreshErrors?.[0]?.extensions?.errorCode).toBe('REFRESH_TOKEN_REVOKED');
+    }
+
+    const account = await dataSource
+      .getRepository(AccountEntity)
+      .findOneByOrFail({ id: first.accountId });
+    expect(account.tokenVersion).toBe(2);
+
+    // 重新登录后恢复正常访问
+    const fresh = await login();
+    expect(await callProtected(fresh)).toBeUndefined();
+  });
+
+  it('未登录调用 logout 应被拒绝', async () => {
+    const res = await postGql({ app, query: 'mutation { logout }' }).expect(200);
+    const body = res.body as { errors?: GqlError[] };
+    expect(body.errors?.[0]?.extensions?.errorCode).toBe('JWT_AUTHENTICATION_FAILED');
+  });
+});
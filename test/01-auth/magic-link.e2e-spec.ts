@@ -0,0 +1,147 @@
+// test/01-auth/magic-link.e2e-spec.ts
+import { AudienceTypeEnum } from '@app-types/models/account.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type Tokens = { accessToken: string; refreshToken: string; accountId: number };
+
+/**
+ * 魔法链接（邮箱免密登录）E2E 测试
+ */
+describe('Magic link login (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+  let queueEmailSpy: jest.SpyInstance;
+
+  const { guest } = testAccountsConfig;
+  const linkBaseUrl = 'https://example.com/magic-link';
+  const originalLinkBaseUrl = process.env.MAGIC_LINK_BASE_URL;
+
+  beforeAll(async () => {
+    process.env.MAGIC_LINK_BASE_URL = linkBaseUrl;
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    queueEmailSpy = jest
+      .spyOn(moduleFixture.get<QueueEmailUsecase>(QueueEmailUsecase), 'execute')
+      .mockResolvedValue({ jobId: 'magic-link-job', traceId: 'magic-link-trace' });
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    await cleanupMagicLinks();
+    process.env.MAGIC_LINK_BASE_URL = originalLinkBaseUrl;
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    queueEmailSpy.mockClear();
+    await cleanupMagicLinks();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest'] });
+  });
+
+  const cleanupMagicLinks = async (): Promise<void> => {
+    await dataSource
+      .getRepository(VerificationRecordEntity)
+      .delete({ type: VerificationRecordType.MAGIC_LINK });
+  };
+
+  const requestMagicLink = async (
+    email: string,
+  ): Promise<GqlBody<{ requestMagicLink: boolean }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation RequestMagicLink($input: RequestMagicLinkInput!) {
+          requestMagicLink(input: $input)
+        }
+      `,
+      variables: { input: { email, audience: AudienceTypeEnum.DESKTOP } },
+    }).expect(200);
+    return res.body as GqlBody<{ requestMagicLink: boolean }>;
+  };
+
+  const consumeMagicLink = async (
+    token: string,
+  ): Promise<GqlBody<{ consumeMagicLink: Tokens }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation ConsumeMagicLink($input: ConsumeMagicLinkInput!) {
+          consumeMagicLink(input: $input) { accessToken refreshToken accountId }
+        }
+      `,
+      variables: { input: { token } },
+    }).expect(200);
+    return res.body as GqlBody<{ consumeMagicLink: Tokens }>;
+  };
+
+  /** 从最近一封投递的邮件中解析登录令牌 */
+  const lastSentToken = (): string => {
+    const [input] = queueEmailSpy.mock.calls.at(-1) as [
+      { to: string; text: string; templateId: string },
+    ];
+    expect(input.to).toBe(guest.loginEmail);
+    expect(input.templateId).toBe('magic_link');
+    const match = /\?token=([^\s]+)/.exec(input.text);
+    expect(match).not.toBeNull();
+    return decodeURIComponent(match![1]);
+  };
+
+  it('未注册的邮箱同样返回成功且不投递邮件', async () => {
+    const result = await requestMagicLink('nobody@example.com');
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.requestMagicLink).toBe(true);
+    expect(queueEmailSpy).not.toHaveBeenCalled();
+  });
+
+  it('通过邮件中的链接登录，链接仅能使用一次', async () => {
+    const requested = await requestMagicLink(guest.loginEmail);
+    expect(requested.errors).toBeUndefined();
+    const token = lastSentToken();
+
+    const result = await consumeMagicLink(token);
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.consumeMagicLink.accessToken).toBeTruthy();
+    expect(result.data?.consumeMagicLink.refreshToken).toBeTruthy();
+
+    const reused = await consumeMagicLink(token);
+    expect(reused.errors).toBeDefined();
+  });
+
+  it('冷却期内重复请求静默忽略，不再投递邮件', async () => {
+    await requestMagicLink(guest.loginEmail);
+    expect(queueEmailSpy).toHaveBeenCalledTimes(1);
+
+    const again = await requestMagicLink(guest.loginEmail);
+    expect(again.errors).toBeUndefined();
+    expect(queueEmailSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('无效令牌返回验证记录不存在', async () => {
+    const result = await consumeMagicLink('not-a-real-magic-link-token');
+    expect(result.errors?.[0]?.extensions?.errorCode).toBe('VERIFICATION_RECORD_NOT_FOUND');
+  });
+});
@@ -0,0 +1,191 @@
+// test/01-auth/mfa.e2e-spec.ts
+import { AudienceTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
+import { generateTotp } from '@core/common/otp/totp.helper';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { MfaFactorEntity } from '@src/modules/auth/entities/mfa-factor.entity';
+import { MfaRecoveryCodeEntity } from '@src/modules/auth/entities/mfa-recovery-code.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = {
+  extensions?: { errorCode?: string; details?: { mfaChallengeToken?: string } };
+};
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type Tokens = { accessToken: string; refreshToken: string; accountId: number };
+
+/**
+ * TOTP 二次验证 E2E 测试
+ */
+describe('TOTP MFA (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { guest } = testAccountsConfig;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(MfaRecoveryCodeEntity).clear();
+    await dataSource.getRepository(MfaFactorEntity).clear();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest'] });
+  });
+
+  const gql = async <T>(
+    query: string,
+    variables?: Record<string, unknown>,
+    token?: string,
+  ): Promise<GqlBody<T>> => {
+    const res = await postGql({ app, query, variables, token }).expect(200);
+    return res.body as GqlBody<T>;
+  };
+
+  const login = () =>
+    gql<{ login: Tokens }>(
+      `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken refreshToken accountId }
+        }
+      `,
+      {
+        input: {
+          loginName: guest.loginName,
+          loginPassword: guest.loginPassword,
+          type: LoginTypeEnum.PASSWORD,
+          audience: AudienceTypeEnum.DESKTOP,
+        },
+      },
+    );
+
+  const verifyMfaLogin = (mfaChallengeToken: string, code: string) =>
+    gql<{ verifyMfaLogin: Tokens & { recoveryCodes: string[] | null } }>(
+      `
+        mutation VerifyMfaLogin($input: VerifyMfaLoginInput!) {
+          verifyMfaLogin(input: $input) { accessToken refreshToken accountId recoveryCodes }
+        }
+      `,
+      { input: { mfaChallengeToken, code } },
+    );
+
+  /** 登录并完成绑定，返回密钥与恢复码 */
+  const enroll = async (): Promise<{ secret: string; recoveryCodes: string[] }> => {
+    const first = await login();
+    const accessToken = first.data!.login.accessToken;
+
+    const setup = await gql<{ setupTotp: { secret: string; otpauthUri: string } }>(
+      'mutation { setupTotp { secret otpauthUri } }',
+      undefined,
+      accessToken,
+    );
+    expect(setup.errors).toBeUndefined();
+    const { secret, otpauthUri } = setup.data!.setupTotp;
+    expect(otpauthUri).toContain(`secret=${secret}`);
+
+    const confirm = await gql<{ confirmTotp: string[] }>(
+      'mutation Confirm($input: MfaCodeInput!) { confirmTotp(input: $input) }',
+      { input: { code: generateTotp({ secret }) } },
+      accessToken,
+    );
+    expect(confirm.errors).toBeUndefined();
+    return { secret, recoveryCodes: confirm.data!.confirmTotp };
+  };
+
+  it('启用后密码登录返回 MFA_REQUIRED，提交下一个时间步的验证码完成登录', async () => {
+    const { secret, recoveryCodes } = await enroll();
+    expect(recoveryCodes).toHaveLength(10);
+
+    const challenged = await login();
+    const error = challenged.errors?.[0];
+    expect(error?.extensions?.errorCode).toBe('MFA_REQUIRED');
+    const challengeToken = error?.extensions?.details?.mfaChallengeToken;
+    expect(typeof challengeToken).toBe('string');
+
+    const wrong = await verifyMfaLogin(challengeToken!, '000000');
+    expect(wrong.errors?.[0]?.extensions?.errorCode).toBe('MFA_CODE_INVALID');
+
+    // 绑定时已使用当前时间步，此处使用下一个时间步的验证码
+    const code = generateTotp({ secret, timestampMs: Date.now() + 30_000 })!;
+    const result = await verifyMfaLogin(challengeToken!, code);
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.verifyMfaLogin.accessToken).toBeTruthy();
+    expect(result.data?.verifyMfaLogin.recoveryCodes).toBeNull();
+
+    // 同一验证码不可重放
+    const replay = await verifyMfaLogin(challengeToken!, code);
+    expect(replay.errors?.[0]?.extensions?.errorCode).toBe('MFA_CODE_INVALID');
+  });
+
+  it('恢复码可替代验证码登录且只能使用一次', async () => {
+    const { recoveryCodes } = await enroll();
+    const challengeToken = (await login()).errors?.[0]?.extensions?.details?.mfaChallengeToken;
+
+    const first = await verifyMfaLogin(challengeToken!, recoveryCodes[0].toLowerCase());
+    expect(first.errors).toBeUndefined();
+
+    const second = await verifyMfaLogin(challengeToken!, recoveryCodes[0]);
+    expect(second.errors?.[0]?.extensions?.errorCode).toBe('MFA_CODE_INVALID');
+  });
+
+  it('挑战令牌不能作为 access token 使用', async () => {
+    await enroll();
+    const challengeToken = (await login()).errors?.[0]?.extensions?.details?.mfaChallengeToken;
+
+    const status = await gql<{ myMfaStatus: { enabled: boolean } }>(
+      'query { myMfaStatus { enabled } }',
+      undefined,
+      challengeToken,
+    );
+    expect(status.errors?.[0]?.extensions?.errorCode).toBe('JWT_AUTHENTICATION_FAILED');
+  });
+
+  it('停用需要验证码，停用后登录不再要求二次验证', async () => {
+    const { recoveryCodes } = await enroll();
+    const challengeToken = (await login()).errors?.[0]?.extensions?.details?.mfaChallengeToken;
+    const session = await verifyMfaLogin(challengeToken!, recoveryCodes[0]);
+    const accessToken = session.data!.verifyMfaLogin.accessToken;
+
+    const status = await gql<{ myMfaStatus: { enabled: boolean; recoveryCodesRemaining: number } }>(
+      'query { myMfaStatus { enabled recoveryCodesRemaining } }',
+      undefined,
+      accessToken,
+    );
+    expect(status.data?.myMfaStatus).toEqual({ enabled: true, recoveryCodesRemaining: 9 });
+
+    const disable = (code: string) =>
+      gql<{ disableMfa: boolean }>(
+        'mutation Disable($input: MfaCodeInput!) { disableMfa(input: $input) }',
+        { input: { code } },
+        accessToken,
+      );
+    expect((await disable('000000')).errors?.[0]?.extensions?.errorCode).toBe('MFA_CODE_INVALID');
+    expect((await disable(recoveryCodes[1])).data?.disableMfa).toBe(true);
+
+    const plain = await login();
+    expect(plain.errors).toBeUndefined();
+    expect(plain.data?.login.accessToken).toBeTruthy();
+  });
+});
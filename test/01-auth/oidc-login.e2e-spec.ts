@@ -0,0 +1,300 @@
+// test/01-auth/oidc-login.e2e-spec.ts
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { ThirdPartyAuthEntity } from '@src/modules/account/base/entities/third-party-auth.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { createHash, generateKeyPairSync, sign } from 'crypto';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlBody<T> = { data?: T; errors?: Array<{ extensions?: { errorCode?: string } }> };
+type Authorization = { authorizationUrl: string; state: string; flowToken: string };
+type PendingGrant = { challenge: string; nonce: string | null; hd: string };
+
+const CLIENT_ID = 'oidc-e2e-client';
+const CLIENT_SECRET = 'oidc-e2e-secret';
+const REDIRECT_URI = 'http://localhost/oauth/callback';
+const GOOGLE_SUB = 'google-sub-e2e-1';
+const GITHUB_ID = 424242;
+
+/**
+ * 本地模拟 IdP
+ * - Google（OIDC）：发现文档 / JWKS / 令牌端点，id_token 以 RS256 签名
+ * - GitHub（OAuth2）：令牌端点 / 用户信息端点
+ * 授权码由测试通过 grant() 预先登记，令牌端点校验 PKCE code_verifier
+ */
+const createMockIdp = () => {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'e2e-key', alg: 'RS256', use: 'sig' };
+  const grants = new Map<string, PendingGrant>();
+  let issuer = '';
+
+  const signIdToken = (grant: PendingGrant): string => {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const input = `${encode({ alg: 'RS256', kid: 'e2e-key', typ: 'JWT' })}.${encode({
+      iss: issuer,
+      sub: GOOGLE_SUB,
+      aud: CLIENT_ID,
+      iat: now,
+      exp: now + 300,
+      nonce: grant.nonce,
+      email: `staff@${grant.hd}`,
+      email_verified: true,
+      hd: grant.hd,
+      name: 'Google Staff',
+    })}`;
+    return `${input}.${sign('sha256', Buffer.from(input), privateKey).toString('base64url')}`;
+  };
+
+  const readBody = (req: IncomingMessage) =>
+    new Promise<URLSearchParams>((resolve) => {
+      let raw = '';
+      req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+      req.on('end', () => resolve(new URLSearchParams(raw)));
+    });
+
+  const handler = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const send = (status: number, body: unknown) => {
+      res.statusCode = status;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body));
+    };
+
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        return send(200, {
+          issuer,
+          authorization_endpoint: `${issuer}/authorize`,
+          token_endpoint: `${issuer}/token`,
+          jwks_uri: `${issuer}/jwks`,
+          id_token_signing_alg_values_supported: ['RS256'],
+        });
+      case '/jwks':
+        return send(200, { keys: [jwk] });
+      case '/token':
+      case '/github/token': {
+        const form = await readBody(req);
+        const grant = grants.get(form.get('code') ?? '');
+        const verifier = form.get('code_verifier') ?? '';
+        if (
+          !grant ||
+          form.get('client_id') !== CLIENT_ID ||
+          form.get('client_secret') !== CLIENT_SECRET ||
+          createHash('sha256').update(verifier).digest('base64url') !== grant.challenge
+        ) {
+          return send(400, { error: 'invalid_grant' });
+        }
+        grants.delete(form.get('code')!);
+        return send(200, {
+          access_token: 'e2e-access-token',
+          token_type: 'Bearer',
+          ...(url.pathname === '/token' ? { id_token: signIdToken(grant) } : {}),
+        });
+      }
+      case '/github/user':
+        if (req.headers.authorization !== 'Bearer e2e-access-token') {
+          return send(401, { message: 'Bad credentials' });
+        }
+        return send(200, { id: GITHUB_ID, login: 'octo-e2e', avatar_url: null });
+      default:
+        return send(404, { error: 'not_found' });
+    }
+  };
+
+  const server: Server = createServer((req, res) => void handler(req, res));
+  return {
+    server,
+    setIssuer: (value: string) => (issuer = value),
+    /** 模拟用户在 IdP 完成授权：按授权地址登记一个授权码 */
+    grant: (authorizationUrl: string, code: string, hd = 'example.com') => {
+      const params = new URL(authorizationUrl).searchParams;
+      grants.set(code, {
+        challenge: params.get('code_challenge') ?? '',
+        nonce: params.get('nonce'),
+        hd,
+      });
+    },
+  };
+};
+
+/**
+ * OIDC / OAuth2 登录 E2E 测试（对接本地模拟 IdP）
+ */
+describe('OIDC login (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+  const idp = createMockIdp();
+  const originalEnv = { ...process.env };
+
+  const { guest } = testAccountsConfig;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => idp.server.listen(0, '127.0.0.1', resolve));
+    const { port } = idp.server.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}`;
+    idp.setIssuer(base);
+
+    Object.assign(process.env, {
+      OIDC_GOOGLE_CLIENT_ID: CLIENT_ID,
+      OIDC_GOOGLE_CLIENT_SECRET: CLIENT_SECRET,
+      OIDC_GOOGLE_REDIRECT_URI: REDIRECT_URI,
+      OIDC_GOOGLE_ISSUER: base,
+      OIDC_GOOGLE_ALLOWED_DOMAINS: 'example.com',
+      OIDC_GITHUB_CLIENT_ID: CLIENT_ID,
+      OIDC_GITHUB_CLIENT_SECRET: CLIENT_SECRET,
+      OIDC_GITHUB_REDIRECT_URI: REDIRECT_URI,
+      OIDC_GITHUB_AUTHORIZATION_ENDPOINT: `${base}/github/authorize`,
+      OIDC_GITHUB_TOKEN_ENDPOINT: `${base}/github/token`,
+      OIDC_GITHUB_USERINFO_ENDPOINT: `${base}/github/user`,
+    });
+
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+    await new Promise<void>((resolve) => idp.server.close(() => resolve()));
+    process.env = originalEnv;
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(ThirdPartyAuthEntity).clear();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest'] });
+  });
+
+  const bindGuest = async (provider: ThirdPartyProviderEnum, providerUserId: string) => {
+    const account = await dataSource
+      .getRepository(AccountEntity)
+      .findOneOrFail({ where: { loginName: guest.loginName } });
+    const repo = dataSource.getRepository(ThirdPartyAuthEntity);
+    await repo.save(
+      repo.create({
+        accountId: account.id,
+        provider,
+        providerUserId,
+        unionId: null,
+        accessToken: null,
+      }),
+    );
+    return account.id;
+  };
+
+  const begin = async (provider: string): Promise<Authorization> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Begin($input: BeginOidcLoginInput!) {
+          beginOidcLogin(input: $input) { authorizationUrl state flowToken }
+        }
+      `,
+      variables: { input: { provider, audience: AudienceTypeEnum.SSTSWEB } },
+    }).expect(200);
+    const body = res.body as GqlBody<{ beginOidcLogin: Authorization }>;
+    expect(body.errors).toBeUndefined();
+    return body.data!.beginOidcLogin;
+  };
+
+  const login = async (params: {
+    provider: string;
+    code: string;
+    state: string;
+    flowToken: string;
+  }): Promise<GqlBody<{ thirdPartyLogin: { accountId: number } }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Login($input: ThirdPartyLoginInput!) {
+          thirdPartyLogin(input: $input) { accountId accessToken }
+        }
+      `,
+      variables: {
+        input: {
+          provider: params.provider,
+          authCredential: params.code,
+          state: params.state,
+          flowToken: params.flowToken,
+          audience: AudienceTypeEnum.SSTSWEB,
+        },
+      },
+    }).expect(200);
+    return res.body as GqlBody<{ thirdPartyLogin: { accountId: number } }>;
+  };
+
+  it('授权地址应包含 state、nonce 与 S256 PKCE 参数', async () => {
+    const auth = await begin('GOOGLE');
+    const params = new URL(auth.authorizationUrl).searchParams;
+    expect(params.get('client_id')).toBe(CLIENT_ID);
+    expect(params.get('redirect_uri')).toBe(REDIRECT_URI);
+    expect(params.get('state')).toBe(auth.state);
+    expect(params.get('nonce')).toBeTruthy();
+    expect(params.get('code_challenge_method')).toBe('S256');
+    expect(params.get('scope')).toBe('openid email profile');
+  });
+
+  it('Google：id_token 校验通过后按 sub 登录已绑定账户', async () => {
+    const accountId = await bindGuest(ThirdPartyProviderEnum.GOOGLE, GOOGLE_SUB);
+    const auth = await begin('GOOGLE');
+    idp.grant(auth.authorizationUrl, 'google-code-1');
+
+    const body = await login({ provider: 'GOOGLE', code: 'google-code-1', ...auth });
+    expect(body.errors).toBeUndefined();
+    expect(body.data?.thirdPartyLogin.accountId).toBe(accountId);
+  });
+
+  it('state 与流程令牌不匹配时应拒绝', async () => {
+    await bindGuest(ThirdPartyProviderEnum.GOOGLE, GOOGLE_SUB);
+    const auth = await begin('GOOGLE');
+    idp.grant(auth.authorizationUrl, 'google-code-2');
+
+    const body = await login({
+      provider: 'GOOGLE',
+      code: 'google-code-2',
+      state: 'forged-state',
+      flowToken: auth.flowToken,
+    });
+    expect(body.errors?.[0]?.extensions?.errorCode).toBe('THIRDPARTY_CREDENTIAL_INVALID');
+  });
+
+  it('不属于允许域名的 Google 账号应被拒绝', async () => {
+    await bindGuest(ThirdPartyProviderEnum.GOOGLE, GOOGLE_SUB);
+    const auth = await begin('GOOGLE');
+    idp.grant(auth.authorizationUrl, 'google-code-3', 'gmail.com');
+
+    const body = await login({ provider: 'GOOGLE', code: 'google-code-3', ...auth });
+    expect(body.errors?.[0]?.extensions?.errorCode).toBe('THIRDPARTY_IDENTITY_NOT_ALLOWED');
+  });
+
+  it('GitHub：OAuth2 用户信息中的 id 作为绑定标识', async () => {
+    const accountId = await bindGuest(ThirdPartyProviderEnum.GITHUB, String(GITHUB_ID));
+    const auth = await begin('GITHUB');
+    expect(new URL(auth.authorizationUrl).searchParams.get('nonce')).toBeNull();
+    idp.grant(auth.authorizationUrl, 'github-code-1');
+
+    const body = await login({ provider: 'GITHUB', code: 'github-code-1', ...auth });
+    expect(body.errors).toBeUndefined();
+    expect(body.data?.thirdPartyLogin.accountId).toBe(accountId);
+  });
+});
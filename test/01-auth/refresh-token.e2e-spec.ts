@@ -0,0 +1,167 @@
+// test/01-auth/refresh-token.e2e-spec.ts
+import { AudienceTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
+import { RefreshTokenFamilyStatus } from '@app-types/auth/refresh-token.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { RefreshTokenFamilyEntity } from '@src/modules/auth/entities/refresh-token-family.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type RefreshResponse = {
+  data?: { refreshAccessToken?: { accessToken: string; refreshToken: string; accountId: number } };
+  errors?: GqlError[];
+};
+
+/**
+ * Refresh Token 轮换 E2E 测试
+ */
+describe('Refresh Token Rotation (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { guest } = testAccountsConfig;
+
+  const refreshMutation = `
+    mutation RefreshAccessToken($input: RefreshAccessTokenInput!) {
+      refreshAccessToken(input: $input) {
+        accessToken
+        refreshToken
+        accountId
+      }
+    }
+  `;
+
+  beforeAll(async () => {
+    process.env.JWT_ENABLE_REFRESH = 'true';
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(RefreshTokenFamilyEntity).clear();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest'] });
+  });
+
+  const loginForTokens = async (
+    audience: AudienceTypeEnum = AudienceTypeEnum.DESKTOP,
+  ): Promise<{ accessToken: string; refreshToken: string }> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken refreshToken }
+        }
+      `,
+      variables: {
+        input: {
+          loginName: guest.loginName,
+          loginPassword: guest.loginPassword,
+          type: LoginTypeEnum.PASSWORD,
+          audience,
+        },
+      },
+    }).expect(200);
+    const body = res.body as {
+      data?: { login?: { accessToken: string; refreshToken: string } };
+    };
+    if (!body.data?.login) throw new Error('登录失败：未获取到令牌');
+    return body.data.login;
+  };
+
+  const refresh = async (
+    refreshToken: string,
+    audience: AudienceTypeEnum = AudienceTypeEnum.DESKTOP,
+  ): Promise<RefreshResponse> => {
+    const res = await postGql({
+      app,
+      query: refreshMutation,
+      variables: { input: { refreshToken, audience } },
+    }).expect(200);
+    return res.body as RefreshResponse;
+  };
+
+  it('应使用 refresh token 换取新的令牌对，且可连续轮换', async () => {
+    const tokens = await loginForTokens();
+
+    const first = await refresh(tokens.refreshToken);
+    expect(first.errors).toBeUndefined();
+    const rotated = first.data?.refreshAccessToken;
+    expect(rotated?.accessToken).toBeTruthy();
+    expect(rotated?.refreshToken).toBeTruthy();
+    expect(rotated?.refreshToken).not.toBe(tokens.refreshToken);
+
+    const second = await refresh(rotated!.refreshToken);
+    expect(second.errors).toBeUndefined();
+    expect(second.data?.refreshAccessToken?.refreshToken).toBeTruthy();
+
+    // 新的 access token 可正常访问受保护接口
+    const accountId = second.data!.refreshAccessToken!.accountId;
+    const infoRes = await postGql({
+      app,
+      query:
+        'query BasicUserInfo($accountId: Int!) { basicUserInfo(accountId: $accountId) { accountId } }',
+      variables: { accountId },
+      token: second.data!.refreshAccessToken!.accessToken,
+    }).expect(200);
+    const infoBody = infoRes.body as {
+      data?: { basicUserInfo?: { accountId: number } };
+      errors?: GqlError[];
+    };
+    expect(infoBody.errors).toBeUndefined();
+    expect(infoBody.data?.basicUserInfo?.accountId).toBe(accountId);
+  });
+
+  it('旧 refresh token 被重用时应作废整个令牌家族', async () => {
+    const tokens = await loginForTokens();
+
+    const first = await refresh(tokens.refreshToken);
+    const latest = first.data!.refreshAccessToken!.refreshToken;
+
+    const reused = await refresh(tokens.refreshToken);
+    expect(reused.errors?.[0]?.extensions?.errorCode).toBe('REFRESH_TOKEN_REUSED');
+
+    // 家族已作废：最新的 refresh token 也无法继续使用
+    const afterReuse = await refresh(latest);
+    expect(afterReuse.errors?.[0]?.extensions?.errorCode).toBe('REFRESH_TOKEN_REVOKED');
+
+    const families = await dataSource.getRepository(RefreshTokenFamilyEntity).find();
+    expect(families).toHaveLength(1);
+    expect(families[0].status).toBe(RefreshTokenFamilyStatus.REVOKED);
+  });
+
+  it('应拒绝使用 access token 作为 refresh token', async () => {
+    const tokens = await loginForTokens();
+
+    const result = await refresh(tokens.accessToken);
+    expect(result.errors?.[0]?.extensions?.errorCode).toBe('INVALID_REFRESH_TOKEN');
+  });
+
+  it('应拒绝与签发时 audience 不一致的刷新请求', async () => {
+    const tokens = await loginForTokens(AudienceTypeEnum.DESKTOP);
+
+    const result = await refresh(tokens.refreshToken, AudienceTypeEnum.SSTSWEB);
+    expect(result.errors?.[0]?.extensions?.errorCode).toBe('INVALID_AUDIENCE');
+  });
+});
@@ -0,0 +1,232 @@
+// test/01-auth/sms-login.e2e-spec.ts
+import { SmsCodePurpose } from '@app-types/auth/sms-code.types';
+import { AudienceTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
+import {
+  VerificationRecordStatus,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { UserInfoEntity } from '@src/modules/account/base/entities/user-info.entity';
+import { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { QueueSmsUsecase } from '@src/usecases/sms-queue/queue-sms.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type Tokens = { accessToken: string; refreshToken: string; accountId: number };
+
+/**
+ * 短信验证码（绑定手机号 / 短信登录）E2E 测试
+ */
+describe('SMS verification code (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+  let queueSmsSpy: jest.SpyInstance;
+
+  const { guest } = testAccountsConfig;
+  const PHONE = '13900001234';
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    queueSmsSpy = jest
+      .spyOn(moduleFixture.get<QueueSmsUsecase>(QueueSmsUsecase), 'execute')
+      .mockResolvedValue({ jobId: 'sms-code-job', traceId: 'sms-code-trace' });
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    await cleanupSmsRecords();
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    queueSmsSpy.mockClear();
+    await cleanupSmsRecords();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest'] });
+  });
+
+  const cleanupSmsRecords = async (): Promise<void> => {
+    await dataSource
+      .getRepository(VerificationRecordEntity)
+      .delete({ type: VerificationRecordType.SMS_VERIFY_CODE });
+  };
+
+  const requestSmsCode = async (
+    purpose: SmsCodePurpose,
+  ): Promise<GqlBody<{ requestSmsCode: { cooldownSeconds: number } }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation RequestSmsCode($input: RequestSmsCodeInput!) {
+          requestSmsCode(input: $input) { cooldownSeconds }
+        }
+      `,
+      variables: { input: { phone: PHONE, purpose } },
+    }).expect(200);
+    return res.body as GqlBody<{ requestSmsCode: { cooldownSeconds: number } }>;
+  };
+
+  const login = async (input: {
+    loginName: string;
+    loginPassword: string;
+    type: LoginTypeEnum;
+  }): Promise<GqlBody<{ login: Tokens }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken refreshToken accountId }
+        }
+      `,
+      variables: { input: { ...input, audience: AudienceTypeEnum.DESKTOP } },
+    }).expect(200);
+    return res.body as GqlBody<{ login: Tokens }>;
+  };
+
+  const bindPhone = async (
+    token: string,
+    code: string,
+  ): Promise<GqlBody<{ bindPhone: boolean }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation BindPhone($input: BindPhoneInput!) {
+          bindPhone(input: $input)
+        }
+      `,
+      variables: { input: { phone: PHONE, code } },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ bindPhone: boolean }>;
+  };
+
+  /** 从最近一条投递的短信中读取验证码 */
+  const lastSentCode = (): string => {
+    const [input] = queueSmsSpy.mock.calls.at(-1) as [
+      { phone: string; templateId: string; params: { code: string } },
+    ];
+    expect(input.phone).toBe(PHONE);
+    expect(input.templateId).toBe('verification_code');
+    expect(input.params.code).toMatch(/^\d{6}$/);
+    return input.params.code;
+  };
+
+  /** 绑定手机号并返回账户 ID */
+  const bindGuestPhone = async (): Promise<number> => {
+    const { data } = await login({
+      loginName: guest.loginName,
+      loginPassword: guest.loginPassword,
+      type: LoginTypeEnum.PASSWORD,
+    });
+    const tokens = data!.login;
+
+    const requested = await requestSmsCode(SmsCodePurpose.BIND_PHONE);
+    expect(requested.errors).toBeUndefined();
+    expect(requested.data?.requestSmsCode.cooldownSeconds).toBeGreaterThan(0);
+
+    const bound = await bindPhone(tokens.accessToken, lastSentCode());
+    expect(bound.errors).toBeUndefined();
+    expect(bound.data?.bindPhone).toBe(true);
+    return tokens.accountId;
+  };
+
+  it('未绑定的手机号请求登录验证码同样返回成功且不投递短信', async () => {
+    const result = await requestSmsCode(SmsCodePurpose.LOGIN);
+    expect(result.errors).toBeUndefined();
+    expect(queueSmsSpy).not.toHaveBeenCalled();
+  });
+
+  it('绑定手机号后可使用短信验证码登录，验证码仅能使用一次', async () => {
+    const accountId = await bindGuestPhone();
+    const userInfo = await dataSource.getRepository(UserInfoEntity).findOneByOrFail({ accountId });
+    expect(userInfo.phone).toBe(PHONE);
+    expect(userInfo.phoneVerifiedAt).toBeInstanceOf(Date);
+
+    expect((await requestSmsCode(SmsCodePurpose.LOGIN)).errors).toBeUndefined();
+    const code = lastSentCode();
+
+    const wrongCode = code === '000000' ? '111111' : '000000';
+    const failed = await login({
+      loginName: PHONE,
+      loginPassword: wrongCode,
+      type: LoginTypeEnum.SMS,
+    });
+    expect(failed.errors?.[0]?.extensions?.errorCode).toBe(
+      'VERIFICATION_RECORD_VERIFICATION_INVALID',
+    );
+
+    const result = await login({ loginName: PHONE, loginPassword: code, type: LoginTypeEnum.SMS });
+    expect(result.errors).toBeUndefined();
+    expect(result.data?.login.accountId).toBe(accountId);
+    expect(result.data?.login.accessToken).toBeTruthy();
+
+    const reused = await login({ loginName: PHONE, loginPassword: code, type: LoginTypeEnum.SMS });
+    expect(reused.errors).toBeDefined();
+  });
+
+  it('验证码连续输错达到上限后被撤销，正确的验证码也不再可用', async () => {
+    await bindGuestPhone();
+    expect((await requestSmsCode(SmsCodePurpose.LOGIN)).errors).toBeUndefined();
+    const code = lastSentCode();
+    const wrongCode = code === '000000' ? '111111' : '000000';
+
+    for (let i = 0; i < 4; i++) {
+      const failed = await login({
+        loginName: PHONE,
+        loginPassword: wrongCode,
+        type: LoginTypeEnum.SMS,
+      });
+      expect(failed.errors?.[0]?.extensions?.errorCode).toBe(
+        'VERIFICATION_RECORD_VERIFICATION_INVALID',
+      );
+    }
+    const locked = await login({
+      loginName: PHONE,
+      loginPassword: wrongCode,
+      type: LoginTypeEnum.SMS,
+    });
+    expect(locked.errors?.[0]?.extensions?.errorCode).toBe('VERIFICATION_RECORD_TOO_MANY_ATTEMPTS');
+
+    const record = await dataSource.getRepository(VerificationRecordEntity).findOneByOrFail({
+      type: VerificationRecordType.SMS_VERIFY_CODE,
+      status: VerificationRecordStatus.REVOKED,
+    });
+    expect(record.attemptCount).toBe(5);
+
+    const afterLock = await login({
+      loginName: PHONE,
+      loginPassword: code,
+      type: LoginTypeEnum.SMS,
+    });
+    expect(afterLock.errors?.[0]?.extensions?.errorCode).toBe('VERIFICATION_RECORD_NOT_FOUND');
+  });
+
+  it('同一手机号同一用途受重发冷却限制', async () => {
+    await bindGuestPhone();
+
+    expect((await requestSmsCode(SmsCodePurpose.LOGIN)).errors).toBeUndefined();
+    const throttled = await requestSmsCode(SmsCodePurpose.LOGIN);
+    expect(throttled.errors?.[0]?.extensions?.errorCode).toBe(
+      'VERIFICATION_RECORD_RESEND_TOO_FREQUENT',
+    );
+  });
+});
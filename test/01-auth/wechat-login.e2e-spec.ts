@@ -0,0 +1,192 @@
+// test/01-auth/wechat-login.e2e-spec.ts
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { ThirdPartyAuthEntity } from '@src/modules/account/base/entities/third-party-auth.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlBody<T> = { data?: T; errors?: Array<{ extensions?: { errorCode?: string } }> };
+type ThirdPartyLoginData = { thirdPartyLogin: { accountId: number; accessToken: string } };
+
+const STUB_APP_ID = 'wx_web_e2e_app';
+const STUB_APP_SECRET = 'wx_web_e2e_secret';
+const WEAPP_OPENID = 'weapp_openid_e2e_wechat_1';
+const WECHAT_OPENID = 'wechat_openid_e2e_1';
+const UNION_ID = 'union_e2e_wechat_1';
+
+/**
+ * 本地微信网页授权桩服务
+ * code 约定：
+ * - e2e-union：snsapi_userinfo，unionid 仅出现在 userinfo 响应中
+ * - e2e-base：snsapi_base，无 unionid
+ * - 其他：返回 invalid code 错误
+ */
+const handleStubRequest = (req: IncomingMessage, res: ServerResponse): void => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const send = (body: unknown) => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify(body));
+  };
+
+  if (url.pathname === '/sns/oauth2/access_token') {
+    const code = url.searchParams.get('code');
+    if (
+      url.searchParams.get('appid') !== STUB_APP_ID ||
+      url.searchParams.get('secret') !== STUB_APP_SECRET
+    ) {
+      return send({ errcode: 40125, errmsg: 'invalid appsecret' });
+    }
+    if (code === 'e2e-union' || code === 'e2e-base') {
+      return send({
+        access_token: `token-${code}`,
+        expires_in: 7200,
+        refresh_token: 'refresh',
+        openid: code === 'e2e-union' ? WECHAT_OPENID : 'wechat_openid_e2e_base',
+        scope: code === 'e2e-union' ? 'snsapi_userinfo' : 'snsapi_base',
+      });
+    }
+    return send({ errcode: 40029, errmsg: 'invalid code' });
+  }
+
+  if (url.pathname === '/sns/userinfo') {
+    if (url.searchParams.get('access_token') !== 'token-e2e-union') {
+      return send({ errcode: 40001, errmsg: 'invalid credential' });
+    }
+    return send({
+      openid: WECHAT_OPENID,
+      nickname: 'WechatUser',
+      headimgurl: 'https://example.com/avatar.png',
+      unionid: UNION_ID,
+    });
+  }
+
+  res.statusCode = 404;
+  send({ errcode: -1, errmsg: 'not found' });
+};
+
+/**
+ * 微信网页授权登录 E2E 测试（HTTP 调用指向本地桩服务）
+ */
+describe('WeChat web login (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+  let stubServer: Server;
+  const originalEnv = { ...process.env };
+
+  const { guest } = testAccountsConfig;
+
+  beforeAll(async () => {
+    stubServer = createServer(handleStubRequest);
+    await new Promise<void>((resolve) => stubServer.listen(0, '127.0.0.1', resolve));
+    const { port } = stubServer.address() as AddressInfo;
+    process.env.WECHAT_API_BASE_URL = `http://127.0.0.1:${port}`;
+    process.env.WECHAT_WEB_APP_ID = STUB_APP_ID;
+    process.env.WECHAT_WEB_APP_SECRET = STUB_APP_SECRET;
+
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+    await new Promise<void>((resolve) => stubServer.close(() => resolve()));
+    process.env = originalEnv;
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(ThirdPartyAuthEntity).clear();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest'] });
+  });
+
+  const getGuestAccountId = async (): Promise<number> => {
+    const account = await dataSource
+      .getRepository(AccountEntity)
+      .findOneOrFail({ where: { loginName: guest.loginName } });
+    return account.id;
+  };
+
+  const seedWeAppBinding = async (accountId: number): Promise<void> => {
+    const repo = dataSource.getRepository(ThirdPartyAuthEntity);
+    await repo.save(
+      repo.create({
+        accountId,
+        provider: ThirdPartyProviderEnum.WEAPP,
+        providerUserId: WEAPP_OPENID,
+        unionId: UNION_ID,
+        accessToken: null,
+      }),
+    );
+  };
+
+  const wechatLogin = async (code: string): Promise<GqlBody<ThirdPartyLoginData>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation ThirdPartyLogin($input: ThirdPartyLoginInput!) {
+          thirdPartyLogin(input: $input) { accountId accessToken }
+        }
+      `,
+      variables: {
+        input: { provider: 'WECHAT', authCredential: code, audience: AudienceTypeEnum.SSTSWEB },
+      },
+    }).expect(200);
+    return res.body as GqlBody<ThirdPartyLoginData>;
+  };
+
+  it('小程序用户首次网页授权登录应按 unionid 归入同一账户并补建绑定', async () => {
+    const accountId = await getGuestAccountId();
+    await seedWeAppBinding(accountId);
+
+    const first = await wechatLogin('e2e-union');
+    expect(first.errors).toBeUndefined();
+    expect(first.data?.thirdPartyLogin.accountId).toBe(accountId);
+    expect(typeof first.data?.thirdPartyLogin.accessToken).toBe('string');
+
+    const binding = await dataSource.getRepository(ThirdPartyAuthEntity).findOne({
+      where: { accountId, provider: ThirdPartyProviderEnum.WECHAT },
+    });
+    expect(binding?.providerUserId).toBe(WECHAT_OPENID);
+    expect(binding?.unionId).toBe(UNION_ID);
+
+    // 再次登录直接命中 openid 绑定
+    const second = await wechatLogin('e2e-union');
+    expect(second.data?.thirdPartyLogin.accountId).toBe(accountId);
+  });
+
+  it('无 unionid 且未绑定时应返回未绑定错误', async () => {
+    const body = await wechatLogin('e2e-base');
+    expect(body.errors?.[0]?.extensions?.errorCode).toBe('THIRDPARTY_ACCOUNT_NOT_BOUND');
+  });
+
+  it('无法关联到任何账户时不应自动建立绑定', async () => {
+    const body = await wechatLogin('e2e-union');
+    expect(body.errors?.[0]?.extensions?.errorCode).toBe('THIRDPARTY_ACCOUNT_NOT_BOUND');
+    expect(await dataSource.getRepository(ThirdPartyAuthEntity).count()).toBe(0);
+  });
+
+  it('微信返回错误时应视为凭证无效', async () => {
+    const body = await wechatLogin('e2e-invalid');
+    expect(body.errors?.[0]?.extensions?.errorCode).toBe('THIRDPARTY_CREDENTIAL_INVALID');
+  });
+});
@@ -0,0 +1,211 @@
+// test/02-register/email-verification.e2e-spec.ts
+import { AccountStatus } from '@app-types/models/account.types';
+import {
+  VerificationRecordStatus,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { UserInfoEntity } from '@src/modules/account/base/entities/user-info.entity';
+import { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { useContainer } from 'class-validator';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type VerifyEmailResult = { success: boolean; message?: string; accountId?: number };
+
+/**
+ * 邮箱验证 E2E 测试（开启 EMAIL_VERIFICATION_REQUIRED）
+ */
+describe('Email verification (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let queueEmailSpy: jest.SpyInstance;
+
+  const registrant = {
+    loginName: 'emailverify',
+    loginEmail: 'emailverify@example.com',
+    loginPassword: 'VerifyPass123!',
+    nickname: '邮箱验证用户',
+  };
+  const linkBaseUrl = 'https://example.com/verify-email';
+  const originalEnv = {
+    required: process.env.EMAIL_VERIFICATION_REQUIRED,
+    linkBaseUrl: process.env.EMAIL_VERIFICATION_LINK_BASE_URL,
+  };
+
+  beforeAll(async () => {
+    process.env.EMAIL_VERIFICATION_REQUIRED = 'true';
+    process.env.EMAIL_VERIFICATION_LINK_BASE_URL = linkBaseUrl;
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    useContainer(app.select(ApiModule), { fallbackOnErrors: true });
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    queueEmailSpy = jest
+      .spyOn(moduleFixture.get<QueueEmailUsecase>(QueueEmailUsecase), 'execute')
+      .mockResolvedValue({ jobId: 'email-verify-job', traceId: 'email-verify-trace' });
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    await cleanup();
+    process.env.EMAIL_VERIFICATION_REQUIRED = originalEnv.required;
+    process.env.EMAIL_VERIFICATION_LINK_BASE_URL = originalEnv.linkBaseUrl;
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    queueEmailSpy.mockClear();
+    await cleanup();
+  });
+
+  const cleanup = async (): Promise<void> => {
+    const account = await dataSource
+      .getRepository(AccountEntity)
+      .findOne({ where: { loginEmail: registrant.loginEmail } });
+    if (!account) {
+      return;
+    }
+    await dataSource
+      .getRepository(VerificationRecordEntity)
+      .delete({ targetAccountId: account.id });
+    await dataSource.getRepository(UserInfoEntity).delete({ accountId: account.id });
+    await dataSource.getRepository(AccountEntity).delete({ id: account.id });
+  };
+
+  const register = async (): Promise<number> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Register($input: RegisterInput!) {
+          register(input: $input) { success message accountId }
+        }
+      `,
+      variables: { input: registrant },
+    }).expect(200);
+    const body = res.body as GqlBody<{
+      register: { success: boolean; message: string; accountId: number };
+    }>;
+    expect(body.data?.register.success).toBe(true);
+    expect(body.data?.register.message).toBe('注册成功，请前往邮箱完成验证');
+    return body.data!.register.accountId;
+  };
+
+  const verifyEmail = async (token: string): Promise<VerifyEmailResult> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation VerifyEmail($input: VerifyEmailInput!) {
+          verifyEmail(input: $input) { success message accountId }
+        }
+      `,
+      variables: { input: { token } },
+    }).expect(200);
+    return (res.body as GqlBody<{ verifyEmail: VerifyEmailResult }>).data!.verifyEmail;
+  };
+
+  const resend = async (email: string): Promise<GqlBody<{ resendVerificationEmail: boolean }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Resend($input: ResendVerificationEmailInput!) {
+          resendVerificationEmail(input: $input)
+        }
+      `,
+      variables: { input: { email } },
+    }).expect(200);
+    return res.body as GqlBody<{ resendVerificationEmail: boolean }>;
+  };
+
+  /** 从最近一封验证邮件中解析 token */
+  const lastMailedToken = (): string => {
+    const [input] = queueEmailSpy.mock.calls.at(-1) as [{ to: string; text: string }];
+    expect(input.to).toBe(registrant.loginEmail);
+    const link = input.text.split('\n').find((line) => line.includes(linkBaseUrl));
+    const token = new URL(link!.slice(link!.indexOf(linkBaseUrl))).searchParams.get('token');
+    expect(token).toBeTruthy();
+    return token!;
+  };
+
+  it('注册后账户保持 PENDING，验证邮箱后激活并记录验证时间', async () => {
+    const accountId = await register();
+    expect(queueEmailSpy).toHaveBeenCalledTimes(1);
+
+    const pending = await dataSource
+      .getRepository(AccountEntity)
+      .findOneByOrFail({ id: accountId });
+    expect(pending.status).toBe(AccountStatus.PENDING);
+
+    const token = lastMailedToken();
+    const result = await verifyEmail(token);
+    expect(result).toMatchObject({ success: true, accountId });
+
+    const active = await dataSource.getRepository(AccountEntity).findOneByOrFail({ id: accountId });
+    expect(active.status).toBe(AccountStatus.ACTIVE);
+    const userInfo = await dataSource.getRepository(UserInfoEntity).findOneByOrFail({ accountId });
+    expect(userInfo.emailVerifiedAt).toBeInstanceOf(Date);
+
+    // 同一链接不可重复使用
+    expect((await verifyEmail(token)).success).toBe(false);
+
+    // 已验证的邮箱不再发送验证邮件
+    queueEmailSpy.mockClear();
+    expect((await resend(registrant.loginEmail)).data?.resendVerificationEmail).toBe(true);
+    expect(queueEmailSpy).not.toHaveBeenCalled();
+  });
+
+  it('重新发送受冷却限制，新链接签发后旧链接作废', async () => {
+    const accountId = await register();
+    const firstToken = lastMailedToken();
+
+    const throttled = await resend(registrant.loginEmail);
+    expect(throttled.errors?.[0]?.extensions?.errorCode).toBe(
+      'VERIFICATION_RECORD_RESEND_TOO_FREQUENT',
+    );
+
+    // 模拟冷却期已过
+    await dataSource
+      .getRepository(VerificationRecordEntity)
+      .update(
+        { targetAccountId: accountId, type: VerificationRecordType.EMAIL_VERIFY_LINK },
+        { createdAt: new Date(Date.now() - 10 * 60 * 1000) },
+      );
+
+    const resent = await resend(registrant.loginEmail);
+    expect(resent.errors).toBeUndefined();
+    expect(resent.data?.resendVerificationEmail).toBe(true);
+    const secondToken = lastMailedToken();
+    expect(secondToken).not.toBe(firstToken);
+
+    const records = await dataSource
+      .getRepository(VerificationRecordEntity)
+      .find({ where: { targetAccountId: accountId }, order: { id: 'ASC' } });
+    expect(records.map((record) => record.status)).toEqual([
+      VerificationRecordStatus.REVOKED,
+      VerificationRecordStatus.ACTIVE,
+    ]);
+
+    expect((await verifyEmail(firstToken)).success).toBe(false);
+    expect((await verifyEmail(secondToken)).success).toBe(true);
+  });
+
+  it('未注册的邮箱重新发送同样返回成功且不投递邮件', async () => {
+    const result = await resend('not-registered@example.com');
+    expect(result.data?.resendVerificationEmail).toBe(true);
+    expect(queueEmailSpy).not.toHaveBeenCalled();
+  });
+});
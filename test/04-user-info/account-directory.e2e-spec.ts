@@ -0,0 +1,222 @@
+// test/04-user-info/account-directory.e2e-spec.ts
+import { AccountStatus, IdentityTypeEnum } from '@app-types/models/account.types';
+import { AUTH_ERROR, JWT_ERROR } from '@core/common/errors/domain-error';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { getAccountIdByLoginName, login, postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string; code?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type AccountItem = {
+  id: number;
+  loginName: string | null;
+  status: AccountStatus;
+  nickname: string | null;
+  accessGroup: IdentityTypeEnum[];
+};
+type AccountsList = { list: AccountItem[]; total: number };
+
+/**
+ * 管理端账户目录（accounts / setAccountStatus / setAccountsStatus）E2E 测试
+ */
+describe('Account directory (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { admin, learner, guest } = testAccountsConfig;
+  let adminAccountId: number;
+  let learnerAccountId: number;
+  let guestAccountId: number;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({
+      dataSource,
+      createAccountUsecase,
+      includeKeys: ['admin', 'learner', 'guest'],
+    });
+    adminAccountId = await getAccountIdByLoginName(dataSource, admin.loginName);
+    learnerAccountId = await getAccountIdByLoginName(dataSource, learner.loginName);
+    guestAccountId = await getAccountIdByLoginName(dataSource, guest.loginName);
+  });
+
+  const loginAs = async (cfg: { loginName: string; loginPassword: string }): Promise<string> =>
+    await login({ app, loginName: cfg.loginName, loginPassword: cfg.loginPassword });
+
+  const queryAccounts = async (
+    token: string,
+    variables: Record<string, unknown>,
+  ): Promise<GqlBody<{ accounts: AccountsList }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        query Accounts(
+          $query: String
+          $status: AccountStatus
+          $accessGroup: IdentityTypeEnum
+          $limit: Int
+        ) {
+          accounts(query: $query, status: $status, accessGroup: $accessGroup, limit: $limit) {
+            list { id loginName status nickname accessGroup }
+            total
+          }
+        }
+      `,
+      variables,
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ accounts: AccountsList }>;
+  };
+
+  const setStatus = async (
+    token: string,
+    input: { accountId: number; status: AccountStatus; reason?: string },
+  ): Promise<GqlBody<{ setAccountStatus: { previousStatus: string; status: string } }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation SetAccountStatus($input: SetAccountStatusInput!) {
+          setAccountStatus(input: $input) { previousStatus status revokedSessions }
+        }
+      `,
+      variables: { input },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ setAccountStatus: { previousStatus: string; status: string } }>;
+  };
+
+  it('管理员可按关键字与访问组检索账户', async () => {
+    const token = await loginAs(admin);
+
+    const byQuery = await queryAccounts(token, { query: learner.loginName });
+    expect(byQuery.errors).toBeUndefined();
+    expect(byQuery.data!.accounts.list.map((item) => item.id)).toContain(learnerAccountId);
+
+    const byGroup = await queryAccounts(token, { accessGroup: IdentityTypeEnum.GUEST, limit: 100 });
+    expect(byGroup.errors).toBeUndefined();
+    const ids = byGroup.data!.accounts.list.map((item) => item.id);
+    expect(ids).toContain(guestAccountId);
+    expect(ids).not.toContain(learnerAccountId);
+    byGroup.data!.accounts.list.forEach((item) =>
+      expect(item.accessGroup).toContain(IdentityTypeEnum.GUEST),
+    );
+  });
+
+  it('非管理员无法查看账户目录', async () => {
+    const token = await loginAs(learner);
+    const { data, errors } = await queryAccounts(token, {});
+    expect(data?.accounts).toBeFalsy();
+    expect(errors?.length).toBeGreaterThan(0);
+  });
+
+  it('封禁后已签发令牌失效且无法登录，解封后恢复', async () => {
+    const adminToken = await loginAs(admin);
+    const learnerToken = await loginAs(learner);
+
+    const banned = await setStatus(adminToken, {
+      accountId: learnerAccountId,
+      status: AccountStatus.BANNED,
+      reason: '违规',
+    });
+    expect(banned.errors).toBeUndefined();
+    expect(banned.data?.setAccountStatus).toMatchObject({
+      previousStatus: AccountStatus.ACTIVE,
+      status: AccountStatus.BANNED,
+    });
+
+    const account = await dataSource
+      .getRepository(AccountEntity)
+      .findOneByOrFail({ id: learnerAccountId });
+    expect(account.statusReason).toBe('违规');
+    expect(account.statusChangedAt).not.toBeNull();
+
+    const stale = await queryAccounts(learnerToken, {});
+    expect(stale.errors?.[0]?.extensions?.errorCode).toBe(JWT_ERROR.TOKEN_REVOKED);
+
+    const relogin = await postGql({
+      app,
+      query: `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken }
+        }
+      `,
+      variables: {
+        input: {
+          loginName: learner.loginName,
+          loginPassword: learner.loginPassword,
+          type: 'PASSWORD',
+          audience: 'DESKTOP',
+        },
+      },
+    }).expect(200);
+    expect((relogin.body as GqlBody<unknown>).errors?.[0]?.extensions?.errorCode).toBe(
+      AUTH_ERROR.ACCOUNT_INACTIVE,
+    );
+
+    const restored = await setStatus(adminToken, {
+      accountId: learnerAccountId,
+      status: AccountStatus.ACTIVE,
+    });
+    expect(restored.errors).toBeUndefined();
+    await expect(loginAs(learner)).resolves.toEqual(expect.any(String));
+  });
+
+  it('批量变更跳过当前管理员本人与状态未变化的账户', async () => {
+    const token = await loginAs(admin);
+    const res = await postGql({
+      app,
+      query: `
+        mutation SetAccountsStatus($input: SetAccountsStatusInput!) {
+          setAccountsStatus(input: $input) { updatedIds skippedIds }
+        }
+      `,
+      variables: {
+        input: {
+          accountIds: [adminAccountId, learnerAccountId, guestAccountId],
+          status: AccountStatus.SUSPENDED,
+          reason: '批量暂停',
+        },
+      },
+      token,
+    }).expect(200);
+    const body = res.body as GqlBody<{
+      setAccountsStatus: { updatedIds: number[]; skippedIds: number[] };
+    }>;
+    expect(body.errors).toBeUndefined();
+    expect(body.data?.setAccountsStatus.updatedIds.sort()).toEqual(
+      [learnerAccountId, guestAccountId].sort(),
+    );
+    expect(body.data?.setAccountsStatus.skippedIds).toEqual([adminAccountId]);
+
+    const suspended = await queryAccounts(token, { status: AccountStatus.SUSPENDED, limit: 100 });
+    const ids = suspended.data!.accounts.list.map((item) => item.id);
+    expect(ids).toEqual(expect.arrayContaining([learnerAccountId, guestAccountId]));
+  });
+});
@@ -0,0 +1,244 @@
+// test/04-user-info/account-lifecycle.e2e-spec.ts
+import {
+  AccountDataExportStatus,
+  ERASED_ACCOUNT_NICKNAME_PREFIX,
+} from '@app-types/models/account-lifecycle.types';
+import { AccountStatus } from '@app-types/models/account.types';
+import { ACCOUNT_ERROR, AUTH_ERROR, JWT_ERROR } from '@core/common/errors/domain-error';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { UserInfoEntity } from '@src/modules/account/base/entities/user-info.entity';
+import { AccountDataExportEntity } from '@src/modules/account-data-export/account-data-export.entity';
+import { AccountDataExportService } from '@src/modules/account-data-export/account-data-export.service';
+import { AuthSessionEntity } from '@src/modules/auth/entities/auth-session.entity';
+import { MfaFactorEntity } from '@src/modules/auth/entities/mfa-factor.entity';
+import { NotificationEntity } from '@src/modules/notification/notification.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { getAccountIdByLoginName, login, postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string; code?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type AccountDeletion = {
+  accountId: number;
+  deletionRequestedAt: string | null;
+  deletionScheduledAt: string | null;
+};
+type DataExport = { id: number; status: AccountDataExportStatus };
+
+/**
+ * 账户注销与个人数据导出（requestAccountDeletion / cancelAccountDeletion / eraseAccount /
+ * exportMyData / dataExportArchive）E2E 测试
+ */
+describe('Account lifecycle (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+  let accountDataExportService: AccountDataExportService;
+
+  const { admin, customer, guest } = testAccountsConfig;
+  let customerAccountId: number;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    accountDataExportService = moduleFixture.get<AccountDataExportService>(
+      AccountDataExportService,
+      { strict: false },
+    );
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await dataSource.createQueryBuilder().delete().from(AccountDataExportEntity).execute();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({
+      dataSource,
+      createAccountUsecase,
+      includeKeys: ['admin', 'customer', 'guest'],
+    });
+    customerAccountId = await getAccountIdByLoginName(dataSource, customer.loginName);
+  });
+
+  const loginAs = async (cfg: { loginName: string; loginPassword: string }): Promise<string> =>
+    await login({ app, loginName: cfg.loginName, loginPassword: cfg.loginPassword });
+
+  const mutate = async <T>(
+    token: string,
+    query: string,
+    variables?: Record<string, unknown>,
+  ): Promise<GqlBody<T>> => {
+    const res = await postGql({ app, query, variables, token }).expect(200);
+    return res.body as GqlBody<T>;
+  };
+
+  const requestDeletion = (token: string) =>
+    mutate<{ requestAccountDeletion: AccountDeletion }>(
+      token,
+      `mutation { requestAccountDeletion { accountId deletionRequestedAt deletionScheduledAt } }`,
+    );
+
+  const exportMyData = (token: string) =>
+    mutate<{ exportMyData: DataExport }>(token, `mutation { exportMyData { id status } }`);
+
+  it('申请注销进入冷静期，重复申请被拒绝，撤销后恢复', async () => {
+    const token = await loginAs(customer);
+
+    const requested = await requestDeletion(token);
+    expect(requested.errors).toBeUndefined();
+    const scheduledAt = new Date(requested.data!.requestAccountDeletion.deletionScheduledAt!);
+    expect(scheduledAt.getTime()).toBeGreaterThan(Date.now());
+
+    const repeated = await requestDeletion(token);
+    expect(repeated.errors?.[0]?.extensions?.errorCode).toBe(ACCOUNT_ERROR.DELETION_NOT_ALLOWED);
+
+    const cancelled = await mutate<{ cancelAccountDeletion: AccountDeletion }>(
+      token,
+      `mutation { cancelAccountDeletion { accountId deletionRequestedAt deletionScheduledAt } }`,
+    );
+    expect(cancelled.errors).toBeUndefined();
+    expect(cancelled.data?.cancelAccountDeletion.deletionScheduledAt).toBeNull();
+
+    const account = await dataSource
+      .getRepository(AccountEntity)
+      .findOneByOrFail({ id: customerAccountId });
+    expect(account.status).toBe(AccountStatus.ACTIVE);
+    expect(account.deletionRequestedAt).toBeNull();
+    expect(account.deletionScheduledAt).toBeNull();
+  });
+
+  it('管理员注销账户后个人信息被匿名化、旧令牌失效且无法登录', async () => {
+    const adminToken = await loginAs(admin);
+    const customerToken = await loginAs(customer);
+
+    const erased = await mutate<{ eraseAccount: { accountId: number; revokedSessions: number } }>(
+      adminToken,
+      `mutation Erase($input: EraseAccountInput!) {
+        eraseAccount(input: $input) { accountId identities thirdPartyBindings revokedSessions }
+      }`,
+      { input: { accountId: customerAccountId, reason: '家长申请注销' } },
+    );
+    expect(erased.errors).toBeUndefined();
+    expect(erased.data?.eraseAccount.accountId).toBe(customerAccountId);
+
+    const account = await dataSource
+      .getRepository(AccountEntity)
+      .findOneByOrFail({ id: customerAccountId });
+    expect(account.status).toBe(AccountStatus.DELETED);
+    expect(account.loginName).toBeNull();
+    expect(account.loginEmail).toBeNull();
+    const userInfo = await dataSource
+      .getRepository(UserInfoEntity)
+      .findOneByOrFail({ accountId: customerAccountId });
+    expect(userInfo.nickname).toBe(`${ERASED_ACCOUNT_NICKNAME_PREFIX}#${customerAccountId}`);
+    expect(userInfo.email).toBeNull();
+    expect(userInfo.phone).toBeNull();
+    expect(userInfo.unreadCount).toBe(0);
+    const sessions = await dataSource
+      .getRepository(AuthSessionEntity)
+      .findBy({ accountId: customerAccountId });
+    expect(sessions.length).toBeGreaterThan(0);
+    expect(sessions.every((row) => row.ip === null && row.userAgent === null)).toBe(true);
+    await expect(
+      dataSource
+        .getRepository(NotificationEntity)
+        .countBy({ recipientAccountId: customerAccountId }),
+    ).resolves.toBe(0);
+    await expect(
+      dataSource.getRepository(MfaFactorEntity).countBy({ accountId: customerAccountId }),
+    ).resolves.toBe(0);
+
+    const stale = await requestDeletion(customerToken);
+    expect(stale.errors?.[0]?.extensions?.errorCode).toBe(JWT_ERROR.TOKEN_REVOKED);
+
+    const relogin = await postGql({
+      app,
+      query: `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken }
+        }
+      `,
+      variables: {
+        input: {
+          loginName: customer.loginName,
+          loginPassword: customer.loginPassword,
+          type: 'PASSWORD',
+          audience: 'DESKTOP',
+        },
+      },
+    }).expect(200);
+    expect((relogin.body as GqlBody<unknown>).errors?.[0]?.extensions?.errorCode).toBe(
+      AUTH_ERROR.ACCOUNT_NOT_FOUND,
+    );
+  });
+
+  it('非管理员无法注销他人账户', async () => {
+    const token = await loginAs(guest);
+    const { data, errors } = await mutate<{ eraseAccount: unknown }>(
+      token,
+      `mutation Erase($input: EraseAccountInput!) {
+        eraseAccount(input: $input) { accountId }
+      }`,
+      { input: { accountId: customerAccountId, reason: '测试' } },
+    );
+    expect(data?.eraseAccount).toBeFalsy();
+    expect(errors?.length).toBeGreaterThan(0);
+  });
+
+  it('申请导出个人数据受冷却限制，下载令牌仅限本人使用', async () => {
+    const token = await loginAs(customer);
+
+    const requested = await exportMyData(token);
+    expect(requested.errors).toBeUndefined();
+    expect(requested.data?.exportMyData.status).toBe(AccountDataExportStatus.PENDING);
+
+    const repeated = await exportMyData(token);
+    expect(repeated.errors?.[0]?.extensions?.errorCode).toBe(
+      ACCOUNT_ERROR.DATA_EXPORT_TOO_FREQUENT,
+    );
+
+    // 模拟 Worker 生成归档
+    const issued = await accountDataExportService.markReady({
+      id: requested.data!.exportMyData.id,
+      archive: JSON.stringify({ version: 1, account: { id: customerAccountId } }),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    });
+    expect(issued).not.toBeNull();
+
+    const query = `query Archive($token: String!) {
+      dataExportArchive(token: $token) { archive export { id status } }
+    }`;
+    const downloaded = await mutate<{
+      dataExportArchive: { archive: string; export: DataExport };
+    }>(token, query, { token: issued!.token });
+    expect(downloaded.errors).toBeUndefined();
+    expect(downloaded.data?.dataExportArchive.export.status).toBe(AccountDataExportStatus.READY);
+    expect(JSON.parse(downloaded.data!.dataExportArchive.archive)).toMatchObject({
+      account: { id: customerAccountId },
+    });
+
+    const otherToken = await loginAs(guest);
+    const denied = await mutate<{ dataExportArchive: unknown }>(otherToken, query, {
+      token: issued!.token,
+    });
+    expect(denied.errors?.[0]?.extensions?.errorCode).toBe(ACCOUNT_ERROR.DATA_EXPORT_NOT_FOUND);
+  });
+});
@@ -0,0 +1,196 @@
+// test/04-user-info/account-merge.e2e-spec.ts
+import { AccountStatus, IdentityTypeEnum } from '@app-types/models/account.types';
+import { AccountMergeConflictScope } from '@app-types/models/account-merge.types';
+import { ACCOUNT_ERROR, JWT_ERROR } from '@core/common/errors/domain-error';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { AccountEntity } from '@src/modules/account/base/entities/account.entity';
+import { UserInfoEntity } from '@src/modules/account/base/entities/user-info.entity';
+import { CoachEntity } from '@src/modules/account/identities/training/coach/account-coach.entity';
+import { CustomerEntity } from '@src/modules/account/identities/training/customer/account-customer.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { getAccountIdByLoginName, login, postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string; code?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type MergeReport = {
+  sourceAccountId: number;
+  targetAccountId: number;
+  dryRun: boolean;
+  conflicts: Array<{ scope: AccountMergeConflictScope; key: string }>;
+  identities: Array<{ identity: string; moved: number }>;
+  accessGroup: IdentityTypeEnum[];
+  revokedSessions: number;
+};
+
+const REPORT_FIELDS = `
+  sourceAccountId targetAccountId dryRun
+  conflicts { scope key reason }
+  identities { identity moved }
+  thirdPartyBindings verificationRecords asyncTaskRecords credentialsMoved
+  accessGroup identityHint revokedSessions
+`;
+
+/**
+ * 账户合并（mergeAccounts / mergeMyAccount）E2E 测试
+ */
+describe('Account merge (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { admin, customer, guest, coach, coachCustomer } = testAccountsConfig;
+  let customerAccountId: number;
+  let guestAccountId: number;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({
+      dataSource,
+      createAccountUsecase,
+      includeKeys: ['admin', 'customer', 'guest', 'coach', 'coachCustomer'],
+    });
+    customerAccountId = await getAccountIdByLoginName(dataSource, customer.loginName);
+    guestAccountId = await getAccountIdByLoginName(dataSource, guest.loginName);
+  });
+
+  const loginAs = async (cfg: { loginName: string; loginPassword: string }): Promise<string> =>
+    await login({ app, loginName: cfg.loginName, loginPassword: cfg.loginPassword });
+
+  const mergeAccounts = async (
+    token: string,
+    input: { sourceAccountId: number; targetAccountId: number; dryRun?: boolean },
+  ): Promise<GqlBody<{ mergeAccounts: MergeReport }>> => {
+    const res = await postGql({
+      app,
+      query: `mutation Merge($input: MergeAccountsInput!) { mergeAccounts(input: $input) { ${REPORT_FIELDS} } }`,
+      variables: { input },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ mergeAccounts: MergeReport }>;
+  };
+
+  it('预检不修改数据，执行后源账户注销并指向目标账户', async () => {
+    const adminToken = await loginAs(admin);
+    const input = { sourceAccountId: customerAccountId, targetAccountId: guestAccountId };
+
+    const preview = await mergeAccounts(adminToken, { ...input, dryRun: true });
+    expect(preview.errors).toBeUndefined();
+    expect(preview.data?.mergeAccounts).toMatchObject({ dryRun: true, conflicts: [] });
+    const untouched = await dataSource
+      .getRepository(AccountEntity)
+      .findOneByOrFail({ id: customerAccountId });
+    expect(untouched.status).toBe(AccountStatus.ACTIVE);
+
+    const merged = await mergeAccounts(adminToken, input);
+    expect(merged.errors).toBeUndefined();
+    expect(merged.data?.mergeAccounts.identities).toEqual(
+      expect.arrayContaining([{ identity: IdentityTypeEnum.CUSTOMER, moved: 1 }]),
+    );
+
+    const source = await dataSource
+      .getRepository(AccountEntity)
+      .findOneByOrFail({ id: customerAccountId });
+    expect(source.status).toBe(AccountStatus.DELETED);
+    expect(source.mergedIntoAccountId).toBe(guestAccountId);
+    expect(source.loginName).toBeNull();
+
+    const targetInfo = await dataSource
+      .getRepository(UserInfoEntity)
+      .findOneByOrFail({ accountId: guestAccountId });
+    expect(targetInfo.accessGroup).toContain(IdentityTypeEnum.CUSTOMER);
+    expect(targetInfo.accessGroup).not.toContain(IdentityTypeEnum.REGISTRANT);
+    expect(targetInfo.metaDigest).toEqual(targetInfo.accessGroup);
+    await expect(
+      dataSource.getRepository(CustomerEntity).findOneBy({ accountId: guestAccountId }),
+    ).resolves.not.toBeNull();
+  });
+
+  it('双方持有同一身份时预检报告冲突且拒绝执行', async () => {
+    const adminToken = await loginAs(admin);
+    const coachAccountId = await getAccountIdByLoginName(dataSource, coach.loginName);
+    const coachCustomerAccountId = await getAccountIdByLoginName(
+      dataSource,
+      coachCustomer.loginName,
+    );
+    const input = { sourceAccountId: coachAccountId, targetAccountId: coachCustomerAccountId };
+
+    const preview = await mergeAccounts(adminToken, { ...input, dryRun: true });
+    expect(preview.errors).toBeUndefined();
+    expect(preview.data?.mergeAccounts.conflicts).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          scope: AccountMergeConflictScope.IDENTITY,
+          key: IdentityTypeEnum.COACH,
+        }),
+      ]),
+    );
+
+    const rejected = await mergeAccounts(adminToken, input);
+    expect(rejected.errors?.[0]?.extensions?.errorCode).toBe(ACCOUNT_ERROR.MERGE_CONFLICT);
+    await expect(
+      dataSource.getRepository(CoachEntity).findOneBy({ accountId: coachAccountId }),
+    ).resolves.not.toBeNull();
+  });
+
+  it('本人凭源账户令牌将其并入当前账户，源账户令牌随即失效', async () => {
+    const guestToken = await loginAs(guest);
+    const customerToken = await loginAs(customer);
+
+    const res = await postGql({
+      app,
+      query: `mutation Merge($input: MergeMyAccountInput!) { mergeMyAccount(input: $input) { ${REPORT_FIELDS} } }`,
+      variables: { input: { sourceAccessToken: customerToken } },
+      token: guestToken,
+    }).expect(200);
+    const body = res.body as GqlBody<{ mergeMyAccount: MergeReport }>;
+    expect(body.errors).toBeUndefined();
+    expect(body.data?.mergeMyAccount).toMatchObject({
+      sourceAccountId: customerAccountId,
+      targetAccountId: guestAccountId,
+      dryRun: false,
+    });
+
+    const stale = await mergeAccounts(customerToken, {
+      sourceAccountId: guestAccountId,
+      targetAccountId: customerAccountId,
+      dryRun: true,
+    });
+    expect(stale.errors?.[0]?.extensions?.errorCode).toBe(JWT_ERROR.TOKEN_REVOKED);
+  });
+
+  it('非管理员无法合并他人账户', async () => {
+    const token = await loginAs(guest);
+    const { data, errors } = await mergeAccounts(token, {
+      sourceAccountId: customerAccountId,
+      targetAccountId: guestAccountId,
+      dryRun: true,
+    });
+    expect(data?.mergeAccounts).toBeFalsy();
+    expect(errors?.length).toBeGreaterThan(0);
+  });
+});
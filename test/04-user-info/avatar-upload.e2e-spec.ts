@@ -0,0 +1,229 @@
+// test/04-user-info/avatar-upload.e2e-spec.ts
+import { StoredFileStatus } from '@app-types/models/stored-file.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { UserInfoEntity } from '@src/modules/account/base/entities/user-info.entity';
+import { StoredFileEntity } from '@src/modules/stored-file/stored-file.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import sharp from 'sharp';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { getAccountIdByLoginName, login, postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type UploadTicket = { file: { id: number; status: StoredFileStatus }; uploadUrl: string };
+type UploadAvatarPayload = {
+  avatarUrl: string;
+  thumbnailUrl: string;
+  file: { id: number; status: StoredFileStatus; width: number; height: number };
+};
+
+/**
+ * 头像上传（申请上传链接 → PUT 上传 → 设为头像 → 公开读取）E2E 测试
+ */
+describe('Avatar upload (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { guest } = testAccountsConfig;
+  let guestAccountId: number;
+  let token: string;
+  let png: Buffer;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+
+    png = await sharp({
+      create: { width: 400, height: 300, channels: 3, background: { r: 30, g: 120, b: 200 } },
+    })
+      .png()
+      .toBuffer();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest'] });
+    guestAccountId = await getAccountIdByLoginName(dataSource, guest.loginName);
+    await dataSource.getRepository(StoredFileEntity).delete({ ownerAccountId: guestAccountId });
+    token = await login({ app, loginName: guest.loginName, loginPassword: guest.loginPassword });
+  });
+
+  const requestUpload = async (
+    input: { contentType: string; sizeBytes: number } = {
+      contentType: 'image/png',
+      sizeBytes: png.length,
+    },
+  ): Promise<GqlBody<{ requestAvatarUpload: UploadTicket }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation RequestAvatarUpload($input: RequestAvatarUploadInput!) {
+          requestAvatarUpload(input: $input) { file { id status } uploadUrl }
+        }
+      `,
+      variables: { input },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ requestAvatarUpload: UploadTicket }>;
+  };
+
+  const uploadAvatar = async (
+    fileId: number,
+  ): Promise<GqlBody<{ uploadAvatar: UploadAvatarPayload }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation UploadAvatar($input: UploadAvatarInput!) {
+          uploadAvatar(input: $input) {
+            avatarUrl
+            thumbnailUrl
+            file { id status width height }
+          }
+        }
+      `,
+      variables: { input: { fileId, target: 'USER_AVATAR' } },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ uploadAvatar: UploadAvatarPayload }>;
+  };
+
+  /** 上传链接在测试环境下为相对路径（未配置 STORAGE_PUBLIC_BASE_URL） */
+  const toPath = (url: string): string => {
+    const parsed = new URL(url, 'http://localhost');
+    return `${parsed.pathname}${parsed.search}`;
+  };
+
+  const put = (url: string, body: Buffer, contentType = 'image/png') =>
+    request(app.getHttpServer()).put(toPath(url)).set('Content-Type', contentType).send(body);
+
+  const uploadNewFile = async (): Promise<number> => {
+    const ticket = await requestUpload();
+    expect(ticket.errors).toBeUndefined();
+    await put(ticket.data!.requestAvatarUpload.uploadUrl, png).expect(200);
+    return ticket.data!.requestAvatarUpload.file.id;
+  };
+
+  it('上传后设为本人头像，原图与缩略图公开可读', async () => {
+    const ticket = await requestUpload();
+    expect(ticket.errors).toBeUndefined();
+    expect(ticket.data!.requestAvatarUpload.file.status).toBe(StoredFileStatus.PENDING);
+
+    await put(ticket.data!.requestAvatarUpload.uploadUrl, png).expect(200);
+
+    const result = await uploadAvatar(ticket.data!.requestAvatarUpload.file.id);
+    expect(result.errors).toBeUndefined();
+    const payload = result.data!.uploadAvatar;
+    expect(payload.file).toMatchObject({
+      status: StoredFileStatus.ATTACHED,
+      width: 400,
+      height: 300,
+    });
+
+    const userInfo = await dataSource
+      .getRepository(UserInfoEntity)
+      .findOneByOrFail({ accountId: guestAccountId });
+    expect(userInfo.avatarUrl).toBe(payload.avatarUrl);
+
+    const original = await request(app.getHttpServer()).get(toPath(payload.avatarUrl)).expect(200);
+    expect(original.headers['content-type']).toBe('image/png');
+    expect(original.headers['cache-control']).toContain('public');
+    expect(Buffer.compare(original.body as Buffer, png)).toBe(0);
+
+    const thumbnail = await request(app.getHttpServer())
+      .get(toPath(payload.thumbnailUrl))
+      .expect(200);
+    expect(thumbnail.headers['content-type']).toBe('image/webp');
+    const thumbMeta = await sharp(thumbnail.body as Buffer).metadata();
+    expect(thumbMeta.width).toBe(256);
+    expect(thumbMeta.height).toBe(256);
+  });
+
+  it('更换头像后旧文件解除引用，等待清理', async () => {
+    const firstId = await uploadNewFile();
+    expect((await uploadAvatar(firstId)).errors).toBeUndefined();
+    const secondId = await uploadNewFile();
+    expect((await uploadAvatar(secondId)).errors).toBeUndefined();
+
+    const repo = dataSource.getRepository(StoredFileEntity);
+    expect((await repo.findOneByOrFail({ id: firstId })).status).toBe(StoredFileStatus.RELEASED);
+    expect((await repo.findOneByOrFail({ id: secondId })).status).toBe(StoredFileStatus.ATTACHED);
+  });
+
+  it('签名被篡改的上传链接返回 403，文件保持 PENDING', async () => {
+    const ticket = await requestUpload();
+    const url = new URL(ticket.data!.requestAvatarUpload.uploadUrl, 'http://localhost');
+    url.searchParams.set('signature', 'tampered');
+
+    await put(url.toString(), png).expect(403);
+
+    const file = await dataSource
+      .getRepository(StoredFileEntity)
+      .findOneByOrFail({ id: ticket.data!.requestAvatarUpload.file.id });
+    expect(file.status).toBe(StoredFileStatus.PENDING);
+  });
+
+  it('内容与声明类型不符或超过申请大小时拒绝上传', async () => {
+    const ticket = await requestUpload();
+    const uploadUrl = ticket.data!.requestAvatarUpload.uploadUrl;
+
+    await put(uploadUrl, Buffer.from('not an image at all'), 'image/png').expect(415);
+    await put(uploadUrl, Buffer.concat([png, Buffer.alloc(16)])).expect(413);
+    // 拒绝后链接仍可用于正确的内容
+    await put(uploadUrl, png).expect(200);
+  });
+
+  it('不允许的类型与超限大小在申请阶段即被拒绝', async () => {
+    const badType = await requestUpload({ contentType: 'application/pdf', sizeBytes: 1024 });
+    expect(badType.errors?.[0]?.extensions?.errorCode).toBe('STORAGE_CONTENT_TYPE_NOT_ALLOWED');
+
+    const tooLarge = await requestUpload({ contentType: 'image/png', sizeBytes: 50 * 1024 * 1024 });
+    expect(tooLarge.errors?.[0]?.extensions?.errorCode).toBe('STORAGE_FILE_TOO_LARGE');
+  });
+
+  it('未设为头像的文件须通过签名下载链接读取', async () => {
+    const fileId = await uploadNewFile();
+    const fileKey = (
+      await dataSource.getRepository(StoredFileEntity).findOneByOrFail({ id: fileId })
+    ).fileKey;
+    await request(app.getHttpServer()).get(`/files/${fileKey}`).expect(403);
+
+    const res = await postGql({
+      app,
+      query: `
+        query DownloadUrl($input: StoredFileDownloadUrlInput!) {
+          storedFileDownloadUrl(input: $input) { url expiresAt }
+        }
+      `,
+      variables: { input: { fileId } },
+      token,
+    }).expect(200);
+    const body = res.body as GqlBody<{ storedFileDownloadUrl: { url: string } }>;
+    expect(body.errors).toBeUndefined();
+
+    const content = await request(app.getHttpServer())
+      .get(toPath(body.data!.storedFileDownloadUrl.url))
+      .expect(200);
+    expect(content.headers['cache-control']).toContain('no-store');
+  });
+});
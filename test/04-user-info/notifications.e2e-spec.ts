@@ -0,0 +1,187 @@
+// test/04-user-info/notifications.e2e-spec.ts
+import { NotificationCategory } from '@app-types/models/notification.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { PasswordHistoryEntity } from '@src/modules/account/base/entities/password-history.entity';
+import { UserInfoEntity } from '@src/modules/account/base/entities/user-info.entity';
+import { NotificationEntity } from '@src/modules/notification/notification.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource, In } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { getAccountIdByLoginName, login, postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type NotificationItem = {
+  id: number;
+  category: NotificationCategory;
+  title: string;
+  readAt: string | null;
+};
+type MyNotifications = {
+  items: NotificationItem[];
+  pagination: { total: number };
+  unreadCount: number;
+};
+type MarkResult = { markedCount: number; unreadCount: number };
+
+/**
+ * 站内通知中心（myNotifications / markNotificationsRead 与计数器一致性）E2E 测试
+ */
+describe('Notifications (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { guest, learner } = testAccountsConfig;
+  const NEW_PASSWORD = 'NewGuest#2025x';
+  let guestAccountId: number;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await dataSource.getRepository(PasswordHistoryEntity).clear();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest', 'learner'] });
+    guestAccountId = await getAccountIdByLoginName(dataSource, guest.loginName);
+    const learnerAccountId = await getAccountIdByLoginName(dataSource, learner.loginName);
+    await dataSource
+      .getRepository(NotificationEntity)
+      .delete({ recipientAccountId: In([guestAccountId, learnerAccountId]) });
+  });
+
+  const changeGuestPassword = async (): Promise<void> => {
+    const token = await login({
+      app,
+      loginName: guest.loginName,
+      loginPassword: guest.loginPassword,
+    });
+    const res = await postGql({
+      app,
+      query: `
+        mutation ChangePassword($input: ChangePasswordInput!) {
+          changePassword(input: $input)
+        }
+      `,
+      variables: { input: { oldPassword: guest.loginPassword, newPassword: NEW_PASSWORD } },
+      token,
+    }).expect(200);
+    expect((res.body as GqlBody<unknown>).errors).toBeUndefined();
+  };
+
+  const queryNotifications = async (
+    token: string,
+    unreadOnly = false,
+  ): Promise<GqlBody<{ myNotifications: MyNotifications }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        query MyNotifications($input: MyNotificationsInput) {
+          myNotifications(input: $input) {
+            items { id category title readAt }
+            pagination { total }
+            unreadCount
+          }
+        }
+      `,
+      variables: { input: { unreadOnly } },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ myNotifications: MyNotifications }>;
+  };
+
+  const markRead = async (
+    token: string,
+    ids?: number[],
+  ): Promise<GqlBody<{ markNotificationsRead: MarkResult }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation MarkRead($input: MarkNotificationsReadInput) {
+          markNotificationsRead(input: $input) { markedCount unreadCount }
+        }
+      `,
+      variables: { input: ids ? { ids } : {} },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ markNotificationsRead: MarkResult }>;
+  };
+
+  const readCounters = async (): Promise<{ notifyCount: number; unreadCount: number }> => {
+    const userInfo = await dataSource
+      .getRepository(UserInfoEntity)
+      .findOneByOrFail({ accountId: guestAccountId });
+    return { notifyCount: userInfo.notifyCount, unreadCount: userInfo.unreadCount };
+  };
+
+  it('修改密码后收到站内通知，通知数与未读数同步递增', async () => {
+    await changeGuestPassword();
+    const token = await login({ app, loginName: guest.loginName, loginPassword: NEW_PASSWORD });
+
+    const { data, errors } = await queryNotifications(token);
+    expect(errors).toBeUndefined();
+    expect(data!.myNotifications.pagination.total).toBe(1);
+    expect(data!.myNotifications.unreadCount).toBe(1);
+    expect(data!.myNotifications.items[0]).toMatchObject({
+      category: NotificationCategory.PASSWORD_CHANGED,
+      readAt: null,
+    });
+    expect(await readCounters()).toEqual({ notifyCount: 1, unreadCount: 1 });
+  });
+
+  it('标记已读后未读数递减，重复标记不会重复扣减', async () => {
+    await changeGuestPassword();
+    const token = await login({ app, loginName: guest.loginName, loginPassword: NEW_PASSWORD });
+    const notificationId = (await queryNotifications(token)).data!.myNotifications.items[0].id;
+
+    const marked = await markRead(token, [notificationId]);
+    expect(marked.errors).toBeUndefined();
+    expect(marked.data?.markNotificationsRead).toEqual({ markedCount: 1, unreadCount: 0 });
+
+    const again = await markRead(token);
+    expect(again.data?.markNotificationsRead).toEqual({ markedCount: 0, unreadCount: 0 });
+
+    const unread = await queryNotifications(token, true);
+    expect(unread.data?.myNotifications.items).toHaveLength(0);
+    expect(await readCounters()).toEqual({ notifyCount: 1, unreadCount: 0 });
+  });
+
+  it('不能标记他人的通知', async () => {
+    await changeGuestPassword();
+    const guestToken = await login({
+      app,
+      loginName: guest.loginName,
+      loginPassword: NEW_PASSWORD,
+    });
+    const notificationId = (await queryNotifications(guestToken)).data!.myNotifications.items[0].id;
+
+    const learnerToken = await login({
+      app,
+      loginName: learner.loginName,
+      loginPassword: learner.loginPassword,
+    });
+    const denied = await markRead(learnerToken, [notificationId]);
+    expect(denied.data?.markNotificationsRead.markedCount).toBe(0);
+    expect(await readCounters()).toEqual({ notifyCount: 1, unreadCount: 1 });
+  });
+});
@@ -0,0 +1,239 @@
+// test/05-verification-record/bulk-invite-coaches.e2e-spec.ts
+import { AudienceTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
+import {
+  BULK_COACH_INVITE_SYNC_MAX_ROWS,
+  BulkInviteRowStatus,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { AsyncTaskRecordEntity } from '@src/modules/async-task-record/async-task-record.entity';
+import { InviteQueueService } from '@src/modules/common/invite-queue/invite-queue.service';
+import { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type RowResult = {
+  rowNumber: number;
+  status: BulkInviteRowStatus;
+  email: string | null;
+  recordId: number | null;
+  emailQueued: boolean;
+  errorCode: string | null;
+};
+type BulkResult = {
+  total: number;
+  async: boolean;
+  jobId: string | null;
+  report: { total: number; succeeded: number; failed: number; rows: RowResult[] } | null;
+};
+
+const BULK_JOB_ID = 'bulk-coach-e2e-job';
+
+/**
+ * 批量邀请教练（CSV）E2E 测试
+ */
+describe('Bulk invite coaches (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+  let queueEmailSpy: jest.SpyInstance;
+  let enqueueBulkSpy: jest.SpyInstance;
+
+  const { manager, guest } = testAccountsConfig;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    queueEmailSpy = jest
+      .spyOn(moduleFixture.get<QueueEmailUsecase>(QueueEmailUsecase), 'execute')
+      .mockResolvedValue({ jobId: 'invite-job', traceId: 'invite-trace' });
+    enqueueBulkSpy = jest
+      .spyOn(moduleFixture.get<InviteQueueService>(InviteQueueService), 'enqueueBulkCoach')
+      .mockResolvedValue({ jobId: BULK_JOB_ID, traceId: 'bulk-coach-e2e-trace' });
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    await cleanupRecords();
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    queueEmailSpy.mockClear();
+    enqueueBulkSpy.mockClear();
+    await cleanupRecords();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['manager', 'guest'] });
+  });
+
+  const cleanupRecords = async (): Promise<void> => {
+    await dataSource
+      .getRepository(VerificationRecordEntity)
+      .delete({ type: VerificationRecordType.INVITE_COACH });
+    await dataSource.getRepository(AsyncTaskRecordEntity).delete({ queueName: 'invite' });
+  };
+
+  const login = async (loginName: string, loginPassword: string): Promise<string> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken }
+        }
+      `,
+      variables: {
+        input: {
+          loginName,
+          loginPassword,
+          type: LoginTypeEnum.PASSWORD,
+          audience: AudienceTypeEnum.DESKTOP,
+        },
+      },
+    }).expect(200);
+    return (res.body as GqlBody<{ login: { accessToken: string } }>).data!.login.accessToken;
+  };
+
+  const bulkInvite = async (
+    token: string,
+    csv: string,
+  ): Promise<GqlBody<{ bulkInviteCoaches: BulkResult }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Bulk($input: BulkInviteCoachesInput!) {
+          bulkInviteCoaches(input: $input) {
+            total async jobId
+            report {
+              total succeeded failed
+              rows { rowNumber status email recordId emailQueued errorCode }
+            }
+          }
+        }
+      `,
+      variables: { input: { csv } },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ bulkInviteCoaches: BulkResult }>;
+  };
+
+  const queryTask = async (
+    token: string,
+    jobId: string,
+  ): Promise<GqlBody<{ bulkInviteCoachesTask: { status: string; report: unknown } }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        query Task($input: BulkInviteCoachesTaskInput!) {
+          bulkInviteCoachesTask(input: $input) { jobId status report { total } }
+        }
+      `,
+      variables: { input: { jobId } },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ bulkInviteCoachesTask: { status: string; report: unknown } }>;
+  };
+
+  it('manager 同步批量邀请：逐行校验，合法行签发邀请并投递邮件', async () => {
+    const token = await login(manager.loginName, manager.loginPassword);
+    const csv = [
+      'name,email,phone,level,specialty',
+      '张教练,Zhang.Coach@example.com,13800000001,2,游泳',
+      '"李, 教练",li.coach@example.com,,,',
+      '王教练,not-an-email,,1,',
+      '赵教练,zhang.coach@example.com,,1,',
+      '钱教练,qian.coach@example.com,,9,',
+    ].join('\n');
+
+    const { data, errors } = await bulkInvite(token, csv);
+    expect(errors).toBeUndefined();
+    const result = data!.bulkInviteCoaches;
+    expect(result).toMatchObject({ total: 5, async: false, jobId: null });
+    expect(result.report).toMatchObject({ total: 5, succeeded: 2, failed: 3 });
+    expect(result.report!.rows.map((row) => row.status)).toEqual([
+      BulkInviteRowStatus.CREATED,
+      BulkInviteRowStatus.CREATED,
+      BulkInviteRowStatus.FAILED,
+      BulkInviteRowStatus.FAILED,
+      BulkInviteRowStatus.FAILED,
+    ]);
+    expect(result.report!.rows[0]).toMatchObject({
+      email: 'zhang.coach@example.com',
+      emailQueued: true,
+    });
+
+    const records = await dataSource
+      .getRepository(VerificationRecordEntity)
+      .find({ where: { type: VerificationRecordType.INVITE_COACH }, order: { id: 'ASC' } });
+    expect(records).toHaveLength(2);
+    expect(records[0].payload).toMatchObject({
+      coachName: '张教练',
+      coachLevel: 2,
+      specialty: '游泳',
+      inviteeEmail: 'zhang.coach@example.com',
+      phone: '13800000001',
+    });
+    expect(records[1].payload).toMatchObject({ coachName: '李, 教练', coachLevel: 1 });
+    expect(queueEmailSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('非 manager 无权批量邀请', async () => {
+    const token = await login(guest.loginName, guest.loginPassword);
+    const { errors } = await bulkInvite(token, 'name,email\n张教练,a@example.com');
+    expect(errors?.[0]?.extensions?.errorCode).toBe('ACCESS_DENIED');
+  });
+
+  it('缺少必填列时拒绝处理', async () => {
+    const token = await login(manager.loginName, manager.loginPassword);
+    const { errors } = await bulkInvite(token, 'name,phone\n张教练,13800000001');
+    expect(errors?.[0]?.extensions?.errorCode).toBe('VERIFICATION_RECORD_INVALID_PARAMS');
+  });
+
+  it('行数超过同步上限时转为异步任务，仅发起者可查询任务状态', async () => {
+    const token = await login(manager.loginName, manager.loginPassword);
+    const rows = Array.from(
+      { length: BULK_COACH_INVITE_SYNC_MAX_ROWS + 1 },
+      (_, index) => `教练${index + 1},bulk${index + 1}@example.com`,
+    );
+
+    const { data, errors } = await bulkInvite(token, ['name,email', ...rows].join('\n'));
+    expect(errors).toBeUndefined();
+    expect(data!.bulkInviteCoaches).toMatchObject({
+      total: BULK_COACH_INVITE_SYNC_MAX_ROWS + 1,
+      async: true,
+      jobId: BULK_JOB_ID,
+      report: null,
+    });
+    expect(enqueueBulkSpy).toHaveBeenCalledTimes(1);
+
+    const task = await dataSource
+      .getRepository(AsyncTaskRecordEntity)
+      .findOneByOrFail({ queueName: 'invite', jobId: BULK_JOB_ID });
+    expect(task).toMatchObject({ status: 'queued', bizType: 'invite' });
+
+    const queried = await queryTask(token, BULK_JOB_ID);
+    expect(queried.errors).toBeUndefined();
+    expect(queried.data?.bulkInviteCoachesTask).toMatchObject({ status: 'queued', report: null });
+
+    const guestToken = await login(guest.loginName, guest.loginPassword);
+    const denied = await queryTask(guestToken, BULK_JOB_ID);
+    expect(denied.errors?.[0]?.extensions?.errorCode).toBe('VERIFICATION_RECORD_NOT_FOUND');
+  });
+});
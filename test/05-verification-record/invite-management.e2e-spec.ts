@@ -0,0 +1,298 @@
+// test/05-verification-record/invite-management.e2e-spec.ts
+import { AudienceTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
+import {
+  VerificationRecordStatus,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { QueueEmailUsecase } from '@src/usecases/email-queue/queue-email.usecase';
+import { App } from 'supertest/types';
+import { DataSource, In } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type Tokens = { accessToken: string; accountId: number };
+type RecordData = { id: number; status: VerificationRecordStatus };
+
+/**
+ * 邀请管理（我签发的邀请 / 重新发送 / 批量撤销 / 接受统计）E2E 测试
+ */
+describe('Invite management (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+  let queueEmailSpy: jest.SpyInstance;
+
+  const { manager, learner, guest } = testAccountsConfig;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    queueEmailSpy = jest
+      .spyOn(moduleFixture.get<QueueEmailUsecase>(QueueEmailUsecase), 'execute')
+      .mockResolvedValue({ jobId: 'invite-job', traceId: 'invite-trace' });
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    await cleanupInviteRecords();
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    queueEmailSpy.mockClear();
+    await cleanupInviteRecords();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({
+      dataSource,
+      createAccountUsecase,
+      includeKeys: ['manager', 'learner', 'guest'],
+    });
+  });
+
+  const cleanupInviteRecords = async (): Promise<void> => {
+    await dataSource.getRepository(VerificationRecordEntity).delete({
+      type: In([VerificationRecordType.INVITE_COACH, VerificationRecordType.INVITE_MANAGER]),
+    });
+  };
+
+  const login = async (loginName: string, loginPassword: string): Promise<Tokens> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken accountId }
+        }
+      `,
+      variables: {
+        input: {
+          loginName,
+          loginPassword,
+          type: LoginTypeEnum.PASSWORD,
+          audience: AudienceTypeEnum.DESKTOP,
+        },
+      },
+    }).expect(200);
+    return (res.body as GqlBody<{ login: Tokens }>).data!.login;
+  };
+
+  const createCoachInvite = async (
+    token: string,
+    targetAccountId?: number,
+  ): Promise<{ id: number; token: string }> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Create($input: CreateVerificationRecordInput!) {
+          createVerificationRecord(input: $input) { success data { id } token message }
+        }
+      `,
+      variables: {
+        input: {
+          type: 'INVITE_COACH',
+          payload: { coachName: '受邀教练' },
+          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+          targetAccountId,
+          returnToken: true,
+        },
+      },
+      token,
+    }).expect(200);
+    const result = (
+      res.body as GqlBody<{
+        createVerificationRecord: { success: boolean; data: { id: number }; token: string };
+      }>
+    ).data!.createVerificationRecord;
+    expect(result.success).toBe(true);
+    return { id: result.data.id, token: result.token };
+  };
+
+  const myIssued = async (
+    token: string,
+    status?: VerificationRecordStatus,
+  ): Promise<{ items: RecordData[]; pagination: { total: number } }> => {
+    const res = await postGql({
+      app,
+      query: `
+        query MyIssued($input: MyIssuedVerificationRecordsInput!) {
+          myIssuedVerificationRecords(input: $input) {
+            items { id status }
+            pagination { total }
+          }
+        }
+      `,
+      variables: { input: { status } },
+      token,
+    }).expect(200);
+    const body = res.body as GqlBody<{
+      myIssuedVerificationRecords: { items: RecordData[]; pagination: { total: number } };
+    }>;
+    expect(body.errors).toBeUndefined();
+    return body.data!.myIssuedVerificationRecords;
+  };
+
+  const resendInvite = async (
+    token: string,
+    recordId: number,
+  ): Promise<{ success: boolean; token: string | null; emailQueued: boolean }> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Resend($input: ResendInviteInput!) {
+          resendInvite(input: $input) { success token emailQueued message }
+        }
+      `,
+      variables: { input: { recordId } },
+      token,
+    }).expect(200);
+    return (
+      res.body as GqlBody<{
+        resendInvite: { success: boolean; token: string | null; emailQueued: boolean };
+      }>
+    ).data!.resendInvite;
+  };
+
+  const inviteStats = async (
+    token: string,
+  ): Promise<GqlBody<{ inviteAcceptanceStats: Array<Record<string, number>> }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        query Stats {
+          inviteAcceptanceStats { issuedByAccountId issued consumed expired revoked pending }
+        }
+      `,
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ inviteAcceptanceStats: Array<Record<string, number>> }>;
+  };
+
+  /** 将记录更新时间回拨，跳过重发冷却 */
+  const skipResendCooldown = async (recordId: number): Promise<void> => {
+    await dataSource
+      .getRepository(VerificationRecordEntity)
+      .createQueryBuilder()
+      .update()
+      .set({ updatedAt: new Date(Date.now() - 10 * 60 * 1000) })
+      .where('id = :recordId', { recordId })
+      .execute();
+  };
+
+  it('签发者可分页查看、批量撤销自己签发的邀请，并按签发者统计接受情况', async () => {
+    const managerTokens = await login(manager.loginName, manager.loginPassword);
+    const first = await createCoachInvite(managerTokens.accessToken);
+    const second = await createCoachInvite(managerTokens.accessToken);
+    const third = await createCoachInvite(managerTokens.accessToken);
+
+    // 第三条已超过有效期但尚未被清理任务标记
+    await dataSource
+      .getRepository(VerificationRecordEntity)
+      .update(third.id, { expiresAt: new Date(Date.now() - 60 * 60 * 1000) });
+
+    const all = await myIssued(managerTokens.accessToken);
+    expect(all.pagination.total).toBe(3);
+    expect(all.items.map((item) => item.id)).toEqual([third.id, second.id, first.id]);
+    expect(all.items[0].status).toBe(VerificationRecordStatus.EXPIRED);
+
+    const pending = await myIssued(managerTokens.accessToken, VerificationRecordStatus.ACTIVE);
+    expect(pending.items.map((item) => item.id)).toEqual([second.id, first.id]);
+
+    // 其他账号看不到、也撤销不了这些邀请
+    const learnerTokens = await login(learner.loginName, learner.loginPassword);
+    expect((await myIssued(learnerTokens.accessToken)).pagination.total).toBe(0);
+
+    const revokeRes = await postGql({
+      app,
+      query: `
+        mutation Revoke($input: RevokeInvitesInput!) {
+          revokeInvites(input: $input) { revokedIds skippedIds }
+        }
+      `,
+      variables: { input: { recordIds: [first.id, third.id] } },
+      token: managerTokens.accessToken,
+    }).expect(200);
+    const revoked = (
+      revokeRes.body as GqlBody<{ revokeInvites: { revokedIds: number[]; skippedIds: number[] } }>
+    ).data!.revokeInvites;
+    expect(revoked.revokedIds).toEqual([first.id]);
+    expect(revoked.skippedIds).toEqual([third.id]);
+
+    const stats = await inviteStats(managerTokens.accessToken);
+    expect(stats.errors).toBeUndefined();
+    expect(stats.data?.inviteAcceptanceStats).toEqual([
+      {
+        issuedByAccountId: managerTokens.accountId,
+        issued: 3,
+        consumed: 0,
+        expired: 1,
+        revoked: 1,
+        pending: 1,
+      },
+    ]);
+
+    const denied = await inviteStats(learnerTokens.accessToken);
+    expect(denied.errors?.[0]?.extensions?.errorCode).toBe('ACCESS_DENIED');
+  });
+
+  it('重新发送邀请会轮换 token、投递邮件，旧 token 立即失效', async () => {
+    const managerTokens = await login(manager.loginName, manager.loginPassword);
+    const guestTokens = await login(guest.loginName, guest.loginPassword);
+    const invite = await createCoachInvite(managerTokens.accessToken, guestTokens.accountId);
+
+    const throttled = await resendInvite(managerTokens.accessToken, invite.id);
+    expect(throttled.success).toBe(false);
+    expect(queueEmailSpy).not.toHaveBeenCalled();
+
+    await skipResendCooldown(invite.id);
+    const resent = await resendInvite(managerTokens.accessToken, invite.id);
+    expect(resent.success).toBe(true);
+    expect(resent.emailQueued).toBe(true);
+    expect(resent.token).toBeTruthy();
+    expect(resent.token).not.toBe(invite.token);
+
+    const [email] = queueEmailSpy.mock.calls.at(-1) as [{ to: string; text: string }];
+    expect(email.to).toBe(guest.loginEmail);
+    expect(email.text).toContain(resent.token);
+
+    // 只有签发者可以重发
+    await skipResendCooldown(invite.id);
+    const learnerTokens = await login(learner.loginName, learner.loginPassword);
+    expect((await resendInvite(learnerTokens.accessToken, invite.id)).success).toBe(false);
+
+    const consume = async (token: string): Promise<boolean> => {
+      const res = await postGql({
+        app,
+        query: `
+          mutation Consume($input: ConsumeVerificationRecordInput!) {
+            consumeVerificationRecord(input: $input) { success }
+          }
+        `,
+        variables: { input: { token, expectedType: 'INVITE_COACH' } },
+        token: guestTokens.accessToken,
+      }).expect(200);
+      return (res.body as GqlBody<{ consumeVerificationRecord: { success: boolean } }>).data!
+        .consumeVerificationRecord.success;
+    };
+    expect(await consume(invite.token)).toBe(false);
+    expect(await consume(resent.token!)).toBe(true);
+
+    const stats = await inviteStats(managerTokens.accessToken);
+    expect(stats.data?.inviteAcceptanceStats[0]).toMatchObject({ issued: 1, consumed: 1 });
+  });
+});
@@ -0,0 +1,246 @@
+// test/05-verification-record/verification-record-events.e2e-spec.ts
+import { AudienceTypeEnum, LoginTypeEnum } from '@app-types/models/account.types';
+import {
+  VerificationRecordEvent,
+  VerificationRecordEventType,
+} from '@app-types/models/verification-record-event.types';
+import { VerificationRecordType } from '@app-types/models/verification-record.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { VerificationRecordEventEmitter } from '@src/modules/verification-record/events/verification-record-event.emitter';
+import { VerificationRecordEventEntity } from '@src/modules/verification-record/verification-record-event.entity';
+import { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type Tokens = { accessToken: string; accountId: number };
+type TimelineEvent = {
+  eventType: VerificationRecordEventType;
+  actorAccountId: number | null;
+  reason: string | null;
+};
+
+/**
+ * 验证记录事件时间线与领域事件订阅 E2E 测试
+ */
+describe('Verification record events (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+  let eventEmitter: VerificationRecordEventEmitter;
+
+  const { manager, guest, learner, admin } = testAccountsConfig;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    eventEmitter = moduleFixture.get<VerificationRecordEventEmitter>(
+      VerificationRecordEventEmitter,
+    );
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    await cleanupRecords();
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await cleanupRecords();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({
+      dataSource,
+      createAccountUsecase,
+      includeKeys: ['manager', 'guest', 'learner', 'admin'],
+    });
+  });
+
+  const cleanupRecords = async (): Promise<void> => {
+    await dataSource
+      .getRepository(VerificationRecordEntity)
+      .delete({ type: VerificationRecordType.INVITE_COACH });
+    await dataSource
+      .getRepository(VerificationRecordEventEntity)
+      .delete({ recordType: VerificationRecordType.INVITE_COACH });
+  };
+
+  const login = async (loginName: string, loginPassword: string): Promise<Tokens> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Login($input: AuthLoginInput!) {
+          login(input: $input) { accessToken accountId }
+        }
+      `,
+      variables: {
+        input: {
+          loginName,
+          loginPassword,
+          type: LoginTypeEnum.PASSWORD,
+          audience: AudienceTypeEnum.DESKTOP,
+        },
+      },
+    }).expect(200);
+    return (res.body as GqlBody<{ login: Tokens }>).data!.login;
+  };
+
+  const createCoachInvite = async (
+    token: string,
+    targetAccountId: number,
+  ): Promise<{ id: number; token: string }> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Create($input: CreateVerificationRecordInput!) {
+          createVerificationRecord(input: $input) { success data { id } token }
+        }
+      `,
+      variables: {
+        input: {
+          type: 'INVITE_COACH',
+          payload: { coachName: '受邀教练' },
+          expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+          targetAccountId,
+          returnToken: true,
+        },
+      },
+      token,
+    }).expect(200);
+    const result = (
+      res.body as GqlBody<{
+        createVerificationRecord: { success: boolean; data: { id: number }; token: string };
+      }>
+    ).data!.createVerificationRecord;
+    expect(result.success).toBe(true);
+    return { id: result.data.id, token: result.token };
+  };
+
+  const consume = async (accessToken: string, token: string): Promise<boolean> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation Consume($input: ConsumeVerificationRecordInput!) {
+          consumeVerificationRecord(input: $input) { success }
+        }
+      `,
+      variables: { input: { token, expectedType: 'INVITE_COACH' } },
+      token: accessToken,
+    }).expect(200);
+    return (res.body as GqlBody<{ consumeVerificationRecord: { success: boolean } }>).data!
+      .consumeVerificationRecord.success;
+  };
+
+  const timeline = async (
+    accessToken: string,
+    recordId: number,
+  ): Promise<GqlBody<{ verificationRecordEvents: TimelineEvent[] }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        query Events($input: VerificationRecordEventsInput!) {
+          verificationRecordEvents(input: $input) { eventType actorAccountId reason occurredAt }
+        }
+      `,
+      variables: { input: { recordId } },
+      token: accessToken,
+    }).expect(200);
+    return res.body as GqlBody<{ verificationRecordEvents: TimelineEvent[] }>;
+  };
+
+  it('签发、查看、消费失败与成功按顺序写入时间线，并发布给订阅者', async () => {
+    const received: VerificationRecordEvent[] = [];
+    const unsubscribe = eventEmitter.onAny((event) => {
+      received.push(event);
+    });
+
+    try {
+      const managerTokens = await login(manager.loginName, manager.loginPassword);
+      const guestTokens = await login(guest.loginName, guest.loginPassword);
+      const learnerTokens = await login(learner.loginName, learner.loginPassword);
+      const invite = await createCoachInvite(managerTokens.accessToken, guestTokens.accountId);
+
+      const viewed = await postGql({
+        app,
+        query: `
+          query Find($input: FindVerificationRecordInput!) {
+            findVerificationRecord(input: $input) { id }
+          }
+        `,
+        variables: { input: { token: invite.token, ignoreTargetRestriction: true } },
+      }).expect(200);
+      expect(
+        (viewed.body as GqlBody<{ findVerificationRecord: { id: number } }>).data
+          ?.findVerificationRecord?.id,
+      ).toBe(invite.id);
+
+      expect(await consume(learnerTokens.accessToken, invite.token)).toBe(false);
+      expect(await consume(guestTokens.accessToken, invite.token)).toBe(true);
+
+      const { data, errors } = await timeline(managerTokens.accessToken, invite.id);
+      expect(errors).toBeUndefined();
+      const events = data!.verificationRecordEvents;
+      expect(events.map((event) => event.eventType)).toEqual([
+        VerificationRecordEventType.CREATED,
+        VerificationRecordEventType.VIEWED,
+        VerificationRecordEventType.CONSUME_FAILED,
+        VerificationRecordEventType.CONSUME_SUCCEEDED,
+      ]);
+      expect(events[0].actorAccountId).toBe(managerTokens.accountId);
+      expect(events[2].actorAccountId).toBe(learnerTokens.accountId);
+      expect(events[2].reason).toBeTruthy();
+      expect(events[3].actorAccountId).toBe(guestTokens.accountId);
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(
+        received.filter((event) => event.recordId === invite.id).map((event) => event.eventType),
+      ).toEqual(events.map((event) => event.eventType));
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('撤销写入 REVOKED 事件；仅签发者与 ADMIN 可查看时间线', async () => {
+    const managerTokens = await login(manager.loginName, manager.loginPassword);
+    const guestTokens = await login(guest.loginName, guest.loginPassword);
+    const invite = await createCoachInvite(managerTokens.accessToken, guestTokens.accountId);
+
+    await postGql({
+      app,
+      query: `
+        mutation Revoke($input: RevokeInvitesInput!) {
+          revokeInvites(input: $input) { revokedIds }
+        }
+      `,
+      variables: { input: { recordIds: [invite.id] } },
+      token: managerTokens.accessToken,
+    }).expect(200);
+
+    const adminTokens = await login(admin.loginName, admin.loginPassword);
+    const { data, errors } = await timeline(adminTokens.accessToken, invite.id);
+    expect(errors).toBeUndefined();
+    expect(data!.verificationRecordEvents.at(-1)).toMatchObject({
+      eventType: VerificationRecordEventType.REVOKED,
+      actorAccountId: managerTokens.accountId,
+      reason: 'MANUAL',
+    });
+
+    const denied = await timeline(guestTokens.accessToken, invite.id);
+    expect(denied.errors?.[0]?.extensions?.errorCode).toBe('VERIFICATION_RECORD_NOT_FOUND');
+  });
+});
@@ -0,0 +1,238 @@
+// test/05-verification-record/weapp-bind.e2e-spec.ts
+import { AudienceTypeEnum, ThirdPartyProviderEnum } from '@app-types/models/account.types';
+import {
+  VerificationRecordType,
+  WeappBindStatus,
+} from '@app-types/models/verification-record.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { ThirdPartyAuthEntity } from '@src/modules/account/base/entities/third-party-auth.entity';
+import { WeAppProvider } from '@src/modules/third-party-auth/providers/weapp.provider';
+import { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource, In } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { getAccountIdByLoginName, login, postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type BindRequest = {
+  recordId: number;
+  token: string;
+  expiresAt: string;
+  qrcodeContentType: string | null;
+  qrcodeImageBase64: string | null;
+};
+type BindStatus = { recordId: number; status: WeappBindStatus; boundAt: string | null };
+
+const MOCK_OPENIDS = ['e2e_weapp_bind_openid_1', 'e2e_weapp_bind_openid_2'];
+
+/**
+ * 小程序扫码绑定（网页端签发绑定码，小程序扫码确认，网页端轮询状态）E2E 测试
+ */
+describe('WeApp bind via verification record (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { guest, learner } = testAccountsConfig;
+  let guestToken: string;
+  let guestAccountId: number;
+
+  // 覆写 WeAppProvider：js_code 形如 e2e-code-<序号>，映射到对应的模拟 openid
+  const mockWeAppProvider = {
+    provider: ThirdPartyProviderEnum.WEAPP,
+    getAccessToken: () => Promise.resolve('mock-access-token'),
+    createWxaCodeUnlimit: () =>
+      Promise.resolve({ buffer: Buffer.from('mock-qrcode'), contentType: 'image/png' }),
+    exchangeCredential: ({ authCredential }: { authCredential: string }) =>
+      Promise.resolve({
+        providerUserId: MOCK_OPENIDS[Number(authCredential.replace('e2e-code-', '')) - 1],
+        unionId: null,
+        sessionKeyRaw: 'mock-session-key',
+      }),
+  };
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    })
+      .overrideProvider(WeAppProvider)
+      .useValue(mockWeAppProvider)
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    await cleanupBindData();
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await cleanupBindData();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({ dataSource, createAccountUsecase, includeKeys: ['guest', 'learner'] });
+
+    guestToken = await login({
+      app,
+      loginName: guest.loginName,
+      loginPassword: guest.loginPassword,
+    });
+    guestAccountId = await getAccountIdByLoginName(dataSource, guest.loginName);
+  });
+
+  const cleanupBindData = async (): Promise<void> => {
+    await dataSource
+      .getRepository(VerificationRecordEntity)
+      .delete({ type: VerificationRecordType.WEAPP_BIND });
+    await dataSource
+      .getRepository(ThirdPartyAuthEntity)
+      .delete({ provider: ThirdPartyProviderEnum.WEAPP, providerUserId: In(MOCK_OPENIDS) });
+  };
+
+  const requestBind = async (
+    token: string,
+  ): Promise<GqlBody<{ requestWeappBind: BindRequest }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation RequestWeappBind($input: RequestWeappBindInput!) {
+          requestWeappBind(input: $input) {
+            recordId token expiresAt qrcodeContentType qrcodeImageBase64
+          }
+        }
+      `,
+      variables: { input: { audience: AudienceTypeEnum.DESKTOP } },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ requestWeappBind: BindRequest }>;
+  };
+
+  const confirmBind = async (
+    bindToken: string,
+    authCredential: string,
+  ): Promise<GqlBody<{ confirmWeappBind: boolean }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation ConfirmWeappBind($input: ConfirmWeappBindInput!) {
+          confirmWeappBind(input: $input)
+        }
+      `,
+      variables: {
+        input: { token: bindToken, authCredential, audience: AudienceTypeEnum.SJWEAPP },
+      },
+    }).expect(200);
+    return res.body as GqlBody<{ confirmWeappBind: boolean }>;
+  };
+
+  const queryStatus = async (
+    token: string,
+    recordId: number,
+  ): Promise<GqlBody<{ weappBindStatus: BindStatus }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        query WeappBindStatus($input: WeappBindStatusInput!) {
+          weappBindStatus(input: $input) { recordId status boundAt }
+        }
+      `,
+      variables: { input: { recordId } },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ weappBindStatus: BindStatus }>;
+  };
+
+  it('网页端签发绑定码，小程序扫码确认后账户写入 WEAPP 绑定，轮询状态变为 BOUND', async () => {
+    const requested = await requestBind(guestToken);
+    expect(requested.errors).toBeUndefined();
+    const bind = requested.data!.requestWeappBind;
+    expect(bind.token.length).toBeLessThanOrEqual(32);
+    expect(bind.qrcodeContentType).toBe('image/png');
+    expect(bind.qrcodeImageBase64).toBe(Buffer.from('mock-qrcode').toString('base64'));
+
+    const pending = await queryStatus(guestToken, bind.recordId);
+    expect(pending.data?.weappBindStatus).toMatchObject({
+      status: WeappBindStatus.PENDING,
+      boundAt: null,
+    });
+
+    const confirmed = await confirmBind(bind.token, 'e2e-code-1');
+    expect(confirmed.errors).toBeUndefined();
+    expect(confirmed.data?.confirmWeappBind).toBe(true);
+
+    const bound = await queryStatus(guestToken, bind.recordId);
+    expect(bound.data?.weappBindStatus.status).toBe(WeappBindStatus.BOUND);
+    expect(bound.data?.weappBindStatus.boundAt).not.toBeNull();
+
+    const auth = await dataSource.getRepository(ThirdPartyAuthEntity).findOneBy({
+      provider: ThirdPartyProviderEnum.WEAPP,
+      providerUserId: MOCK_OPENIDS[0],
+    });
+    expect(auth?.accountId).toBe(guestAccountId);
+
+    // 绑定码仅可使用一次；账户已绑定后不能再次发起
+    const replayed = await confirmBind(bind.token, 'e2e-code-2');
+    expect(replayed.errors?.[0]?.extensions?.errorCode).toBe(
+      'VERIFICATION_RECORD_VERIFICATION_INVALID',
+    );
+    const again = await requestBind(guestToken);
+    expect(again.errors?.[0]?.extensions?.errorCode).toBe('THIRDPARTY_ACCOUNT_ALREADY_BOUND');
+  });
+
+  it('重新发起绑定会作废旧绑定码', async () => {
+    const first = (await requestBind(guestToken)).data!.requestWeappBind;
+    const second = (await requestBind(guestToken)).data!.requestWeappBind;
+
+    const cancelled = await queryStatus(guestToken, first.recordId);
+    expect(cancelled.data?.weappBindStatus.status).toBe(WeappBindStatus.CANCELLED);
+
+    const stale = await confirmBind(first.token, 'e2e-code-1');
+    expect(stale.errors?.[0]?.extensions?.errorCode).toBe(
+      'VERIFICATION_RECORD_VERIFICATION_INVALID',
+    );
+
+    const confirmed = await confirmBind(second.token, 'e2e-code-1');
+    expect(confirmed.data?.confirmWeappBind).toBe(true);
+  });
+
+  it('微信用户已绑定其他账户时拒绝绑定，绑定码保持可用', async () => {
+    const learnerToken = await login({
+      app,
+      loginName: learner.loginName,
+      loginPassword: learner.loginPassword,
+    });
+    const learnerBind = (await requestBind(learnerToken)).data!.requestWeappBind;
+    await confirmBind(learnerBind.token, 'e2e-code-1');
+
+    const bind = (await requestBind(guestToken)).data!.requestWeappBind;
+    const rejected = await confirmBind(bind.token, 'e2e-code-1');
+    expect(rejected.errors?.[0]?.extensions?.errorCode).toBe('THIRDPARTY_ACCOUNT_ALREADY_BOUND');
+
+    const pending = await queryStatus(guestToken, bind.recordId);
+    expect(pending.data?.weappBindStatus.status).toBe(WeappBindStatus.PENDING);
+  });
+
+  it('只能查询本人发起的绑定状态', async () => {
+    const bind = (await requestBind(guestToken)).data!.requestWeappBind;
+    const learnerToken = await login({
+      app,
+      loginName: learner.loginName,
+      loginPassword: learner.loginPassword,
+    });
+
+    const denied = await queryStatus(learnerToken, bind.recordId);
+    expect(denied.errors?.[0]?.extensions?.errorCode).toBe('VERIFICATION_RECORD_NOT_FOUND');
+  });
+});
@@ -0,0 +1,204 @@
+// test/06-identity-management/learner-invite.e2e-spec.ts
+import { IdentityTypeEnum } from '@app-types/models/account.types';
+import { Gender } from '@app-types/models/user-info.types';
+import {
+  VerificationRecordStatus,
+  VerificationRecordType,
+} from '@app-types/models/verification-record.types';
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ApiModule } from '@src/bootstraps/api/api.module';
+import { UserInfoEntity } from '@src/modules/account/base/entities/user-info.entity';
+import { CustomerEntity } from '@src/modules/account/identities/training/customer/account-customer.entity';
+import { LearnerEntity } from '@src/modules/account/identities/training/learner/account-learner.entity';
+import { VerificationRecordEntity } from '@src/modules/verification-record/verification-record.entity';
+import { CreateAccountUsecase } from '@src/usecases/account/create-account.usecase';
+import { App } from 'supertest/types';
+import { DataSource } from 'typeorm';
+import { initGraphQLSchema } from '../../src/adapters/api/graphql/schema/schema.init';
+import { getAccountIdByLoginName, login, postGql } from '../utils/e2e-graphql-utils';
+import { cleanupTestAccounts, seedTestAccounts, testAccountsConfig } from '../utils/test-accounts';
+
+type GqlError = { extensions?: { errorCode?: string } };
+type GqlBody<T> = { data?: T; errors?: GqlError[] };
+type LearnerInvite = { inviteId: number; token: string; expiresAt: string };
+type ConsumeResult = {
+  success: boolean;
+  message: string | null;
+  data: { subjectType: string; subjectId: number } | null;
+};
+
+/**
+ * 学员邀请（客户为学员签发邀请，学员登录后消费完成关联）E2E 测试
+ */
+describe('Learner invite (e2e)', () => {
+  let app: INestApplication<App>;
+  let dataSource: DataSource;
+  let createAccountUsecase: CreateAccountUsecase;
+
+  const { customer, guest } = testAccountsConfig;
+  let customerToken: string;
+  let guestToken: string;
+  let guestAccountId: number;
+  let learner: LearnerEntity;
+
+  beforeAll(async () => {
+    initGraphQLSchema();
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [ApiModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    dataSource = moduleFixture.get<DataSource>(DataSource);
+    createAccountUsecase = moduleFixture.get<CreateAccountUsecase>(CreateAccountUsecase);
+    await app.init();
+  }, 30000);
+
+  afterAll(async () => {
+    await cleanupInviteRecords();
+    if (app) {
+      await app.close();
+    }
+  });
+
+  beforeEach(async () => {
+    await cleanupInviteRecords();
+    await cleanupTestAccounts(dataSource);
+    await seedTestAccounts({
+      dataSource,
+      createAccountUsecase,
+      includeKeys: ['customer', 'guest'],
+    });
+
+    customerToken = await login({
+      app,
+      loginName: customer.loginName,
+      loginPassword: customer.loginPassword,
+    });
+    guestToken = await login({
+      app,
+      loginName: guest.loginName,
+      loginPassword: guest.loginPassword,
+    });
+    guestAccountId = await getAccountIdByLoginName(dataSource, guest.loginName);
+
+    const customerAccountId = await getAccountIdByLoginName(dataSource, customer.loginName);
+    const customerEntity = await dataSource
+      .getRepository(CustomerEntity)
+      .findOneByOrFail({ accountId: customerAccountId });
+    const learnerRepo = dataSource.getRepository(LearnerEntity);
+    learner = await learnerRepo.save(
+      learnerRepo.create({
+        customerId: customerEntity.id,
+        name: '邀请学员',
+        gender: Gender.MALE,
+        birthDate: '2010-01-01',
+        countPerSession: 1,
+        deactivatedAt: null,
+      }),
+    );
+  });
+
+  const cleanupInviteRecords = async (): Promise<void> => {
+    await dataSource
+      .getRepository(VerificationRecordEntity)
+      .delete({ type: VerificationRecordType.INVITE_LEARNER });
+  };
+
+  const createInvite = async (
+    token: string,
+    learnerId: number,
+  ): Promise<GqlBody<{ createLearnerInvite: LearnerInvite }>> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation CreateLearnerInvite($input: CreateLearnerInviteInput!) {
+          createLearnerInvite(input: $input) { inviteId token expiresAt }
+        }
+      `,
+      variables: { input: { learnerId } },
+      token,
+    }).expect(200);
+    return res.body as GqlBody<{ createLearnerInvite: LearnerInvite }>;
+  };
+
+  const consumeInvite = async (
+    token: string,
+    inviteToken: string,
+  ): Promise<ConsumeResult | undefined> => {
+    const res = await postGql({
+      app,
+      query: `
+        mutation ConsumeVerificationRecord($input: ConsumeVerificationRecordInput!) {
+          consumeVerificationRecord(input: $input) {
+            success
+            message
+            data { subjectType subjectId }
+          }
+        }
+      `,
+      variables: { input: { token: inviteToken, expectedType: 'INVITE_LEARNER' } },
+      token,
+    }).expect(200);
+    return (res.body as GqlBody<{ consumeVerificationRecord: ConsumeResult }>).data
+      ?.consumeVerificationRecord;
+  };
+
+  it('学员账户消费邀请后关联学员并获得 LEARNER 身份', async () => {
+    const created = await createInvite(customerToken, learner.id);
+    expect(created.errors).toBeUndefined();
+    const invite = created.data!.createLearnerInvite;
+    expect(invite.token.length).toBeLessThanOrEqual(32);
+
+    const consumed = await consumeInvite(guestToken, invite.token);
+    expect(consumed?.success).toBe(true);
+    expect(consumed?.data).toEqual({ subjectType: 'LEARNER', subjectId: learner.id });
+
+    const linked = await dataSource
+      .getRepository(LearnerEntity)
+      .findOneByOrFail({ id: learner.id });
+    expect(linked.accountId).toBe(guestAccountId);
+
+    const userInfo = await dataSource
+      .getRepository(UserInfoEntity)
+      .findOneByOrFail({ accountId: guestAccountId });
+    expect(userInfo.accessGroup).toContain(IdentityTypeEnum.LEARNER);
+    expect(userInfo.accessGroup).not.toContain(IdentityTypeEnum.REGISTRANT);
+
+    const record = await dataSource
+      .getRepository(VerificationRecordEntity)
+      .findOneByOrFail({ id: invite.inviteId });
+    expect(record.status).toBe(VerificationRecordStatus.CONSUMED);
+    expect(record.consumedByAccountId).toBe(guestAccountId);
+
+    // 已关联的学员不能再次签发邀请
+    const again = await createInvite(customerToken, learner.id);
+    expect(again.errors?.[0]?.extensions?.errorCode).toBe('LEARNER_ALREADY_LINKED');
+  });
+
+  it('重新签发邀请会作废旧邀请', async () => {
+    const first = (await createInvite(customerToken, learner.id)).data!.createLearnerInvite;
+    const second = (await createInvite(customerToken, learner.id)).data!.createLearnerInvite;
+
+    const stale = await consumeInvite(guestToken, first.token);
+    expect(stale?.success).toBe(false);
+
+    const consumed = await consumeInvite(guestToken, second.token);
+    expect(consumed?.success).toBe(true);
+  });
+
+  it('非客户不能签发学员邀请，客户也不能消费自己发出的邀请', async () => {
+    const denied = await createInvite(guestToken, learner.id);
+    expect(denied.errors?.[0]?.extensions?.errorCode).toBe('ACCESS_DENIED');
+
+    const invite = (await createInvite(customerToken, learner.id)).data!.createLearnerInvite;
+    const selfConsumed = await consumeInvite(customerToken, invite.token);
+    expect(selfConsumed?.success).toBe(false);
+
+    const unchanged = await dataSource
+      .getRepository(LearnerEntity)
+      .findOneByOrFail({ id: learner.id });
+    expect(unchanged.accountId).toBeNull();
+  });
+});
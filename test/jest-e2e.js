@@ -6,15 +6,36 @@ const GROUPS = {
       '00-app/00-app.e2e-spec.ts',
       '01-auth/auth-identity.e2e-spec.ts',
       '01-auth/auth.e2e-spec.ts',
+      '01-auth/refresh-token.e2e-spec.ts',
+      '01-auth/logout.e2e-spec.ts',
+      '01-auth/auth-sessions.e2e-spec.ts',
+      '01-auth/mfa.e2e-spec.ts',
+      '01-auth/change-password.e2e-spec.ts',
+      '01-auth/wechat-login.e2e-spec.ts',
+      '01-auth/oidc-login.e2e-spec.ts',
+      '01-auth/impersonation.e2e-spec.ts',
+      '01-auth/sms-login.e2e-spec.ts',
+      '01-auth/magic-link.e2e-spec.ts',
       '02-register/register.e2e-spec.ts',
+      '02-register/email-verification.e2e-spec.ts',
       '03-roles-guard/roles-guard.e2e-spec.ts',
       '04-user-info/update-access-group.e2e-spec.ts',
       '04-user-info/update-visible-user-info.e2e-spec.ts',
+      '04-user-info/notifications.e2e-spec.ts',
+      '04-user-info/account-directory.e2e-spec.ts',
+      '04-user-info/account-lifecycle.e2e-spec.ts',
+      '04-user-info/account-merge.e2e-spec.ts',
+      '04-user-info/avatar-upload.e2e-spec.ts',
       '05-verification-record/verification-record.e2e-spec.ts',
       '05-verification-record/verification-record-types.e2e-spec.ts',
       '05-verification-record/verification-record-invite.e2e-spec.ts',
+      '05-verification-record/invite-management.e2e-spec.ts',
+      '05-verification-record/bulk-invite-coaches.e2e-spec.ts',
+      '05-verification-record/weapp-bind.e2e-spec.ts',
+      '05-verification-record/verification-record-events.e2e-spec.ts',
       '06-identity-management/identity-management.e2e-spec.ts',
       '06-identity-management/learner-management.e2e-spec.ts',
+      '06-identity-management/learner-invite.e2e-spec.ts',
       '06-identity-management/customer-management.e2e-spec.ts',
       '06-identity-management/coach-management.e2e-spec.ts',
       '06-identity-management/manager-management.e2e-spec.ts',